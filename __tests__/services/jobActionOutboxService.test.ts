@@ -0,0 +1,132 @@
+/**
+ * Tests for the Job Action Outbox Service
+ * Verifies receipts travel with the write, replays are skipped, transient
+ * failures stay queued in order and state machine rejections are reported
+ */
+
+import { jest, describe, test, expect, beforeEach, afterEach, afterAll } from '@jest/globals';
+import { jobActionOutboxService } from '../../services/jobActionOutboxService';
+import { JobTransitionError } from '../../utils/jobStateMachine';
+
+const mockGetDoc = jest.fn<(ref: any) => Promise<{ exists: () => boolean }>>();
+const mockUpdateJobStatus = jest.fn<(...args: any[]) => Promise<{ success: boolean; error?: string; rejected?: boolean }>>();
+const mockUpdateChecklistItem = jest.fn<(...args: any[]) => Promise<void>>();
+
+jest.mock('react-native', () => ({
+  AppState: { addEventListener: jest.fn() },
+}));
+
+jest.mock('@/lib/firebase', () => ({
+  getDb: jest.fn(async () => ({})),
+}));
+
+jest.mock('firebase/firestore', () => ({
+  doc: (_db: unknown, collection: string, id: string) => ({ path: `${collection}/${id}` }),
+  getDoc: (ref: any) => mockGetDoc(ref),
+  serverTimestamp: () => 'SERVER_TIMESTAMP',
+  arrayUnion: (...values: unknown[]) => values,
+}));
+
+jest.mock('@/utils/storage', () => ({
+  Storage: {
+    getObject: jest.fn(async () => null),
+    setObject: jest.fn(async () => undefined),
+  },
+}));
+
+jest.mock('../../services/staffJobService', () => ({
+  staffJobService: { updateJobStatus: (...args: any[]) => mockUpdateJobStatus(...args) },
+}));
+
+jest.mock('../../services/jobAssignmentService', () => ({
+  mobileJobAssignmentService: { updateJobStatus: jest.fn() },
+}));
+
+jest.mock('../../services/jobChecklistService', () => ({
+  jobChecklistService: { updateChecklistItem: (...args: any[]) => mockUpdateChecklistItem(...args) },
+}));
+
+const accept = { type: 'status_change' as const, collection: 'jobs' as const, status: 'accepted' as const };
+
+describe('jobActionOutboxService', () => {
+  beforeEach(() => {
+    mockGetDoc.mockReset().mockResolvedValue({ exists: () => false });
+    mockUpdateJobStatus.mockReset().mockResolvedValue({ success: true });
+    mockUpdateChecklistItem.mockReset().mockResolvedValue(undefined);
+  });
+
+  afterEach(async () => {
+    for (const entry of jobActionOutboxService.getEntries()) {
+      await jobActionOutboxService.discard(entry.idempotencyKey);
+    }
+  });
+
+  afterAll(() => {
+    jobActionOutboxService.destroy();
+  });
+
+  test('should hand the receipt to the service that applies the action', async () => {
+    const result = await jobActionOutboxService.enqueue('job-1', 'staff-1', accept);
+
+    expect(result).toMatchObject({ applied: true, queued: false, rejected: false });
+    const [jobId, status, staffId, , receipt] = mockUpdateJobStatus.mock.calls[0];
+    expect([jobId, status, staffId]).toEqual(['job-1', 'accepted', 'staff-1']);
+    expect(receipt).toMatchObject({
+      ref: { path: `job_action_receipts/${result.idempotencyKey}` },
+      data: { jobId: 'job-1', staffId: 'staff-1', type: 'status_change' },
+    });
+    expect(jobActionOutboxService.getEntries()).toEqual([]);
+  });
+
+  test('should skip actions that already have a receipt', async () => {
+    mockGetDoc.mockResolvedValue({ exists: () => true });
+
+    const result = await jobActionOutboxService.enqueue('job-1', 'staff-1', accept);
+
+    expect(result.applied).toBe(true);
+    expect(mockUpdateJobStatus).not.toHaveBeenCalled();
+  });
+
+  test('should keep transient failures queued and hold later actions for the same job', async () => {
+    mockUpdateJobStatus.mockResolvedValue({ success: false, error: 'unavailable' });
+
+    const first = await jobActionOutboxService.enqueue('job-1', 'staff-1', accept);
+    expect(first).toMatchObject({ applied: false, queued: true, rejected: false, error: 'unavailable' });
+
+    // The status change is retried first and still fails, so the tick waits
+    const tick = await jobActionOutboxService.enqueue('job-1', 'staff-1', { type: 'checklist_tick', itemId: 'item-1', completed: true });
+    expect(tick.queued).toBe(true);
+    expect(mockUpdateJobStatus).toHaveBeenCalledTimes(2);
+    expect(mockUpdateChecklistItem).not.toHaveBeenCalled();
+
+    mockUpdateJobStatus.mockResolvedValue({ success: true });
+    await jobActionOutboxService.flush();
+    expect(mockUpdateJobStatus).toHaveBeenCalledTimes(3);
+    expect(mockUpdateChecklistItem).toHaveBeenCalledWith('job-1', 'item-1', { completed: true }, expect.anything());
+    expect(jobActionOutboxService.getEntries()).toEqual([]);
+  });
+
+  test('should report state machine rejections and drop the action', async () => {
+    mockUpdateJobStatus.mockResolvedValue({ success: false, rejected: true, error: 'Cannot move job from cancelled to accepted' });
+
+    const result = await jobActionOutboxService.enqueue('job-1', 'staff-1', accept);
+
+    expect(result).toMatchObject({ applied: false, queued: false, rejected: true });
+    expect(result.error).toContain('cancelled');
+    expect(mockUpdateJobStatus).toHaveBeenCalledTimes(1);
+    expect(jobActionOutboxService.getEntries()).toEqual([]);
+  });
+
+  test('should treat a thrown JobTransitionError as permanent during replay', async () => {
+    mockUpdateJobStatus.mockResolvedValue({ success: false, error: 'offline' });
+    await jobActionOutboxService.enqueue('job-1', 'staff-1', accept);
+
+    mockUpdateJobStatus.mockRejectedValue(new JobTransitionError('ILLEGAL_TRANSITION', 'cancelled', 'accepted', 'staff'));
+    await jobActionOutboxService.flush();
+    await jobActionOutboxService.flush();
+
+    const [entry] = jobActionOutboxService.getEntries();
+    expect(entry).toMatchObject({ status: 'failed', rejected: true, attempts: 2 });
+    expect(mockUpdateJobStatus).toHaveBeenCalledTimes(2);
+  });
+});
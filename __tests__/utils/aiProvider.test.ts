@@ -0,0 +1,70 @@
+/**
+ * Tests for AI Provider Utilities
+ * Verifies configuration from the environment, cache keys, retry timing and
+ * per-feature token budgets
+ */
+
+import {
+  getCacheKey,
+  getRetryDelay,
+  getUsageForDay,
+  hasBudgetFor,
+  isRetryableStatus,
+  parseTokenBudgets,
+  readAIConfig,
+  recordTokenUsage,
+} from '../../utils/aiProvider';
+import type { AICompletionRequest } from '../../types/aiProvider';
+
+const request = (content: string): AICompletionRequest => ({
+  feature: 'checklist',
+  messages: [{ role: 'user', content }],
+});
+
+describe('aiProvider', () => {
+  test('should read a self-hosted endpoint and fall back to defaults', () => {
+    const config = readAIConfig({
+      EXPO_PUBLIC_AI_BASE_URL: 'http://10.0.0.5:8000/v1/',
+      EXPO_PUBLIC_AI_MODEL: 'llama3',
+      EXPO_PUBLIC_AI_RETRIES: 'lots',
+    });
+
+    expect(config.baseUrl).toBe('http://10.0.0.5:8000/v1');
+    expect(config.model).toBe('llama3');
+    expect(config.apiKey).toBeUndefined();
+    expect(config.retries).toBe(2);
+    expect(readAIConfig({ EXPO_PUBLIC_OPENAI_API_KEY: 'sk-test' }).baseUrl).toBe('https://api.openai.com/v1');
+  });
+
+  test('should key the cache on feature, model and prompt', () => {
+    const key = getCacheKey(request('Clean villa'), 'gpt-4o-mini');
+
+    expect(getCacheKey(request('Clean villa'), 'gpt-4o-mini')).toBe(key);
+    expect(getCacheKey(request('Clean villa!'), 'gpt-4o-mini')).not.toBe(key);
+    expect(getCacheKey(request('Clean villa'), 'llama3')).not.toBe(key);
+    expect(getCacheKey({ ...request('Clean villa'), feature: 'safety' }, 'gpt-4o-mini')).not.toBe(key);
+  });
+
+  test('should track token budgets per feature and reset each day', () => {
+    const budgets = parseTokenBudgets('checklist:1000, safety:0, bogus', {});
+    expect(budgets).toEqual({ checklist: 1000, safety: 0 });
+
+    let usage = getUsageForDay(undefined, new Date(2024, 0, 15, 9, 0));
+    usage = recordTokenUsage(usage, 'checklist', 800);
+
+    expect(hasBudgetFor(usage, budgets, 'checklist', 200)).toBe(true);
+    expect(hasBudgetFor(usage, budgets, 'checklist', 201)).toBe(false);
+    expect(hasBudgetFor(usage, budgets, 'safety', 1)).toBe(false);
+    expect(hasBudgetFor(usage, budgets, 'job_chat', 1000000)).toBe(true);
+    expect(getUsageForDay(usage, new Date(2024, 0, 15, 23, 0))).toBe(usage);
+    expect(getUsageForDay(usage, new Date(2024, 0, 16, 0, 30)).used).toEqual({});
+  });
+
+  test('should retry only transient failures with growing delays', () => {
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+    expect(isRetryableStatus(400)).toBe(false);
+    expect(isRetryableStatus(401)).toBe(false);
+    expect([0, 1, 2, 10].map(getRetryDelay)).toEqual([500, 1000, 2000, 8000]);
+  });
+});
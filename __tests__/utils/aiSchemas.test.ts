@@ -0,0 +1,62 @@
+/**
+ * Tests for AI Output Schemas
+ * Verifies model answers are accepted, repaired or rejected against their
+ * schemas, and that every offline template matches its own schema
+ */
+
+import { extractJson, validateAIOutput } from '../../utils/aiSchemas';
+import { buildTemplateResponse } from '../../utils/aiTemplates';
+
+describe('aiSchemas', () => {
+  test('should accept a valid answer and fill in optional lists', () => {
+    const check = validateAIOutput('staff_audit', JSON.stringify({
+      trustScore: 82,
+      qualityScore: 90,
+      comment: 'Reliable week.',
+    }));
+
+    expect(check.status).toBe('valid');
+    expect(check.data).toEqual({
+      trustScore: 82,
+      qualityScore: 90,
+      comment: 'Reliable week.',
+      recommendations: [],
+      flaggedIssues: [],
+    });
+  });
+
+  test('should pull JSON out of prose and code fences', () => {
+    expect(extractJson('Here you go:\n```json\n{"a": 1}\n```')).toEqual({ value: { a: 1 }, extracted: true });
+    expect(extractJson('Sure! {"a": [1, 2]} Hope that helps.')).toEqual({ value: { a: [1, 2] }, extracted: true });
+    expect(extractJson('No JSON here')).toBeUndefined();
+  });
+
+  test('should repair mechanical problems and report what was wrong', () => {
+    const check = validateAIOutput('checklist', `Checklist:
+[{"task": "Strip beds", "required": "true", "estimatedMinutes": "10", "icon": "bed"}]`);
+
+    expect(check.status).toBe('repaired');
+    expect(check.data).toEqual({ items: [{ task: 'Strip beds', required: true, estimatedMinutes: 10 }] });
+
+    const coerced = validateAIOutput('staff_audit', '{"trustScore": "70", "qualityScore": 65, "comment": "OK"}');
+    expect(coerced.status).toBe('repaired');
+    expect(coerced.errors).toEqual(['/trustScore must be integer']);
+    expect(coerced.data?.trustScore).toBe(70);
+  });
+
+  test('should reject answers that cannot be repaired', () => {
+    expect(validateAIOutput('staff_audit', '{"trustScore": 150, "qualityScore": 60}')).toEqual({
+      status: 'invalid',
+      errors: ["(root) must have required property 'comment'", '/trustScore must be <= 100'],
+    });
+    expect(validateAIOutput('checklist', '{"items": []}').status).toBe('invalid');
+    expect(validateAIOutput('insight', 'The schedule looks fine').errors).toEqual(['(root) is not JSON']);
+  });
+
+  test('should produce offline templates that match their schemas', () => {
+    expect(validateAIOutput('checklist', buildTemplateResponse('checklist', { jobType: 'inspection' }) ?? '').status).toBe('valid');
+    expect(validateAIOutput('photo_guidance', buildTemplateResponse('photo_guidance') ?? '').status).toBe('valid');
+    expect(validateAIOutput('staff_audit', buildTemplateResponse('staff_audit') ?? '').status).toBe('valid');
+    expect(validateAIOutput('insight', buildTemplateResponse('scheduling', { jobTypes: ['cleaning'] }) ?? '').status).toBe('valid');
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Tests for AI Templates
+ * Verifies the offline checklists, safety tips, audit scores and chat replies
+ */
+
+import {
+  buildAuditAnalysis,
+  buildChatReply,
+  buildChecklistText,
+  buildTemplateResponse,
+  getJobGroup,
+} from '../../utils/aiTemplates';
+
+describe('aiTemplates', () => {
+  test('should build a checklist for the job type', () => {
+    const checklist = buildTemplateResponse('checklist', { jobType: 'checkout_process' }) ?? '';
+    const { items } = JSON.parse(checklist);
+
+    expect(getJobGroup('checkout_process')).toBe('cleaning');
+    expect(items[0]).toEqual({
+      task: 'Check the booking notes and gather cleaning supplies',
+      required: true,
+      estimatedMinutes: 5,
+    });
+    expect(items[7]).toMatchObject({ task: 'Empty all bins and replace liners', required: false });
+    expect(buildTemplateResponse('checklist', { jobType: 'checkout_process' })).toBe(checklist);
+    expect(buildChecklistText({ jobType: 'checkout_process' }).split('\n')[7])
+      .toBe('8. Empty all bins and replace liners (optional, ~5 min)');
+  });
+
+  test('should answer safety questions from the job type tips', () => {
+    expect(buildTemplateResponse('safety', { jobType: 'maintenance' })).toContain('1. Always turn off power before electrical work');
+    expect(buildChatReply('Is it safe to use the ladder?', { jobType: 'cleaning', title: 'Villa turnover' }))
+      .toContain('Ensure proper ventilation when using chemicals');
+    expect(buildChatReply('What next?', { title: 'Villa turnover' })).toContain('Villa turnover');
+  });
+
+  test('should answer from a matched property note and cite it', () => {
+    const reply = buildChatReply('Where is the pool pump breaker?', {
+      jobType: 'pool_maintenance',
+      knowledge: [{ title: 'Pool pump breaker', body: 'Third switch from the top.', location: 'Utility room' }],
+    });
+    expect(reply).toBe('Pool pump breaker (Utility room): Third switch from the top. [1]');
+  });
+
+  test('should score an audit from the week figures', () => {
+    const analysis = buildAuditAnalysis({
+      totalJobs: 10,
+      completedJobs: 8,
+      completedOnTime: 6,
+      lateJobs: 2,
+      declinedJobs: 2,
+      missingProof: 4,
+      reviewedJobs: 5,
+      reworkedJobs: 2,
+    }, 'Maria');
+
+    expect(analysis.trustScore).toBe(77);
+    expect(analysis.qualityScore).toBe(54);
+    expect(analysis.comment).toBe('Maria fell below the expected standard this week, completing 8 of 10 jobs with 6 on time. Some issues need management attention.');
+    expect(analysis.flaggedIssues).toEqual([
+      '4 completed jobs have no photos',
+      '2 of 5 reviewed jobs sent back for rework',
+    ]);
+  });
+
+  test('should leave features that need a model to the remote provider', () => {
+    expect(buildTemplateResponse('guest_response')).toBeNull();
+    expect(buildTemplateResponse('property_description')).toBeNull();
+    expect(JSON.parse(buildTemplateResponse('staff_audit') ?? '{}').trustScore).toBe(75);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for Announcement Utilities
+ * Verifies audience resolution, property links from jobs, validation,
+ * read/acknowledgement progress and pinning
+ */
+
+import {
+  describeAudience,
+  getAnnouncementProgress,
+  getRecipientStatuses,
+  getStaffPropertyIds,
+  isAwaitingAcknowledgement,
+  resolveAudience,
+  sortPinnedFirst,
+  validateAnnouncement,
+} from '../../utils/announcements';
+import type { Announcement, AudienceStaff } from '../../types/announcement';
+
+const NOW = new Date('2026-06-10T09:00:00Z');
+
+const staff: AudienceStaff[] = [
+  { id: 's1', name: 'Ploy', role: 'cleaner', propertyIds: ['villa-a'] },
+  { id: 's2', name: 'Anan', role: 'housekeeper', propertyIds: ['villa-b'] },
+  { id: 's3', name: 'Somchai', role: 'maintenance', propertyIds: ['villa-a', 'villa-b'] },
+  { id: 's4', name: 'Nok', role: 'manager', propertyIds: [] },
+];
+
+const announcement = (overrides: Partial<Announcement> = {}): Announcement => ({
+  id: 'a1',
+  title: 'New linen policy',
+  body: 'From Monday all beds get the grey sets.',
+  audience: { type: 'role', roles: ['cleaner'] },
+  audienceLabel: 'Cleaners',
+  priority: 'normal',
+  requiresAck: true,
+  recipients: [
+    { id: 's1', name: 'Ploy', role: 'cleaner' },
+    { id: 's2', name: 'Anan', role: 'housekeeper' },
+    { id: 's5', name: 'Dao', role: 'cleaner' },
+  ],
+  recipientIds: ['s1', 's2', 's5'],
+  readBy: {},
+  acknowledgedBy: {},
+  createdBy: 's4',
+  createdByName: 'Nok',
+  createdAt: NOW,
+  ...overrides,
+});
+
+describe('announcements', () => {
+  test('should target by role, including legacy role names', () => {
+    expect(resolveAudience({ type: 'role', roles: ['cleaner'] }, staff).map(r => r.id)).toEqual(['s2', 's1']);
+    expect(resolveAudience({ type: 'all' }, staff)).toHaveLength(4);
+  });
+
+  test('should target by property and by named staff', () => {
+    expect(resolveAudience({ type: 'property', propertyIds: ['villa-b'] }, staff).map(r => r.name))
+      .toEqual(['Anan', 'Somchai']);
+    expect(resolveAudience({ type: 'staff', staffIds: ['s4'] }, staff)).toEqual([{ id: 's4', name: 'Nok', role: 'manager' }]);
+    expect(resolveAudience({ type: 'staff' }, staff)).toEqual([]);
+  });
+
+  test('should link staff to properties from open and recent jobs only', () => {
+    const links = getStaffPropertyIds([
+      { propertyId: 'villa-a', assignedStaffId: 's1', status: 'pending' },
+      { propertyId: 'villa-b', assignedTo: 's1', status: 'verified', scheduledDate: new Date('2026-06-05T00:00:00Z') },
+      { propertyId: 'villa-c', assignedStaffId: 's1', status: 'verified', scheduledDate: new Date('2026-04-01T00:00:00Z') },
+      { propertyId: 'villa-a', assignedStaffId: 's1', status: 'in_progress' },
+      { propertyId: 'villa-d', status: 'pending' },
+    ], NOW);
+    expect(links.get('s1')).toEqual(['villa-a', 'villa-b']);
+    expect(links.size).toBe(1);
+  });
+
+  test('should describe the audience', () => {
+    expect(describeAudience({ type: 'all' })).toBe('Everyone');
+    expect(describeAudience({ type: 'role', roles: ['cleaner', 'maintenance'] })).toBe('Cleaners, Maintenance');
+    expect(describeAudience({ type: 'property', propertyIds: ['villa-a'] }, { 'villa-a': 'Villa Sunset' })).toBe('Villa Sunset');
+    expect(describeAudience({ type: 'staff', staffIds: ['s1', 's2', 's3'] })).toBe('3 staff');
+  });
+
+  test('should check drafts before sending', () => {
+    const draft = {
+      title: 'Storm warning',
+      body: 'Secure the pool furniture tonight.',
+      audience: { type: 'all' as const },
+      priority: 'urgent' as const,
+      requiresAck: true,
+    };
+    expect(validateAnnouncement(draft)).toEqual([]);
+    expect(validateAnnouncement({ ...draft, title: ' ', audience: { type: 'property', propertyIds: [] } }))
+      .toEqual(['Add a title', 'Choose at least one property']);
+  });
+
+  test('should list outstanding recipients first and count progress', () => {
+    const tracked = announcement({
+      readBy: { s1: new Date('2026-06-10T09:05:00Z') },
+      acknowledgedBy: { s2: new Date('2026-06-10T09:10:00Z') },
+    });
+    expect(getRecipientStatuses(tracked).map(entry => [entry.recipient.id, entry.status])).toEqual([
+      ['s5', 'unread'],
+      ['s1', 'read'],
+      ['s2', 'acknowledged'],
+    ]);
+    expect(getAnnouncementProgress(tracked)).toEqual({ total: 3, read: 2, acknowledged: 1, outstanding: 2 });
+    expect(getAnnouncementProgress({ ...tracked, requiresAck: false }).outstanding).toBe(1);
+  });
+
+  test('should pin announcements until they are acknowledged', () => {
+    const older = { id: 'pinned', requiresAck: true, timestamp: new Date('2026-06-01T00:00:00Z') };
+    const done = { id: 'done', requiresAck: true, acknowledgedAt: NOW, timestamp: new Date('2026-06-09T00:00:00Z') };
+    const newest = { id: 'job', timestamp: NOW };
+    expect(isAwaitingAcknowledgement(older)).toBe(true);
+    expect(isAwaitingAcknowledgement(done)).toBe(false);
+    expect(sortPinnedFirst([done, newest, older]).map(n => n.id)).toEqual(['pinned', 'job', 'done']);
+  });
+});
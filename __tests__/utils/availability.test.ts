@@ -0,0 +1,108 @@
+/**
+ * Tests for Staff Availability
+ * Verifies recurring hours, exceptions, leave and shifts, and whether a job
+ * fits the resulting day
+ */
+
+import {
+  checkAvailability,
+  getDayAvailability,
+  parseWorkingHours,
+} from '../../utils/availability';
+import type { LeaveRequest, StaffSchedule } from '../../types/availability';
+
+// Monday 15 January 2024
+const schedule: StaffSchedule = {
+  staffId: 'maria',
+  weeklyHours: {
+    monday: [{ start: '09:00', end: '17:00' }],
+    tuesday: [{ start: '09:00', end: '13:00' }],
+  },
+  exceptions: [],
+  leave: [],
+  shifts: [],
+};
+
+const leave = (overrides: Partial<LeaveRequest>): LeaveRequest => ({
+  id: 'leave-1',
+  staffId: 'maria',
+  type: 'annual',
+  startDate: '2024-01-15',
+  endDate: '2024-01-16',
+  status: 'approved',
+  requestedAt: new Date(2024, 0, 1),
+  ...overrides,
+});
+
+describe('availability', () => {
+  test('should check jobs against the recurring weekly hours', () => {
+    expect(checkAvailability(schedule, new Date(2024, 0, 15, 10, 0), 120).status).toBe('available');
+    expect(checkAvailability(schedule, new Date(2024, 0, 16, 12, 0), 120)).toEqual({
+      status: 'partial',
+      reason: 'Outside working hours (09:00–13:00)',
+    });
+    expect(checkAvailability(schedule, new Date(2024, 0, 17, 10, 0), 60)).toEqual({
+      status: 'unavailable',
+      reason: 'Does not work on Wednesdays',
+    });
+  });
+
+  test('should fall back to the weekday booleans until hours are set', () => {
+    const legacy: StaffSchedule = { ...schedule, weeklyHours: undefined, legacyDays: { saturday: false } };
+
+    expect(checkAvailability(legacy, new Date(2024, 0, 20, 10, 0), 60).status).toBe('unavailable');
+    expect(checkAvailability(legacy, new Date(2024, 0, 21, 22, 0), 60).status).toBe('available');
+  });
+
+  test('should take out approved leave and sick days but ignore pending leave', () => {
+    expect(getDayAvailability({ ...schedule, leave: [leave({})] }, '2024-01-16')).toMatchObject({
+      kind: 'leave',
+      windows: [],
+      reason: 'On annual leave',
+    });
+    expect(getDayAvailability({ ...schedule, leave: [leave({ status: 'pending' })] }, '2024-01-15').kind).toBe('hours');
+
+    const sick = getDayAvailability({
+      ...schedule,
+      exceptions: [{ id: 'ex-1', staffId: 'maria', date: '2024-01-15', kind: 'sick', createdBy: 'admin' }],
+    }, '2024-01-15');
+    expect(sick).toMatchObject({ kind: 'sick', reason: 'Off sick' });
+  });
+
+  test('should cut part-day leave out of the hours and add extra hours', () => {
+    const day = getDayAvailability({
+      ...schedule,
+      leave: [leave({ endDate: '2024-01-15', hours: { start: '12:00', end: '14:00' } })],
+      exceptions: [{
+        id: 'ex-1',
+        staffId: 'maria',
+        date: '2024-01-15',
+        kind: 'extra',
+        hours: [{ start: '17:00', end: '19:00' }],
+        createdBy: 'admin',
+      }],
+    }, '2024-01-15');
+
+    expect(day.kind).toBe('partial');
+    expect(day.windows).toEqual([{ start: 540, end: 720 }, { start: 840, end: 1140 }]);
+  });
+
+  test('should use planned shifts over the usual hours', () => {
+    const day = getDayAvailability({
+      ...schedule,
+      shifts: [{ id: 'shift-1', staffId: 'maria', date: '2024-01-17', start: '14:00', end: '22:00', createdBy: 'admin' }],
+    }, '2024-01-17');
+
+    expect(day).toMatchObject({ kind: 'shift', windows: [{ start: 840, end: 1320 }] });
+  });
+
+  test('should parse typed working hours', () => {
+    expect(parseWorkingHours('9:00-12:00, 13:00 - 17:30')).toEqual([
+      { start: '09:00', end: '12:00' },
+      { start: '13:00', end: '17:30' },
+    ]);
+    expect(parseWorkingHours('')).toEqual([]);
+    expect(parseWorkingHours('17:00-09:00')).toBeNull();
+    expect(parseWorkingHours('morning')).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for Conflict Merge
+ * Verifies the field-level three-way merge used by SyncService and how local
+ * edits are detected as diverged from the synced base
+ */
+
+import {
+  mergeEntity,
+  applyFieldChoices,
+  applyLocalEdit,
+  getRevision,
+  hasDiverged,
+} from '../../utils/conflictMerge';
+
+const baseBooking = {
+  id: 'booking-1',
+  guestName: 'Jane Doe',
+  checkIn: '2024-01-15',
+  checkOut: '2024-01-18',
+  status: 'confirmed',
+  assignedStaff: ['staff-1'],
+  totalAmount: 900,
+  lastUpdated: 1000,
+  version: 3,
+};
+
+describe('conflictMerge', () => {
+  test('should take each side for fields only that side changed', () => {
+    const local = { ...baseBooking, guestName: 'Jane Smith', version: 4, lastUpdated: 2000 };
+    const remote = { ...baseBooking, checkOut: '2024-01-19', version: 4, lastUpdated: 1500 };
+
+    const result = mergeEntity('booking', baseBooking, local, remote);
+
+    expect(result.reviewFields).toEqual([]);
+    expect(result.autoMergedFields.sort()).toEqual(['checkOut', 'guestName']);
+    expect(result.merged.guestName).toBe('Jane Smith');
+    expect(result.merged.checkOut).toBe('2024-01-19');
+  });
+
+  test('should flag fields both sides changed differently for review', () => {
+    const local = { ...baseBooking, totalAmount: 950 };
+    const remote = { ...baseBooking, totalAmount: 1000 };
+
+    const result = mergeEntity('booking', baseBooking, local, remote);
+
+    expect(result.reviewFields).toEqual(['totalAmount']);
+    expect(result.diffs.find(d => d.field === 'totalAmount')).toEqual({
+      field: 'totalAmount',
+      base: 900,
+      local: 950,
+      remote: 1000,
+      status: 'review',
+    });
+  });
+
+  test('should merge set fields keeping additions and removals from both sides', () => {
+    const base = { ...baseBooking, assignedStaff: ['staff-1', 'staff-2'] };
+    const local = { ...base, assignedStaff: ['staff-1', 'staff-2', 'staff-3'] };
+    const remote = { ...base, assignedStaff: ['staff-2', 'staff-4'] };
+
+    const result = mergeEntity('booking', base, local, remote);
+
+    expect(result.reviewFields).toEqual([]);
+    expect(result.merged.assignedStaff).toEqual(['staff-2', 'staff-3', 'staff-4']);
+  });
+
+  test('should send every differing field to review without a base', () => {
+    const local = { ...baseBooking, guestName: 'Jane Smith' };
+    const remote = { ...baseBooking, checkOut: '2024-01-19' };
+
+    const result = mergeEntity('booking', null, local, remote);
+
+    expect(result.reviewFields.sort()).toEqual(['checkOut', 'guestName']);
+  });
+
+  test('should apply reviewer choices and require one per review field', () => {
+    const local = { ...baseBooking, totalAmount: 950, status: 'checked-in' };
+    const remote = { ...baseBooking, totalAmount: 1000, status: 'cancelled' };
+    const result = mergeEntity('booking', baseBooking, local, remote);
+
+    expect(() => applyFieldChoices(result, local, remote, { totalAmount: 'local' })).toThrow('status');
+
+    const merged = applyFieldChoices(result, local, remote, { totalAmount: 'local', status: 'remote' });
+    expect(merged.totalAmount).toBe(950);
+    expect(merged.status).toBe('cancelled');
+  });
+
+  test('should read version or syncVersion as the revision', () => {
+    expect(getRevision({ version: 5 })).toBe(5);
+    expect(getRevision({ syncVersion: 2 })).toBe(2);
+    expect(getRevision(null)).toBe(0);
+  });
+
+  test('should give local edits the next revision', () => {
+    const edited = applyLocalEdit(baseBooking, { guestName: 'Jane Smith' }, 5000);
+
+    expect(edited).toMatchObject({ guestName: 'Jane Smith', version: 4, lastUpdated: 5000 });
+    expect(applyLocalEdit({ id: 'p1', status: 'clean' }, { status: 'dirty' }, 5000).version).toBe(1);
+  });
+
+  test('should detect a remote change landing on a pending local edit', () => {
+    const local = applyLocalEdit(baseBooking, { guestName: 'Jane Smith' }, 5000);
+    const remote = { ...baseBooking, checkOut: '2024-01-19', version: 4, lastUpdated: 4000 };
+
+    expect(hasDiverged(local, remote, baseBooking)).toBe(true);
+    expect(mergeEntity('booking', baseBooking, local, remote).autoMergedFields.sort()).toEqual(['checkOut', 'guestName']);
+  });
+
+  test('should detect remote writers that only move lastUpdated', () => {
+    const local = applyLocalEdit(baseBooking, { guestName: 'Jane Smith' }, 5000);
+    const remote = { ...baseBooking, totalAmount: 1000, lastUpdated: 4000 };
+
+    expect(hasDiverged(local, remote, baseBooking)).toBe(true);
+  });
+
+  test('should not treat unchanged copies or our own echoed edit as diverged', () => {
+    const local = applyLocalEdit(baseBooking, { guestName: 'Jane Smith' }, 5000);
+    const echo = { ...local, lastUpdated: 6000, syncStatus: 'synced' };
+
+    expect(hasDiverged(local, echo, baseBooking)).toBe(false);
+    expect(hasDiverged(baseBooking, { ...baseBooking, totalAmount: 1000, version: 4 }, baseBooking)).toBe(false);
+    expect(hasDiverged(null, baseBooking, baseBooking)).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for Escalation Policy Engine
+ * Verifies policy selection, trigger timing, step delays and conditions,
+ * and the keys that keep each step from firing twice
+ */
+
+import {
+  DEFAULT_ESCALATION_POLICIES,
+  getDueEscalationSteps,
+  getTriggerStart,
+  selectPolicy,
+} from '../../utils/escalationPolicy';
+import type { EscalationJob, EscalationPolicy } from '../../types/escalation';
+
+const job = (overrides: Partial<EscalationJob>): EscalationJob => ({
+  id: 'job-1',
+  title: 'Turnover clean',
+  status: 'accepted',
+  priority: 'medium',
+  jobType: 'cleaning',
+  propertyId: 'prop-1',
+  assignedStaffId: 'staff-1',
+  estimatedDuration: 120,
+  ...overrides,
+});
+
+const at = (time: string) => new Date(`2024-03-01T${time}:00Z`);
+
+describe('escalationPolicy', () => {
+  test('should pick the most specific enabled policy for a trigger', () => {
+    const villaPolicy: EscalationPolicy = {
+      ...DEFAULT_ESCALATION_POLICIES[1],
+      id: 'villa_not_started',
+      conditions: { propertyIds: ['prop-1'] },
+    };
+    const policies = [...DEFAULT_ESCALATION_POLICIES, villaPolicy];
+
+    expect(selectPolicy(policies, 'not_started', job({}))?.id).toBe('villa_not_started');
+    expect(selectPolicy(policies, 'not_started', job({ propertyId: 'prop-2' }))?.id).toBe('default_not_started');
+    expect(selectPolicy([{ ...villaPolicy, enabled: false }], 'not_started', job({}))).toBeNull();
+  });
+
+  test('should release not-started steps as their delays pass', () => {
+    const missed = job({ scheduledFor: at('09:00') });
+
+    expect(getDueEscalationSteps(DEFAULT_ESCALATION_POLICIES, missed, at('09:05'))).toHaveLength(0);
+    expect(getDueEscalationSteps(DEFAULT_ESCALATION_POLICIES, missed, at('09:12')).map(d => d.step.id)).toEqual(['remind']);
+    expect(getDueEscalationSteps(DEFAULT_ESCALATION_POLICIES, missed, at('09:20')).map(d => d.step.id))
+      .toEqual(['remind', 'supervisor', 'admin']);
+    expect(getDueEscalationSteps(DEFAULT_ESCALATION_POLICIES, { ...missed, status: 'in_progress' }, at('09:20'))).toHaveLength(0);
+  });
+
+  test('should only auto-reassign high and urgent jobs', () => {
+    const stalled = job({ status: 'assigned', assignedAt: at('08:00') });
+    const steps = (priority: EscalationJob['priority']) =>
+      getDueEscalationSteps(DEFAULT_ESCALATION_POLICIES, { ...stalled, priority }, at('09:00')).map(d => d.step.id);
+
+    expect(steps('medium')).toEqual(['remind', 'supervisor', 'admin']);
+    expect(steps('urgent')).toEqual(['remind', 'supervisor', 'reassign', 'admin']);
+  });
+
+  test('should flag check-in risk once the latest viable start has passed', () => {
+    const turnover = job({ guestCheckIn: at('15:00') });
+
+    // 120 min job plus a 60 min buffer must start by 12:00
+    expect(getTriggerStart('checkin_at_risk', 60, turnover, at('11:59'))).toBeNull();
+    expect(getTriggerStart('checkin_at_risk', 60, turnover, at('12:30'))).toEqual(at('12:00'));
+    expect(getTriggerStart('checkin_at_risk', 60, { ...turnover, startedAt: at('11:30') }, at('12:30'))).toBeNull();
+    expect(getTriggerStart('checkin_at_risk', 60, { ...turnover, status: 'completed' }, at('12:30'))).toBeNull();
+  });
+
+  test('should start a fresh cycle when the job is reassigned', () => {
+    const first = getDueEscalationSteps(
+      DEFAULT_ESCALATION_POLICIES,
+      job({ status: 'assigned', assignedAt: at('08:00') }),
+      at('08:40')
+    );
+    const second = getDueEscalationSteps(
+      DEFAULT_ESCALATION_POLICIES,
+      job({ status: 'reassigned', assignedAt: at('08:10') }),
+      at('08:40')
+    );
+
+    expect(first[0].key).not.toBe(second[0].key);
+    expect(getDueEscalationSteps(DEFAULT_ESCALATION_POLICIES, job({ status: 'assigned', assignedAt: at('08:00') }), at('08:40'))[0].key)
+      .toBe(first[0].key);
+  });
+});
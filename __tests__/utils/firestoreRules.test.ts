@@ -0,0 +1,43 @@
+/**
+ * Tests for Firestore Rules Builder
+ * Verifies the generated rules functions and splicing into a rules file
+ */
+
+import {
+  buildPermissionRules,
+  replaceGeneratedRules,
+  ruleFunctionName,
+  GENERATED_RULES_START,
+  GENERATED_RULES_END,
+} from '../../utils/firestoreRules';
+
+describe('firestoreRules', () => {
+  test('should emit one function per resource and action with each role scope', () => {
+    const block = buildPermissionRules('');
+
+    expect(ruleFunctionName('approve', 'jobs')).toBe('canApproveJobs');
+    expect(block).toContain("function canApproveJobs(ownerId) {\n  return request.auth != null && inScope({'admin': 'all', 'manager': 'all', 'supervisor': 'team'}");
+    expect(block).toContain("function canWriteBookings(ownerId) {\n  return request.auth != null && inScope({'admin': 'all', 'manager': 'all'}");
+    expect(block.startsWith(GENERATED_RULES_START)).toBe(true);
+    expect(block.endsWith(GENERATED_RULES_END)).toBe(true);
+  });
+
+  test('should replace only the generated block', () => {
+    const rules = [
+      'service cloud.firestore {',
+      `    ${GENERATED_RULES_START}`,
+      '    function stale() { return true; }',
+      `    ${GENERATED_RULES_END}`,
+      '    match /jobs/{jobId} {}',
+      '}',
+    ].join('\n');
+
+    const next = replaceGeneratedRules(rules, buildPermissionRules());
+
+    expect(next).not.toContain('stale()');
+    expect(next).toContain('function canReadJobs(ownerId)');
+    expect(next).toContain('    match /jobs/{jobId} {}');
+    expect(replaceGeneratedRules(next, buildPermissionRules())).toBe(next);
+    expect(() => replaceGeneratedRules('service cloud.firestore {}', '')).toThrow();
+  });
+});
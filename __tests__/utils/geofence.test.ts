@@ -0,0 +1,97 @@
+/**
+ * Tests for Geofence and Time-on-Site
+ * Verifies enter/exit hysteresis, inaccurate fixes, on-site minutes and the
+ * suspicious patterns flagged for admins
+ */
+
+import {
+  computeOnSiteMinutes,
+  detectSiteTimeFlags,
+  evaluateGeofence,
+} from '../../utils/geofence';
+import type { GeofenceEvent, GeofenceEventType } from '../../types/geofence';
+
+const property = { latitude: 7.8804, longitude: 98.3923 };
+
+// Roughly `meters` north of the property
+const north = (meters: number, accuracy = 5) => ({
+  latitude: property.latitude + meters / 111320,
+  longitude: property.longitude,
+  accuracy,
+  timestamp: new Date('2024-03-01T09:00:00Z'),
+});
+
+const at = (time: string) => new Date(`2024-03-01T${time}:00Z`);
+
+const event = (type: GeofenceEventType, time: string): GeofenceEvent => ({
+  id: `${type}_${time}`,
+  jobId: 'job-1',
+  staffId: 'staff-1',
+  type,
+  timestamp: at(time),
+  coordinates: property,
+  accuracy: 5,
+  distanceMeters: 0,
+});
+
+describe('geofence', () => {
+  test('should enter inside the radius and only exit beyond the buffer', () => {
+    expect(evaluateGeofence(null, north(200), property).event).toBeNull();
+    expect(evaluateGeofence(false, north(50), property).event).toBe('enter');
+    expect(evaluateGeofence(true, north(90), property)).toMatchObject({ inside: true, event: null });
+    expect(evaluateGeofence(true, north(120), property)).toMatchObject({ inside: false, event: 'exit' });
+  });
+
+  test('should ignore fixes less accurate than the limit', () => {
+    expect(evaluateGeofence(true, north(500, 120), property)).toMatchObject({ inside: true, event: null });
+    expect(evaluateGeofence(null, north(10, 80), property)).toMatchObject({ inside: null, event: null });
+  });
+
+  test('should count on-site minutes within the job window', () => {
+    const events = [
+      event('enter', '08:50'),
+      event('exit', '09:30'),
+      event('enter', '09:45'),
+      event('exit', '11:00'),
+    ];
+
+    expect(computeOnSiteMinutes(events, at('09:00'), at('10:30'))).toBe(75);
+    expect(computeOnSiteMinutes(events, at('09:00'), at('11:30'))).toBe(105);
+    expect(computeOnSiteMinutes([], at('09:00'), at('10:00'))).toBe(0);
+  });
+
+  test('should flag leaving mid-job, completing off site and short visits', () => {
+    const events = [event('enter', '09:00'), event('exit', '09:20'), event('enter', '09:40'), event('exit', '09:50')];
+    const onSite = computeOnSiteMinutes(events, at('09:00'), at('10:00'));
+    const flags = detectSiteTimeFlags({
+      events,
+      startedAt: at('09:00'),
+      completedAt: at('10:00'),
+      estimatedDuration: 120,
+      checkInAccuracy: 140,
+      checkInAt: at('08:58'),
+    }, onSite);
+
+    expect(onSite).toBe(30);
+    expect(flags.map(flag => flag.kind)).toEqual([
+      'low_accuracy_check_in',
+      'left_site_mid_job',
+      'left_site_mid_job',
+      'completed_off_site',
+      'short_time_on_site',
+    ]);
+  });
+
+  test('should not flag a clean visit', () => {
+    const events = [event('enter', '08:55'), event('exit', '11:05')];
+    const onSite = computeOnSiteMinutes(events, at('09:00'), at('11:00'));
+
+    expect(detectSiteTimeFlags({
+      events,
+      startedAt: at('09:00'),
+      completedAt: at('11:00'),
+      estimatedDuration: 120,
+      checkInAccuracy: 8,
+    }, onSite)).toEqual([]);
+  });
+});
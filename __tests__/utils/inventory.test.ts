@@ -0,0 +1,83 @@
+/**
+ * Tests for Inventory
+ * Verifies consumption rules, usage reconciliation and the shopping list
+ */
+
+import {
+  getExpectedConsumption,
+  reconcileJobUsage,
+  getRestockQuantity,
+  buildShoppingList,
+} from '../../utils/inventory';
+import type { InventoryConsumptionRule, PropertyStockLevel } from '../../types/inventory';
+
+const level = (overrides: Partial<PropertyStockLevel>): PropertyStockLevel => ({
+  id: `${overrides.propertyId || 'p1'}_${overrides.itemId || 'towels'}`,
+  propertyId: 'p1',
+  itemId: 'towels',
+  itemName: 'Bath Towels',
+  category: 'linen',
+  unit: 'pcs',
+  quantity: 10,
+  parLevel: 12,
+  ...overrides,
+});
+
+describe('inventory', () => {
+  test('should prefer a property rule over the default rule for a job type', () => {
+    const rules: InventoryConsumptionRule[] = [
+      { id: 'r1', jobType: 'cleaning', items: [{ itemId: 'towels', quantity: 4 }] },
+      { id: 'r2', jobType: 'cleaning', propertyId: 'villa', items: [{ itemId: 'towels', quantity: 8 }] },
+      { id: 'r3', jobType: 'maintenance', items: [{ itemId: 'bulbs', quantity: 1 }] },
+    ];
+
+    expect(getExpectedConsumption('cleaning', 'condo', rules)).toEqual({ towels: 4 });
+    expect(getExpectedConsumption('cleaning', 'villa', rules)).toEqual({ towels: 8 });
+    expect(getExpectedConsumption('inspection', 'villa', rules)).toEqual({});
+  });
+
+  test('should apply counts before reported usage before expected consumption', () => {
+    const stock = [
+      { itemId: 'towels', quantity: 10 },
+      { itemId: 'soap', quantity: 6 },
+      { itemId: 'rolls', quantity: 8 },
+      { itemId: 'bulbs', quantity: 3 },
+    ];
+    const changes = reconcileJobUsage(
+      stock,
+      { towels: 4, soap: 2, rolls: 2 },
+      [
+        { itemId: 'towels', used: 6, remaining: 5 },
+        { itemId: 'soap', used: 9 },
+      ]
+    );
+
+    expect(changes).toEqual([
+      { itemId: 'towels', quantityBefore: 10, quantityAfter: 5, change: -5, reason: 'count' },
+      { itemId: 'soap', quantityBefore: 6, quantityAfter: 0, change: -6, reason: 'consumption' },
+      { itemId: 'rolls', quantityBefore: 8, quantityAfter: 6, change: -2, reason: 'consumption' },
+    ]);
+  });
+
+  test('should round restock quantities up to whole packs', () => {
+    expect(getRestockQuantity({ quantity: 10, parLevel: 12 })).toBe(2);
+    expect(getRestockQuantity({ quantity: 3, parLevel: 12, reorderQuantity: 6 })).toBe(12);
+    expect(getRestockQuantity({ quantity: 12, parLevel: 12, reorderQuantity: 6 })).toBe(0);
+  });
+
+  test('should group items below par across properties', () => {
+    const list = buildShoppingList([
+      level({ propertyId: 'p1', propertyName: 'Villa Mango', quantity: 2 }),
+      level({ propertyId: 'p2', propertyName: 'Beach House', quantity: 0, reorderQuantity: 5 }),
+      level({ propertyId: 'p3', quantity: 20 }),
+      level({ propertyId: 'p1', itemId: 'bleach', itemName: 'Bleach', category: 'cleaning', quantity: 1, parLevel: 3 }),
+    ]);
+
+    expect(list.map(line => line.itemId)).toEqual(['bleach', 'towels']);
+    expect(list[1].totalQuantity).toBe(25);
+    expect(list[1].properties).toEqual([
+      { propertyId: 'p1', propertyName: 'Villa Mango', quantity: 10, onHand: 2, parLevel: 12 },
+      { propertyId: 'p2', propertyName: 'Beach House', quantity: 15, onHand: 0, parLevel: 12 },
+    ]);
+  });
+});
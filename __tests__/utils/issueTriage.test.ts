@@ -0,0 +1,88 @@
+/**
+ * Tests for Issue Triage
+ * Verifies issue validation, follow-up job creation and status sync
+ */
+
+import {
+  validateIssueInput,
+  buildFollowUpJob,
+  getIssueStatusForJob,
+  sortIssuesBySeverity,
+} from '../../utils/issueTriage';
+import type { Issue } from '../../types/issue';
+
+const issue = (overrides: Partial<Issue> = {}): Issue => ({
+  id: 'issue1',
+  propertyId: 'villa-1',
+  jobId: 'job-1',
+  reportedBy: 'staff-1',
+  title: 'Cracked glass table',
+  description: 'Top is cracked across the middle',
+  severity: 'high',
+  category: 'guest_damage',
+  location: 'Living room',
+  photos: [],
+  costEstimate: 250,
+  bookingRef: 'BK-42',
+  guestName: 'J. Smith',
+  status: 'open',
+  createdAt: new Date('2024-03-01T10:00:00Z'),
+  updatedAt: new Date('2024-03-01T10:00:00Z'),
+  ...overrides,
+});
+
+describe('issueTriage', () => {
+  test('should require a location and a booking for guest damage', () => {
+    const { bookingRef, ...withoutBooking } = issue();
+
+    expect(validateIssueInput(issue())).toEqual([]);
+    expect(validateIssueInput({ ...withoutBooking, location: ' ' })).toEqual([
+      'Say where in the property the issue is',
+      'Guest damage must be linked to a booking',
+    ]);
+    expect(validateIssueInput({ ...withoutBooking, category: 'plumbing', costEstimate: -5 })).toEqual([
+      'Cost estimate must be a positive number',
+    ]);
+  });
+
+  test('should build a maintenance job linked back to the issue', () => {
+    const job = buildFollowUpJob(issue({ severity: 'critical' }), { assignedStaffId: 'tech-1', scheduledDate: '2024-03-02' });
+
+    expect(job).toMatchObject({
+      propertyId: 'villa-1',
+      jobType: 'maintenance',
+      title: 'Guest Damage: Cracked glass table',
+      priority: 'urgent',
+      assignedStaffId: 'tech-1',
+      status: 'assigned',
+      scheduledDate: '2024-03-02',
+      generatedBy: 'issue_triage',
+      issueId: 'issue1',
+      bookingId: 'BK-42',
+    });
+    expect(job.description).toContain('Booking: BK-42 (J. Smith)');
+
+    const unassigned = buildFollowUpJob(issue({ category: 'plumbing', bookingRef: undefined }));
+    expect(unassigned.status).toBe('pending');
+    expect(unassigned.requiredSkills).toEqual(['plumbing']);
+    expect(unassigned).not.toHaveProperty('bookingId');
+  });
+
+  test('should keep the issue open until the follow-up job is verified', () => {
+    expect(getIssueStatusForJob('pending')).toBe('triaged');
+    expect(getIssueStatusForJob('completed')).toBe('triaged');
+    expect(getIssueStatusForJob('verified')).toBe('resolved');
+    expect(getIssueStatusForJob('canceled')).toBe('open');
+  });
+
+  test('should sort the most severe and most recent issues first', () => {
+    const sorted = sortIssuesBySeverity([
+      issue({ id: 'a', severity: 'low' }),
+      issue({ id: 'b', severity: 'critical', createdAt: new Date('2024-03-01') }),
+      issue({ id: 'c', severity: 'critical', createdAt: new Date('2024-03-05') }),
+      issue({ id: 'd', severity: 'medium' }),
+    ]);
+
+    expect(sorted.map(i => i.id)).toEqual(['c', 'b', 'd', 'a']);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for the Itinerary Builder
+ * Verifies route ordering, check-in deadlines, date-only check-ins and
+ * overrun re-ordering
+ */
+
+import {
+  buildItinerary,
+  evaluateRoute,
+  suggestReorderOnOverrun,
+  toItineraryStop,
+  ItineraryStop,
+} from '../../utils/itineraryBuilder';
+import type { Job } from '../../types/job';
+
+// Monday 15 January 2024
+const at = (hours: number, minutes = 0) => new Date(2024, 0, 15, hours, minutes);
+
+const home = { latitude: 7.8800, longitude: 98.3900 };
+
+// Three villas roughly in a line heading north
+const villaA: ItineraryStop = {
+  jobId: 'job-a',
+  title: 'Villa A',
+  coordinates: { latitude: 7.8900, longitude: 98.3900 },
+  estimatedDuration: 60,
+};
+const villaB: ItineraryStop = {
+  jobId: 'job-b',
+  title: 'Villa B',
+  coordinates: { latitude: 7.9200, longitude: 98.3900 },
+  estimatedDuration: 60,
+};
+const villaC: ItineraryStop = {
+  jobId: 'job-c',
+  title: 'Villa C',
+  coordinates: { latitude: 7.9600, longitude: 98.3900 },
+  estimatedDuration: 60,
+};
+
+describe('itineraryBuilder', () => {
+  test('should order stops by travel distance', () => {
+    const itinerary = buildItinerary([villaC, villaA, villaB], { startTime: at(8), startLocation: home });
+
+    expect(itinerary.legs.map(leg => leg.jobId)).toEqual(['job-a', 'job-b', 'job-c']);
+    expect(itinerary.legs.map(leg => leg.order)).toEqual([1, 2, 3]);
+    expect(itinerary.lateJobIds).toEqual([]);
+  });
+
+  test('should visit an early check-in first even if it means more driving', () => {
+    const urgentC = { ...villaC, latestFinish: at(9, 30) };
+    const itinerary = buildItinerary([villaA, villaB, urgentC], { startTime: at(8), startLocation: home });
+
+    expect(itinerary.legs[0].jobId).toBe('job-c');
+    expect(itinerary.lateJobIds).toEqual([]);
+  });
+
+  test('should wait for a scheduled start and report late finishes', () => {
+    const itinerary = evaluateRoute(
+      [{ ...villaA, earliestStart: at(10) }, { ...villaB, latestFinish: at(10, 30) }],
+      { startTime: at(8), startLocation: home }
+    );
+
+    expect(itinerary.legs[0].startAt).toEqual(at(10));
+    expect(itinerary.legs[0].waitMinutes).toBeGreaterThan(100);
+    expect(itinerary.legs[1].lateByMinutes).toBeGreaterThan(0);
+    expect(itinerary.lateJobIds).toEqual(['job-b']);
+  });
+
+  test('should suggest a new order when the running job overruns', () => {
+    const running = { ...villaA, inProgress: true, startedAt: at(8) };
+    const urgentC = { ...villaC, latestFinish: at(11, 15) };
+
+    // Still within the estimate
+    expect(suggestReorderOnOverrun([running, villaB, urgentC], at(8, 30))).toBeNull();
+
+    const suggestion = suggestReorderOnOverrun([running, villaB, urgentC], at(9, 30));
+    expect(suggestion).not.toBeNull();
+    expect(suggestion?.overrunMinutes).toBe(30);
+    expect(suggestion?.suggested.legs.map(leg => leg.jobId)).toEqual(['job-c', 'job-b']);
+    expect(suggestion?.lateJobsAvoided).toEqual(['job-c']);
+  });
+
+  test('should read a date-only check-in as the property check-in time in local time', () => {
+    const job = { id: 'job-d', title: 'Villa D', status: 'accepted', estimatedDuration: 90, checkInDate: '2024-01-15' } as Job;
+
+    expect(toItineraryStop(job, '14:00').latestFinish).toEqual(at(14));
+    expect(toItineraryStop(job).latestFinish).toEqual(at(15));
+    expect(toItineraryStop({ ...job, checkInDate: at(12, 30) }, '14:00').latestFinish).toEqual(at(12, 30));
+  });
+});
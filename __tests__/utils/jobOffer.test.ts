@@ -0,0 +1,78 @@
+/**
+ * Tests for Job Offer Planning
+ * Verifies candidate order, broadcast fallback, expiry and which pool
+ * members are still open
+ */
+
+import {
+  DEFAULT_JOB_OFFER_SETTINGS,
+  canAcceptOffer,
+  closeOffer,
+  getOpenRecipients,
+  openOffer,
+  planNextOffer,
+} from '../../utils/jobOffer';
+import type { JobOfferHistoryEntry } from '../../types/jobOffer';
+
+const now = new Date('2024-03-01T09:00:00Z');
+const candidates = ['anna', 'ben', 'cara'];
+const pool = ['anna', 'ben', 'cara', 'dev', 'eli'];
+
+describe('jobOffer', () => {
+  test('should offer candidates one at a time in rank order', () => {
+    const first = planNextOffer(candidates, pool, [], DEFAULT_JOB_OFFER_SETTINGS, now)!;
+    expect(first.mode).toBe('single');
+    expect(first.staffIds).toEqual(['anna']);
+    expect(first.round).toBe(1);
+    expect(first.expiresAt).toEqual(new Date('2024-03-01T09:30:00Z'));
+
+    const history = [...openOffer(first), ...closeOffer(first, ['anna'], 'expired', first.expiresAt)];
+    const second = planNextOffer(candidates, pool, history, DEFAULT_JOB_OFFER_SETTINGS, first.expiresAt)!;
+    expect(second.staffIds).toEqual(['ben']);
+    expect(second.round).toBe(2);
+  });
+
+  test('should broadcast to the pool minus decliners once candidates run out', () => {
+    const history: JobOfferHistoryEntry[] = [
+      { offerId: 'offer_1', mode: 'single', staffId: 'anna', outcome: 'declined', at: now },
+      { offerId: 'offer_2', mode: 'single', staffId: 'ben', outcome: 'expired', at: now },
+      { offerId: 'offer_3', mode: 'single', staffId: 'cara', outcome: 'expired', at: now },
+    ];
+
+    const broadcast = planNextOffer(candidates, pool, history, DEFAULT_JOB_OFFER_SETTINGS, now)!;
+    expect(broadcast.mode).toBe('broadcast');
+    expect(broadcast.staffIds).toEqual(['ben', 'cara', 'dev', 'eli']);
+    expect(broadcast.round).toBe(4);
+  });
+
+  test('should give up after the broadcast or when broadcasts are off', () => {
+    const singlesDone: JobOfferHistoryEntry[] = candidates.map((staffId, i) => ({
+      offerId: `offer_${i}`, mode: 'single', staffId, outcome: 'expired', at: now,
+    }));
+    const afterBroadcast: JobOfferHistoryEntry[] = [
+      ...singlesDone,
+      { offerId: 'offer_9', mode: 'broadcast', staffId: 'dev', outcome: 'expired', at: now },
+    ];
+
+    expect(planNextOffer(candidates, pool, afterBroadcast, DEFAULT_JOB_OFFER_SETTINGS, now)).toBeNull();
+    expect(planNextOffer(candidates, pool, singlesDone, { ...DEFAULT_JOB_OFFER_SETTINGS, broadcastEnabled: false }, now)).toBeNull();
+  });
+
+  test('should only let recipients accept before the offer expires', () => {
+    const offer = planNextOffer(candidates, pool, [], DEFAULT_JOB_OFFER_SETTINGS, now)!;
+
+    expect(canAcceptOffer(offer, 'anna', new Date('2024-03-01T09:29:00Z'))).toBe(true);
+    expect(canAcceptOffer(offer, 'anna', new Date('2024-03-01T09:30:00Z'))).toBe(false);
+    expect(canAcceptOffer(offer, 'ben', now)).toBe(false);
+    expect(canAcceptOffer(null, 'anna', now)).toBe(false);
+  });
+
+  test('should keep a broadcast open until every pool member has answered', () => {
+    const broadcast = { id: 'offer_b', round: 4, mode: 'broadcast' as const, staffIds: ['dev', 'eli'], offeredAt: now, expiresAt: now };
+    const history = [...openOffer(broadcast), ...closeOffer(broadcast, ['dev'], 'declined', now, 'Too far')];
+
+    expect(getOpenRecipients(broadcast, history)).toEqual(['eli']);
+    expect(history[2].reason).toBe('Too far');
+    expect(getOpenRecipients(broadcast, [...history, ...closeOffer(broadcast, ['eli'], 'declined', now)])).toEqual([]);
+  });
+});
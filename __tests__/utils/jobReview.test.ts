@@ -0,0 +1,91 @@
+/**
+ * Tests for Job Review
+ * Verifies photo grouping, rework checklists and the rework quality penalty
+ */
+
+import {
+  groupPhotosByRequirement,
+  buildReworkChecklist,
+  reopenRequirements,
+  summarizeReviews,
+  applyReworkPenalty,
+} from '../../utils/jobReview';
+import type { ChecklistItem } from '../../services/jobChecklistService';
+import type { ReworkItem } from '../../types/job';
+
+const checklistItem = (id: string, order: number): ChecklistItem => ({
+  id,
+  label: `Item ${id}`,
+  category: 'execution',
+  required: true,
+  completed: true,
+  completedAt: new Date('2024-03-01T10:00:00Z'),
+  completedBy: 'staff-1',
+  order,
+});
+
+describe('jobReview', () => {
+  test('should group photos by requirement and keep the rest as other photos', () => {
+    const groups = groupPhotosByRequirement(
+      [
+        { id: 'bed', type: 'bedroom', description: 'Beds made', isCompleted: true, photoUrls: ['https://p/1'] },
+        { id: 'pool', type: 'pool', description: 'Pool clean', isCompleted: false, photoUrls: [] },
+      ],
+      ['https://p/1', 'https://p/2']
+    );
+
+    expect(groups.map(group => group.title)).toEqual(['Beds made', 'Pool clean', 'Other photos']);
+    expect(groups[2].photoUrls).toEqual(['https://p/2']);
+    expect(groups[2].requirementId).toBeUndefined();
+  });
+
+  test('should reopen failed checklist items and add the rest as new required items', () => {
+    const failed: ReworkItem[] = [
+      { id: 'f1', description: 'Bathroom mirror smeared', source: 'checklist', sourceId: 'a' },
+      { id: 'f2', description: 'Towels missing', source: 'note' },
+    ];
+
+    const items = buildReworkChecklist([checklistItem('a', 1), checklistItem('b', 2)], failed, 'job-1', 1);
+
+    expect(items).toHaveLength(3);
+    expect(items[0]).toMatchObject({ completed: false, notes: 'Rework: Bathroom mirror smeared' });
+    expect(items[0]).not.toHaveProperty('completedAt');
+    expect(items[0]).not.toHaveProperty('completedBy');
+    expect(items[1].completed).toBe(true);
+    expect(items[2]).toMatchObject({
+      id: 'job-1_rework_1_1',
+      label: 'Rework: Towels missing',
+      required: true,
+      completed: false,
+      order: 3,
+    });
+  });
+
+  test('should mark only failed requirements incomplete', () => {
+    const requirements = reopenRequirements(
+      [
+        { id: 'r1', description: 'Restock minibar', isCompleted: true, completedBy: 'staff-1' },
+        { id: 'r2', description: 'Check smoke alarm', isCompleted: true, completedBy: 'staff-1' },
+      ],
+      [{ id: 'f1', description: 'Minibar half empty', source: 'requirement', sourceId: 'r1' }]
+    );
+
+    expect(requirements[0].isCompleted).toBe(false);
+    expect(requirements[0]).not.toHaveProperty('completedBy');
+    expect(requirements[1]).toMatchObject({ isCompleted: true, completedBy: 'staff-1' });
+  });
+
+  test('should lower the quality score by the share of jobs sent back', () => {
+    const stats = summarizeReviews([
+      { jobId: 'job-1', outcome: 'rework' },
+      { jobId: 'job-1', outcome: 'rework' },
+      { jobId: 'job-1', outcome: 'verified' },
+      { jobId: 'job-2', outcome: 'verified' },
+    ]);
+
+    expect(stats).toEqual({ reviewedJobs: 2, reworkedJobs: 1, reworkRounds: 2, reworkRate: 0.5 });
+    expect(applyReworkPenalty(90, stats)).toBe(75);
+    expect(applyReworkPenalty(10, { ...stats, reworkRate: 1 })).toBe(1);
+    expect(applyReworkPenalty(90, summarizeReviews([]))).toBe(90);
+  });
+});
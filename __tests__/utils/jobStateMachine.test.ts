@@ -0,0 +1,117 @@
+/**
+ * Tests for the Job State Machine
+ * Verifies legal transitions, actor permissions and transition side effects
+ */
+
+import { jest } from '@jest/globals';
+import {
+  planJobTransition,
+  canTransition,
+  getAllowedTransitions,
+  normalizeJobStatus,
+  buildStatusUpdate,
+  JobTransitionError,
+} from '../../utils/jobStateMachine';
+
+// Mock Firestore functions
+jest.mock('firebase/firestore', () => ({
+  arrayUnion: jest.fn((...entries) => ({ arrayUnion: entries })),
+  serverTimestamp: jest.fn(() => 'SERVER_TIMESTAMP'),
+}));
+
+describe('jobStateMachine', () => {
+  describe('Status Normalization', () => {
+    test('should map legacy aliases to canonical statuses', () => {
+      expect(normalizeJobStatus('declined')).toBe('rejected');
+      expect(normalizeJobStatus('in-progress')).toBe('in_progress');
+      expect(normalizeJobStatus('ACCEPTED')).toBe('accepted');
+    });
+
+    test('should return null for unknown statuses', () => {
+      expect(normalizeJobStatus('teleported')).toBeNull();
+      expect(normalizeJobStatus(undefined)).toBeNull();
+    });
+  });
+
+  describe('Transition Rules', () => {
+    test('should allow the normal staff lifecycle', () => {
+      expect(canTransition('assigned', 'accepted', 'staff')).toBe(true);
+      expect(canTransition('accepted', 'in_progress', 'staff')).toBe(true);
+      expect(canTransition('in_progress', 'completed', 'staff')).toBe(true);
+      expect(canTransition('completed', 'verified', 'admin')).toBe(true);
+    });
+
+    test('should reject skipping straight from assigned to completed', () => {
+      expect(canTransition('assigned', 'completed')).toBe(false);
+      expect(() =>
+        planJobTransition({ from: 'assigned', to: 'completed', actor: 'staff', actorId: 'staff-1' })
+      ).toThrow(JobTransitionError);
+    });
+
+    test('should never leave a terminal status', () => {
+      expect(getAllowedTransitions('cancelled')).toEqual([]);
+      expect(getAllowedTransitions('verified')).toEqual([]);
+
+      try {
+        planJobTransition({ from: 'cancelled', to: 'in_progress', actor: 'admin', actorId: 'admin-1' });
+        throw new Error('expected transition to fail');
+      } catch (error) {
+        expect(error).toBeInstanceOf(JobTransitionError);
+        expect((error as JobTransitionError).code).toBe('ILLEGAL_TRANSITION');
+      }
+    });
+
+    test('should reject transitions the actor may not trigger', () => {
+      try {
+        planJobTransition({ from: 'completed', to: 'verified', actor: 'staff', actorId: 'staff-1' });
+        throw new Error('expected transition to fail');
+      } catch (error) {
+        expect((error as JobTransitionError).code).toBe('FORBIDDEN_ACTOR');
+      }
+    });
+
+    test('should let only an admin send a completed job back for rework', () => {
+      expect(canTransition('completed', 'accepted', 'admin')).toBe(true);
+      expect(canTransition('completed', 'accepted', 'staff')).toBe(false);
+      expect(canTransition('completed', 'in_progress', 'admin')).toBe(false);
+    });
+
+    test('should treat a missing status as pending', () => {
+      const plan = planJobTransition({ from: undefined, to: 'accepted', actor: 'staff', actorId: 'staff-1' });
+      expect(plan.from).toBe('pending');
+    });
+  });
+
+  describe('Side Effects', () => {
+    test('should describe timestamp field and history entry', () => {
+      const at = new Date('2024-01-15T10:00:00Z');
+      const plan = planJobTransition({
+        from: 'declined',
+        to: 'assigned',
+        actor: 'admin',
+        actorId: 'admin-1',
+        notes: 'Reassigning after decline',
+        at,
+      });
+
+      expect(plan.timestampField).toBe('assignedAt');
+      expect(plan.historyEntry).toEqual({
+        status: 'assigned',
+        previousStatus: 'rejected',
+        timestamp: at.toISOString(),
+        updatedBy: 'admin-1',
+        actor: 'admin',
+        notes: 'Reassigning after decline',
+      });
+    });
+
+    test('should build a Firestore update with status, timestamp and history', () => {
+      const plan = planJobTransition({ from: 'accepted', to: 'in_progress', actor: 'staff', actorId: 'staff-1' });
+      const update = buildStatusUpdate(plan);
+
+      expect(update.status).toBe('in_progress');
+      expect(update.startedAt).toBe('SERVER_TIMESTAMP');
+      expect(update.statusHistory).toEqual({ arrayUnion: [plan.historyEntry] });
+    });
+  });
+});
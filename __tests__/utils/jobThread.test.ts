@@ -0,0 +1,140 @@
+/**
+ * Tests for Job Thread Utilities
+ * Verifies roles, read receipts, typing indicators, FOA mentions, message
+ * checks and inbox ordering
+ */
+
+import {
+  buildThreadParticipants,
+  formatDuration,
+  getMessagePreview,
+  getNotificationRecipients,
+  getReceiptLabel,
+  getThreadRole,
+  getTypingNames,
+  shouldFOAReply,
+  sortThreadsForInbox,
+  stripFOAMention,
+  validateThreadMessage,
+} from '../../utils/jobThread';
+import type { JobThread, JobThreadMessage } from '../../types/jobThread';
+
+const thread = (overrides: Partial<JobThread> = {}): JobThread => ({
+  jobId: 'job-1',
+  jobTitle: 'Villa turnover',
+  participants: [
+    { id: 'staff-1', name: 'Ploy', role: 'staff' },
+    { id: 'disp-1', name: 'Nok', role: 'dispatch' },
+    { id: 'admin-1', name: 'Ann', role: 'admin' },
+  ],
+  participantIds: ['staff-1', 'disp-1', 'admin-1'],
+  dispatcherId: 'disp-1',
+  foaEnabled: true,
+  status: 'open',
+  unread: {},
+  lastReadAt: {},
+  typing: {},
+  createdAt: new Date('2026-05-01T08:00:00Z'),
+  updatedAt: new Date('2026-05-01T08:00:00Z'),
+  ...overrides,
+});
+
+const message = (overrides: Partial<JobThreadMessage> = {}): JobThreadMessage => ({
+  id: 'm1',
+  jobId: 'job-1',
+  senderId: 'staff-1',
+  senderName: 'Ploy',
+  senderRole: 'staff',
+  text: 'Broken window in the lounge',
+  attachments: [],
+  createdAt: new Date('2026-05-01T09:00:00Z'),
+  ...overrides,
+});
+
+describe('jobThread', () => {
+  test('should give the dispatcher and office roles their thread role', () => {
+    expect(getThreadRole('admin', 'disp-1', 'disp-1')).toBe('dispatch');
+    expect(getThreadRole('manager', 'admin-1', 'disp-1')).toBe('admin');
+    expect(getThreadRole('cleaner', 'staff-1', 'disp-1')).toBe('staff');
+    expect(getThreadRole(undefined, 'staff-1')).toBe('staff');
+  });
+
+  test('should seed the thread with the assigned staff and dispatcher once each', () => {
+    expect(buildThreadParticipants({
+      jobId: 'job-1',
+      jobTitle: 'Villa turnover',
+      assignedStaff: { id: 'staff-1', name: 'Ploy' },
+      dispatcher: { id: 'disp-1', name: 'Nok' },
+    })).toEqual([
+      { id: 'staff-1', name: 'Ploy', role: 'staff' },
+      { id: 'disp-1', name: 'Nok', role: 'dispatch' },
+    ]);
+    expect(buildThreadParticipants({
+      jobId: 'job-1',
+      jobTitle: 'Villa turnover',
+      assignedStaff: { id: 'admin-1', name: 'Ann' },
+      dispatcher: { id: 'admin-1', name: 'Ann' },
+    })).toHaveLength(1);
+  });
+
+  test('should show who is typing within the timeout, except the viewer', () => {
+    const now = new Date('2026-05-01T09:00:10Z');
+    const typing = thread({
+      typing: {
+        'staff-1': new Date('2026-05-01T09:00:08Z'),
+        'disp-1': new Date('2026-05-01T09:00:07Z'),
+        'admin-1': new Date('2026-05-01T09:00:00Z'),
+      },
+    });
+    expect(getTypingNames(typing, 'staff-1', now)).toEqual(['Nok']);
+    expect(getTypingNames(typing, 'admin-1', now)).toEqual(['Ploy', 'Nok']);
+  });
+
+  test('should label read receipts from each participant\'s last read time', () => {
+    const sent = message();
+    expect(getReceiptLabel(sent, thread())).toBe('Sent');
+    expect(getReceiptLabel(sent, thread({
+      lastReadAt: { 'disp-1': new Date('2026-05-01T09:01:00Z'), 'admin-1': new Date('2026-05-01T08:59:00Z') },
+    }))).toBe('Read by Nok');
+    expect(getReceiptLabel(sent, thread({
+      lastReadAt: { 'disp-1': new Date('2026-05-01T09:01:00Z'), 'admin-1': new Date('2026-05-01T09:00:00Z') },
+    }))).toBe('Read by everyone');
+  });
+
+  test('should only call the FOA when it is on and mentioned', () => {
+    expect(shouldFOAReply(thread(), { senderRole: 'staff', text: '@FOA where is the fuse box?' })).toBe(true);
+    expect(shouldFOAReply(thread(), { senderRole: 'staff', text: 'email me at ops@foa.com' })).toBe(false);
+    expect(shouldFOAReply(thread({ foaEnabled: false }), { senderRole: 'staff', text: '@foa help' })).toBe(false);
+    expect(shouldFOAReply(thread(), { senderRole: 'foa', text: '@foa' })).toBe(false);
+    expect(stripFOAMention('@FOA  where is the fuse box?')).toBe('where is the fuse box?');
+  });
+
+  test('should preview text, photos and voice notes', () => {
+    expect(getMessagePreview(message())).toBe('Broken window in the lounge');
+    expect(getMessagePreview(message({
+      text: ' ',
+      attachments: [{ type: 'voice', url: 'https://x/v.m4a', durationSeconds: 75 }],
+    }))).toBe('🎤 Voice note (1:15)');
+    expect(getMessagePreview(message({
+      text: '',
+      attachments: [{ type: 'photo', url: 'a' }, { type: 'photo', url: 'b' }],
+    }))).toBe('📷 2 photos');
+    expect(formatDuration(9.6)).toBe('0:10');
+  });
+
+  test('should check messages before sending', () => {
+    expect(validateThreadMessage('On my way')).toEqual([]);
+    expect(validateThreadMessage(' ')).toEqual(['Write a message or add an attachment']);
+    expect(validateThreadMessage('', [{ type: 'voice', uri: 'file://v.m4a', durationSeconds: 200 }]))
+      .toEqual(['Keep voice notes under 2 minutes']);
+  });
+
+  test('should notify everyone but the sender and sort the inbox', () => {
+    expect(getNotificationRecipients(thread(), 'staff-1')).toEqual(['disp-1', 'admin-1']);
+
+    const older = thread({ jobId: 'a', unread: { 'admin-1': 2 }, updatedAt: new Date('2026-05-01T07:00:00Z') });
+    const newer = thread({ jobId: 'b', updatedAt: new Date('2026-05-01T10:00:00Z') });
+    const newest = thread({ jobId: 'c', updatedAt: new Date('2026-05-01T11:00:00Z') });
+    expect(sortThreadsForInbox([newer, older, newest], 'admin-1').map(t => t.jobId)).toEqual(['a', 'c', 'b']);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Tests for Kiosk Session
+ * Verifies auto-lock timing and quick-switch profile ordering
+ */
+
+import {
+  shouldAutoLock,
+  rememberRecentProfile,
+  orderProfilesForQuickSwitch,
+  DEFAULT_KIOSK_SETTINGS,
+} from '../../utils/kioskSession';
+
+const NOW = new Date('2024-03-01T10:00:00Z').getTime();
+const MINUTE = 60 * 1000;
+
+describe('kioskSession', () => {
+  test('should auto-lock only in kiosk mode once the inactivity limit passes', () => {
+    const settings = { enabled: true, autoLockMinutes: 5 };
+
+    expect(shouldAutoLock(NOW - 4 * MINUTE, NOW, settings)).toBe(false);
+    expect(shouldAutoLock(NOW - 5 * MINUTE, NOW, settings)).toBe(true);
+    expect(shouldAutoLock(NOW - 60 * MINUTE, NOW, DEFAULT_KIOSK_SETTINGS)).toBe(false);
+  });
+
+  test('should keep the most recent profile first without duplicates', () => {
+    let recent = rememberRecentProfile([], 'anna');
+    recent = rememberRecentProfile(recent, 'ben');
+    recent = rememberRecentProfile(recent, 'anna');
+
+    expect(recent).toEqual(['anna', 'ben']);
+    expect(['a', 'b', 'c', 'd', 'e', 'f', 'g'].reduce(rememberRecentProfile, [] as string[])).toHaveLength(6);
+  });
+
+  test('should list recent profiles first and keep everyone else in order', () => {
+    const profiles = [{ id: 'anna' }, { id: 'ben' }, { id: 'chai' }, { id: 'dao' }];
+
+    expect(orderProfilesForQuickSwitch(profiles, ['dao', 'ben']).map(p => p.id)).toEqual([
+      'dao',
+      'ben',
+      'anna',
+      'chai',
+    ]);
+  });
+});
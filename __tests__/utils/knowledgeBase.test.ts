@@ -0,0 +1,135 @@
+/**
+ * Tests for Property Knowledge Base Utilities
+ * Verifies keyword search ranking, citation building, resolved issue
+ * conversion and editor input checks
+ */
+
+import {
+  buildKnowledgePrompt,
+  issueToKnowledgeEntry,
+  parseTags,
+  searchKnowledge,
+  toCitation,
+  tokenize,
+  validateKnowledgeInput,
+} from '../../utils/knowledgeBase';
+import type { KnowledgeEntry } from '../../types/knowledgeBase';
+import type { Issue } from '../../types/issue';
+
+const entry = (id: string, overrides: Partial<KnowledgeEntry> = {}): KnowledgeEntry => ({
+  id,
+  propertyId: 'villa-1',
+  kind: 'note',
+  title: '',
+  body: '',
+  tags: [],
+  source: 'admin',
+  createdBy: 'admin-1',
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+  ...overrides,
+});
+
+const entries = [
+  entry('breaker', {
+    title: 'Pool pump breaker',
+    body: 'Third switch from the top, labelled P1.',
+    location: 'Utility room',
+    tags: ['electrical'],
+  }),
+  entry('towels', {
+    title: 'Master bathroom towels',
+    body: 'Grey towels only; white ones are for the guest suite.',
+    location: 'Linen cupboard',
+  }),
+  entry('schedule', { title: 'Pool cleaning schedule', body: 'Skim daily, vacuum on Mondays.' }),
+  entry('wifi', {
+    kind: 'appliance',
+    title: 'Wi-Fi router',
+    body: 'Hold reset for ten seconds, wait two minutes.',
+    appliance: { brand: 'Netgear', model: 'R7000' },
+  }),
+];
+
+describe('knowledgeBase', () => {
+  test('should tokenize without stopwords, plurals or hyphens', () => {
+    expect(tokenize('Where are the clean towels?')).toEqual(['clean', 'towel']);
+    expect(tokenize('How do I reset the Wi-Fi batteries')).toEqual(['reset', 'wifi', 'battery']);
+  });
+
+  test('should rank the entry covering the most specific words first', () => {
+    const matches = searchKnowledge(entries, 'Where is the pool pump breaker?');
+    expect(matches.map(match => match.entry.id)).toEqual(['breaker']);
+
+    expect(searchKnowledge(entries, 'which towels go in the master bathroom')[0].entry.id).toBe('towels');
+    expect(searchKnowledge(entries, 'how do I reset the wifi')[0].entry.id).toBe('wifi');
+    expect(searchKnowledge(entries, 'netgear password')[0].entry.id).toBe('wifi');
+  });
+
+  test('should return nothing for unrelated or empty questions', () => {
+    expect(searchKnowledge(entries, 'where do the keys go')).toEqual([]);
+    expect(searchKnowledge(entries, 'what is it')).toEqual([]);
+    expect(searchKnowledge([], 'pool pump')).toEqual([]);
+  });
+
+  test('should respect the limit', () => {
+    expect(searchKnowledge(entries, 'pool', 1)).toHaveLength(1);
+    expect(searchKnowledge(entries, 'pool')).toHaveLength(2);
+  });
+
+  test('should number entries in the prompt and cite them', () => {
+    const matches = searchKnowledge(entries, 'pool pump breaker');
+    expect(buildKnowledgePrompt(matches)).toBe(
+      'Property knowledge base (cite entries you use as [1], [2]):\n'
+      + '[1] Pool pump breaker (Utility room): Third switch from the top, labelled P1.'
+    );
+    expect(buildKnowledgePrompt([])).toBe('');
+    expect(toCitation(entries[0])).toEqual({
+      entryId: 'breaker',
+      title: 'Pool pump breaker',
+      kind: 'note',
+      location: 'Utility room',
+    });
+    expect(toCitation(entries[2])).not.toHaveProperty('location');
+  });
+
+  test('should read a resolved issue as a past fix', () => {
+    const resolvedAt = new Date('2026-03-02');
+    const issue = {
+      id: 'iss-1',
+      propertyId: 'villa-1',
+      reportedBy: 'staff-1',
+      triagedBy: 'admin-1',
+      title: 'Pool pump tripping',
+      description: 'Replaced the pump capacitor.',
+      category: 'pool_garden',
+      location: 'Pool deck',
+      photos: ['https://example.com/pump.jpg'],
+      status: 'resolved',
+      resolvedAt,
+      createdAt: new Date('2026-03-01'),
+      updatedAt: resolvedAt,
+    } as unknown as Issue;
+
+    expect(issueToKnowledgeEntry(issue)).toMatchObject({
+      id: 'issue_iss-1',
+      kind: 'resolution',
+      source: 'issue',
+      sourceRef: 'iss-1',
+      location: 'Pool deck',
+      tags: ['pool garden'],
+      photoUrl: 'https://example.com/pump.jpg',
+      createdBy: 'admin-1',
+      updatedAt: resolvedAt,
+    });
+  });
+
+  test('should parse tags and check editor input', () => {
+    expect(parseTags('pool, Pump ,, breaker, pool')).toEqual(['pool', 'pump', 'breaker']);
+
+    const input = { propertyId: 'villa-1', kind: 'note' as const, title: 'Gate code', body: '1234', tags: [] };
+    expect(validateKnowledgeInput(input)).toEqual([]);
+    expect(validateKnowledgeInput({ ...input, kind: 'photo', title: ' ', body: '' }))
+      .toEqual(['Add a title', 'Add a caption', 'Add a photo']);
+  });
+});
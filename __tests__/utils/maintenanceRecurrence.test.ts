@@ -0,0 +1,96 @@
+/**
+ * Tests for Maintenance Recurrence
+ * Verifies recurrence expansion, occupancy shifting and compliance tracking
+ */
+
+import {
+  getOccurrences,
+  planMaintenanceInstances,
+  resolveInstanceStatus,
+  summarizeCompliance,
+  describeRecurrence,
+} from '../../utils/maintenanceRecurrence';
+import type { MaintenanceInstance } from '../../types/property';
+
+describe('maintenanceRecurrence', () => {
+  test('should expand weekly, every N days, monthly and seasonal rules', () => {
+    // 1 January 2024 is a Monday
+    expect(getOccurrences({ frequency: 'weekly', byWeekday: [1, 4] }, '2024-01-01', '2024-01-01', '2024-01-14'))
+      .toEqual(['2024-01-01', '2024-01-04', '2024-01-08', '2024-01-11']);
+
+    expect(getOccurrences({ frequency: 'weekly', interval: 2, byWeekday: [1] }, '2024-01-01', '2024-01-05', '2024-01-31'))
+      .toEqual(['2024-01-15', '2024-01-29']);
+
+    expect(getOccurrences({ frequency: 'daily', interval: 10 }, '2024-01-01', '2024-01-05', '2024-01-31'))
+      .toEqual(['2024-01-11', '2024-01-21', '2024-01-31']);
+
+    expect(getOccurrences({ frequency: 'monthly', byMonthDay: 31 }, '2024-01-01', '2024-01-01', '2024-04-30'))
+      .toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30']);
+
+    expect(getOccurrences({ frequency: 'seasonal', months: [10, 4], byMonthDay: 15 }, '2024-01-01', '2024-01-01', '2025-01-01'))
+      .toEqual(['2024-04-15', '2024-10-15']);
+  });
+
+  test('should respect the schedule end date', () => {
+    expect(getOccurrences({ frequency: 'daily', interval: 1 }, '2024-01-01', '2024-01-01', '2024-01-31', '2024-01-03'))
+      .toEqual(['2024-01-01', '2024-01-02', '2024-01-03']);
+  });
+
+  test('should move occupied dates to the next free day or skip them', () => {
+    const schedule = {
+      recurrence: { frequency: 'weekly' as const, byWeekday: [1] },
+      startDate: '2024-01-01',
+      skipWhenOccupied: true,
+      maxShiftDays: 2,
+    };
+    const bookings = [
+      // Guests leave on the Tuesday, so Tuesday is free
+      { checkIn: '2023-12-30', checkOut: '2024-01-02', status: 'confirmed' as const },
+      // Occupied for the whole week of the 8th
+      { checkIn: '2024-01-07', checkOut: '2024-01-14', status: 'confirmed' as const },
+      { checkIn: '2024-01-14', checkOut: '2024-01-20', status: 'cancelled' as const },
+    ];
+
+    const planned = planMaintenanceInstances(schedule, bookings, '2024-01-01', '2024-01-15');
+
+    expect(planned).toEqual([
+      { dueDate: '2024-01-01', scheduledDate: '2024-01-02', status: 'scheduled', shiftedDays: 1 },
+      { dueDate: '2024-01-08', scheduledDate: null, status: 'skipped_occupied', shiftedDays: 0 },
+      { dueDate: '2024-01-15', scheduledDate: '2024-01-15', status: 'scheduled', shiftedDays: 0 },
+    ]);
+  });
+
+  test('should track completion, lateness and missed instances', () => {
+    const instance = { status: 'scheduled' as const, dueDate: '2024-01-08', scheduledDate: '2024-01-08' };
+
+    expect(resolveInstanceStatus(instance, 'completed', new Date(2024, 0, 10, 15), '2024-01-20'))
+      .toEqual({ status: 'completed', completedAt: new Date(2024, 0, 10, 15), daysLate: 2 });
+    expect(resolveInstanceStatus(instance, 'pending', null, '2024-01-20')).toEqual({ status: 'missed' });
+    expect(resolveInstanceStatus(instance, 'pending', null, '2024-01-08')).toEqual({ status: 'scheduled' });
+
+    const base = { scheduleId: 's1', propertyId: 'p1', scheduledDate: null, jobId: null };
+    const instances: MaintenanceInstance[] = [
+      { ...base, id: 'a', dueDate: '2024-01-01', status: 'completed', daysLate: 0, completedAt: new Date(2024, 0, 1) },
+      { ...base, id: 'b', dueDate: '2024-01-08', status: 'completed', daysLate: 2, completedAt: new Date(2024, 0, 10) },
+      { ...base, id: 'c', dueDate: '2024-01-15', status: 'missed' },
+      { ...base, id: 'd', dueDate: '2024-01-22', status: 'skipped_occupied' },
+      { ...base, id: 'e', dueDate: '2024-01-29', status: 'scheduled' },
+    ];
+
+    expect(summarizeCompliance(instances)).toEqual({
+      total: 5,
+      completed: 2,
+      completedOnTime: 1,
+      missed: 1,
+      skipped: 1,
+      upcoming: 1,
+      complianceRate: 67,
+      lastCompletedAt: new Date(2024, 0, 10),
+    });
+  });
+
+  test('should describe recurrences', () => {
+    expect(describeRecurrence({ frequency: 'weekly', interval: 2, byWeekday: [1, 4] })).toBe('Every 2 weeks on Mon, Thu');
+    expect(describeRecurrence({ frequency: 'seasonal', months: [4, 10] })).toBe('Seasonally in Apr, Oct');
+  });
+});
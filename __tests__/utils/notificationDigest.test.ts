@@ -0,0 +1,81 @@
+/**
+ * Tests for Notification Digest
+ * Verifies event classification, late starts, window timing and the
+ * summary line sent to the recipient
+ */
+
+import {
+  buildDigestSummary,
+  classifyDigestEvent,
+  filterDigestEvents,
+  getLateStartMinutes,
+  isDigestDue,
+  DigestEvent,
+} from '../../utils/notificationDigest';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  DIGEST_EVENT_TYPE,
+  resolveDelivery,
+} from '../../utils/notificationPreferences';
+
+const event = (overrides: Partial<DigestEvent>): DigestEvent => ({
+  eventType: 'job.status_updated',
+  entityId: 'job-1',
+  priority: 'normal',
+  title: 'Job update',
+  body: '',
+  createdAt: new Date('2024-03-01T02:00:00Z'),
+  ...overrides,
+});
+
+describe('notificationDigest', () => {
+  test('should classify status changes, late starts and issues', () => {
+    expect(classifyDigestEvent(event({ status: 'completed' }))).toBe('completed');
+    expect(classifyDigestEvent(event({ status: 'in_progress' }))).toBe('started');
+    expect(classifyDigestEvent(event({ status: 'in_progress', lateMinutes: 25 }))).toBe('started_late');
+    expect(classifyDigestEvent(event({ eventType: 'issue.reported' }))).toBe('issue_reported');
+    expect(classifyDigestEvent(event({ status: 'overdue' }))).toBe('other');
+  });
+
+  test('should only count starts past the grace period as late', () => {
+    const scheduled = new Date('2024-03-01T09:00:00Z');
+    expect(getLateStartMinutes(scheduled, new Date('2024-03-01T09:10:00Z'))).toBe(0);
+    expect(getLateStartMinutes(scheduled, new Date('2024-03-01T09:40:00Z'))).toBe(40);
+    expect(getLateStartMinutes(scheduled, new Date('2024-03-01T08:30:00Z'))).toBe(0);
+  });
+
+  test('should send a digest once its window has passed', () => {
+    const opened = new Date('2024-03-01T02:00:00Z');
+    expect(isDigestDue(opened, new Date('2024-03-01T02:59:00Z'), 60)).toBe(false);
+    expect(isDigestDue(opened, new Date('2024-03-01T03:00:00Z'), 60)).toBe(true);
+  });
+
+  test('should summarise counts in a fixed order and keep linked ids', () => {
+    const events = [
+      ...Array.from({ length: 6 }, (_, i) => event({ entityId: `job-${i}`, status: 'completed' })),
+      event({ entityId: 'job-6', status: 'in_progress', lateMinutes: 20 }),
+      event({ entityId: 'job-7', status: 'in_progress', lateMinutes: 45 }),
+      event({ eventType: 'issue.reported', entityId: 'issue-1' }),
+    ];
+
+    const summary = buildDigestSummary(events);
+
+    expect(summary.body).toBe('6 jobs completed, 2 started late, 1 issue reported');
+    expect(summary.eventCount).toBe(9);
+    expect(summary.jobIds).toHaveLength(8);
+    expect(summary.issueIds).toEqual(['issue-1']);
+    expect(filterDigestEvents(events, 'started_late')).toHaveLength(2);
+    expect(filterDigestEvents(events, null)).toHaveLength(9);
+  });
+
+  test('should hold only non-urgent job updates when digests are on', () => {
+    const at = new Date('2024-03-01T02:00:00Z');
+    const digestOn = { ...DEFAULT_NOTIFICATION_PREFERENCES, digest: { enabled: true, windowMinutes: 60 } };
+
+    expect(resolveDelivery(digestOn, 'job.status_updated', 'normal', at).digest).toBe(true);
+    expect(resolveDelivery(digestOn, 'job.status_updated', 'urgent', at).digest).toBe(false);
+    expect(resolveDelivery(digestOn, 'job.assigned', 'low', at).digest).toBe(false);
+    expect(resolveDelivery(digestOn, DIGEST_EVENT_TYPE, 'normal', at).digest).toBe(false);
+    expect(resolveDelivery(DEFAULT_NOTIFICATION_PREFERENCES, 'job.status_updated', 'low', at).digest).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Tests for Notification Preferences
+ * Verifies category routing, quiet hours across midnight and timezones,
+ * and the urgent override
+ */
+
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  getNotificationCategory,
+  getQuietHoursEnd,
+  isWithinQuietHours,
+  normalizeNotificationPreferences,
+  resolveDelivery,
+  NotificationPreferences,
+} from '../../utils/notificationPreferences';
+
+const nightShift: NotificationPreferences = {
+  ...DEFAULT_NOTIFICATION_PREFERENCES,
+  quietHours: { enabled: true, start: '07:00', end: '15:00', timezone: 'Asia/Bangkok', allowUrgent: true },
+};
+
+// 09:00 in Bangkok (UTC+7)
+const BANGKOK_MORNING = new Date('2024-03-01T02:00:00Z');
+
+describe('notificationPreferences', () => {
+  test('should map event types onto preference categories', () => {
+    expect(getNotificationCategory('job.assigned')).toBe('job.assigned');
+    expect(getNotificationCategory('job.rework_requested')).toBe('job.status_updated');
+    expect(getNotificationCategory('job.reminder')).toBe('reminder');
+    expect(getNotificationCategory('job.escalated')).toBe('escalation');
+    expect(getNotificationCategory('announcement.posted')).toBe('announcement');
+  });
+
+  test('should read quiet hours in the staff timezone, including overnight windows', () => {
+    expect(isWithinQuietHours(nightShift.quietHours, BANGKOK_MORNING)).toBe(true);
+    expect(isWithinQuietHours({ ...nightShift.quietHours, timezone: 'UTC' }, BANGKOK_MORNING)).toBe(false);
+
+    const overnight = { ...nightShift.quietHours, start: '22:00', end: '06:00' };
+    expect(isWithinQuietHours(overnight, new Date('2024-03-01T16:30:00Z'))).toBe(true); // 23:30 local
+    expect(isWithinQuietHours(overnight, new Date('2024-03-01T00:00:00Z'))).toBe(false); // 07:00 local
+
+    expect(getQuietHoursEnd(nightShift.quietHours, BANGKOK_MORNING).toISOString()).toBe('2024-03-01T08:00:00.000Z');
+  });
+
+  test('should hold non-urgent pushes in-app during quiet hours but let urgent through', () => {
+    expect(resolveDelivery(nightShift, 'job.reminder', 'normal', BANGKOK_MORNING)).toMatchObject({
+      deliver: true,
+      channel: 'in_app',
+      heldByQuietHours: true,
+    });
+    expect(resolveDelivery(nightShift, 'job.assigned', 'urgent', BANGKOK_MORNING).channel).toBe('push');
+
+    const noUrgent = { ...nightShift, quietHours: { ...nightShift.quietHours, allowUrgent: false } };
+    expect(resolveDelivery(noUrgent, 'job.assigned', 'urgent', BANGKOK_MORNING).channel).toBe('in_app');
+  });
+
+  test('should skip turned-off categories and honour legacy flags', () => {
+    const legacy = normalizeNotificationPreferences(null, { pushEnabled: false, smsEnabled: true, jobUpdates: false });
+
+    expect(legacy.categories['job.assigned'].channel).toBe('sms');
+    expect(resolveDelivery(legacy, 'job.status_updated', 'high', BANGKOK_MORNING).deliver).toBe(false);
+    expect(normalizeNotificationPreferences({ categories: { reminder: { enabled: false, channel: 'push' } } as any }, null)
+      .categories['job.assigned'].enabled).toBe(true);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Tests for Permissions
+ * Verifies the role matrix, team scoping and route guards
+ */
+
+import { can, canOn, canAccessRoute, normalizeRole } from '../../utils/permissions';
+
+describe('permissions', () => {
+  test('should let supervisors verify jobs but not edit bookings', () => {
+    expect(can('supervisor', 'jobs', 'approve')).toBe(true);
+    expect(can('supervisor', 'bookings', 'read')).toBe(true);
+    expect(can('supervisor', 'bookings', 'write')).toBe(false);
+    expect(can('manager', 'bookings', 'write')).toBe(true);
+    expect(can('cleaner', 'jobs', 'approve')).toBe(false);
+  });
+
+  test('should limit team and own scopes to matching records', () => {
+    const supervisor = { id: 'sup', role: 'supervisor', teamId: 'north' };
+    const cleaner = { id: 'anna', role: 'cleaner', teamId: 'north' };
+
+    expect(canOn(supervisor, 'jobs', 'approve', { ownerId: 'anna', teamId: 'north' })).toBe(true);
+    expect(canOn(supervisor, 'jobs', 'approve', { ownerId: 'ben', teamId: 'south' })).toBe(false);
+    expect(canOn(cleaner, 'jobs', 'write', { ownerId: 'anna' })).toBe(true);
+    expect(canOn(cleaner, 'jobs', 'write', { ownerId: 'ben', teamId: 'north' })).toBe(false);
+    expect(canOn({ id: 'boss', role: 'manager' }, 'jobs', 'approve', { ownerId: 'ben' })).toBe(true);
+  });
+
+  test('should map legacy role names and deny unknown roles', () => {
+    expect(normalizeRole('staff')).toBe('cleaner');
+    expect(normalizeRole('Inspector')).toBe('supervisor');
+    expect(normalizeRole('client')).toBeNull();
+    expect(can('client', 'properties', 'read')).toBe(false);
+  });
+
+  test('should guard routes by their required permission and scope', () => {
+    expect(canAccessRoute('supervisor', '/(modal)/review-queue')).toBe(true);
+    expect(canAccessRoute('supervisor', '/admin/dashboard')).toBe(false);
+    expect(canAccessRoute('supervisor', '/(modal)/sync-conflicts')).toBe(false);
+    expect(canAccessRoute('manager', '/(modal)/sync-conflicts')).toBe(true);
+    expect(canAccessRoute('cleaner', '/some/unguarded/route')).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for PIN Security
+ * Verifies PIN format checks and the exponential backoff lockout policy
+ */
+
+import {
+  isValidPINFormat,
+  isPINHash,
+  getLockoutDuration,
+  getPINAttemptStatus,
+  recordPINFailure,
+  FREE_PIN_ATTEMPTS,
+} from '../../utils/pinSecurity';
+
+const NOW = new Date('2024-03-01T10:00:00Z').getTime();
+
+describe('pinSecurity', () => {
+  test('should accept only four digit PINs and recognise bcrypt hashes', () => {
+    expect(isValidPINFormat('0420')).toBe(true);
+    expect(isValidPINFormat('42')).toBe(false);
+    expect(isValidPINFormat('12a4')).toBe(false);
+    expect(isPINHash('$2b$10$abcdefghijklmnopqrstuv')).toBe(true);
+    expect(isPINHash('1234')).toBe(false);
+  });
+
+  test('should double the lockout after each failure past the free attempts', () => {
+    expect(getLockoutDuration(FREE_PIN_ATTEMPTS - 1)).toBe(0);
+    expect(getLockoutDuration(FREE_PIN_ATTEMPTS)).toBe(30 * 1000);
+    expect(getLockoutDuration(FREE_PIN_ATTEMPTS + 1)).toBe(60 * 1000);
+    expect(getLockoutDuration(FREE_PIN_ATTEMPTS + 20)).toBe(60 * 60 * 1000);
+  });
+
+  test('should lock out after the free attempts and unlock when the lockout ends', () => {
+    let state = recordPINFailure(undefined, NOW);
+    state = recordPINFailure(state, NOW);
+    expect(getPINAttemptStatus(state, NOW)).toEqual({ canAttempt: true, attemptsLeft: 1 });
+
+    state = recordPINFailure(state, NOW);
+    expect(getPINAttemptStatus(state, NOW)).toEqual({
+      canAttempt: false,
+      attemptsLeft: 0,
+      lockoutTime: NOW + 30 * 1000,
+    });
+    expect(getPINAttemptStatus(state, NOW + 31 * 1000).canAttempt).toBe(true);
+
+    state = recordPINFailure(state, NOW + 31 * 1000);
+    expect(state.lockedUntil).toBe(NOW + 31 * 1000 + 60 * 1000);
+  });
+
+  test('should forget old failures after a quiet day', () => {
+    const state = { failedAttempts: 6, lastFailedAt: NOW, lockedUntil: NOW + 8 * 60 * 1000 };
+    const nextDay = NOW + 25 * 60 * 60 * 1000;
+
+    expect(getPINAttemptStatus(state, nextDay)).toEqual({ canAttempt: true, attemptsLeft: FREE_PIN_ATTEMPTS });
+    expect(recordPINFailure(state, nextDay)).toEqual({ failedAttempts: 1, lastFailedAt: nextDay });
+  });
+});
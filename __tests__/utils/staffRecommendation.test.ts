@@ -0,0 +1,135 @@
+/**
+ * Tests for the Staff Recommendation Engine
+ * Verifies candidate scoring and the reason breakdown
+ */
+
+import { jest } from '@jest/globals';
+import { StaffRecommendationEngine } from '../../utils/staffRecommendation';
+import type { Staff } from '../../types/admin';
+import type { StaffRecommendationRequest } from '../../types/jobAssignment';
+
+// Mock Firebase and the services the engine loads data through
+jest.mock('firebase/firestore', () => ({
+  collection: jest.fn(),
+  getDocs: jest.fn(),
+  query: jest.fn(),
+  where: jest.fn(),
+  orderBy: jest.fn(),
+  limit: jest.fn(),
+}));
+
+jest.mock('@/lib/firebase', () => ({ db: {} }));
+jest.mock('@/services/adminService', () => ({ AdminService: { getStaff: jest.fn() } }));
+jest.mock('@/services/propertyService', () => ({ propertyService: { getProperty: jest.fn() } }));
+jest.mock('@/services/availabilityService', () => ({ availabilityService: { checkAvailability: jest.fn() } }));
+
+const baseStaff: Staff = {
+  id: 'staff-1',
+  name: 'Maria',
+  email: 'maria@example.com',
+  phone: '',
+  role: 'cleaner',
+  isActive: true,
+  availability: {
+    monday: true,
+    tuesday: true,
+    wednesday: true,
+    thursday: true,
+    friday: true,
+    saturday: false,
+    sunday: false,
+  },
+  skills: ['cleaning', 'laundry'],
+  rating: 4.5,
+  completedTasks: 120,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+// Monday 15 January 2024, 10:00
+const request: StaffRecommendationRequest = {
+  propertyId: 'property-1',
+  title: 'Turnover clean',
+  description: '',
+  type: 'cleaning',
+  priority: 'medium',
+  estimatedDuration: 120,
+  scheduledFor: new Date(2024, 0, 15, 10, 0),
+  requirements: [],
+  requiredSkills: ['cleaning'],
+  location: { address: '', city: '', state: '', zipCode: '' },
+  assignedBy: 'admin-1',
+};
+
+const property = { latitude: 7.8804, longitude: 98.3923 };
+
+describe('StaffRecommendationEngine', () => {
+  test('should give a full score to an idle, nearby, skilled and trusted candidate', () => {
+    const result = StaffRecommendationEngine.scoreCandidate(
+      request,
+      {
+        staff: baseStaff,
+        jobsOnDay: 0,
+        minutesOnDay: 0,
+        conflictingJobs: [],
+        lastLocation: property,
+        audit: { qualityScore: 100, trustScore: 100 },
+      },
+      property
+    );
+
+    expect(result.score).toBe(100);
+    expect(result.factors.map(f => f.key)).toEqual(['skills', 'availability', 'workload', 'distance', 'quality']);
+  });
+
+  test('should explain missing skills, days off and capacity', () => {
+    const result = StaffRecommendationEngine.scoreCandidate(
+      { ...request, requiredSkills: ['pool'], scheduledFor: new Date(2024, 0, 13, 10, 0) },
+      { staff: baseStaff, jobsOnDay: 8, minutesOnDay: 480, conflictingJobs: [] },
+      property
+    );
+
+    const byKey = Object.fromEntries(result.factors.map(f => [f.key, f]));
+    expect(byKey.skills.points).toBe(0);
+    expect(byKey.skills.reason).toBe('Missing pool');
+    expect(byKey.availability.reason).toBe('Does not work on Saturdays');
+    expect(byKey.workload.points).toBe(0);
+    expect(byKey.distance.reason).toBe('Location unknown');
+    expect(byKey.quality.reason).toBe('No audit yet, rated 4.5/5');
+  });
+
+  test('should use the availability check over the weekday booleans', () => {
+    const signals = { staff: baseStaff, jobsOnDay: 0, minutesOnDay: 0, conflictingJobs: [] };
+    const onLeave = StaffRecommendationEngine.scoreCandidate(
+      request,
+      { ...signals, availability: { status: 'unavailable', reason: 'On annual leave' } },
+      property
+    );
+    const outsideHours = StaffRecommendationEngine.scoreCandidate(
+      request,
+      { ...signals, availability: { status: 'partial', reason: 'Outside working hours (13:00–17:00)' } },
+      property
+    );
+
+    const availabilityOf = (result: typeof onLeave) => result.factors.find(f => f.key === 'availability');
+    expect(availabilityOf(onLeave)).toMatchObject({ points: 0, reason: 'On annual leave' });
+    expect(availabilityOf(outsideHours)?.points).toBe(5);
+  });
+
+  test('should rank a closer candidate above a distant one', () => {
+    const signals = { jobsOnDay: 1, minutesOnDay: 60, conflictingJobs: [] };
+    const near = StaffRecommendationEngine.scoreCandidate(
+      request,
+      { ...signals, staff: baseStaff, lastLocation: { latitude: 7.89, longitude: 98.39 } },
+      property
+    );
+    const far = StaffRecommendationEngine.scoreCandidate(
+      request,
+      { ...signals, staff: { ...baseStaff, id: 'staff-2' }, lastLocation: { latitude: 8.05, longitude: 98.30 } },
+      property
+    );
+
+    expect(near.distanceKm).toBeLessThan(far.distanceKm as number);
+    expect(near.score).toBeGreaterThan(far.score);
+  });
+});
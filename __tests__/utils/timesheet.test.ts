@@ -0,0 +1,139 @@
+/**
+ * Tests for Timesheets and Payroll
+ * Verifies travel gaps, adjustments, per-job-type rates, overtime and the
+ * CSV export
+ */
+
+import {
+  DEFAULT_PAYROLL_SETTINGS,
+  buildWeeklyTimesheet,
+  calculatePayroll,
+  canTransitionPeriod,
+  getPayPeriod,
+  toPayrollCsv,
+  toPayrollExport,
+} from '../../utils/timesheet';
+import type { JobType } from '../../types/jobAssignment';
+import type { PayrollSettings, TimesheetAdjustment, TimesheetWork } from '../../types/timesheet';
+
+// Monday 4 March 2024, local time
+const at = (day: number, hour: number, minute = 0) => new Date(2024, 2, day, hour, minute);
+
+const work = (jobId: string, jobType: JobType, start: Date, end: Date): TimesheetWork => ({
+  jobId,
+  staffId: 'anna',
+  jobType,
+  startedAt: start,
+  endedAt: end,
+  source: 'session',
+});
+
+const adjustment = (minutes: number, date: string, jobId?: string): TimesheetAdjustment => ({
+  id: `adj_${minutes}`,
+  staffId: 'anna',
+  periodId: '2024-03-04',
+  date,
+  ...(jobId && { jobId }),
+  minutes,
+  reason: 'Forgot to stop the job',
+  adjustedBy: 'sup',
+  adjustedAt: at(8, 12),
+});
+
+const settings: PayrollSettings = {
+  ...DEFAULT_PAYROLL_SETTINGS,
+  defaultHourlyRate: 100,
+  rates: { checkout: { mode: 'per_job', amount: 400 } },
+};
+
+describe('timesheet', () => {
+  test('should use the Monday-to-Sunday week as the pay period', () => {
+    const period = getPayPeriod(at(10, 18));
+
+    expect(period.id).toBe('2024-03-04');
+    expect(period.end).toEqual(at(11, 0));
+  });
+
+  test('should count short gaps between jobs as travel but not long breaks', () => {
+    const timesheet = buildWeeklyTimesheet('anna', getPayPeriod(at(4, 9)), [
+      work('a', 'cleaning', at(4, 9), at(4, 11)),
+      work('b', 'cleaning', at(4, 11, 30), at(4, 12, 30)),
+      work('c', 'cleaning', at(4, 15), at(4, 16)),
+      work('d', 'cleaning', at(5, 9), at(5, 10)),
+    ], [], 'open', settings);
+
+    expect(timesheet.days.map(day => day.date)).toEqual(['2024-03-04', '2024-03-05']);
+    expect(timesheet.days[0].entries.map(entry => entry.travelMinutes)).toEqual([0, 30, 0]);
+    expect(timesheet.days[1].entries[0].travelMinutes).toBe(0);
+    expect(timesheet.workedMinutes).toBe(300);
+    expect(timesheet.totalMinutes).toBe(330);
+  });
+
+  test('should apply job and day adjustments on top of the entries', () => {
+    const timesheet = buildWeeklyTimesheet('anna', getPayPeriod(at(4, 9)), [
+      work('a', 'cleaning', at(4, 9), at(4, 13)),
+    ], [adjustment(-60, '2024-03-04', 'a'), adjustment(45, '2024-03-06')], 'open', settings);
+
+    expect(timesheet.days[0].entries[0].adjustmentMinutes).toBe(-60);
+    expect(timesheet.days.map(day => day.totalMinutes)).toEqual([180, 45]);
+
+    const record = calculatePayroll(timesheet, settings);
+    expect(record.lines.map(line => [line.jobType, line.minutes])).toEqual([['cleaning', 180], ['adjustment', 45]]);
+    expect(record.total).toBe(375);
+  });
+
+  test('should pay turnovers per job and only hourly time towards overtime', () => {
+    const timesheet = buildWeeklyTimesheet('anna', getPayPeriod(at(4, 9)), [
+      work('a', 'checkout', at(4, 7), at(4, 10)),
+      work('b', 'maintenance', at(4, 10, 30), at(4, 19, 30)),
+    ], [], 'approved', settings);
+
+    const record = calculatePayroll(timesheet, settings);
+
+    expect(record.lines).toEqual([
+      { jobType: 'checkout', mode: 'per_job', jobs: 1, minutes: 180, rate: 400, amount: 400 },
+      { jobType: 'maintenance', mode: 'hourly', jobs: 1, minutes: 540, rate: 100, amount: 900 },
+      { jobType: 'travel', mode: 'hourly', jobs: 0, minutes: 30, rate: 100, amount: 50 },
+    ]);
+    expect(record.hourlyMinutes).toBe(570);
+    expect(record.overtimeMinutes).toBe(90);
+    expect(record.overtimeAmount).toBe(75);
+    expect(record.total).toBe(1425);
+  });
+
+  test('should apply weekly overtime to regular time over the limit', () => {
+    const days = [4, 5, 6, 7, 8, 9, 10];
+    const timesheet = buildWeeklyTimesheet(
+      'anna',
+      getPayPeriod(at(4, 9)),
+      days.map(day => work(`job-${day}`, 'cleaning', at(day, 9), at(day, 17))),
+      [],
+      'open',
+      settings
+    );
+
+    const record = calculatePayroll(timesheet, settings);
+    expect(record.overtimeMinutes).toBe(8 * 60);
+  });
+
+  test('should only move periods forward through approval and lock', () => {
+    expect(canTransitionPeriod('open', 'approved')).toBe(true);
+    expect(canTransitionPeriod('approved', 'locked')).toBe(true);
+    expect(canTransitionPeriod('open', 'locked')).toBe(false);
+    expect(canTransitionPeriod('locked', 'open')).toBe(false);
+  });
+
+  test('should export one CSV row per pay line and quote names', () => {
+    const period = getPayPeriod(at(4, 9));
+    const timesheet = buildWeeklyTimesheet('anna', period, [
+      work('a', 'checkout', at(4, 9), at(4, 11)),
+    ], [], 'locked', settings, 'Anna, Lead');
+
+    const csv = toPayrollCsv(toPayrollExport(period, [calculatePayroll(timesheet, settings)], settings, at(11, 8)));
+
+    expect(csv.split('\n')).toEqual([
+      'period,staff_id,staff_name,status,item,mode,jobs,hours,rate,amount,currency',
+      '2024-03-04,anna,"Anna, Lead",locked,checkout,per_job,1,2.00,400,400.00,THB',
+    ]);
+  });
+});
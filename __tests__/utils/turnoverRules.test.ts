@@ -0,0 +1,153 @@
+/**
+ * Tests for Turnover Rules
+ * Verifies booking-driven job planning, stable stay numbering, same-day
+ * turnovers and reconciling
+ */
+
+import {
+  assignStayNumbers,
+  planTurnoverJobs,
+  findTurnoverGaps,
+  diffTurnoverJobs,
+  resolveTurnoverRules,
+  TurnoverBooking,
+} from '../../utils/turnoverRules';
+
+const stay = (id: string, checkIn: string, checkOut: string): TurnoverBooking => ({
+  id,
+  propertyId: 'property-1',
+  guestName: `Guest ${id}`,
+  checkIn,
+  checkOut,
+  status: 'confirmed',
+});
+
+describe('turnoverRules', () => {
+  test('should plan checkout, cleaning and check-in prep around each stay', () => {
+    const ruleSet = resolveTurnoverRules('condo');
+    const jobs = planTurnoverJobs([stay('b1', '2024-01-10', '2024-01-12')], ruleSet);
+
+    expect(jobs.map(job => job.key).sort()).toEqual(['b1_checkin_prep', 'b1_checkout', 'b1_cleaning']);
+
+    const cleaning = jobs.find(job => job.ruleId === 'cleaning');
+    expect(cleaning?.jobType).toBe('cleaning');
+    expect(cleaning?.estimatedDuration).toBe(120);
+    expect(cleaning?.scheduledFor).toEqual(new Date('2024-01-12T11:30:00'));
+
+    const prep = jobs.find(job => job.ruleId === 'checkin_prep');
+    expect(prep?.deadline).toEqual(new Date('2024-01-10T14:30:00'));
+  });
+
+  test('should add an inspection every N stays and apply property overrides', () => {
+    const ruleSet = resolveTurnoverRules('villa', null, {
+      rules: [{ id: 'checkin_prep', enabled: false }],
+    });
+    const bookings = [
+      stay('b1', '2024-01-01', '2024-01-03'),
+      stay('b2', '2024-01-05', '2024-01-07'),
+      stay('b3', '2024-01-09', '2024-01-11'),
+    ];
+
+    const jobs = planTurnoverJobs(bookings, ruleSet);
+
+    expect(jobs.filter(job => job.ruleId === 'inspection').map(job => job.bookingId)).toEqual(['b3']);
+    expect(jobs.some(job => job.ruleId === 'checkin_prep')).toBe(false);
+  });
+
+  test('should keep every-N-stays jobs on the same booking as the window moves', () => {
+    const ruleSet = resolveTurnoverRules('villa');
+    const b1 = stay('b1', '2024-01-01', '2024-01-03');
+    const b2 = stay('b2', '2024-01-05', '2024-01-07');
+    const b3 = stay('b3', '2024-01-09', '2024-01-11');
+    const b4 = stay('b4', '2024-01-13', '2024-01-15');
+
+    const stored = assignStayNumbers([b1, b2, b3]);
+    expect(stored).toEqual({ b1: 1, b2: 2, b3: 3 });
+
+    // b1 has left the planning window and b4 is new
+    const numbers = assignStayNumbers([b2, b3, b4], stored);
+    expect(numbers).toMatchObject({ b2: 2, b3: 3, b4: 4 });
+
+    const planned = planTurnoverJobs([b2, b3, b4], ruleSet, numbers);
+    const existing = planTurnoverJobs([b1, b2, b3], ruleSet, stored)
+      .filter(job => job.bookingId !== 'b1')
+      .map(job => ({ id: `turnover_${job.key}`, key: job.key, bookingId: job.bookingId, status: 'pending', scheduledFor: job.scheduledFor, deadline: job.deadline, sameDayTurnover: job.sameDayTurnover }));
+
+    expect(planned.filter(job => job.ruleId === 'inspection').map(job => job.bookingId)).toEqual(['b3']);
+    const changes = diffTurnoverJobs(planned, existing, [b2, b3, b4]);
+    expect(changes.cancel).toEqual([]);
+    expect(changes.create.some(job => job.ruleId === 'inspection')).toBe(false);
+  });
+
+  test('should not renumber when a stay is booked before existing ones', () => {
+    const stored = { b2: 1, b3: 2 };
+    const early = stay('b1', '2024-01-01', '2024-01-03');
+
+    expect(assignStayNumbers([early, stay('b2', '2024-01-05', '2024-01-07')], stored)).toEqual({ b1: 3, b2: 1, b3: 2 });
+  });
+
+  test('should flag same-day turnovers shorter than the planned work', () => {
+    const ruleSet = resolveTurnoverRules('villa');
+    const bookings = [
+      stay('b1', '2024-01-10', '2024-01-12T11:00:00'),
+      stay('b2', '2024-01-12T14:00:00', '2024-01-14'),
+    ];
+
+    const [gap] = findTurnoverGaps(bookings, ruleSet);
+    expect(gap.gapMinutes).toBe(180);
+    expect(gap.requiredMinutes).toBe(30 + 240 + 45);
+    expect(gap.isTight).toBe(true);
+
+    const cleaning = planTurnoverJobs(bookings, ruleSet).find(job => job.key === 'b1_cleaning');
+    expect(cleaning?.sameDayTurnover).toBe(true);
+    expect(cleaning?.priority).toBe('urgent');
+  });
+
+  test('should reschedule moved jobs and cancel jobs of cancelled bookings', () => {
+    const ruleSet = resolveTurnoverRules('condo');
+    const original = planTurnoverJobs([stay('b1', '2024-01-10', '2024-01-12')], ruleSet);
+    const existing = original.map(job => ({
+      id: `turnover_${job.key}`,
+      key: job.key,
+      bookingId: job.bookingId,
+      status: job.ruleId === 'checkout' ? 'completed' : 'pending',
+      scheduledFor: job.scheduledFor,
+      deadline: job.deadline,
+      sameDayTurnover: job.sameDayTurnover,
+    }));
+
+    const movedStay = stay('b1', '2024-01-10', '2024-01-13');
+    const moved = planTurnoverJobs([movedStay], ruleSet);
+    const movedChanges = diffTurnoverJobs(moved, existing, [movedStay]);
+    expect(movedChanges.create).toEqual([]);
+    expect(movedChanges.reschedule.map(change => change.job.key)).toEqual(['b1_cleaning']);
+
+    const cancelledStay: TurnoverBooking = { ...stay('b1', '2024-01-10', '2024-01-12'), status: 'cancelled' };
+    const cancelled = planTurnoverJobs([cancelledStay], ruleSet);
+    const cancelledChanges = diffTurnoverJobs(cancelled, existing, [cancelledStay]);
+    // The completed checkout job is left alone
+    expect(cancelledChanges.cancel.map(job => job.key).sort()).toEqual(['b1_checkin_prep', 'b1_cleaning']);
+
+    // A deleted booking is missing from every source
+    const deletedChanges = diffTurnoverJobs([], existing, []);
+    expect(deletedChanges.cancel.map(job => job.key).sort()).toEqual(['b1_checkin_prep', 'b1_cleaning']);
+  });
+
+  test('should keep jobs whose booking is live but not planned', () => {
+    const b1 = stay('b1', '2024-01-10', '2024-01-12');
+    const existing = planTurnoverJobs([b1], resolveTurnoverRules('condo')).map(job => ({
+      id: `turnover_${job.key}`,
+      key: job.key,
+      bookingId: job.bookingId,
+      status: 'pending',
+      scheduledFor: job.scheduledFor,
+      deadline: job.deadline,
+      sameDayTurnover: job.sameDayTurnover,
+    }));
+
+    // Switching a rule off stops new jobs but leaves the ones already planned
+    const ruleSet = resolveTurnoverRules('condo', null, { rules: [{ id: 'checkin_prep', enabled: false }] });
+    const changes = diffTurnoverJobs(planTurnoverJobs([b1], ruleSet), existing, [b1]);
+    expect(changes.cancel).toEqual([]);
+  });
+});
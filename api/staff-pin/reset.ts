@@ -0,0 +1,60 @@
+/**
+ * Staff PIN Reset API Endpoint
+ * POST /api/staff-pin/reset
+ * Admin-initiated reset; the caller sends their Firebase ID token as a bearer token
+ */
+
+import { initializeFirebaseAdmin } from '@/lib/firebaseAdmin';
+import { getPINAdminId, resetStaffPIN } from '@/lib/staffPinAdmin';
+
+interface ApiRequest {
+  method?: string;
+  body: any;
+  headers?: Record<string, string | undefined>;
+}
+
+interface ApiResponse<T = any> {
+  status: (code: number) => ApiResponse<T>;
+  json: (data: T) => void;
+}
+
+export default async function handler(
+  req: ApiRequest,
+  res: ApiResponse<{ success: boolean; error?: string }>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.'
+    });
+  }
+
+  try {
+    initializeFirebaseAdmin();
+
+    const adminId = await getPINAdminId(req.headers?.authorization);
+    if (!adminId) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only admins and managers can reset PINs'
+      });
+    }
+
+    const { staffId } = req.body || {};
+    if (typeof staffId !== 'string' || !staffId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required field: staffId'
+      });
+    }
+
+    await resetStaffPIN(staffId, adminId);
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('❌ Error resetting staff PIN:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to reset PIN'
+    });
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Staff PIN Set API Endpoint
+ * POST /api/staff-pin/set
+ * Stores a staff member's first PIN; changing a PIN needs an admin reset
+ */
+
+import { initializeFirebaseAdmin } from '@/lib/firebaseAdmin';
+import { setStaffPIN } from '@/lib/staffPinAdmin';
+
+interface ApiRequest {
+  method?: string;
+  body: any;
+}
+
+interface ApiResponse<T = any> {
+  status: (code: number) => ApiResponse<T>;
+  json: (data: T) => void;
+}
+
+export default async function handler(
+  req: ApiRequest,
+  res: ApiResponse<{ success: boolean; error?: string }>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.'
+    });
+  }
+
+  try {
+    initializeFirebaseAdmin();
+
+    const { staffId, pin } = req.body || {};
+    if (typeof staffId !== 'string' || !staffId || typeof pin !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: staffId, pin'
+      });
+    }
+
+    const result = await setStaffPIN(staffId, pin);
+    return res.status(result.success ? 200 : 409).json(result);
+  } catch (error) {
+    console.error('❌ Error setting staff PIN:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to set PIN'
+    });
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Staff PIN Status API Endpoint
+ * POST /api/staff-pin/status
+ * Lockout status for a staff member's PIN, without the PIN record itself
+ */
+
+import { initializeFirebaseAdmin } from '@/lib/firebaseAdmin';
+import { getStaffPINStatus } from '@/lib/staffPinAdmin';
+import type { PINAttemptStatus } from '@/utils/pinSecurity';
+
+interface ApiRequest {
+  method?: string;
+  body: any;
+}
+
+interface ApiResponse<T = any> {
+  status: (code: number) => ApiResponse<T>;
+  json: (data: T) => void;
+}
+
+export default async function handler(
+  req: ApiRequest,
+  res: ApiResponse<{ success: boolean; status?: PINAttemptStatus; error?: string }>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.'
+    });
+  }
+
+  try {
+    initializeFirebaseAdmin();
+
+    const { staffId } = req.body || {};
+    if (typeof staffId !== 'string' || !staffId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required field: staffId'
+      });
+    }
+
+    return res.status(200).json({ success: true, status: await getStaffPINStatus(staffId) });
+  } catch (error) {
+    console.error('❌ Error reading staff PIN status:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to read PIN status'
+    });
+  }
+}
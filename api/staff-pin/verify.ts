@@ -0,0 +1,51 @@
+/**
+ * Staff PIN Verify API Endpoint
+ * POST /api/staff-pin/verify
+ * Checks a staff PIN on the server and counts failures towards the lockout
+ */
+
+import { initializeFirebaseAdmin } from '@/lib/firebaseAdmin';
+import { verifyStaffPIN, StaffPINCheck } from '@/lib/staffPinAdmin';
+
+interface ApiRequest {
+  method?: string;
+  body: any;
+}
+
+interface ApiResponse<T = any> {
+  status: (code: number) => ApiResponse<T>;
+  json: (data: T) => void;
+}
+
+export default async function handler(
+  req: ApiRequest,
+  res: ApiResponse<StaffPINCheck>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use POST.'
+    });
+  }
+
+  try {
+    initializeFirebaseAdmin();
+
+    const { staffId, pin } = req.body || {};
+    if (typeof staffId !== 'string' || !staffId || typeof pin !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: staffId, pin'
+      });
+    }
+
+    const result = await verifyStaffPIN(staffId, pin);
+    return res.status(result.success ? 200 : result.lockoutTime ? 429 : 401).json(result);
+  } catch (error) {
+    console.error('❌ Error verifying staff PIN:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'PIN verification failed'
+    });
+  }
+}
@@ -22,6 +22,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { usePINAuth } from "@/contexts/PINAuthContext";
 import { StaffProfile } from '@/services/localStaffService';
+import { orderProfilesForQuickSwitch } from '@/utils/kioskSession';
 import { BrandTheme } from '@/constants/BrandTheme';
 import { Card } from '@/components/ui/BrandCard';
 import { Button } from '@/components/ui/BrandButton';
@@ -35,12 +36,19 @@ export default function SelectProfileScreen() {
     getStaffProfiles,
     isLoading,
     hasProfilePIN,
-    refreshStaffProfiles
+    refreshStaffProfiles,
+    kioskSettings,
+    recentProfileIds
   } = usePINAuth();
 
   const [loadingProfileId, setLoadingProfileId] = useState<string | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
 
+  // On a shared device the people who just used it come first
+  const displayedProfiles = kioskSettings.enabled
+    ? orderProfilesForQuickSwitch(staffProfiles, recentProfileIds)
+    : staffProfiles;
+
   useEffect(() => {
     console.log('📱 SelectProfile: Component mounted, loading profiles...');
     loadProfiles();
@@ -160,7 +168,9 @@ export default function SelectProfileScreen() {
               Select Profile
             </Text>
             <Text style={styles.headerSubtitle}>
-              Choose your staff profile to continue
+              {kioskSettings.enabled
+                ? 'Shared device - tap your profile to unlock'
+                : 'Choose your staff profile to continue'}
             </Text>
           </View>
 
@@ -201,7 +211,7 @@ export default function SelectProfileScreen() {
               </View>
             </Card>
           ) : (
-            staffProfiles.map((profile, index) => (
+            displayedProfiles.map((profile, index) => (
               <Card key={profile.id} style={styles.profileCard}>
                 <TouchableOpacity
                   onPress={() => handleProfileSelect(profile)}
@@ -11,6 +11,142 @@ export default function ModalLayout() {
           headerShown: false,
         }}
       />
+      <Stack.Screen
+        name="sync-conflicts"
+        options={{
+          title: 'Sync Conflicts',
+          presentation: 'modal',
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="shopping-list"
+        options={{
+          title: 'Shopping List',
+          presentation: 'modal',
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="property-knowledge"
+        options={{
+          title: 'Property Knowledge',
+          presentation: 'modal',
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="job-thread"
+        options={{
+          title: 'Job Chat',
+          presentation: 'modal',
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="job-inbox"
+        options={{
+          title: 'Job Inbox',
+          presentation: 'modal',
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="announcements"
+        options={{
+          title: 'Announcements',
+          presentation: 'modal',
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="issues"
+        options={{
+          title: 'Issues',
+          presentation: 'modal',
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="report-issue"
+        options={{
+          title: 'Report Issue',
+          presentation: 'modal',
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="review-queue"
+        options={{
+          title: 'Review Queue',
+          presentation: 'modal',
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="site-timeline"
+        options={{
+          title: 'Site Timeline',
+          presentation: 'modal',
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="timesheets"
+        options={{
+          title: 'Timesheets',
+          presentation: 'modal',
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="roster"
+        options={{
+          title: 'Roster',
+          presentation: 'modal',
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="leave-requests"
+        options={{
+          title: 'Leave Requests',
+          presentation: 'modal',
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="staff-pins"
+        options={{
+          title: 'Staff PINs',
+          presentation: 'modal',
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="notification-preferences"
+        options={{
+          title: 'Notification Preferences',
+          presentation: 'modal',
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="escalations"
+        options={{
+          title: 'Escalations',
+          presentation: 'modal',
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="notification-digest"
+        options={{
+          title: 'Digest',
+          presentation: 'modal',
+          headerShown: false,
+        }}
+      />
     </Stack>
   );
 }
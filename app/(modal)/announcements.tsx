@@ -0,0 +1,683 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { usePINAuth } from "@/contexts/PINAuthContext";
+import { announcementService } from '@/services/announcementService';
+import { propertyService } from '@/services/propertyService';
+import type { Property } from '@/services/propertyService';
+import type {
+  Announcement,
+  AnnouncementAudienceType,
+  AnnouncementDraft,
+  AudienceStaff,
+  RecipientReadStatus,
+} from '@/types/announcement';
+import {
+  ANNOUNCEMENT_ROLES,
+  ROLE_AUDIENCE_LABELS,
+  getAnnouncementProgress,
+  getRecipientStatuses,
+  validateAnnouncement,
+} from '@/utils/announcements';
+import { BrandTheme } from '@/constants/BrandTheme';
+import { canAccessRoute } from '@/utils/permissions';
+
+const AUDIENCE_TYPES: { type: AnnouncementAudienceType; label: string }[] = [
+  { type: 'all', label: 'Everyone' },
+  { type: 'role', label: 'By role' },
+  { type: 'property', label: 'By property' },
+  { type: 'staff', label: 'Pick staff' },
+];
+
+const STATUS_DISPLAY: Record<RecipientReadStatus, { label: string; icon: keyof typeof Ionicons.glyphMap; color: string }> = {
+  unread: { label: 'Not read', icon: 'ellipse-outline', color: BrandTheme.colors.TEXT_SECONDARY },
+  read: { label: 'Read', icon: 'eye-outline', color: BrandTheme.colors.WARNING },
+  acknowledged: { label: 'Acknowledged', icon: 'checkmark-done', color: BrandTheme.colors.SUCCESS },
+};
+
+const EMPTY_DRAFT: AnnouncementDraft = {
+  title: '',
+  body: '',
+  audience: { type: 'all' },
+  priority: 'normal',
+  requiresAck: true,
+};
+
+const toggle = (values: string[] | undefined, value: string): string[] =>
+  (values || []).includes(value) ? (values || []).filter(item => item !== value) : [...(values || []), value];
+
+const formatSentAt = (date: Date): string =>
+  date.toLocaleDateString([], { day: 'numeric', month: 'short' }) +
+  ' ' +
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export default function AnnouncementsScreen() {
+  const { currentProfile } = usePINAuth();
+  const router = useRouter();
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<AnnouncementDraft | null>(null);
+  const [staff, setStaff] = useState<AudienceStaff[]>([]);
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [remindingId, setRemindingId] = useState<string | null>(null);
+
+  const hasAccess = canAccessRoute(currentProfile?.role, '/(modal)/announcements');
+
+  useEffect(() => {
+    if (!hasAccess) return;
+    return announcementService.subscribeToAnnouncements(next => {
+      setAnnouncements(next);
+      setLoading(false);
+    });
+  }, [hasAccess]);
+
+  const loadAudienceOptions = useCallback(async () => {
+    try {
+      const [audienceStaff, propertyResponse] = await Promise.all([
+        announcementService.getAudienceStaff(),
+        propertyService.getAllProperties(),
+      ]);
+      setStaff(audienceStaff);
+      if (propertyResponse.success && propertyResponse.properties) {
+        setProperties(propertyResponse.properties);
+      }
+    } catch (error) {
+      console.error('❌ Announcements: Failed to load audience options:', error);
+    }
+  }, []);
+
+  const startDraft = () => {
+    setDraft({ ...EMPTY_DRAFT });
+    if (staff.length === 0) {
+      loadAudienceOptions();
+    }
+  };
+
+  const updateDraft = (changes: Partial<AnnouncementDraft>) => {
+    setDraft(current => (current ? { ...current, ...changes } : current));
+  };
+
+  const handleSend = async () => {
+    if (!draft || !currentProfile) return;
+
+    const errors = validateAnnouncement(draft);
+    if (errors.length > 0) {
+      Alert.alert('Check the announcement', errors.join('\n'));
+      return;
+    }
+
+    try {
+      setIsSending(true);
+      const propertyNames = Object.fromEntries(properties.map(property => [property.id, property.name]));
+      await announcementService.send(draft, { id: currentProfile.id, name: currentProfile.name }, propertyNames);
+      setDraft(null);
+    } catch (error) {
+      console.error('❌ Announcements: Failed to send announcement:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to send announcement');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleRemind = async (announcement: Announcement) => {
+    try {
+      setRemindingId(announcement.id);
+      const reminded = await announcementService.sendReminder(announcement);
+      Alert.alert('Reminder sent', `Reminded ${reminded} staff ${reminded === 1 ? 'member' : 'members'}`);
+    } catch (error) {
+      console.error('❌ Announcements: Failed to send reminder:', error);
+      Alert.alert('Error', 'Failed to send reminder');
+    } finally {
+      setRemindingId(null);
+    }
+  };
+
+  const renderChips = (options: { id: string; label: string }[], selected: string[] | undefined, onToggle: (id: string) => void) => (
+    <View style={styles.chipRow}>
+      {options.map(option => {
+        const active = (selected || []).includes(option.id);
+        return (
+          <TouchableOpacity
+            key={option.id}
+            style={[styles.chip, active && styles.chipSelected]}
+            onPress={() => onToggle(option.id)}
+          >
+            <Text style={[styles.chipText, active && styles.chipTextSelected]}>{option.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderForm = (current: AnnouncementDraft) => {
+    const { audience } = current;
+
+    return (
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>New Announcement</Text>
+
+        <Text style={styles.label}>Title</Text>
+        <TextInput
+          value={current.title}
+          onChangeText={title => updateDraft({ title })}
+          placeholder="New linen policy, storm warning..."
+          placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+          style={styles.input}
+        />
+
+        <Text style={styles.label}>Message</Text>
+        <TextInput
+          value={current.body}
+          onChangeText={body => updateDraft({ body })}
+          placeholder="What the team needs to know"
+          placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+          style={[styles.input, styles.multilineInput]}
+          multiline
+        />
+
+        <Text style={styles.label}>Send to</Text>
+        <View style={styles.chipRow}>
+          {AUDIENCE_TYPES.map(option => (
+            <TouchableOpacity
+              key={option.type}
+              style={[styles.chip, audience.type === option.type && styles.chipSelected]}
+              onPress={() => updateDraft({ audience: { type: option.type } })}
+            >
+              <Text style={[styles.chipText, audience.type === option.type && styles.chipTextSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {audience.type === 'role' && (
+          <>
+            <Text style={styles.label}>Roles</Text>
+            {renderChips(
+              ANNOUNCEMENT_ROLES.map(role => ({ id: role, label: ROLE_AUDIENCE_LABELS[role] })),
+              audience.roles,
+              role => updateDraft({ audience: { type: 'role', roles: toggle(audience.roles, role) } })
+            )}
+          </>
+        )}
+
+        {audience.type === 'property' && (
+          <>
+            <Text style={styles.label}>Properties</Text>
+            <Text style={styles.hintText}>Goes to staff with open or recent jobs there</Text>
+            {renderChips(
+              properties.map(property => ({ id: property.id, label: property.name })),
+              audience.propertyIds,
+              id => updateDraft({ audience: { type: 'property', propertyIds: toggle(audience.propertyIds, id) } })
+            )}
+          </>
+        )}
+
+        {audience.type === 'staff' && (
+          <>
+            <Text style={styles.label}>Staff</Text>
+            {renderChips(
+              staff.map(member => ({ id: member.id, label: member.name })),
+              audience.staffIds,
+              id => updateDraft({ audience: { type: 'staff', staffIds: toggle(audience.staffIds, id) } })
+            )}
+          </>
+        )}
+
+        <View style={[styles.row, styles.switchRow]}>
+          <View style={styles.rowInfo}>
+            <Text style={styles.rowTitle}>Require acknowledgement</Text>
+            <Text style={styles.rowSubtitle}>Stays pinned in their notifications until they confirm</Text>
+          </View>
+          <Switch
+            value={current.requiresAck}
+            onValueChange={requiresAck => updateDraft({ requiresAck })}
+            trackColor={{ false: BrandTheme.colors.SURFACE_2, true: BrandTheme.colors.YELLOW }}
+          />
+        </View>
+
+        <View style={[styles.row, styles.switchRow]}>
+          <View style={styles.rowInfo}>
+            <Text style={styles.rowTitle}>Urgent</Text>
+            <Text style={styles.rowSubtitle}>Breaks through quiet hours for staff who allow it</Text>
+          </View>
+          <Switch
+            value={current.priority === 'urgent'}
+            onValueChange={urgent => updateDraft({ priority: urgent ? 'urgent' : 'normal' })}
+            trackColor={{ false: BrandTheme.colors.SURFACE_2, true: BrandTheme.colors.YELLOW }}
+          />
+        </View>
+
+        <View style={styles.formActions}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => setDraft(null)}>
+            <Text style={styles.secondaryButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.submitButton, isSending && styles.submitButtonDisabled]}
+            onPress={handleSend}
+            disabled={isSending}
+          >
+            {isSending ? (
+              <ActivityIndicator color={BrandTheme.colors.BLACK} />
+            ) : (
+              <Text style={styles.submitButtonText}>Send</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderAnnouncement = (announcement: Announcement) => {
+    const progress = getAnnouncementProgress(announcement);
+    const done = announcement.requiresAck ? progress.acknowledged : progress.read;
+    const expanded = expandedId === announcement.id;
+
+    return (
+      <TouchableOpacity
+        key={announcement.id}
+        style={styles.card}
+        onPress={() => setExpandedId(expanded ? null : announcement.id)}
+      >
+        <View style={styles.cardHeader}>
+          <View style={styles.cardInfo}>
+            <View style={styles.titleRow}>
+              {announcement.priority === 'urgent' && (
+                <Ionicons name="alert-circle" size={16} color={BrandTheme.colors.ERROR} />
+              )}
+              <Text style={styles.cardTitle} numberOfLines={1}>{announcement.title}</Text>
+            </View>
+            <Text style={styles.cardSubtitle}>
+              {announcement.audienceLabel} · {formatSentAt(announcement.createdAt)} · {announcement.createdByName}
+            </Text>
+          </View>
+          <Ionicons
+            name={expanded ? 'chevron-up' : 'chevron-down'}
+            size={18}
+            color={BrandTheme.colors.TEXT_SECONDARY}
+          />
+        </View>
+
+        <Text style={styles.bodyText} numberOfLines={expanded ? undefined : 2}>{announcement.body}</Text>
+
+        <View style={styles.progressTrack}>
+          <View
+            style={[styles.progressFill, { width: `${progress.total > 0 ? (done / progress.total) * 100 : 0}%` }]}
+          />
+        </View>
+        <Text style={styles.progressText}>
+          {announcement.requiresAck
+            ? `${progress.acknowledged}/${progress.total} acknowledged · ${progress.read}/${progress.total} read`
+            : `${progress.read}/${progress.total} read`}
+        </Text>
+
+        {expanded && (
+          <View style={styles.recipientList}>
+            {getRecipientStatuses(announcement).map(entry => {
+              const display = STATUS_DISPLAY[entry.status];
+              const at = entry.acknowledgedAt ?? entry.readAt;
+              return (
+                <View key={entry.recipient.id} style={styles.recipientRow}>
+                  <Ionicons name={display.icon} size={16} color={display.color} />
+                  <Text style={styles.recipientName}>{entry.recipient.name}</Text>
+                  <Text style={[styles.recipientStatus, { color: display.color }]}>
+                    {display.label}{at ? ` · ${formatSentAt(at)}` : ''}
+                  </Text>
+                </View>
+              );
+            })}
+
+            {progress.outstanding > 0 && (
+              <TouchableOpacity
+                style={styles.linkButton}
+                onPress={() => handleRemind(announcement)}
+                disabled={remindingId === announcement.id}
+              >
+                {remindingId === announcement.id ? (
+                  <ActivityIndicator size="small" color={BrandTheme.colors.YELLOW} />
+                ) : (
+                  <Ionicons name="notifications-outline" size={16} color={BrandTheme.colors.YELLOW} />
+                )}
+                <Text style={styles.linkButtonText}>Remind {progress.outstanding} outstanding</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const awaiting = announcements.filter(announcement => getAnnouncementProgress(announcement).outstanding > 0).length;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={BrandTheme.colors.TEXT_PRIMARY} />
+        </TouchableOpacity>
+        <View style={styles.headerInfo}>
+          <Text style={styles.headerTitle}>Announcements</Text>
+          <Text style={styles.headerSubtitle}>
+            {announcements.length} sent · {awaiting} still waiting on staff
+          </Text>
+        </View>
+        {hasAccess && !draft && (
+          <TouchableOpacity style={styles.backButton} onPress={startDraft}>
+            <Ionicons name="add" size={22} color={BrandTheme.colors.TEXT_PRIMARY} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {!hasAccess ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="lock-closed-outline" size={32} color={BrandTheme.colors.TEXT_SECONDARY} />
+          <Text style={styles.emptyStateText}>Only admins and managers can send announcements.</Text>
+        </View>
+      ) : loading ? (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color={BrandTheme.colors.YELLOW} />
+        </View>
+      ) : (
+        <KeyboardAvoidingView style={styles.flex} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+          <ScrollView style={styles.flex} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            {draft && renderForm(draft)}
+
+            {announcements.length === 0 && !draft ? (
+              <View style={styles.emptyState}>
+                <Ionicons name="megaphone-outline" size={32} color={BrandTheme.colors.TEXT_SECONDARY} />
+                <Text style={styles.emptyStateText}>
+                  No announcements yet. Send policy changes and warnings to the whole team or part of it.
+                </Text>
+              </View>
+            ) : (
+              announcements.map(renderAnnouncement)
+            )}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+  },
+  flex: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  headerSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  content: {
+    padding: BrandTheme.spacing.LG,
+    paddingBottom: BrandTheme.spacing.XXL,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: BrandTheme.spacing.XXL,
+    gap: BrandTheme.spacing.MD,
+  },
+  emptyStateText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 16,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    padding: BrandTheme.spacing.LG,
+    marginBottom: BrandTheme.spacing.MD,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.XS,
+  },
+  cardTitle: {
+    flexShrink: 1,
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  cardSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  bodyText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+    marginTop: BrandTheme.spacing.SM,
+  },
+  hintText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_MUTED,
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: BrandTheme.radius.PILL,
+    backgroundColor: BrandTheme.colors.SURFACE_2,
+    marginTop: BrandTheme.spacing.MD,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: BrandTheme.colors.YELLOW,
+  },
+  progressText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  recipientList: {
+    marginTop: BrandTheme.spacing.MD,
+    paddingTop: BrandTheme.spacing.SM,
+    borderTopWidth: 1,
+    borderTopColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  recipientRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.SM,
+    paddingVertical: BrandTheme.spacing.XS,
+  },
+  recipientName: {
+    flex: 1,
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  recipientStatus: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+  },
+  label: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: BrandTheme.spacing.LG,
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: BrandTheme.spacing.SM,
+  },
+  chip: {
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.SM,
+    borderRadius: BrandTheme.radius.PILL,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+  },
+  chipSelected: {
+    borderColor: BrandTheme.colors.YELLOW,
+    backgroundColor: BrandTheme.colors.YELLOW,
+  },
+  chipText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  chipTextSelected: {
+    color: BrandTheme.colors.BLACK,
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.MD,
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 16,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  multilineInput: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: BrandTheme.spacing.MD,
+  },
+  switchRow: {
+    marginTop: BrandTheme.spacing.LG,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  rowSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: BrandTheme.spacing.MD,
+    marginTop: BrandTheme.spacing.XL,
+  },
+  secondaryButton: {
+    flex: 1,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER,
+    paddingVertical: BrandTheme.spacing.LG,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  submitButton: {
+    flex: 1,
+    backgroundColor: BrandTheme.colors.YELLOW,
+    borderRadius: BrandTheme.radius.MD,
+    paddingVertical: BrandTheme.spacing.LG,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.BLACK,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.XS,
+    marginTop: BrandTheme.spacing.MD,
+  },
+  linkButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    color: BrandTheme.colors.YELLOW,
+  },
+});
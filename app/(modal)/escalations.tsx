@@ -0,0 +1,409 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Switch,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { usePINAuth } from "@/contexts/PINAuthContext";
+import { escalationPolicyService } from '@/services/escalationPolicyService';
+import type { EscalationAction, EscalationAlert, EscalationPolicy } from '@/types/escalation';
+import { ESCALATION_TRIGGER_LABELS } from '@/utils/escalationPolicy';
+import { BrandTheme } from '@/constants/BrandTheme';
+import { canAccessRoute } from '@/utils/permissions';
+
+type Tab = 'open' | 'all' | 'policies';
+
+const TABS: { key: Tab; label: string }[] = [
+  { key: 'open', label: 'Unacknowledged' },
+  { key: 'all', label: 'All alerts' },
+  { key: 'policies', label: 'Policies' },
+];
+
+const ACTION_LABELS: Record<EscalationAction, string> = {
+  remind_staff: 'Remind staff',
+  alert_supervisor: 'Alert supervisor',
+  alert_on_call_admin: 'Alert on-call admin',
+  auto_reassign: 'Auto-reassign',
+};
+
+const ACTION_ICONS: Record<EscalationAction, keyof typeof Ionicons.glyphMap> = {
+  remind_staff: 'alarm-outline',
+  alert_supervisor: 'people-outline',
+  alert_on_call_admin: 'call-outline',
+  auto_reassign: 'swap-horizontal-outline',
+};
+
+const describeConditions = (policy: EscalationPolicy): string => {
+  const parts = [
+    policy.conditions.priorities?.length ? `Priority: ${policy.conditions.priorities.join(', ')}` : null,
+    policy.conditions.jobTypes?.length ? `Jobs: ${policy.conditions.jobTypes.join(', ')}` : null,
+    policy.conditions.propertyIds?.length ? `${policy.conditions.propertyIds.length} properties` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'All jobs';
+};
+
+const formatSentAt = (date: Date) =>
+  `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+
+export default function EscalationsScreen() {
+  const { currentProfile } = usePINAuth();
+  const router = useRouter();
+  const [tab, setTab] = useState<Tab>('open');
+  const [alerts, setAlerts] = useState<EscalationAlert[]>([]);
+  const [policies, setPolicies] = useState<EscalationPolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const hasAccess = canAccessRoute(currentProfile?.role, '/(modal)/escalations');
+
+  const loadPolicies = useCallback(async () => {
+    try {
+      setPolicies(await escalationPolicyService.getPolicies());
+    } catch (error) {
+      console.error('❌ Escalations: Failed to load policies:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!hasAccess) return;
+    loadPolicies();
+    return escalationPolicyService.subscribeToAlerts(nextAlerts => {
+      setAlerts(nextAlerts);
+      setLoading(false);
+    });
+  }, [hasAccess, loadPolicies]);
+
+  const handleAcknowledge = async (alert: EscalationAlert) => {
+    if (!currentProfile) return;
+    try {
+      setBusyId(alert.id);
+      await escalationPolicyService.acknowledgeAlert(alert.id, currentProfile.id);
+    } catch (error) {
+      console.error('❌ Escalations: Failed to acknowledge alert:', error);
+      Alert.alert('Error', 'Failed to acknowledge alert');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleTogglePolicy = async (policy: EscalationPolicy, enabled: boolean) => {
+    if (!currentProfile) return;
+    try {
+      setBusyId(policy.id);
+      await escalationPolicyService.savePolicy({ ...policy, enabled }, currentProfile.id);
+      await loadPolicies();
+    } catch (error) {
+      console.error('❌ Escalations: Failed to save policy:', error);
+      Alert.alert('Error', 'Failed to save policy');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderAlert = (alert: EscalationAlert) => (
+    <View key={alert.id} style={styles.card}>
+      <View style={styles.cardHeader}>
+        <Ionicons name={ACTION_ICONS[alert.action]} size={18} color={alert.acknowledged ? BrandTheme.colors.TEXT_MUTED : BrandTheme.colors.WARNING} />
+        <Text style={styles.cardLabel}>
+          {ESCALATION_TRIGGER_LABELS[alert.trigger]} · {ACTION_LABELS[alert.action]}
+        </Text>
+      </View>
+      <Text style={styles.cardTitle}>{alert.message}</Text>
+      <Text style={styles.metaText}>
+        {formatSentAt(alert.sentAt)}
+        {alert.recipientIds.length > 0 ? ` · ${alert.recipientIds.length} notified` : ''}
+      </Text>
+
+      <View style={styles.actionRow}>
+        <TouchableOpacity style={[styles.actionButton, styles.secondaryButton]} onPress={() => router.push(`/jobs/${alert.jobId}`)}>
+          <Text style={styles.secondaryButtonText}>Open Job</Text>
+        </TouchableOpacity>
+        {alert.acknowledged ? (
+          <View style={styles.acknowledgedRow}>
+            <Ionicons name="checkmark-circle" size={16} color={BrandTheme.colors.SUCCESS} />
+            <Text style={styles.acknowledgedText}>Acknowledged</Text>
+          </View>
+        ) : (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.primaryButton]}
+            onPress={() => handleAcknowledge(alert)}
+            disabled={busyId === alert.id}
+          >
+            {busyId === alert.id ? (
+              <ActivityIndicator size="small" color={BrandTheme.colors.BLACK} />
+            ) : (
+              <Text style={styles.primaryButtonText}>Acknowledge</Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+
+  const renderPolicy = (policy: EscalationPolicy) => (
+    <View key={policy.id} style={styles.card}>
+      <View style={styles.policyHeader}>
+        <View style={styles.policyInfo}>
+          <Text style={styles.cardTitle}>{policy.name}</Text>
+          <Text style={styles.metaText}>
+            {ESCALATION_TRIGGER_LABELS[policy.trigger]} after {policy.thresholdMinutes} min · {describeConditions(policy)}
+          </Text>
+        </View>
+        <Switch
+          value={policy.enabled}
+          onValueChange={enabled => handleTogglePolicy(policy, enabled)}
+          disabled={busyId === policy.id}
+          trackColor={{ false: BrandTheme.colors.SURFACE_2, true: BrandTheme.colors.YELLOW }}
+        />
+      </View>
+      {policy.steps.map(step => (
+        <View key={step.id} style={styles.stepRow}>
+          <Ionicons name={ACTION_ICONS[step.action]} size={14} color={BrandTheme.colors.TEXT_SECONDARY} />
+          <Text style={styles.stepText}>
+            +{step.delayMinutes} min · {ACTION_LABELS[step.action]}
+            {step.conditions?.priorities?.length ? ` (${step.conditions.priorities.join(', ')} only)` : ''}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  const visibleAlerts = tab === 'open' ? alerts.filter(alert => !alert.acknowledged) : alerts;
+  const openCount = alerts.filter(alert => !alert.acknowledged).length;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={BrandTheme.colors.TEXT_PRIMARY} />
+        </TouchableOpacity>
+        <View>
+          <Text style={styles.headerTitle}>Escalations</Text>
+          <Text style={styles.headerSubtitle}>{openCount} awaiting acknowledgement</Text>
+        </View>
+      </View>
+
+      {!hasAccess ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="lock-closed-outline" size={32} color={BrandTheme.colors.TEXT_SECONDARY} />
+          <Text style={styles.emptyStateText}>Your role cannot manage escalations.</Text>
+        </View>
+      ) : (
+        <>
+          <View style={styles.tabs}>
+            {TABS.map(({ key, label }) => (
+              <TouchableOpacity
+                key={key}
+                style={[styles.tab, tab === key && styles.tabActive]}
+                onPress={() => setTab(key)}
+              >
+                <Text style={[styles.tabText, tab === key && styles.tabTextActive]}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {loading ? (
+            <View style={styles.emptyState}>
+              <ActivityIndicator size="large" color={BrandTheme.colors.YELLOW} />
+            </View>
+          ) : (
+            <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+              {tab === 'policies' ? (
+                policies.map(renderPolicy)
+              ) : visibleAlerts.length === 0 ? (
+                <View style={styles.emptyState}>
+                  <Ionicons name="checkmark-circle-outline" size={32} color={BrandTheme.colors.SUCCESS} />
+                  <Text style={styles.emptyStateText}>No escalations</Text>
+                </View>
+              ) : (
+                visibleAlerts.map(renderAlert)
+              )}
+            </ScrollView>
+          )}
+        </>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  headerSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: BrandTheme.spacing.SM,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingVertical: BrandTheme.spacing.MD,
+  },
+  tab: {
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.XS,
+    borderRadius: BrandTheme.radius.PILL,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  tabActive: {
+    borderColor: BrandTheme.colors.YELLOW,
+    backgroundColor: BrandTheme.colors.YELLOW,
+  },
+  tabText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_SECONDARY,
+  },
+  tabTextActive: {
+    color: BrandTheme.colors.BLACK,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: BrandTheme.spacing.LG,
+    paddingTop: 0,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: BrandTheme.spacing.XXL,
+    gap: BrandTheme.spacing.MD,
+  },
+  emptyStateText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 16,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    padding: BrandTheme.spacing.LG,
+    marginBottom: BrandTheme.spacing.MD,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.SM,
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  cardLabel: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+  },
+  cardTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  metaText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_MUTED,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.SM,
+    marginTop: BrandTheme.spacing.MD,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: BrandTheme.spacing.SM,
+    borderRadius: BrandTheme.radius.SM,
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  secondaryButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+  },
+  primaryButton: {
+    backgroundColor: BrandTheme.colors.YELLOW,
+  },
+  primaryButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    fontWeight: '600',
+    color: BrandTheme.colors.BLACK,
+  },
+  acknowledgedRow: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: BrandTheme.spacing.XS,
+  },
+  acknowledgedText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.SUCCESS,
+  },
+  policyHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  policyInfo: {
+    flex: 1,
+  },
+  stepRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.SM,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  stepText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+  },
+});
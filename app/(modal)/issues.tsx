@@ -0,0 +1,374 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+  Image,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { usePINAuth } from "@/contexts/PINAuthContext";
+import { issueService } from '@/services/issueService';
+import type { Issue, IssueSeverity } from '@/types/issue';
+import { ISSUE_CATEGORY_LABELS } from '@/utils/issueTriage';
+import { BrandTheme } from '@/constants/BrandTheme';
+import { canAccessRoute } from '@/utils/permissions';
+
+const SEVERITY_COLORS: Record<IssueSeverity, string> = {
+  low: BrandTheme.colors.TEXT_SECONDARY,
+  medium: BrandTheme.colors.WARNING,
+  high: BrandTheme.colors.ERROR,
+  critical: BrandTheme.colors.ERROR,
+};
+
+const DISMISS_REASONS = ['Duplicate report', 'No action needed', 'Fixed on the spot'];
+
+export default function IssuesScreen() {
+  const { currentProfile } = usePINAuth();
+  const router = useRouter();
+  const [issues, setIssues] = useState<Issue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [busyIssueId, setBusyIssueId] = useState<string | null>(null);
+
+  const hasAccess = canAccessRoute(currentProfile?.role, '/(modal)/issues');
+
+  const loadIssues = useCallback(async () => {
+    try {
+      setIssues(await issueService.getOpenIssues());
+    } catch (error) {
+      console.error('❌ Issues: Failed to load issues:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (hasAccess) {
+      loadIssues();
+    }
+  }, [hasAccess, loadIssues]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadIssues();
+    setRefreshing(false);
+  }, [loadIssues]);
+
+  const handleTriage = async (issue: Issue) => {
+    if (!currentProfile) return;
+    try {
+      setBusyIssueId(issue.id);
+      await issueService.triageIssue(issue.id, {}, currentProfile.id);
+      Alert.alert('Repair Job Created', 'The job is waiting for assignment in the jobs list.');
+      await loadIssues();
+    } catch (error) {
+      console.error('❌ Issues: Failed to triage issue:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to create repair job');
+    } finally {
+      setBusyIssueId(null);
+    }
+  };
+
+  const dismiss = async (issue: Issue, reason: string) => {
+    if (!currentProfile) return;
+    try {
+      setBusyIssueId(issue.id);
+      await issueService.dismissIssue(issue.id, reason, currentProfile.id);
+      await loadIssues();
+    } catch (error) {
+      console.error('❌ Issues: Failed to dismiss issue:', error);
+      Alert.alert('Error', 'Failed to dismiss issue');
+    } finally {
+      setBusyIssueId(null);
+    }
+  };
+
+  const handleDismiss = (issue: Issue) => {
+    Alert.alert('Dismiss Issue', issue.title, [
+      ...DISMISS_REASONS.map(reason => ({ text: reason, onPress: () => dismiss(issue, reason) })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const renderIssue = (issue: Issue) => {
+    const isBusy = busyIssueId === issue.id;
+
+    return (
+      <View key={issue.id} style={styles.card}>
+        <View style={styles.cardHeader}>
+          <View style={[styles.severityBadge, { backgroundColor: SEVERITY_COLORS[issue.severity] }]}>
+            <Text style={styles.severityText}>{issue.severity.toUpperCase()}</Text>
+          </View>
+          <Text style={styles.categoryText}>{ISSUE_CATEGORY_LABELS[issue.category]}</Text>
+        </View>
+
+        <Text style={styles.cardTitle}>{issue.title}</Text>
+        <Text style={styles.cardSubtitle}>
+          {issue.propertyName || issue.propertyId} · {issue.location}
+        </Text>
+        {!!issue.description && <Text style={styles.description}>{issue.description}</Text>}
+
+        {issue.photos.length > 0 && (
+          <ScrollView horizontal style={styles.photoRow} showsHorizontalScrollIndicator={false}>
+            {issue.photos.map(url => (
+              <Image key={url} source={{ uri: url }} style={styles.photo} />
+            ))}
+          </ScrollView>
+        )}
+
+        <View style={styles.metaRow}>
+          {issue.reportedByName && <Text style={styles.metaText}>Reported by {issue.reportedByName}</Text>}
+          {issue.costEstimate !== undefined && <Text style={styles.metaText}>Est. {issue.costEstimate}</Text>}
+          {issue.bookingRef && (
+            <Text style={styles.metaText}>
+              Booking {issue.bookingRef}{issue.guestName ? ` · ${issue.guestName}` : ''}
+            </Text>
+          )}
+        </View>
+
+        {issue.status === 'triaged' ? (
+          <View style={styles.triagedRow}>
+            <Ionicons name="construct-outline" size={16} color={BrandTheme.colors.INFO} />
+            <Text style={styles.triagedText}>Repair job scheduled - closes when verified</Text>
+          </View>
+        ) : (
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.dismissButton]}
+              onPress={() => handleDismiss(issue)}
+              disabled={isBusy}
+            >
+              <Text style={styles.dismissButtonText}>Dismiss</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.triageButton]}
+              onPress={() => handleTriage(issue)}
+              disabled={isBusy}
+            >
+              {isBusy ? (
+                <ActivityIndicator size="small" color={BrandTheme.colors.BLACK} />
+              ) : (
+                <Text style={styles.triageButtonText}>Create Repair Job</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={BrandTheme.colors.TEXT_PRIMARY} />
+        </TouchableOpacity>
+        <View>
+          <Text style={styles.headerTitle}>Issues</Text>
+          <Text style={styles.headerSubtitle}>
+            {issues.filter(issue => issue.status === 'open').length} awaiting triage
+          </Text>
+        </View>
+      </View>
+
+      {!hasAccess ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="lock-closed-outline" size={32} color={BrandTheme.colors.TEXT_SECONDARY} />
+          <Text style={styles.emptyStateText}>Your role cannot triage issues.</Text>
+        </View>
+      ) : loading ? (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color={BrandTheme.colors.YELLOW} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.content}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor={BrandTheme.colors.YELLOW}
+            />
+          }
+        >
+          {issues.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="checkmark-circle-outline" size={32} color={BrandTheme.colors.SUCCESS} />
+              <Text style={styles.emptyStateText}>No open issues</Text>
+            </View>
+          ) : (
+            issues.map(renderIssue)
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  headerSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: BrandTheme.spacing.LG,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: BrandTheme.spacing.XXL,
+    gap: BrandTheme.spacing.MD,
+  },
+  emptyStateText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 16,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    padding: BrandTheme.spacing.LG,
+    marginBottom: BrandTheme.spacing.MD,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.SM,
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  severityBadge: {
+    paddingHorizontal: BrandTheme.spacing.SM,
+    paddingVertical: 2,
+    borderRadius: BrandTheme.radius.XS,
+  },
+  severityText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 10,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.BLACK,
+  },
+  categoryText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+  },
+  cardTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  cardSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  description: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+    marginTop: BrandTheme.spacing.SM,
+  },
+  photoRow: {
+    marginTop: BrandTheme.spacing.SM,
+  },
+  photo: {
+    width: 64,
+    height: 64,
+    borderRadius: BrandTheme.radius.SM,
+    marginRight: BrandTheme.spacing.SM,
+  },
+  metaRow: {
+    marginTop: BrandTheme.spacing.SM,
+    gap: 2,
+  },
+  metaText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_MUTED,
+  },
+  triagedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.SM,
+    marginTop: BrandTheme.spacing.MD,
+  },
+  triagedText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.INFO,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: BrandTheme.spacing.SM,
+    marginTop: BrandTheme.spacing.MD,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: BrandTheme.spacing.SM,
+    borderRadius: BrandTheme.radius.SM,
+    alignItems: 'center',
+  },
+  dismissButton: {
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER,
+  },
+  dismissButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+  },
+  triageButton: {
+    backgroundColor: BrandTheme.colors.YELLOW,
+  },
+  triageButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    fontWeight: '600',
+    color: BrandTheme.colors.BLACK,
+  },
+});
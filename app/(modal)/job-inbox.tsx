@@ -0,0 +1,244 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { usePINAuth } from "@/contexts/PINAuthContext";
+import { jobThreadService } from '@/services/jobThreadService';
+import type { JobThread } from '@/types/jobThread';
+import { getUnreadCount, sortThreadsForInbox } from '@/utils/jobThread';
+import { BrandTheme } from '@/constants/BrandTheme';
+import { canAccessRoute } from '@/utils/permissions';
+
+const formatActivity = (date: Date): string => {
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { day: 'numeric', month: 'short' });
+};
+
+export default function JobInboxScreen() {
+  const { currentProfile } = usePINAuth();
+  const router = useRouter();
+  const [threads, setThreads] = useState<JobThread[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const hasAccess = canAccessRoute(currentProfile?.role, '/(modal)/job-inbox');
+
+  useEffect(() => {
+    if (!hasAccess) return;
+    return jobThreadService.subscribeToOpenThreads(next => {
+      setThreads(next);
+      setLoading(false);
+    });
+  }, [hasAccess]);
+
+  const viewerId = currentProfile?.id ?? '';
+  const sorted = sortThreadsForInbox(threads, viewerId);
+  const unreadThreads = threads.filter(thread => getUnreadCount(thread, viewerId) > 0).length;
+
+  const openThread = (thread: JobThread) => {
+    router.push({
+      pathname: '/(modal)/job-thread',
+      params: {
+        jobId: thread.jobId,
+        jobTitle: thread.jobTitle,
+        ...(thread.propertyName && { propertyName: thread.propertyName }),
+      },
+    });
+  };
+
+  const renderThread = (thread: JobThread) => {
+    const unread = getUnreadCount(thread, viewerId);
+
+    return (
+      <TouchableOpacity key={thread.jobId} style={styles.card} onPress={() => openThread(thread)}>
+        <View style={styles.cardHeader}>
+          <View style={styles.cardInfo}>
+            <Text style={[styles.cardTitle, unread > 0 && styles.cardTitleUnread]} numberOfLines={1}>
+              {thread.jobTitle}
+            </Text>
+            {thread.propertyName && <Text style={styles.cardSubtitle}>{thread.propertyName}</Text>}
+          </View>
+          <Text style={styles.timeText}>
+            {formatActivity(thread.lastMessage?.createdAt ?? thread.updatedAt)}
+          </Text>
+        </View>
+        <View style={styles.previewRow}>
+          <Text style={styles.previewText} numberOfLines={2}>
+            {thread.lastMessage
+              ? `${thread.lastMessage.senderName}: ${thread.lastMessage.text}`
+              : 'No messages yet'}
+          </Text>
+          {unread > 0 && (
+            <View style={styles.unreadBadge}>
+              <Text style={styles.unreadText}>{unread}</Text>
+            </View>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={BrandTheme.colors.TEXT_PRIMARY} />
+        </TouchableOpacity>
+        <View>
+          <Text style={styles.headerTitle}>Job Inbox</Text>
+          <Text style={styles.headerSubtitle}>
+            {threads.length} open {threads.length === 1 ? 'chat' : 'chats'} · {unreadThreads} unread
+          </Text>
+        </View>
+      </View>
+
+      {!hasAccess ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="lock-closed-outline" size={32} color={BrandTheme.colors.TEXT_SECONDARY} />
+          <Text style={styles.emptyStateText}>Only admins and dispatchers can view the job inbox.</Text>
+        </View>
+      ) : loading ? (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color={BrandTheme.colors.YELLOW} />
+        </View>
+      ) : (
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+          {sorted.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="chatbubbles-outline" size={32} color={BrandTheme.colors.TEXT_SECONDARY} />
+              <Text style={styles.emptyStateText}>No open job chats</Text>
+            </View>
+          ) : (
+            sorted.map(renderThread)
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  headerSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: BrandTheme.spacing.LG,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: BrandTheme.spacing.XXL,
+    gap: BrandTheme.spacing.MD,
+  },
+  emptyStateText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 16,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    padding: BrandTheme.spacing.LG,
+    marginBottom: BrandTheme.spacing.MD,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  cardTitleUnread: {
+    color: BrandTheme.colors.YELLOW,
+  },
+  cardSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  timeText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    marginTop: BrandTheme.spacing.SM,
+  },
+  previewText: {
+    flex: 1,
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+  },
+  unreadBadge: {
+    minWidth: 22,
+    height: 22,
+    paddingHorizontal: BrandTheme.spacing.XS,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.YELLOW,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  unreadText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.BLACK,
+  },
+});
@@ -0,0 +1,651 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  Image,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import {
+  RecordingPresets,
+  requestRecordingPermissionsAsync,
+  setAudioModeAsync,
+  useAudioPlayer,
+  useAudioPlayerStatus,
+  useAudioRecorder,
+  useAudioRecorderState,
+} from 'expo-audio';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { usePINAuth } from "@/contexts/PINAuthContext";
+import { jobThreadService } from '@/services/jobThreadService';
+import type {
+  JobThread,
+  JobThreadMessage,
+  PendingThreadAttachment,
+  ThreadParticipant,
+  ThreadParticipantRole,
+} from '@/types/jobThread';
+import {
+  MAX_ATTACHMENTS,
+  MAX_VOICE_NOTE_SECONDS,
+  formatDuration,
+  getReceiptLabel,
+  getThreadRole,
+  getTypingNames,
+  validateThreadMessage,
+} from '@/utils/jobThread';
+import { BrandTheme } from '@/constants/BrandTheme';
+
+const ROLE_LABELS: Record<ThreadParticipantRole, string> = {
+  staff: 'Staff',
+  dispatch: 'Dispatch',
+  admin: 'Admin',
+  foa: 'Assistant',
+};
+
+// Send a typing signal at most this often while the user keeps typing
+const TYPING_SIGNAL_INTERVAL_MS = 3000;
+
+function VoiceNote({ url, durationSeconds }: { url: string; durationSeconds?: number }) {
+  const player = useAudioPlayer(url);
+  const status = useAudioPlayerStatus(player);
+
+  const togglePlayback = () => {
+    if (status.playing) {
+      player.pause();
+      return;
+    }
+    if (status.didJustFinish || status.currentTime >= status.duration) {
+      player.seekTo(0);
+    }
+    player.play();
+  };
+
+  return (
+    <TouchableOpacity style={styles.voiceNote} onPress={togglePlayback}>
+      <Ionicons name={status.playing ? 'pause' : 'play'} size={18} color={BrandTheme.colors.TEXT_PRIMARY} />
+      <Text style={styles.voiceNoteText}>
+        {status.playing
+          ? formatDuration(status.currentTime)
+          : formatDuration(durationSeconds ?? status.duration)}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+export default function JobThreadScreen() {
+  const { currentProfile } = usePINAuth();
+  const router = useRouter();
+  const params = useLocalSearchParams<{
+    jobId: string;
+    jobTitle?: string;
+    propertyName?: string;
+    assignedStaffId?: string;
+    assignedStaffName?: string;
+    dispatcherId?: string;
+    dispatcherName?: string;
+  }>();
+
+  const [thread, setThread] = useState<JobThread | null>(null);
+  const [messages, setMessages] = useState<JobThreadMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [text, setText] = useState('');
+  const [pending, setPending] = useState<PendingThreadAttachment[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const [now, setNow] = useState(new Date());
+  const scrollRef = useRef<ScrollView>(null);
+  const lastTypingSignal = useRef(0);
+
+  const recorder = useAudioRecorder(RecordingPresets.HIGH_QUALITY);
+  const recorderState = useAudioRecorderState(recorder);
+
+  const me: ThreadParticipant | null = currentProfile
+    ? {
+        id: currentProfile.id,
+        name: currentProfile.name,
+        role: getThreadRole(currentProfile.role, currentProfile.id, thread?.dispatcherId ?? params.dispatcherId),
+      }
+    : null;
+  const canManage = me?.role === 'admin' || me?.role === 'dispatch';
+
+  useEffect(() => {
+    if (!params.jobId) return;
+
+    let stopThread: (() => void) | undefined;
+    let stopMessages: (() => void) | undefined;
+
+    jobThreadService.ensureThread({
+      jobId: params.jobId,
+      jobTitle: params.jobTitle || 'Job',
+      ...(params.propertyName && { propertyName: params.propertyName }),
+      ...(params.assignedStaffId && {
+        assignedStaff: { id: params.assignedStaffId, name: params.assignedStaffName || 'Assigned staff' },
+      }),
+      ...(params.dispatcherId && {
+        dispatcher: { id: params.dispatcherId, name: params.dispatcherName || 'Dispatch' },
+      }),
+    })
+      .then(initial => {
+        setThread(initial);
+        stopThread = jobThreadService.subscribeToThread(params.jobId, next => next && setThread(next));
+        stopMessages = jobThreadService.subscribeToMessages(params.jobId, setMessages);
+      })
+      .catch(error => {
+        console.error('❌ JobThread: Failed to open thread:', error);
+        Alert.alert('Error', 'Failed to open the job chat');
+      })
+      .finally(() => setLoading(false));
+
+    return () => {
+      stopThread?.();
+      stopMessages?.();
+    };
+  }, [
+    params.jobId,
+    params.jobTitle,
+    params.propertyName,
+    params.assignedStaffId,
+    params.assignedStaffName,
+    params.dispatcherId,
+    params.dispatcherName,
+  ]);
+
+  // Mark read whenever new messages arrive while the thread is open
+  useEffect(() => {
+    if (!params.jobId || !currentProfile || messages.length === 0) return;
+    jobThreadService.markRead(params.jobId, currentProfile.id)
+      .catch(error => console.warn('⚠️ JobThread: Failed to mark read:', error));
+    setTimeout(() => scrollRef.current?.scrollToEnd({ animated: true }), 100);
+  }, [messages.length, params.jobId, currentProfile]);
+
+  // Re-check typing indicators as they expire
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 2000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Clear our typing indicator when leaving the screen
+  useEffect(() => () => {
+    if (params.jobId && currentProfile) {
+      jobThreadService.setTyping(params.jobId, currentProfile.id, false).catch(() => undefined);
+    }
+  }, [params.jobId, currentProfile]);
+
+  const handleToggleRecording = useCallback(async () => {
+    try {
+      if (recorderState.isRecording) {
+        const durationSeconds = recorderState.durationMillis / 1000;
+        await recorder.stop();
+        await setAudioModeAsync({ allowsRecording: false });
+        if (recorder.uri) {
+          const uri = recorder.uri;
+          setPending(prev => [...prev, { type: 'voice', uri, durationSeconds }]);
+        }
+        return;
+      }
+
+      if (pending.length >= MAX_ATTACHMENTS) return;
+      const { granted } = await requestRecordingPermissionsAsync();
+      if (!granted) {
+        Alert.alert('Permission denied', 'Microphone permission is required to record voice notes');
+        return;
+      }
+      await setAudioModeAsync({ allowsRecording: true, playsInSilentMode: true });
+      await recorder.prepareToRecordAsync();
+      recorder.record();
+    } catch (error) {
+      console.error('Error recording voice note:', error);
+      Alert.alert('Error', 'Failed to record voice note');
+    }
+  }, [recorder, recorderState.isRecording, recorderState.durationMillis, pending.length]);
+
+  // Stop voice notes at the length limit
+  useEffect(() => {
+    if (recorderState.isRecording && recorderState.durationMillis >= MAX_VOICE_NOTE_SECONDS * 1000) {
+      handleToggleRecording();
+    }
+  }, [recorderState.isRecording, recorderState.durationMillis, handleToggleRecording]);
+
+  const handleChangeText = (value: string) => {
+    setText(value);
+    if (!params.jobId || !currentProfile || !value.trim()) return;
+    if (Date.now() - lastTypingSignal.current > TYPING_SIGNAL_INTERVAL_MS) {
+      lastTypingSignal.current = Date.now();
+      jobThreadService.setTyping(params.jobId, currentProfile.id, true).catch(() => undefined);
+    }
+  };
+
+  const handleAddPhoto = async () => {
+    if (pending.length >= MAX_ATTACHMENTS) return;
+    try {
+      const { status } = await ImagePicker.requestCameraPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission denied', 'Camera permission is required to take photos');
+        return;
+      }
+
+      const result = await ImagePicker.launchCameraAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        aspect: [4, 3],
+        quality: 0.8,
+      });
+      if (!result.canceled && result.assets[0]) {
+        setPending(prev => [...prev, { type: 'photo', uri: result.assets[0].uri }]);
+      }
+    } catch (error) {
+      console.error('Error taking chat photo:', error);
+      Alert.alert('Error', 'Failed to take photo');
+    }
+  };
+
+  const handleSend = async () => {
+    if (!thread || !me) return;
+
+    const errors = validateThreadMessage(text, pending);
+    if (errors.length > 0) {
+      Alert.alert('Check the message', errors.join('\n'));
+      return;
+    }
+
+    try {
+      setIsSending(true);
+      await jobThreadService.sendMessage(thread, me, text, pending);
+      setText('');
+      setPending([]);
+      lastTypingSignal.current = 0;
+    } catch (error) {
+      console.error('❌ JobThread: Failed to send message:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to send message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleToggleFOA = async () => {
+    if (!thread) return;
+    try {
+      await jobThreadService.setFOAEnabled(thread.jobId, !thread.foaEnabled);
+    } catch (error) {
+      console.error('❌ JobThread: Failed to update the assistant:', error);
+      Alert.alert('Error', 'Failed to update the assistant');
+    }
+  };
+
+  const handleCloseThread = () => {
+    if (!thread) return;
+    Alert.alert('Close chat', 'Remove this chat from the inbox? It reopens with the next message.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Close',
+        onPress: async () => {
+          try {
+            await jobThreadService.setStatus(thread.jobId, 'closed');
+            router.back();
+          } catch (error) {
+            console.error('❌ JobThread: Failed to close the chat:', error);
+            Alert.alert('Error', 'Failed to close the chat');
+          }
+        },
+      },
+    ]);
+  };
+
+  const typingNames = thread && currentProfile ? getTypingNames(thread, currentProfile.id, now) : [];
+  const lastOwnMessageId = [...messages].reverse().find(message => message.senderId === currentProfile?.id)?.id;
+
+  const renderMessage = (message: JobThreadMessage) => {
+    const isMine = message.senderId === currentProfile?.id;
+    const isFOA = message.senderRole === 'foa';
+
+    return (
+      <View key={message.id} style={[styles.messageRow, isMine && styles.messageRowMine]}>
+        <View style={[styles.bubble, isMine ? styles.bubbleMine : isFOA ? styles.bubbleFOA : styles.bubbleOther]}>
+          {!isMine && (
+            <Text style={styles.senderText}>
+              {message.senderName} · {ROLE_LABELS[message.senderRole]}
+            </Text>
+          )}
+          {message.attachments.map((attachment, index) =>
+            attachment.type === 'photo' ? (
+              <Image key={`${message.id}-${index}`} source={{ uri: attachment.url }} style={styles.messagePhoto} />
+            ) : (
+              <VoiceNote
+                key={`${message.id}-${index}`}
+                url={attachment.url}
+                durationSeconds={attachment.durationSeconds}
+              />
+            )
+          )}
+          {message.text ? (
+            <Text style={[styles.messageText, isMine && styles.messageTextMine]}>{message.text}</Text>
+          ) : null}
+          <Text style={[styles.timeText, isMine && styles.timeTextMine]}>
+            {message.createdAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </Text>
+        </View>
+        {isMine && message.id === lastOwnMessageId && thread && (
+          <Text style={styles.receiptText}>{getReceiptLabel(message, thread)}</Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={BrandTheme.colors.TEXT_PRIMARY} />
+        </TouchableOpacity>
+        <View style={styles.headerInfo}>
+          <Text style={styles.headerTitle} numberOfLines={1}>{thread?.jobTitle || params.jobTitle || 'Job Chat'}</Text>
+          <Text style={styles.headerSubtitle} numberOfLines={1}>
+            {typingNames.length > 0
+              ? `${typingNames.join(', ')} ${typingNames.length === 1 ? 'is' : 'are'} typing…`
+              : thread
+                ? [...thread.participants.map(participant => participant.name), ...(thread.foaEnabled ? ['FOA'] : [])].join(', ')
+                : params.propertyName || ''}
+          </Text>
+        </View>
+        {thread && (
+          <TouchableOpacity style={styles.backButton} onPress={handleToggleFOA}>
+            <Ionicons
+              name={thread.foaEnabled ? 'sparkles' : 'sparkles-outline'}
+              size={20}
+              color={thread.foaEnabled ? BrandTheme.colors.YELLOW : BrandTheme.colors.TEXT_SECONDARY}
+            />
+          </TouchableOpacity>
+        )}
+        {thread && canManage && (
+          <TouchableOpacity style={styles.backButton} onPress={handleCloseThread}>
+            <Ionicons name="checkmark-done" size={20} color={BrandTheme.colors.TEXT_PRIMARY} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {loading ? (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color={BrandTheme.colors.YELLOW} />
+        </View>
+      ) : (
+        <KeyboardAvoidingView style={styles.flex} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+          <ScrollView ref={scrollRef} style={styles.flex} contentContainerStyle={styles.content}>
+            {messages.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Ionicons name="chatbubbles-outline" size={32} color={BrandTheme.colors.TEXT_SECONDARY} />
+                <Text style={styles.emptyStateText}>
+                  Message the team about this job.{thread?.foaEnabled ? ' Mention @FOA to ask the assistant.' : ''}
+                </Text>
+              </View>
+            ) : (
+              messages.map(renderMessage)
+            )}
+          </ScrollView>
+
+          {pending.length > 0 && (
+            <View style={styles.pendingRow}>
+              {pending.map((attachment, index) => (
+                <TouchableOpacity
+                  key={`${attachment.uri}-${index}`}
+                  onLongPress={() => setPending(prev => prev.filter((_, i) => i !== index))}
+                >
+                  {attachment.type === 'photo' ? (
+                    <Image source={{ uri: attachment.uri }} style={styles.pendingPhoto} />
+                  ) : (
+                    <View style={styles.pendingVoice}>
+                      <Ionicons name="mic" size={16} color={BrandTheme.colors.TEXT_PRIMARY} />
+                      <Text style={styles.voiceNoteText}>{formatDuration(attachment.durationSeconds ?? 0)}</Text>
+                    </View>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <View style={styles.composer}>
+            <TouchableOpacity style={styles.composerButton} onPress={handleAddPhoto} disabled={recorderState.isRecording}>
+              <Ionicons name="camera-outline" size={22} color={BrandTheme.colors.TEXT_SECONDARY} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.composerButton} onPress={handleToggleRecording}>
+              <Ionicons
+                name={recorderState.isRecording ? 'stop-circle' : 'mic-outline'}
+                size={22}
+                color={recorderState.isRecording ? BrandTheme.colors.ERROR : BrandTheme.colors.TEXT_SECONDARY}
+              />
+            </TouchableOpacity>
+            {recorderState.isRecording ? (
+              <Text style={styles.recordingText}>
+                Recording {formatDuration(recorderState.durationMillis / 1000)} — tap stop to attach
+              </Text>
+            ) : (
+              <TextInput
+                value={text}
+                onChangeText={handleChangeText}
+                placeholder="Message"
+                placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+                style={styles.input}
+                multiline
+              />
+            )}
+            <TouchableOpacity
+              style={[styles.sendButton, (isSending || recorderState.isRecording) && styles.sendButtonDisabled]}
+              onPress={handleSend}
+              disabled={isSending || recorderState.isRecording}
+            >
+              {isSending ? (
+                <ActivityIndicator size="small" color={BrandTheme.colors.BLACK} />
+              ) : (
+                <Ionicons name="send" size={18} color={BrandTheme.colors.BLACK} />
+              )}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+  },
+  flex: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  headerSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 13,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  content: {
+    padding: BrandTheme.spacing.LG,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: BrandTheme.spacing.XXL,
+    gap: BrandTheme.spacing.MD,
+  },
+  emptyStateText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 16,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textAlign: 'center',
+  },
+  messageRow: {
+    alignItems: 'flex-start',
+    marginBottom: BrandTheme.spacing.MD,
+  },
+  messageRowMine: {
+    alignItems: 'flex-end',
+  },
+  bubble: {
+    maxWidth: '80%',
+    borderRadius: BrandTheme.radius.MD,
+    padding: BrandTheme.spacing.MD,
+    gap: BrandTheme.spacing.SM,
+  },
+  bubbleMine: {
+    backgroundColor: BrandTheme.colors.YELLOW,
+  },
+  bubbleOther: {
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  bubbleFOA: {
+    backgroundColor: BrandTheme.colors.SURFACE_2,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.YELLOW,
+  },
+  senderText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+  },
+  messageText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 15,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  messageTextMine: {
+    color: BrandTheme.colors.BLACK,
+  },
+  timeText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 10,
+    color: BrandTheme.colors.TEXT_MUTED,
+    alignSelf: 'flex-end',
+  },
+  timeTextMine: {
+    color: BrandTheme.colors.BLACK,
+  },
+  receiptText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 11,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  messagePhoto: {
+    width: 200,
+    height: 150,
+    borderRadius: BrandTheme.radius.SM,
+  },
+  voiceNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.SM,
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.SM,
+    borderRadius: BrandTheme.radius.PILL,
+    backgroundColor: BrandTheme.colors.SURFACE_2,
+  },
+  voiceNoteText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 13,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  pendingRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: BrandTheme.spacing.SM,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingTop: BrandTheme.spacing.SM,
+  },
+  pendingPhoto: {
+    width: 56,
+    height: 56,
+    borderRadius: BrandTheme.radius.SM,
+  },
+  pendingVoice: {
+    height: 56,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.XS,
+    paddingHorizontal: BrandTheme.spacing.MD,
+    borderRadius: BrandTheme.radius.SM,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: BrandTheme.spacing.SM,
+    padding: BrandTheme.spacing.MD,
+    borderTopWidth: 1,
+    borderTopColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  composerButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.SM,
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 15,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  recordingText: {
+    flex: 1,
+    alignSelf: 'center',
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.ERROR,
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.YELLOW,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.6,
+  },
+});
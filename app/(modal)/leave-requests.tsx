@@ -0,0 +1,421 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  StyleSheet,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { usePINAuth } from "@/contexts/PINAuthContext";
+import { availabilityService } from '@/services/availabilityService';
+import type { LeaveRequest, LeaveRequestStatus, LeaveType } from '@/types/availability';
+import { BrandTheme } from '@/constants/BrandTheme';
+import { LEAVE_TYPE_LABELS, describeLeaveDates, parseWorkingHours } from '@/utils/availability';
+import { toDateKey } from '@/utils/maintenanceRecurrence';
+
+const LEAVE_TYPES = Object.keys(LEAVE_TYPE_LABELS) as LeaveType[];
+
+const STATUS_COLORS: Record<LeaveRequestStatus, string> = {
+  pending: BrandTheme.colors.WARNING,
+  approved: BrandTheme.colors.SUCCESS,
+  rejected: BrandTheme.colors.ERROR,
+  cancelled: BrandTheme.colors.TEXT_MUTED,
+};
+
+const tomorrow = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  return toDateKey(date);
+};
+
+export default function LeaveRequestsScreen() {
+  const { currentProfile } = usePINAuth();
+  const router = useRouter();
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [type, setType] = useState<LeaveType>('annual');
+  const [startDate, setStartDate] = useState(tomorrow);
+  const [endDate, setEndDate] = useState(tomorrow);
+  const [partDay, setPartDay] = useState(false);
+  const [hoursText, setHoursText] = useState('09:00-12:00');
+  const [reason, setReason] = useState('');
+
+  const loadRequests = useCallback(async () => {
+    if (!currentProfile) return;
+    try {
+      setRequests(await availabilityService.getLeaveRequests({ staffId: currentProfile.id }));
+    } catch (error) {
+      console.error('❌ LeaveRequests: Failed to load leave requests:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentProfile]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadRequests();
+    setRefreshing(false);
+  }, [loadRequests]);
+
+  const handleSubmit = async () => {
+    if (!currentProfile) return;
+    const hours = partDay ? parseWorkingHours(hoursText) : [];
+    if (partDay && (!hours || hours.length !== 1)) {
+      Alert.alert('Leave Request', 'Enter the hours you need off as e.g. 09:00-12:00.');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await availabilityService.submitLeaveRequest(
+        { id: currentProfile.id, name: currentProfile.name },
+        {
+          type,
+          startDate: startDate.trim(),
+          endDate: partDay ? startDate.trim() : endDate.trim(),
+          ...(partDay && hours && { hours: hours[0] }),
+          reason,
+        }
+      );
+      setReason('');
+      Alert.alert('Leave Requested', 'Your request has been sent for approval.');
+      await loadRequests();
+    } catch (error) {
+      console.error('❌ LeaveRequests: Failed to submit leave request:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to submit leave request');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (request: LeaveRequest) => {
+    if (!currentProfile) return;
+    try {
+      await availabilityService.cancelLeaveRequest(currentProfile.id, request.id);
+      await loadRequests();
+    } catch (error) {
+      console.error('❌ LeaveRequests: Failed to cancel leave request:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to cancel leave request');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={BrandTheme.colors.TEXT_PRIMARY} />
+        </TouchableOpacity>
+        <View>
+          <Text style={styles.headerTitle}>Leave Requests</Text>
+          <Text style={styles.headerSubtitle}>Ask for time off and track approval</Text>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={BrandTheme.colors.YELLOW} />}
+      >
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>New Request</Text>
+          <View style={styles.chipRow}>
+            {LEAVE_TYPES.map(leaveType => (
+              <TouchableOpacity
+                key={leaveType}
+                style={[styles.chip, type === leaveType && styles.chipActive]}
+                onPress={() => setType(leaveType)}
+              >
+                <Text style={[styles.chipText, type === leaveType && styles.chipTextActive]}>
+                  {LEAVE_TYPE_LABELS[leaveType]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.switchRow}>
+            <Text style={styles.bodyText}>Part of a day</Text>
+            <Switch
+              value={partDay}
+              onValueChange={setPartDay}
+              trackColor={{ false: BrandTheme.colors.SURFACE_2, true: BrandTheme.colors.YELLOW }}
+            />
+          </View>
+
+          <Text style={styles.label}>{partDay ? 'Date' : 'From'}</Text>
+          <TextInput
+            style={styles.input}
+            value={startDate}
+            onChangeText={setStartDate}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+          />
+          {partDay ? (
+            <>
+              <Text style={styles.label}>Hours off</Text>
+              <TextInput
+                style={styles.input}
+                value={hoursText}
+                onChangeText={setHoursText}
+                placeholder="09:00-12:00"
+                placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+              />
+            </>
+          ) : (
+            <>
+              <Text style={styles.label}>Until (inclusive)</Text>
+              <TextInput
+                style={styles.input}
+                value={endDate}
+                onChangeText={setEndDate}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+              />
+            </>
+          )}
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            value={reason}
+            onChangeText={setReason}
+            placeholder="Reason (optional)"
+            placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+            multiline
+          />
+          <TouchableOpacity
+            style={[styles.submitButton, submitting && styles.disabledButton]}
+            onPress={handleSubmit}
+            disabled={submitting}
+          >
+            <Text style={styles.submitButtonText}>Request Leave</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.listTitle}>My Requests</Text>
+        {loading ? (
+          <ActivityIndicator size="large" color={BrandTheme.colors.YELLOW} />
+        ) : requests.length === 0 ? (
+          <Text style={styles.emptyStateText}>No leave requested yet.</Text>
+        ) : (
+          requests.map(request => (
+            <View key={request.id} style={styles.card}>
+              <View style={styles.cardInfo}>
+                <Text style={styles.cardTitle}>{LEAVE_TYPE_LABELS[request.type]}</Text>
+                <Text style={styles.cardSubtitle}>{describeLeaveDates(request)}</Text>
+                {request.reviewNote && <Text style={styles.mutedText}>{request.reviewNote}</Text>}
+              </View>
+              <View style={styles.cardActions}>
+                <Text style={[styles.statusText, { color: STATUS_COLORS[request.status] }]}>
+                  {request.status.toUpperCase()}
+                </Text>
+                {request.status === 'pending' && (
+                  <TouchableOpacity onPress={() => handleCancel(request)}>
+                    <Text style={styles.cancelText}>Cancel</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  headerSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: BrandTheme.spacing.LG,
+  },
+  section: {
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.MD,
+    padding: BrandTheme.spacing.MD,
+    marginBottom: BrandTheme.spacing.LG,
+  },
+  sectionTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: BrandTheme.spacing.XS,
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  chip: {
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.XS,
+    borderRadius: BrandTheme.radius.PILL,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  chipActive: {
+    backgroundColor: BrandTheme.colors.YELLOW,
+    borderColor: BrandTheme.colors.YELLOW,
+  },
+  chipText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  chipTextActive: {
+    color: BrandTheme.colors.BLACK,
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  label: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginBottom: BrandTheme.spacing.XS,
+  },
+  bodyText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  input: {
+    backgroundColor: BrandTheme.colors.SURFACE_2,
+    borderRadius: BrandTheme.radius.SM,
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.SM,
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  multilineInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  submitButton: {
+    backgroundColor: BrandTheme.colors.YELLOW,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderRadius: BrandTheme.radius.MD,
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    fontWeight: '600',
+    color: BrandTheme.colors.BLACK,
+  },
+  disabledButton: {
+    opacity: 0.4,
+  },
+  listTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  emptyStateText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    padding: BrandTheme.spacing.LG,
+    marginBottom: BrandTheme.spacing.MD,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  cardSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  mutedText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_MUTED,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  cardActions: {
+    alignItems: 'flex-end',
+    gap: BrandTheme.spacing.SM,
+  },
+  statusText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+  cancelText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    color: BrandTheme.colors.ERROR,
+  },
+});
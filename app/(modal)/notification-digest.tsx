@@ -0,0 +1,289 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { usePINAuth } from "@/contexts/PINAuthContext";
+import { notificationDigestService, NotificationDigest } from '@/services/notificationDigestService';
+import {
+  classifyDigestEvent,
+  filterDigestEvents,
+  DigestEvent,
+  DigestEventKind,
+  DIGEST_EVENT_KINDS,
+  DIGEST_KIND_LABELS,
+} from '@/utils/notificationDigest';
+import { BrandTheme } from '@/constants/BrandTheme';
+import { canAccessRoute } from '@/utils/permissions';
+
+const KIND_ICONS: Record<DigestEventKind, keyof typeof Ionicons.glyphMap> = {
+  completed: 'checkmark-circle-outline',
+  started: 'play-circle-outline',
+  started_late: 'time-outline',
+  accepted: 'thumbs-up-outline',
+  rejected: 'close-circle-outline',
+  cancelled: 'ban-outline',
+  assigned: 'briefcase-outline',
+  issue_reported: 'flag-outline',
+  other: 'ellipsis-horizontal-circle-outline',
+};
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export default function NotificationDigestScreen() {
+  const { digestId, kind } = useLocalSearchParams<{ digestId: string; kind?: DigestEventKind }>();
+  const { currentProfile } = usePINAuth();
+  const router = useRouter();
+  const [digest, setDigest] = useState<NotificationDigest | null>(null);
+  const [events, setEvents] = useState<DigestEvent[]>([]);
+  const [filter, setFilter] = useState<DigestEventKind | null>(kind || null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadDigest = useCallback(async () => {
+    if (!digestId) return;
+    try {
+      const [loadedDigest, loadedEvents] = await Promise.all([
+        notificationDigestService.getDigest(digestId),
+        notificationDigestService.getDigestEvents(digestId),
+      ]);
+      setDigest(loadedDigest);
+      setEvents(loadedEvents);
+    } catch (error) {
+      console.error('❌ NotificationDigest: Failed to load digest:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [digestId]);
+
+  useEffect(() => {
+    loadDigest();
+  }, [loadDigest]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadDigest();
+    setRefreshing(false);
+  }, [loadDigest]);
+
+  const isRecipient = !digest || digest.recipientId === currentProfile?.id;
+
+  const handleEventPress = (event: DigestEvent) => {
+    if (classifyDigestEvent(event) === 'issue_reported') {
+      if (canAccessRoute(currentProfile?.role, '/(modal)/issues')) {
+        router.push('/(modal)/issues');
+      }
+      return;
+    }
+    router.push(`/jobs/${event.entityId}`);
+  };
+
+  const visibleKinds = DIGEST_EVENT_KINDS.filter(eventKind => digest?.counts[eventKind]);
+  const visibleEvents = filterDigestEvents(events, filter);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={BrandTheme.colors.TEXT_PRIMARY} />
+        </TouchableOpacity>
+        <View style={styles.headerInfo}>
+          <Text style={styles.headerTitle}>Digest</Text>
+          <Text style={styles.headerSubtitle} numberOfLines={2}>
+            {digest ? `${formatTime(digest.windowStart)} – ${formatTime(digest.windowEnd)} · ${digest.body}` : ' '}
+          </Text>
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color={BrandTheme.colors.YELLOW} />
+        </View>
+      ) : !digest || !isRecipient ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="lock-closed-outline" size={32} color={BrandTheme.colors.TEXT_SECONDARY} />
+          <Text style={styles.emptyStateText}>This digest is not available.</Text>
+        </View>
+      ) : (
+        <>
+          <ScrollView horizontal style={styles.filterBar} contentContainerStyle={styles.filterContent} showsHorizontalScrollIndicator={false}>
+            <TouchableOpacity
+              style={[styles.filterChip, !filter && styles.filterChipActive]}
+              onPress={() => setFilter(null)}
+            >
+              <Text style={[styles.filterText, !filter && styles.filterTextActive]}>All {digest.eventCount}</Text>
+            </TouchableOpacity>
+            {visibleKinds.map(eventKind => (
+              <TouchableOpacity
+                key={eventKind}
+                style={[styles.filterChip, filter === eventKind && styles.filterChipActive]}
+                onPress={() => setFilter(eventKind)}
+              >
+                <Text style={[styles.filterText, filter === eventKind && styles.filterTextActive]}>
+                  {DIGEST_KIND_LABELS[eventKind]} {digest.counts[eventKind]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.content}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={onRefresh}
+                tintColor={BrandTheme.colors.YELLOW}
+              />
+            }
+          >
+            {visibleEvents.map(event => {
+              const eventKind = classifyDigestEvent(event);
+              return (
+                <TouchableOpacity key={event.id} style={styles.card} onPress={() => handleEventPress(event)}>
+                  <Ionicons name={KIND_ICONS[eventKind]} size={22} color={BrandTheme.colors.YELLOW} />
+                  <View style={styles.cardInfo}>
+                    <Text style={styles.cardTitle}>{event.title}</Text>
+                    <Text style={styles.cardSubtitle}>{event.body}</Text>
+                    <Text style={styles.metaText}>
+                      {formatTime(event.createdAt)}
+                      {eventKind === 'started_late' ? ` · ${event.lateMinutes} min late` : ''}
+                    </Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={18} color={BrandTheme.colors.TEXT_MUTED} />
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        </>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  headerSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  filterBar: {
+    flexGrow: 0,
+  },
+  filterContent: {
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingVertical: BrandTheme.spacing.MD,
+    gap: BrandTheme.spacing.SM,
+  },
+  filterChip: {
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.XS,
+    borderRadius: BrandTheme.radius.PILL,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  filterChipActive: {
+    borderColor: BrandTheme.colors.YELLOW,
+    backgroundColor: BrandTheme.colors.YELLOW,
+  },
+  filterText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_SECONDARY,
+  },
+  filterTextActive: {
+    color: BrandTheme.colors.BLACK,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: BrandTheme.spacing.LG,
+    paddingTop: 0,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: BrandTheme.spacing.XXL,
+    gap: BrandTheme.spacing.MD,
+  },
+  emptyStateText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 16,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textAlign: 'center',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    padding: BrandTheme.spacing.LG,
+    marginBottom: BrandTheme.spacing.MD,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  cardSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  metaText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_MUTED,
+    marginTop: BrandTheme.spacing.XS,
+  },
+});
@@ -0,0 +1,408 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Switch,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { usePINAuth } from "@/contexts/PINAuthContext";
+import { notificationPreferenceService } from '@/services/notificationPreferenceService';
+import {
+  parseTimeOfDay,
+  DIGEST_WINDOW_OPTIONS,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CHANNELS,
+  NotificationCategory,
+  DigestSettings,
+  NotificationChannel,
+  NotificationPreferences,
+  QuietHours,
+} from '@/utils/notificationPreferences';
+import { BrandTheme } from '@/constants/BrandTheme';
+
+const CATEGORY_LABELS: Record<NotificationCategory, { title: string; subtitle: string }> = {
+  'job.assigned': { title: 'New jobs', subtitle: 'A job is assigned or offered to you' },
+  'job.status_updated': { title: 'Job updates', subtitle: 'Status changes and rework requests' },
+  reminder: { title: 'Reminders', subtitle: 'Before an accepted job starts' },
+  escalation: { title: 'Escalations', subtitle: 'Jobs that need attention urgently' },
+  announcement: { title: 'Announcements', subtitle: 'Team news and notices from the office' },
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  push: 'Push',
+  in_app: 'In-app',
+  sms: 'SMS',
+};
+
+const QUIET_HOURS_STEP_MINUTES = 30;
+
+const shiftTime = (value: string, deltaMinutes: number): string => {
+  const minutes = (parseTimeOfDay(value) + deltaMinutes + 24 * 60) % (24 * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+const formatWindow = (minutes: number): string =>
+  minutes < 60 ? `${minutes} min` : `${minutes / 60} h`;
+
+const getDeviceTimezone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export default function NotificationPreferencesScreen() {
+  const { currentProfile } = usePINAuth();
+  const router = useRouter();
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!currentProfile?.id) return;
+    notificationPreferenceService.getPreferences(currentProfile.id).then(setPreferences);
+  }, [currentProfile?.id]);
+
+  const updateCategory = (category: NotificationCategory, changes: Partial<NotificationPreferences['categories'][NotificationCategory]>) => {
+    setPreferences(prev => prev && {
+      ...prev,
+      categories: { ...prev.categories, [category]: { ...prev.categories[category], ...changes } },
+    });
+  };
+
+  const updateQuietHours = (changes: Partial<QuietHours>) => {
+    setPreferences(prev => prev && { ...prev, quietHours: { ...prev.quietHours, ...changes } });
+  };
+
+  const updateDigest = (changes: Partial<DigestSettings>) => {
+    setPreferences(prev => prev && { ...prev, digest: { ...prev.digest, ...changes } });
+  };
+
+  const handleSave = async () => {
+    if (!currentProfile?.id || !preferences) return;
+    try {
+      setSaving(true);
+      await notificationPreferenceService.savePreferences(currentProfile.id, preferences);
+      router.back();
+    } catch (error) {
+      console.error('❌ NotificationPreferences: Failed to save:', error);
+      Alert.alert('Error', 'Failed to save notification preferences');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderTimeStepper = (label: string, field: 'start' | 'end') => (
+    <View style={styles.row}>
+      <Text style={styles.rowTitle}>{label}</Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          style={styles.stepperButton}
+          onPress={() => updateQuietHours({ [field]: shiftTime(preferences!.quietHours[field], -QUIET_HOURS_STEP_MINUTES) })}
+        >
+          <Ionicons name="remove" size={18} color={BrandTheme.colors.TEXT_PRIMARY} />
+        </TouchableOpacity>
+        <Text style={styles.stepperValue}>{preferences!.quietHours[field]}</Text>
+        <TouchableOpacity
+          style={styles.stepperButton}
+          onPress={() => updateQuietHours({ [field]: shiftTime(preferences!.quietHours[field], QUIET_HOURS_STEP_MINUTES) })}
+        >
+          <Ionicons name="add" size={18} color={BrandTheme.colors.TEXT_PRIMARY} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const deviceTimezone = getDeviceTimezone();
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={BrandTheme.colors.TEXT_PRIMARY} />
+        </TouchableOpacity>
+        <View>
+          <Text style={styles.headerTitle}>Notifications</Text>
+          <Text style={styles.headerSubtitle}>What reaches you, and when</Text>
+        </View>
+      </View>
+
+      {!preferences ? (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color={BrandTheme.colors.YELLOW} />
+        </View>
+      ) : (
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+          <Text style={styles.sectionTitle}>Notify me about</Text>
+          {NOTIFICATION_CATEGORIES.map(category => {
+            const preference = preferences.categories[category];
+            return (
+              <View key={category} style={styles.card}>
+                <View style={styles.row}>
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowTitle}>{CATEGORY_LABELS[category].title}</Text>
+                    <Text style={styles.rowSubtitle}>{CATEGORY_LABELS[category].subtitle}</Text>
+                  </View>
+                  <Switch
+                    value={preference.enabled}
+                    onValueChange={enabled => updateCategory(category, { enabled })}
+                    trackColor={{ false: BrandTheme.colors.SURFACE_2, true: BrandTheme.colors.YELLOW }}
+                  />
+                </View>
+                {preference.enabled && (
+                  <View style={styles.channels}>
+                    {NOTIFICATION_CHANNELS.map(channel => (
+                      <TouchableOpacity
+                        key={channel}
+                        style={[styles.channelChip, preference.channel === channel && styles.channelChipActive]}
+                        onPress={() => updateCategory(category, { channel })}
+                      >
+                        <Text style={[styles.channelText, preference.channel === channel && styles.channelTextActive]}>
+                          {CHANNEL_LABELS[channel]}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+              </View>
+            );
+          })}
+
+          <Text style={styles.sectionTitle}>Digest</Text>
+          <View style={styles.card}>
+            <View style={styles.row}>
+              <View style={styles.rowInfo}>
+                <Text style={styles.rowTitle}>Batch job updates</Text>
+                <Text style={styles.rowSubtitle}>One summary for low and normal priority updates; urgent ones still arrive at once</Text>
+              </View>
+              <Switch
+                value={preferences.digest.enabled}
+                onValueChange={enabled => updateDigest({ enabled })}
+                trackColor={{ false: BrandTheme.colors.SURFACE_2, true: BrandTheme.colors.YELLOW }}
+              />
+            </View>
+            {preferences.digest.enabled && (
+              <View style={styles.channels}>
+                {DIGEST_WINDOW_OPTIONS.map(windowMinutes => (
+                  <TouchableOpacity
+                    key={windowMinutes}
+                    style={[styles.channelChip, preferences.digest.windowMinutes === windowMinutes && styles.channelChipActive]}
+                    onPress={() => updateDigest({ windowMinutes })}
+                  >
+                    <Text style={[styles.channelText, preferences.digest.windowMinutes === windowMinutes && styles.channelTextActive]}>
+                      {formatWindow(windowMinutes)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>Quiet hours</Text>
+          <View style={styles.card}>
+            <View style={styles.row}>
+              <View style={styles.rowInfo}>
+                <Text style={styles.rowTitle}>Quiet hours</Text>
+                <Text style={styles.rowSubtitle}>Hold pushes and reminders while you sleep</Text>
+              </View>
+              <Switch
+                value={preferences.quietHours.enabled}
+                onValueChange={enabled => updateQuietHours({ enabled })}
+                trackColor={{ false: BrandTheme.colors.SURFACE_2, true: BrandTheme.colors.YELLOW }}
+              />
+            </View>
+            {preferences.quietHours.enabled && (
+              <>
+                {renderTimeStepper('From', 'start')}
+                {renderTimeStepper('Until', 'end')}
+                <View style={styles.row}>
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowTitle}>Timezone</Text>
+                    <Text style={styles.rowSubtitle}>{preferences.quietHours.timezone}</Text>
+                  </View>
+                  {preferences.quietHours.timezone !== deviceTimezone && (
+                    <TouchableOpacity onPress={() => updateQuietHours({ timezone: deviceTimezone })}>
+                      <Text style={styles.linkText}>Use {deviceTimezone}</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+                <View style={styles.row}>
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowTitle}>Let urgent through</Text>
+                    <Text style={styles.rowSubtitle}>Urgent jobs still notify during quiet hours</Text>
+                  </View>
+                  <Switch
+                    value={preferences.quietHours.allowUrgent}
+                    onValueChange={allowUrgent => updateQuietHours({ allowUrgent })}
+                    trackColor={{ false: BrandTheme.colors.SURFACE_2, true: BrandTheme.colors.YELLOW }}
+                  />
+                </View>
+              </>
+            )}
+          </View>
+
+          <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={saving}>
+            {saving ? (
+              <ActivityIndicator size="small" color={BrandTheme.colors.BLACK} />
+            ) : (
+              <Text style={styles.saveButtonText}>Save</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  headerSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: BrandTheme.spacing.LG,
+    paddingBottom: BrandTheme.spacing.XXL,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: BrandTheme.spacing.XXL,
+  },
+  sectionTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textTransform: 'uppercase',
+    marginBottom: BrandTheme.spacing.SM,
+    marginTop: BrandTheme.spacing.MD,
+  },
+  card: {
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    padding: BrandTheme.spacing.LG,
+    marginBottom: BrandTheme.spacing.MD,
+    gap: BrandTheme.spacing.MD,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: BrandTheme.spacing.MD,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  rowSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  channels: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: BrandTheme.spacing.SM,
+  },
+  channelChip: {
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.XS,
+    borderRadius: BrandTheme.radius.PILL,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  channelChipActive: {
+    borderColor: BrandTheme.colors.YELLOW,
+    backgroundColor: BrandTheme.colors.YELLOW,
+  },
+  channelText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_SECONDARY,
+  },
+  channelTextActive: {
+    color: BrandTheme.colors.BLACK,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.SM,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperValue: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+    minWidth: 52,
+    textAlign: 'center',
+  },
+  linkText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    fontWeight: '600',
+    color: BrandTheme.colors.YELLOW,
+  },
+  saveButton: {
+    backgroundColor: BrandTheme.colors.YELLOW,
+    borderRadius: BrandTheme.radius.PILL,
+    paddingVertical: BrandTheme.spacing.MD,
+    alignItems: 'center',
+    marginTop: BrandTheme.spacing.LG,
+  },
+  saveButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.BLACK,
+  },
+});
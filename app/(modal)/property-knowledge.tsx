@@ -0,0 +1,732 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  Image,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { useRouter } from 'expo-router';
+import { usePINAuth } from "@/contexts/PINAuthContext";
+import { cloudinaryService } from '@/services/cloudinaryService';
+import { knowledgeBaseService } from '@/services/knowledgeBaseService';
+import { propertyService } from '@/services/propertyService';
+import type { Property } from '@/services/propertyService';
+import type { ChatMessage } from '@/services/embeddedFOAChatService';
+import type { KnowledgeEntry, KnowledgeEntryInput, KnowledgeEntryKind } from '@/types/knowledgeBase';
+import { KNOWLEDGE_KIND_LABELS, parseTags, validateKnowledgeInput } from '@/utils/knowledgeBase';
+import { BrandTheme } from '@/constants/BrandTheme';
+import { canAccessRoute } from '@/utils/permissions';
+
+// Past fixes come from resolved issues, so they are listed but not offered here
+const EDITABLE_KINDS: KnowledgeEntryKind[] = ['note', 'manual', 'appliance', 'photo'];
+const KIND_ORDER: KnowledgeEntryKind[] = [...EDITABLE_KINDS, 'resolution'];
+// A promoted chat answer is text only
+const PROMOTE_KINDS: KnowledgeEntryKind[] = ['note', 'manual'];
+
+interface EntryForm {
+  entryId?: string;
+  promoting?: ChatMessage; // a helpful chat answer being added
+  kind: KnowledgeEntryKind;
+  title: string;
+  body: string;
+  location: string;
+  tags: string;
+  photoUrl?: string;
+  brand: string;
+  model: string;
+  serialNumber: string;
+}
+
+const EMPTY_FORM: EntryForm = {
+  kind: 'note',
+  title: '',
+  body: '',
+  location: '',
+  tags: '',
+  brand: '',
+  model: '',
+  serialNumber: '',
+};
+
+export default function PropertyKnowledgeScreen() {
+  const { currentProfile } = usePINAuth();
+  const router = useRouter();
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [propertyId, setPropertyId] = useState<string | null>(null);
+  const [entries, setEntries] = useState<KnowledgeEntry[]>([]);
+  const [helpfulAnswers, setHelpfulAnswers] = useState<ChatMessage[]>([]);
+  const [form, setForm] = useState<EntryForm | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const hasAccess = canAccessRoute(currentProfile?.role, '/(modal)/property-knowledge');
+
+  const loadProperties = useCallback(async () => {
+    const response = await propertyService.getAllProperties();
+    if (response.success && response.properties) {
+      setProperties(response.properties);
+      setPropertyId(current => current ?? response.properties?.[0]?.id ?? null);
+    } else {
+      console.error('❌ PropertyKnowledge: Failed to load properties:', response.error);
+    }
+    setLoading(false);
+  }, []);
+
+  const loadEntries = useCallback(async (id: string) => {
+    try {
+      const [nextEntries, answers] = await Promise.all([
+        knowledgeBaseService.getEntries(id, true),
+        knowledgeBaseService.getHelpfulAnswers(id),
+      ]);
+      setEntries(nextEntries);
+      setHelpfulAnswers(answers);
+    } catch (error) {
+      console.error('❌ PropertyKnowledge: Failed to load entries:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (hasAccess) {
+      loadProperties();
+    }
+  }, [hasAccess, loadProperties]);
+
+  useEffect(() => {
+    if (propertyId) {
+      setForm(null);
+      loadEntries(propertyId);
+    }
+  }, [propertyId, loadEntries]);
+
+  const updateForm = (changes: Partial<EntryForm>) => {
+    setForm(current => (current ? { ...current, ...changes } : current));
+  };
+
+  const editEntry = (entry: KnowledgeEntry) => {
+    setForm({
+      entryId: entry.id,
+      kind: entry.kind,
+      title: entry.title,
+      body: entry.body,
+      location: entry.location ?? '',
+      tags: entry.tags.join(', '),
+      photoUrl: entry.photoUrl,
+      brand: entry.appliance?.brand ?? '',
+      model: entry.appliance?.model ?? '',
+      serialNumber: entry.appliance?.serialNumber ?? '',
+    });
+  };
+
+  const promoteAnswer = (message: ChatMessage) => {
+    setForm({
+      ...EMPTY_FORM,
+      promoting: message,
+      title: message.metadata?.question ?? '',
+      body: message.message,
+    });
+  };
+
+  const handlePickPhoto = async () => {
+    try {
+      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission denied', 'Photo library permission is required to add photos');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        aspect: [4, 3],
+        quality: 0.8,
+      });
+      if (result.canceled || !result.assets[0]) return;
+
+      setIsUploading(true);
+      const upload = await cloudinaryService.uploadImage(result.assets[0].uri, {
+        folder: 'property_knowledge',
+        tags: ['property_knowledge', ...(propertyId ? [propertyId] : [])],
+      });
+      if (upload.success && upload.url) {
+        updateForm({ photoUrl: upload.url });
+      } else {
+        Alert.alert('Error', upload.error || 'Failed to upload photo');
+      }
+    } catch (error) {
+      console.error('Error adding knowledge photo:', error);
+      Alert.alert('Error', 'Failed to add photo');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!form || !propertyId || !currentProfile) return;
+
+    const input: KnowledgeEntryInput = {
+      propertyId,
+      kind: form.kind,
+      title: form.title,
+      body: form.body,
+      ...(form.location.trim() && { location: form.location }),
+      tags: parseTags(form.tags),
+      ...(form.photoUrl && { photoUrl: form.photoUrl }),
+      ...(form.kind === 'appliance' && {
+        appliance: {
+          ...(form.brand.trim() && { brand: form.brand.trim() }),
+          ...(form.model.trim() && { model: form.model.trim() }),
+          ...(form.serialNumber.trim() && { serialNumber: form.serialNumber.trim() }),
+        },
+      }),
+    };
+
+    const errors = validateKnowledgeInput(input);
+    if (errors.length > 0) {
+      Alert.alert('Check the entry', errors.join('\n'));
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      if (form.promoting) {
+        await knowledgeBaseService.promoteChatMessage(form.promoting, {
+          title: input.title,
+          kind: input.kind,
+          location: input.location,
+          tags: input.tags,
+        }, currentProfile.id);
+      } else {
+        await knowledgeBaseService.saveEntry(input, currentProfile.id, form.entryId);
+      }
+      setForm(null);
+      await loadEntries(propertyId);
+    } catch (error) {
+      console.error('❌ PropertyKnowledge: Failed to save entry:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save entry');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (entry: KnowledgeEntry) => {
+    Alert.alert('Delete entry', `Remove "${entry.title}" from the knowledge base?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await knowledgeBaseService.deleteEntry(entry);
+            if (propertyId) await loadEntries(propertyId);
+          } catch (error) {
+            Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete entry');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderForm = (current: EntryForm) => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>
+        {current.promoting ? 'Add Helpful Answer' : current.entryId ? 'Edit Entry' : 'New Entry'}
+      </Text>
+
+      <Text style={styles.label}>Type</Text>
+      <View style={styles.chipRow}>
+        {(current.promoting ? PROMOTE_KINDS : EDITABLE_KINDS).map(kind => (
+          <TouchableOpacity
+            key={kind}
+            style={[styles.chip, current.kind === kind && styles.chipSelected]}
+            onPress={() => updateForm({ kind })}
+          >
+            <Text style={[styles.chipText, current.kind === kind && styles.chipTextSelected]}>
+              {KNOWLEDGE_KIND_LABELS[kind]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>Title</Text>
+      <TextInput
+        value={current.title}
+        onChangeText={title => updateForm({ title })}
+        placeholder="Pool pump breaker, guest towels..."
+        placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+        style={styles.input}
+      />
+
+      <Text style={styles.label}>{current.kind === 'photo' ? 'Caption' : 'Details'}</Text>
+      {current.promoting ? (
+        <Text style={styles.answerText}>{current.body}</Text>
+      ) : (
+        <TextInput
+          value={current.body}
+          onChangeText={body => updateForm({ body })}
+          placeholder="What staff need to know"
+          placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+          style={[styles.input, styles.multilineInput]}
+          multiline
+        />
+      )}
+
+      <Text style={styles.label}>Where in the property (optional)</Text>
+      <TextInput
+        value={current.location}
+        onChangeText={location => updateForm({ location })}
+        placeholder="Utility room, pool deck..."
+        placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+        style={styles.input}
+      />
+
+      <Text style={styles.label}>Tags (comma separated)</Text>
+      <TextInput
+        value={current.tags}
+        onChangeText={tags => updateForm({ tags })}
+        placeholder="pool, electrical"
+        placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+        autoCapitalize="none"
+        style={styles.input}
+      />
+
+      {current.kind === 'appliance' && (
+        <>
+          <Text style={styles.label}>Brand, model and serial number</Text>
+          <View style={styles.applianceRow}>
+            <TextInput
+              value={current.brand}
+              onChangeText={brand => updateForm({ brand })}
+              placeholder="Brand"
+              placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+              style={[styles.input, styles.applianceInput]}
+            />
+            <TextInput
+              value={current.model}
+              onChangeText={model => updateForm({ model })}
+              placeholder="Model"
+              placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+              style={[styles.input, styles.applianceInput]}
+            />
+          </View>
+          <TextInput
+            value={current.serialNumber}
+            onChangeText={serialNumber => updateForm({ serialNumber })}
+            placeholder="Serial number"
+            placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+            style={[styles.input, styles.serialInput]}
+          />
+        </>
+      )}
+
+      {!current.promoting && (
+        <>
+          <Text style={styles.label}>Photo{current.kind === 'photo' ? '' : ' (optional)'}</Text>
+          <View style={styles.photoRow}>
+            {current.photoUrl && (
+              <TouchableOpacity onLongPress={() => updateForm({ photoUrl: undefined })}>
+                <Image source={{ uri: current.photoUrl }} style={styles.photo} />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.addPhoto} onPress={handlePickPhoto} disabled={isUploading}>
+              {isUploading ? (
+                <ActivityIndicator color={BrandTheme.colors.TEXT_SECONDARY} />
+              ) : (
+                <Ionicons name="image-outline" size={24} color={BrandTheme.colors.TEXT_SECONDARY} />
+              )}
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+
+      <View style={styles.formActions}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => setForm(null)}>
+          <Text style={styles.secondaryButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.submitButton, (isSaving || isUploading) && styles.submitButtonDisabled]}
+          onPress={handleSave}
+          disabled={isSaving || isUploading}
+        >
+          {isSaving ? (
+            <ActivityIndicator color={BrandTheme.colors.BLACK} />
+          ) : (
+            <Text style={styles.submitButtonText}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderEntry = (entry: KnowledgeEntry, index: number, sorted: KnowledgeEntry[]) => {
+    const showKind = index === 0 || sorted[index - 1].kind !== entry.kind;
+    const editable = entry.source !== 'issue';
+
+    return (
+      <View key={entry.id}>
+        {showKind && <Text style={styles.categoryTitle}>{KNOWLEDGE_KIND_LABELS[entry.kind]}</Text>}
+        <TouchableOpacity
+          style={styles.card}
+          onPress={() => editable && editEntry(entry)}
+          disabled={!editable}
+        >
+          <View style={styles.cardHeader}>
+            {entry.photoUrl && <Image source={{ uri: entry.photoUrl }} style={styles.thumbnail} />}
+            <View style={styles.cardInfo}>
+              <Text style={styles.cardTitle}>{entry.title}</Text>
+              {entry.location && <Text style={styles.cardSubtitle}>{entry.location}</Text>}
+            </View>
+            {editable && (
+              <TouchableOpacity onPress={() => handleDelete(entry)}>
+                <Ionicons name="trash-outline" size={18} color={BrandTheme.colors.TEXT_SECONDARY} />
+              </TouchableOpacity>
+            )}
+          </View>
+          <Text style={styles.bodyText} numberOfLines={3}>{entry.body}</Text>
+          {entry.tags.length > 0 && <Text style={styles.tagsText}>{entry.tags.join(' · ')}</Text>}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const sortedEntries = [...entries].sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind));
+  const selectedProperty = properties.find(property => property.id === propertyId);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={BrandTheme.colors.TEXT_PRIMARY} />
+        </TouchableOpacity>
+        <View style={styles.headerInfo}>
+          <Text style={styles.headerTitle}>Property Knowledge</Text>
+          <Text style={styles.headerSubtitle}>
+            {selectedProperty ? `${selectedProperty.name} · ${entries.length} entries` : 'Notes the job assistant can cite'}
+          </Text>
+        </View>
+        {hasAccess && propertyId && !form && (
+          <TouchableOpacity style={styles.backButton} onPress={() => setForm({ ...EMPTY_FORM })}>
+            <Ionicons name="add" size={22} color={BrandTheme.colors.TEXT_PRIMARY} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {!hasAccess ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="lock-closed-outline" size={32} color={BrandTheme.colors.TEXT_SECONDARY} />
+          <Text style={styles.emptyStateText}>Only admins and managers can edit property knowledge.</Text>
+        </View>
+      ) : loading ? (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color={BrandTheme.colors.YELLOW} />
+        </View>
+      ) : (
+        <KeyboardAvoidingView style={styles.flex} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+          <ScrollView style={styles.flex} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+              {properties.map(property => (
+                <TouchableOpacity
+                  key={property.id}
+                  style={[styles.chip, propertyId === property.id && styles.chipSelected]}
+                  onPress={() => setPropertyId(property.id)}
+                >
+                  <Text style={[styles.chipText, propertyId === property.id && styles.chipTextSelected]}>
+                    {property.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+
+            {form && renderForm(form)}
+
+            {helpfulAnswers.length > 0 && (
+              <>
+                <Text style={styles.categoryTitle}>Helpful Answers</Text>
+                {helpfulAnswers.map(answer => (
+                  <View key={answer.id} style={styles.card}>
+                    {answer.metadata?.question && (
+                      <Text style={styles.cardTitle}>{answer.metadata.question}</Text>
+                    )}
+                    <Text style={styles.bodyText} numberOfLines={4}>{answer.message}</Text>
+                    <TouchableOpacity style={styles.linkButton} onPress={() => promoteAnswer(answer)}>
+                      <Ionicons name="add-circle-outline" size={16} color={BrandTheme.colors.YELLOW} />
+                      <Text style={styles.linkButtonText}>Add to knowledge base</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </>
+            )}
+
+            {sortedEntries.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Ionicons name="book-outline" size={32} color={BrandTheme.colors.TEXT_SECONDARY} />
+                <Text style={styles.emptyStateText}>
+                  No entries yet. Add house rules, appliance details and where things are kept.
+                </Text>
+              </View>
+            ) : (
+              sortedEntries.map(renderEntry)
+            )}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+  },
+  flex: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  headerSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  content: {
+    padding: BrandTheme.spacing.LG,
+    paddingBottom: BrandTheme.spacing.XXL,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: BrandTheme.spacing.XXL,
+    gap: BrandTheme.spacing.MD,
+  },
+  emptyStateText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 16,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textAlign: 'center',
+  },
+  categoryTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: BrandTheme.spacing.SM,
+    marginTop: BrandTheme.spacing.LG,
+  },
+  card: {
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    padding: BrandTheme.spacing.LG,
+    marginTop: BrandTheme.spacing.MD,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  cardSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  bodyText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+    marginTop: BrandTheme.spacing.SM,
+  },
+  answerText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+  },
+  tagsText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_MUTED,
+    marginTop: BrandTheme.spacing.SM,
+  },
+  thumbnail: {
+    width: 48,
+    height: 48,
+    borderRadius: BrandTheme.radius.SM,
+  },
+  label: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: BrandTheme.spacing.LG,
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: BrandTheme.spacing.SM,
+  },
+  chip: {
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.SM,
+    borderRadius: BrandTheme.radius.PILL,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+  },
+  chipSelected: {
+    borderColor: BrandTheme.colors.YELLOW,
+    backgroundColor: BrandTheme.colors.YELLOW,
+  },
+  chipText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  chipTextSelected: {
+    color: BrandTheme.colors.BLACK,
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.MD,
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 16,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  multilineInput: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  applianceRow: {
+    flexDirection: 'row',
+    gap: BrandTheme.spacing.SM,
+  },
+  applianceInput: {
+    flex: 1,
+  },
+  serialInput: {
+    marginTop: BrandTheme.spacing.SM,
+  },
+  photoRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: BrandTheme.spacing.SM,
+  },
+  photo: {
+    width: 72,
+    height: 72,
+    borderRadius: BrandTheme.radius.SM,
+  },
+  addPhoto: {
+    width: 72,
+    height: 72,
+    borderRadius: BrandTheme.radius.SM,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: BrandTheme.colors.BORDER,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: BrandTheme.spacing.MD,
+    marginTop: BrandTheme.spacing.XL,
+  },
+  secondaryButton: {
+    flex: 1,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER,
+    paddingVertical: BrandTheme.spacing.LG,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  submitButton: {
+    flex: 1,
+    backgroundColor: BrandTheme.colors.YELLOW,
+    borderRadius: BrandTheme.radius.MD,
+    paddingVertical: BrandTheme.spacing.LG,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.BLACK,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.XS,
+    marginTop: BrandTheme.spacing.MD,
+  },
+  linkButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    color: BrandTheme.colors.YELLOW,
+  },
+});
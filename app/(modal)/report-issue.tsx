@@ -0,0 +1,374 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  Image,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { usePINAuth } from "@/contexts/PINAuthContext";
+import { issueService } from '@/services/issueService';
+import type { IssueCategory, IssueSeverity } from '@/types/issue';
+import { ISSUE_CATEGORY_LABELS, validateIssueInput } from '@/utils/issueTriage';
+import { BrandTheme } from '@/constants/BrandTheme';
+
+const SEVERITIES: { value: IssueSeverity; label: string; color: string }[] = [
+  { value: 'low', label: 'Low', color: BrandTheme.colors.TEXT_SECONDARY },
+  { value: 'medium', label: 'Medium', color: BrandTheme.colors.WARNING },
+  { value: 'high', label: 'High', color: BrandTheme.colors.ERROR },
+  { value: 'critical', label: 'Critical', color: BrandTheme.colors.ERROR },
+];
+
+const MAX_PHOTOS = 4;
+
+export default function ReportIssueScreen() {
+  const { currentProfile } = usePINAuth();
+  const router = useRouter();
+  const params = useLocalSearchParams<{
+    jobId: string;
+    propertyId: string;
+    propertyName?: string;
+    bookingRef?: string;
+    guestName?: string;
+  }>();
+
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [location, setLocation] = useState('');
+  const [costEstimate, setCostEstimate] = useState('');
+  const [category, setCategory] = useState<IssueCategory>('other');
+  const [severity, setSeverity] = useState<IssueSeverity>('medium');
+  const [photoUris, setPhotoUris] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleAddPhoto = async () => {
+    try {
+      const { status } = await ImagePicker.requestCameraPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission denied', 'Camera permission is required to take photos');
+        return;
+      }
+
+      const result = await ImagePicker.launchCameraAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        aspect: [4, 3],
+        quality: 0.8,
+      });
+
+      if (!result.canceled && result.assets[0]) {
+        setPhotoUris(prev => [...prev, result.assets[0].uri]);
+      }
+    } catch (error) {
+      console.error('Error taking issue photo:', error);
+      Alert.alert('Error', 'Failed to take photo');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!currentProfile) return;
+
+    const input = {
+      propertyId: params.propertyId,
+      ...(params.propertyName && { propertyName: params.propertyName }),
+      jobId: params.jobId,
+      reportedBy: currentProfile.id,
+      reportedByName: currentProfile.name,
+      title,
+      description,
+      severity,
+      category,
+      location,
+      ...(costEstimate.trim() && { costEstimate: Number(costEstimate) }),
+      ...(params.bookingRef && { bookingRef: params.bookingRef }),
+      ...(params.guestName && { guestName: params.guestName }),
+    };
+
+    const errors = validateIssueInput(input);
+    if (errors.length > 0) {
+      Alert.alert('Check the report', errors.join('\n'));
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await issueService.reportIssue(input, photoUris);
+      Alert.alert('Issue Reported', 'Thanks - the office has been notified.', [
+        { text: 'OK', onPress: () => router.back() },
+      ]);
+    } catch (error) {
+      console.error('❌ ReportIssue: Failed to report issue:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to report issue');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="close" size={22} color={BrandTheme.colors.TEXT_PRIMARY} />
+        </TouchableOpacity>
+        <View style={styles.headerInfo}>
+          <Text style={styles.headerTitle}>Report Issue</Text>
+          {params.propertyName && <Text style={styles.headerSubtitle}>{params.propertyName}</Text>}
+        </View>
+      </View>
+
+      <KeyboardAvoidingView style={styles.flex} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <ScrollView style={styles.flex} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.label}>Category</Text>
+          <View style={styles.chipRow}>
+            {(Object.keys(ISSUE_CATEGORY_LABELS) as IssueCategory[]).map(value => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.chip, category === value && styles.chipSelected]}
+                onPress={() => setCategory(value)}
+              >
+                <Text style={[styles.chipText, category === value && styles.chipTextSelected]}>
+                  {ISSUE_CATEGORY_LABELS[value]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {category === 'guest_damage' && !params.bookingRef && (
+            <Text style={styles.warningText}>This job has no booking - guest damage can&apos;t be claimed.</Text>
+          )}
+
+          <Text style={styles.label}>Severity</Text>
+          <View style={styles.chipRow}>
+            {SEVERITIES.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, severity === option.value && { borderColor: option.color, backgroundColor: option.color }]}
+                onPress={() => setSeverity(option.value)}
+              >
+                <Text style={[styles.chipText, severity === option.value && styles.chipTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Title</Text>
+          <TextInput
+            value={title}
+            onChangeText={setTitle}
+            placeholder="Leaking tap, broken lamp..."
+            placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+            style={styles.input}
+          />
+
+          <Text style={styles.label}>Where in the property</Text>
+          <TextInput
+            value={location}
+            onChangeText={setLocation}
+            placeholder="Master bathroom, pool deck..."
+            placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+            style={styles.input}
+          />
+
+          <Text style={styles.label}>Details</Text>
+          <TextInput
+            value={description}
+            onChangeText={setDescription}
+            placeholder="What happened and what you saw"
+            placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+            style={[styles.input, styles.multilineInput]}
+            multiline
+          />
+
+          <Text style={styles.label}>Estimated cost (optional)</Text>
+          <TextInput
+            value={costEstimate}
+            onChangeText={setCostEstimate}
+            placeholder="0"
+            placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+            keyboardType="decimal-pad"
+            style={styles.input}
+          />
+
+          <Text style={styles.label}>Photos</Text>
+          <View style={styles.photoRow}>
+            {photoUris.map(uri => (
+              <TouchableOpacity
+                key={uri}
+                onLongPress={() => setPhotoUris(prev => prev.filter(p => p !== uri))}
+              >
+                <Image source={{ uri }} style={styles.photo} />
+              </TouchableOpacity>
+            ))}
+            {photoUris.length < MAX_PHOTOS && (
+              <TouchableOpacity style={styles.addPhoto} onPress={handleAddPhoto}>
+                <Ionicons name="camera-outline" size={24} color={BrandTheme.colors.TEXT_SECONDARY} />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator color={BrandTheme.colors.BLACK} />
+            ) : (
+              <Text style={styles.submitButtonText}>Submit Report</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+  },
+  flex: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  headerSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  content: {
+    padding: BrandTheme.spacing.LG,
+    paddingBottom: BrandTheme.spacing.XXL,
+  },
+  label: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: BrandTheme.spacing.LG,
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: BrandTheme.spacing.SM,
+  },
+  chip: {
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.SM,
+    borderRadius: BrandTheme.radius.PILL,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+  },
+  chipSelected: {
+    borderColor: BrandTheme.colors.YELLOW,
+    backgroundColor: BrandTheme.colors.YELLOW,
+  },
+  chipText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  chipTextSelected: {
+    color: BrandTheme.colors.BLACK,
+    fontWeight: '600',
+  },
+  warningText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.WARNING,
+    marginTop: BrandTheme.spacing.SM,
+  },
+  input: {
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.MD,
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 16,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  multilineInput: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+  },
+  photoRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: BrandTheme.spacing.SM,
+  },
+  photo: {
+    width: 72,
+    height: 72,
+    borderRadius: BrandTheme.radius.SM,
+  },
+  addPhoto: {
+    width: 72,
+    height: 72,
+    borderRadius: BrandTheme.radius.SM,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: BrandTheme.colors.BORDER,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  submitButton: {
+    marginTop: BrandTheme.spacing.XL,
+    backgroundColor: BrandTheme.colors.YELLOW,
+    borderRadius: BrandTheme.radius.MD,
+    paddingVertical: BrandTheme.spacing.LG,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.BLACK,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+});
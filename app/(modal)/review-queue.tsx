@@ -0,0 +1,568 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  StyleSheet,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+  Image,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { usePINAuth } from "@/contexts/PINAuthContext";
+import { jobReviewService, JobReviewDetail, ReviewQueueItem, Reviewer } from '@/services/jobReviewService';
+import type { ReworkItem } from '@/types/job';
+import { BrandTheme } from '@/constants/BrandTheme';
+import { canAccessRoute } from '@/utils/permissions';
+
+const formatCompletedAt = (date?: Date) =>
+  date ? date.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' }) : 'Unknown';
+
+export default function ReviewQueueScreen() {
+  const { currentProfile } = usePINAuth();
+  const router = useRouter();
+  const [queue, setQueue] = useState<ReviewQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [detail, setDetail] = useState<JobReviewDetail | null>(null);
+  const [loadingDetail, setLoadingDetail] = useState(false);
+  const [failedItems, setFailedItems] = useState<Record<string, ReworkItem>>({});
+  const [extraItem, setExtraItem] = useState('');
+  const [reviewNotes, setReviewNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const hasAccess = canAccessRoute(currentProfile?.role, '/(modal)/review-queue');
+  const reviewer: Reviewer | null = useMemo(
+    () => currentProfile && {
+      id: currentProfile.id,
+      name: currentProfile.name,
+      role: currentProfile.role,
+      teamId: currentProfile.teamId,
+    },
+    [currentProfile]
+  );
+
+  const loadQueue = useCallback(async () => {
+    if (!reviewer) return;
+    try {
+      setQueue(await jobReviewService.getReviewQueue(reviewer));
+    } catch (error) {
+      console.error('❌ ReviewQueue: Failed to load review queue:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [reviewer]);
+
+  useEffect(() => {
+    if (hasAccess) {
+      loadQueue();
+    }
+  }, [hasAccess, loadQueue]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadQueue();
+    setRefreshing(false);
+  }, [loadQueue]);
+
+  const openJob = async (jobId: string) => {
+    try {
+      setLoadingDetail(true);
+      setFailedItems({});
+      setExtraItem('');
+      setReviewNotes('');
+      const reviewDetail = await jobReviewService.getReviewDetail(jobId);
+      if (!reviewDetail) {
+        Alert.alert('Not Found', 'This job is no longer waiting for review.');
+        await loadQueue();
+        return;
+      }
+      setDetail(reviewDetail);
+    } catch (error) {
+      console.error('❌ ReviewQueue: Failed to load job:', error);
+      Alert.alert('Error', 'Failed to load job');
+    } finally {
+      setLoadingDetail(false);
+    }
+  };
+
+  const closeJob = () => {
+    setDetail(null);
+    loadQueue();
+  };
+
+  const toggleFailed = (item: ReworkItem) => {
+    setFailedItems(prev => {
+      const next = { ...prev };
+      if (next[item.id]) {
+        delete next[item.id];
+      } else {
+        next[item.id] = item;
+      }
+      return next;
+    });
+  };
+
+  const getFailedItems = (): ReworkItem[] => [
+    ...Object.values(failedItems),
+    ...(extraItem.trim() ? [{ id: `note_${Date.now()}`, description: extraItem.trim(), source: 'note' as const }] : []),
+  ];
+
+  const handleVerify = async () => {
+    if (!detail || !reviewer) return;
+    try {
+      setSubmitting(true);
+      await jobReviewService.verifyJob(detail.job.id, reviewer, reviewNotes.trim());
+      closeJob();
+    } catch (error) {
+      console.error('❌ ReviewQueue: Failed to verify job:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to verify job');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRework = async () => {
+    if (!detail || !reviewer) return;
+    const items = getFailedItems();
+    try {
+      setSubmitting(true);
+      await jobReviewService.sendBackForRework(
+        detail.job.id,
+        reviewer,
+        items,
+        reviewNotes.trim()
+      );
+      Alert.alert('Sent Back', `${items.length} item${items.length === 1 ? '' : 's'} sent back for rework.`);
+      closeJob();
+    } catch (error) {
+      console.error('❌ ReviewQueue: Failed to send job back:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to send job back');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderFailToggle = (item: ReworkItem, passed: boolean) => {
+    const isFailed = !!failedItems[item.id];
+    return (
+      <TouchableOpacity key={item.id} style={styles.reviewRow} onPress={() => toggleFailed(item)}>
+        <Ionicons
+          name={isFailed ? 'close-circle' : passed ? 'checkmark-circle' : 'ellipse-outline'}
+          size={20}
+          color={isFailed ? BrandTheme.colors.ERROR : passed ? BrandTheme.colors.SUCCESS : BrandTheme.colors.TEXT_MUTED}
+        />
+        <Text style={[styles.reviewRowText, isFailed && styles.reviewRowTextFailed]}>{item.description}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderDetail = (reviewDetail: JobReviewDetail) => {
+    const { job, checklist, photoGroups, history } = reviewDetail;
+    const reworkCount = job.reworkCount || 0;
+    const failedCount = getFailedItems().length;
+
+    return (
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        <Text style={styles.jobTitle}>{job.title}</Text>
+        <Text style={styles.jobSubtitle}>
+          {job.propertyName || job.propertyRef?.name || 'Property'}
+          {reworkCount > 0 ? ` · Rework round ${reworkCount}` : ''}
+        </Text>
+
+        {checklist && checklist.items.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Checklist</Text>
+            {checklist.items.map(item => renderFailToggle(
+              { id: `checklist_${item.id}`, description: item.label, source: 'checklist', sourceId: item.id },
+              item.completed
+            ))}
+          </View>
+        )}
+
+        {(job.requirements || []).length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Requirements</Text>
+            {job.requirements.map((req: any) => renderFailToggle(
+              { id: `requirement_${req.id}`, description: req.description, source: 'requirement', sourceId: req.id },
+              req.isCompleted
+            ))}
+          </View>
+        )}
+
+        {photoGroups.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Photos</Text>
+            {photoGroups.map(group => (
+              <View key={group.requirementId || 'other'} style={styles.photoGroup}>
+                {group.requirementId
+                  ? renderFailToggle(
+                      { id: `photo_${group.requirementId}`, description: group.title, source: 'photo', sourceId: group.requirementId },
+                      group.isCompleted && group.photoUrls.length > 0
+                    )
+                  : <Text style={styles.photoGroupTitle}>{group.title}</Text>}
+                {group.photoUrls.length > 0 ? (
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    {group.photoUrls.map(url => (
+                      <Image key={url} source={{ uri: url }} style={styles.photo} />
+                    ))}
+                  </ScrollView>
+                ) : (
+                  <Text style={styles.mutedText}>No photos taken</Text>
+                )}
+              </View>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Time on Site</Text>
+          <TouchableOpacity
+            style={styles.reviewRow}
+            onPress={() => router.push({ pathname: '/(modal)/site-timeline', params: { jobId: job.id } })}
+          >
+            <Ionicons name="navigate-circle-outline" size={20} color={BrandTheme.colors.INFO} />
+            <Text style={styles.reviewRowText}>View geofence timeline</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Completion Notes</Text>
+          <Text style={styles.bodyText}>{job.completionNotes || 'No notes'}</Text>
+        </View>
+
+        {history.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Previous Reviews</Text>
+            {history.map(review => (
+              <Text key={review.id} style={styles.mutedText}>
+                {review.outcome === 'rework' ? 'Sent back' : 'Verified'} by {review.reviewerName || review.reviewerId}
+                {review.failedItems.length > 0 ? `: ${review.failedItems.map(item => item.description).join(', ')}` : ''}
+              </Text>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Review</Text>
+          <TextInput
+            value={extraItem}
+            onChangeText={setExtraItem}
+            placeholder="Anything else that needs redoing"
+            placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+            style={styles.input}
+          />
+          <TextInput
+            value={reviewNotes}
+            onChangeText={setReviewNotes}
+            placeholder="Notes for the staff member"
+            placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+            style={[styles.input, styles.multilineInput]}
+            multiline
+          />
+        </View>
+
+        <View style={styles.actionRow}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.reworkButton, (failedCount === 0 || submitting) && styles.disabledButton]}
+            onPress={handleRework}
+            disabled={failedCount === 0 || submitting}
+          >
+            <Text style={styles.reworkButtonText}>Send Back ({failedCount})</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.verifyButton, (failedCount > 0 || submitting) && styles.disabledButton]}
+            onPress={handleVerify}
+            disabled={failedCount > 0 || submitting}
+          >
+            {submitting ? (
+              <ActivityIndicator size="small" color={BrandTheme.colors.BLACK} />
+            ) : (
+              <Text style={styles.verifyButtonText}>Verify</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    );
+  };
+
+  const renderQueue = () => (
+    <ScrollView
+      style={styles.scrollView}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={onRefresh}
+          tintColor={BrandTheme.colors.YELLOW}
+        />
+      }
+    >
+      {queue.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="checkmark-done-outline" size={32} color={BrandTheme.colors.SUCCESS} />
+          <Text style={styles.emptyStateText}>No completed jobs waiting for review</Text>
+        </View>
+      ) : (
+        queue.map(item => (
+          <TouchableOpacity key={item.id} style={styles.card} onPress={() => openJob(item.id)}>
+            <View style={styles.cardInfo}>
+              <Text style={styles.cardTitle}>{item.title}</Text>
+              <Text style={styles.cardSubtitle}>
+                {item.propertyName || 'Property'} · {item.staffName || item.staffId}
+              </Text>
+              <Text style={styles.mutedText}>Completed {formatCompletedAt(item.completedAt)}</Text>
+            </View>
+            {item.reworkCount > 0 && (
+              <View style={styles.reworkBadge}>
+                <Text style={styles.reworkBadgeText}>Rework {item.reworkCount}</Text>
+              </View>
+            )}
+            <Ionicons name="chevron-forward" size={18} color={BrandTheme.colors.TEXT_SECONDARY} />
+          </TouchableOpacity>
+        ))
+      )}
+    </ScrollView>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => (detail ? closeJob() : router.back())}>
+          <Ionicons name="arrow-back" size={22} color={BrandTheme.colors.TEXT_PRIMARY} />
+        </TouchableOpacity>
+        <View>
+          <Text style={styles.headerTitle}>Review Queue</Text>
+          <Text style={styles.headerSubtitle}>{queue.length} awaiting verification</Text>
+        </View>
+      </View>
+
+      {!hasAccess ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="lock-closed-outline" size={32} color={BrandTheme.colors.TEXT_SECONDARY} />
+          <Text style={styles.emptyStateText}>Your role cannot review jobs.</Text>
+        </View>
+      ) : loading || loadingDetail ? (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color={BrandTheme.colors.YELLOW} />
+        </View>
+      ) : detail ? (
+        renderDetail(detail)
+      ) : (
+        renderQueue()
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  headerSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: BrandTheme.spacing.LG,
+    paddingBottom: BrandTheme.spacing.XXL,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: BrandTheme.spacing.XXL,
+    gap: BrandTheme.spacing.MD,
+  },
+  emptyStateText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 16,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textAlign: 'center',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    padding: BrandTheme.spacing.LG,
+    marginBottom: BrandTheme.spacing.MD,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  cardSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  reworkBadge: {
+    paddingHorizontal: BrandTheme.spacing.SM,
+    paddingVertical: 2,
+    borderRadius: BrandTheme.radius.PILL,
+    backgroundColor: BrandTheme.colors.WARNING,
+  },
+  reworkBadgeText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 10,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.BLACK,
+  },
+  jobTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  jobSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  section: {
+    marginTop: BrandTheme.spacing.LG,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.MD,
+    padding: BrandTheme.spacing.MD,
+  },
+  sectionTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  reviewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.SM,
+    paddingVertical: BrandTheme.spacing.SM,
+  },
+  reviewRowText: {
+    flex: 1,
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  reviewRowTextFailed: {
+    color: BrandTheme.colors.ERROR,
+  },
+  photoGroup: {
+    marginBottom: BrandTheme.spacing.MD,
+  },
+  photoGroupTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+    paddingVertical: BrandTheme.spacing.SM,
+  },
+  photo: {
+    width: 88,
+    height: 88,
+    borderRadius: BrandTheme.radius.SM,
+    marginRight: BrandTheme.spacing.SM,
+  },
+  bodyText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  mutedText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_MUTED,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  input: {
+    backgroundColor: BrandTheme.colors.SURFACE_2,
+    borderRadius: BrandTheme.radius.SM,
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.SM,
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  multilineInput: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: BrandTheme.spacing.SM,
+    marginTop: BrandTheme.spacing.LG,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderRadius: BrandTheme.radius.MD,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.4,
+  },
+  reworkButton: {
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.ERROR,
+  },
+  reworkButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    fontWeight: '600',
+    color: BrandTheme.colors.ERROR,
+  },
+  verifyButton: {
+    backgroundColor: BrandTheme.colors.SUCCESS,
+  },
+  verifyButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    fontWeight: '600',
+    color: BrandTheme.colors.BLACK,
+  },
+});
@@ -0,0 +1,665 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  StyleSheet,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { usePINAuth } from "@/contexts/PINAuthContext";
+import { availabilityService, RosterStaff } from '@/services/availabilityService';
+import type {
+  AvailabilityExceptionKind,
+  DayAvailability,
+  DayAvailabilityKind,
+  LeaveRequest,
+  StaffSchedule,
+  Weekday
+} from '@/types/availability';
+import { BrandTheme } from '@/constants/BrandTheme';
+import {
+  LEAVE_TYPE_LABELS,
+  WEEKDAYS,
+  describeLeaveDates,
+  formatWindows,
+  formatWorkingHours,
+  parseWorkingHours
+} from '@/utils/availability';
+import { parseDateKey, toDateKey } from '@/utils/maintenanceRecurrence';
+import { canAccessRoute } from '@/utils/permissions';
+
+interface RosterRow {
+  staff: RosterStaff;
+  schedule: StaffSchedule;
+  days: DayAvailability[];
+}
+
+const KIND_COLORS: Record<DayAvailabilityKind, string> = {
+  hours: BrandTheme.colors.SURFACE_2,
+  shift: BrandTheme.colors.SUCCESS,
+  partial: BrandTheme.colors.WARNING,
+  off: BrandTheme.colors.SURFACE_1,
+  leave: BrandTheme.colors.INFO,
+  sick: BrandTheme.colors.ERROR,
+};
+
+const EXCEPTION_ACTIONS: { kind: AvailabilityExceptionKind; label: string; needsHours: boolean }[] = [
+  { kind: 'extra', label: 'Extra Hours', needsHours: true },
+  { kind: 'partial', label: 'Reduced Hours', needsHours: true },
+  { kind: 'sick', label: 'Off Sick', needsHours: false },
+  { kind: 'day_off', label: 'Day Off', needsHours: false },
+];
+
+const getWeekStart = (date: Date) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+const formatDay = (date: string) =>
+  parseDateKey(date).toLocaleDateString([], { weekday: 'short', day: 'numeric' });
+
+const describeCell = (day: DayAvailability): string => {
+  if (day.kind === 'leave') return 'Leave';
+  if (day.kind === 'sick') return 'Sick';
+  if (day.windows.length === 0) return 'Off';
+  if (day.windows.length === 1 && day.windows[0].start === 0 && day.windows[0].end === 24 * 60) return 'All day';
+  return formatWindows(day.windows).replace(/, /g, '\n');
+};
+
+export default function RosterScreen() {
+  const { currentProfile } = usePINAuth();
+  const router = useRouter();
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [rows, setRows] = useState<RosterRow[]>([]);
+  const [pendingLeave, setPendingLeave] = useState<LeaveRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [selectedCell, setSelectedCell] = useState<{ staffId: string; date: string } | null>(null);
+  const [hoursText, setHoursText] = useState('09:00-17:00');
+  const [editingHoursFor, setEditingHoursFor] = useState<string | null>(null);
+  const [weeklyHoursText, setWeeklyHoursText] = useState<Partial<Record<Weekday, string>>>({});
+
+  const hasAccess = canAccessRoute(currentProfile?.role, '/(modal)/roster');
+  const dates = useMemo(
+    () => Array.from({ length: 7 }, (_, index) =>
+      toDateKey(new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + index))
+    ),
+    [weekStart]
+  );
+
+  const loadRoster = useCallback(async () => {
+    try {
+      const [roster, leave] = await Promise.all([
+        availabilityService.getRoster(dates),
+        availabilityService.getLeaveRequests({ status: 'pending' }),
+      ]);
+      setRows(roster);
+      setPendingLeave(leave);
+    } catch (error) {
+      console.error('❌ Roster: Failed to load roster:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [dates]);
+
+  useEffect(() => {
+    if (hasAccess) {
+      setLoading(true);
+      loadRoster();
+    }
+  }, [hasAccess, loadRoster]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadRoster();
+    setRefreshing(false);
+  }, [loadRoster]);
+
+  const changeWeek = (weeks: number) => {
+    setSelectedCell(null);
+    setWeekStart(new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + weeks * 7));
+  };
+
+  const runAction = async (action: () => Promise<unknown>, failure: string): Promise<boolean> => {
+    try {
+      setSubmitting(true);
+      await action();
+      await loadRoster();
+      return true;
+    } catch (error) {
+      console.error(`❌ Roster: ${failure}:`, error);
+      Alert.alert('Error', error instanceof Error ? error.message : failure);
+      return false;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const readHours = () => {
+    const hours = parseWorkingHours(hoursText);
+    if (!hours || hours.length === 0) {
+      Alert.alert('Hours', 'Enter hours as e.g. 09:00-17:00, separated by commas.');
+      return null;
+    }
+    return hours;
+  };
+
+  const handleAddShift = () => {
+    if (!selectedCell || !currentProfile) return;
+    const hours = readHours();
+    if (!hours) return;
+    runAction(
+      () => Promise.all(hours.map(window => availabilityService.saveShift({
+        staffId: selectedCell.staffId,
+        date: selectedCell.date,
+        start: window.start,
+        end: window.end,
+        createdBy: currentProfile.id,
+      }))),
+      'Failed to save shift'
+    );
+  };
+
+  const handleException = (kind: AvailabilityExceptionKind, needsHours: boolean) => {
+    if (!selectedCell || !currentProfile) return;
+    const hours = needsHours ? readHours() : undefined;
+    if (needsHours && !hours) return;
+    runAction(
+      () => availabilityService.addException({
+        staffId: selectedCell.staffId,
+        date: selectedCell.date,
+        kind,
+        ...(hours && { hours }),
+        createdBy: currentProfile.id,
+      }),
+      'Failed to save exception'
+    );
+  };
+
+  const handleReviewLeave = (request: LeaveRequest, approve: boolean) => {
+    if (!currentProfile) return;
+    runAction(
+      () => availabilityService.reviewLeaveRequest(currentProfile.id, request.id, approve),
+      approve ? 'Failed to approve leave' : 'Failed to reject leave'
+    );
+  };
+
+  const openHoursEditor = (row: RosterRow) => {
+    setSelectedCell(null);
+    setEditingHoursFor(row.staff.id);
+    setWeeklyHoursText(Object.fromEntries(WEEKDAYS.map(day => [
+      day,
+      row.schedule.weeklyHours
+        ? formatWorkingHours(row.schedule.weeklyHours[day])
+        : row.staff.availability?.[day] === false ? '' : '09:00-17:00',
+    ])));
+  };
+
+  const handleSaveWeeklyHours = () => {
+    if (!editingHoursFor || !currentProfile) return;
+    const parsed = WEEKDAYS.map(day => [day, parseWorkingHours(weeklyHoursText[day] || '')] as const);
+    const invalid = parsed.find(([, hours]) => hours === null);
+    if (invalid) {
+      Alert.alert('Working Hours', `Could not read the hours for ${invalid[0]}.`);
+      return;
+    }
+    runAction(
+      () => availabilityService.setWeeklyHours(editingHoursFor, Object.fromEntries(parsed), currentProfile.id),
+      'Failed to save working hours'
+    ).then(saved => saved && setEditingHoursFor(null));
+  };
+
+  const renderCellEditor = () => {
+    if (!selectedCell) return null;
+    const row = rows.find(item => item.staff.id === selectedCell.staffId);
+    const day = row?.days.find(item => item.date === selectedCell.date);
+    if (!row || !day) return null;
+
+    const shifts = row.schedule.shifts.filter(shift => shift.date === day.date);
+    const exceptions = row.schedule.exceptions.filter(exception => exception.date === day.date);
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{row.staff.name} · {formatDay(day.date)}</Text>
+        <Text style={styles.bodyText}>{day.reason}{day.windows.length > 0 ? ` · ${formatWindows(day.windows)}` : ''}</Text>
+
+        {shifts.map(shift => (
+          <View key={shift.id} style={styles.itemRow}>
+            <Text style={styles.itemText}>Shift {shift.start}–{shift.end}</Text>
+            <TouchableOpacity onPress={() => runAction(() => availabilityService.deleteShift(shift.id), 'Failed to remove shift')}>
+              <Ionicons name="trash-outline" size={18} color={BrandTheme.colors.ERROR} />
+            </TouchableOpacity>
+          </View>
+        ))}
+        {exceptions.map(exception => (
+          <View key={exception.id} style={styles.itemRow}>
+            <Text style={styles.itemText}>
+              {EXCEPTION_ACTIONS.find(action => action.kind === exception.kind)?.label}
+              {exception.hours ? ` ${formatWorkingHours(exception.hours)}` : ''}
+            </Text>
+            <TouchableOpacity onPress={() => runAction(() => availabilityService.removeException(exception.id), 'Failed to remove exception')}>
+              <Ionicons name="trash-outline" size={18} color={BrandTheme.colors.ERROR} />
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        <TextInput
+          style={styles.input}
+          value={hoursText}
+          onChangeText={setHoursText}
+          placeholder="09:00-17:00"
+          placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+        />
+        <View style={styles.buttonWrap}>
+          <TouchableOpacity
+            style={[styles.smallButton, styles.primaryButton, submitting && styles.disabledButton]}
+            onPress={handleAddShift}
+            disabled={submitting}
+          >
+            <Text style={styles.primaryButtonText}>Add Shift</Text>
+          </TouchableOpacity>
+          {EXCEPTION_ACTIONS.map(action => (
+            <TouchableOpacity
+              key={action.kind}
+              style={[styles.smallButton, submitting && styles.disabledButton]}
+              onPress={() => handleException(action.kind, action.needsHours)}
+              disabled={submitting}
+            >
+              <Text style={styles.smallButtonText}>{action.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const renderHoursEditor = () => {
+    const row = rows.find(item => item.staff.id === editingHoursFor);
+    if (!row) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{row.staff.name} · Working Hours</Text>
+        {WEEKDAYS.map(day => (
+          <View key={day} style={styles.hoursRow}>
+            <Text style={styles.hoursDay}>{day.slice(0, 3)}</Text>
+            <TextInput
+              style={[styles.input, styles.hoursInput]}
+              value={weeklyHoursText[day] || ''}
+              onChangeText={text => setWeeklyHoursText(prev => ({ ...prev, [day]: text }))}
+              placeholder="Off"
+              placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+            />
+          </View>
+        ))}
+        <View style={styles.buttonWrap}>
+          <TouchableOpacity style={styles.smallButton} onPress={() => setEditingHoursFor(null)}>
+            <Text style={styles.smallButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.smallButton, styles.primaryButton, submitting && styles.disabledButton]}
+            onPress={handleSaveWeeklyHours}
+            disabled={submitting}
+          >
+            <Text style={styles.primaryButtonText}>Save Hours</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color={BrandTheme.colors.YELLOW} />
+        </View>
+      );
+    }
+
+    return (
+      <>
+        {pendingLeave.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Leave Awaiting Approval</Text>
+            {pendingLeave.map(request => (
+              <View key={request.id} style={styles.leaveRow}>
+                <View style={styles.leaveInfo}>
+                  <Text style={styles.itemText}>{request.staffName || request.staffId} · {LEAVE_TYPE_LABELS[request.type]}</Text>
+                  <Text style={styles.mutedText}>
+                    {describeLeaveDates(request)}{request.reason ? ` · ${request.reason}` : ''}
+                  </Text>
+                </View>
+                <TouchableOpacity disabled={submitting} onPress={() => handleReviewLeave(request, false)}>
+                  <Ionicons name="close-circle-outline" size={26} color={BrandTheme.colors.ERROR} />
+                </TouchableOpacity>
+                <TouchableOpacity disabled={submitting} onPress={() => handleReviewLeave(request, true)}>
+                  <Ionicons name="checkmark-circle-outline" size={26} color={BrandTheme.colors.SUCCESS} />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View>
+            <View style={styles.gridRow}>
+              <View style={styles.nameCell} />
+              {dates.map(date => (
+                <View key={date} style={styles.headerCell}>
+                  <Text style={styles.headerCellText}>{formatDay(date)}</Text>
+                </View>
+              ))}
+            </View>
+            {rows.map(row => (
+              <View key={row.staff.id} style={styles.gridRow}>
+                <TouchableOpacity style={styles.nameCell} onPress={() => openHoursEditor(row)}>
+                  <Text style={styles.nameText} numberOfLines={2}>{row.staff.name}</Text>
+                  <Text style={styles.mutedText}>{row.schedule.weeklyHours ? 'Set hours' : 'Days only'}</Text>
+                </TouchableOpacity>
+                {row.days.map(day => {
+                  const selected = selectedCell?.staffId === row.staff.id && selectedCell.date === day.date;
+                  return (
+                    <TouchableOpacity
+                      key={day.date}
+                      style={[styles.cell, { backgroundColor: KIND_COLORS[day.kind] }, selected && styles.cellSelected]}
+                      onPress={() => {
+                        setEditingHoursFor(null);
+                        setSelectedCell({ staffId: row.staff.id, date: day.date });
+                      }}
+                    >
+                      <Text style={[styles.cellText, day.kind !== 'hours' && day.kind !== 'off' && styles.cellTextDark]}>
+                        {describeCell(day)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+
+        {renderCellEditor()}
+        {renderHoursEditor()}
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={BrandTheme.colors.TEXT_PRIMARY} />
+        </TouchableOpacity>
+        <View>
+          <Text style={styles.headerTitle}>Roster</Text>
+          <Text style={styles.headerSubtitle}>Shifts, leave and working hours</Text>
+        </View>
+      </View>
+
+      {!hasAccess ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="lock-closed-outline" size={32} color={BrandTheme.colors.TEXT_SECONDARY} />
+          <Text style={styles.emptyStateText}>Your role cannot plan the roster.</Text>
+        </View>
+      ) : (
+        <>
+          <View style={styles.weekBar}>
+            <TouchableOpacity style={styles.weekButton} onPress={() => changeWeek(-1)}>
+              <Ionicons name="chevron-back" size={20} color={BrandTheme.colors.TEXT_PRIMARY} />
+            </TouchableOpacity>
+            <Text style={styles.weekLabel}>Week of {formatDay(dates[0])}</Text>
+            <TouchableOpacity style={styles.weekButton} onPress={() => changeWeek(1)}>
+              <Ionicons name="chevron-forward" size={20} color={BrandTheme.colors.TEXT_PRIMARY} />
+            </TouchableOpacity>
+          </View>
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.content}
+            refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={BrandTheme.colors.YELLOW} />}
+          >
+            {renderContent()}
+          </ScrollView>
+        </>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  headerSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  weekBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingTop: BrandTheme.spacing.MD,
+  },
+  weekButton: {
+    width: 36,
+    height: 36,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  weekLabel: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: BrandTheme.spacing.LG,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: BrandTheme.spacing.XXL,
+    gap: BrandTheme.spacing.MD,
+  },
+  emptyStateText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 16,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textAlign: 'center',
+  },
+  section: {
+    marginBottom: BrandTheme.spacing.LG,
+    marginTop: BrandTheme.spacing.MD,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.MD,
+    padding: BrandTheme.spacing.MD,
+  },
+  sectionTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  bodyText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  mutedText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 11,
+    color: BrandTheme.colors.TEXT_MUTED,
+    marginTop: 2,
+  },
+  leaveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.SM,
+    paddingVertical: BrandTheme.spacing.SM,
+  },
+  leaveInfo: {
+    flex: 1,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: BrandTheme.spacing.XS,
+  },
+  itemText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  gridRow: {
+    flexDirection: 'row',
+    marginBottom: BrandTheme.spacing.XS,
+  },
+  nameCell: {
+    width: 96,
+    justifyContent: 'center',
+    paddingRight: BrandTheme.spacing.SM,
+  },
+  nameText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 13,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  headerCell: {
+    width: 84,
+    alignItems: 'center',
+    paddingVertical: BrandTheme.spacing.XS,
+  },
+  headerCellText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+  },
+  cell: {
+    width: 80,
+    minHeight: 48,
+    marginHorizontal: 2,
+    borderRadius: BrandTheme.radius.SM,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: BrandTheme.spacing.XS,
+  },
+  cellSelected: {
+    borderColor: BrandTheme.colors.YELLOW,
+    borderWidth: 2,
+  },
+  cellText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 11,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+    textAlign: 'center',
+  },
+  cellTextDark: {
+    color: BrandTheme.colors.BLACK,
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: BrandTheme.colors.SURFACE_2,
+    borderRadius: BrandTheme.radius.SM,
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.SM,
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+    marginVertical: BrandTheme.spacing.SM,
+  },
+  hoursRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.SM,
+  },
+  hoursDay: {
+    width: 40,
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 13,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textTransform: 'capitalize',
+  },
+  hoursInput: {
+    flex: 1,
+    marginVertical: BrandTheme.spacing.XS,
+  },
+  buttonWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: BrandTheme.spacing.SM,
+    marginTop: BrandTheme.spacing.SM,
+  },
+  smallButton: {
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.SM,
+    borderRadius: BrandTheme.radius.PILL,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  smallButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  primaryButton: {
+    backgroundColor: BrandTheme.colors.YELLOW,
+    borderColor: BrandTheme.colors.YELLOW,
+  },
+  primaryButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    fontWeight: '600',
+    color: BrandTheme.colors.BLACK,
+  },
+  disabledButton: {
+    opacity: 0.4,
+  },
+});
@@ -0,0 +1,278 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { usePINAuth } from "@/contexts/PINAuthContext";
+import { inventoryService } from '@/services/inventoryService';
+import type { InventoryCategory, ShoppingListLine } from '@/types/inventory';
+import { BrandTheme } from '@/constants/BrandTheme';
+import { canAccessRoute } from '@/utils/permissions';
+
+const CATEGORY_LABELS: Record<InventoryCategory, string> = {
+  linen: 'Linen',
+  toiletries: 'Toiletries',
+  cleaning: 'Cleaning Supplies',
+  kitchen: 'Kitchen',
+  pool: 'Pool',
+  maintenance: 'Maintenance',
+  other: 'Other',
+};
+
+export default function ShoppingListScreen() {
+  const { currentProfile } = usePINAuth();
+  const router = useRouter();
+  const [lines, setLines] = useState<ShoppingListLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [expandedItemId, setExpandedItemId] = useState<string | null>(null);
+
+  const hasAccess = canAccessRoute(currentProfile?.role, '/(modal)/shopping-list');
+
+  const loadShoppingList = useCallback(async () => {
+    try {
+      setLines(await inventoryService.getShoppingList());
+    } catch (error) {
+      console.error('❌ ShoppingList: Failed to load shopping list:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (hasAccess) {
+      loadShoppingList();
+    }
+  }, [hasAccess, loadShoppingList]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadShoppingList();
+    setRefreshing(false);
+  }, [loadShoppingList]);
+
+  const propertyCount = new Set(lines.flatMap(line => line.properties.map(p => p.propertyId))).size;
+
+  const renderLine = (line: ShoppingListLine, index: number) => {
+    const isExpanded = expandedItemId === line.itemId;
+    const showCategory = index === 0 || lines[index - 1].category !== line.category;
+
+    return (
+      <View key={line.itemId}>
+        {showCategory && (
+          <Text style={styles.categoryTitle}>{CATEGORY_LABELS[line.category] || line.category}</Text>
+        )}
+        <TouchableOpacity
+          style={styles.card}
+          onPress={() => setExpandedItemId(isExpanded ? null : line.itemId)}
+        >
+          <View style={styles.cardHeader}>
+            <View style={styles.cardInfo}>
+              <Text style={styles.cardTitle}>{line.itemName}</Text>
+              <Text style={styles.cardSubtitle}>
+                {line.properties.length} {line.properties.length === 1 ? 'property' : 'properties'} below par
+              </Text>
+            </View>
+            <Text style={styles.quantityText}>{line.totalQuantity} {line.unit}</Text>
+            <Ionicons
+              name={isExpanded ? 'chevron-up' : 'chevron-down'}
+              size={18}
+              color={BrandTheme.colors.TEXT_SECONDARY}
+            />
+          </View>
+
+          {isExpanded && line.properties.map(property => (
+            <View key={property.propertyId} style={styles.propertyRow}>
+              <Text style={styles.propertyName}>{property.propertyName || property.propertyId}</Text>
+              <Text style={[styles.propertyStock, property.onHand === 0 && styles.outOfStock]}>
+                {property.onHand}/{property.parLevel} on hand
+              </Text>
+              <Text style={styles.propertyQuantity}>+{property.quantity}</Text>
+            </View>
+          ))}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={BrandTheme.colors.TEXT_PRIMARY} />
+        </TouchableOpacity>
+        <View>
+          <Text style={styles.headerTitle}>Shopping List</Text>
+          <Text style={styles.headerSubtitle}>
+            {lines.length} items for {propertyCount} {propertyCount === 1 ? 'property' : 'properties'}
+          </Text>
+        </View>
+      </View>
+
+      {!hasAccess ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="lock-closed-outline" size={32} color={BrandTheme.colors.TEXT_SECONDARY} />
+          <Text style={styles.emptyStateText}>Only admins and managers can view the shopping list.</Text>
+        </View>
+      ) : loading ? (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color={BrandTheme.colors.YELLOW} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.content}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor={BrandTheme.colors.YELLOW}
+            />
+          }
+        >
+          {lines.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="checkmark-circle-outline" size={32} color={BrandTheme.colors.SUCCESS} />
+              <Text style={styles.emptyStateText}>Every store room is at or above par</Text>
+            </View>
+          ) : (
+            lines.map(renderLine)
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  headerSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: BrandTheme.spacing.LG,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: BrandTheme.spacing.XXL,
+    gap: BrandTheme.spacing.MD,
+  },
+  emptyStateText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 16,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textAlign: 'center',
+  },
+  categoryTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: BrandTheme.spacing.SM,
+    marginTop: BrandTheme.spacing.SM,
+  },
+  card: {
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    padding: BrandTheme.spacing.LG,
+    marginBottom: BrandTheme.spacing.MD,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  cardSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  quantityText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.YELLOW,
+  },
+  propertyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: BrandTheme.spacing.SM,
+    marginTop: BrandTheme.spacing.SM,
+    borderTopWidth: 1,
+    borderTopColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  propertyName: {
+    flex: 1,
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  propertyStock: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginRight: BrandTheme.spacing.MD,
+  },
+  outOfStock: {
+    color: BrandTheme.colors.ERROR,
+  },
+  propertyQuantity: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+});
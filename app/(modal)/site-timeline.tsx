@@ -0,0 +1,314 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { usePINAuth } from "@/contexts/PINAuthContext";
+import { geofenceService } from '@/services/geofenceService';
+import type { SiteTimeFlagKind, SiteTimeReport } from '@/types/geofence';
+import { BrandTheme } from '@/constants/BrandTheme';
+import { canAccessRoute } from '@/utils/permissions';
+
+interface TimelineEntry {
+  key: string;
+  at: Date;
+  icon: keyof typeof Ionicons.glyphMap;
+  color: string;
+  title: string;
+  detail?: string;
+}
+
+const FLAG_ICONS: Record<SiteTimeFlagKind, keyof typeof Ionicons.glyphMap> = {
+  low_accuracy_check_in: 'locate-outline',
+  left_site_mid_job: 'exit-outline',
+  completed_off_site: 'flag-outline',
+  short_time_on_site: 'hourglass-outline',
+};
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const buildTimeline = (report: SiteTimeReport): TimelineEntry[] => {
+  const entries: TimelineEntry[] = [
+    {
+      key: 'started',
+      at: report.startedAt,
+      icon: 'play-circle-outline',
+      color: BrandTheme.colors.INFO,
+      title: 'Job started',
+    },
+    ...report.events.map(event => ({
+      key: event.id,
+      at: event.timestamp,
+      icon: (event.type === 'enter' ? 'enter-outline' : 'exit-outline') as keyof typeof Ionicons.glyphMap,
+      color: event.type === 'enter' ? BrandTheme.colors.SUCCESS : BrandTheme.colors.TEXT_SECONDARY,
+      title: event.type === 'enter' ? 'Arrived on site' : 'Left site',
+      detail: `${event.distanceMeters} m from property · ±${Math.round(event.accuracy)} m${event.simulated ? ' · simulated' : ''}`,
+    })),
+    ...report.flags.map((flag, index) => ({
+      key: `flag_${index}`,
+      at: flag.at,
+      icon: FLAG_ICONS[flag.kind],
+      color: BrandTheme.colors.WARNING,
+      title: 'Flagged',
+      detail: flag.message,
+    })),
+  ];
+
+  if (report.completedAt) {
+    entries.push({
+      key: 'completed',
+      at: report.completedAt,
+      icon: 'checkmark-circle-outline',
+      color: BrandTheme.colors.SUCCESS,
+      title: 'Job completed',
+    });
+  }
+
+  return entries.sort((a, b) => a.at.getTime() - b.at.getTime());
+};
+
+export default function SiteTimelineScreen() {
+  const { jobId } = useLocalSearchParams<{ jobId: string }>();
+  const { currentProfile } = usePINAuth();
+  const router = useRouter();
+  const [report, setReport] = useState<SiteTimeReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const hasAccess = canAccessRoute(currentProfile?.role, '/(modal)/site-timeline');
+
+  const loadReport = useCallback(async () => {
+    if (!jobId) return;
+    try {
+      setReport(await geofenceService.getSiteTimeReport(jobId));
+    } catch (error) {
+      console.error('❌ SiteTimeline: Failed to load report:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    if (hasAccess) loadReport();
+  }, [hasAccess, loadReport]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadReport();
+    setRefreshing(false);
+  }, [loadReport]);
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color={BrandTheme.colors.YELLOW} />
+        </View>
+      );
+    }
+
+    if (!report) {
+      return (
+        <View style={styles.emptyState}>
+          <Ionicons name="time-outline" size={32} color={BrandTheme.colors.TEXT_SECONDARY} />
+          <Text style={styles.emptyStateText}>This job has not started yet.</Text>
+        </View>
+      );
+    }
+
+    const ratio = Math.round(report.onSiteRatio * 100);
+
+    return (
+      <>
+        <View style={styles.summaryCard}>
+          <View style={styles.summaryItem}>
+            <Text style={styles.summaryValue}>{report.onSiteMinutes} min</Text>
+            <Text style={styles.summaryLabel}>On site</Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <Text style={styles.summaryValue}>{report.estimatedDuration} min</Text>
+            <Text style={styles.summaryLabel}>Estimated</Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <Text style={[styles.summaryValue, report.flags.length > 0 && { color: BrandTheme.colors.WARNING }]}>
+              {ratio}%
+            </Text>
+            <Text style={styles.summaryLabel}>{report.flags.length} flag(s)</Text>
+          </View>
+        </View>
+
+        {buildTimeline(report).map(entry => (
+          <View key={entry.key} style={styles.timelineRow}>
+            <View style={styles.timelineIcon}>
+              <Ionicons name={entry.icon} size={18} color={entry.color} />
+            </View>
+            <View style={styles.timelineBody}>
+              <View style={styles.timelineHeader}>
+                <Text style={styles.timelineTitle}>{entry.title}</Text>
+                <Text style={styles.timelineTime}>{formatTime(entry.at)}</Text>
+              </View>
+              {entry.detail && <Text style={styles.timelineDetail}>{entry.detail}</Text>}
+            </View>
+          </View>
+        ))}
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={BrandTheme.colors.TEXT_PRIMARY} />
+        </TouchableOpacity>
+        <View>
+          <Text style={styles.headerTitle}>Site Timeline</Text>
+          <Text style={styles.headerSubtitle}>Geofence events and time on site</Text>
+        </View>
+      </View>
+
+      {!hasAccess ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="lock-closed-outline" size={32} color={BrandTheme.colors.TEXT_SECONDARY} />
+          <Text style={styles.emptyStateText}>Your role cannot view site timelines.</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.content}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={BrandTheme.colors.YELLOW} />}
+        >
+          {renderContent()}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  headerSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: BrandTheme.spacing.LG,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: BrandTheme.spacing.XXL,
+    gap: BrandTheme.spacing.MD,
+  },
+  emptyStateText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 16,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textAlign: 'center',
+  },
+  summaryCard: {
+    flexDirection: 'row',
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    padding: BrandTheme.spacing.LG,
+    marginBottom: BrandTheme.spacing.LG,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  summaryLabel: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_MUTED,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    gap: BrandTheme.spacing.MD,
+    marginBottom: BrandTheme.spacing.MD,
+  },
+  timelineIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  timelineBody: {
+    flex: 1,
+    paddingBottom: BrandTheme.spacing.SM,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  timelineHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  timelineTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  timelineTime: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_MUTED,
+  },
+  timelineDetail: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+});
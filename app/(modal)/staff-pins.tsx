@@ -0,0 +1,248 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { usePINAuth } from "@/contexts/PINAuthContext";
+import { pinService } from '@/services/pinService';
+import type { PINAttemptStatus } from '@/utils/pinSecurity';
+import { BrandTheme } from '@/constants/BrandTheme';
+import { canAccessRoute } from '@/utils/permissions';
+
+export default function StaffPINsScreen() {
+  const { currentProfile, staffProfiles, resetStaffPIN } = usePINAuth();
+  const router = useRouter();
+  const [statuses, setStatuses] = useState<Record<string, PINAttemptStatus>>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [resettingId, setResettingId] = useState<string | null>(null);
+
+  const hasAccess = canAccessRoute(currentProfile?.role, '/(modal)/staff-pins');
+
+  const loadStatuses = useCallback(async () => {
+    try {
+      const entries = await Promise.all(
+        staffProfiles.map(async profile => [profile.id, await pinService.getAttemptStatus(profile.id)] as const)
+      );
+      setStatuses(Object.fromEntries(entries));
+    } catch (error) {
+      console.error('❌ StaffPINs: Failed to load lockout status:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [staffProfiles]);
+
+  useEffect(() => {
+    if (hasAccess) {
+      loadStatuses();
+    }
+  }, [hasAccess, loadStatuses]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadStatuses();
+    setRefreshing(false);
+  }, [loadStatuses]);
+
+  const handleReset = (profileId: string, name: string) => {
+    Alert.alert(
+      'Reset PIN',
+      `${name} will need to create a new PIN the next time they sign in.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            setResettingId(profileId);
+            const success = await resetStaffPIN(profileId);
+            setResettingId(null);
+            if (success) {
+              await loadStatuses();
+            } else {
+              Alert.alert('Error', 'Failed to reset PIN');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const lockedCount = Object.values(statuses).filter(status => !status.canAttempt).length;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={BrandTheme.colors.TEXT_PRIMARY} />
+        </TouchableOpacity>
+        <View>
+          <Text style={styles.headerTitle}>Staff PINs</Text>
+          <Text style={styles.headerSubtitle}>{lockedCount} locked out</Text>
+        </View>
+      </View>
+
+      {!hasAccess ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="lock-closed-outline" size={32} color={BrandTheme.colors.TEXT_SECONDARY} />
+          <Text style={styles.emptyStateText}>Only admins and managers can reset PINs.</Text>
+        </View>
+      ) : loading ? (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color={BrandTheme.colors.YELLOW} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.content}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor={BrandTheme.colors.YELLOW}
+            />
+          }
+        >
+          {staffProfiles.map(profile => {
+            const status = statuses[profile.id];
+            const isLocked = status && !status.canAttempt;
+
+            return (
+              <View key={profile.id} style={styles.card}>
+                <View style={styles.cardInfo}>
+                  <Text style={styles.cardTitle}>{profile.name}</Text>
+                  <Text style={[styles.cardSubtitle, isLocked && styles.lockedText]}>
+                    {isLocked && status.lockoutTime
+                      ? `Locked until ${new Date(status.lockoutTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                      : profile.role}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  style={styles.resetButton}
+                  onPress={() => handleReset(profile.id, profile.name)}
+                  disabled={resettingId === profile.id}
+                >
+                  {resettingId === profile.id ? (
+                    <ActivityIndicator size="small" color={BrandTheme.colors.YELLOW} />
+                  ) : (
+                    <Text style={styles.resetButtonText}>Reset PIN</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  headerSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: BrandTheme.spacing.LG,
+    paddingBottom: BrandTheme.spacing.XXL,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: BrandTheme.spacing.XXL,
+    gap: BrandTheme.spacing.MD,
+  },
+  emptyStateText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 16,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textAlign: 'center',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    padding: BrandTheme.spacing.LG,
+    marginBottom: BrandTheme.spacing.MD,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  cardSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+    textTransform: 'capitalize',
+  },
+  lockedText: {
+    color: BrandTheme.colors.ERROR,
+    textTransform: 'none',
+  },
+  resetButton: {
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.SM,
+    borderRadius: BrandTheme.radius.PILL,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.YELLOW,
+    minWidth: 90,
+    alignItems: 'center',
+  },
+  resetButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    fontWeight: '600',
+    color: BrandTheme.colors.YELLOW,
+  },
+});
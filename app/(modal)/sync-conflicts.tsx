@@ -0,0 +1,411 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  StyleSheet,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { usePINAuth } from "@/contexts/PINAuthContext";
+import { useSync } from '@/hooks/useSync';
+import { ConflictResolution } from '@/services/syncService';
+import { mergeEntity, FieldChoice, FieldDiff } from '@/utils/conflictMerge';
+import { BrandTheme } from '@/constants/BrandTheme';
+import { canAccessRoute } from '@/utils/permissions';
+
+const TYPE_LABELS: Record<ConflictResolution['type'], string> = {
+  booking: 'Booking',
+  assignment: 'Assignment',
+  property: 'Property Status',
+};
+
+const STATUS_LABELS: Record<FieldDiff['status'], { text: string; color: string }> = {
+  unchanged: { text: 'Unchanged', color: BrandTheme.colors.TEXT_SECONDARY },
+  local: { text: 'Local change', color: BrandTheme.colors.INFO },
+  remote: { text: 'Remote change', color: BrandTheme.colors.INFO },
+  both: { text: 'Merged', color: BrandTheme.colors.SUCCESS },
+  review: { text: 'Needs review', color: BrandTheme.colors.WARNING },
+};
+
+const formatValue = (value: any): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Conflicts stored before field-level merging have no diffs yet
+const getChangedFields = (conflict: ConflictResolution): FieldDiff[] => {
+  const diffs = conflict.diffs
+    ?? mergeEntity(conflict.type, conflict.baseData, conflict.localData, conflict.remoteData).diffs;
+  return diffs.filter(diff => diff.status !== 'unchanged');
+};
+
+export default function SyncConflictsScreen() {
+  const { currentProfile } = usePINAuth();
+  const { conflicts, resolveConflict, refreshStatus } = useSync();
+  const router = useRouter();
+  const [refreshing, setRefreshing] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [fieldChoices, setFieldChoices] = useState<Record<string, Record<string, FieldChoice>>>({});
+
+  const hasAccess = canAccessRoute(currentProfile?.role, '/(modal)/sync-conflicts');
+  const unresolvedConflicts = conflicts.filter(c => !c.resolved);
+
+  const onRefresh = React.useCallback(() => {
+    setRefreshing(true);
+    refreshStatus();
+    setRefreshing(false);
+  }, [refreshStatus]);
+
+  const chooseField = (conflictId: string, field: string, choice: FieldChoice) => {
+    setFieldChoices(prev => ({
+      ...prev,
+      [conflictId]: { ...prev[conflictId], [field]: choice },
+    }));
+  };
+
+  const handleResolve = async (
+    conflict: ConflictResolution,
+    resolution: 'local' | 'remote' | 'merge'
+  ) => {
+    setResolvingId(conflict.id);
+    try {
+      await resolveConflict(conflict.id, resolution, fieldChoices[conflict.id]);
+      setFieldChoices(prev => {
+        const { [conflict.id]: _resolved, ...rest } = prev;
+        return rest;
+      });
+    } catch (error) {
+      console.error('❌ SyncConflicts: Failed to resolve conflict:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to resolve conflict');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const renderConflict = (conflict: ConflictResolution) => {
+    const diffs = getChangedFields(conflict);
+    const choices = fieldChoices[conflict.id] || {};
+    const reviewCount = diffs.filter(diff => diff.status === 'review').length;
+    const canMerge = diffs.every(diff => diff.status !== 'review' || choices[diff.field]);
+    const isResolving = resolvingId === conflict.id;
+
+    return (
+      <View key={`${conflict.type}_${conflict.id}`} style={styles.card}>
+        <View style={styles.cardHeader}>
+          <View style={styles.cardInfo}>
+            <Text style={styles.cardTitle}>{TYPE_LABELS[conflict.type]}</Text>
+            <Text style={styles.cardSubtitle}>
+              {conflict.id} · {new Date(conflict.timestamp).toLocaleString()}
+            </Text>
+          </View>
+          <View style={styles.reviewBadge}>
+            <Text style={styles.reviewBadgeText}>{reviewCount} to review</Text>
+          </View>
+        </View>
+
+        <Text style={styles.revisionText}>
+          {conflict.baseData
+            ? `Base revision ${conflict.baseRevision ?? 0}`
+            : 'No common base - every change needs review'}
+        </Text>
+
+        <View style={styles.diffHeaderRow}>
+          <Text style={[styles.diffHeaderText, styles.fieldColumn]}>Field</Text>
+          <Text style={[styles.diffHeaderText, styles.valueColumn]}>Base</Text>
+          <Text style={[styles.diffHeaderText, styles.valueColumn]}>Local</Text>
+          <Text style={[styles.diffHeaderText, styles.valueColumn]}>Remote</Text>
+        </View>
+
+        {diffs.map((diff) => {
+          const label = STATUS_LABELS[diff.status];
+          const isReview = diff.status === 'review';
+          const choice = choices[diff.field];
+
+          return (
+            <View key={diff.field} style={[styles.diffRow, isReview && styles.reviewRow]}>
+              <View style={styles.fieldColumn}>
+                <Text style={styles.fieldName}>{diff.field}</Text>
+                <Text style={[styles.fieldStatus, { color: label.color }]}>{label.text}</Text>
+              </View>
+              <Text style={[styles.valueText, styles.valueColumn]}>{formatValue(diff.base)}</Text>
+              <TouchableOpacity
+                style={[styles.valueColumn, styles.valueCell, choice === 'local' && styles.chosenCell]}
+                onPress={() => chooseField(conflict.id, diff.field, 'local')}
+                disabled={!isReview}
+              >
+                <Text style={styles.valueText}>{formatValue(diff.local)}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.valueColumn, styles.valueCell, choice === 'remote' && styles.chosenCell]}
+                onPress={() => chooseField(conflict.id, diff.field, 'remote')}
+                disabled={!isReview}
+              >
+                <Text style={styles.valueText}>{formatValue(diff.remote)}</Text>
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleResolve(conflict, 'local')}
+            disabled={isResolving}
+          >
+            <Text style={styles.actionButtonText}>Keep Local</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleResolve(conflict, 'remote')}
+            disabled={isResolving}
+          >
+            <Text style={styles.actionButtonText}>Keep Remote</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.mergeButton, !canMerge && styles.disabledButton]}
+            onPress={() => handleResolve(conflict, 'merge')}
+            disabled={!canMerge || isResolving}
+          >
+            <Ionicons name="git-merge-outline" size={16} color={BrandTheme.colors.BLACK} />
+            <Text style={[styles.actionButtonText, styles.mergeButtonText]}>Merge</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={BrandTheme.colors.TEXT_PRIMARY} />
+        </TouchableOpacity>
+        <View>
+          <Text style={styles.headerTitle}>Sync Conflicts</Text>
+          <Text style={styles.headerSubtitle}>
+            {unresolvedConflicts.length} waiting for review
+          </Text>
+        </View>
+      </View>
+
+      {!hasAccess ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="lock-closed-outline" size={32} color={BrandTheme.colors.TEXT_SECONDARY} />
+          <Text style={styles.emptyStateText}>Only admins and managers can review sync conflicts.</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.content}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor={BrandTheme.colors.YELLOW}
+            />
+          }
+        >
+          {unresolvedConflicts.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="checkmark-circle-outline" size={32} color={BrandTheme.colors.SUCCESS} />
+              <Text style={styles.emptyStateText}>No conflicts to review</Text>
+            </View>
+          ) : (
+            unresolvedConflicts.map(renderConflict)
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  headerSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: BrandTheme.spacing.LG,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: BrandTheme.spacing.XXL,
+    gap: BrandTheme.spacing.MD,
+  },
+  emptyStateText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 16,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    padding: BrandTheme.spacing.LG,
+    marginBottom: BrandTheme.spacing.LG,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 18,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  cardSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  reviewBadge: {
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.XS,
+    borderRadius: BrandTheme.radius.PILL,
+    backgroundColor: 'rgba(255, 165, 0, 0.15)',
+  },
+  reviewBadgeText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    fontWeight: '600',
+    color: BrandTheme.colors.WARNING,
+  },
+  revisionText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginBottom: BrandTheme.spacing.MD,
+  },
+  diffHeaderRow: {
+    flexDirection: 'row',
+    paddingBottom: BrandTheme.spacing.SM,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER,
+  },
+  diffHeaderText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+  },
+  diffRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: BrandTheme.spacing.SM,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  reviewRow: {
+    backgroundColor: 'rgba(255, 165, 0, 0.08)',
+  },
+  fieldColumn: {
+    flex: 1.2,
+    paddingRight: BrandTheme.spacing.SM,
+  },
+  valueColumn: {
+    flex: 1,
+    paddingRight: BrandTheme.spacing.SM,
+  },
+  valueCell: {
+    padding: BrandTheme.spacing.XS,
+    borderRadius: BrandTheme.radius.XS,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  chosenCell: {
+    borderColor: BrandTheme.colors.SUCCESS,
+    backgroundColor: 'rgba(0, 255, 136, 0.1)',
+  },
+  fieldName: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 13,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  fieldStatus: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 11,
+    marginTop: 2,
+  },
+  valueText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 13,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: BrandTheme.spacing.SM,
+    marginTop: BrandTheme.spacing.LG,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: BrandTheme.spacing.XS,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderRadius: BrandTheme.radius.SM,
+    backgroundColor: BrandTheme.colors.SURFACE_2,
+  },
+  mergeButton: {
+    backgroundColor: BrandTheme.colors.YELLOW,
+  },
+  disabledButton: {
+    opacity: 0.4,
+  },
+  actionButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  mergeButtonText: {
+    color: BrandTheme.colors.BLACK,
+  },
+});
@@ -0,0 +1,626 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  StyleSheet,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+  Share,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { usePINAuth } from "@/contexts/PINAuthContext";
+import { timesheetService, PayrollExportFormat } from '@/services/timesheetService';
+import type { Reviewer } from '@/services/jobReviewService';
+import type { PayPeriodStatus, TimesheetDay, WeeklyTimesheet } from '@/types/timesheet';
+import { BrandTheme } from '@/constants/BrandTheme';
+import { canAccessRoute } from '@/utils/permissions';
+import { PAY_PERIOD_STATUS_LABELS, formatMinutes, getPayPeriod, toDateKey } from '@/utils/timesheet';
+
+const STATUS_COLORS: Record<PayPeriodStatus, string> = {
+  open: BrandTheme.colors.TEXT_MUTED,
+  approved: BrandTheme.colors.SUCCESS,
+  locked: BrandTheme.colors.INFO,
+};
+
+const formatDay = (date: Date) => date.toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' });
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export default function TimesheetsScreen() {
+  const { currentProfile } = usePINAuth();
+  const router = useRouter();
+  const [weekOf, setWeekOf] = useState(() => new Date());
+  const [timesheets, setTimesheets] = useState<WeeklyTimesheet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [expandedStaffId, setExpandedStaffId] = useState<string | null>(null);
+  const [adjustDate, setAdjustDate] = useState('');
+  const [adjustMinutes, setAdjustMinutes] = useState('');
+  const [adjustReason, setAdjustReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const hasAccess = canAccessRoute(currentProfile?.role, '/(modal)/timesheets');
+  const period = useMemo(() => getPayPeriod(weekOf), [weekOf]);
+  const periodDates = useMemo(
+    () => Array.from({ length: 7 }, (_, index) => new Date(period.start.getFullYear(), period.start.getMonth(), period.start.getDate() + index)),
+    [period]
+  );
+  const reviewer: Reviewer | null = useMemo(
+    () => currentProfile && {
+      id: currentProfile.id,
+      name: currentProfile.name,
+      role: currentProfile.role,
+      teamId: currentProfile.teamId,
+    },
+    [currentProfile]
+  );
+
+  const loadTimesheets = useCallback(async () => {
+    if (!reviewer) return;
+    try {
+      setTimesheets(await timesheetService.getWeeklyTimesheets(reviewer, period));
+    } catch (error) {
+      console.error('❌ Timesheets: Failed to load timesheets:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [reviewer, period]);
+
+  useEffect(() => {
+    if (hasAccess) {
+      setLoading(true);
+      loadTimesheets();
+    }
+  }, [hasAccess, loadTimesheets]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadTimesheets();
+    setRefreshing(false);
+  }, [loadTimesheets]);
+
+  const changeWeek = (weeks: number) => {
+    setExpandedStaffId(null);
+    setWeekOf(new Date(period.start.getFullYear(), period.start.getMonth(), period.start.getDate() + weeks * 7));
+  };
+
+  const toggleStaff = (staffId: string) => {
+    setExpandedStaffId(prev => (prev === staffId ? null : staffId));
+    setAdjustDate(toDateKey(period.start));
+    setAdjustMinutes('');
+    setAdjustReason('');
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setSubmitting(true);
+      await action();
+      await loadTimesheets();
+    } catch (error) {
+      console.error(`❌ Timesheets: ${failure}:`, error);
+      Alert.alert('Error', error instanceof Error ? error.message : failure);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleAdjust = (staffId: string) => {
+    if (!reviewer) return;
+    const minutes = parseInt(adjustMinutes, 10);
+    if (!Number.isFinite(minutes) || minutes === 0) {
+      Alert.alert('Adjustment', 'Enter the minutes to add, or a negative number to remove time.');
+      return;
+    }
+    if (!adjustReason.trim()) {
+      Alert.alert('Adjustment', 'Please give a reason for the adjustment.');
+      return;
+    }
+    runAction(async () => {
+      await timesheetService.addAdjustment(reviewer, {
+        staffId,
+        period,
+        date: adjustDate,
+        minutes,
+        reason: adjustReason,
+      });
+      setAdjustMinutes('');
+      setAdjustReason('');
+    }, 'Failed to save adjustment');
+  };
+
+  const handleApprove = (timesheet: WeeklyTimesheet) => {
+    if (!reviewer) return;
+    runAction(() => timesheetService.approvePeriod(reviewer, timesheet.staffId, period), 'Failed to approve timesheet');
+  };
+
+  const handleLock = (timesheet: WeeklyTimesheet) => {
+    if (!reviewer) return;
+    Alert.alert(
+      'Lock Pay Period',
+      `Lock ${timesheet.staffName || 'this timesheet'} for the week? Locked timesheets can no longer be adjusted.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Lock',
+          style: 'destructive',
+          onPress: () => runAction(() => timesheetService.lockPeriod(reviewer, timesheet.staffId, period), 'Failed to lock timesheet'),
+        },
+      ]
+    );
+  };
+
+  const handleExport = async (format: PayrollExportFormat) => {
+    if (!reviewer) return;
+    try {
+      setSubmitting(true);
+      const message = await timesheetService.exportPayroll(reviewer, period, format);
+      await Share.share({ title: `Payroll ${period.id}.${format}`, message });
+    } catch (error) {
+      console.error('❌ Timesheets: Failed to export payroll:', error);
+      Alert.alert('Error', 'Failed to export payroll');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderDay = (day: TimesheetDay) => (
+    <View key={day.date} style={styles.day}>
+      <View style={styles.dayHeader}>
+        <Text style={styles.dayTitle}>{formatDay(new Date(`${day.date}T00:00:00`))}</Text>
+        <Text style={styles.dayTotal}>{formatMinutes(day.totalMinutes)}</Text>
+      </View>
+      {day.entries.map(entry => (
+        <View key={entry.jobId} style={styles.entryRow}>
+          <Text style={styles.entryTitle}>
+            {formatTime(entry.startedAt)}–{formatTime(entry.endedAt)} · {entry.title || entry.jobType}
+          </Text>
+          <Text style={styles.mutedText}>
+            {formatMinutes(entry.workedMinutes)} worked
+            {entry.travelMinutes > 0 ? ` · ${entry.travelMinutes} min travel` : ''}
+            {entry.onSiteMinutes !== undefined ? ` · ${entry.onSiteMinutes} min on site` : ''}
+            {entry.source === 'estimate' ? ' · estimated' : ''}
+          </Text>
+        </View>
+      ))}
+      {day.adjustments.map(adjustment => (
+        <View key={adjustment.id} style={styles.entryRow}>
+          <Text style={[styles.entryTitle, { color: BrandTheme.colors.WARNING }]}>
+            {adjustment.minutes > 0 ? '+' : ''}{adjustment.minutes} min adjustment
+          </Text>
+          <Text style={styles.mutedText}>
+            {adjustment.reason}{adjustment.adjustedByName ? ` · ${adjustment.adjustedByName}` : ''}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderTimesheet = (timesheet: WeeklyTimesheet) => {
+    const expanded = expandedStaffId === timesheet.staffId;
+    const isOwn = timesheet.staffId === currentProfile?.id;
+
+    return (
+      <View key={timesheet.staffId} style={styles.card}>
+        <TouchableOpacity style={styles.cardHeader} onPress={() => toggleStaff(timesheet.staffId)}>
+          <View style={styles.cardInfo}>
+            <Text style={styles.cardTitle}>{timesheet.staffName || timesheet.staffId}</Text>
+            <Text style={styles.cardSubtitle}>
+              {formatMinutes(timesheet.workedMinutes)} worked · {formatMinutes(timesheet.travelMinutes)} travel
+              {timesheet.adjustmentMinutes !== 0 ? ` · ${formatMinutes(timesheet.adjustmentMinutes)} adjusted` : ''}
+            </Text>
+          </View>
+          <View style={styles.cardTotals}>
+            <Text style={styles.totalText}>{formatMinutes(timesheet.totalMinutes)}</Text>
+            <Text style={[styles.statusText, { color: STATUS_COLORS[timesheet.status] }]}>
+              {PAY_PERIOD_STATUS_LABELS[timesheet.status]}
+            </Text>
+          </View>
+        </TouchableOpacity>
+
+        {expanded && (
+          <View style={styles.cardBody}>
+            {timesheet.days.map(renderDay)}
+
+            {!isOwn && timesheet.status !== 'locked' && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Adjust Time</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.dateChips}>
+                  {periodDates.map(date => {
+                    const key = toDateKey(date);
+                    return (
+                      <TouchableOpacity
+                        key={key}
+                        style={[styles.chip, adjustDate === key && styles.chipActive]}
+                        onPress={() => setAdjustDate(key)}
+                      >
+                        <Text style={[styles.chipText, adjustDate === key && styles.chipTextActive]}>{formatDay(date)}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+                <TextInput
+                  style={styles.input}
+                  value={adjustMinutes}
+                  onChangeText={setAdjustMinutes}
+                  placeholder="Minutes, e.g. 30 or -15"
+                  placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+                  keyboardType="numbers-and-punctuation"
+                />
+                <TextInput
+                  style={[styles.input, styles.multilineInput]}
+                  value={adjustReason}
+                  onChangeText={setAdjustReason}
+                  placeholder="Reason"
+                  placeholderTextColor={BrandTheme.colors.TEXT_MUTED}
+                  multiline
+                />
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.outlineButton, submitting && styles.disabledButton]}
+                  onPress={() => handleAdjust(timesheet.staffId)}
+                  disabled={submitting}
+                >
+                  <Text style={styles.outlineButtonText}>Save Adjustment</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {!isOwn && timesheet.status !== 'locked' && (
+              <View style={styles.actionRow}>
+                {timesheet.status === 'open' ? (
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.approveButton, submitting && styles.disabledButton]}
+                    onPress={() => handleApprove(timesheet)}
+                    disabled={submitting}
+                  >
+                    <Text style={styles.approveButtonText}>Approve Week</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.approveButton, submitting && styles.disabledButton]}
+                    onPress={() => handleLock(timesheet)}
+                    disabled={submitting}
+                  >
+                    <Text style={styles.approveButtonText}>Lock Pay Period</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" color={BrandTheme.colors.YELLOW} />
+        </View>
+      );
+    }
+
+    if (timesheets.length === 0) {
+      return (
+        <View style={styles.emptyState}>
+          <Ionicons name="time-outline" size={32} color={BrandTheme.colors.TEXT_SECONDARY} />
+          <Text style={styles.emptyStateText}>No completed jobs this week.</Text>
+        </View>
+      );
+    }
+
+    return timesheets.map(renderTimesheet);
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={22} color={BrandTheme.colors.TEXT_PRIMARY} />
+        </TouchableOpacity>
+        <View>
+          <Text style={styles.headerTitle}>Timesheets</Text>
+          <Text style={styles.headerSubtitle}>Weekly hours from completed jobs</Text>
+        </View>
+      </View>
+
+      {!hasAccess ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="lock-closed-outline" size={32} color={BrandTheme.colors.TEXT_SECONDARY} />
+          <Text style={styles.emptyStateText}>Your role cannot manage timesheets.</Text>
+        </View>
+      ) : (
+        <>
+          <View style={styles.weekBar}>
+            <TouchableOpacity style={styles.weekButton} onPress={() => changeWeek(-1)}>
+              <Ionicons name="chevron-back" size={20} color={BrandTheme.colors.TEXT_PRIMARY} />
+            </TouchableOpacity>
+            <Text style={styles.weekLabel}>
+              {formatDay(period.start)} – {formatDay(periodDates[6])}
+            </Text>
+            <TouchableOpacity style={styles.weekButton} onPress={() => changeWeek(1)}>
+              <Ionicons name="chevron-forward" size={20} color={BrandTheme.colors.TEXT_PRIMARY} />
+            </TouchableOpacity>
+          </View>
+          <View style={styles.exportRow}>
+            {(['csv', 'json'] as PayrollExportFormat[]).map(format => (
+              <TouchableOpacity
+                key={format}
+                style={[styles.chip, (submitting || timesheets.length === 0) && styles.disabledButton]}
+                onPress={() => handleExport(format)}
+                disabled={submitting || timesheets.length === 0}
+              >
+                <Ionicons name="share-outline" size={14} color={BrandTheme.colors.TEXT_PRIMARY} />
+                <Text style={styles.chipText}>Export {format.toUpperCase()}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.content}
+            refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={BrandTheme.colors.YELLOW} />}
+          >
+            {renderContent()}
+          </ScrollView>
+        </>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderBottomWidth: 1,
+    borderBottomColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  headerSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  weekBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingTop: BrandTheme.spacing.MD,
+  },
+  weekButton: {
+    width: 36,
+    height: 36,
+    borderRadius: BrandTheme.radius.CIRCLE,
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  weekLabel: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  exportRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: BrandTheme.spacing.SM,
+    paddingHorizontal: BrandTheme.spacing.LG,
+    paddingTop: BrandTheme.spacing.MD,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    padding: BrandTheme.spacing.LG,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: BrandTheme.spacing.XXL,
+    gap: BrandTheme.spacing.MD,
+  },
+  emptyStateText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 16,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    padding: BrandTheme.spacing.LG,
+    marginBottom: BrandTheme.spacing.MD,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.MD,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  cardSubtitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.XS,
+  },
+  cardTotals: {
+    alignItems: 'flex-end',
+  },
+  totalText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  statusText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: BrandTheme.spacing.XS,
+  },
+  cardBody: {
+    marginTop: BrandTheme.spacing.MD,
+  },
+  day: {
+    paddingVertical: BrandTheme.spacing.SM,
+    borderTopWidth: 1,
+    borderTopColor: BrandTheme.colors.BORDER_SUBTLE,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: BrandTheme.spacing.XS,
+  },
+  dayTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    fontWeight: '600',
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  dayTotal: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+  },
+  entryRow: {
+    paddingVertical: BrandTheme.spacing.XS,
+  },
+  entryTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  mutedText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_MUTED,
+    marginTop: 2,
+  },
+  section: {
+    marginTop: BrandTheme.spacing.MD,
+    backgroundColor: BrandTheme.colors.SURFACE_2,
+    borderRadius: BrandTheme.radius.MD,
+    padding: BrandTheme.spacing.MD,
+  },
+  sectionTitle: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  dateChips: {
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: BrandTheme.spacing.XS,
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.XS,
+    borderRadius: BrandTheme.radius.PILL,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER_SUBTLE,
+    marginRight: BrandTheme.spacing.XS,
+  },
+  chipActive: {
+    backgroundColor: BrandTheme.colors.YELLOW,
+    borderColor: BrandTheme.colors.YELLOW,
+  },
+  chipText: {
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+  },
+  chipTextActive: {
+    color: BrandTheme.colors.BLACK,
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    borderRadius: BrandTheme.radius.SM,
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.SM,
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+    marginBottom: BrandTheme.spacing.SM,
+  },
+  multilineInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: BrandTheme.spacing.SM,
+    marginTop: BrandTheme.spacing.MD,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: BrandTheme.spacing.MD,
+    borderRadius: BrandTheme.radius.MD,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.4,
+  },
+  outlineButton: {
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.YELLOW,
+  },
+  outlineButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    fontWeight: '600',
+    color: BrandTheme.colors.YELLOW,
+  },
+  approveButton: {
+    backgroundColor: BrandTheme.colors.SUCCESS,
+  },
+  approveButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 14,
+    fontWeight: '600',
+    color: BrandTheme.colors.BLACK,
+  },
+});
@@ -8,6 +8,13 @@ import { Ionicons } from '@expo/vector-icons';
 import { View, Text, Platform, ActivityIndicator, TouchableOpacity, StyleSheet } from 'react-native';
 import { useTranslation } from '@/hooks/useTranslation';
 import { BrandTheme } from '@/constants/BrandTheme';
+import { turnoverJobService } from '@/services/turnoverJobService';
+import { maintenanceScheduleService } from '@/services/maintenanceScheduleService';
+import { issueService } from '@/services/issueService';
+import { notificationDigestService } from '@/services/notificationDigestService';
+import { escalationPolicyService } from '@/services/escalationPolicyService';
+import { jobOfferService } from '@/services/jobOfferService';
+import { can } from '@/utils/permissions';
 
 // Brand Kit Tab Icon Component
 const BrandTabIcon = ({
@@ -77,7 +84,7 @@ const BrandNotificationIcon = ({ focused, color, unreadCount }: { focused: boole
 };
 
 export default function TabLayout() {
-  const { isAuthenticated, isLoading } = usePINAuth();
+  const { isAuthenticated, isLoading, currentProfile } = usePINAuth();
   const { unreadCount, notifications } = useAppNotifications();
   const { t } = useTranslation();
   const router = useRouter();
@@ -119,6 +126,29 @@ export default function TabLayout() {
     }
   }, [isAuthenticated, isLoading, router]);
 
+  // Admins and managers generate turnover and recurring maintenance jobs,
+  // close issues as their repair jobs are verified, send due digests, run
+  // escalation policies and move expired job offers on
+  const canManageBookings = can(currentProfile?.role, 'bookings', 'approve');
+  useEffect(() => {
+    if (!isAuthenticated || !canManageBookings) return;
+    maintenanceScheduleService.materializeAll().catch(error => {
+      console.error('❌ TabLayout: Failed to materialize maintenance schedules:', error);
+    });
+    const stopTurnoverJobs = turnoverJobService.start();
+    const stopIssueSync = issueService.start();
+    const stopDigests = notificationDigestService.start();
+    const stopEscalations = escalationPolicyService.start();
+    const stopOffers = jobOfferService.start();
+    return () => {
+      stopTurnoverJobs();
+      stopIssueSync();
+      stopDigests();
+      stopEscalations();
+      stopOffers();
+    };
+  }, [isAuthenticated, canManageBookings]);
+
   // Show loading screen while checking authentication
   if (isLoading) {
     return (
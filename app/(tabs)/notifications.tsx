@@ -10,6 +10,7 @@ import { useRouter } from 'expo-router';
 import { BrandTheme } from '@/constants/BrandTheme';
 import { Card } from '@/components/ui/BrandCard';
 import { Button } from '@/components/ui/BrandButton';
+import { isAwaitingAcknowledgement } from '@/utils/announcements';
 
 interface NotificationItemProps {
   id: string;
@@ -19,7 +20,9 @@ interface NotificationItemProps {
   priority: 'low' | 'medium' | 'high';
   read: boolean;
   type: string;
+  pinned: boolean; // an announcement waiting for acknowledgement
   onMarkAsRead: (id: string) => void;
+  onAcknowledge: (id: string) => void;
   onPress: (id: string, title: string, message: string, type: string, timestamp: Date, jobId?: string) => void;
 }
 
@@ -31,7 +34,9 @@ const NotificationItem: React.FC<NotificationItemProps> = ({
   priority,
   read,
   type,
+  pinned,
   onMarkAsRead,
+  onAcknowledge,
   onPress,
 }) => {
   const formatTime = (date: Date) => {
@@ -63,6 +68,8 @@ const NotificationItem: React.FC<NotificationItemProps> = ({
       case 'job_update': return 'refresh';
       case 'system': return 'information-circle';
       case 'message': return 'mail';
+      case 'digest': return 'albums';
+      case 'announcement': return 'megaphone';
       default: return 'notifications';
     }
   };
@@ -86,6 +93,9 @@ const NotificationItem: React.FC<NotificationItemProps> = ({
         
         <View style={styles.notificationContent}>
           <View style={styles.titleRow}>
+            {pinned && (
+              <Ionicons name="pin" size={14} color={BrandTheme.colors.YELLOW} style={styles.pinIcon} />
+            )}
             <Text style={[styles.notificationTitle, !read && styles.unreadTitle]}>
               {title}
             </Text>
@@ -104,6 +114,19 @@ const NotificationItem: React.FC<NotificationItemProps> = ({
               {priority.toUpperCase()}
             </Text>
           </View>
+
+          {pinned && (
+            <TouchableOpacity
+              style={styles.acknowledgeButton}
+              onPress={(e) => {
+                e.stopPropagation();
+                onAcknowledge(id);
+              }}
+            >
+              <Ionicons name="checkmark-done" size={16} color={BrandTheme.colors.BLACK} />
+              <Text style={styles.acknowledgeButtonText}>Acknowledge</Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         {!read && (
@@ -123,7 +146,7 @@ const NotificationItem: React.FC<NotificationItemProps> = ({
 };
 
 export default function BrandNotificationsScreen() {
-  const { notifications, unreadCount, markAsRead, refreshNotifications } = useAppNotifications();
+  const { notifications, unreadCount, pinnedCount, markAsRead, acknowledge, refreshNotifications } = useAppNotifications();
   const { currentProfile } = usePINAuth();
   const { t } = useTranslation();
   const router = useRouter();
@@ -144,7 +167,25 @@ export default function BrandNotificationsScreen() {
     markAsRead(id);
 
     // Navigate based on type
-    if (type === 'job_assigned' || type === 'job_update') {
+    if (type === 'announcement') {
+      const notification = notifications.find(n => n.id === id);
+      const needsAck = !!notification && isAwaitingAcknowledgement(notification);
+      Alert.alert(
+        title,
+        message,
+        needsAck
+          ? [
+              { text: 'Later', style: 'cancel' },
+              { text: 'Acknowledge', onPress: () => handleAcknowledge(id) },
+            ]
+          : [{ text: 'OK' }]
+      );
+    } else if (type === 'digest') {
+      const digestId = notifications.find(notification => notification.id === id)?.data?.digestId;
+      if (digestId) {
+        router.push(`/(modal)/notification-digest?digestId=${digestId}`);
+      }
+    } else if (type === 'job_assigned' || type === 'job_update') {
       if (jobId) {
         router.push(`/jobs/${jobId}`);
       } else {
@@ -157,6 +198,14 @@ export default function BrandNotificationsScreen() {
     markAsRead(id);
   };
 
+  const handleAcknowledge = async (id: string) => {
+    try {
+      await acknowledge(id);
+    } catch {
+      Alert.alert('Error', 'Failed to acknowledge the announcement');
+    }
+  };
+
   const handleClearAll = () => {
     Alert.alert(
       t('notifications.clear_all_title'),
@@ -210,6 +259,7 @@ export default function BrandNotificationsScreen() {
               ? t('notifications.unread_count', { count: unreadCount })
               : t('notifications.all_caught_up')
             }
+            {pinnedCount > 0 && ` · ${pinnedCount} to acknowledge`}
           </Text>
         </View>
         
@@ -240,7 +290,13 @@ export default function BrandNotificationsScreen() {
         >
           <View style={styles.notificationsList}>
             {notifications.map((notification, index) => (
-              <Card key={notification.id} style={styles.notificationCard}>
+              <Card
+                key={notification.id}
+                style={StyleSheet.flatten([
+                  styles.notificationCard,
+                  isAwaitingAcknowledgement(notification) && styles.pinnedCard
+                ])}
+              >
                 <NotificationItem
                   id={notification.id}
                   title={notification.title}
@@ -249,7 +305,9 @@ export default function BrandNotificationsScreen() {
                   priority={notification.priority || 'medium'}
                   read={notification.read}
                   type={notification.type}
+                  pinned={isAwaitingAcknowledgement(notification)}
                   onMarkAsRead={handleMarkAsRead}
+                  onAcknowledge={handleAcknowledge}
                   onPress={handleNotificationPress}
                 />
               </Card>
@@ -318,6 +376,11 @@ const styles = StyleSheet.create({
     paddingHorizontal: 0,
   },
 
+  pinnedCard: {
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.YELLOW,
+  },
+
   notificationItem: {
     paddingHorizontal: BrandTheme.spacing.LG,
     paddingVertical: BrandTheme.spacing.MD,
@@ -364,6 +427,10 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
   },
 
+  pinIcon: {
+    marginRight: BrandTheme.spacing.XS,
+  },
+
   unreadDot: {
     width: 8,
     height: 8,
@@ -399,6 +466,25 @@ const styles = StyleSheet.create({
     letterSpacing: 0.5,
   },
 
+  acknowledgeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: BrandTheme.spacing.XS,
+    marginTop: BrandTheme.spacing.SM,
+    paddingHorizontal: BrandTheme.spacing.MD,
+    paddingVertical: BrandTheme.spacing.SM,
+    borderRadius: BrandTheme.radius.PILL,
+    backgroundColor: BrandTheme.colors.YELLOW,
+  },
+
+  acknowledgeButtonText: {
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: BrandTheme.colors.BLACK,
+  },
+
   markReadButton: {
     padding: BrandTheme.spacing.SM,
     marginLeft: BrandTheme.spacing.SM,
@@ -21,6 +21,7 @@ import LogoutOverlay from '@/components/auth/LogoutOverlay';
 import { BrandTheme } from '@/constants/BrandTheme';
 import { Card } from '@/components/ui/BrandCard';
 import { Button } from '@/components/ui/BrandButton';
+import { can, canAccessRoute } from '@/utils/permissions';
 
 // User status options
 const statusOptions = [
@@ -32,7 +33,7 @@ const statusOptions = [
 type UserStatus = typeof statusOptions[number]['id'];
 
 export default function ProfileScreen() {
-  const { currentProfile, logout, isLoading } = usePINAuth();
+  const { currentProfile, logout, isLoading, kioskSettings, lockSession } = usePINAuth();
   const { t } = useTranslationContext();
   const router = useRouter();
   const [userStatus, setUserStatus] = useState<UserStatus>('available');
@@ -40,7 +41,7 @@ export default function ProfileScreen() {
   const [refreshing, setRefreshing] = useState(false);
 
   const isStaffUser = currentProfile?.role && ['cleaner', 'maintenance', 'staff'].includes(currentProfile.role);
-  const isAdminOrManager = currentProfile?.role && ['admin', 'manager'].includes(currentProfile.role);
+  const role = currentProfile?.role;
 
   // Auto-refresh when screen comes into focus
   useFocusEffect(
@@ -64,6 +65,12 @@ export default function ProfileScreen() {
     console.log('✅ Profile: Refresh complete');
   }, []);
 
+  // Shared device: hand over to the next staff member without signing out
+  const handleSwitchUser = async () => {
+    await lockSession('switch');
+    router.replace('/(auth)/select-profile');
+  };
+
   const handleSignOut = () => {
     Alert.alert(
       t('profile.signOutTitle'),
@@ -355,8 +362,16 @@ export default function ProfileScreen() {
             disabled={isSigningOut || isLoading}
           />
 
-          {/* Admin-only features */}
-          {isAdminOrManager && (
+          <ActionButton
+            icon="airplane-outline"
+            title="Leave Requests"
+            subtitle="Request time off and see what was approved"
+            onPress={() => router.push('/(modal)/leave-requests')}
+            disabled={isSigningOut || isLoading}
+          />
+
+          {/* Admin features, shown per role from the permission matrix */}
+          {can(role, 'users', 'read') && (
             <ActionButton
               icon="settings-outline"
               title="Admin Settings"
@@ -366,6 +381,126 @@ export default function ProfileScreen() {
             />
           )}
 
+          {canAccessRoute(role, '/(modal)/sync-conflicts') && (
+            <ActionButton
+              icon="git-merge-outline"
+              title="Sync Conflicts"
+              subtitle="Review edits that clashed during sync"
+              onPress={() => router.push('/(modal)/sync-conflicts')}
+              disabled={isSigningOut || isLoading}
+            />
+          )}
+
+          {canAccessRoute(role, '/(modal)/job-inbox') && (
+            <ActionButton
+              icon="chatbubbles-outline"
+              title="Job Inbox"
+              subtitle="Open chats with staff on their jobs"
+              onPress={() => router.push('/(modal)/job-inbox')}
+              disabled={isSigningOut || isLoading}
+            />
+          )}
+
+          {canAccessRoute(role, '/(modal)/announcements') && (
+            <ActionButton
+              icon="megaphone-outline"
+              title="Announcements"
+              subtitle="Notify the team and track who has acknowledged"
+              onPress={() => router.push('/(modal)/announcements')}
+              disabled={isSigningOut || isLoading}
+            />
+          )}
+
+          {canAccessRoute(role, '/(modal)/shopping-list') && (
+            <ActionButton
+              icon="cart-outline"
+              title="Shopping List"
+              subtitle="Supplies below par across all properties"
+              onPress={() => router.push('/(modal)/shopping-list')}
+              disabled={isSigningOut || isLoading}
+            />
+          )}
+
+          {canAccessRoute(role, '/(modal)/property-knowledge') && (
+            <ActionButton
+              icon="book-outline"
+              title="Property Knowledge"
+              subtitle="Notes and manuals the job assistant cites"
+              onPress={() => router.push('/(modal)/property-knowledge')}
+              disabled={isSigningOut || isLoading}
+            />
+          )}
+
+          {canAccessRoute(role, '/(modal)/issues') && (
+            <ActionButton
+              icon="warning-outline"
+              title="Issues"
+              subtitle="Triage damage and defects reported by staff"
+              onPress={() => router.push('/(modal)/issues')}
+              disabled={isSigningOut || isLoading}
+            />
+          )}
+
+          {canAccessRoute(role, '/(modal)/review-queue') && (
+            <ActionButton
+              icon="shield-checkmark-outline"
+              title="Review Queue"
+              subtitle="Verify completed jobs or send them back for rework"
+              onPress={() => router.push('/(modal)/review-queue')}
+              disabled={isSigningOut || isLoading}
+            />
+          )}
+
+          {canAccessRoute(role, '/(modal)/escalations') && (
+            <ActionButton
+              icon="alert-circle-outline"
+              title="Escalations"
+              subtitle="Stalled jobs and the policies that escalate them"
+              onPress={() => router.push('/(modal)/escalations')}
+              disabled={isSigningOut || isLoading}
+            />
+          )}
+
+          {canAccessRoute(role, '/(modal)/roster') && (
+            <ActionButton
+              icon="calendar-outline"
+              title="Roster"
+              subtitle="Plan shifts and approve leave for the week"
+              onPress={() => router.push('/(modal)/roster')}
+              disabled={isSigningOut || isLoading}
+            />
+          )}
+
+          {canAccessRoute(role, '/(modal)/timesheets') && (
+            <ActionButton
+              icon="time-outline"
+              title="Timesheets"
+              subtitle="Adjust, approve and export weekly hours for payroll"
+              onPress={() => router.push('/(modal)/timesheets')}
+              disabled={isSigningOut || isLoading}
+            />
+          )}
+
+          {canAccessRoute(role, '/(modal)/staff-pins') && (
+            <ActionButton
+              icon="key-outline"
+              title="Staff PINs"
+              subtitle="Reset forgotten PINs and clear lockouts"
+              onPress={() => router.push('/(modal)/staff-pins')}
+              disabled={isSigningOut || isLoading}
+            />
+          )}
+
+          {kioskSettings.enabled && (
+            <ActionButton
+              icon="swap-horizontal-outline"
+              title="Switch User"
+              subtitle="Lock this shared device for the next person"
+              onPress={handleSwitchUser}
+              disabled={isSigningOut || isLoading}
+            />
+          )}
+
           {/* Sign Out Button */}
           <ActionButton
             icon="log-out-outline"
@@ -17,6 +17,7 @@ import { useRouter, useFocusEffect } from 'expo-router';
 import { useTranslation } from '@/hooks/useTranslation';
 import { BrandTheme } from '@/constants/BrandTheme';
 import { Card } from '@/components/ui/BrandCard';
+import { KIOSK_AUTO_LOCK_OPTIONS } from '@/utils/kioskSession';
 
 interface SettingItem {
   id: string;
@@ -32,7 +33,7 @@ interface SettingItem {
 }
 
 export default function BrandSettingsScreen() {
-  const { currentProfile, logout } = usePINAuth();
+  const { currentProfile, logout, kioskSettings, updateKioskSettings } = usePINAuth();
   const { t, currentLanguage, changeLanguage } = useTranslation();
   const router = useRouter();
   
@@ -87,6 +88,52 @@ export default function BrandSettingsScreen() {
     );
   };
 
+  const isAdminOrManager = currentProfile?.role && ['admin', 'manager'].includes(currentProfile.role);
+
+  const handleAutoLockPress = () => {
+    Alert.alert(
+      t('settings.auto_lock'),
+      t('settings.select_auto_lock'),
+      [
+        ...KIOSK_AUTO_LOCK_OPTIONS.map(minutes => ({
+          text: t('settings.auto_lock_minutes', { minutes }),
+          onPress: () => updateKioskSettings({ ...kioskSettings, autoLockMinutes: minutes }),
+        })),
+        { text: t('common.cancel'), style: 'cancel' as const },
+      ]
+    );
+  };
+
+  // Kiosk mode is a device-level setting only admins and managers change
+  const sharedDeviceSection: { title: string; items: SettingItem[] }[] = isAdminOrManager
+    ? [
+        {
+          title: t('settings.shared_device'),
+          items: [
+            {
+              id: 'kiosk_mode',
+              title: t('settings.kiosk_mode'),
+              subtitle: t('settings.kiosk_mode_subtitle'),
+              icon: 'tablet-portrait-outline',
+              type: 'toggle',
+              value: kioskSettings.enabled,
+              onToggle: (enabled: boolean) => updateKioskSettings({ ...kioskSettings, enabled }),
+            },
+            ...(kioskSettings.enabled
+              ? [{
+                  id: 'auto_lock',
+                  title: t('settings.auto_lock'),
+                  subtitle: t('settings.auto_lock_minutes', { minutes: kioskSettings.autoLockMinutes }),
+                  icon: 'timer-outline' as const,
+                  type: 'navigation' as const,
+                  onPress: handleAutoLockPress,
+                }]
+              : []),
+          ],
+        },
+      ]
+    : [];
+
   const settingsSections: { title: string; items: SettingItem[] }[] = [
     {
       title: t('settings.app_preferences'),
@@ -100,6 +147,14 @@ export default function BrandSettingsScreen() {
           value: notificationsEnabled,
           onToggle: setNotificationsEnabled,
         },
+        {
+          id: 'notification_preferences',
+          title: t('settings.notification_preferences'),
+          subtitle: t('settings.notification_preferences_subtitle'),
+          icon: 'options-outline',
+          type: 'navigation',
+          onPress: () => router.push('/(modal)/notification-preferences'),
+        },
         {
           id: 'location',
           title: t('settings.location_tracking'),
@@ -217,6 +272,7 @@ export default function BrandSettingsScreen() {
         },
       ],
     },
+    ...sharedDeviceSection,
     {
       title: t('settings.account'),
       items: [
@@ -25,6 +25,7 @@ import { TranslationProvider } from '@/contexts/TranslationContext';
 import { SiaMoonPaperTheme } from '@/constants/PaperTheme';
 import { initializeFirebase } from '@/lib/firebase';
 import { AppAuditIntegration } from '@/components/audit/AppAuditIntegration';
+import { KioskActivityMonitor } from '@/components/auth/KioskActivityMonitor';
 import { loadBrandFonts } from '@/utils/BrandFonts';
 
 import { ErrorBoundary } from '@/components/ErrorBoundary';
@@ -103,17 +104,19 @@ export default function RootLayout() {
                           <JobProvider>
                             <AppAuditIntegration>
                               <ErrorBoundary>
-                                <StatusBar style="light" backgroundColor="#000000" />
-                                <Stack
-                                  screenOptions={{
-                                    headerShown: false,
-                                    contentStyle: { backgroundColor: '#000000' },
-                                  }}
-                                >
-                                  <Stack.Screen name="(auth)" options={{ headerShown: false }} />
-                                  <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-                                  <Stack.Screen name="+not-found" />
-                                </Stack>
+                                <KioskActivityMonitor>
+                                  <StatusBar style="light" backgroundColor="#000000" />
+                                  <Stack
+                                    screenOptions={{
+                                      headerShown: false,
+                                      contentStyle: { backgroundColor: '#000000' },
+                                    }}
+                                  >
+                                    <Stack.Screen name="(auth)" options={{ headerShown: false }} />
+                                    <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                                    <Stack.Screen name="+not-found" />
+                                  </Stack>
+                                </KioskActivityMonitor>
                               </ErrorBoundary>
                             </AppAuditIntegration>
                           </JobProvider>
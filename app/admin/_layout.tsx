@@ -1,25 +1,51 @@
-import React from 'react';
-import { Stack } from 'expo-router';
-import { AdminAuthProvider, useAdminAuth } from "@/contexts/PINAuthContext";
-import { View, Text, StyleSheet } from 'react-native';
+import React, { useEffect } from 'react';
+import { Stack, useRouter, useSegments } from 'expo-router';
+import { usePINAuth } from "@/contexts/PINAuthContext";
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
 import { useDesignTokens } from '@/constants/Design';
+import { BrandTheme } from '@/constants/BrandTheme';
 import ScreenWrapper from '@/components/ScreenWrapper';
+import { canAccessRoute } from '@/utils/permissions';
+import { getRoleDisplayName } from '@/utils/roleUtils';
 
-const AdminLayoutContent = () => {
-  const { loading } = useAdminAuth();
+export default function AdminLayout() {
+  const { isAuthenticated, isLoading, currentProfile } = usePINAuth();
+  const { Colors } = useDesignTokens();
+  const router = useRouter();
+  const segments = useSegments();
+
+  // Route guard: every admin screen needs the permission listed for it in utils/permissions.ts
+  const route = `/${segments.join('/')}`;
+  const hasAccess = canAccessRoute(currentProfile?.role, route);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      router.replace('/(auth)/select-profile');
+    }
+  }, [isAuthenticated, isLoading, router]);
 
-  if (loading) {
+  if (isLoading || !isAuthenticated) {
     return (
-      <View style={styles.loadingContainer}>
-        <Text style={styles.loadingText}>
-          Loading admin system...
-        </Text>
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={BrandTheme.colors.YELLOW} />
+        <Text style={styles.message}>Loading admin system...</Text>
       </View>
     );
   }
 
-  // Only use design tokens after loading is complete
-  const { Colors } = useDesignTokens();
+  if (!hasAccess) {
+    console.log(`🔐 AdminLayout: ${currentProfile?.role} denied ${route}`);
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="lock-closed-outline" size={48} color={BrandTheme.colors.TEXT_MUTED} />
+        <Text style={styles.title}>Access Restricted</Text>
+        <Text style={styles.message}>
+          {getRoleDisplayName(currentProfile?.role)} accounts cannot open this screen.
+        </Text>
+      </View>
+    );
+  }
 
   return (
     <ScreenWrapper>
@@ -34,26 +60,27 @@ const AdminLayoutContent = () => {
       </Stack>
     </ScreenWrapper>
   );
-};
-
-export default function AdminLayout() {
-  return (
-    <AdminAuthProvider>
-      <AdminLayoutContent />
-    </AdminAuthProvider>
-  );
 }
 
 const styles = StyleSheet.create({
-  loadingContainer: {
+  centered: {
     flex: 1,
     alignItems: 'center',
     justifyContent: 'center',
-    backgroundColor: '#0a0a0a', // Fallback background
+    padding: BrandTheme.spacing.XL,
+    backgroundColor: BrandTheme.colors.GREY_PRIMARY,
+  },
+  title: {
+    marginTop: BrandTheme.spacing.MD,
+    fontSize: 18,
+    fontFamily: BrandTheme.typography.fontFamily.primary,
+    color: BrandTheme.colors.TEXT_PRIMARY,
   },
-  loadingText: {
-    fontSize: 16,
-    fontWeight: '500',
-    color: '#ffffff', // Fallback text color
+  message: {
+    marginTop: BrandTheme.spacing.SM,
+    fontSize: 14,
+    textAlign: 'center',
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    color: BrandTheme.colors.TEXT_SECONDARY,
   },
 });
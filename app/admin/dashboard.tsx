@@ -24,6 +24,7 @@ import {
   MapPin,
   Phone,
   Mail,
+  Megaphone,
 } from 'lucide-react-native';
 import { useRouter } from 'expo-router';
 import { collection, query, onSnapshot, orderBy, where, doc, updateDoc } from 'firebase/firestore';
@@ -32,7 +33,14 @@ import { useDesignTokens } from '@/constants/Design';
 import { db } from '@/lib/firebase';
 import { Booking, AdminStats, COLLECTIONS } from '@/types/admin';
 import { AdminService } from '@/services/adminService';
+import { turnoverJobService } from '@/services/turnoverJobService';
 import TaskAssignmentModal from '@/components/admin/TaskAssignmentModal';
+import { announcementService } from '@/services/announcementService';
+import type { Announcement } from '@/types/announcement';
+import { getAnnouncementProgress, getRecipientStatuses } from '@/utils/announcements';
+
+// Outstanding names listed on a dashboard card before "and N more"
+const MAX_OUTSTANDING_NAMES = 5;
 
 export default function AdminDashboardScreen() {
   const [bookings, setBookings] = useState<Booking[]>([]);
@@ -42,6 +50,7 @@ export default function AdminDashboardScreen() {
   const [selectedTab, setSelectedTab] = useState<'overview' | 'bookings' | 'staff'>('overview');
   const [taskModalVisible, setTaskModalVisible] = useState(false);
   const [selectedBookingForTask, setSelectedBookingForTask] = useState<Booking | null>(null);
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
 
   const { adminUser, signOut } = useAdminAuth();
   const router = useRouter();
@@ -84,6 +93,15 @@ export default function AdminDashboardScreen() {
     return () => unsubscribe();
   }, [adminUser]);
 
+  useEffect(() => {
+    if (!adminUser) return;
+    return announcementService.subscribeToAnnouncements(setAnnouncements);
+  }, [adminUser]);
+
+  const awaitingAnnouncements = announcements.filter(
+    announcement => getAnnouncementProgress(announcement).outstanding > 0
+  );
+
   const calculateStats = (bookingsData: Booking[]) => {
     const stats: AdminStats = {
       totalBookings: bookingsData.length,
@@ -153,6 +171,13 @@ export default function AdminDashboardScreen() {
 
       await updateDoc(bookingRef, updateData);
 
+      // Approved stays get their turnover jobs straight away
+      if (action === 'approve') {
+        turnoverJobService.syncApprovedBookings().catch(error => {
+          console.error('Error generating turnover jobs:', error);
+        });
+      }
+
       Alert.alert(
         'Success',
         `Booking ${action === 'approve' ? 'approved' : 'rejected'} successfully`
@@ -337,6 +362,55 @@ export default function AdminDashboardScreen() {
     );
   };
 
+  const AnnouncementCard = ({ announcement }: { announcement: Announcement }) => {
+    const progress = getAnnouncementProgress(announcement);
+    const waitingOn = getRecipientStatuses(announcement)
+      .filter(entry => entry.status === 'unread' || (announcement.requiresAck && entry.status === 'read'))
+      .map(entry => entry.recipient.name);
+    const statusColor = progress.outstanding === 0 ? colors.success : colors.warning;
+
+    return (
+      <View style={styles.bookingCard}>
+        <BlurView intensity={20} style={styles.bookingCardBlur}>
+          <LinearGradient
+            colors={['rgba(255, 255, 255, 0.1)', 'rgba(255, 255, 255, 0.05)']}
+            style={styles.bookingCardContent}
+          >
+            <View style={styles.bookingHeader}>
+              <View style={styles.bookingInfo}>
+                <Text style={styles.bookingGuestName}>{announcement.title}</Text>
+                <Text style={styles.bookingProperty}>{announcement.audienceLabel}</Text>
+              </View>
+              <View style={[styles.statusBadge, { backgroundColor: `${statusColor}20` }]}>
+                <Text style={[styles.statusText, { color: statusColor }]}>
+                  {announcement.requiresAck
+                    ? `${progress.acknowledged}/${progress.total} ACKNOWLEDGED`
+                    : `${progress.read}/${progress.total} READ`}
+                </Text>
+              </View>
+            </View>
+
+            <View style={styles.bookingDetails}>
+              <View style={styles.detailRow}>
+                <CheckCircle size={16} color={colors.neutral300} />
+                <Text style={styles.detailText}>{progress.read} of {progress.total} have read it</Text>
+              </View>
+              {waitingOn.length > 0 && (
+                <View style={styles.detailRow}>
+                  <Clock size={16} color={colors.neutral300} />
+                  <Text style={styles.detailText}>
+                    Waiting on {waitingOn.slice(0, MAX_OUTSTANDING_NAMES).join(', ')}
+                    {waitingOn.length > MAX_OUTSTANDING_NAMES ? ` and ${waitingOn.length - MAX_OUTSTANDING_NAMES} more` : ''}
+                  </Text>
+                </View>
+              )}
+            </View>
+          </LinearGradient>
+        </BlurView>
+      </View>
+    );
+  };
+
   const styles = StyleSheet.create({
     container: {
       flex: 1,
@@ -461,6 +535,16 @@ export default function AdminDashboardScreen() {
       color: colors.text.primary,
       marginBottom: Spacing[4],
     },
+    sectionHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'baseline',
+    },
+    sectionLink: {
+      ...Typography.sizes.base,
+      fontWeight: '600',
+      color: colors.primary,
+    },
     emptyState: {
       alignItems: 'center',
       justifyContent: 'center',
@@ -644,6 +728,13 @@ export default function AdminDashboardScreen() {
                     icon={DollarSign}
                     color={colors.info || colors.primary}
                   />
+                  <StatCard
+                    title="Awaiting Acknowledgement"
+                    value={awaitingAnnouncements.length}
+                    icon={Megaphone}
+                    color={colors.warning}
+                    onPress={() => setSelectedTab('staff')}
+                  />
                 </View>
               </>
             )}
@@ -665,6 +756,22 @@ export default function AdminDashboardScreen() {
 
             {selectedTab === 'staff' && (
               <View>
+                <View style={styles.sectionHeader}>
+                  <Text style={styles.sectionTitle}>Announcements</Text>
+                  <TouchableOpacity onPress={() => router.push('/(modal)/announcements')}>
+                    <Text style={styles.sectionLink}>Manage</Text>
+                  </TouchableOpacity>
+                </View>
+                {announcements.length === 0 ? (
+                  <View style={styles.emptyState}>
+                    <Text style={styles.emptyStateText}>No announcements sent yet</Text>
+                  </View>
+                ) : (
+                  announcements.map((announcement) => (
+                    <AnnouncementCard key={announcement.id} announcement={announcement} />
+                  ))
+                )}
+
                 <Text style={styles.sectionTitle}>Staff Management</Text>
                 <View style={styles.emptyState}>
                   <Text style={styles.emptyStateText}>
@@ -26,6 +26,10 @@ import { jobService } from '@/services/jobService';
 import { useStaffAuth } from '@/hooks/useStaffAuth';
 import { usePINAuth } from '@/contexts/PINAuthContext';
 import { JobCompletionWizard } from '@/components/jobs/JobCompletionWizard';
+import { issueService } from '@/services/issueService';
+import { jobOfferService } from '@/services/jobOfferService';
+import { can } from '@/utils/permissions';
+import type { Issue } from '@/types/issue';
 import { BrandTheme } from '@/constants/BrandTheme';
 import {
   ArrowLeft,
@@ -42,6 +46,8 @@ import {
   Building,
   FileText,
   Upload,
+  Send,
+  MessageCircle,
 } from 'lucide-react-native';
 
 const { width, height } = Dimensions.get('window');
@@ -95,6 +101,7 @@ export default function JobDetailsScreen() {
   const router = useRouter();
   const { user } = useStaffAuth();
   const { currentProfile } = usePINAuth();
+  const canManageJobs = can(currentProfile?.role, 'jobs', 'approve');
   
   // Safe parameter extraction with error handling
   const params = useSafeLocalSearchParams();
@@ -112,6 +119,7 @@ export default function JobDetailsScreen() {
   const [isUploading, setIsUploading] = useState(false);
   const [showCompletionWizard, setShowCompletionWizard] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
+  const [openIssues, setOpenIssues] = useState<Issue[]>([]);
   
   // Collapsible sections state
   const [expandedSections, setExpandedSections] = useState<{
@@ -143,6 +151,14 @@ export default function JobDetailsScreen() {
     }));
   };
 
+  // Unresolved issues from earlier visits to this property
+  useEffect(() => {
+    if (!job?.propertyId) return;
+    issueService.getOpenIssues(job.propertyId)
+      .then(setOpenIssues)
+      .catch(error => console.error('❌ Error loading open issues:', error));
+  }, [job?.propertyId]);
+
   // Auto-refresh when screen comes into focus
   useFocusEffect(
     React.useCallback(() => {
@@ -235,7 +251,10 @@ export default function JobDetailsScreen() {
           jobData.assignedStaffId === (currentProfile as any)?.userId || // Firebase UID in assignedStaffId
           jobData.assignedStaffDocId === (currentProfile as any)?.userId; // Firebase UID in assignedStaffDocId
         
-        if (isAssignedToUser || isUnassignedOperationalJob) {
+        // Broadcast offers are open to every staff member in the pool
+        const isOfferedToUser = (jobData.offerStaffIds || []).includes(user.id);
+
+        if (isAssignedToUser || isUnassignedOperationalJob || isOfferedToUser || canManageJobs) {
           // Convert Firestore Timestamps to JavaScript Dates
           const processedJobData = {
             ...jobData,
@@ -397,6 +416,18 @@ export default function JobDetailsScreen() {
     }
   };
 
+  const handleOfferJob = async () => {
+    if (!job || !currentProfile) return;
+
+    const response = await jobOfferService.offerJob(job.id, currentProfile.id);
+    if (response.success) {
+      Alert.alert('Job Offered', response.message || 'Job offered to staff');
+      loadJobDetails();
+    } else {
+      Alert.alert('Error', response.error || 'Failed to offer job');
+    }
+  };
+
   const handleStartJob = async () => {
     if (!job || !user?.id) return;
 
@@ -413,6 +444,36 @@ export default function JobDetailsScreen() {
     }
   };
 
+  const handleReportIssue = () => {
+    if (!job) return;
+    router.push({
+      pathname: '/(modal)/report-issue',
+      params: {
+        jobId: job.id,
+        propertyId: job.propertyId,
+        ...(job.propertyName && { propertyName: job.propertyName }),
+        ...(job.bookingRef && { bookingRef: job.bookingRef }),
+        ...(job.guestName && { guestName: job.guestName }),
+      },
+    });
+  };
+
+  const handleOpenChat = () => {
+    if (!job) return;
+    const isAssignee = !!currentProfile && job.assignedTo === currentProfile.id;
+    router.push({
+      pathname: '/(modal)/job-thread',
+      params: {
+        jobId: job.id,
+        jobTitle: job.title,
+        ...(job.propertyName && { propertyName: job.propertyName }),
+        ...(job.assignedTo && { assignedStaffId: job.assignedTo }),
+        ...(isAssignee && { assignedStaffName: currentProfile.name }),
+        ...(job.assignedBy && { dispatcherId: job.assignedBy }),
+      },
+    });
+  };
+
   const handleCompleteJob = async () => {
     if (!job || !user?.id) return;
 
@@ -420,12 +481,13 @@ export default function JobDetailsScreen() {
     setShowCompletionWizard(true);
   };
 
-  const handleWizardJobCompleted = async (updatedJob: Job, completionData: any) => {
+  const handleWizardJobCompleted = async (updatedJob: Job, completionData: any): Promise<boolean> => {
     try {
       console.log('🏁 Handling job completion from wizard:', updatedJob.id);
       
       // Upload photos to Firebase Storage if any
       const uploadedPhotoUrls: string[] = [];
+      const photoUrlsByRequirement: Record<string, string[]> = {};
       if (completionData.uploadedPhotos && completionData.uploadedPhotos.length > 0) {
         console.log('📸 Uploading completion photos:', completionData.uploadedPhotos.length);
         
@@ -447,6 +509,12 @@ export default function JobDetailsScreen() {
             
             if (response.success && response.photo?.url) {
               uploadedPhotoUrls.push(response.photo.url);
+              if (photo.requirementId) {
+                photoUrlsByRequirement[photo.requirementId] = [
+                  ...(photoUrlsByRequirement[photo.requirementId] || []),
+                  response.photo.url,
+                ];
+              }
               console.log(`✅ Photo ${index + 1} uploaded successfully:`, response.photo.url);
             } else {
               console.warn(`⚠️ Photo ${index + 1} upload failed:`, response.error);
@@ -479,6 +547,14 @@ export default function JobDetailsScreen() {
           notes: req.notes || '',
         })),
         actualCost: completionData.actualCost || null,
+        // Lets the manager review photos per requirement
+        photoRequirements: (completionData.photosSummary || []).map((photo: any) => ({
+          id: photo.id,
+          type: photo.type,
+          description: photo.description,
+          isCompleted: photo.isCompleted,
+          photoUrls: photoUrlsByRequirement[photo.id] || [],
+        })),
       };
 
       console.log('📝 Submitting job completion request:', completeJobRequest);
@@ -505,14 +581,16 @@ export default function JobDetailsScreen() {
             }
           ]
         );
-      } else {
-        console.error('❌ Job completion failed:', response.error);
-        Alert.alert(
-          'Error', 
-          `Failed to complete job: ${response.error}. Please try again.`,
-          [{ text: 'OK', style: 'default' }]
-        );
+        return true;
       }
+
+      console.error('❌ Job completion failed:', response.error);
+      Alert.alert(
+        'Error', 
+        `Failed to complete job: ${response.error}. Please try again.`,
+        [{ text: 'OK', style: 'default' }]
+      );
+      return false;
     } catch (error) {
       console.error('❌ Error completing job:', error);
       Alert.alert(
@@ -520,6 +598,7 @@ export default function JobDetailsScreen() {
         'Failed to complete job. Please check your connection and try again.',
         [{ text: 'OK', style: 'default' }]
       );
+      return false;
     }
   };
 
@@ -686,6 +765,16 @@ export default function JobDetailsScreen() {
     );
   }
 
+  const issuesToCheck = [
+    ...openIssues.map(issue => ({
+      severity: issue.severity,
+      status: issue.status === 'triaged' ? 'Repair scheduled' : 'Open',
+      description: `${issue.title} - ${issue.location}`,
+      reportedBy: issue.reportedByName,
+    })),
+    ...(job.issuesReported || []),
+  ];
+
   return (
     <SafeAreaView style={styles.container}>
       {/* Header */}
@@ -760,6 +849,26 @@ export default function JobDetailsScreen() {
           </View>
         )}
 
+        {/* Rework requested by a manager */}
+        {job.reworkItems && job.reworkItems.length > 0 && (job.status === 'accepted' || job.status === 'in_progress') && (
+          <View style={styles.card}>
+            <View style={styles.cardGradient}>
+              <View style={styles.accessSection}>
+                <View style={styles.sectionHeader}>
+                  <AlertTriangle size={20} color={BrandTheme.colors.ERROR} />
+                  <Text style={styles.sectionTitle}>Rework Needed</Text>
+                </View>
+                {job.reworkItems.map(item => (
+                  <Text key={item.id} style={styles.accessText}>• {item.description}</Text>
+                ))}
+                {job.reviewNotes && (
+                  <Text style={styles.reworkNotes}>{job.reviewNotes}</Text>
+                )}
+              </View>
+            </View>
+          </View>
+        )}
+
         {/* Access Instructions - CRITICAL */}
         {job.accessInstructions && (
           <View style={styles.card}>
@@ -1033,18 +1142,18 @@ export default function JobDetailsScreen() {
         )}
 
         {/* Issues to Check - Collapsible */}
-        {(job as any).issuesReported && (job as any).issuesReported.length > 0 && (
+        {issuesToCheck.length > 0 && (
           <CollapsibleCard
             title="Issues to Check"
             icon={<AlertTriangle size={20} color={BrandTheme.colors.WARNING} />}
             sectionKey="issues"
-            badge={`${(job as any).issuesReported.length}`}
+            badge={`${issuesToCheck.length}`}
           >
-            {(job as any).issuesReported.map((issue: any, index: number) => (
+            {issuesToCheck.map((issue, index) => (
               <View key={index} style={styles.issueItem}>
                 <View style={styles.issueHeader}>
                   <View style={[styles.severityBadge, { 
-                    backgroundColor: issue.severity === 'high' ? '#ff4444' : 
+                    backgroundColor: issue.severity === 'high' || issue.severity === 'critical' ? '#ff4444' : 
                                     issue.severity === 'medium' ? '#ff9800' : '#ffc107'
                   }]}>
                     <Text style={styles.severityText}>
@@ -1148,16 +1257,16 @@ export default function JobDetailsScreen() {
         )}
 
         {/* Guest Information - Collapsible */}
-        {((job as any).guestName || (job as any).guestContact || (job as any).guestNationality) && (
+        {(job.guestName || (job as any).guestContact || (job as any).guestNationality) && (
           <CollapsibleCard
             title="Guest Information"
             icon={<User size={20} color={BrandTheme.colors.YELLOW} />}
             sectionKey="guestInfo"
           >
-            {(job as any).guestName && (
+            {job.guestName && (
               <View style={styles.detailRow}>
                 <Text style={styles.detailLabel}>Name:</Text>
-                <Text style={styles.detailValue}>{(job as any).guestName}</Text>
+                <Text style={styles.detailValue}>{job.guestName}</Text>
               </View>
             )}
             {(job as any).guestCount && (
@@ -1254,10 +1363,35 @@ export default function JobDetailsScreen() {
         )}
         {/* Action Buttons */}
         <View style={styles.actionsContainer}>
-          {(job.status === 'pending' || job.status === 'assigned') && (
+          {(job.status === 'pending' || job.status === 'assigned' || job.status === 'offered') && (
             <FlashingAcceptButton />
           )}
 
+          {canManageJobs && job.startedAt && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => router.push({ pathname: '/(modal)/site-timeline', params: { jobId: job.id } })}
+            >
+              <View
+                style={[styles.actionButtonGradient, { backgroundColor: BrandTheme.colors.SURFACE_2 }]}
+              >
+                <MapPin size={20} color={BrandTheme.colors.INFO} />
+                <Text style={styles.actionButtonText}>Site Timeline</Text>
+              </View>
+            </TouchableOpacity>
+          )}
+
+          {canManageJobs && (job.status === 'pending' || job.status === 'rejected') && (
+            <TouchableOpacity style={styles.actionButton} onPress={handleOfferJob}>
+              <View
+                style={[styles.actionButtonGradient, { backgroundColor: BrandTheme.colors.YELLOW }]}
+              >
+                <Send size={20} color={BrandTheme.colors.BLACK} />
+                <Text style={[styles.actionButtonText, { color: BrandTheme.colors.BLACK }]}>Offer to Staff</Text>
+              </View>
+            </TouchableOpacity>
+          )}
+
           {job.status === 'accepted' && (
             <TouchableOpacity style={styles.actionButton} onPress={handleStartJob}>
               <View
@@ -1269,6 +1403,26 @@ export default function JobDetailsScreen() {
             </TouchableOpacity>
           )}
 
+          {(job.status === 'accepted' || job.status === 'in_progress') && (
+            <TouchableOpacity style={styles.actionButton} onPress={handleReportIssue}>
+              <View
+                style={[styles.actionButtonGradient, { backgroundColor: BrandTheme.colors.SURFACE_2 }]}
+              >
+                <AlertTriangle size={20} color={BrandTheme.colors.WARNING} />
+                <Text style={styles.actionButtonText}>Report Issue</Text>
+              </View>
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity style={styles.actionButton} onPress={handleOpenChat}>
+            <View
+              style={[styles.actionButtonGradient, { backgroundColor: BrandTheme.colors.SURFACE_2 }]}
+            >
+              <MessageCircle size={20} color={BrandTheme.colors.TEXT_PRIMARY} />
+              <Text style={styles.actionButtonText}>Team Chat</Text>
+            </View>
+          </TouchableOpacity>
+
           {job.status === 'in_progress' && (
             <TouchableOpacity style={styles.actionButton} onPress={handleCompleteJob}>
               <View
@@ -1581,6 +1735,12 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     fontFamily: BrandTheme.typography.fontFamily.regular,
   },
+  reworkNotes: {
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: BrandTheme.spacing.SM,
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+  },
   // Booking Details
   bookingSection: {
     marginTop: BrandTheme.spacing.SM,
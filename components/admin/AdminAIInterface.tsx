@@ -15,6 +15,8 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import useAuth from '@/hooks/useAuth';
 import { aiBackgroundService } from '@/services/aiBackgroundService';
+import { aiLoggingService } from '@/services/aiLoggingService';
+import type { AIValidationStats } from '@/services/aiLoggingService';
 
 interface AIInsight {
   id?: string;
@@ -29,6 +31,7 @@ interface AIInsight {
 export default function AdminAIInterface() {
   const { user } = useAuth();
   const [insights, setInsights] = useState<AIInsight[]>([]);
+  const [validationStats, setValidationStats] = useState<AIValidationStats[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isMonitoring, setIsMonitoring] = useState(false);
 
@@ -43,8 +46,12 @@ export default function AdminAIInterface() {
     
     setIsLoading(true);
     try {
-      const data = await aiBackgroundService.getInsights(user.id);
+      const [data, stats] = await Promise.all([
+        aiBackgroundService.getInsights(user.id),
+        aiLoggingService.getValidationStats(7),
+      ]);
       setInsights(data);
+      setValidationStats(stats);
     } catch (error) {
       console.error('Error loading AI insights:', error);
       Alert.alert('Error', 'Failed to load AI insights');
@@ -146,6 +153,42 @@ export default function AdminAIInterface() {
         </TouchableOpacity>
       </View>
 
+      {/* Structured answers checked against their schemas */}
+      {validationStats.length > 0 && (
+        <View className="mx-4 mb-4">
+          <Text className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+            AI Answer Quality (7 days)
+          </Text>
+          {validationStats.map(stat => (
+            <View
+              key={`${stat.feature}:${stat.schema}`}
+              className="bg-white dark:bg-gray-800 p-4 rounded-lg border border-gray-200 dark:border-gray-700 mb-3"
+            >
+              <View className="flex-row items-center justify-between">
+                <Text className="font-semibold text-gray-900 dark:text-white">
+                  {stat.feature.replace(/_/g, ' ')}
+                </Text>
+                <Text className={`font-medium ${
+                  stat.failureRate > 0.25 ? 'text-red-500' :
+                  stat.failureRate > 0.1 ? 'text-yellow-500' :
+                  'text-green-500'
+                }`}>
+                  {Math.round(stat.failureRate * 100)}% failed first check
+                </Text>
+              </View>
+              <Text className="text-gray-600 dark:text-gray-400 mt-1 text-sm">
+                {stat.total} answers · {stat.counts.repaired} repaired · {stat.counts.retried} retried · {stat.counts.fallback} offline fallback · {stat.counts.invalid} unusable
+              </Text>
+              {stat.lastErrors.length > 0 && (
+                <Text className="text-gray-500 dark:text-gray-500 mt-1 text-xs">
+                  Latest: {stat.lastErrors.join('; ')}
+                </Text>
+              )}
+            </View>
+          ))}
+        </View>
+      )}
+
       {/* AI Insights */}
       <View className="mx-4 mb-6">
         <Text className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
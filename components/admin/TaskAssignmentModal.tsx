@@ -19,10 +19,15 @@ import {
   AlertCircle,
   CheckCircle2,
   Users,
+  Sparkles,
 } from 'lucide-react-native';
 import { useDesignTokens } from '@/constants/Design';
 import { Booking, Staff, Task } from '@/types/admin';
+import { StaffRecommendation } from '@/types/jobAssignment';
 import { AdminService } from '@/services/adminService';
+import { StaffRecommendationEngine } from '@/utils/staffRecommendation';
+
+const TOP_CANDIDATE_COUNT = 3;
 
 interface TaskAssignmentModalProps {
   visible: boolean;
@@ -47,6 +52,8 @@ export default function TaskAssignmentModal({
   const [estimatedDuration, setEstimatedDuration] = useState('120');
   const [notes, setNotes] = useState('');
   const [loading, setLoading] = useState(false);
+  const [recommendations, setRecommendations] = useState<StaffRecommendation[]>([]);
+  const [loadingRecommendations, setLoadingRecommendations] = useState(false);
 
   const { Colors, Typography, Spacing, BorderRadius, Shadows, colors } = useDesignTokens();
 
@@ -57,6 +64,43 @@ export default function TaskAssignmentModal({
     }
   }, [visible]);
 
+  useEffect(() => {
+    if (visible && booking && staff.length > 0) {
+      loadRecommendations();
+    }
+  }, [visible, booking, staff, taskType, priority, dueDate]);
+
+  const loadRecommendations = async () => {
+    if (!booking) return;
+
+    setLoadingRecommendations(true);
+    try {
+      const ranked = await StaffRecommendationEngine.recommendStaff(
+        {
+          propertyId: booking.propertyId,
+          bookingId: booking.id,
+          title: taskTitle,
+          description: taskDescription,
+          type: taskType === 'concierge' ? 'other' : taskType,
+          priority,
+          estimatedDuration: parseInt(estimatedDuration) || 120,
+          scheduledFor: dueDate,
+          requirements: [],
+          requiredSkills: [taskType],
+          location: { address: '', city: '', state: '', zipCode: '' },
+          assignedBy: '',
+        },
+        { candidates: staff, limit: TOP_CANDIDATE_COUNT }
+      );
+      setRecommendations(ranked);
+    } catch (error) {
+      console.error('Error loading staff recommendations:', error);
+      setRecommendations([]);
+    } finally {
+      setLoadingRecommendations(false);
+    }
+  };
+
   const loadStaff = async () => {
     try {
       const staffData = await AdminService.getStaff();
@@ -215,6 +259,42 @@ export default function TaskAssignmentModal({
     checkIcon: {
       marginLeft: Spacing[2],
     },
+    recommendationItem: {
+      padding: Spacing[3],
+      backgroundColor: 'rgba(255, 255, 255, 0.05)',
+      borderRadius: BorderRadius.md,
+      borderWidth: 1,
+      borderColor: 'rgba(255, 255, 255, 0.1)',
+    },
+    recommendationHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    recommendationScore: {
+      ...Typography.sizes.lg,
+      fontWeight: '700',
+      color: colors.primary,
+      marginLeft: Spacing[2],
+    },
+    reasonList: {
+      marginTop: Spacing[2],
+      gap: Spacing[1],
+    },
+    reasonRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      gap: Spacing[2],
+    },
+    reasonText: {
+      ...Typography.sizes.sm,
+      color: colors.neutral300,
+      flex: 1,
+    },
+    reasonPoints: {
+      ...Typography.sizes.sm,
+      color: colors.neutral300,
+      fontWeight: '600',
+    },
     typeSelector: {
       flexDirection: 'row',
       gap: Spacing[2],
@@ -344,6 +424,52 @@ export default function TaskAssignmentModal({
                 </View>
               </View>
 
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Recommended Staff</Text>
+                {loadingRecommendations ? (
+                  <Text style={styles.reasonText}>Ranking staff...</Text>
+                ) : recommendations.length === 0 ? (
+                  <Text style={styles.reasonText}>No recommendations available</Text>
+                ) : (
+                  <View style={styles.staffList}>
+                    {recommendations.map((candidate) => (
+                      <TouchableOpacity
+                        key={candidate.staffId}
+                        style={[
+                          styles.recommendationItem,
+                          selectedStaff.includes(candidate.staffId) && styles.staffItemSelected,
+                        ]}
+                        onPress={() => toggleStaffSelection(candidate.staffId)}
+                      >
+                        <View style={styles.recommendationHeader}>
+                          <Sparkles size={20} color={colors.primary} />
+                          <View style={styles.staffInfo}>
+                            <Text style={styles.staffName}>{candidate.staffName}</Text>
+                            <Text style={styles.staffRole}>{candidate.role}</Text>
+                          </View>
+                          <Text style={styles.recommendationScore}>{candidate.score}</Text>
+                          {selectedStaff.includes(candidate.staffId) && (
+                            <CheckCircle2 size={20} color={colors.primary} style={styles.checkIcon} />
+                          )}
+                        </View>
+                        <View style={styles.reasonList}>
+                          {candidate.factors.map((factor) => (
+                            <View key={factor.key} style={styles.reasonRow}>
+                              <Text style={styles.reasonText}>
+                                {factor.label}: {factor.reason}
+                              </Text>
+                              <Text style={styles.reasonPoints}>
+                                {factor.points}/{factor.weight}
+                              </Text>
+                            </View>
+                          ))}
+                        </View>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+              </View>
+
               <View style={styles.section}>
                 <Text style={styles.sectionTitle}>Assign to Staff</Text>
                 <View style={styles.staffList}>
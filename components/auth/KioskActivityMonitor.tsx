@@ -0,0 +1,67 @@
+/**
+ * Kiosk Activity Monitor
+ * Locks a shared device after a period without touches while kiosk mode is on
+ */
+
+import React, { ReactNode, useEffect, useRef } from 'react';
+import { AppState, View, StyleSheet } from 'react-native';
+import { usePINAuth } from '@/contexts/PINAuthContext';
+import { shouldAutoLock } from '@/utils/kioskSession';
+
+const CHECK_INTERVAL_MS = 15 * 1000;
+
+interface KioskActivityMonitorProps {
+  children: ReactNode;
+}
+
+export const KioskActivityMonitor: React.FC<KioskActivityMonitorProps> = ({ children }) => {
+  const { kioskSettings, isAuthenticated, lockSession } = usePINAuth();
+  const lastActivityRef = useRef(Date.now());
+  const lockSessionRef = useRef(lockSession);
+  lockSessionRef.current = lockSession;
+
+  const isMonitoring = kioskSettings.enabled && isAuthenticated;
+
+  useEffect(() => {
+    if (!isMonitoring) return;
+
+    lastActivityRef.current = Date.now();
+    const checkInactivity = () => {
+      if (shouldAutoLock(lastActivityRef.current, Date.now(), kioskSettings)) {
+        console.log('🔒 KioskActivityMonitor: Inactive, locking device');
+        lockSessionRef.current('auto_lock');
+      }
+    };
+
+    const interval = setInterval(checkInactivity, CHECK_INTERVAL_MS);
+    // Timers pause in the background, so check again on return
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') checkInactivity();
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [isMonitoring, kioskSettings]);
+
+  return (
+    <View
+      style={styles.container}
+      onStartShouldSetResponderCapture={() => {
+        lastActivityRef.current = Date.now();
+        return false;
+      }}
+    >
+      {children}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
+
+export default KioskActivityMonitor;
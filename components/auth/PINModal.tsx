@@ -23,9 +23,9 @@ import {
   StaffProfile, 
   validateStaffPIN, 
   saveSelectedStaffId,
-  checkPINAttempts,
-  recordPINAttempt
+  checkPINAttempts
 } from '@/services/staffProfileService';
+import { FREE_PIN_ATTEMPTS } from '@/utils/pinSecurity';
 
 interface PINEntryModalProps {
   visible: boolean;
@@ -44,7 +44,7 @@ export const PINEntryModal: React.FC<PINEntryModalProps> = ({
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [rememberMe, setRememberMe] = useState(false);
-  const [attemptsLeft, setAttemptsLeft] = useState(5);
+  const [attemptsLeft, setAttemptsLeft] = useState(FREE_PIN_ATTEMPTS);
   const [isLockedOut, setIsLockedOut] = useState(false);
   const [lockoutTime, setLockoutTime] = useState<number | null>(null);
   
@@ -95,7 +95,6 @@ export const PINEntryModal: React.FC<PINEntryModalProps> = ({
       const result = await validateStaffPIN(staffProfile.id, pin);
       
       if (result.isValid && result.staffProfile) {
-        await recordPINAttempt(staffProfile.id, true);
         await saveSelectedStaffId(staffProfile.id, rememberMe);
         
         if (animationRef.current) {
@@ -110,7 +109,6 @@ export const PINEntryModal: React.FC<PINEntryModalProps> = ({
           onSuccess(result.staffProfile);
         }, 500);
       } else {
-        await recordPINAttempt(staffProfile.id, false);
         await checkAttempts();
         
         setError(result.error || 'Incorrect PIN');
@@ -293,6 +293,17 @@ export default function EmbeddedJobChat({
                     )}
                   </View>
                 )}
+
+                {message.metadata?.citations && message.metadata.citations.length > 0 && (
+                  <View style={styles.contextInfo}>
+                    <Text style={styles.contextText}>Sources:</Text>
+                    {message.metadata.citations.map((citation, index) => (
+                      <Text key={citation.entryId} style={styles.contextText}>
+                        [{index + 1}] {citation.title}{citation.location ? ` · ${citation.location}` : ''}
+                      </Text>
+                    ))}
+                  </View>
+                )}
               </View>
             </View>
           ))
@@ -20,6 +20,7 @@ import * as Location from 'expo-location';
 
 import { Job } from '@/types/job';
 import { usePINAuth } from '@/contexts/PINAuthContext';
+import { jobService } from '@/services/jobService';
 import { jobSessionAuditService } from '@/services/jobSessionAuditService';
 
 interface JobCompletionModalProps {
@@ -92,20 +93,27 @@ export const JobCompletionModal: React.FC<JobCompletionModalProps> = ({
         status: 'completed',
       };
 
-      // Step 4: Update job status and session in Firestore
+      // Step 4: Complete the job through the state machine (moves it to
+      // completed_jobs), then close the job session
+      const actualDuration = job.startedAt
+        ? Math.round((endTime.getTime() - new Date(job.startedAt).getTime()) / (1000 * 60))
+        : job.estimatedDuration || 0;
+      const response = await jobService.completeJob({
+        jobId: job.id,
+        staffId: currentProfile.id,
+        completedAt: endTime,
+        actualDuration,
+        completionNotes: completionNotes.trim(),
+        photos: [],
+        requirements: [],
+      });
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to complete job');
+      }
+
       const { getDb } = await import('@/lib/firebase');
       const { doc, updateDoc, serverTimestamp } = await import('firebase/firestore');
-      
       const db = await getDb();
-      
-      // Update job status
-      const jobRef = doc(db, 'jobs', job.id);
-      await updateDoc(jobRef, {
-        status: 'completed',
-        completedAt: serverTimestamp(),
-        completionNotes: completionNotes.trim(),
-        updatedAt: serverTimestamp(),
-      });
 
       // Update job session
       const sessionRef = doc(db, 'job_sessions', job.id);
@@ -150,7 +158,7 @@ export const JobCompletionModal: React.FC<JobCompletionModalProps> = ({
       console.error('Error completing job:', error);
       Alert.alert(
         'Error',
-        'Failed to complete job. Please try again.',
+        error instanceof Error ? error.message : 'Failed to complete job. Please try again.',
         [{ text: 'OK', style: 'default' }]
       );
     } finally {
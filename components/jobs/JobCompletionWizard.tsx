@@ -24,6 +24,8 @@ import * as ImagePicker from 'expo-image-picker';
 import { Job } from '@/types/job';
 import { usePINAuth } from '@/contexts/PINAuthContext';
 import { jobSessionAuditService } from '@/services/jobSessionAuditService';
+import { inventoryService } from '@/services/inventoryService';
+import type { InventoryUsageEntry, PropertyStockLevel } from '@/types/inventory';
 import { BrandTheme } from '@/constants/BrandTheme';
 
 const { width: screenWidth } = Dimensions.get('window');
@@ -32,7 +34,8 @@ interface JobCompletionWizardProps {
   job: Job | null;
   visible: boolean;
   onDismiss: () => void;
-  onJobCompleted: (job: Job, completionData: JobCompletionData) => void;
+  // Resolves true once the job is saved as completed
+  onJobCompleted: (job: Job, completionData: JobCompletionData) => Promise<boolean>;
 }
 
 interface JobCompletionData {
@@ -67,13 +70,16 @@ interface JobCompletionData {
     uri: string;
     type: string;
     description: string;
+    requirementId?: string; // photo check the photo was taken for
   }>;
+  suppliesSummary?: InventoryUsageEntry[];
 }
 
 const WIZARD_STEPS = [
   { id: 'requirements', title: 'Requirements Check', icon: 'checkbox-outline' },
   { id: 'photos', title: 'Photo Documentation', icon: 'camera-outline' },
   { id: 'quality', title: 'Quality Review', icon: 'star-outline' },
+  { id: 'supplies', title: 'Supplies Used', icon: 'cube-outline' },
   { id: 'notes', title: 'Final Notes', icon: 'document-text-outline' },
   { id: 'confirm', title: 'Confirmation', icon: 'checkmark-circle-outline' },
 ];
@@ -107,6 +113,7 @@ export const JobCompletionWizard: React.FC<JobCompletionWizardProps> = ({
     uri: string;
     type: string;
     description: string;
+    requirementId?: string;
   }>>([]);
   const [qualityNotes, setQualityNotes] = useState('');
   const [qualityChecklist, setQualityChecklist] = useState([
@@ -118,6 +125,9 @@ export const JobCompletionWizard: React.FC<JobCompletionWizardProps> = ({
     { id: 'properFunctioning', text: 'All systems functioning properly', isChecked: false, required: false },
   ]);
   const [finalNotes, setFinalNotes] = useState('');
+  const [stockLevels, setStockLevels] = useState<PropertyStockLevel[]>([]);
+  const [expectedUsage, setExpectedUsage] = useState<Record<string, number>>({});
+  const [supplyInputs, setSupplyInputs] = useState<Record<string, { used: string; remaining: string }>>({});
 
   useEffect(() => {
     if (job && visible) {
@@ -159,7 +169,43 @@ export const JobCompletionWizard: React.FC<JobCompletionWizardProps> = ({
     setQualityNotes('');
     setQualityChecklist(prev => prev.map(item => ({ ...item, isChecked: false })));
     setFinalNotes('');
+    setSupplyInputs({});
     setCurrentStep(0);
+    loadPropertyStock();
+  };
+
+  const loadPropertyStock = async () => {
+    if (!job?.propertyId) return;
+
+    try {
+      const [stock, expected] = await Promise.all([
+        inventoryService.getPropertyStock(job.propertyId),
+        inventoryService.getExpectedConsumption(job.type, job.propertyId),
+      ]);
+      setStockLevels(stock);
+      setExpectedUsage(expected);
+    } catch (error) {
+      console.warn('Could not load property stock:', error);
+      setStockLevels([]);
+      setExpectedUsage({});
+    }
+  };
+
+  const updateSupplyInput = (itemId: string, field: 'used' | 'remaining', value: string) => {
+    setSupplyInputs(prev => ({
+      ...prev,
+      [itemId]: { ...(prev[itemId] || { used: '', remaining: '' }), [field]: value.replace(/[^0-9]/g, '') },
+    }));
+  };
+
+  const getSupplyUsage = (): InventoryUsageEntry[] => {
+    return Object.entries(supplyInputs)
+      .filter(([, input]) => input.used !== '' || input.remaining !== '')
+      .map(([itemId, input]) => ({
+        itemId,
+        ...(input.used !== '' && { used: parseInt(input.used, 10) }),
+        ...(input.remaining !== '' && { remaining: parseInt(input.remaining, 10) }),
+      }));
   };
 
   const toggleQualityChecklistItem = (itemId: string) => {
@@ -201,6 +247,14 @@ export const JobCompletionWizard: React.FC<JobCompletionWizardProps> = ({
           completedCount: completedRequiredItems.length,
           totalCount: requiredQualityItems.length,
         };
+      case 'supplies':
+        return {
+          title: 'Supplies Used',
+          subtitle: 'Report what you used or what is left in the store room',
+          canProceed: true, // Expected usage is deducted when nothing is entered
+          completedCount: getSupplyUsage().length,
+          totalCount: stockLevels.length,
+        };
       case 'notes':
         return {
           title: 'Final Notes',
@@ -309,14 +363,14 @@ export const JobCompletionWizard: React.FC<JobCompletionWizardProps> = ({
       'Add Photos',
       'Choose how to add photos:',
       [
-        { text: 'Camera', onPress: takePhoto },
+        { text: 'Camera', onPress: () => takePhoto() },
         { text: 'Photo Library', onPress: pickFromLibrary },
         { text: 'Cancel', style: 'cancel' }
       ]
     );
   };
 
-  const takePhoto = async () => {
+  const takePhoto = async (requirementId?: string) => {
     const hasPermission = await requestCameraPermissions();
     if (!hasPermission) return;
 
@@ -329,7 +383,7 @@ export const JobCompletionWizard: React.FC<JobCompletionWizardProps> = ({
       });
 
       if (!result.canceled && result.assets[0]) {
-        addPhotoToCollection(result.assets[0].uri);
+        addPhotoToCollection(result.assets[0].uri, requirementId);
       }
     } catch (error) {
       console.error('Error taking photo:', error);
@@ -360,15 +414,22 @@ export const JobCompletionWizard: React.FC<JobCompletionWizardProps> = ({
     }
   };
 
-  const addPhotoToCollection = (uri: string) => {
+  const addPhotoToCollection = (uri: string, requirementId?: string) => {
+    const requirement = requirementId ? photoChecks.find(photo => photo.id === requirementId) : undefined;
     const newPhoto = {
       id: `photo_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       uri,
       type: 'completion',
-      description: 'Job completion photo',
+      description: requirement?.description || 'Job completion photo',
+      ...(requirement && { requirementId: requirement.id }),
     };
 
     setUploadedPhotos(prev => [...prev, newPhoto]);
+    if (requirement) {
+      setPhotoChecks(prev => prev.map(photo =>
+        photo.id === requirement.id ? { ...photo, isCompleted: true } : photo
+      ));
+    }
   };
 
   const removePhoto = (photoId: string) => {
@@ -455,6 +516,7 @@ export const JobCompletionWizard: React.FC<JobCompletionWizardProps> = ({
           notes: `Quality checklist completed. Items checked: ${qualityChecklist.filter(item => item.isChecked).map(item => item.text).join(', ')}${qualityNotes.trim() ? `. Additional notes: ${qualityNotes}` : ''}`,
         },
         uploadedPhotos: uploadedPhotos, // Add uploaded photos to completion data
+        suppliesSummary: getSupplyUsage(),
       };
 
       // Step 4: Log completion data for audit
@@ -480,22 +542,43 @@ export const JobCompletionWizard: React.FC<JobCompletionWizardProps> = ({
         })),
       });
 
-      // Step 5: Call parent callback with updated job
+      // Step 5: Call parent callback with updated job; it reports failures itself
       const updatedJob = { 
         ...job, 
         status: 'completed' as const,
         completionNotes: finalNotes.trim(),
         completedAt: endTime,
       };
-      onJobCompleted(updatedJob, completionData);
-      
+      const completed = await onJobCompleted(updatedJob, completionData);
+      if (!completed) return;
+
+      // Step 6: Deduct supplies from the property's store room, once per job
+      let restockMessage = '';
+      if (job.propertyId && stockLevels.length > 0) {
+        try {
+          const inventoryResult = await inventoryService.applyJobCompletion({
+            jobId: job.id,
+            jobType: job.type,
+            propertyId: job.propertyId,
+            staffId: currentProfile.id,
+            usage: completionData.suppliesSummary || [],
+          });
+          if (inventoryResult.belowPar.length > 0) {
+            restockMessage = `\n\nRestock requested for ${inventoryResult.belowPar.map(level => level.itemName).join(', ')}.`;
+          }
+        } catch (inventoryError) {
+          // Stock can be recounted later; never block completing the job
+          console.warn('Could not update property stock:', inventoryError);
+        }
+      }
+
       // Close modal
       onDismiss();
 
       // Show success feedback
       Alert.alert(
         '🎉 Job Completed!',
-        `${job.title} has been marked as completed successfully.`,
+        `${job.title} has been marked as completed successfully.${restockMessage}`,
         [{ text: 'Great!', style: 'default' }]
       );
 
@@ -637,11 +720,13 @@ export const JobCompletionWizard: React.FC<JobCompletionWizardProps> = ({
                 {photo.type.charAt(0).toUpperCase() + photo.type.slice(1)} Photo
               </Text>
             </View>
-            <Ionicons 
-              name="camera" 
-              size={20} 
-              color={photo.isCompleted ? '#10B981' : '#6B7280'} 
-            />
+            <TouchableOpacity onPress={() => takePhoto(photo.id)}>
+              <Ionicons 
+                name="camera" 
+                size={20} 
+                color={photo.isCompleted ? '#10B981' : '#6B7280'} 
+              />
+            </TouchableOpacity>
           </TouchableOpacity>
         ))}
 
@@ -676,7 +761,7 @@ export const JobCompletionWizard: React.FC<JobCompletionWizardProps> = ({
                 [
                   {
                     text: 'Camera',
-                    onPress: takePhoto,
+                    onPress: () => takePhoto(),
                   },
                   {
                     text: 'Photo Library',
@@ -778,6 +863,66 @@ export const JobCompletionWizard: React.FC<JobCompletionWizardProps> = ({
     );
   };
 
+  const renderSuppliesStep = () => {
+    return (
+      <ScrollView style={styles.stepContent}>
+        <Text style={styles.stepDescription}>
+          Enter what you used or count what is left. Items left blank are deducted by the usual amount for this job.
+        </Text>
+
+        {stockLevels.map(level => {
+          const input = supplyInputs[level.itemId] || { used: '', remaining: '' };
+          const expected = expectedUsage[level.itemId];
+          return (
+            <View key={level.id} style={styles.supplyItem}>
+              <View style={styles.supplyHeader}>
+                <Text style={styles.supplyName}>{level.itemName}</Text>
+                <Text style={[styles.supplyStock, level.quantity < level.parLevel && styles.supplyStockLow]}>
+                  {level.quantity}/{level.parLevel} {level.unit}
+                </Text>
+              </View>
+              {expected ? (
+                <Text style={styles.supplyHint}>Usually uses {expected} {level.unit} per job</Text>
+              ) : null}
+              <View style={styles.supplyInputs}>
+                <View style={styles.supplyInputGroup}>
+                  <Text style={styles.supplyInputLabel}>Used</Text>
+                  <TextInput
+                    style={styles.supplyInput}
+                    keyboardType="number-pad"
+                    placeholder={expected ? String(expected) : '0'}
+                    placeholderTextColor="#6B7280"
+                    value={input.used}
+                    onChangeText={(text) => updateSupplyInput(level.itemId, 'used', text)}
+                  />
+                </View>
+                <View style={styles.supplyInputGroup}>
+                  <Text style={styles.supplyInputLabel}>Left</Text>
+                  <TextInput
+                    style={styles.supplyInput}
+                    keyboardType="number-pad"
+                    placeholder="-"
+                    placeholderTextColor="#6B7280"
+                    value={input.remaining}
+                    onChangeText={(text) => updateSupplyInput(level.itemId, 'remaining', text)}
+                  />
+                </View>
+              </View>
+            </View>
+          );
+        })}
+
+        {stockLevels.length === 0 && (
+          <View style={styles.emptyState}>
+            <Ionicons name="cube-outline" size={48} color="#6B7280" />
+            <Text style={styles.emptyStateText}>No store room stock tracked</Text>
+            <Text style={styles.emptyStateSubtext}>You can proceed to the next step</Text>
+          </View>
+        )}
+      </ScrollView>
+    );
+  };
+
   const renderNotesStep = () => {
     return (
       <ScrollView style={styles.stepContent}>
@@ -836,6 +981,13 @@ export const JobCompletionWizard: React.FC<JobCompletionWizardProps> = ({
             </Text>
           </View>
           
+          <View style={styles.summaryItem}>
+            <Ionicons name="cube-outline" size={20} color="#10B981" />
+            <Text style={styles.summaryText}>
+              Supplies: {getSupplyUsage().length > 0 ? `${getSupplyUsage().length} item(s) reported` : 'Usual usage'}
+            </Text>
+          </View>
+          
           <View style={styles.summaryItem}>
             <Ionicons name="document-text-outline" size={20} color="#10B981" />
             <Text style={styles.summaryText}>
@@ -864,6 +1016,8 @@ export const JobCompletionWizard: React.FC<JobCompletionWizardProps> = ({
         return renderPhotosStep();
       case 'quality':
         return renderQualityStep();
+      case 'supplies':
+        return renderSuppliesStep();
       case 'notes':
         return renderNotesStep();
       case 'confirm':
@@ -1225,6 +1379,63 @@ const styles = StyleSheet.create({
     textTransform: 'uppercase',
     letterSpacing: 0.5,
   },
+  supplyItem: {
+    backgroundColor: BrandTheme.colors.SURFACE_1,
+    padding: BrandTheme.spacing.LG,
+    marginBottom: BrandTheme.spacing.MD,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER,
+  },
+  supplyHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  supplyName: {
+    flex: 1,
+    fontSize: 16,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+  },
+  supplyStock: {
+    fontSize: 14,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+  },
+  supplyStockLow: {
+    color: BrandTheme.colors.WARNING,
+  },
+  supplyHint: {
+    fontSize: 12,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginTop: 4,
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+  },
+  supplyInputs: {
+    flexDirection: 'row',
+    marginTop: BrandTheme.spacing.MD,
+    gap: BrandTheme.spacing.MD,
+  },
+  supplyInputGroup: {
+    flex: 1,
+  },
+  supplyInputLabel: {
+    fontSize: 11,
+    color: BrandTheme.colors.TEXT_SECONDARY,
+    marginBottom: 4,
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  supplyInput: {
+    backgroundColor: BrandTheme.colors.SURFACE_2,
+    padding: BrandTheme.spacing.MD,
+    color: BrandTheme.colors.TEXT_PRIMARY,
+    fontSize: 16,
+    fontFamily: BrandTheme.typography.fontFamily.regular,
+    borderWidth: 1,
+    borderColor: BrandTheme.colors.BORDER,
+  },
   notesSection: {
     backgroundColor: BrandTheme.colors.SURFACE_1,
     padding: BrandTheme.spacing.LG,
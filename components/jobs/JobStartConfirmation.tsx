@@ -90,17 +90,11 @@ export const JobStartConfirmation: React.FC<JobStartConfirmationProps> = ({
         });
       }
 
-      // Update job status to in_progress using direct Firestore update
-      const { getDb } = await import('@/lib/firebase');
-      const { doc, updateDoc, serverTimestamp } = await import('firebase/firestore');
-      
-      const db = await getDb();
-      const jobRef = doc(db, 'jobs', job.id);
-      await updateDoc(jobRef, {
-        status: 'in_progress',
-        startedAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      });
+      // Move the job to in_progress through the job state machine
+      const startResult = await jobService.startJob(job.id, currentProfile.id);
+      if (!startResult.success) {
+        throw new Error(startResult.error || 'Failed to start job');
+      }
 
       const updatedJob = { ...job, status: 'in_progress' as const };
 
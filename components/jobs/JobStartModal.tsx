@@ -18,6 +18,7 @@ import * as Location from 'expo-location';
 
 import { Job } from '@/types/job';
 import { usePINAuth } from '@/contexts/PINAuthContext';
+import { jobService } from '@/services/jobService';
 import { jobSessionAuditService } from '@/services/jobSessionAuditService';
 
 interface JobStartModalProps {
@@ -87,19 +88,16 @@ export const JobStartModal: React.FC<JobStartModalProps> = ({
         status: 'in_progress',
       };
 
-      // Step 4: Update job status and create session in Firestore
+      // Step 4: Start the job through the state machine, then create the session
+      const startResult = await jobService.startJob(job.id, currentProfile.id);
+      if (!startResult.success) {
+        throw new Error(startResult.error || 'Failed to start job');
+      }
+
       const { getDb } = await import('@/lib/firebase');
-      const { doc, updateDoc, setDoc, serverTimestamp } = await import('firebase/firestore');
+      const { doc, setDoc, serverTimestamp } = await import('firebase/firestore');
       
       const db = await getDb();
-      
-      // Update job status
-      const jobRef = doc(db, 'jobs', job.id);
-      await updateDoc(jobRef, {
-        status: 'in_progress',
-        startedAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      });
 
       // Create job session
       const sessionRef = doc(db, 'job_sessions', job.id);
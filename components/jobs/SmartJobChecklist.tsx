@@ -33,6 +33,7 @@ import {
 import { JobData } from '@/types/jobData';
 import { jobChecklistService, ChecklistItem, JobChecklist } from '@/services/jobChecklistService';
 import { embeddedFOAChatService } from '@/services/embeddedFOAChatService';
+import { jobActionOutboxService } from '@/services/jobActionOutboxService';
 import { usePINAuth } from '@/contexts/PINAuthContext';
 
 interface SmartJobChecklistProps {
@@ -118,11 +119,12 @@ export default function SmartJobChecklist({
         useNativeDriver: false,
       }).start();
 
-      await jobChecklistService.updateChecklistItem(
-        job.id,
-        item.id,
-        { completed: !item.completed }
-      );
+      // Queued durably so ticks made without signal are not lost
+      await jobActionOutboxService.enqueue(job.id, currentProfile.id, {
+        type: 'checklist_tick',
+        itemId: item.id,
+        completed: !item.completed,
+      });
 
       onItemComplete?.(item);
       
@@ -158,11 +160,11 @@ export default function SmartJobChecklist({
     if (!selectedItem || !currentProfile) return;
 
     try {
-      await jobChecklistService.updateChecklistItem(
-        job.id,
-        selectedItem.id,
-        { notes: noteText.trim() || undefined }
-      );
+      await jobActionOutboxService.enqueue(job.id, currentProfile.id, {
+        type: 'checklist_tick',
+        itemId: selectedItem.id,
+        notes: noteText.trim() || undefined,
+      });
       
       setNoteModalVisible(false);
       setSelectedItem(null);
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -14,15 +14,24 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { useRouter } from 'expo-router';
 import { Job } from '@/types/job';
 import { jobService } from '@/services/jobService';
+import { turnoverJobService } from '@/services/turnoverJobService';
 import { useStaffAuth } from '@/hooks/useStaffAuth';
 import ErrorBoundary, { JobListErrorBoundary } from '@/components/shared/ErrorBoundary';
 import { LoadingState, EmptyState } from '@/components/shared/StateComponents';
+import RealTimeJobMap from '@/components/maps/RealTimeJobMap';
 import { 
   getPriorityColor, 
   getStatusColor, 
   JOB_COLORS,
   COMMON_STYLES 
 } from '@/utils/jobUtils';
+import {
+  buildItinerary,
+  evaluateRoute,
+  suggestReorderOnOverrun,
+  toItineraryStop,
+  ItineraryLeg,
+} from '@/utils/itineraryBuilder';
 import {
   Briefcase,
   Clock,
@@ -33,10 +42,18 @@ import {
   Calendar,
   Filter,
   Search,
+  Navigation,
+  Map as MapIcon,
 } from 'lucide-react-native';
 
 const { width } = Dimensions.get('window');
 
+// Statuses that still need a visit today
+const ROUTE_STATUSES = ['assigned', 'accepted', 'in_progress', 'overdue'];
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
 interface StaffJobsViewProps {
   onJobSelect?: (job: Job) => void;
 }
@@ -45,7 +62,8 @@ const JobCard: React.FC<{
   job: Job;
   onPress: () => void;
   onStart?: () => void;
-}> = ({ job, onPress, onStart }) => {
+  leg?: ItineraryLeg;
+}> = ({ job, onPress, onStart, leg }) => {
   const priorityColor = getPriorityColor(job.priority);
   const statusColor = getStatusColor(job.status);
 
@@ -58,6 +76,11 @@ const JobCard: React.FC<{
         {/* Job Header */}
         <View style={styles.jobHeader}>
           <View style={styles.jobTitleRow}>
+            {leg && (
+              <View style={[styles.routeOrderBadge, leg.lateByMinutes > 0 && styles.routeOrderBadgeLate]}>
+                <Text style={styles.routeOrderText}>{leg.order}</Text>
+              </View>
+            )}
             <Text style={styles.jobTitle} numberOfLines={1}>
               {job.title}
             </Text>
@@ -77,6 +100,16 @@ const JobCard: React.FC<{
 
         {/* Job Details */}
         <View style={styles.jobDetails}>
+          {leg && (
+            <View style={styles.detailRow}>
+              <Navigation size={16} color={leg.lateByMinutes > 0 ? '#ef4444' : '#f59e0b'} />
+              <Text style={[styles.detailText, leg.lateByMinutes > 0 && styles.routeLateText]}>
+                {leg.distanceKm} km • {leg.travelMinutes} min drive • start {formatTime(leg.startAt)}
+                {leg.lateByMinutes > 0 ? ` • ${leg.lateByMinutes} min past check-in` : ''}
+              </Text>
+            </View>
+          )}
+
           <View style={styles.detailRow}>
             <MapPin size={16} color="#8b5cf6" />
             <Text style={styles.detailText} numberOfLines={1}>
@@ -132,7 +165,74 @@ export default function StaffJobsView({ onJobSelect }: StaffJobsViewProps) {
   const [filteredJobs, setFilteredJobs] = useState<Job[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [activeFilter, setActiveFilter] = useState<'all' | 'accepted' | 'in_progress' | 'completed'>('all');
+  const [activeFilter, setActiveFilter] = useState<'all' | 'route' | 'accepted' | 'in_progress' | 'completed'>('all');
+  const [routeOrder, setRouteOrder] = useState<string[]>([]);
+  const [dismissedOverrunJobId, setDismissedOverrunJobId] = useState<string | null>(null);
+  const [showRouteMap, setShowRouteMap] = useState(false);
+  const [now, setNow] = useState(new Date());
+  // Default check-in time (HH:mm) per property, for check-ins that only have a date
+  const [checkInTimes, setCheckInTimes] = useState<Record<string, string>>({});
+  // Properties whose check-in time has been requested, so each is looked up once
+  const requestedCheckInIds = useRef(new Set<string>());
+
+  const todaysJobs = useMemo(() => {
+    const today = new Date().toDateString();
+    return jobs
+      .filter(job => ROUTE_STATUSES.includes(job.status))
+      .filter(job => new Date(job.scheduledDate).toDateString() === today);
+  }, [jobs]);
+
+  // Today's open jobs as route stops
+  const todaysStops = useMemo(
+    () => todaysJobs.map(job => toItineraryStop(job, checkInTimes[job.propertyId])),
+    [todaysJobs, checkInTimes]
+  );
+
+  // Look up check-in times for properties we have not seen yet
+  useEffect(() => {
+    const missing = [...new Set(todaysJobs.map(job => job.propertyId))]
+      .filter(propertyId => propertyId && !requestedCheckInIds.current.has(propertyId));
+    if (missing.length === 0) return;
+    missing.forEach(propertyId => requestedCheckInIds.current.add(propertyId));
+
+    Promise.all(missing.map(async propertyId => {
+      const { ruleSet } = await turnoverJobService.getRuleSetForProperty(propertyId);
+      return [propertyId, ruleSet.checkInTime] as const;
+    }))
+      .then(entries => setCheckInTimes(prev => ({ ...prev, ...Object.fromEntries(entries) })))
+      .catch(error => console.error('Error loading property check-in times:', error));
+  }, [todaysJobs]);
+
+  // Plan a fresh route whenever today's set of jobs changes
+  useEffect(() => {
+    const ids = todaysStops.map(stop => stop.jobId).sort().join(',');
+    if (ids !== [...routeOrder].sort().join(',')) {
+      setRouteOrder(buildItinerary(todaysStops, { startTime: new Date() }).legs.map(leg => leg.jobId));
+    }
+  }, [todaysStops]);
+
+  // Re-check the route every minute so overruns are noticed
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const orderedStops = useMemo(
+    () => routeOrder
+      .map(id => todaysStops.find(stop => stop.jobId === id))
+      .filter((stop): stop is NonNullable<typeof stop> => !!stop),
+    [routeOrder, todaysStops]
+  );
+
+  const itinerary = useMemo(
+    () => evaluateRoute(orderedStops, { startTime: now }),
+    [orderedStops, now]
+  );
+
+  const reorderSuggestion = useMemo(() => {
+    const suggestion = suggestReorderOnOverrun(orderedStops, now);
+    return suggestion && suggestion.overrunJobId !== dismissedOverrunJobId ? suggestion : null;
+  }, [orderedStops, now, dismissedOverrunJobId]);
 
   useEffect(() => {
     if (user?.id) {
@@ -222,11 +322,103 @@ export default function StaffJobsView({ onJobSelect }: StaffJobsViewProps) {
     }
   };
 
+  const applyReorderSuggestion = () => {
+    if (!reorderSuggestion) return;
+    setRouteOrder([
+      reorderSuggestion.overrunJobId,
+      ...reorderSuggestion.suggested.legs.map(leg => leg.jobId),
+    ]);
+  };
+
   const getFilterCount = (filter: typeof activeFilter) => {
     if (filter === 'all') return jobs.length;
+    if (filter === 'route') return todaysStops.length;
     return jobs.filter(job => job.status === filter).length;
   };
 
+  const renderRoute = () => {
+    if (itinerary.legs.length === 0) {
+      return (
+        <View style={styles.emptyState}>
+          <Navigation size={48} color="#6b7280" />
+          <Text style={styles.emptyStateText}>No jobs left today</Text>
+          <Text style={styles.emptyStateSubtext}>
+            {"Today's accepted jobs will be ordered into a route here"}
+          </Text>
+        </View>
+      );
+    }
+
+    const firstLeg = itinerary.legs[0];
+    const mapJob = jobs.find(job => job.id === firstLeg.jobId);
+    const overrunJob = reorderSuggestion && jobs.find(job => job.id === reorderSuggestion.overrunJobId);
+
+    return (
+      <>
+        <View style={styles.routeSummary}>
+          <Text style={styles.routeSummaryText}>
+            {itinerary.legs.length} stops • {itinerary.totalDistanceKm} km • {itinerary.totalTravelMinutes} min driving
+          </Text>
+          <Text style={styles.routeSummaryText}>Done by {formatTime(itinerary.finishAt)}</Text>
+          <TouchableOpacity style={styles.routeMapToggle} onPress={() => setShowRouteMap(prev => !prev)}>
+            <MapIcon size={16} color="#8b5cf6" />
+            <Text style={styles.routeMapToggleText}>{showRouteMap ? 'Hide map' : 'Show map'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {reorderSuggestion && (
+          <View style={styles.reorderBanner}>
+            <AlertTriangle size={18} color="#f59e0b" />
+            <View style={styles.reorderContent}>
+              <Text style={styles.reorderTitle}>
+                {overrunJob?.title || 'Current job'} is running {reorderSuggestion.overrunMinutes} min over
+              </Text>
+              <Text style={styles.reorderText}>
+                Suggested next stops: {reorderSuggestion.suggested.legs.map(leg => leg.title).join(' → ')}
+                {reorderSuggestion.lateJobsAvoided.length > 0
+                  ? ` • avoids ${reorderSuggestion.lateJobsAvoided.length} late check-in(s)`
+                  : ` • saves ${reorderSuggestion.travelMinutesSaved} min driving`}
+              </Text>
+              <View style={styles.reorderActions}>
+                <TouchableOpacity onPress={applyReorderSuggestion}>
+                  <Text style={styles.reorderActionPrimary}>Use new order</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => setDismissedOverrunJobId(reorderSuggestion.overrunJobId)}>
+                  <Text style={styles.reorderAction}>Keep current</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        )}
+
+        {showRouteMap && mapJob && user?.id && (
+          <View style={styles.routeMap}>
+            <RealTimeJobMap
+              job={mapJob}
+              staffId={user.id}
+              itinerary={itinerary}
+              showTrackingHistory={false}
+            />
+          </View>
+        )}
+
+        {itinerary.legs.map((leg) => {
+          const job = jobs.find(j => j.id === leg.jobId);
+          if (!job) return null;
+          return (
+            <JobCard
+              key={job.id}
+              job={job}
+              leg={leg}
+              onPress={() => handleJobPress(job)}
+              onStart={job.status === 'accepted' ? () => handleStartJob(job) : undefined}
+            />
+          );
+        })}
+      </>
+    );
+  };
+
   return (
     <SafeAreaView className="flex-1 bg-dark-bg px-4 pt-8">
       {/* Header */}
@@ -246,6 +438,7 @@ export default function StaffJobsView({ onJobSelect }: StaffJobsViewProps) {
       >
         {[
           { key: 'all', label: 'All', icon: Briefcase },
+          { key: 'route', label: "Today's Route", icon: Navigation },
           { key: 'accepted', label: 'Accepted', icon: CheckCircle },
           { key: 'in_progress', label: 'In Progress', icon: Play },
           { key: 'completed', label: 'Completed', icon: CheckCircle },
@@ -293,7 +486,9 @@ export default function StaffJobsView({ onJobSelect }: StaffJobsViewProps) {
         }
         showsVerticalScrollIndicator={false}
       >
-        {filteredJobs.length > 0 ? (
+        {activeFilter === 'route' ? (
+          renderRoute()
+        ) : filteredJobs.length > 0 ? (
           filteredJobs.map((job) => (
             <JobCard
               key={job.id}
@@ -480,6 +675,89 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#ffffff',
   },
+  routeOrderBadge: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: '#f59e0b',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 8,
+  },
+  routeOrderBadgeLate: {
+    backgroundColor: '#ef4444',
+  },
+  routeOrderText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  routeLateText: {
+    color: '#fca5a5',
+  },
+  routeSummary: {
+    marginBottom: 16,
+    gap: 4,
+  },
+  routeSummaryText: {
+    fontSize: 14,
+    color: '#d1d5db',
+  },
+  routeMapToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+  },
+  routeMapToggleText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8b5cf6',
+  },
+  routeMap: {
+    height: 360,
+    borderRadius: 16,
+    overflow: 'hidden',
+    marginBottom: 16,
+  },
+  reorderBanner: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderRadius: 16,
+    backgroundColor: 'rgba(245, 158, 11, 0.1)',
+    borderWidth: 1,
+    borderColor: 'rgba(245, 158, 11, 0.3)',
+  },
+  reorderContent: {
+    flex: 1,
+    gap: 4,
+  },
+  reorderTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  reorderText: {
+    fontSize: 13,
+    color: '#d1d5db',
+  },
+  reorderActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 8,
+  },
+  reorderActionPrimary: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#f59e0b',
+  },
+  reorderAction: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#9ca3af',
+  },
   emptyState: {
     alignItems: 'center',
     paddingVertical: 60,
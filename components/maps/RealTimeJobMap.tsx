@@ -1,6 +1,7 @@
 /**
  * Real-Time Job Location Map
- * Live tracking display for staff location and property
+ * Live tracking display for staff location and property,
+ * optionally with the staff member's numbered route for the day
  */
 
 import React, { useState, useEffect, useRef } from 'react';
@@ -16,12 +17,19 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { MapPin, Navigation, User, Target, Clock, RefreshCw } from 'lucide-react-native';
 import { jobLocationTrackingService, RealTimeLocationUpdate } from '@/services/jobLocationTrackingService';
 import { JobData } from '@/types/jobData';
+import { Itinerary } from '@/utils/itineraryBuilder';
+
+// Accepts both JobData and Job, which store coordinates under location
+type RealTimeJobMapJob = Pick<JobData, 'id' | 'title' | 'propertyRef'> & {
+  location?: { coordinates?: { latitude: number; longitude: number } };
+};
 
 interface RealTimeJobMapProps {
-  job: JobData;
+  job: RealTimeJobMapJob;
   staffId: string;
   autoCenter?: boolean;
   showTrackingHistory?: boolean;
+  itinerary?: Itinerary | null;
   style?: any;
 }
 
@@ -35,6 +43,7 @@ export default function RealTimeJobMap({
   staffId,
   autoCenter = true,
   showTrackingHistory = true,
+  itinerary,
   style
 }: RealTimeJobMapProps) {
   const [currentLocation, setCurrentLocation] = useState<RealTimeLocationUpdate | null>(null);
@@ -49,6 +58,10 @@ export default function RealTimeJobMap({
   // Property location
   const propertyLocation = job.location?.coordinates;
 
+  // Route stops that can be drawn, in visiting order
+  const routeLegs = itinerary?.legs.filter(leg => leg.coordinates) ?? [];
+  const currentStop = routeLegs.find(leg => leg.jobId === job.id);
+
   useEffect(() => {
     if (!propertyLocation) {
       setIsLoading(false);
@@ -265,7 +278,11 @@ export default function RealTimeJobMap({
           pinColor="#6366f1"
         >
           <View style={styles.propertyMarker}>
-            <MapPin size={24} color="#ffffff" />
+            {currentStop ? (
+              <Text style={styles.routeMarkerText}>{currentStop.order}</Text>
+            ) : (
+              <MapPin size={24} color="#ffffff" />
+            )}
           </View>
         </Marker>
 
@@ -293,6 +310,33 @@ export default function RealTimeJobMap({
           </Marker>
         )}
 
+        {/* Day Route */}
+        {routeLegs.length > 1 && (
+          <Polyline
+            coordinates={routeLegs.map(leg => leg.coordinates!)}
+            strokeColor="#f59e0b"
+            strokeWidth={3}
+            lineDashPattern={[8, 6]}
+          />
+        )}
+
+        {routeLegs
+          .filter(leg => leg.jobId !== job.id)
+          .map(leg => (
+            <Marker
+              key={leg.jobId}
+              coordinate={leg.coordinates!}
+              title={`${leg.order}. ${leg.title}`}
+              description={`Start ${leg.startAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}${
+                leg.lateByMinutes > 0 ? ` • ${leg.lateByMinutes} min late` : ''
+              }`}
+            >
+              <View style={[styles.routeMarker, leg.lateByMinutes > 0 && styles.routeMarkerLate]}>
+                <Text style={styles.routeMarkerText}>{leg.order}</Text>
+              </View>
+            </Marker>
+          ))}
+
         {/* Movement History Trail */}
         {showTrackingHistory && locationHistory.length > 1 && (
           <Polyline
@@ -450,6 +494,29 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.25,
     shadowRadius: 4,
   },
+  routeMarker: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#f59e0b',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: '#ffffff',
+    elevation: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+  },
+  routeMarkerLate: {
+    backgroundColor: '#ef4444',
+  },
+  routeMarkerText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
   loadingOverlay: {
     position: 'absolute',
     top: 0,
@@ -48,6 +48,8 @@ const NotificationItem: React.FC<{
         return 'settings-outline';
       case 'reminder':
         return 'alarm-outline';
+      case 'announcement':
+        return 'megaphone-outline';
       default:
         return 'notifications-outline';
     }
@@ -7,7 +7,8 @@ import {
   AlertTriangle, 
   CheckCircle, 
   Clock,
-  Zap
+  Zap,
+  XCircle
 } from 'lucide-react-native';
 import { useSync } from '../../hooks/useSync';
 import { NeumorphicTheme } from '../../constants/NeumorphicTheme';
@@ -24,11 +25,17 @@ export function SyncStatusIndicator({ showDetails = false, onPress }: SyncStatus
     lastSyncTime, 
     pendingOperations, 
     conflictCount,
+    outboxPending,
+    outboxFailed,
+    failedActions,
+    retryFailedActions,
+    discardFailedAction,
     forceSyncNow 
   } = useSync();
 
   const getStatusColor = () => {
     if (!isOnline) return NeumorphicTheme.colors.semantic.error;
+    if (outboxFailed > 0) return NeumorphicTheme.colors.semantic.error;
     if (isSyncing) return NeumorphicTheme.colors.semantic.warning;
     if (conflictCount > 0) return NeumorphicTheme.colors.semantic.warning;
     if (pendingOperations > 0) return NeumorphicTheme.colors.semantic.info;
@@ -40,6 +47,7 @@ export function SyncStatusIndicator({ showDetails = false, onPress }: SyncStatus
     const size = 16;
 
     if (!isOnline) return <WifiOff size={size} color={color} />;
+    if (outboxFailed > 0) return <XCircle size={size} color={color} />;
     if (isSyncing) return <RefreshCw size={size} color={color} />;
     if (conflictCount > 0) return <AlertTriangle size={size} color={color} />;
     if (pendingOperations > 0) return <Clock size={size} color={color} />;
@@ -47,7 +55,8 @@ export function SyncStatusIndicator({ showDetails = false, onPress }: SyncStatus
   };
 
   const getStatusText = () => {
-    if (!isOnline) return 'Offline';
+    if (!isOnline) return outboxPending > 0 ? `Offline · ${outboxPending} queued` : 'Offline';
+    if (outboxFailed > 0) return `${outboxFailed} Failed`;
     if (isSyncing) return 'Syncing...';
     if (conflictCount > 0) return `${conflictCount} Conflicts`;
     if (pendingOperations > 0) return `${pendingOperations} Pending`;
@@ -154,6 +163,44 @@ export function SyncStatusIndicator({ showDetails = false, onPress }: SyncStatus
             </Text>
           </View>
         )}
+
+        {outboxPending > 0 && (
+          <View style={styles.infoRow}>
+            <Clock size={12} color={NeumorphicTheme.colors.semantic.info} />
+            <Text style={[styles.infoText, { color: NeumorphicTheme.colors.semantic.info }]}>
+              {outboxPending} job actions waiting to send
+            </Text>
+          </View>
+        )}
+
+        {outboxFailed > 0 && (
+          <View style={styles.failedSection}>
+            <View style={styles.infoRow}>
+              <XCircle size={12} color={NeumorphicTheme.colors.semantic.error} />
+              <Text style={[styles.infoText, { color: NeumorphicTheme.colors.semantic.error }]}>
+                {outboxFailed} job actions failed to send
+              </Text>
+              <TouchableOpacity style={styles.failedAction} onPress={retryFailedActions}>
+                <Text style={styles.failedActionText}>Retry all</Text>
+              </TouchableOpacity>
+            </View>
+
+            {failedActions.map(entry => (
+              <View key={entry.idempotencyKey} style={styles.failedRow}>
+                <Text style={styles.failedRowText} numberOfLines={2}>
+                  {entry.action.type.replace('_', ' ')} · job {entry.jobId}
+                  {entry.lastError ? ` — ${entry.lastError}` : ''}
+                </Text>
+                <TouchableOpacity
+                  style={styles.failedAction}
+                  onPress={() => discardFailedAction(entry.idempotencyKey)}
+                >
+                  <Text style={styles.failedActionText}>Discard</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
       </View>
     </TouchableOpacity>
   );
@@ -217,6 +264,31 @@ const styles = StyleSheet.create({
     fontSize: NeumorphicTheme.typography.sizes.xs.fontSize,
     color: NeumorphicTheme.colors.text.tertiary,
   },
+  failedSection: {
+    gap: NeumorphicTheme.spacing[1],
+  },
+  failedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: NeumorphicTheme.spacing[2],
+    paddingLeft: NeumorphicTheme.spacing[4],
+  },
+  failedRowText: {
+    flex: 1,
+    fontSize: NeumorphicTheme.typography.sizes.xs.fontSize,
+    color: NeumorphicTheme.colors.text.muted,
+  },
+  failedAction: {
+    paddingHorizontal: NeumorphicTheme.spacing[2],
+    paddingVertical: 2,
+    borderRadius: NeumorphicTheme.borderRadius.sm,
+    backgroundColor: `${NeumorphicTheme.colors.semantic.error}20`,
+  },
+  failedActionText: {
+    fontSize: NeumorphicTheme.typography.sizes.xs.fontSize,
+    color: NeumorphicTheme.colors.semantic.error,
+  },
 });
 
 export default SyncStatusIndicator;
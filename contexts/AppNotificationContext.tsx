@@ -6,16 +6,20 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import { usePINAuth } from './PINAuthContext';
 import { notificationDisplayService, AppNotification } from '@/services/notificationDisplayService';
+import type { AnnouncementReceiptRef } from '@/types/announcement';
+import { isAwaitingAcknowledgement } from '@/utils/announcements';
 
 interface AppNotificationContextType {
   notifications: AppNotification[];
   unreadCount: number;
+  pinnedCount: number;
   isLoading: boolean;
   isModalVisible: boolean;
   showNotificationModal: () => void;
   hideNotificationModal: () => void;
   markAsRead: (notificationId: string) => Promise<void>;
   markAllAsRead: () => Promise<void>;
+  acknowledge: (notificationId: string) => Promise<void>;
   deleteAllNotifications: () => Promise<void>;
   refreshNotifications: () => void;
 }
@@ -43,6 +47,13 @@ export const AppNotificationProvider: React.FC<AppNotificationProviderProps> = (
 
   // Calculate unread count
   const unreadCount = notifications.filter(n => !n.read).length;
+  const pinnedCount = notifications.filter(isAwaitingAcknowledgement).length;
+
+  // Links an announcement notification to its receipt for the sender's read tracking
+  const getReceipt = useCallback((notification: AppNotification | undefined): AnnouncementReceiptRef | undefined => {
+    if (notification?.type !== 'announcement' || !notification.announcementId || !currentProfile?.id) return undefined;
+    return { announcementId: notification.announcementId, staffId: currentProfile.id };
+  }, [currentProfile?.id]);
 
   // Subscribe to notifications when profile changes or refresh is triggered
   useEffect(() => {
@@ -82,7 +93,9 @@ export const AppNotificationProvider: React.FC<AppNotificationProviderProps> = (
 
   const markAsRead = useCallback(async (notificationId: string) => {
     try {
-      await notificationDisplayService.markAsRead(notificationId);
+      // Only the first read counts towards the announcement's receipts
+      const notification = notifications.find(n => n.id === notificationId);
+      await notificationDisplayService.markAsRead(notificationId, notification?.read ? undefined : getReceipt(notification));
       // Update local state immediately for better UX
       setNotifications(prev => prev.map(n => 
         n.id === notificationId ? { ...n, read: true } : n
@@ -90,14 +103,17 @@ export const AppNotificationProvider: React.FC<AppNotificationProviderProps> = (
     } catch (error) {
       console.error('❌ AppNotificationContext: Failed to mark as read:', error);
     }
-  }, []);
+  }, [notifications, getReceipt]);
 
   const markAllAsRead = useCallback(async () => {
     try {
-      const unreadIds = notifications.filter(n => !n.read).map(n => n.id);
-      if (unreadIds.length === 0) return;
+      const unread = notifications.filter(n => !n.read);
+      if (unread.length === 0) return;
 
-      await notificationDisplayService.markMultipleAsRead(unreadIds);
+      const receipts = unread
+        .map(getReceipt)
+        .filter((receipt): receipt is AnnouncementReceiptRef => receipt !== undefined);
+      await notificationDisplayService.markMultipleAsRead(unread.map(n => n.id), receipts);
       
       // Update local state immediately
       setNotifications(prev => prev.map(n => ({ ...n, read: true })));
@@ -106,7 +122,24 @@ export const AppNotificationProvider: React.FC<AppNotificationProviderProps> = (
     } catch (error) {
       console.error('❌ AppNotificationContext: Failed to mark all as read:', error);
     }
-  }, [notifications]);
+  }, [notifications, getReceipt]);
+
+  const acknowledge = useCallback(async (notificationId: string) => {
+    const receipt = getReceipt(notifications.find(n => n.id === notificationId));
+    if (!receipt) return;
+
+    try {
+      await notificationDisplayService.acknowledge(notificationId, receipt);
+      // Unpin locally right away; the listener re-sorts on the next snapshot
+      const acknowledgedAt = new Date();
+      setNotifications(prev => prev.map(n =>
+        n.id === notificationId ? { ...n, read: true, acknowledgedAt } : n
+      ));
+    } catch (error) {
+      console.error('❌ AppNotificationContext: Failed to acknowledge:', error);
+      throw error;
+    }
+  }, [notifications, getReceipt]);
 
   const deleteAllNotifications = useCallback(async () => {
     try {
@@ -117,8 +150,8 @@ export const AppNotificationProvider: React.FC<AppNotificationProviderProps> = (
 
       await notificationDisplayService.deleteAllNotifications(currentProfile.id);
       
-      // Update local state immediately
-      setNotifications([]);
+      // Update local state immediately; unacknowledged announcements stay
+      setNotifications(prev => prev.filter(isAwaitingAcknowledgement));
       
       console.log('✅ AppNotificationContext: All notifications deleted');
     } catch (error) {
@@ -137,12 +170,14 @@ export const AppNotificationProvider: React.FC<AppNotificationProviderProps> = (
   const value: AppNotificationContextType = {
     notifications,
     unreadCount,
+    pinnedCount,
     isLoading,
     isModalVisible,
     showNotificationModal,
     hideNotificationModal,
     markAsRead,
     markAllAsRead,
+    acknowledge,
     deleteAllNotifications,
     refreshNotifications,
   };
@@ -11,7 +11,6 @@ import {
   orderBy,
   onSnapshot,
   doc,
-  getDoc,
   updateDoc,
   addDoc,
   serverTimestamp,
@@ -22,6 +21,8 @@ import { getFirebaseApp, getFirebaseFirestore, initializeFirebase } from '@/lib/
 import { JobData, JobNotificationData, JobResponse, JobStatusUpdate } from '@/types/jobData';
 import { usePINAuth } from '@/contexts/PINAuthContext';
 import { firebaseUidService } from '@/services/firebaseUidService';
+import { jobActionOutboxService } from '@/services/jobActionOutboxService';
+import { normalizeJobStatus } from '@/utils/jobStateMachine';
 
 interface JobContextType {
   // Job Data
@@ -120,6 +121,9 @@ export const JobProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
 
       console.log('📡 JobContext: Setting up real-time listeners for staff:', currentProfile.id);
+      // Never show the previous staff member's jobs on a shared device
+      setJobs([]);
+      setNotifications([]);
       setLoading(true);
 
       try {
@@ -353,88 +357,95 @@ export const JobProvider: React.FC<{ children: React.ReactNode }> = ({ children
   }, [isAuthenticated, currentProfile?.id]);
 
   // Respond to job assignment (accept/decline) - wrapped in useCallback
+  // Recorded in the job action outbox first so it survives having no signal
   const respondToJob = useCallback(async (response: JobResponse): Promise<boolean> => {
     try {
       console.log('🎯 JobContext: Responding to job:', response.jobId, 'accepted:', response.accepted);
-      
-  const db = await getDb();
-  const jobRef = doc(db, 'jobs', response.jobId);
-      const newStatus = response.accepted ? 'accepted' : 'declined';
-      
-      await updateDoc(jobRef, {
-        status: newStatus,
-        responseAt: response.responseAt,
-        responseNotes: response.notes || '',
-        estimatedArrival: response.estimatedArrival || '',
-        updatedAt: serverTimestamp(),
-        // Add to status history
-        statusHistory: jobs.find(j => j.id === response.jobId)?.statusHistory || [] as any
+
+      const result = await jobActionOutboxService.enqueue(response.jobId, currentProfile?.id || 'unknown', {
+        type: 'status_change',
+        collection: 'jobs',
+        status: response.accepted ? 'accepted' : 'rejected',
+        notes: response.notes,
+        additionalData: {
+          responseAt: response.responseAt,
+          responseNotes: response.notes || '',
+          estimatedArrival: response.estimatedArrival || '',
+        },
       });
 
-      console.log('✅ JobContext: Job response updated successfully');
-      return true;
+      if (result.rejected) {
+        console.warn('⚠️ JobContext: Job response rejected:', result.error);
+        setError(result.error || 'This job can no longer be responded to');
+        return false;
+      }
+      if (result.applied) {
+        console.log('✅ JobContext: Job response updated successfully');
+      } else {
+        console.log('📝 JobContext: Job response queued for sync:', result.error);
+      }
+      return result.applied || result.queued;
     } catch (error) {
       console.error('❌ JobContext: Error responding to job:', error);
       setError('Failed to respond to job');
       return false;
     }
-  }, [jobs]);
+  }, [currentProfile?.id]);
 
   // Update job status (start, complete, etc.)
   // Supports BOTH 'jobs' and 'operational_jobs' collections - wrapped in useCallback
+  // Recorded in the job action outbox first so it survives having no signal
   const updateJobStatus = useCallback(async (update: JobStatusUpdate): Promise<boolean> => {
     try {
       console.log('🔄 JobContext: Updating job status:', update.jobId, 'to', update.status);
-      
-      const db = await getDb();
-      
-      // Try to find job in both collections
-      let jobRef = doc(db, 'jobs', update.jobId);
-      let jobDoc = await getDoc(jobRef);
-      let collection = 'jobs';
-
-      // If not found in 'jobs', try 'operational_jobs'
-      if (!jobDoc.exists()) {
-        jobRef = doc(db, 'operational_jobs', update.jobId);
-        jobDoc = await getDoc(jobRef);
-        collection = 'operational_jobs';
-      }
 
-      if (!jobDoc.exists()) {
-        console.error('❌ JobContext: Job not found in any collection:', update.jobId);
-        setError('Job not found');
+      const status = normalizeJobStatus(update.status);
+      if (!status) {
+        setError(`Unknown job status: ${update.status}`);
         return false;
       }
 
-      const updateData: any = {
-        status: update.status,
-        updatedAt: serverTimestamp(),
-        lastUpdatedBy: update.updatedBy,
+      // Attributed to whoever is unlocked now, not whoever opened the screen
+      const actorId = currentProfile?.id || update.updatedBy;
+      const additionalData: Record<string, any> = {
+        lastUpdatedBy: actorId,
       };
 
       // Add status-specific fields
-      if (update.status === 'in_progress') {
-        updateData.startedAt = serverTimestamp();
-      } else if (update.status === 'completed') {
-        updateData.completedAt = serverTimestamp();
-        updateData.completionNotes = update.notes || '';
+      if (status === 'completed') {
+        additionalData.completionNotes = update.notes || '';
       }
 
       // Add location if provided
       if (update.location) {
-        updateData.lastLocation = update.location;
+        additionalData.lastLocation = update.location;
       }
 
-      await updateDoc(jobRef, updateData);
+      const result = await jobActionOutboxService.enqueue(update.jobId, actorId, {
+        type: 'status_change',
+        collection: 'jobs',
+        status,
+        notes: update.notes,
+        additionalData,
+      });
 
-      console.log(`✅ JobContext: Job status updated successfully in ${collection} collection`);
-      return true;
+      if (result.rejected) {
+        console.warn('⚠️ JobContext: Job status change rejected:', result.error);
+        setError(result.error || 'This status change is not allowed');
+        return false;
+      }
+      if (result.applied) {
+        console.log('✅ JobContext: Job status updated successfully');
+      } else {
+        console.log('📝 JobContext: Job status change queued for sync:', result.error);
+      }
+      return result.applied || result.queued;
     } catch (error) {
       console.error('❌ JobContext: Error updating job status:', error);
       setError('Failed to update job status');
       return false;
     }
-  }, [jobs]); // Depends on jobs array for status history
+  }, [currentProfile?.id]);
 
   // Mark notification as read - wrapped in useCallback
   const markNotificationAsRead = useCallback(async (notificationId: string): Promise<boolean> => {
@@ -9,6 +9,9 @@ import { staffSyncService, getStaffSyncService } from '../services/staffSyncServ
 import { initializeFirebase } from '../lib/firebase';
 import { firebaseAuthService, AuthenticatedUser } from '../services/firebaseAuthService';
 import { secureFirestore } from '../services/secureFirestore';
+import { pinService } from '../services/pinService';
+import { kioskService } from '../services/kioskService';
+import { DEFAULT_KIOSK_SETTINGS, KioskLockReason, KioskSettings } from '../utils/kioskSession';
 
 interface PINAuthContextType {
   // Authentication state
@@ -24,10 +27,17 @@ interface PINAuthContextType {
 
   // Staff profiles
   staffProfiles: StaffProfile[];
+
+  // Shared-device kiosk mode
+  kioskSettings: KioskSettings;
+  recentProfileIds: string[];
   
   // Authentication methods
   loginWithPIN: (profileId: string, pin: string) => Promise<boolean>;
   createPIN: (profileId: string, pin: string) => Promise<boolean>;
+  resetStaffPIN: (profileId: string) => Promise<boolean>;
+  lockSession: (reason?: KioskLockReason) => Promise<void>;
+  updateKioskSettings: (settings: KioskSettings) => Promise<void>;
   logout: () => Promise<void>;
   
   // Profile methods
@@ -59,11 +69,21 @@ export function PINAuthProvider({ children }: PINAuthProviderProps) {
   const [firebaseUser, setFirebaseUser] = useState<AuthenticatedUser | null>(null);
   const [isFirebaseAuthenticated, setIsFirebaseAuthenticated] = useState(false);
 
+  // Shared-device kiosk mode
+  const [kioskSettings, setKioskSettings] = useState<KioskSettings>(DEFAULT_KIOSK_SETTINGS);
+  const [recentProfileIds, setRecentProfileIds] = useState<string[]>([]);
+
   // Initialize the service and check for existing session
   useEffect(() => {
     initializeAuth();
   }, []);
 
+  // Load kiosk settings for this device
+  useEffect(() => {
+    kioskService.getSettings().then(setKioskSettings);
+    kioskService.getRecentProfileIds().then(setRecentProfileIds);
+  }, []);
+
   // Set up Firebase authentication listener (required for new security rules)
   useEffect(() => {
     console.log('🔐 PINAuth: Setting up Firebase authentication listener...');
@@ -339,10 +359,10 @@ export function PINAuthProvider({ children }: PINAuthProviderProps) {
       setError(null);
       console.log(`🔐 PINAuth: Attempting login for profile ${profileId}`);
 
-      // Verify PIN first
-      const isValidPIN = await localStaffService.verifyStaffPIN(profileId, pin);
-      if (!isValidPIN) {
-        setError('Invalid PIN. Please try again.');
+      // Verify PIN first (failed attempts count towards the shared lockout)
+      const pinCheck = await localStaffService.verifyStaffPIN(profileId, pin);
+      if (!pinCheck.success) {
+        setError(pinCheck.lockoutTime ? pinCheck.error || 'Too many incorrect attempts.' : 'Invalid PIN. Please try again.');
         return false;
       }
 
@@ -358,15 +378,20 @@ export function PINAuthProvider({ children }: PINAuthProviderProps) {
         return false;
       }
 
-      // **TEMPORARY**: Skip Firebase authentication to fix login issue
-      // This allows PIN-only login while Firebase integration is being set up
-      console.log('� PINAuth: Using PIN-only authentication (Firebase integration pending)');
-      
-      // TODO: Re-enable Firebase authentication once staff Firebase accounts are configured
-      // The Firebase security infrastructure is in place but not required for PIN login
-      let firebaseAuthSuccess = false;
-      
-      console.log('ℹ️ PINAuth: Proceeding with PIN-only authentication for compatibility');
+      // Quick switch on a shared device: only once the new PIN checks out,
+      // drop the previous person's subscriptions
+      if (currentProfile && currentProfile.id !== profileId) {
+        await kioskService.endStaffSession(currentProfile.id, 'switch');
+      }
+
+      // Sign in to Firebase as the staff profile so the security rules see
+      // the same id the app writes on jobs, events and locations
+      if (!pinCheck.customToken) {
+        setError('Could not start a staff session. Please try again.');
+        return false;
+      }
+      await firebaseAuthService.signInWithStaffToken(pinCheck.customToken);
+      console.log(`🔥 PINAuth: Firebase session started for profile ${profileId}`);
 
       // Create local session
       const session = await localStaffService.createSession(profileId);
@@ -381,6 +406,10 @@ export function PINAuthProvider({ children }: PINAuthProviderProps) {
       }
       console.log(`✅ PINAuth: Session verified successfully`);
       
+      if (kioskSettings.enabled) {
+        setRecentProfileIds(await kioskService.startStaffSession(profileId));
+      }
+
       // Update state - this will trigger job loading
       setCurrentProfile(profile);
       setCurrentSession(session);
@@ -444,12 +473,65 @@ export function PINAuthProvider({ children }: PINAuthProviderProps) {
     }
   };
 
+  /**
+   * Admin-initiated PIN reset; the staff member creates a new PIN on next login
+   */
+  const resetStaffPIN = async (profileId: string): Promise<boolean> => {
+    if (!currentProfile || !['admin', 'manager'].includes(currentProfile.role)) {
+      setError('Only admins and managers can reset PINs.');
+      return false;
+    }
+
+    try {
+      await pinService.resetPIN(profileId);
+      console.log(`✅ PINAuth: PIN reset for profile ${profileId}`);
+      return true;
+    } catch (error) {
+      console.error('❌ PINAuth: Failed to reset PIN:', error);
+      setError('Failed to reset PIN. Please try again.');
+      return false;
+    }
+  };
+
+  /**
+   * Lock a shared device: tears down the current staff member's
+   * subscriptions and returns to profile selection without signing the
+   * device out of Firebase
+   */
+  const lockSession = async (reason: KioskLockReason = 'manual'): Promise<void> => {
+    if (!currentProfile) return;
+
+    try {
+      await kioskService.endStaffSession(currentProfile.id, reason);
+    } catch (error) {
+      console.error('❌ PINAuth: Failed to end kiosk session cleanly:', error);
+    }
+
+    await localStaffService.clearSession();
+    setCurrentProfile(null);
+    setCurrentSession(null);
+    setIsAuthenticated(false);
+    setError(null);
+    console.log(`🔒 PINAuth: Device locked (${reason})`);
+  };
+
+  const updateKioskSettings = async (settings: KioskSettings): Promise<void> => {
+    await kioskService.saveSettings(settings);
+    setKioskSettings(settings);
+  };
+
   const logout = async (): Promise<void> => {
     try {
       setIsLoading(true);
       console.log('🚪 PINAuth: Starting comprehensive logout process...');
 
-      // **NEW SECURITY REQUIREMENT**: Sign out from Firebase first
+      // Stop listeners, location tracking and the job cache for this staff
+      // member while still signed in, so the handoff is recorded
+      if (currentProfile) {
+        await kioskService.endStaffSession(currentProfile.id, 'manual');
+      }
+
+      // **NEW SECURITY REQUIREMENT**: Sign out from Firebase
       console.log('🔥 PINAuth: Signing out from Firebase...');
       try {
         await firebaseAuthService.signOut();
@@ -577,10 +659,17 @@ export function PINAuthProvider({ children }: PINAuthProviderProps) {
 
     // Staff profiles
     staffProfiles,
+
+    // Shared-device kiosk mode
+    kioskSettings,
+    recentProfileIds,
     
     // Authentication methods
     loginWithPIN,
     createPIN,
+    resetStaffPIN,
+    lockSession,
+    updateKioskSettings,
     logout,
     
     // Profile methods
@@ -52,7 +52,7 @@ export interface UseJobLocationTrackingActions {
   stopTracking: () => Promise<void>;
   
   // Test mode actions
-  simulateLocation: (coordinates: { latitude: number; longitude: number }) => Promise<void>;
+  simulateLocation: (coordinates: { latitude: number; longitude: number }, accuracy?: number) => Promise<void>;
   testCheckIn: (job: JobData) => Promise<boolean>;
   
   // Utility actions
@@ -381,7 +381,10 @@ export function useJobLocationTracking(
   /**
    * 🧪 Test mode functions
    */
-  const simulateLocation = useCallback(async (coordinates: { latitude: number; longitude: number }): Promise<void> => {
+  const simulateLocation = useCallback(async (
+    coordinates: { latitude: number; longitude: number },
+    accuracy: number = 5
+  ): Promise<void> => {
     if (!config.testMode || !currentProfile?.id || !currentJobRef.current) {
       setState(prev => ({ ...prev, error: 'Test mode not enabled or no active job' }));
       return;
@@ -391,7 +394,8 @@ export function useJobLocationTracking(
       await jobLocationTrackingService.simulateLocation(
         currentJobRef.current.id,
         currentProfile.id,
-        coordinates
+        coordinates,
+        accuracy
       );
 
       setState(prev => ({
@@ -400,7 +404,7 @@ export function useJobLocationTracking(
           coords: {
             latitude: coordinates.latitude,
             longitude: coordinates.longitude,
-            accuracy: 5,
+            accuracy,
             altitude: null,
             altitudeAccuracy: null,
             heading: null,
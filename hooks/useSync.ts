@@ -1,6 +1,12 @@
 import { useState, useEffect, useCallback } from 'react';
 import { syncService, SyncStatus, ConflictResolution } from '../services/syncService';
+import {
+  jobActionOutboxService,
+  JobOutboxEntry,
+  JobOutboxStatus,
+} from '../services/jobActionOutboxService';
 import { notificationService } from '../services/notificationService';
+import type { FieldChoice } from '../utils/conflictMerge';
 
 interface UseSyncReturn {
   syncStatus: SyncStatus;
@@ -10,14 +16,25 @@ interface UseSyncReturn {
   lastSyncTime: Date | null;
   pendingOperations: number;
   conflictCount: number;
+  outboxPending: number;
+  outboxFailed: number;
+  failedActions: JobOutboxEntry[];
+  retryFailedActions: () => Promise<void>;
+  discardFailedAction: (idempotencyKey: string) => Promise<void>;
   forceSyncNow: () => Promise<void>;
-  resolveConflict: (conflictId: string, resolution: 'local' | 'remote' | 'merge') => Promise<void>;
+  resolveConflict: (
+    conflictId: string,
+    resolution: 'local' | 'remote' | 'merge',
+    fieldChoices?: Record<string, FieldChoice>
+  ) => Promise<void>;
   refreshStatus: () => void;
 }
 
 export function useSync(): UseSyncReturn {
   const [syncStatus, setSyncStatus] = useState<SyncStatus>(syncService.getSyncStatus());
   const [conflicts, setConflicts] = useState<ConflictResolution[]>(syncService.getConflicts());
+  const [outboxStatus, setOutboxStatus] = useState<JobOutboxStatus>(jobActionOutboxService.getStatus());
+  const [failedActions, setFailedActions] = useState<JobOutboxEntry[]>([]);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
   // Refresh status data
@@ -27,6 +44,16 @@ export function useSync(): UseSyncReturn {
     setRefreshTrigger(prev => prev + 1);
   }, []);
 
+  // Outbox changes are pushed immediately rather than polled
+  useEffect(() => {
+    return jobActionOutboxService.subscribe((status) => {
+      setOutboxStatus(status);
+      setFailedActions(
+        jobActionOutboxService.getEntries().filter(entry => entry.status === 'failed')
+      );
+    });
+  }, []);
+
   // Auto-refresh status every 5 seconds
   useEffect(() => {
     const interval = setInterval(refreshStatus, 5000);
@@ -56,11 +83,12 @@ export function useSync(): UseSyncReturn {
   // Resolve conflict
   const resolveConflict = useCallback(async (
     conflictId: string, 
-    resolution: 'local' | 'remote' | 'merge'
+    resolution: 'local' | 'remote' | 'merge',
+    fieldChoices?: Record<string, FieldChoice>
   ) => {
     try {
       console.log(`🔧 Resolving conflict ${conflictId} with ${resolution} strategy...`);
-      await syncService.resolveConflict(conflictId, resolution);
+      await syncService.resolveConflict(conflictId, resolution, fieldChoices);
       refreshStatus();
       console.log('✅ Conflict resolved successfully');
     } catch (error) {
@@ -69,13 +97,27 @@ export function useSync(): UseSyncReturn {
     }
   }, [refreshStatus]);
 
+  // Retry every failed job action
+  const retryFailedActions = useCallback(async () => {
+    await jobActionOutboxService.retryFailed();
+    refreshStatus();
+  }, [refreshStatus]);
+
+  // Drop a failed job action the user no longer wants to send
+  const discardFailedAction = useCallback(async (idempotencyKey: string) => {
+    await jobActionOutboxService.discard(idempotencyKey);
+    refreshStatus();
+  }, [refreshStatus]);
+
   // Derived values
   const isOnline = syncStatus.isOnline && syncStatus.realtimeConnected;
-  const isSyncing = syncStatus.syncInProgress;
+  const isSyncing = syncStatus.syncInProgress || outboxStatus.isFlushing;
   const lastSyncTime = syncStatus.lastSyncTimestamp > 0 
     ? new Date(syncStatus.lastSyncTimestamp) 
     : null;
-  const pendingOperations = syncStatus.pendingOperations + syncStatus.webhookQueueSize;
+  const outboxPending = outboxStatus.pending;
+  const outboxFailed = outboxStatus.failed;
+  const pendingOperations = syncStatus.pendingOperations + syncStatus.webhookQueueSize + outboxPending;
   const conflictCount = syncStatus.conflictCount;
 
   return {
@@ -86,6 +128,11 @@ export function useSync(): UseSyncReturn {
     lastSyncTime,
     pendingOperations,
     conflictCount,
+    outboxPending,
+    outboxFailed,
+    failedActions,
+    retryFailedActions,
+    discardFailedAction,
     forceSyncNow,
     resolveConflict,
     refreshStatus,
@@ -17,6 +17,7 @@ export interface BookingData {
   paymentStatus: 'pending' | 'paid' | 'refunded';
   lastUpdated: number;
   syncStatus: 'synced' | 'pending' | 'conflict';
+  version?: number; // Base revision for conflict resolution
 }
 
 export interface StaffAssignment {
@@ -33,6 +34,7 @@ export interface StaffAssignment {
   notes: string;
   completedAt?: number;
   lastUpdated: number;
+  version?: number; // Mirrors JobAssignment.version
 }
 
 export interface PropertyStatus {
@@ -43,6 +45,7 @@ export interface PropertyStatus {
   nextBooking?: string;
   maintenanceNotes?: string;
   cleaningStatus: 'pending' | 'in-progress' | 'completed';
+  version?: number; // Base revision for conflict resolution
 }
 
 export interface SyncUser {
@@ -197,27 +200,6 @@ class RealtimeDatabaseService {
     }
   }
 
-  async updateBookingStatus(bookingId: string, status: BookingData['status']): Promise<void> {
-    const path = `bookings/${bookingId}`;
-    const updates = {
-      status,
-      lastUpdated: serverTimestamp(),
-      syncStatus: 'synced'
-    };
-
-    try {
-      if (this.isOnline) {
-        await update(ref(rtdb, path), updates);
-        console.log(`✅ Updated booking status: ${bookingId} -> ${status}`);
-      } else {
-        await this.queueOperation(path, updates, 'update');
-      }
-    } catch (error) {
-      console.error('❌ Failed to update booking status:', error);
-      await this.queueOperation(path, updates, 'update');
-    }
-  }
-
   // Staff Assignment Management
   async syncStaffAssignment(assignmentData: StaffAssignment): Promise<void> {
     const path = `staff_assignments/${assignmentData.id}`;
@@ -271,53 +253,6 @@ class RealtimeDatabaseService {
     }
   }
 
-  async updateAssignmentStatus(assignmentId: string, status: StaffAssignment['status']): Promise<void> {
-    const path = `staff_assignments/${assignmentId}`;
-    const updates: any = {
-      status,
-      lastUpdated: serverTimestamp()
-    };
-
-    if (status === 'completed') {
-      updates.completedAt = serverTimestamp();
-    }
-
-    try {
-      if (this.isOnline) {
-        await update(ref(rtdb, path), updates);
-        console.log(`✅ Updated assignment status: ${assignmentId} -> ${status}`);
-      } else {
-        await this.queueOperation(path, updates, 'update');
-      }
-    } catch (error) {
-      console.error('❌ Failed to update assignment status:', error);
-      await this.queueOperation(path, updates, 'update');
-    }
-  }
-
-  async completeAssignment(assignmentId: string, notes: string, photos: string[]): Promise<void> {
-    const path = `staff_assignments/${assignmentId}`;
-    const updates = {
-      status: 'completed' as const,
-      notes,
-      photos,
-      completedAt: serverTimestamp(),
-      lastUpdated: serverTimestamp()
-    };
-
-    try {
-      if (this.isOnline) {
-        await update(ref(rtdb, path), updates);
-        console.log(`✅ Completed assignment: ${assignmentId}`);
-      } else {
-        await this.queueOperation(path, updates, 'update');
-      }
-    } catch (error) {
-      console.error('❌ Failed to complete assignment:', error);
-      await this.queueOperation(path, updates, 'update');
-    }
-  }
-
   // Property Status Management
   async syncPropertyStatus(propertyId: string, statusData: Omit<PropertyStatus, 'id'>): Promise<void> {
     const path = `property_status/${propertyId}`;
@@ -0,0 +1,227 @@
+/**
+ * Staff PIN checks on the server
+ * Backs the `api/staff-pin/*` endpoints. Only this module reads or writes
+ * `staff_pins`: clients never see a PIN hash and cannot touch the lockout
+ * counter, so the exponential backoff holds whatever the device does.
+ *
+ * IMPORTANT: server-side only, like firebaseAdmin
+ */
+
+import bcrypt from 'bcryptjs';
+import admin from 'firebase-admin';
+import { createCustomToken, getFirestoreAdmin, verifyIdToken } from '@/lib/firebaseAdmin';
+import {
+  getPINAttemptStatus,
+  recordPINFailure,
+  formatLockoutMessage,
+  isPINHash,
+  isValidPINFormat,
+  PINAttemptStatus,
+  PINLockoutState
+} from '@/utils/pinSecurity';
+import { normalizeRole } from '@/utils/permissions';
+
+export interface StaffPINCheck {
+  success: boolean;
+  staffData?: Record<string, any>;
+  error?: string;
+  attemptsLeft?: number;
+  lockoutTime?: number;
+  // Signs the device in as the staff member (uid = staff profile id)
+  customToken?: string;
+}
+
+const STAFF_COLLECTION = 'staff_accounts';
+const PINS_COLLECTION = 'staff_pins';
+const USERS_COLLECTION = 'users';
+const SALT_ROUNDS = 10;
+
+const { FieldValue } = admin.firestore;
+
+const hashPIN = (pin: string): Promise<string> => bcrypt.hash(pin, SALT_ROUNDS);
+
+/**
+ * Check a PIN, counting failures towards the shared lockout
+ */
+export const verifyStaffPIN = async (staffId: string, pin: string): Promise<StaffPINCheck> => {
+  if (!isValidPINFormat(pin)) {
+    return { success: false, error: 'PIN must be 4 digits' };
+  }
+
+  const firestore = getFirestoreAdmin();
+  const staffRef = firestore.collection(STAFF_COLLECTION).doc(staffId);
+  const pinRef = firestore.collection(PINS_COLLECTION).doc(staffId);
+  const [snapshot, pinSnapshot] = await Promise.all([staffRef.get(), pinRef.get()]);
+
+  if (!snapshot.exists) {
+    return { success: false, error: 'Staff member not found' };
+  }
+
+  const data = snapshot.data()!;
+  if (data.isActive === false) {
+    return { success: false, error: 'Staff account is inactive' };
+  }
+
+  const pinRecord = pinSnapshot.data();
+  const status = getPINAttemptStatus(pinRecord?.pinLockout);
+  if (!status.canAttempt) {
+    console.warn(`⚠️ StaffPinAdmin: ${staffId} is locked out`);
+    return { success: false, error: formatLockoutMessage(status.lockoutTime!), attemptsLeft: 0, lockoutTime: status.lockoutTime };
+  }
+
+  // Fall back to a PIN still kept on the profile by older versions
+  const isLegacy = !isPINHash(pinRecord?.pinHash);
+  const pinHash: unknown = isLegacy ? data.pinHash : pinRecord?.pinHash;
+  const hasHash = isPINHash(pinHash);
+  if (!hasHash && !data.pin) {
+    return { success: false, error: 'No PIN set for this staff member' };
+  }
+
+  const matches = hasHash ? await bcrypt.compare(pin, pinHash) : data.pin === pin;
+
+  if (!matches) {
+    // Transaction so attempts from two devices both count
+    const lockout = await firestore.runTransaction(async transaction => {
+      const current = await transaction.get(pinRef);
+      const next: PINLockoutState = recordPINFailure(current.data()?.pinLockout);
+      transaction.set(pinRef, { pinLockout: next }, { merge: true });
+      return next;
+    });
+    const failedStatus = getPINAttemptStatus(lockout);
+    console.log(`❌ StaffPinAdmin: Incorrect PIN for ${staffId}`);
+    return {
+      success: false,
+      error: failedStatus.canAttempt ? 'Incorrect PIN' : formatLockoutMessage(failedStatus.lockoutTime!),
+      attemptsLeft: failedStatus.attemptsLeft,
+      lockoutTime: failedStatus.lockoutTime,
+    };
+  }
+
+  const batch = firestore.batch();
+  batch.set(pinRef, {
+    pinLockout: FieldValue.delete(),
+    // Move legacy PINs off the profile now that we know the PIN
+    ...(isLegacy && { pinHash: hasHash ? pinHash : await hashPIN(pin), pinUpdatedAt: FieldValue.serverTimestamp() }),
+  }, { merge: true });
+  if (isLegacy) {
+    batch.update(staffRef, {
+      pin: FieldValue.delete(),
+      pinHash: FieldValue.delete(),
+      pinLockout: FieldValue.delete(),
+      hasPIN: true,
+    });
+  }
+  await batch.commit();
+
+  const customToken = await createStaffSessionToken(staffId, data);
+  if (!customToken) {
+    return { success: false, error: 'Could not start a staff session' };
+  }
+
+  const staffData: Record<string, any> = { id: snapshot.id, ...data };
+  delete staffData.pin;
+  delete staffData.pinHash;
+  delete staffData.pinLockout;
+  console.log(`✅ StaffPinAdmin: PIN verified for ${staffId}`);
+  return { success: true, staffData, customToken };
+};
+
+/**
+ * Firebase identity for a PIN session. The uid is the staff profile id the
+ * app writes on jobs, events and locations, and users/{staffId} carries the
+ * role and team the security rules read.
+ */
+const createStaffSessionToken = async (staffId: string, data: Record<string, any>): Promise<string | null> => {
+  const role = typeof data.role === 'string' && data.role ? data.role : 'staff';
+
+  await getFirestoreAdmin().collection(USERS_COLLECTION).doc(staffId).set({
+    role,
+    teamId: data.teamId || FieldValue.delete(),
+    staffProfileId: staffId,
+    updatedAt: FieldValue.serverTimestamp(),
+  }, { merge: true });
+
+  const result = await createCustomToken(staffId, { role, staffProfileId: staffId });
+  if (!result.success || !result.token) {
+    console.error(`❌ StaffPinAdmin: Could not create session token for ${staffId}:`, result.error);
+    return null;
+  }
+  return result.token;
+};
+
+/**
+ * Store a first PIN as a hash. Changing an existing PIN needs an admin reset.
+ */
+export const setStaffPIN = async (staffId: string, pin: string): Promise<{ success: boolean; error?: string }> => {
+  if (!isValidPINFormat(pin)) {
+    return { success: false, error: 'PIN must be exactly 4 digits' };
+  }
+
+  const firestore = getFirestoreAdmin();
+  const staffRef = firestore.collection(STAFF_COLLECTION).doc(staffId);
+  const pinRef = firestore.collection(PINS_COLLECTION).doc(staffId);
+  const pinHash = await hashPIN(pin);
+
+  return firestore.runTransaction(async transaction => {
+    const [staff, current] = await Promise.all([transaction.get(staffRef), transaction.get(pinRef)]);
+    if (!staff.exists) {
+      return { success: false, error: 'Staff member not found' };
+    }
+    const legacy = staff.data()!;
+    if (isPINHash(current.data()?.pinHash) || isPINHash(legacy.pinHash) || legacy.pin) {
+      return { success: false, error: 'A PIN is already set for this staff member' };
+    }
+
+    transaction.set(pinRef, { pinHash, pinUpdatedAt: FieldValue.serverTimestamp() });
+    transaction.update(staffRef, {
+      hasPIN: true,
+      pinResetRequired: false,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    console.log(`🔐 StaffPinAdmin: PIN set for ${staffId}`);
+    return { success: true };
+  });
+};
+
+export const getStaffPINStatus = async (staffId: string): Promise<PINAttemptStatus> => {
+  const snapshot = await getFirestoreAdmin().collection(PINS_COLLECTION).doc(staffId).get();
+  return getPINAttemptStatus(snapshot.data()?.pinLockout);
+};
+
+/**
+ * Admin reset: clears the PIN and lockout so the staff member sets a new
+ * PIN the next time they pick their profile
+ */
+export const resetStaffPIN = async (staffId: string, adminId: string): Promise<void> => {
+  const firestore = getFirestoreAdmin();
+  const batch = firestore.batch();
+  batch.delete(firestore.collection(PINS_COLLECTION).doc(staffId));
+  batch.update(firestore.collection(STAFF_COLLECTION).doc(staffId), {
+    pin: FieldValue.delete(),
+    pinHash: FieldValue.delete(),
+    pinLockout: FieldValue.delete(),
+    hasPIN: false,
+    pinResetRequired: true,
+    pinResetBy: adminId,
+    pinResetAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  await batch.commit();
+  console.log(`🔄 StaffPinAdmin: PIN reset for ${staffId} by ${adminId}`);
+};
+
+/**
+ * The uid behind a bearer ID token, when it belongs to an admin or manager
+ */
+export const getPINAdminId = async (authorization: string | undefined): Promise<string | null> => {
+  const idToken = authorization?.startsWith('Bearer ') ? authorization.slice(7) : null;
+  if (!idToken) return null;
+
+  const result = await verifyIdToken(idToken);
+  if (!result.success || !result.decodedToken) return null;
+
+  const uid = result.decodedToken.uid;
+  const profile = await getFirestoreAdmin().collection(USERS_COLLECTION).doc(uid).get();
+  const role = normalizeRole(profile.data()?.role);
+  return role === 'admin' || role === 'manager' ? uid : null;
+};
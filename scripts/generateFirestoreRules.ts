@@ -0,0 +1,22 @@
+// Regenerates the permission functions in firestore.rules from utils/permissions.ts
+// Usage: npm run rules:generate            (rewrite firestore.rules)
+//        npm run rules:generate -- --check (exit 1 when firestore.rules is stale)
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildPermissionRules, replaceGeneratedRules } from '../utils/firestoreRules';
+
+const rulesPath = path.join(__dirname, '..', 'firestore.rules');
+const checkOnly = process.argv.includes('--check');
+
+const current = fs.readFileSync(rulesPath, 'utf8');
+const next = replaceGeneratedRules(current, buildPermissionRules());
+
+if (current === next) {
+  console.log('✅ firestore.rules permissions are up to date');
+} else if (checkOnly) {
+  console.error('❌ firestore.rules permissions are stale, run `npm run rules:generate`');
+  process.exit(1);
+} else {
+  fs.writeFileSync(rulesPath, next);
+  console.log('✅ firestore.rules permissions regenerated from utils/permissions.ts');
+}
@@ -6,7 +6,7 @@
 
 import { getDb } from '@/lib/firebase';
 import { collection, query, where, getDocs, addDoc, orderBy, limit } from 'firebase/firestore';
-import { openaiService } from './openaiService';
+import { aiProviderService } from './aiProviderService';
 
 interface AIInsight {
   id?: string;
@@ -168,26 +168,31 @@ class AIBackgroundService {
       const jobsSnapshot = await getDocs(historicalQuery);
       const jobs = jobsSnapshot.docs.map(doc => doc.data());
 
-      // Use AI to analyze patterns - simplified for background service
-      let aiRecommendation = '';
-      try {
-        // Create a simplified analysis instead of full AI call for now
-        const jobTypes = jobs.map(j => j.jobType || 'general').slice(0, 5);
-        const avgDuration = jobs.length > 0 ? 'Based on recent job patterns' : 'No data available';
-        aiRecommendation = `Scheduling analysis: Recent job types include ${jobTypes.join(', ')}. ${avgDuration}.`;
-      } catch (error) {
-        aiRecommendation = 'AI analysis temporarily unavailable. Review job patterns manually.';
+      // Use AI to analyze patterns; the local templates answer when offline
+      const jobTypes = jobs.map(j => j.jobType || 'general');
+      const typeCounts = jobTypes.reduce<Record<string, number>>((counts, type) => {
+        counts[type] = (counts[type] ?? 0) + 1;
+        return counts;
+      }, {});
+      const response = await aiProviderService.completeStructured({
+        feature: 'scheduling',
+        messages: [
+          { role: 'system', content: 'You are a scheduling analyst for a villa property management team. Report the single most useful scheduling insight with a short, practical recommendation.' },
+          { role: 'user', content: `Recent job counts by type (last ${jobs.length} jobs): ${Object.entries(typeCounts).map(([type, count]) => `${type}: ${count}`).join(', ') || 'none'}.` },
+        ],
+        context: { jobTypes },
+        maxTokens: 300,
+      }, 'insight');
+
+      if (response.success && response.data) {
+        insights.push({
+          type: 'scheduling_optimization',
+          ...response.data,
+          createdAt: new Date(),
+          data: { provider: response.provider, validation: response.validation.status }
+        });
       }
 
-      insights.push({
-        type: 'scheduling_optimization',
-        severity: 'low',
-        title: 'AI Scheduling Recommendations',
-        description: 'AI-generated suggestions for improving job scheduling efficiency.',
-        recommendation: aiRecommendation,
-        createdAt: new Date()
-      });
-
       return insights;
 
     } catch (error) {
@@ -15,6 +15,12 @@ import {
   Timestamp 
 } from 'firebase/firestore';
 import { getDb } from '@/lib/firebase';
+import type {
+  AIFeature,
+  AIOutputSchemaId,
+  AIProviderId,
+  AIValidationStatus,
+} from '@/types/aiProvider';
 
 export interface AILogEntry {
   id?: string;
@@ -45,9 +51,34 @@ export interface AIJobSummary {
   updatedAt: Date;
 }
 
+// One structured AI answer checked against its schema
+export interface AIValidationLogEntry {
+  id?: string;
+  feature: AIFeature;
+  schema: AIOutputSchemaId;
+  status: AIValidationStatus;
+  errors: string[];
+  attempts: number;
+  provider?: AIProviderId;
+  jobId?: string;
+  staffId?: string;
+  timestamp: Date;
+}
+
+// How often one prompt's answers needed fixing or failed outright
+export interface AIValidationStats {
+  feature: AIFeature;
+  schema: AIOutputSchemaId;
+  total: number;
+  counts: Record<AIValidationStatus, number>;
+  failureRate: number; // share of answers that were not valid first time, 0–1
+  lastErrors: string[];
+}
+
 class AILoggingService {
   private readonly AI_LOGS_COLLECTION = 'ai_logs';
   private readonly AI_SUMMARIES_COLLECTION = 'ai_job_summaries';
+  private readonly AI_VALIDATION_COLLECTION = 'ai_validation_logs';
 
   /**
    * Log an AI interaction
@@ -209,6 +240,78 @@ class AILoggingService {
     }
   }
 
+  /**
+   * Log the schema check of a structured AI answer
+   */
+  async logValidation(entry: Omit<AIValidationLogEntry, 'id' | 'timestamp'>): Promise<void> {
+    try {
+      const db = await getDb();
+      await addDoc(collection(db, this.AI_VALIDATION_COLLECTION), {
+        feature: entry.feature,
+        schema: entry.schema,
+        status: entry.status,
+        errors: entry.errors.slice(0, 10),
+        attempts: entry.attempts,
+        ...(entry.provider && { provider: entry.provider }),
+        ...(entry.jobId && { jobId: entry.jobId }),
+        ...(entry.staffId && { staffId: entry.staffId }),
+        timestamp: Timestamp.fromDate(new Date()),
+      });
+
+      if (entry.status !== 'valid') {
+        console.warn(`⚠️ AI ${entry.feature} answer ${entry.status}:`, entry.errors.join('; '));
+      }
+    } catch (error) {
+      console.error('❌ Error logging AI validation:', error);
+    }
+  }
+
+  /**
+   * Validation results per prompt over the last few days, worst first
+   */
+  async getValidationStats(days: number = 7): Promise<AIValidationStats[]> {
+    try {
+      const db = await getDb();
+      const cutoffDate = new Date();
+      cutoffDate.setDate(cutoffDate.getDate() - days);
+
+      const snapshot = await getDocs(query(
+        collection(db, this.AI_VALIDATION_COLLECTION),
+        where('timestamp', '>=', Timestamp.fromDate(cutoffDate)),
+        orderBy('timestamp', 'desc')
+      ));
+
+      const stats = new Map<string, AIValidationStats>();
+      snapshot.forEach((doc) => {
+        const data = doc.data() as Omit<AIValidationLogEntry, 'timestamp'>;
+        const key = `${data.feature}:${data.schema}`;
+        const entry = stats.get(key) ?? {
+          feature: data.feature,
+          schema: data.schema,
+          total: 0,
+          counts: { valid: 0, repaired: 0, retried: 0, fallback: 0, invalid: 0 },
+          failureRate: 0,
+          lastErrors: [],
+        };
+
+        entry.total++;
+        entry.counts[data.status] = (entry.counts[data.status] ?? 0) + 1;
+        // Newest first, so the first errors seen are the latest
+        if (entry.lastErrors.length === 0 && data.errors?.length) {
+          entry.lastErrors = data.errors.slice(0, 3);
+        }
+        stats.set(key, entry);
+      });
+
+      return Array.from(stats.values())
+        .map(entry => ({ ...entry, failureRate: (entry.total - entry.counts.valid) / entry.total }))
+        .sort((a, b) => b.failureRate - a.failureRate || b.total - a.total);
+    } catch (error) {
+      console.error('❌ Error getting AI validation stats:', error);
+      return [];
+    }
+  }
+
   /**
    * Update job summary with AI usage
    */
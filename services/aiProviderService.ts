@@ -0,0 +1,346 @@
+/**
+ * AI Provider Service
+ * One entry point for every AI call in the app. Requests go to an
+ * OpenAI-compatible endpoint when one is configured and fall back to the
+ * rule-based local provider when it is not, when the call fails or when the
+ * feature has spent its daily token budget
+ */
+
+import type {
+  AICompletionRequest,
+  AICompletionResult,
+  AIFeature,
+  AIOutputSchemaId,
+  AIOutputTypes,
+  AIProvider,
+  AIProviderConfig,
+  AIProviderId,
+  AIStructuredResult,
+  AITokenBudgets,
+  AITokenUsage,
+  AIValidationStatus,
+} from '@/types/aiProvider';
+import {
+  estimateRequestTokens,
+  estimateTokens,
+  getCacheKey,
+  getRemainingTokens,
+  getRetryDelay,
+  getUsageForDay,
+  hasBudgetFor,
+  isRetryableStatus,
+  parseTokenBudgets,
+  readAIConfig,
+  recordTokenUsage,
+} from '@/utils/aiProvider';
+import { buildTemplateResponse } from '@/utils/aiTemplates';
+import { describeOutputSchema, validateAIOutput } from '@/utils/aiSchemas';
+import type { AIOutputCheck } from '@/utils/aiSchemas';
+import { aiLoggingService } from './aiLoggingService';
+
+/**
+ * Chat completions against OpenAI or any server speaking the same API
+ * (self-hosted models behind vLLM, Ollama, LiteLLM and the like)
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly id: AIProviderId = 'openai';
+
+  constructor(private readonly config: AIProviderConfig) {}
+
+  isAvailable(): boolean {
+    return !!this.config.apiKey;
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletionResult> {
+    if (!this.config.apiKey) {
+      return { success: false, provider: this.id, error: 'AI API key not configured' };
+    }
+
+    let lastError = 'Unknown error occurred';
+    for (let attempt = 0; attempt <= this.config.retries; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, getRetryDelay(attempt - 1)));
+      }
+
+      const outcome = await this.send(request);
+      if (outcome.result) return outcome.result;
+
+      lastError = outcome.error;
+      if (!outcome.retryable) break;
+      console.warn(`⚠️ AIProvider: ${request.feature} attempt ${attempt + 1} failed: ${lastError}`);
+    }
+
+    return { success: false, provider: this.id, error: lastError };
+  }
+
+  private async send(
+    request: AICompletionRequest
+  ): Promise<{ result?: AICompletionResult; error: string; retryable: boolean }> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.config.apiKey}`,
+          'Content-Type': 'application/json',
+          ...(this.config.orgId && { 'OpenAI-Organization': this.config.orgId }),
+        },
+        body: JSON.stringify({
+          model: this.config.model,
+          messages: request.messages,
+          max_tokens: request.maxTokens ?? this.config.maxTokens,
+          temperature: request.temperature ?? this.config.temperature,
+          ...(request.json && { response_format: { type: 'json_object' } }),
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        return {
+          error: `AI API error: ${errorData.error?.message || response.statusText || response.status}`,
+          retryable: isRetryableStatus(response.status),
+        };
+      }
+
+      const data = await response.json();
+      const content: string | undefined = data.choices?.[0]?.message?.content;
+      if (!content) {
+        return { error: 'No response content from AI provider', retryable: false };
+      }
+
+      return {
+        result: {
+          success: true,
+          data: content.trim(),
+          provider: this.id,
+          tokensUsed: data.usage?.total_tokens
+            ?? estimateTokens(request.messages.map(message => message.content).join('') + content),
+        },
+        error: '',
+        retryable: false,
+      };
+    } catch (error) {
+      const timedOut = controller.signal.aborted;
+      return {
+        error: timedOut
+          ? `AI request timed out after ${this.config.timeoutMs}ms`
+          : error instanceof Error ? error.message : 'Unknown error occurred',
+        retryable: true,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Offline stand-in: answers from templates, needs no network and costs no
+ * tokens. Features without a template report an error like a failed call
+ */
+export class LocalTemplateProvider implements AIProvider {
+  readonly id: AIProviderId = 'local';
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletionResult> {
+    const data = buildTemplateResponse(request.feature, request.context);
+    if (data === null) {
+      return {
+        success: false,
+        provider: this.id,
+        error: 'This AI feature needs a connection to an AI provider',
+      };
+    }
+    return { success: true, data, provider: this.id, tokensUsed: 0 };
+  }
+}
+
+// Expo only inlines EXPO_PUBLIC_* variables that are read by name
+const AI_ENV: Record<string, string | undefined> = {
+  EXPO_PUBLIC_AI_BASE_URL: process.env.EXPO_PUBLIC_AI_BASE_URL,
+  EXPO_PUBLIC_AI_API_KEY: process.env.EXPO_PUBLIC_AI_API_KEY,
+  EXPO_PUBLIC_AI_MODEL: process.env.EXPO_PUBLIC_AI_MODEL,
+  EXPO_PUBLIC_AI_TIMEOUT_MS: process.env.EXPO_PUBLIC_AI_TIMEOUT_MS,
+  EXPO_PUBLIC_AI_RETRIES: process.env.EXPO_PUBLIC_AI_RETRIES,
+  EXPO_PUBLIC_AI_CACHE_TTL_MS: process.env.EXPO_PUBLIC_AI_CACHE_TTL_MS,
+  EXPO_PUBLIC_OPENAI_API_KEY: process.env.EXPO_PUBLIC_OPENAI_API_KEY,
+  EXPO_PUBLIC_OPENAI_ORG_ID: process.env.EXPO_PUBLIC_OPENAI_ORG_ID,
+  EXPO_PUBLIC_OPENAI_MODEL: process.env.EXPO_PUBLIC_OPENAI_MODEL,
+  EXPO_PUBLIC_OPENAI_MAX_TOKENS: process.env.EXPO_PUBLIC_OPENAI_MAX_TOKENS,
+  EXPO_PUBLIC_OPENAI_TEMPERATURE: process.env.EXPO_PUBLIC_OPENAI_TEMPERATURE,
+};
+
+class AIProviderService {
+  private config: AIProviderConfig = readAIConfig(AI_ENV);
+  private budgets: AITokenBudgets = parseTokenBudgets(process.env.EXPO_PUBLIC_AI_TOKEN_BUDGETS);
+  private usage: AITokenUsage | undefined;
+  private cache = new Map<string, { result: AICompletionResult; expiresAt: number }>();
+  private readonly local = new LocalTemplateProvider();
+  private remote: AIProvider | null = process.env.EXPO_PUBLIC_AI_PROVIDER === 'local'
+    ? null
+    : new OpenAICompatibleProvider(this.config);
+
+  /**
+   * Swap the remote provider, e.g. for a different vendor. Pass null to run
+   * on the local templates only
+   */
+  setProvider(provider: AIProvider | null): void {
+    this.remote = provider;
+    this.cache.clear();
+  }
+
+  setTokenBudgets(budgets: AITokenBudgets): void {
+    this.budgets = { ...this.budgets, ...budgets };
+  }
+
+  // True when requests can reach a real model; false means templates only
+  isRemoteAvailable(): boolean {
+    return !!this.remote && this.remote.isAvailable();
+  }
+
+  getRemainingTokens(feature: AIFeature): number {
+    return getRemainingTokens(getUsageForDay(this.usage, new Date()), this.budgets, feature);
+  }
+
+  async complete(request: AICompletionRequest): Promise<AICompletionResult> {
+    const useCache = request.cache !== false;
+    const cacheKey = getCacheKey(request, this.config.model);
+
+    if (useCache) {
+      const hit = this.cache.get(cacheKey);
+      if (hit && hit.expiresAt > Date.now()) {
+        return { ...hit.result, cached: true };
+      }
+      this.cache.delete(cacheKey);
+    }
+
+    const result = await this.completeUncached(request);
+
+    if (useCache && result.success && result.provider !== 'local') {
+      this.cache.set(cacheKey, { result, expiresAt: Date.now() + this.config.cacheTtlMs });
+    }
+    return result;
+  }
+
+  /**
+   * Ask for data matching one of the output schemas. An answer that fails
+   * validation and cannot be repaired is sent back to the model once with the
+   * errors; if that fails too the offline template answers. Every outcome is
+   * logged so prompts that often fail show up for admins
+   */
+  async completeStructured<K extends AIOutputSchemaId>(
+    request: AICompletionRequest,
+    schema: K,
+    log: { jobId?: string; staffId?: string } = {}
+  ): Promise<AIStructuredResult<AIOutputTypes[K]>> {
+    const instruction = describeOutputSchema(schema);
+    const hasSystem = request.messages.some(message => message.role === 'system');
+    const schemaRequest: AICompletionRequest = {
+      ...request,
+      json: true,
+      messages: hasSystem
+        ? request.messages.map(message => message.role === 'system'
+          ? { ...message, content: `${message.content}\n\n${instruction}` }
+          : message)
+        : [{ role: 'system', content: instruction }, ...request.messages],
+    };
+
+    const remote = this.isRemoteAvailable();
+    const check = (answer: AICompletionResult): AIOutputCheck<K> =>
+      answer.success && answer.data !== undefined
+        ? validateAIOutput(schema, answer.data)
+        : { status: 'invalid', errors: [answer.error ?? 'No response'] };
+
+    let attempts = remote ? 1 : 0;
+    let result = await this.complete(schemaRequest);
+    let outcome = check(result);
+    let status: AIValidationStatus = outcome.status;
+    let errors = outcome.errors;
+
+    if (outcome.status !== 'invalid') {
+      // A local answer while a remote provider is set means the call failed or ran out of budget
+      if (remote && result.provider === 'local') status = 'fallback';
+    } else if (result.provider !== 'local' && result.data !== undefined) {
+      // Never serve the bad answer from the cache
+      this.cache.delete(getCacheKey(schemaRequest, this.config.model));
+
+      attempts++;
+      result = await this.complete({
+        ...schemaRequest,
+        cache: false,
+        messages: [
+          ...schemaRequest.messages,
+          { role: 'assistant', content: result.data },
+          {
+            role: 'user',
+            content: `That reply did not match the schema: ${errors.join('; ')}. Reply again with only the corrected JSON object.`,
+          },
+        ],
+      });
+      outcome = check(result);
+
+      if (outcome.status !== 'invalid') {
+        status = result.provider === 'local' ? 'fallback' : 'retried';
+      } else {
+        errors = outcome.errors;
+        result = await this.local.complete(request);
+        outcome = check(result);
+        if (outcome.status !== 'invalid') status = 'fallback';
+      }
+    }
+
+    await aiLoggingService.logValidation({
+      feature: request.feature,
+      schema,
+      status,
+      errors,
+      attempts,
+      ...(result.provider && { provider: result.provider }),
+      ...(log.jobId && { jobId: log.jobId }),
+      ...(log.staffId && { staffId: log.staffId }),
+    });
+
+    const validation = { schema, status, errors, attempts };
+    if (status === 'invalid' || !outcome.data) {
+      return {
+        success: false,
+        raw: result.data,
+        error: result.error ?? `AI answer did not match the ${schema} schema`,
+        provider: result.provider,
+        validation,
+      };
+    }
+    return { success: true, data: outcome.data, raw: result.data, provider: result.provider, validation };
+  }
+
+  private async completeUncached(request: AICompletionRequest): Promise<AICompletionResult> {
+    if (!this.remote || !this.remote.isAvailable()) {
+      return this.local.complete(request);
+    }
+
+    const usage = getUsageForDay(this.usage, new Date());
+    const estimate = estimateRequestTokens(request, this.config.maxTokens);
+    if (!hasBudgetFor(usage, this.budgets, request.feature, estimate)) {
+      console.warn(`⚠️ AIProvider: ${request.feature} token budget spent for today, using local templates`);
+      return this.local.complete(request);
+    }
+
+    const result = await this.remote.complete(request);
+    this.usage = recordTokenUsage(usage, request.feature, result.tokensUsed ?? 0);
+
+    if (result.success) return result;
+
+    console.warn(`⚠️ AIProvider: ${request.feature} failed, using local templates:`, result.error);
+    const fallback = await this.local.complete(request);
+    return fallback.success ? fallback : result;
+  }
+}
+
+// Export singleton instance
+export const aiProviderService = new AIProviderService();
+export default aiProviderService;
@@ -0,0 +1,272 @@
+/**
+ * Announcement Service
+ * Team-wide notices from the office ("new linen policy from Monday", "storm
+ * warning, secure the pool furniture") targeted by role, property or named
+ * staff.
+ *
+ * Announcements live in `announcements/{id}` with the resolved recipient list
+ * and per-recipient read and acknowledgement times. Each recipient also gets
+ * an `announcement` entry in `staff_notifications`, so it shows in the
+ * notifications tab through the usual display service, and a push through
+ * the unified notification service. Entries that need acknowledging stay
+ * pinned there until the recipient acknowledges them.
+ */
+
+import {
+  collection,
+  doc,
+  getDocs,
+  onSnapshot,
+  query,
+  where,
+  orderBy,
+  limit,
+  updateDoc,
+  writeBatch,
+  serverTimestamp
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { firebaseUidService } from '@/services/firebaseUidService';
+import type {
+  Announcement,
+  AnnouncementDraft,
+  AnnouncementReceiptRef,
+  AudienceStaff
+} from '@/types/announcement';
+import {
+  describeAudience,
+  getRecipientStatuses,
+  getStaffPropertyIds,
+  resolveAudience,
+  validateAnnouncement,
+  AudienceJob
+} from '@/utils/announcements';
+
+// Firestore `in` queries take at most 30 values
+const IN_QUERY_LIMIT = 30;
+
+// Batches cap out at 500 writes; the announcement itself takes one
+const NOTIFICATIONS_PER_BATCH = 400;
+
+const toDate = (value: any): Date | undefined =>
+  value?.toDate ? value.toDate() : value ? new Date(value) : undefined;
+
+const toDateMap = (value: Record<string, any> | undefined): Record<string, Date> =>
+  Object.fromEntries(Object.entries(value ?? {})
+    .map(([id, time]) => [id, toDate(time)])
+    .filter((entry): entry is [string, Date] => entry[1] !== undefined));
+
+class AnnouncementService {
+  private readonly ANNOUNCEMENTS_COLLECTION = 'announcements';
+  private readonly NOTIFICATIONS_COLLECTION = 'staff_notifications';
+  private readonly STAFF_COLLECTION = 'staff_accounts';
+  private readonly JOBS_COLLECTION = 'jobs';
+  private readonly LIST_LIMIT = 50;
+
+  /**
+   * Active staff for the audience picker. Pass property ids to fill in which
+   * of those properties each staff member works at.
+   */
+  async getAudienceStaff(propertyIds: string[] = []): Promise<AudienceStaff[]> {
+    const db = await getDb();
+    const [staffSnapshot, propertyLinks] = await Promise.all([
+      getDocs(collection(db, this.STAFF_COLLECTION)),
+      this.getPropertyLinks(propertyIds),
+    ]);
+
+    return staffSnapshot.docs
+      .filter(staffDoc => staffDoc.data().isActive !== false)
+      .map(staffDoc => ({
+        id: staffDoc.id,
+        name: staffDoc.data().name || 'Unnamed',
+        ...(staffDoc.data().role && { role: staffDoc.data().role }),
+        propertyIds: propertyLinks.get(staffDoc.id) || [],
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Resolve the audience, store the announcement and deliver it to every
+   * recipient in-app and by push
+   */
+  async send(
+    draft: AnnouncementDraft,
+    author: { id: string; name: string },
+    propertyNames: Record<string, string> = {}
+  ): Promise<string> {
+    const errors = validateAnnouncement(draft);
+    if (errors.length > 0) {
+      throw new Error(errors.join('\n'));
+    }
+
+    const staff = await this.getAudienceStaff(draft.audience.type === 'property' ? draft.audience.propertyIds : []);
+    const recipients = resolveAudience(draft.audience, staff);
+    if (recipients.length === 0) {
+      throw new Error('Nobody matches this audience');
+    }
+
+    const db = await getDb();
+    const announcementRef = doc(collection(db, this.ANNOUNCEMENTS_COLLECTION));
+    const title = draft.title.trim();
+    const body = draft.body.trim();
+    const firebaseUids = await Promise.all(recipients.map(recipient => firebaseUidService.getFirebaseUid(recipient.id)));
+
+    for (let start = 0; start < recipients.length; start += NOTIFICATIONS_PER_BATCH) {
+      const batch = writeBatch(db);
+      if (start === 0) {
+        batch.set(announcementRef, {
+          title,
+          body,
+          audience: draft.audience,
+          audienceLabel: describeAudience(draft.audience, propertyNames),
+          priority: draft.priority,
+          requiresAck: draft.requiresAck,
+          recipients,
+          recipientIds: recipients.map(recipient => recipient.id),
+          readBy: {},
+          acknowledgedBy: {},
+          createdBy: author.id,
+          createdByName: author.name,
+          createdAt: serverTimestamp(),
+        });
+      }
+      recipients.slice(start, start + NOTIFICATIONS_PER_BATCH).forEach((recipient, index) => {
+        batch.set(doc(collection(db, this.NOTIFICATIONS_COLLECTION)), {
+          userId: firebaseUids[start + index] || recipient.id,
+          staffId: recipient.id,
+          type: 'announcement',
+          title,
+          message: body,
+          announcementId: announcementRef.id,
+          requiresAck: draft.requiresAck,
+          sender: author.name,
+          priority: draft.priority === 'urgent' ? 'high' : 'medium',
+          read: false,
+          timestamp: serverTimestamp(),
+        });
+      });
+      await batch.commit();
+    }
+
+    console.log(`📢 AnnouncementService: Sent "${title}" to ${recipients.length} staff`);
+
+    import('./unifiedJobNotificationService')
+      .then(({ unifiedJobNotificationService }) => unifiedJobNotificationService.sendAnnouncementNotification(
+        recipients.map(recipient => recipient.id),
+        { announcementId: announcementRef.id, title, body, priority: draft.priority, requiresAck: draft.requiresAck }
+      ))
+      .catch(error => console.error('❌ AnnouncementService: Failed to push announcement:', error));
+
+    return announcementRef.id;
+  }
+
+  /**
+   * Push the announcement again to everyone who has not read it, or not
+   * acknowledged it when acknowledgement is required
+   */
+  async sendReminder(announcement: Announcement): Promise<number> {
+    const outstanding = getRecipientStatuses(announcement)
+      .filter(entry => entry.status === 'unread' || (announcement.requiresAck && entry.status === 'read'))
+      .map(entry => entry.recipient.id);
+    if (outstanding.length === 0) return 0;
+
+    const { unifiedJobNotificationService } = await import('./unifiedJobNotificationService');
+    await unifiedJobNotificationService.sendAnnouncementNotification(outstanding, {
+      announcementId: announcement.id,
+      title: announcement.title,
+      body: announcement.body,
+      priority: announcement.priority,
+      requiresAck: announcement.requiresAck,
+      reminder: true,
+    });
+    console.log(`🔔 AnnouncementService: Reminded ${outstanding.length} staff about "${announcement.title}"`);
+    return outstanding.length;
+  }
+
+  subscribeToAnnouncements(callback: (announcements: Announcement[]) => void): () => void {
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    getDb().then(db => {
+      if (cancelled) return;
+      unsubscribe = onSnapshot(
+        query(collection(db, this.ANNOUNCEMENTS_COLLECTION), orderBy('createdAt', 'desc'), limit(this.LIST_LIMIT)),
+        snapshot => callback(snapshot.docs.map(announcementDoc => this.mapAnnouncement(announcementDoc.id, announcementDoc.data()))),
+        error => {
+          console.error('❌ AnnouncementService: Announcements listener error:', error);
+          callback([]);
+        }
+      );
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }
+
+  async recordRead({ announcementId, staffId }: AnnouncementReceiptRef): Promise<void> {
+    const db = await getDb();
+    await updateDoc(doc(db, this.ANNOUNCEMENTS_COLLECTION, announcementId), {
+      [`readBy.${staffId}`]: serverTimestamp(),
+    });
+  }
+
+  async recordAcknowledgement({ announcementId, staffId }: AnnouncementReceiptRef): Promise<void> {
+    const db = await getDb();
+    await updateDoc(doc(db, this.ANNOUNCEMENTS_COLLECTION, announcementId), {
+      [`acknowledgedBy.${staffId}`]: serverTimestamp(),
+    });
+    console.log(`✅ AnnouncementService: ${staffId} acknowledged ${announcementId}`);
+  }
+
+  /**
+   * Which of the given properties each staff member has open or recent jobs at
+   */
+  private async getPropertyLinks(propertyIds: string[]): Promise<Map<string, string[]>> {
+    if (propertyIds.length === 0) return new Map();
+
+    const db = await getDb();
+    const jobs: AudienceJob[] = [];
+    for (let start = 0; start < propertyIds.length; start += IN_QUERY_LIMIT) {
+      const snapshot = await getDocs(query(
+        collection(db, this.JOBS_COLLECTION),
+        where('propertyId', 'in', propertyIds.slice(start, start + IN_QUERY_LIMIT))
+      ));
+      snapshot.forEach(jobDoc => {
+        const data = jobDoc.data();
+        jobs.push({
+          propertyId: data.propertyId,
+          assignedStaffId: data.assignedStaffId,
+          assignedTo: data.assignedTo,
+          status: data.status,
+          scheduledDate: toDate(data.scheduledDate),
+        });
+      });
+    }
+    return getStaffPropertyIds(jobs);
+  }
+
+  private mapAnnouncement(id: string, data: any): Announcement {
+    return {
+      id,
+      title: data.title || '',
+      body: data.body || '',
+      audience: data.audience || { type: 'all' },
+      audienceLabel: data.audienceLabel || '',
+      priority: data.priority || 'normal',
+      requiresAck: !!data.requiresAck,
+      recipients: data.recipients || [],
+      recipientIds: data.recipientIds || [],
+      readBy: toDateMap(data.readBy),
+      acknowledgedBy: toDateMap(data.acknowledgedBy),
+      createdBy: data.createdBy || '',
+      createdByName: data.createdByName || '',
+      // Fresh writes have no server timestamp yet
+      createdAt: toDate(data.createdAt) || new Date(),
+    };
+  }
+}
+
+export const announcementService = new AnnouncementService();
+export default announcementService;
@@ -28,8 +28,8 @@ export interface StaffAccount {
   createdAt?: any;
   updatedAt?: any;
   // New fields for PIN-protected profiles
-  pin?: string; // 4-digit PIN code
   photo?: string; // Profile photo URL
+  hasPIN?: boolean; // the hash itself lives in staff_pins
   // Internal fields (not exposed to client)
   passwordHash?: string;
 }
@@ -0,0 +1,321 @@
+/**
+ * Availability Service
+ * Stores when staff work and answers whether someone can take a job
+ * (utils/availability):
+ *
+ * - `staff_availability/{staffId}`: recurring weekly working hours
+ * - `availability_exceptions`: holidays, sick days, reduced and extra hours
+ * - `leave_requests`: submitted by staff, approved or rejected by an admin
+ * - `shifts`: planned from the weekly roster
+ *
+ * The assignment validator, the recommendation engine and through it job
+ * offers and escalation reassignment all go through checkAvailability.
+ */
+
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  setDoc,
+  where,
+  serverTimestamp
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { checkAvailability, getDayAvailability, WEEKDAYS } from '@/utils/availability';
+import { toDateKey } from '@/utils/maintenanceRecurrence';
+import type {
+  AvailabilityCheck,
+  AvailabilityException,
+  DayAvailability,
+  LeaveRequest,
+  LeaveRequestStatus,
+  LeaveType,
+  Shift,
+  StaffSchedule,
+  WeeklyWorkingHours,
+  Weekday,
+  WorkingHours
+} from '@/types/availability';
+
+export interface RosterStaff {
+  id: string;
+  name: string;
+  role?: string;
+  availability?: Partial<Record<Weekday, boolean>>;
+}
+
+export interface LeaveRequestInput {
+  type: LeaveType;
+  startDate: string;
+  endDate: string;
+  hours?: WorkingHours;
+  reason?: string;
+}
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toDate = (value: any): Date | undefined =>
+  value?.toDate ? value.toDate() : value ? new Date(value) : undefined;
+
+const toLeaveRequest = (id: string, data: any): LeaveRequest => ({
+  id,
+  staffId: data.staffId,
+  ...(data.staffName && { staffName: data.staffName }),
+  type: data.type || 'annual',
+  startDate: data.startDate,
+  endDate: data.endDate,
+  ...(data.hours && { hours: data.hours }),
+  ...(data.reason && { reason: data.reason }),
+  status: data.status || 'pending',
+  requestedAt: toDate(data.requestedAt) || new Date(),
+  ...(data.reviewedBy && { reviewedBy: data.reviewedBy }),
+  ...(data.reviewedAt && { reviewedAt: toDate(data.reviewedAt) }),
+  ...(data.reviewNote && { reviewNote: data.reviewNote }),
+});
+
+class AvailabilityService {
+  private readonly HOURS_COLLECTION = 'staff_availability';
+  private readonly EXCEPTIONS_COLLECTION = 'availability_exceptions';
+  private readonly LEAVE_COLLECTION = 'leave_requests';
+  private readonly SHIFTS_COLLECTION = 'shifts';
+  private readonly STAFF_COLLECTION = 'staff_accounts';
+
+  /**
+   * Whether the staff member can take a job starting at `start`. Pass the
+   * staff record when loaded so its weekday booleans need no extra read.
+   */
+  async checkAvailability(
+    staff: string | Pick<RosterStaff, 'id' | 'availability'>,
+    start: Date,
+    durationMinutes: number
+  ): Promise<AvailabilityCheck> {
+    const staffId = typeof staff === 'string' ? staff : staff.id;
+    const legacyDays = typeof staff === 'string' ? await this.getLegacyDays(staffId) : staff.availability;
+    const date = toDateKey(start);
+    const schedule = await this.getSchedule(staffId, date, date, legacyDays);
+    return checkAvailability(schedule, start, durationMinutes);
+  }
+
+  /**
+   * Everything that decides one staff member's days between two dates
+   */
+  async getSchedule(
+    staffId: string,
+    from: string,
+    to: string,
+    legacyDays?: Partial<Record<Weekday, boolean>>
+  ): Promise<StaffSchedule> {
+    const schedules = await this.getSchedules([{ id: staffId, name: '', availability: legacyDays }], from, to);
+    return schedules.get(staffId) as StaffSchedule;
+  }
+
+  async getSchedules(staff: RosterStaff[], from: string, to: string): Promise<Map<string, StaffSchedule>> {
+    const db = await getDb();
+    const single = staff.length === 1 ? staff[0].id : null;
+    const byStaff = single ? [where('staffId', '==', single)] : [];
+
+    const [hoursDocs, exceptionDocs, leaveDocs, shiftDocs] = await Promise.all([
+      single
+        ? getDoc(doc(db, this.HOURS_COLLECTION, single)).then(hoursDoc => (hoursDoc.exists() ? [hoursDoc] : []))
+        : getDocs(collection(db, this.HOURS_COLLECTION)).then(snapshot => snapshot.docs),
+      getDocs(query(collection(db, this.EXCEPTIONS_COLLECTION), where('date', '>=', from), where('date', '<=', to)))
+        .then(snapshot => snapshot.docs),
+      getDocs(query(collection(db, this.LEAVE_COLLECTION), where('status', '==', 'approved'), ...byStaff))
+        .then(snapshot => snapshot.docs),
+      getDocs(query(collection(db, this.SHIFTS_COLLECTION), where('date', '>=', from), where('date', '<=', to)))
+        .then(snapshot => snapshot.docs),
+    ]);
+
+    const weeklyHours = new Map(hoursDocs.map(hoursDoc => [hoursDoc.id, hoursDoc.data()?.weeklyHours as WeeklyWorkingHours]));
+    const exceptions = exceptionDocs.map(exceptionDoc => ({ id: exceptionDoc.id, ...exceptionDoc.data() }) as AvailabilityException);
+    const leave = leaveDocs
+      .map(leaveDoc => toLeaveRequest(leaveDoc.id, leaveDoc.data()))
+      .filter(request => request.endDate >= from && request.startDate <= to);
+    const shifts = shiftDocs.map(shiftDoc => ({ id: shiftDoc.id, ...shiftDoc.data() }) as Shift);
+
+    return new Map(staff.map(member => [member.id, {
+      staffId: member.id,
+      ...(weeklyHours.get(member.id) && { weeklyHours: weeklyHours.get(member.id) }),
+      ...(member.availability && { legacyDays: member.availability }),
+      exceptions: exceptions.filter(exception => exception.staffId === member.id),
+      leave: leave.filter(request => request.staffId === member.id),
+      shifts: shifts.filter(shift => shift.staffId === member.id),
+    }]));
+  }
+
+  /**
+   * Active staff and their availability for each of the given dates
+   */
+  async getRoster(dates: string[]): Promise<{ staff: RosterStaff; days: DayAvailability[]; schedule: StaffSchedule }[]> {
+    const staff = await this.getActiveStaff();
+    const schedules = await this.getSchedules(staff, dates[0], dates[dates.length - 1]);
+    return staff.map(member => {
+      const schedule = schedules.get(member.id) as StaffSchedule;
+      return { staff: member, schedule, days: dates.map(date => getDayAvailability(schedule, date)) };
+    });
+  }
+
+  async setWeeklyHours(staffId: string, weeklyHours: WeeklyWorkingHours, updatedBy: string): Promise<void> {
+    const db = await getDb();
+    const cleaned = Object.fromEntries(WEEKDAYS.map(day => [day, weeklyHours[day] || []]));
+    await setDoc(doc(db, this.HOURS_COLLECTION, staffId), {
+      staffId,
+      weeklyHours: cleaned,
+      updatedBy,
+      updatedAt: serverTimestamp(),
+    });
+  }
+
+  async addException(exception: Omit<AvailabilityException, 'id'>): Promise<string> {
+    const db = await getDb();
+    const ref = await addDoc(collection(db, this.EXCEPTIONS_COLLECTION), {
+      staffId: exception.staffId,
+      date: exception.date,
+      kind: exception.kind,
+      ...(exception.hours && { hours: exception.hours }),
+      ...(exception.reason && { reason: exception.reason }),
+      createdBy: exception.createdBy,
+      createdAt: serverTimestamp(),
+    });
+    console.log(`📅 Availability: ${exception.kind} for ${exception.staffId} on ${exception.date}`);
+    return ref.id;
+  }
+
+  async removeException(exceptionId: string): Promise<void> {
+    const db = await getDb();
+    await deleteDoc(doc(db, this.EXCEPTIONS_COLLECTION, exceptionId));
+  }
+
+  async saveShift(shift: Omit<Shift, 'id'> & { id?: string }): Promise<string> {
+    const db = await getDb();
+    const ref = shift.id ? doc(db, this.SHIFTS_COLLECTION, shift.id) : doc(collection(db, this.SHIFTS_COLLECTION));
+    await setDoc(ref, {
+      staffId: shift.staffId,
+      date: shift.date,
+      start: shift.start,
+      end: shift.end,
+      ...(shift.note && { note: shift.note }),
+      createdBy: shift.createdBy,
+      updatedAt: serverTimestamp(),
+    });
+    return ref.id;
+  }
+
+  async deleteShift(shiftId: string): Promise<void> {
+    const db = await getDb();
+    await deleteDoc(doc(db, this.SHIFTS_COLLECTION, shiftId));
+  }
+
+  async submitLeaveRequest(staff: { id: string; name?: string }, input: LeaveRequestInput): Promise<string> {
+    if (!DATE_KEY_PATTERN.test(input.startDate) || !DATE_KEY_PATTERN.test(input.endDate)) {
+      throw new Error('Dates must be in YYYY-MM-DD format');
+    }
+    if (input.endDate < input.startDate) {
+      throw new Error('Leave cannot end before it starts');
+    }
+    if (input.hours && input.startDate !== input.endDate) {
+      throw new Error('Part-day leave must start and end on the same day');
+    }
+
+    const db = await getDb();
+    const ref = await addDoc(collection(db, this.LEAVE_COLLECTION), {
+      staffId: staff.id,
+      ...(staff.name && { staffName: staff.name }),
+      type: input.type,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      ...(input.hours && { hours: input.hours }),
+      ...(input.reason?.trim() && { reason: input.reason.trim() }),
+      status: 'pending',
+      requestedAt: serverTimestamp(),
+    });
+    console.log(`🌴 Availability: Leave requested by ${staff.id} (${input.startDate} → ${input.endDate})`);
+    return ref.id;
+  }
+
+  async cancelLeaveRequest(staffId: string, requestId: string): Promise<void> {
+    await this.updateLeaveStatus(requestId, 'cancelled', staffId, request => {
+      if (request.staffId !== staffId) throw new Error('You can only cancel your own leave requests');
+    });
+  }
+
+  async reviewLeaveRequest(reviewerId: string, requestId: string, approve: boolean, note?: string): Promise<void> {
+    await this.updateLeaveStatus(requestId, approve ? 'approved' : 'rejected', reviewerId, request => {
+      if (request.staffId === reviewerId) throw new Error('You cannot review your own leave request');
+    }, note);
+  }
+
+  async getLeaveRequests(filter: { staffId?: string; status?: LeaveRequestStatus }): Promise<LeaveRequest[]> {
+    const db = await getDb();
+    const snapshot = await getDocs(query(
+      collection(db, this.LEAVE_COLLECTION),
+      ...(filter.staffId ? [where('staffId', '==', filter.staffId)] : []),
+      ...(filter.status ? [where('status', '==', filter.status)] : [])
+    ));
+    return snapshot.docs
+      .map(leaveDoc => toLeaveRequest(leaveDoc.id, leaveDoc.data()))
+      .sort((a, b) => b.requestedAt.getTime() - a.requestedAt.getTime());
+  }
+
+  /**
+   * Only pending requests change, so a request cannot be approved after
+   * it was cancelled or reviewed by someone else
+   */
+  private async updateLeaveStatus(
+    requestId: string,
+    status: LeaveRequestStatus,
+    actorId: string,
+    check: (request: LeaveRequest) => void,
+    note?: string
+  ): Promise<void> {
+    const db = await getDb();
+    const ref = doc(db, this.LEAVE_COLLECTION, requestId);
+
+    await runTransaction(db, async transaction => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists()) throw new Error('Leave request not found');
+
+      const request = toLeaveRequest(snapshot.id, snapshot.data());
+      check(request);
+      if (request.status !== 'pending') {
+        throw new Error(`Leave request is already ${request.status}`);
+      }
+
+      transaction.update(ref, {
+        status,
+        ...(status !== 'cancelled' && { reviewedBy: actorId, reviewedAt: serverTimestamp() }),
+        ...(note?.trim() && { reviewNote: note.trim() }),
+      });
+    });
+
+    console.log(`🌴 Availability: Leave ${requestId} ${status} by ${actorId}`);
+  }
+
+  private async getLegacyDays(staffId: string): Promise<Partial<Record<Weekday, boolean>> | undefined> {
+    const db = await getDb();
+    const staffDoc = await getDoc(doc(db, this.STAFF_COLLECTION, staffId));
+    return staffDoc.exists() ? staffDoc.data().availability : undefined;
+  }
+
+  private async getActiveStaff(): Promise<RosterStaff[]> {
+    const db = await getDb();
+    const snapshot = await getDocs(collection(db, this.STAFF_COLLECTION));
+    return snapshot.docs
+      .filter(staffDoc => staffDoc.data().isActive !== false)
+      .map(staffDoc => ({
+        id: staffDoc.id,
+        name: staffDoc.data().name || 'Unnamed',
+        ...(staffDoc.data().role && { role: staffDoc.data().role }),
+        ...(staffDoc.data().availability && { availability: staffDoc.data().availability }),
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
+
+export const availabilityService = new AvailabilityService();
+export default availabilityService;
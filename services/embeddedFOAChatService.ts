@@ -19,11 +19,17 @@ import {
 import { db } from '@/lib/firebase';
 import { JobData } from '@/types/jobData';
 import { jobChecklistService } from './jobChecklistService';
+import { aiProviderService } from './aiProviderService';
+import { knowledgeBaseService } from './knowledgeBaseService';
+import { getSafetyTips } from '@/utils/aiTemplates';
+import { buildKnowledgePrompt, toCitation } from '@/utils/knowledgeBase';
+import type { KnowledgeCitation } from '@/types/knowledgeBase';
 
 export interface ChatMessage {
   id: string;
   jobId: string;
   staffId: string;
+  propertyId?: string; // lets helpful answers be promoted to the property's knowledge base
   sender: 'staff' | 'foa';
   message: string;
   timestamp: Date;
@@ -39,6 +45,9 @@ export interface ChatMessage {
     responseTime?: number;
     helpful?: boolean; // User feedback
     suggestions?: string[];
+    question?: string; // the staff question this answers
+    citations?: KnowledgeCitation[]; // knowledge base entries the answer drew on, as [1], [2]…
+    promotedEntryId?: string; // set once an admin adds the answer to the knowledge base
   };
 }
 
@@ -99,6 +108,12 @@ class EmbeddedFOAChatService {
       }
     });
 
+    // Keep the property's knowledge base on the device for offline answers
+    if (job.propertyRef?.id) {
+      knowledgeBaseService.prefetch(job.propertyRef.id)
+        .catch(error => console.warn('⚠️ Knowledge base prefetch failed:', error));
+    }
+
     // Set up context monitoring
     this.setupContextMonitoring(session);
 
@@ -119,6 +134,7 @@ class EmbeddedFOAChatService {
       const staffMessage = await this.saveMessage({
         jobId,
         staffId,
+        ...(job?.propertyRef?.id && { propertyId: job.propertyRef.id }),
         sender: 'staff',
         message,
         timestamp: new Date(),
@@ -138,20 +154,25 @@ class EmbeddedFOAChatService {
   }
 
   /**
-   * Generate and send FOA response
+   * Answer a staff question about a job, drawing on the property knowledge
+   * base. Used by this chat and by the FOA in the job's team thread
    */
-  private async generateFOAResponse(
-    jobId: string,
+  async answerQuestion(
+    job: JobData,
     staffId: string,
-    userMessage: string,
-    job: JobData
-  ): Promise<void> {
-    try {
-      // Get current context
-      const context = await this.buildJobContext(job, staffId);
-      
-      // Build context-aware prompt
-      const contextPrompt = `
+    userMessage: string
+  ): Promise<Pick<ChatMessage, 'message' | 'context' | 'metadata'>> {
+    // Get current context
+    const context = await this.buildJobContext(job, staffId);
+
+    // Property notes, manuals and past fixes relevant to the question
+    const knowledge = job.propertyRef?.id
+      ? await knowledgeBaseService.search(job.propertyRef.id, userMessage).catch(() => [])
+      : [];
+    const knowledgePrompt = buildKnowledgePrompt(knowledge);
+
+    // Build context-aware prompt
+    const contextPrompt = `
 Job Context:
 - Type: ${job.jobType}
 - Title: ${job.title}
@@ -162,7 +183,7 @@ Current Status:
 - Checklist Progress: ${context.checklistCompleted}/${context.checklistItems} items
 - Time Elapsed: ${Math.round(context.timeElapsed / 60)} minutes
 - Location: ${context.currentLocation || 'Unknown'}
-
+${knowledgePrompt ? `\n${knowledgePrompt}\n` : ''}
 Staff Question: ${userMessage}
 
 Please provide a helpful, practical response as the Field Operations Assistant. Focus on:
@@ -170,32 +191,72 @@ Please provide a helpful, practical response as the Field Operations Assistant.
 2. Safety considerations if relevant
 3. Next steps in their checklist if appropriate
 4. Any tips specific to this property type and job
-
+${knowledgePrompt ? '\nPrefer the property knowledge base over general advice, and cite each entry you use by its number, e.g. [1].\n' : ''}
 Keep responses concise and actionable for field work.`;
 
-      // Create FOA context for the service
-      const foaContext = {
-        job: this.convertJobDataToJobType(job),
-        staffRole: 'field_worker',
-        staffId,
-        location: job.location?.coordinates
-      };
+    const startTime = Date.now();
+    const response = await aiProviderService.complete({
+      feature: 'job_chat',
+      messages: [
+        { role: 'system', content: 'You are the FOA (Field Operations Assistant) helping property staff complete jobs safely and to a high standard.' },
+        { role: 'user', content: contextPrompt },
+      ],
+      context: {
+        jobType: job.jobType,
+        title: job.title,
+        description: job.description,
+        ...(job.propertyRef?.name && { propertyName: job.propertyRef.name }),
+        ...(job.estimatedDuration && { estimatedMinutes: job.estimatedDuration }),
+        question: userMessage,
+        ...(knowledge.length > 0 && {
+          knowledge: knowledge.map(({ entry }) => ({
+            title: entry.title,
+            body: entry.body,
+            ...(entry.location && { location: entry.location }),
+          })),
+        }),
+      },
+      cache: false,
+    });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'No FOA response');
+    }
 
-      // Generate response (AI service no longer available)
-      const fallbackResponse = this.generateFallbackResponse(userMessage, job);
+    return {
+      message: response.data,
+      context: {
+        checklistProgress: Math.round((context.checklistCompleted / Math.max(context.checklistItems, 1)) * 100),
+        currentLocation: context.currentLocation,
+        jobDuration: context.timeElapsed,
+        triggeredBy: 'user_question'
+      },
+      metadata: {
+        // Template answers are generic, so rate them lower than a model's
+        confidence: response.provider === 'local' ? 0.5 : 0.8,
+        responseTime: Date.now() - startTime,
+        question: userMessage,
+        ...(knowledge.length > 0 && { citations: knowledge.map(({ entry }) => toCitation(entry)) })
+      }
+    };
+  }
+
+  /**
+   * Generate and send FOA response
+   */
+  private async generateFOAResponse(
+    jobId: string,
+    staffId: string,
+    userMessage: string,
+    job: JobData
+  ): Promise<void> {
+    try {
+      const answer = await this.answerQuestion(job, staffId, userMessage);
 
       await this.sendFOAMessage(jobId, staffId, {
-        message: fallbackResponse,
-        messageType: 'text',
-        context: {
-          checklistProgress: Math.round((context.checklistCompleted / Math.max(context.checklistItems, 1)) * 100),
-          currentLocation: context.currentLocation,
-          jobDuration: context.timeElapsed,
-          triggeredBy: 'user_question'
-        },
-        metadata: {
-          confidence: 0.8 // Default confidence
-        }
+        ...(job.propertyRef?.id && { propertyId: job.propertyRef.id }),
+        ...answer,
+        messageType: 'text'
       });
 
     } catch (error) {
@@ -408,26 +469,6 @@ Keep responses concise and actionable for field work.`;
     }
   }
 
-  /**
-   * Convert JobData to Job type for FOA service
-   */
-  private convertJobDataToJobType(job: JobData): any {
-    return {
-      id: job.id,
-      title: job.title,
-      description: job.description,
-      type: job.jobType,
-      priority: job.priority || 'medium',
-      location: {
-        address: job.location?.address || '',
-        coordinates: job.location?.coordinates
-      },
-      propertyId: job.propertyRef?.id || '',
-      assignedTo: job.assignedStaffId,
-      estimatedDuration: job.estimatedDuration || 60
-    };
-  }
-
   /**
    * Get default triggers for job monitoring
    */
@@ -505,25 +546,7 @@ Keep responses concise and actionable for field work.`;
    * Get safety tip for job type
    */
   private getSafetyTipForJobType(jobType: string): string {
-    const safetyTips: Record<string, string[]> = {
-      maintenance: [
-        "Always turn off power before electrical work",
-        "Use proper ladder safety techniques",
-        "Wear appropriate protective equipment"
-      ],
-      cleaning: [
-        "Ensure proper ventilation when using chemicals",
-        "Wear gloves when handling cleaning products",
-        "Be aware of wet floor hazards"
-      ],
-      inspection: [
-        "Use proper lighting in dark areas",
-        "Be cautious of structural hazards",
-        "Report any safety concerns immediately"
-      ]
-    };
-
-    const tips = safetyTips[jobType] || safetyTips.maintenance;
+    const tips = getSafetyTips(jobType);
     return tips[Math.floor(Math.random() * tips.length)];
   }
 
@@ -560,27 +583,6 @@ Keep responses concise and actionable for field work.`;
 
     return suggestions[jobType] || suggestions.maintenance;
   }
-
-  /**
-   * Generate fallback response when AI service is unavailable
-   */
-  private generateFallbackResponse(userMessage: string, job: JobData): string {
-    const lowerMessage = userMessage.toLowerCase();
-    
-    if (lowerMessage.includes('help') || lowerMessage.includes('how')) {
-      return `I understand you need help with ${job.title}. Please refer to your checklist items and safety protocols. If you need immediate assistance, contact your supervisor.`;
-    }
-    
-    if (lowerMessage.includes('safety') || lowerMessage.includes('safe')) {
-      return `For safety questions regarding ${job.jobType} work, please follow all standard safety protocols and use appropriate protective equipment. If unsure, contact your supervisor immediately.`;
-    }
-    
-    if (lowerMessage.includes('complete') || lowerMessage.includes('finish')) {
-      return `To complete ${job.title}, ensure all checklist items are marked as done and take required photos before marking the job as finished.`;
-    }
-    
-    return `Thanks for your message about ${job.title}. I'm currently unavailable, but please continue with your checklist and contact your supervisor if you need immediate assistance.`;
-  }
 }
 
 export const embeddedFOAChatService = new EmbeddedFOAChatService();
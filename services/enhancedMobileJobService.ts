@@ -13,10 +13,12 @@ import {
   addDoc,
   getDoc,
   getDocs,
-  serverTimestamp,
   Timestamp 
 } from 'firebase/firestore';
 import { getDb } from '../lib/firebase';
+import { planJobTransition, buildStatusUpdate } from '../utils/jobStateMachine';
+import { issueService } from './issueService';
+import { describeIssue } from '../utils/issueTriage';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
   EnhancedMobileJob,
@@ -166,12 +168,24 @@ class EnhancedMobileJobService {
 
       const jobData = jobDoc.data();
       const property = jobData.property || {};
-      
+
+      // Unresolved issues reported on earlier visits
+      const propertyId = jobData.propertyId || property.id;
+      const openIssues = propertyId
+        ? await issueService.getOpenIssues(propertyId).catch(issueError => {
+            console.warn('Error loading open issues:', issueError);
+            return [];
+          })
+        : [];
+
       const propertyContext: PropertyContextData = {
         layout: property.layout || 'Standard layout',
         guestStatus: property.guestStatus || 'unknown',
         lastCleaning: this.formatLastCleaning(property.lastCleaning),
-        previousIssues: property.previousIssues || [],
+        previousIssues: [
+          ...openIssues.map(describeIssue),
+          ...(property.previousIssues || []),
+        ],
         specialNotes: property.specialNotes || [],
         safetyNotes: property.safetyNotes || [],
         amenities: property.amenities || [],
@@ -270,12 +284,35 @@ class EnhancedMobileJobService {
   }
 
   // Job Actions
+  // Validates the move against the job state machine before writing it
+  private async transitionJob(
+    jobId: string,
+    staffId: string,
+    to: 'accepted' | 'in_progress' | 'completed',
+    extraFields: Record<string, any>
+  ): Promise<void> {
+    const db = await getDb();
+    const jobRef = doc(db, 'jobAssignments', jobId);
+    const jobDoc = await getDoc(jobRef);
+    if (!jobDoc.exists()) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    const transition = planJobTransition({
+      from: jobDoc.data().status,
+      to,
+      actor: 'staff',
+      actorId: staffId
+    });
+    await updateDoc(jobRef, {
+      ...buildStatusUpdate(transition),
+      ...extraFields
+    });
+  }
+
   async acceptJob(jobId: string, staffId: string): Promise<boolean> {
     try {
-      const db = await getDb();
-      await updateDoc(doc(db, 'jobAssignments', jobId), {
-        status: 'accepted',
-        acceptedAt: serverTimestamp(),
+      await this.transitionJob(jobId, staffId, 'accepted', {
         acceptedBy: staffId
       });
 
@@ -291,10 +328,7 @@ class EnhancedMobileJobService {
 
   async startJob(jobId: string, staffId: string): Promise<boolean> {
     try {
-      const db = await getDb();
-      await updateDoc(doc(db, 'jobAssignments', jobId), {
-        status: 'in_progress',
-        startedAt: serverTimestamp(),
+      await this.transitionJob(jobId, staffId, 'in_progress', {
         startedBy: staffId
       });
 
@@ -310,10 +344,7 @@ class EnhancedMobileJobService {
 
   async completeJob(jobId: string, staffId: string, completionData: any): Promise<boolean> {
     try {
-      const db = await getDb();
-      await updateDoc(doc(db, 'jobAssignments', jobId), {
-        status: 'completed',
-        completedAt: serverTimestamp(),
+      await this.transitionJob(jobId, staffId, 'completed', {
         completedBy: staffId,
         completionData: completionData
       });
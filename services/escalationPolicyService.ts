@@ -0,0 +1,389 @@
+/**
+ * Escalation Policy Service
+ * Runs the escalation policies (utils/escalationPolicy) against open jobs and
+ * carries out each due step: remind the staff member, alert their supervisor,
+ * alert the on-call admin or reassign the job.
+ *
+ * Policies live in `escalation_policies`; stored policies override the
+ * built-in defaults with the same id. Every fired step is logged in
+ * `escalation_alerts` under its escalation key. The alert is claimed in a
+ * transaction before the step runs, so admin devices evaluating at the same
+ * time never repeat a step.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  runTransaction,
+  setDoc,
+  updateDoc,
+  arrayUnion,
+  serverTimestamp
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { unifiedJobNotificationService } from '@/services/unifiedJobNotificationService';
+import { StaffRecommendationEngine } from '@/utils/staffRecommendation';
+import { planJobTransition, buildStatusUpdate } from '@/utils/jobStateMachine';
+import {
+  describeEscalation,
+  getDueEscalationSteps,
+  DEFAULT_ESCALATION_POLICIES,
+  DueEscalationStep
+} from '@/utils/escalationPolicy';
+import type { EscalationAlert, EscalationJob, EscalationPolicy } from '@/types/escalation';
+import type { JobPriority } from '@/types/job';
+import type { JobType } from '@/types/jobAssignment';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+const ESCALATION_ACTOR_ID = 'escalation_policy';
+
+// Jobs that can still stall
+const WATCHED_STATUSES = ['offered', 'assigned', 'reassigned', 'accepted', 'overdue', 'in_progress'];
+
+const ADMIN_ROLES = ['admin', 'manager'];
+
+const ACTION_TITLES: Record<EscalationAlert['action'], string> = {
+  remind_staff: '⏰ Job reminder',
+  alert_supervisor: '⚠️ Job needs attention',
+  alert_on_call_admin: '🚨 Job escalation',
+  auto_reassign: '🔁 Job reassigned',
+};
+
+const toDate = (value: any): Date | undefined =>
+  value?.toDate ? value.toDate() : value ? new Date(value) : undefined;
+
+const toPriority = (value: string | undefined): JobPriority =>
+  value === 'low' || value === 'high' || value === 'urgent' ? value : 'medium';
+
+const toEscalationJob = (id: string, data: any): EscalationJob => {
+  const scheduledFor = data.scheduledDate && data.scheduledStartTime
+    ? new Date(`${data.scheduledDate}T${data.scheduledStartTime}:00`)
+    : toDate(data.scheduledFor || data.scheduledDate);
+
+  return {
+    id,
+    title: data.title || 'Job',
+    status: data.status,
+    priority: toPriority(data.priority),
+    jobType: data.jobType || data.type || 'custom',
+    propertyId: data.propertyId || data.propertyRef?.id || '',
+    propertyName: data.propertyRef?.name || data.propertyName,
+    assignedStaffId: data.assignedStaffId || data.assignedTo || undefined,
+    assignedAt: toDate(data.assignedAt),
+    scheduledFor,
+    startedAt: toDate(data.startedAt),
+    estimatedDuration: data.estimatedDuration || 60,
+    // Turnover jobs carry the guest check-in as their deadline
+    guestCheckIn: toDate(data.deadline || data.bookingRef?.checkInDate),
+  };
+};
+
+const toAlert = (id: string, data: any): EscalationAlert => ({
+  id,
+  jobId: data.jobId,
+  staffId: data.staffId,
+  propertyId: data.propertyId,
+  policyId: data.policyId,
+  trigger: data.trigger,
+  stepId: data.stepId,
+  action: data.action,
+  message: data.message || '',
+  recipientIds: data.recipientIds || [],
+  reassignedTo: data.reassignedTo,
+  sentAt: toDate(data.sentAt) || new Date(),
+  acknowledged: !!data.acknowledged,
+  acknowledgedBy: data.acknowledgedBy,
+  acknowledgedAt: toDate(data.acknowledgedAt),
+});
+
+class EscalationPolicyService {
+  private readonly POLICIES_COLLECTION = 'escalation_policies';
+  private readonly ALERTS_COLLECTION = 'escalation_alerts';
+  private readonly JOBS_COLLECTION = 'jobs';
+  private readonly STAFF_COLLECTION = 'staff_accounts';
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private evaluating = false;
+
+  /**
+   * Evaluate open jobs every minute. Runs on admin/manager devices.
+   */
+  start(): () => void {
+    if (this.timer) return () => this.stop();
+
+    console.log('🚨 EscalationPolicy: Watching open jobs for escalations');
+    const run = () => {
+      this.evaluateOpenJobs().catch(error => {
+        console.error('❌ EscalationPolicy: Evaluation failed:', error);
+      });
+    };
+    run();
+    this.timer = setInterval(run, CHECK_INTERVAL_MS);
+    return () => this.stop();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async getPolicies(): Promise<EscalationPolicy[]> {
+    const db = await getDb();
+    const snapshot = await getDocs(collection(db, this.POLICIES_COLLECTION));
+    const stored = new Map(snapshot.docs.map(policyDoc => [policyDoc.id, { ...policyDoc.data(), id: policyDoc.id } as EscalationPolicy]));
+
+    const policies = DEFAULT_ESCALATION_POLICIES.map(policy => stored.get(policy.id) || policy);
+    stored.forEach((policy, id) => {
+      if (!DEFAULT_ESCALATION_POLICIES.some(defaultPolicy => defaultPolicy.id === id)) {
+        policies.push(policy);
+      }
+    });
+    return policies;
+  }
+
+  async savePolicy(policy: EscalationPolicy, adminId: string): Promise<void> {
+    const db = await getDb();
+    const { id, ...fields } = policy;
+    await setDoc(doc(db, this.POLICIES_COLLECTION, id), {
+      ...fields,
+      updatedBy: adminId,
+      updatedAt: serverTimestamp(),
+    });
+    console.log(`✅ EscalationPolicy: Saved policy ${id}`);
+  }
+
+  /**
+   * Fire every escalation step that has come due. Returns how many fired.
+   */
+  async evaluateOpenJobs(now: Date = new Date()): Promise<number> {
+    if (this.evaluating) return 0;
+    this.evaluating = true;
+
+    try {
+      const db = await getDb();
+      const [policies, snapshot] = await Promise.all([
+        this.getPolicies(),
+        getDocs(query(collection(db, this.JOBS_COLLECTION), where('status', 'in', WATCHED_STATUSES))),
+      ]);
+
+      let fired = 0;
+      for (const jobDoc of snapshot.docs) {
+        const job = toEscalationJob(jobDoc.id, jobDoc.data());
+        for (const due of getDueEscalationSteps(policies, job, now)) {
+          try {
+            if (await this.fireStep(job, due)) fired++;
+          } catch (error) {
+            console.error(`❌ EscalationPolicy: Step ${due.key} failed:`, error);
+          }
+        }
+      }
+
+      if (fired > 0) {
+        console.log(`🚨 EscalationPolicy: Fired ${fired} escalation step(s)`);
+      }
+      return fired;
+    } finally {
+      this.evaluating = false;
+    }
+  }
+
+  subscribeToAlerts(callback: (alerts: EscalationAlert[]) => void, maxCount: number = 100): () => void {
+    let unsubscribe: (() => void) | null = null;
+    let stopped = false;
+
+    getDb().then(db => {
+      if (stopped) return;
+      const alertsQuery = query(collection(db, this.ALERTS_COLLECTION), orderBy('sentAt', 'desc'), limit(maxCount));
+      unsubscribe = onSnapshot(alertsQuery, snapshot => {
+        callback(snapshot.docs.map(alertDoc => toAlert(alertDoc.id, alertDoc.data())));
+      }, error => {
+        console.error('❌ EscalationPolicy: Alert listener failed:', error);
+        callback([]);
+      });
+    }).catch(error => {
+      console.error('❌ EscalationPolicy: Failed to subscribe to alerts:', error);
+    });
+
+    return () => {
+      stopped = true;
+      unsubscribe?.();
+    };
+  }
+
+  async acknowledgeAlert(alertId: string, adminId: string): Promise<void> {
+    const db = await getDb();
+    await updateDoc(doc(db, this.ALERTS_COLLECTION, alertId), {
+      acknowledged: true,
+      acknowledgedBy: adminId,
+      acknowledgedAt: serverTimestamp(),
+    });
+  }
+
+  /**
+   * Claim the alert for a due step, then carry the step out
+   */
+  private async fireStep(job: EscalationJob, due: DueEscalationStep): Promise<boolean> {
+    const db = await getDb();
+    const alertRef = doc(db, this.ALERTS_COLLECTION, due.key);
+    const message = describeEscalation(due.policy.trigger, job, due.triggeredAt);
+
+    const claimed = await runTransaction(db, async transaction => {
+      const existing = await transaction.get(alertRef);
+      if (existing.exists()) return false;
+
+      transaction.set(alertRef, {
+        jobId: job.id,
+        ...(job.assignedStaffId && { staffId: job.assignedStaffId }),
+        ...(job.propertyId && { propertyId: job.propertyId }),
+        policyId: due.policy.id,
+        trigger: due.policy.trigger,
+        stepId: due.step.id,
+        action: due.step.action,
+        message,
+        recipientIds: [],
+        sentAt: serverTimestamp(),
+        acknowledged: false,
+      });
+      return true;
+    });
+    if (!claimed) return false;
+
+    if (due.step.action === 'auto_reassign') {
+      const reassignedTo = await this.reassignJob(job, message);
+      await updateDoc(alertRef, reassignedTo
+        ? { reassignedTo, message: `${message}. Reassigned automatically.` }
+        : { message: `${message}. No one was available to take it over.` });
+      return true;
+    }
+
+    const recipientIds = await this.getRecipients(due.step.action, job);
+    await updateDoc(alertRef, { recipientIds });
+    if (recipientIds.length > 0) {
+      await unifiedJobNotificationService.sendEscalationNotification(recipientIds, {
+        jobId: job.id,
+        key: due.key,
+        title: ACTION_TITLES[due.step.action],
+        body: message,
+        priority: job.priority === 'urgent' ? 'urgent' : 'high',
+      });
+    }
+    return true;
+  }
+
+  private async getRecipients(action: EscalationAlert['action'], job: EscalationJob): Promise<string[]> {
+    if (action === 'remind_staff') {
+      return job.assignedStaffId ? [job.assignedStaffId] : [];
+    }
+    if (action === 'alert_supervisor') {
+      const supervisors = await this.getTeamSupervisors(job.assignedStaffId);
+      return supervisors.length > 0 ? supervisors : this.getOnCallAdmins();
+    }
+    return this.getOnCallAdmins();
+  }
+
+  private async getTeamSupervisors(staffId: string | undefined): Promise<string[]> {
+    if (!staffId) return [];
+    const db = await getDb();
+    const staffSnapshot = await getDoc(doc(db, this.STAFF_COLLECTION, staffId));
+    const teamId = staffSnapshot.data()?.teamId;
+    if (!teamId) return [];
+
+    const snapshot = await getDocs(query(
+      collection(db, this.STAFF_COLLECTION),
+      where('teamId', '==', teamId),
+      where('role', '==', 'supervisor')
+    ));
+    return snapshot.docs.filter(staffDoc => staffDoc.data().isActive !== false).map(staffDoc => staffDoc.id);
+  }
+
+  /**
+   * Admins and managers flagged on call, or all of them when nobody is
+   */
+  private async getOnCallAdmins(): Promise<string[]> {
+    const db = await getDb();
+    const snapshot = await getDocs(query(collection(db, this.STAFF_COLLECTION), where('role', 'in', ADMIN_ROLES)));
+    const active = snapshot.docs.filter(staffDoc => staffDoc.data().isActive !== false);
+    const onCall = active.filter(staffDoc => staffDoc.data().onCall === true);
+    return (onCall.length > 0 ? onCall : active).map(staffDoc => staffDoc.id);
+  }
+
+  /**
+   * Hand the job to the best-ranked other staff member. Returns their id,
+   * or null if the job could not be reassigned.
+   */
+  private async reassignJob(job: EscalationJob, reason: string): Promise<string | null> {
+    try {
+      const ranked = await StaffRecommendationEngine.recommendStaff({
+        propertyId: job.propertyId,
+        title: job.title,
+        description: '',
+        type: job.jobType as JobType,
+        priority: job.priority,
+        estimatedDuration: job.estimatedDuration,
+        scheduledFor: job.scheduledFor || new Date(),
+        requirements: [],
+        location: { address: '', city: '', state: '', zipCode: '' },
+        assignedBy: ESCALATION_ACTOR_ID,
+      }, { limit: 5, availableOnly: true });
+      const next = ranked.find(candidate => candidate.staffId !== job.assignedStaffId);
+      if (!next) return null;
+
+      const toReassigned = planJobTransition({
+        from: job.status,
+        to: 'reassigned',
+        actor: 'system',
+        actorId: ESCALATION_ACTOR_ID,
+        notes: reason,
+      });
+      const toAssigned = planJobTransition({
+        from: 'reassigned',
+        to: 'assigned',
+        actor: 'system',
+        actorId: ESCALATION_ACTOR_ID,
+        notes: `Reassigned to ${next.staffName}`,
+      });
+
+      const db = await getDb();
+      await updateDoc(doc(db, this.JOBS_COLLECTION, job.id), {
+        ...buildStatusUpdate(toAssigned),
+        statusHistory: arrayUnion(toReassigned.historyEntry, toAssigned.historyEntry),
+        reassignedAt: serverTimestamp(),
+        assignedStaffId: next.staffId,
+        assignedStaffName: next.staffName,
+        ...(job.assignedStaffId && { previousStaffIds: arrayUnion(job.assignedStaffId) }),
+      });
+
+      await unifiedJobNotificationService.sendJobAssignmentNotification({
+        jobId: job.id,
+        title: job.title,
+        description: reason,
+        type: job.jobType,
+        priority: job.priority === 'medium' ? 'normal' : job.priority,
+        propertyName: job.propertyName || job.propertyId,
+        propertyAddress: '',
+        scheduledDate: job.scheduledFor || new Date(),
+        assignedStaffId: next.staffId,
+        assignedStaffName: next.staffName,
+      });
+
+      console.log(`🔁 EscalationPolicy: Reassigned ${job.id} to ${next.staffId}`);
+      return next.staffId;
+    } catch (error) {
+      console.error('❌ EscalationPolicy: Failed to reassign job:', error);
+      return null;
+    }
+  }
+}
+
+export const escalationPolicyService = new EscalationPolicyService();
+export default escalationPolicyService;
@@ -3,8 +3,10 @@
  * AI-powered assistant for staff field operations and job completion
  */
 
-import { openaiService, OpenAIResponse } from './openaiService';
+import type { OpenAIResponse } from './openaiService';
+import { aiProviderService } from './aiProviderService';
 import { Job } from '@/types/job';
+import type { AIFeature, AIPhotoGuidanceOutput, AITemplateContext } from '@/types/aiProvider';
 import { aiLoggingService } from './aiLoggingService';
 
 interface FieldOpsContext {
@@ -26,6 +28,7 @@ interface FieldOpsResponse extends OpenAIResponse {
   warnings?: string[];
   estimatedTime?: string;
   nextSteps?: string[];
+  photoGuidance?: AIPhotoGuidanceOutput;
 }
 
 interface JobCompletionGuidance {
@@ -46,14 +49,9 @@ export interface AIChecklistItem {
 }
 
 class FieldOpsAIService {
-  private apiKey: string | undefined;
-
-  constructor() {
-    this.apiKey = process.env.EXPO_PUBLIC_OPENAI_API_KEY;
-  }
-
+  // False means answers come from the offline templates rather than a model
   isConfigured(): boolean {
-    return openaiService.isConfigured();
+    return aiProviderService.isRemoteAvailable();
   }
 
   /**
@@ -61,25 +59,13 @@ class FieldOpsAIService {
    */
   async getJobCompletionGuidance(context: FieldOpsContext, generateChecklist: boolean = false): Promise<FieldOpsResponse> {
     const startTime = Date.now();
-    
-    if (!this.isConfigured()) {
-      return {
-        success: false,
-        error: 'AI service not configured. Please check OpenAI API settings.',
-      };
-    }
 
     const systemMessage = `You are an expert field operations assistant for luxury property management. You provide practical, actionable guidance for staff completing maintenance, cleaning, and inspection tasks. Focus on quality standards, safety, and guest satisfaction.`;
 
     const prompt = this.buildJobGuidancePrompt(context);
 
     try {
-      const response = await openaiService.generateMaintenanceSuggestions({
-        type: this.mapJobTypeToMaintenanceType(context.job.type),
-        description: context.job.description,
-        urgency: context.job.priority as 'low' | 'medium' | 'high' | 'emergency',
-        location: context.job.location.address || 'Property location'
-      });
+      const response = await this.callAI('job_guidance', prompt, systemMessage, context);
 
       if (response.success && response.data) {
         const parsedResponse = this.parseJobGuidanceResponse(response.data);
@@ -125,46 +111,39 @@ class FieldOpsAIService {
       const propertyName = context.job.location?.address || 'the property';
       const taskType = context.job.type;
       
-      // Use the existing maintenance suggestions service with enhanced prompt
-      const response = await openaiService.generateMaintenanceSuggestions({
-        type: this.mapJobTypeToMaintenanceType(context.job.type),
-        description: `Generate a step-by-step task checklist for ${taskType} job at ${propertyName}. 
+      const systemMessage = `You are a property maintenance expert with extensive experience in luxury villa and vacation rental maintenance. Provide practical, actionable maintenance advice.`;
+
+      const response = await aiProviderService.completeStructured({
+        feature: 'checklist',
+        messages: [
+          { role: 'system', content: systemMessage },
+          {
+            role: 'user',
+            content: `Generate a step-by-step task checklist for ${taskType} job at ${propertyName}. 
         
         Task Details: ${context.job.description}
         
         Requirements:
         - Include safety checks and material preparation steps
-        - Specify required vs optional tasks
-        - Provide realistic time estimates for each step
+        - Mark each step as required or optional
+        - Give a realistic time estimate in minutes for each step
         - Focus on quality standards and guest satisfaction
         - Include documentation/photo requirements
-        - Add completion verification steps
-        
-        Format each step clearly with specific actions.`,
-        urgency: context.job.priority as 'low' | 'medium' | 'high' | 'emergency',
-        location: propertyName
-      });
+        - Add completion verification steps`,
+          },
+        ],
+        context: this.getTemplateContext(context),
+      }, 'checklist', { jobId: context.job.id, staffId: context.staffId });
       
       if (response.success && response.data) {
-        // Create checklist from response data
-        const steps = response.data.split('\n').filter(line => line.trim().length > 0);
-        
-        return steps.map((step, index) => {
-          const isRequired = step.toLowerCase().includes('required') || 
-                           step.toLowerCase().includes('must') || 
-                           index < 3; // First 3 steps are usually required
-          
-          const estimatedMinutes = this.estimateTaskTime(step, context.job.type);
-          
-          return {
-            id: `task-${Date.now()}-${index}`,
-            task: step.replace(/^\d+\.?\s*/, '').trim(), // Remove numbering
-            description: this.getTaskDescription(step, context.job.type),
-            isCompleted: false,
-            isRequired,
-            estimatedMinutes,
-          };
-        });
+        return response.data.items.map((item, index) => ({
+          id: `task-${Date.now()}-${index}`,
+          task: item.task.trim(),
+          description: item.description || this.getTaskDescription(item.task, context.job.type),
+          isCompleted: false,
+          isRequired: item.required,
+          estimatedMinutes: item.estimatedMinutes ?? this.estimateTaskTime(item.task, context.job.type),
+        }));
       }
 
       // Fallback checklist
@@ -256,13 +235,6 @@ class FieldOpsAIService {
    * Answer specific questions about the current job
    */
   async askJobQuestion(question: string, context: FieldOpsContext): Promise<FieldOpsResponse> {
-    if (!this.isConfigured()) {
-      return {
-        success: false,
-        error: 'AI service not configured',
-      };
-    }
-
     const systemMessage = `You are the FOA (Field Operations Assistant) AI helping staff complete tasks safely and effectively. 
 
 Core Behavior Guidelines:
@@ -293,7 +265,7 @@ Staff Question: "${question}"
 Provide a helpful, practical answer specific to this job context.`;
 
     try {
-      const response = await this.callOpenAI(contextPrompt, systemMessage);
+      const response = await this.callAI('job_question', contextPrompt, systemMessage, context, question);
       return response;
     } catch (error) {
       return {
@@ -322,9 +294,37 @@ Provide specific photo guidance including:
 4. Quality verification angles
 5. Any safety or compliance documentation needed
 
-Format as a clear, actionable list.`;
+Put quality verification angles under "after" and safety or compliance shots under "notes".`;
+
+    const response = await aiProviderService.completeStructured({
+      feature: 'photo_guidance',
+      messages: [
+        { role: 'system', content: systemMessage },
+        { role: 'user', content: prompt },
+      ],
+      context: this.getTemplateContext(context),
+    }, 'photo_guidance', { jobId: context.job.id, staffId: context.staffId });
+
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error, provider: response.provider };
+    }
 
-    return this.callOpenAI(prompt, systemMessage);
+    const guidance = response.data;
+    const sections: [string, string[]][] = [
+      ['Before starting', guidance.before],
+      ['During work', guidance.during],
+      ['After completion', guidance.after],
+      ['Also photograph', guidance.notes],
+    ];
+    return {
+      success: true,
+      data: sections
+        .filter(([, shots]) => shots.length > 0)
+        .map(([heading, shots]) => `${heading}:\n${shots.map(shot => `- ${shot}`).join('\n')}`)
+        .join('\n\n'),
+      photoGuidance: guidance,
+      provider: response.provider,
+    };
   }
 
   /**
@@ -350,7 +350,7 @@ Provide:
 
 Be specific and practical.`;
 
-    return this.callOpenAI(prompt, systemMessage);
+    return this.callAI('safety', prompt, systemMessage, context);
   }
 
   /**
@@ -376,7 +376,7 @@ Provide:
 
 Be practical and consider real-world variables.`;
 
-    return this.callOpenAI(prompt, systemMessage);
+    return this.callAI('time_estimate', prompt, systemMessage, context);
   }
 
   /**
@@ -413,22 +413,6 @@ Provide comprehensive guidance including:
 Format as clear, actionable sections.`;
   }
 
-  private mapJobTypeToMaintenanceType(jobType: string): 'plumbing' | 'electrical' | 'hvac' | 'appliance' | 'structural' | 'other' {
-    const typeMap: { [key: string]: 'plumbing' | 'electrical' | 'hvac' | 'appliance' | 'structural' | 'other' } = {
-      'plumbing': 'plumbing',
-      'electrical': 'electrical',
-      'hvac': 'hvac',
-      'appliance': 'appliance',
-      'maintenance': 'other',
-      'cleaning': 'other',
-      'inspection': 'other',
-      'landscaping': 'other',
-      'security': 'other'
-    };
-
-    return typeMap[jobType.toLowerCase()] || 'other';
-  }
-
   private parseJobGuidanceResponse(response: string): FieldOpsResponse {
     // Parse the response to extract structured data
     const suggestions: string[] = [];
@@ -482,20 +466,42 @@ Format as clear, actionable sections.`;
     };
   }
 
-  private async callOpenAI(prompt: string, systemMessage?: string): Promise<FieldOpsResponse> {
+  private getTemplateContext(context: FieldOpsContext, question?: string): AITemplateContext {
+    return {
+      jobType: context.job.type,
+      title: context.job.title,
+      description: context.job.description,
+      priority: context.job.priority,
+      ...(context.job.location?.address && { propertyName: context.job.location.address }),
+      ...(context.job.estimatedDuration && { estimatedMinutes: context.job.estimatedDuration }),
+      ...(question && { question }),
+    };
+  }
+
+  private async callAI(
+    feature: AIFeature,
+    prompt: string,
+    systemMessage: string | undefined,
+    context: FieldOpsContext,
+    question?: string
+  ): Promise<FieldOpsResponse> {
     try {
-      // Use the existing openaiService for consistency
-      const response = await openaiService.generateMaintenanceSuggestions({
-        type: 'other',
-        description: prompt,
-        urgency: 'medium',
-        location: 'Field location'
+      const response = await aiProviderService.complete({
+        feature,
+        messages: [
+          ...(systemMessage ? [{ role: 'system' as const, content: systemMessage }] : []),
+          { role: 'user', content: prompt },
+        ],
+        context: this.getTemplateContext(context, question),
+        // Questions are conversational; repeating a cached answer reads as a glitch
+        cache: feature !== 'job_question',
       });
 
       return {
         success: response.success,
         data: response.data,
-        error: response.error
+        error: response.error,
+        provider: response.provider,
       };
     } catch (error) {
       return {
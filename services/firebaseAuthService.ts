@@ -6,15 +6,18 @@
 
 import { 
   signInWithEmailAndPassword, 
+  signInWithCustomToken,
   signOut,
   onAuthStateChanged,
   User,
   IdTokenResult
 } from 'firebase/auth';
 import { auth } from '@/lib/firebase';
+import type { PermissionAction, PermissionResource } from '@/types/admin';
+import { can, normalizeRole } from '@/utils/permissions';
 
 export interface StaffRole {
-  role: 'staff' | 'admin' | 'manager' | 'cleaner' | 'inspector' | 'maintenance';
+  role: 'staff' | 'admin' | 'manager' | 'supervisor' | 'cleaner' | 'inspector' | 'maintenance' | 'concierge';
   companyId?: string;
   admin?: boolean;
 }
@@ -124,6 +127,23 @@ class FirebaseAuthService {
     }
   }
 
+  /**
+   * Sign in as a staff profile after a PIN check
+   * The token comes from api/staff-pin/verify; its uid is the staff profile id
+   */
+  async signInWithStaffToken(customToken: string): Promise<AuthenticatedUser> {
+    const userCredential = await signInWithCustomToken(auth, customToken);
+    const idTokenResult = await userCredential.user.getIdTokenResult();
+    const authenticatedUser = await this.createAuthenticatedUser(userCredential.user, idTokenResult);
+    this.currentUser = authenticatedUser;
+
+    console.log('✅ Firebase Auth: Staff PIN session signed in:', {
+      uid: authenticatedUser.uid,
+      role: authenticatedUser.role
+    });
+    return authenticatedUser;
+  }
+
   /**
    * Sign out current user
    */
@@ -149,17 +169,22 @@ class FirebaseAuthService {
    * Check if current user has specific role
    */
   hasRole(role: string): boolean {
-    return this.currentUser?.role === role;
+    return !!this.currentUser && normalizeRole(this.currentUser.role) === normalizeRole(role);
   }
 
   /**
    * Check if current user is admin
    */
   isAdmin(): boolean {
+    return !!this.currentUser?.isAdmin;
+  }
+
+  /**
+   * Check the current user's role against the permission matrix
+   */
+  can(resource: PermissionResource, action: PermissionAction): boolean {
     if (!this.currentUser) return false;
-    
-    return this.currentUser.isAdmin || 
-           ['admin', 'manager', 'supervisor'].includes(this.currentUser.role);
+    return can(this.currentUser.claims.admin ? 'admin' : this.currentUser.role, resource, action);
   }
 
   /**
@@ -292,12 +317,13 @@ class FirebaseAuthService {
    */
   private async createAuthenticatedUser(firebaseUser: User, idTokenResult: IdTokenResult): Promise<AuthenticatedUser> {
     const role = idTokenResult.claims.role as string;
-    const isAdmin = idTokenResult.claims.admin === true || 
-                   ['admin', 'manager', 'supervisor'].includes(role);
+    // Anyone who reviews other people's jobs gets the admin-side features
+    const isAdmin = idTokenResult.claims.admin === true || can(role, 'jobs', 'approve');
 
     return {
       uid: firebaseUser.uid,
-      email: firebaseUser.email!,
+      // Custom-token (PIN) sessions have no email
+      email: firebaseUser.email || '',
       role,
       isAdmin,
       claims: {
@@ -0,0 +1,222 @@
+/**
+ * Geofence Service
+ * Feeds GPS fixes from job tracking into a fence around the job's property
+ * (utils/geofence) and stores each enter/exit in `job_geofence_events`.
+ *
+ * Events are written once and never edited, so the time-on-site report for a
+ * job can always be rebuilt from them and checked against the check-in fix.
+ */
+
+import * as Location from 'expo-location';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  setDoc,
+  Timestamp
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import {
+  DEFAULT_GEOFENCE_SETTINGS,
+  computeOnSiteMinutes,
+  detectSiteTimeFlags,
+  evaluateGeofence,
+  isInsideAt,
+  GeofenceEvaluation
+} from '@/utils/geofence';
+import type { GeoPoint, GeofenceEvent, GeofenceSample, SiteTimeReport } from '@/types/geofence';
+
+// Last known fix is good enough to tell where a job was completed
+const COMPLETION_FIX_MAX_AGE_MS = 5 * 60 * 1000;
+
+const toDate = (value: any): Date | undefined =>
+  value?.toDate ? value.toDate() : value ? new Date(value) : undefined;
+
+const toEvent = (id: string, data: any): GeofenceEvent => ({
+  id,
+  jobId: data.jobId,
+  staffId: data.staffId,
+  type: data.type,
+  timestamp: toDate(data.timestamp) || new Date(),
+  coordinates: data.coordinates,
+  accuracy: data.accuracy || 0,
+  distanceMeters: data.distanceMeters || 0,
+  ...(data.simulated && { simulated: true }),
+});
+
+const getJobCenter = (data: any): GeoPoint | null => {
+  const coordinates = data?.location?.coordinates || data?.propertyRef?.coordinates;
+  return coordinates?.latitude !== undefined && coordinates?.longitude !== undefined
+    ? { latitude: coordinates.latitude, longitude: coordinates.longitude }
+    : null;
+};
+
+interface FenceState {
+  center: GeoPoint | null;
+  inside: boolean | null;
+}
+
+class GeofenceService {
+  private readonly EVENTS_COLLECTION = 'job_geofence_events';
+  private readonly CHECKINS_COLLECTION = 'job_checkins';
+  private readonly JOBS_COLLECTION = 'jobs';
+  private readonly COMPLETED_JOBS_COLLECTION = 'completed_jobs';
+
+  private fences = new Map<string, FenceState>();
+
+  /**
+   * Apply a GPS fix for a staff member on a job and record any enter/exit
+   */
+  async recordSample(jobId: string, staffId: string, sample: GeofenceSample): Promise<GeofenceEvaluation | null> {
+    try {
+      const key = `${jobId}_${staffId}`;
+      const fence = this.fences.get(key) ?? await this.loadFence(jobId, staffId);
+      this.fences.set(key, fence);
+      if (!fence.center) return null;
+
+      const evaluation = evaluateGeofence(fence.inside, sample, fence.center, DEFAULT_GEOFENCE_SETTINGS);
+      fence.inside = evaluation.inside;
+
+      if (evaluation.event) {
+        const db = await getDb();
+        const eventId = `${key}_${sample.timestamp.getTime()}`;
+        await setDoc(doc(db, this.EVENTS_COLLECTION, eventId), {
+          jobId,
+          staffId,
+          type: evaluation.event,
+          timestamp: Timestamp.fromDate(sample.timestamp),
+          coordinates: { latitude: sample.latitude, longitude: sample.longitude },
+          accuracy: sample.accuracy,
+          distanceMeters: Math.round(evaluation.distanceMeters),
+          ...(sample.simulated && { simulated: true }),
+        });
+        console.log(`📍 Geofence: ${staffId} ${evaluation.event === 'enter' ? 'entered' : 'left'} site for ${jobId}`);
+      }
+
+      return evaluation;
+    } catch (error) {
+      console.error('❌ Geofence: Failed to record sample:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Record where the job was completed from the device's last known fix
+   */
+  async recordCompletionFix(jobId: string, staffId: string): Promise<void> {
+    try {
+      const { status } = await Location.getForegroundPermissionsAsync();
+      if (status !== 'granted') return;
+
+      const location = await Location.getLastKnownPositionAsync({ maxAge: COMPLETION_FIX_MAX_AGE_MS });
+      if (!location) return;
+
+      await this.recordSample(jobId, staffId, {
+        latitude: location.coords.latitude,
+        longitude: location.coords.longitude,
+        accuracy: location.coords.accuracy || 0,
+        timestamp: new Date(),
+      });
+    } catch (error) {
+      console.warn('Geofence: Completion fix unavailable:', error);
+    }
+  }
+
+  /**
+   * Forget cached fence state, e.g. when tracking stops
+   */
+  clear(jobId?: string, staffId?: string): void {
+    if (jobId && staffId) {
+      this.fences.delete(`${jobId}_${staffId}`);
+    } else {
+      this.fences.clear();
+    }
+  }
+
+  async getEvents(jobId: string): Promise<GeofenceEvent[]> {
+    const db = await getDb();
+    const snapshot = await getDocs(query(collection(db, this.EVENTS_COLLECTION), where('jobId', '==', jobId)));
+    return snapshot.docs
+      .map(eventDoc => toEvent(eventDoc.id, eventDoc.data()))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  /**
+   * On-site time and flags for a job, rebuilt from its events. Returns null
+   * until the job has started.
+   */
+  async getSiteTimeReport(jobId: string): Promise<SiteTimeReport | null> {
+    const db = await getDb();
+    let jobDoc = await getDoc(doc(db, this.JOBS_COLLECTION, jobId));
+    if (!jobDoc.exists()) {
+      jobDoc = await getDoc(doc(db, this.COMPLETED_JOBS_COLLECTION, jobId));
+    }
+    if (!jobDoc.exists()) return null;
+
+    const job = jobDoc.data();
+    const startedAt = toDate(job.startedAt);
+    if (!startedAt) return null;
+
+    const staffId: string | undefined = job.completedBy || job.assignedStaffId || job.assignedTo || undefined;
+    const events = (await this.getEvents(jobId)).filter(event => !staffId || event.staffId === staffId);
+    const checkIn = await this.getFirstCheckIn(jobId, staffId);
+    const completedAt = toDate(job.completedAt);
+    const estimatedDuration = job.estimatedDuration || 60;
+
+    const onSiteMinutes = computeOnSiteMinutes(events, startedAt, completedAt ?? new Date());
+    const flags = detectSiteTimeFlags({
+      events,
+      startedAt,
+      completedAt,
+      estimatedDuration,
+      checkInAccuracy: checkIn?.accuracy,
+      checkInAt: checkIn?.timestamp,
+    }, onSiteMinutes, DEFAULT_GEOFENCE_SETTINGS);
+
+    return {
+      jobId,
+      staffId,
+      startedAt,
+      completedAt,
+      onSiteMinutes,
+      estimatedDuration,
+      onSiteRatio: estimatedDuration > 0 ? onSiteMinutes / estimatedDuration : 0,
+      events,
+      flags,
+    };
+  }
+
+  private async getFirstCheckIn(
+    jobId: string,
+    staffId: string | undefined
+  ): Promise<{ accuracy: number; timestamp: Date } | null> {
+    const db = await getDb();
+    const snapshot = await getDocs(query(collection(db, this.CHECKINS_COLLECTION), where('jobId', '==', jobId)));
+    const checkIns = snapshot.docs
+      .map(checkInDoc => checkInDoc.data())
+      .filter(data => !staffId || data.staffId === staffId)
+      .map(data => ({ accuracy: data.accuracy || 0, timestamp: toDate(data.timestamp) || new Date() }))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    return checkIns[0] ?? null;
+  }
+
+  /**
+   * Fence center from the job and the current state from earlier events, so
+   * a restarted tracking session does not record a second enter
+   */
+  private async loadFence(jobId: string, staffId: string): Promise<FenceState> {
+    const db = await getDb();
+    const jobDoc = await getDoc(doc(db, this.JOBS_COLLECTION, jobId));
+    const center = getJobCenter(jobDoc.data());
+    if (!center) return { center: null, inside: null };
+
+    const events = (await this.getEvents(jobId)).filter(event => event.staffId === staffId);
+    return { center, inside: isInsideAt(events, new Date()) };
+  }
+}
+
+export const geofenceService = new GeofenceService();
+export default geofenceService;
@@ -0,0 +1,286 @@
+/**
+ * Inventory Service
+ * Per-property store room stock: item catalogue, par levels, staff counts,
+ * automatic deduction when jobs are completed and restock tasks when an item
+ * falls below par.
+ *
+ * Collections:
+ * - inventory_items: the shared item catalogue
+ * - property_inventory: one document per property and item (`${propertyId}_${itemId}`)
+ * - inventory_consumption_rules: expected usage per job type (optionally per property)
+ * - inventory_movements: every stock change, for auditing counts against usage
+ * - inventory_job_receipts: one document per job (`${jobId}`) so a job is only deducted once
+ *
+ * Restock tasks are jobs with the id `restock_${propertyId}_${itemId}`, so
+ * concurrent completions refresh the same open task instead of adding another.
+ */
+
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  runTransaction,
+  setDoc,
+  where,
+  serverTimestamp
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import type {
+  InventoryConsumptionRule,
+  InventoryItem,
+  InventoryUsageEntry,
+  PropertyStockLevel,
+  ShoppingListLine
+} from '@/types/inventory';
+import type { JobData } from '@/types/jobData';
+import {
+  buildShoppingList,
+  getExpectedConsumption,
+  getRestockQuantity,
+  isBelowPar,
+  reconcileJobUsage
+} from '@/utils/inventory';
+
+export const RESTOCK_JOB_SOURCE = 'inventory_restock';
+
+export interface JobInventoryUpdate {
+  jobId: string;
+  jobType: string;
+  propertyId: string;
+  staffId: string;
+  usage: InventoryUsageEntry[];
+}
+
+export interface JobInventoryResult {
+  applied: boolean; // false when this job was already deducted
+  changes: number;
+  belowPar: PropertyStockLevel[];
+  restockJobIds: string[];
+}
+
+// A restock task in one of these statuses is still open and gets updated instead of duplicated
+const OPEN_RESTOCK_STATUSES = ['pending', 'offered', 'assigned', 'accepted'];
+
+const toDate = (value: any): Date | undefined =>
+  value?.toDate ? value.toDate() : value ? new Date(value) : undefined;
+
+class InventoryService {
+  private readonly ITEMS_COLLECTION = 'inventory_items';
+  private readonly STOCK_COLLECTION = 'property_inventory';
+  private readonly RULES_COLLECTION = 'inventory_consumption_rules';
+  private readonly MOVEMENTS_COLLECTION = 'inventory_movements';
+  private readonly RECEIPTS_COLLECTION = 'inventory_job_receipts';
+  private readonly JOBS_COLLECTION = 'jobs';
+
+  async getCatalogue(): Promise<InventoryItem[]> {
+    const db = await getDb();
+    const snapshot = await getDocs(query(collection(db, this.ITEMS_COLLECTION), where('isActive', '==', true)));
+    return snapshot.docs
+      .map(itemDoc => ({ id: itemDoc.id, ...itemDoc.data() } as InventoryItem))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getPropertyStock(propertyId: string): Promise<PropertyStockLevel[]> {
+    const db = await getDb();
+    const snapshot = await getDocs(query(
+      collection(db, this.STOCK_COLLECTION),
+      where('propertyId', '==', propertyId)
+    ));
+    return snapshot.docs
+      .map(stockDoc => this.mapStockLevel(stockDoc.id, stockDoc.data()))
+      .sort((a, b) => a.itemName.localeCompare(b.itemName));
+  }
+
+  async getConsumptionRules(jobType?: string): Promise<InventoryConsumptionRule[]> {
+    const db = await getDb();
+    const rulesRef = collection(db, this.RULES_COLLECTION);
+    const snapshot = await getDocs(jobType ? query(rulesRef, where('jobType', '==', jobType)) : rulesRef);
+    return snapshot.docs.map(ruleDoc => ({ id: ruleDoc.id, ...ruleDoc.data() } as InventoryConsumptionRule));
+  }
+
+  /**
+   * Expected usage for a job, for pre-filling the completion wizard
+   */
+  async getExpectedConsumption(jobType: string, propertyId: string): Promise<Record<string, number>> {
+    const rules = await this.getConsumptionRules(jobType);
+    return getExpectedConsumption(jobType, propertyId, rules);
+  }
+
+  /**
+   * Stock an item at a property, or change its par level
+   */
+  async setStockLevel(
+    propertyId: string,
+    item: InventoryItem,
+    levels: { parLevel: number; reorderQuantity?: number; quantity?: number },
+    staffId: string,
+    propertyName?: string
+  ): Promise<void> {
+    const db = await getDb();
+    const stockRef = doc(db, this.STOCK_COLLECTION, `${propertyId}_${item.id}`);
+    await setDoc(stockRef, {
+      propertyId,
+      ...(propertyName && { propertyName }),
+      itemId: item.id,
+      itemName: item.name,
+      category: item.category,
+      unit: item.unit,
+      parLevel: levels.parLevel,
+      ...(levels.reorderQuantity !== undefined && { reorderQuantity: levels.reorderQuantity }),
+      ...(levels.quantity !== undefined && {
+        quantity: levels.quantity,
+        lastCountedAt: serverTimestamp(),
+        lastCountedBy: staffId,
+      }),
+      updatedAt: serverTimestamp(),
+    }, { merge: true });
+  }
+
+  /**
+   * Apply a completed job to the property's stock: reported counts, reported
+   * usage, or the job type's expected consumption. Each job is applied once.
+   */
+  async applyJobCompletion(update: JobInventoryUpdate): Promise<JobInventoryResult> {
+    const db = await getDb();
+    const [stock, rules] = await Promise.all([
+      this.getPropertyStock(update.propertyId),
+      this.getConsumptionRules(update.jobType),
+    ]);
+    if (stock.length === 0) {
+      return { applied: false, changes: 0, belowPar: [], restockJobIds: [] };
+    }
+
+    const expected = getExpectedConsumption(update.jobType, update.propertyId, rules);
+    const receiptRef = doc(db, this.RECEIPTS_COLLECTION, update.jobId);
+
+    const result = await runTransaction(db, async (transaction) => {
+      const receipt = await transaction.get(receiptRef);
+      if (receipt.exists()) {
+        return { applied: false, changes: 0, levels: stock };
+      }
+
+      // Re-read inside the transaction so concurrent completions don't overwrite each other
+      const current = await Promise.all(
+        stock.map(async level => {
+          const snapshot = await transaction.get(doc(db, this.STOCK_COLLECTION, level.id));
+          return { ...level, quantity: snapshot.data()?.quantity ?? level.quantity };
+        })
+      );
+
+      const changes = reconcileJobUsage(current, expected, update.usage);
+      changes.forEach(change => {
+        const level = current.find(l => l.itemId === change.itemId)!;
+        transaction.update(doc(db, this.STOCK_COLLECTION, level.id), {
+          quantity: change.quantityAfter,
+          ...(change.reason === 'count' && {
+            lastCountedAt: serverTimestamp(),
+            lastCountedBy: update.staffId,
+          }),
+          updatedAt: serverTimestamp(),
+        });
+        transaction.set(doc(collection(db, this.MOVEMENTS_COLLECTION)), {
+          propertyId: update.propertyId,
+          itemId: change.itemId,
+          change: change.change,
+          quantityAfter: change.quantityAfter,
+          reason: change.reason,
+          jobId: update.jobId,
+          staffId: update.staffId,
+          createdAt: serverTimestamp(),
+        });
+        level.quantity = change.quantityAfter;
+      });
+
+      transaction.set(receiptRef, {
+        propertyId: update.propertyId,
+        staffId: update.staffId,
+        changes: changes.length,
+        createdAt: serverTimestamp(),
+      });
+      return { applied: true, changes: changes.length, levels: current };
+    });
+
+    const belowPar = result.levels.filter(isBelowPar);
+    const restockJobIds = (await Promise.all(belowPar.map(level => this.raiseRestockTask(level))))
+      .filter((jobId): jobId is string => !!jobId);
+
+    console.log(
+      `📦 InventoryService: Job ${update.jobId} - ${result.changes} stock change(s), ${belowPar.length} item(s) below par`
+    );
+    return { applied: result.applied, changes: result.changes, belowPar, restockJobIds };
+  }
+
+  /**
+   * Cross-property list of everything below par
+   */
+  async getShoppingList(): Promise<ShoppingListLine[]> {
+    const db = await getDb();
+    const snapshot = await getDocs(collection(db, this.STOCK_COLLECTION));
+    const levels = snapshot.docs.map(stockDoc => this.mapStockLevel(stockDoc.id, stockDoc.data()));
+    return buildShoppingList(levels);
+  }
+
+  /**
+   * Open a restock task for the item, or refresh the one already open
+   */
+  private async raiseRestockTask(level: PropertyStockLevel): Promise<string | undefined> {
+    try {
+      const db = await getDb();
+      const jobRef = doc(db, this.JOBS_COLLECTION, `restock_${level.propertyId}_${level.itemId}`);
+      const description = `${level.itemName}: ${level.quantity}/${level.parLevel} ${level.unit}, bring ${getRestockQuantity(level)}`;
+      const priority = level.quantity === 0 ? 'high' : 'medium';
+
+      await runTransaction(db, async (transaction) => {
+        const existing = await transaction.get(jobRef);
+        if (existing.exists() && OPEN_RESTOCK_STATUSES.includes(existing.data().status)) {
+          transaction.update(jobRef, { description, priority, updatedAt: serverTimestamp() });
+          return;
+        }
+
+        const job: Omit<JobData, 'id'> = {
+          propertyId: level.propertyId,
+          jobType: 'custom',
+          title: `Restock ${level.itemName} - ${level.propertyName || 'Property'}`,
+          description,
+          priority,
+          estimatedDuration: 30,
+          requiredSkills: [],
+          // Unassigned until an admin or the recommendation engine picks someone
+          assignedStaffId: '',
+          userId: '',
+          status: 'pending',
+          generatedBy: RESTOCK_JOB_SOURCE,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        };
+        transaction.set(jobRef, job);
+      });
+      return jobRef.id;
+    } catch (error) {
+      console.error('❌ InventoryService: Failed to raise restock task:', error);
+      return undefined;
+    }
+  }
+
+  private mapStockLevel(id: string, data: any): PropertyStockLevel {
+    return {
+      id,
+      propertyId: data.propertyId,
+      propertyName: data.propertyName,
+      itemId: data.itemId,
+      itemName: data.itemName || data.itemId,
+      category: data.category || 'other',
+      unit: data.unit || 'pcs',
+      quantity: data.quantity ?? 0,
+      parLevel: data.parLevel ?? 0,
+      reorderQuantity: data.reorderQuantity,
+      lastCountedAt: toDate(data.lastCountedAt),
+      lastCountedBy: data.lastCountedBy,
+      updatedAt: toDate(data.updatedAt),
+    };
+  }
+}
+
+export const inventoryService = new InventoryService();
+export default inventoryService;
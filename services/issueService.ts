@@ -0,0 +1,272 @@
+/**
+ * Issue Service
+ * Damage and defect reports raised by staff from any job.
+ *
+ * Issues live in `issues`. Triaging an issue creates a maintenance job in
+ * `jobs` (id `issue_${issueId}`) linked back through `issueId`; the issue stays
+ * open until that job is verified. Open issues are shown in the property
+ * context of the next job at the property.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  addDoc,
+  onSnapshot,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+  serverTimestamp
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { jobService } from '@/services/jobService';
+import type { Issue, IssueStatus, IssueTriageOptions, NewIssueInput } from '@/types/issue';
+import {
+  buildFollowUpJob,
+  getIssueStatusForJob,
+  sortIssuesBySeverity,
+  validateIssueInput
+} from '@/utils/issueTriage';
+
+export const ISSUE_JOB_SOURCE = 'issue_triage';
+
+const OPEN_ISSUE_STATUSES: IssueStatus[] = ['open', 'triaged'];
+
+const toDate = (value: any): Date | undefined =>
+  value?.toDate ? value.toDate() : value ? new Date(value) : undefined;
+
+class IssueService {
+  private readonly ISSUES_COLLECTION = 'issues';
+  private readonly JOBS_COLLECTION = 'jobs';
+
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * Raise an issue from a job. Photos are uploaded against the reporting job
+   * as 'issue' photos and referenced from the issue.
+   */
+  async reportIssue(input: NewIssueInput, photoUris: string[] = []): Promise<Issue> {
+    const errors = validateIssueInput(input);
+    if (errors.length > 0) {
+      throw new Error(errors.join('\n'));
+    }
+
+    const photos: string[] = [];
+    for (const uri of photoUris) {
+      const upload = await jobService.uploadJobPhoto(input.jobId, uri, 'issue', input.title);
+      if (upload.success && upload.photo) {
+        photos.push(upload.photo.url);
+      } else {
+        console.warn('⚠️ IssueService: Photo upload failed:', upload.error);
+      }
+    }
+
+    const db = await getDb();
+    const docRef = await addDoc(collection(db, this.ISSUES_COLLECTION), {
+      propertyId: input.propertyId,
+      ...(input.propertyName && { propertyName: input.propertyName }),
+      jobId: input.jobId,
+      reportedBy: input.reportedBy,
+      ...(input.reportedByName && { reportedByName: input.reportedByName }),
+      title: input.title.trim(),
+      description: input.description.trim(),
+      severity: input.severity,
+      category: input.category,
+      location: input.location.trim(),
+      photos,
+      ...(input.costEstimate !== undefined && { costEstimate: input.costEstimate }),
+      ...(input.bookingRef && { bookingRef: input.bookingRef }),
+      ...(input.guestName && { guestName: input.guestName }),
+      status: 'open',
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+
+    console.log(`🚩 IssueService: ${input.severity} ${input.category} issue raised at ${input.propertyId}`);
+    const issue: Issue = {
+      ...input,
+      id: docRef.id,
+      photos,
+      status: 'open',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    // Admins hear about critical issues at once, the rest in their digest
+    import('./unifiedJobNotificationService')
+      .then(({ unifiedJobNotificationService }) => unifiedJobNotificationService.sendIssueReportedNotification(issue))
+      .catch(error => console.error('❌ IssueService: Failed to notify admins:', error));
+
+    return issue;
+  }
+
+  async getIssue(issueId: string): Promise<Issue | null> {
+    const db = await getDb();
+    const snapshot = await getDoc(doc(db, this.ISSUES_COLLECTION, issueId));
+    return snapshot.exists() ? this.mapIssue(snapshot.id, snapshot.data()) : null;
+  }
+
+  /**
+   * Issues still needing attention, most severe first
+   */
+  async getOpenIssues(propertyId?: string): Promise<Issue[]> {
+    const db = await getDb();
+    const constraints = [where('status', 'in', OPEN_ISSUE_STATUSES)];
+    if (propertyId) {
+      constraints.push(where('propertyId', '==', propertyId));
+    }
+    const snapshot = await getDocs(query(collection(db, this.ISSUES_COLLECTION), ...constraints));
+    return sortIssuesBySeverity(snapshot.docs.map(issueDoc => this.mapIssue(issueDoc.id, issueDoc.data())));
+  }
+
+  /**
+   * Fixed issues at a property, newest first; the knowledge base reads these
+   * as past fixes
+   */
+  async getResolvedIssues(propertyId: string): Promise<Issue[]> {
+    const db = await getDb();
+    const snapshot = await getDocs(query(
+      collection(db, this.ISSUES_COLLECTION),
+      where('propertyId', '==', propertyId),
+      where('status', '==', 'resolved')
+    ));
+    return snapshot.docs
+      .map(issueDoc => this.mapIssue(issueDoc.id, issueDoc.data()))
+      .sort((a, b) => (b.resolvedAt ?? b.updatedAt).getTime() - (a.resolvedAt ?? a.updatedAt).getTime());
+  }
+
+  /**
+   * Turn an issue into a maintenance job linked back to it
+   */
+  async triageIssue(issueId: string, options: IssueTriageOptions, adminId: string): Promise<string> {
+    const issue = await this.getIssue(issueId);
+    if (!issue) {
+      throw new Error('Issue not found');
+    }
+    if (issue.status !== 'open') {
+      throw new Error(`Issue is already ${issue.status}`);
+    }
+
+    const db = await getDb();
+    const jobId = `issue_${issueId}`;
+    await setDoc(doc(db, this.JOBS_COLLECTION, jobId), {
+      ...buildFollowUpJob(issue, options),
+      assignedBy: { id: adminId, name: 'Issue triage' },
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+
+    await updateDoc(doc(db, this.ISSUES_COLLECTION, issueId), {
+      status: 'triaged',
+      followUpJobId: jobId,
+      triagedBy: adminId,
+      triagedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+
+    console.log(`✅ IssueService: Issue ${issueId} triaged into job ${jobId}`);
+    return jobId;
+  }
+
+  async dismissIssue(issueId: string, reason: string, adminId: string): Promise<void> {
+    const db = await getDb();
+    await updateDoc(doc(db, this.ISSUES_COLLECTION, issueId), {
+      status: 'dismissed',
+      dismissedReason: reason,
+      triagedBy: adminId,
+      triagedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+  }
+
+  /**
+   * Keep an issue in step with its follow-up job
+   */
+  async syncWithJob(issueId: string, jobStatus: string): Promise<void> {
+    const issue = await this.getIssue(issueId);
+    if (!issue || issue.status === 'dismissed') return;
+
+    const status = getIssueStatusForJob(jobStatus);
+    if (status === issue.status) return;
+
+    const db = await getDb();
+    await updateDoc(doc(db, this.ISSUES_COLLECTION, issueId), {
+      status,
+      ...(status === 'resolved' && { resolvedAt: serverTimestamp() }),
+      // A cancelled repair sends the issue back to triage without a job
+      ...(status === 'open' && { followUpJobId: null }),
+      updatedAt: serverTimestamp(),
+    });
+    console.log(`🚩 IssueService: Issue ${issueId} ${issue.status} -> ${status}`);
+  }
+
+  /**
+   * Watch follow-up jobs and close issues as their repairs are verified.
+   * Only admin/manager devices run this.
+   */
+  start(): () => void {
+    if (this.unsubscribe) return this.unsubscribe;
+
+    let stopListening: (() => void) | null = null;
+    let stopped = false;
+
+    getDb().then(db => {
+      if (stopped) return;
+      const jobsQuery = query(collection(db, this.JOBS_COLLECTION), where('generatedBy', '==', ISSUE_JOB_SOURCE));
+      stopListening = onSnapshot(jobsQuery, (snapshot) => {
+        snapshot.docChanges().forEach(change => {
+          const job = change.doc.data();
+          if (change.type === 'removed' || !job.issueId) return;
+          this.syncWithJob(job.issueId, job.status).catch(error => {
+            console.error('❌ IssueService: Failed to sync issue with job:', error);
+          });
+        });
+      }, (error) => {
+        console.error('❌ IssueService: Follow-up job listener failed:', error);
+      });
+    }).catch(error => {
+      console.error('❌ IssueService: Failed to start follow-up job listener:', error);
+    });
+
+    this.unsubscribe = () => {
+      stopped = true;
+      stopListening?.();
+      this.unsubscribe = null;
+    };
+    return this.unsubscribe;
+  }
+
+  private mapIssue(id: string, data: any): Issue {
+    return {
+      id,
+      propertyId: data.propertyId,
+      propertyName: data.propertyName,
+      jobId: data.jobId,
+      reportedBy: data.reportedBy,
+      reportedByName: data.reportedByName,
+      title: data.title || 'Untitled issue',
+      description: data.description || '',
+      severity: data.severity || 'medium',
+      category: data.category || 'other',
+      location: data.location || '',
+      photos: data.photos || [],
+      costEstimate: data.costEstimate,
+      bookingRef: data.bookingRef,
+      guestName: data.guestName,
+      status: data.status || 'open',
+      followUpJobId: data.followUpJobId || undefined,
+      triagedBy: data.triagedBy,
+      triagedAt: toDate(data.triagedAt),
+      resolvedAt: toDate(data.resolvedAt),
+      dismissedReason: data.dismissedReason,
+      createdAt: toDate(data.createdAt) || new Date(),
+      updatedAt: toDate(data.updatedAt) || new Date(),
+    };
+  }
+}
+
+export const issueService = new IssueService();
+export default issueService;
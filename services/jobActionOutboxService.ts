@@ -0,0 +1,390 @@
+/**
+ * Job Action Outbox Service
+ * Durable, offline-first queue for job mutations made in the field.
+ *
+ * Every action (status change, checklist tick) is persisted with an
+ * idempotency key before it is sent, replayed in order when connectivity
+ * returns and survives app restarts. A receipt per idempotency key is
+ * committed in the same batch as the action's write, so a replay never applies
+ * the same action twice. Actions the job state machine refuses are permanent
+ * failures: they are never retried and the caller is told straight away.
+ */
+
+import { AppState, AppStateStatus } from 'react-native';
+import { doc, getDoc, serverTimestamp, DocumentReference } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { Storage } from '@/utils/storage';
+import { JobTransitionError } from '@/utils/jobStateMachine';
+import type { JobStatus } from '@/types/job';
+import { mobileJobAssignmentService } from './jobAssignmentService';
+import { staffJobService } from './staffJobService';
+import { jobChecklistService } from './jobChecklistService';
+
+export type JobOutboxActionType = 'status_change' | 'checklist_tick';
+
+export type JobOutboxAction =
+  | {
+      type: 'status_change';
+      // 'jobs' covers jobs + operational_jobs, 'job_assignments' the webapp assignments
+      collection: 'jobs' | 'job_assignments';
+      status: JobStatus;
+      notes?: string;
+      additionalData?: Record<string, any>;
+    }
+  | {
+      type: 'checklist_tick';
+      itemId: string;
+      completed?: boolean;
+      notes?: string;
+    };
+
+export type JobOutboxEntryStatus = 'pending' | 'failed';
+
+export interface JobOutboxEntry {
+  idempotencyKey: string;
+  jobId: string;
+  staffId: string;
+  action: JobOutboxAction;
+  status: JobOutboxEntryStatus;
+  attempts: number;
+  createdAt: number;
+  lastAttemptAt?: number;
+  lastError?: string;
+  // Refused by the job state machine; retrying will not help
+  rejected?: boolean;
+}
+
+export interface JobOutboxStatus {
+  pending: number;
+  failed: number;
+  isFlushing: boolean;
+  lastFlushAt: number | null;
+}
+
+export interface JobOutboxEnqueueResult {
+  idempotencyKey: string;
+  // true when the action already reached Firestore during the immediate flush
+  applied: boolean;
+  // true when the action is persisted and waiting to be replayed
+  queued: boolean;
+  // true when the action was refused as an illegal transition and dropped
+  rejected: boolean;
+  error?: string;
+}
+
+/**
+ * Idempotency receipt for an outbox entry. Services that apply outbox actions
+ * commit it in the same batch as their own write.
+ */
+export interface JobActionReceipt {
+  ref: DocumentReference;
+  data: Record<string, any>;
+}
+
+/**
+ * Thrown when a service reports that the job state machine refused an action
+ */
+export class JobActionRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobActionRejectedError';
+  }
+}
+
+const isPermanentFailure = (error: unknown): boolean =>
+  error instanceof JobTransitionError || error instanceof JobActionRejectedError;
+
+type OutboxListener = (status: JobOutboxStatus) => void;
+
+class JobActionOutboxService {
+  private readonly STORAGE_KEY = 'job_action_outbox';
+  private readonly RECEIPTS_COLLECTION = 'job_action_receipts';
+  private readonly MAX_ATTEMPTS = 5;
+  private readonly RETRY_INTERVAL_MS = 30000;
+
+  private entries: JobOutboxEntry[] = [];
+  private isFlushing = false;
+  private lastFlushAt: number | null = null;
+  private listeners = new Set<OutboxListener>();
+  private retryTimer: ReturnType<typeof setInterval> | null = null;
+  private ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.loadEntries();
+    this.initializeConnectivityTriggers();
+  }
+
+  // Persistence
+  private async loadEntries(): Promise<void> {
+    try {
+      const stored = await Storage.getObject<JobOutboxEntry[]>(this.STORAGE_KEY);
+      if (stored) {
+        this.entries = stored;
+        console.log(`📦 JobActionOutbox: Loaded ${stored.length} queued job actions`);
+      }
+    } catch (error) {
+      console.error('❌ JobActionOutbox: Failed to load outbox:', error);
+    }
+  }
+
+  private async saveEntries(): Promise<void> {
+    try {
+      await Storage.setObject(this.STORAGE_KEY, this.entries);
+    } catch (error) {
+      console.error('❌ JobActionOutbox: Failed to save outbox:', error);
+    }
+    this.notifyListeners();
+  }
+
+  // Connectivity triggers: browser online event, app foreground and a retry timer
+  private initializeConnectivityTriggers() {
+    if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+      window.addEventListener('online', () => {
+        console.log('🌐 JobActionOutbox: Online - replaying queued job actions');
+        this.flush();
+      });
+    }
+
+    AppState.addEventListener('change', (nextState: AppStateStatus) => {
+      if (nextState === 'active') {
+        this.flush();
+      }
+    });
+
+    this.retryTimer = setInterval(() => {
+      if (this.entries.some(entry => entry.status === 'pending')) {
+        this.flush();
+      }
+    }, this.RETRY_INTERVAL_MS);
+  }
+
+  private generateIdempotencyKey(jobId: string, type: JobOutboxActionType): string {
+    const random = Math.random().toString(36).substring(2, 10);
+    return `${jobId}_${type}_${Date.now()}_${random}`;
+  }
+
+  /**
+   * Record a job action durably and try to send it straight away.
+   * Resolves once the action is applied or persisted for replay. An action the
+   * state machine refuses is removed from the outbox and reported as rejected.
+   */
+  async enqueue(jobId: string, staffId: string, action: JobOutboxAction): Promise<JobOutboxEnqueueResult> {
+    await this.ready;
+
+    const entry: JobOutboxEntry = {
+      idempotencyKey: this.generateIdempotencyKey(jobId, action.type),
+      jobId,
+      staffId,
+      action,
+      status: 'pending',
+      attempts: 0,
+      createdAt: Date.now(),
+    };
+
+    this.entries.push(entry);
+    await this.saveEntries();
+    console.log(`📝 JobActionOutbox: Queued ${action.type} for job ${jobId}`);
+
+    await this.flush();
+
+    const remaining = this.entries.find(e => e.idempotencyKey === entry.idempotencyKey);
+    if (remaining?.rejected) {
+      await this.discard(entry.idempotencyKey);
+      return {
+        idempotencyKey: entry.idempotencyKey,
+        applied: false,
+        queued: false,
+        rejected: true,
+        error: remaining.lastError,
+      };
+    }
+    return {
+      idempotencyKey: entry.idempotencyKey,
+      applied: !remaining,
+      queued: !!remaining,
+      rejected: false,
+      error: remaining?.lastError,
+    };
+  }
+
+  /**
+   * Replay pending actions in the order they were recorded.
+   * When an action fails, later actions for the same job wait so they are
+   * never applied out of order; other jobs keep replaying.
+   */
+  async flush(): Promise<void> {
+    await this.ready;
+    if (this.isFlushing) return;
+
+    const pending = this.entries.filter(entry => entry.status === 'pending');
+    if (pending.length === 0) return;
+
+    this.isFlushing = true;
+    this.notifyListeners();
+
+    const blockedJobs = new Set<string>();
+    const completedKeys = new Set<string>();
+
+    try {
+      // Failed entries block their job until they are retried or discarded
+      this.entries
+        .filter(entry => entry.status === 'failed')
+        .forEach(entry => blockedJobs.add(entry.jobId));
+
+      for (const entry of pending) {
+        if (blockedJobs.has(entry.jobId)) continue;
+
+        entry.attempts++;
+        entry.lastAttemptAt = Date.now();
+
+        try {
+          await this.applyOnce(entry);
+          completedKeys.add(entry.idempotencyKey);
+          console.log(`✅ JobActionOutbox: Applied ${entry.action.type} for job ${entry.jobId}`);
+        } catch (error) {
+          entry.lastError = error instanceof Error ? error.message : String(error);
+          if (isPermanentFailure(error)) {
+            entry.status = 'failed';
+            entry.rejected = true;
+            console.error(`❌ JobActionOutbox: ${entry.action.type} for job ${entry.jobId} was rejected:`, entry.lastError);
+          } else if (entry.attempts >= this.MAX_ATTEMPTS) {
+            entry.status = 'failed';
+            console.error(`❌ JobActionOutbox: Giving up on ${entry.action.type} for job ${entry.jobId}:`, entry.lastError);
+          } else {
+            console.warn(`⚠️ JobActionOutbox: ${entry.action.type} for job ${entry.jobId} will be retried:`, entry.lastError);
+          }
+          blockedJobs.add(entry.jobId);
+        }
+      }
+
+      this.entries = this.entries.filter(entry => !completedKeys.has(entry.idempotencyKey));
+      this.lastFlushAt = Date.now();
+    } finally {
+      this.isFlushing = false;
+      await this.saveEntries();
+    }
+  }
+
+  // Apply an entry unless a receipt shows it already reached Firestore
+  private async applyOnce(entry: JobOutboxEntry): Promise<void> {
+    const db = await getDb();
+    const receiptRef = doc(db, this.RECEIPTS_COLLECTION, entry.idempotencyKey);
+    const existing = await getDoc(receiptRef);
+    if (existing.exists()) {
+      console.log(`⏭️ JobActionOutbox: ${entry.idempotencyKey} already applied, skipping`);
+      return;
+    }
+
+    await this.execute(entry, {
+      ref: receiptRef,
+      data: {
+        jobId: entry.jobId,
+        staffId: entry.staffId,
+        type: entry.action.type,
+        queuedAt: new Date(entry.createdAt).toISOString(),
+        appliedAt: serverTimestamp(),
+      },
+    });
+  }
+
+  // The receipt is handed to the service so it lands in the same batch as the write
+  private async execute(entry: JobOutboxEntry, receipt: JobActionReceipt): Promise<void> {
+    const { action, jobId, staffId } = entry;
+
+    switch (action.type) {
+      case 'status_change': {
+        if (action.collection === 'job_assignments') {
+          const result = await mobileJobAssignmentService.updateJobStatus({
+            jobId,
+            staffId,
+            status: action.status,
+            completionNotes: action.notes,
+            ...action.additionalData,
+          }, receipt);
+          if (!result.success) throw this.toError(result);
+        } else {
+          const result = await staffJobService.updateJobStatus(
+            jobId,
+            action.status,
+            staffId,
+            action.additionalData,
+            receipt
+          );
+          if (!result.success) throw this.toError(result);
+        }
+        break;
+      }
+
+      case 'checklist_tick': {
+        await jobChecklistService.updateChecklistItem(jobId, action.itemId, {
+          ...(action.completed !== undefined && { completed: action.completed }),
+          ...(action.notes !== undefined && { notes: action.notes }),
+        }, receipt);
+        break;
+      }
+    }
+  }
+
+  private toError(result: { error?: string; rejected?: boolean }): Error {
+    const message = result.error || 'Failed to update job status';
+    return result.rejected ? new JobActionRejectedError(message) : new Error(message);
+  }
+
+  // Failed entry management
+  async retryFailed(idempotencyKey?: string): Promise<void> {
+    await this.ready;
+    this.entries.forEach(entry => {
+      if (entry.status === 'failed' && (!idempotencyKey || entry.idempotencyKey === idempotencyKey)) {
+        entry.status = 'pending';
+        entry.attempts = 0;
+        entry.rejected = false;
+      }
+    });
+    await this.saveEntries();
+    await this.flush();
+  }
+
+  async discard(idempotencyKey: string): Promise<void> {
+    await this.ready;
+    this.entries = this.entries.filter(entry => entry.idempotencyKey !== idempotencyKey);
+    await this.saveEntries();
+  }
+
+  // Public API
+  getEntries(): JobOutboxEntry[] {
+    return this.entries.map(entry => ({ ...entry }));
+  }
+
+  getStatus(): JobOutboxStatus {
+    return {
+      pending: this.entries.filter(entry => entry.status === 'pending').length,
+      failed: this.entries.filter(entry => entry.status === 'failed').length,
+      isFlushing: this.isFlushing,
+      lastFlushAt: this.lastFlushAt,
+    };
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getStatus());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notifyListeners() {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+
+  destroy(): void {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.listeners.clear();
+  }
+}
+
+export const jobActionOutboxService = new JobActionOutboxService();
+export default jobActionOutboxService;
@@ -14,13 +14,16 @@ import {
   where,
   orderBy,
   // Fix: Remove unused imports
-  // limit, writeBatch,
+  // limit,
+  writeBatch,
   onSnapshot,
   serverTimestamp,
   Timestamp,
 } from 'firebase/firestore';
 import { getFirebaseFirestore, FirebaseAuthService } from '@/lib/firebase';
 import { firebaseUidService } from './firebaseUidService';
+import { planJobTransition, buildStatusUpdate, JobTransitionError } from '@/utils/jobStateMachine';
+import type { JobActionReceipt } from './jobActionOutboxService';
 import type {
   JobAssignment,
   JobAssignmentRequest,
@@ -130,9 +133,10 @@ class JobAssignmentService {
   }
 
   /**
-   * Update job status from mobile app
+   * Update job status from mobile app.
+   * An outbox receipt, when given, is committed in the same batch as the update.
    */
-  async updateJobStatus(update: JobStatusUpdate): Promise<JobStatusUpdateResponse> {
+  async updateJobStatus(update: JobStatusUpdate, receipt?: JobActionReceipt): Promise<JobStatusUpdateResponse> {
     try {
       console.log('📱 JobAssignmentService: Updating job status with data:', {
         jobId: update.jobId,
@@ -181,23 +185,27 @@ class JobAssignmentService {
         };
       }
 
-      // Prepare update data
-      const updateData: Partial<JobAssignment> = {
-        status: update.status,
-        updatedAt: serverTimestamp() as Timestamp,
+      // Validate the move and prepare update data (status, timestamp, history)
+      const transition = planJobTransition({
+        from: currentJob.status,
+        to: update.status,
+        actor: 'staff',
+        actorId: update.staffId,
+        notes: update.completionNotes || update.rejectionReason
+      });
+      const updateData: Record<string, any> = {
+        ...buildStatusUpdate(transition),
         version: currentJob.version + 1
       };
 
       // Handle specific status updates
-      switch (update.status) {
+      switch (transition.to) {
         case 'accepted':
           updateData.accepted = true;
-          updateData.acceptedAt = serverTimestamp() as Timestamp;
           break;
         
         case 'rejected':
           updateData.accepted = false;
-          updateData.rejectedAt = serverTimestamp() as Timestamp;
           updateData.rejectionReason = update.rejectionReason;
           break;
         
@@ -234,7 +242,14 @@ class JobAssignmentService {
       }
 
       // Update the document
-      await updateDoc(jobRef, updateData);
+      if (receipt) {
+        const batch = writeBatch(db);
+        batch.update(jobRef, updateData);
+        batch.set(receipt.ref, receipt.data);
+        await batch.commit();
+      } else {
+        await updateDoc(jobRef, updateData);
+      }
 
       // Get updated job
       const updatedJobDoc = await getDoc(jobRef);
@@ -291,7 +306,8 @@ class JobAssignmentService {
       console.error('❌ Error updating job status:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        rejected: error instanceof JobTransitionError
       };
     }
   }
@@ -8,12 +8,16 @@ import {
   doc, 
   getDoc, 
   setDoc, 
+  writeBatch,
   onSnapshot, 
   serverTimestamp,
   Timestamp
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { JobData } from '@/types/jobData';
+import type { ReworkItem } from '@/types/job';
+import { buildReworkChecklist } from '@/utils/jobReview';
+import type { JobActionReceipt } from './jobActionOutboxService';
 
 export interface ChecklistItem {
   id: string;
@@ -92,7 +96,12 @@ class JobChecklistService {
     return checklist;
   }
 
-  async updateChecklistItem(jobId: string, itemId: string, updates: Partial<ChecklistItem>): Promise<void> {
+  async updateChecklistItem(
+    jobId: string,
+    itemId: string,
+    updates: Partial<ChecklistItem>,
+    receipt?: JobActionReceipt
+  ): Promise<void> {
     const checklist = await this.getJobChecklist(jobId);
     if (!checklist) throw new Error('Checklist not found');
 
@@ -117,7 +126,30 @@ class JobChecklistService {
       checklist.completedAt = new Date();
     }
 
+    await this.saveChecklist(checklist, receipt);
+  }
+
+  /**
+   * Reopen a completed job's checklist with the reviewer's failed items
+   */
+  async applyRework(job: JobData, staffId: string, failedItems: ReworkItem[], round: number): Promise<JobChecklist> {
+    const existing = await this.getJobChecklist(job.id) ?? await this.generateSmartChecklist(job, staffId);
+    const items = buildReworkChecklist(existing.items, failedItems, job.id, round);
+    const completedCount = items.filter(item => item.completed).length;
+
+    const checklist: JobChecklist = {
+      ...existing,
+      staffId,
+      items,
+      totalItems: items.length,
+      completedItems: completedCount,
+      progress: items.length > 0 ? Math.round((completedCount / items.length) * 100) : 0,
+      completedAt: undefined,
+      updatedAt: new Date()
+    };
+
     await this.saveChecklist(checklist);
+    return checklist;
   }
 
   subscribeToChecklist(jobId: string, callback: (checklist: JobChecklist | null) => void): () => void {
@@ -140,9 +172,17 @@ class JobChecklistService {
     );
   }
 
-  private async saveChecklist(checklist: JobChecklist): Promise<void> {
+  // An outbox receipt, when given, is committed in the same batch as the checklist
+  private async saveChecklist(checklist: JobChecklist, receipt?: JobActionReceipt): Promise<void> {
     const checklistRef = doc(db, 'job_checklists', checklist.jobId);
     const firestoreData = this.convertChecklistToFirestore(checklist);
+    if (receipt) {
+      const batch = writeBatch(db);
+      batch.set(checklistRef, firestoreData, { merge: true });
+      batch.set(receipt.ref, receipt.data);
+      await batch.commit();
+      return;
+    }
     await setDoc(checklistRef, firestoreData, { merge: true });
   }
 
@@ -7,6 +7,7 @@ import * as Location from 'expo-location';
 import { doc, collection, setDoc, updateDoc, onSnapshot, serverTimestamp, deleteDoc, query, where, orderBy, limit, getDocs, getDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { JobData } from '@/types/jobData';
+import { geofenceService } from '@/services/geofenceService';
 
 export interface GPSCheckIn {
   id: string;
@@ -151,6 +152,14 @@ export class JobLocationTrackingService {
         createdAt: serverTimestamp()
       });
 
+      // The check-in fix seeds the property geofence
+      await geofenceService.recordSample(jobId, staffId, {
+        latitude: location.coords.latitude,
+        longitude: location.coords.longitude,
+        accuracy: location.coords.accuracy || 0,
+        timestamp: checkIn.timestamp
+      });
+
       // Auto-start tracking if enabled
       if (this.config.enableAutoStart) {
         await this.startRealTimeTracking(jobId, staffId);
@@ -225,6 +234,7 @@ export class JobLocationTrackingService {
 
       // Update session end time
       if (this.trackingSession) {
+        geofenceService.clear(this.trackingSession.jobId, this.trackingSession.staffId);
         const sessionRef = doc(db, 'job_tracking_sessions', this.trackingSession.id);
         await updateDoc(sessionRef, {
           endTime: serverTimestamp(),
@@ -244,7 +254,8 @@ export class JobLocationTrackingService {
   private async handleLocationUpdate(
     location: Location.LocationObject, 
     jobId: string, 
-    staffId: string
+    staffId: string,
+    simulated: boolean = false
   ): Promise<void> {
     try {
       const updateId = `${jobId}_${staffId}_${Date.now()}`;
@@ -286,6 +297,15 @@ export class JobLocationTrackingService {
 
       this.lastKnownLocation = location;
 
+      // Record geofence enter/exit for time-on-site
+      await geofenceService.recordSample(jobId, staffId, {
+        latitude: location.coords.latitude,
+        longitude: location.coords.longitude,
+        accuracy: location.coords.accuracy || 0,
+        timestamp: new Date(location.timestamp),
+        simulated
+      });
+
       // Check for arrival detection
       await this.checkArrivalDetection(jobId, staffId, location);
 
@@ -363,35 +383,6 @@ export class JobLocationTrackingService {
     }
   }
 
-  /**
-   * 🔔 Missed Check-In Escalation Implementation
-   */
-  async setupMissedCheckInMonitoring(jobId: string, scheduledStartTime: Date): Promise<void> {
-    try {
-      // Calculate escalation times
-      const checkInDeadline = new Date(scheduledStartTime.getTime() + 10 * 60 * 1000); // 10 minutes after start
-      const escalationTime = new Date(checkInDeadline.getTime() + 10 * 60 * 1000); // 10 minutes after deadline
-
-      // Set up monitoring document
-      const monitoringRef = doc(collection(db, 'job_check_in_monitoring'), jobId);
-      await setDoc(monitoringRef, {
-        jobId,
-        scheduledStartTime: serverTimestamp(),
-        checkInDeadline: checkInDeadline,
-        escalationTime: escalationTime,
-        hasCheckedIn: false,
-        hasEscalated: false,
-        isActive: true,
-        createdAt: serverTimestamp()
-      });
-
-      console.log('✅ Missed check-in monitoring set up for job:', jobId);
-
-    } catch (error) {
-      console.error('Failed to setup missed check-in monitoring:', error);
-    }
-  }
-
   /**
    * Utility Methods
    */
@@ -552,7 +543,8 @@ export class JobLocationTrackingService {
   async simulateLocation(
     jobId: string, 
     staffId: string, 
-    coordinates: { latitude: number; longitude: number }
+    coordinates: { latitude: number; longitude: number },
+    accuracy: number = 5
   ): Promise<void> {
     if (!this.config.testMode) {
       throw new Error('Test mode not enabled');
@@ -563,7 +555,7 @@ export class JobLocationTrackingService {
         latitude: coordinates.latitude,
         longitude: coordinates.longitude,
         altitude: null,
-        accuracy: 5,
+        accuracy,
         altitudeAccuracy: null,
         heading: null,
         speed: null
@@ -571,7 +563,7 @@ export class JobLocationTrackingService {
       timestamp: Date.now()
     };
 
-    await this.handleLocationUpdate(mockLocation, jobId, staffId);
+    await this.handleLocationUpdate(mockLocation, jobId, staffId, true);
   }
 
   /**
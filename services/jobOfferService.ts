@@ -0,0 +1,491 @@
+/**
+ * Job Offer Service
+ * Offers jobs to ranked staff one at a time with an expiry and moves on to the
+ * next candidate when an offer is declined or times out (utils/jobOffer).
+ * Once the candidates are used up the job is broadcast to the qualified pool.
+ *
+ * The open offer lives on the job as `currentOffer`; every offer, decline,
+ * expiry and acceptance is appended to `offerHistory`. Accepting, declining and
+ * expiring all run in a transaction against the job, so a broadcast has exactly
+ * one winner and two admin devices never expire the same offer twice.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  runTransaction,
+  arrayUnion,
+  Timestamp
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { unifiedJobNotificationService } from '@/services/unifiedJobNotificationService';
+import { StaffRecommendationEngine } from '@/utils/staffRecommendation';
+import { planJobTransition, buildStatusUpdate, JobTransitionPlan } from '@/utils/jobStateMachine';
+import {
+  DEFAULT_JOB_OFFER_SETTINGS,
+  canAcceptOffer,
+  closeOffer,
+  getOpenRecipients,
+  isOfferExpired,
+  openOffer,
+  planNextOffer
+} from '@/utils/jobOffer';
+import type { JobResponse } from '@/types/job';
+import type { JobOffer, JobOfferHistoryEntry, JobOfferSettings } from '@/types/jobOffer';
+import type { JobType } from '@/types/jobAssignment';
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+const OFFER_ACTOR_ID = 'job_offer';
+
+const toDate = (value: any): Date | undefined =>
+  value?.toDate ? value.toDate() : value ? new Date(value) : undefined;
+
+const toOffer = (data: any): JobOffer | null =>
+  data
+    ? {
+        id: data.id,
+        round: data.round || 1,
+        mode: data.mode,
+        staffIds: data.staffIds || [],
+        offeredAt: toDate(data.offeredAt) || new Date(),
+        expiresAt: toDate(data.expiresAt) || new Date(),
+      }
+    : null;
+
+const toHistoryEntry = (data: any): JobOfferHistoryEntry => ({
+  offerId: data.offerId,
+  mode: data.mode,
+  staffId: data.staffId,
+  outcome: data.outcome,
+  at: toDate(data.at) || new Date(),
+  ...(data.reason && { reason: data.reason }),
+});
+
+/**
+ * Offer history for the current cycle. An admin re-offering the job starts a
+ * new cycle, so earlier declines do not rule anyone out again.
+ */
+const getCycleHistory = (data: any): JobOfferHistoryEntry[] => {
+  const cycleStart = toDate(data.offerCycleStartedAt)?.getTime() ?? 0;
+  return (data.offerHistory || [])
+    .map(toHistoryEntry)
+    .filter((entry: JobOfferHistoryEntry) => entry.at.getTime() >= cycleStart);
+};
+
+const toSettings = (data: any): JobOfferSettings => ({ ...DEFAULT_JOB_OFFER_SETTINGS, ...data.offerSettings });
+
+const describeOffer = (offer: JobOffer): string =>
+  offer.mode === 'broadcast'
+    ? `Broadcast to ${offer.staffIds.length} staff`
+    : `Offered to ${offer.staffIds[0]} (round ${offer.round})`;
+
+// Where the job goes once an offer is closed
+interface OfferOutcome {
+  nextOffer: JobOffer | null;
+  transition: JobTransitionPlan;
+  update: Record<string, any>;
+}
+
+class JobOfferService {
+  private readonly JOBS_COLLECTION = 'jobs';
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private processing = false;
+
+  /**
+   * Expire open offers every minute. Runs on admin/manager devices.
+   */
+  start(): () => void {
+    if (this.timer) return () => this.stop();
+
+    console.log('📨 JobOffer: Watching open offers for expiry');
+    const run = () => {
+      this.processExpiredOffers().catch(error => {
+        console.error('❌ JobOffer: Expiry check failed:', error);
+      });
+    };
+    run();
+    this.timer = setInterval(run, CHECK_INTERVAL_MS);
+    return () => this.stop();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Rank staff for a pending or rejected job and offer it to the best candidate
+   */
+  async offerJob(
+    jobId: string,
+    adminId: string,
+    settings: Partial<JobOfferSettings> = {}
+  ): Promise<JobResponse> {
+    try {
+      const db = await getDb();
+      const jobRef = doc(db, this.JOBS_COLLECTION, jobId);
+      const jobDoc = await getDoc(jobRef);
+      if (!jobDoc.exists()) {
+        return { success: false, error: 'Job not found' };
+      }
+
+      const data = jobDoc.data();
+      const offerSettings = { ...DEFAULT_JOB_OFFER_SETTINGS, ...settings };
+      const { candidateIds, poolIds } = await this.rankCandidates(data, offerSettings);
+
+      const now = new Date();
+      const offer = planNextOffer(candidateIds, poolIds, [], offerSettings, now);
+      if (!offer) {
+        return { success: false, error: 'No staff available to offer this job to' };
+      }
+
+      const transition = planJobTransition({
+        from: data.status,
+        to: 'offered',
+        actor: 'admin',
+        actorId: adminId,
+        notes: describeOffer(offer),
+      });
+
+      await runTransaction(db, async (transaction) => {
+        const current = await transaction.get(jobRef);
+        if (current.data()?.status !== data.status) {
+          throw new Error('Job changed while preparing the offer');
+        }
+        transaction.update(jobRef, {
+          ...buildStatusUpdate(transition),
+          ...this.offerFields(offer),
+          offerCandidateIds: candidateIds,
+          offerPoolIds: poolIds,
+          offerSettings,
+          offerCycleStartedAt: now,
+          offerHistory: arrayUnion(...openOffer(offer)),
+        });
+      });
+
+      await this.notifyRecipients(jobId, data, offer);
+      console.log(`📨 JobOffer: Offered ${jobId} to ${offer.staffIds.join(', ')}`);
+      return { success: true, message: describeOffer(offer) };
+    } catch (error) {
+      console.error('❌ JobOffer: Failed to offer job:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to offer job',
+      };
+    }
+  }
+
+  /**
+   * Accept an open offer. For broadcasts the first accepted transaction wins.
+   */
+  async acceptOffer(jobId: string, staffId: string, notes?: string): Promise<JobResponse> {
+    try {
+      const db = await getDb();
+      const jobRef = doc(db, this.JOBS_COLLECTION, jobId);
+      const now = new Date();
+
+      await runTransaction(db, async (transaction) => {
+        const jobDoc = await transaction.get(jobRef);
+        const data = jobDoc.data();
+        const offer = toOffer(data?.currentOffer);
+
+        if (!data || data.status !== 'offered' || !offer) {
+          throw new Error('This job has already been taken');
+        }
+        if (!canAcceptOffer(offer, staffId, now)) {
+          throw new Error(isOfferExpired(offer, now) ? 'This offer has expired' : 'Job not offered to this staff member');
+        }
+
+        const transition = planJobTransition({
+          from: 'offered',
+          to: 'accepted',
+          actor: 'staff',
+          actorId: staffId,
+          notes,
+        });
+        const others = getOpenRecipients(offer, getCycleHistory(data)).filter(id => id !== staffId);
+
+        transaction.update(jobRef, {
+          ...buildStatusUpdate(transition),
+          assignedStaffId: staffId,
+          assignedTo: staffId,
+          assignedAt: Timestamp.fromDate(now),
+          currentOffer: null,
+          offerStaffIds: [],
+          offerHistory: arrayUnion(
+            ...closeOffer(offer, [staffId], 'accepted', now),
+            ...closeOffer(offer, others, 'withdrawn', now)
+          ),
+        });
+      });
+
+      console.log(`✅ JobOffer: ${staffId} accepted ${jobId}`);
+      return { success: true, message: 'Job accepted successfully' };
+    } catch (error) {
+      console.error('❌ JobOffer: Failed to accept offer:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to accept job',
+      };
+    }
+  }
+
+  /**
+   * Decline an open offer. A declined single offer moves straight on to the
+   * next candidate; a broadcast closes once every pool member has declined.
+   */
+  async declineOffer(jobId: string, staffId: string, reason?: string): Promise<JobResponse> {
+    try {
+      const db = await getDb();
+      const jobRef = doc(db, this.JOBS_COLLECTION, jobId);
+      const now = new Date();
+      let nextOffer: JobOffer | null = null;
+      let jobData: any = null;
+
+      await runTransaction(db, async (transaction) => {
+        const jobDoc = await transaction.get(jobRef);
+        const data = jobDoc.data();
+        const offer = toOffer(data?.currentOffer);
+
+        if (!data || data.status !== 'offered' || !offer || !offer.staffIds.includes(staffId)) {
+          throw new Error('Job not offered to this staff member');
+        }
+
+        const declined = closeOffer(offer, [staffId], 'declined', now, reason);
+        const history = [...getCycleHistory(data), ...declined];
+
+        // Other pool members can still take the broadcast
+        if (offer.mode === 'broadcast' && getOpenRecipients(offer, history).length > 0) {
+          transaction.update(jobRef, { offerHistory: arrayUnion(...declined) });
+          return;
+        }
+
+        const decline = planJobTransition({
+          from: 'offered',
+          to: 'rejected',
+          actor: 'staff',
+          actorId: staffId,
+          notes: reason,
+          at: now,
+        });
+        const outcome = this.planFollowUp(data, history, 'rejected', now);
+
+        transaction.update(jobRef, {
+          ...outcome.update,
+          statusHistory: arrayUnion(decline.historyEntry, outcome.transition.historyEntry),
+          rejectedAt: Timestamp.fromDate(now),
+          rejectionReason: reason || 'No reason provided',
+          offerHistory: arrayUnion(...declined, ...(outcome.nextOffer ? openOffer(outcome.nextOffer) : [])),
+        });
+        nextOffer = outcome.nextOffer;
+        jobData = data;
+      });
+
+      if (nextOffer && jobData) {
+        await this.notifyRecipients(jobId, jobData, nextOffer);
+      }
+
+      console.log(`↩️ JobOffer: ${staffId} declined ${jobId}`);
+      return { success: true, message: 'Job declined successfully' };
+    } catch (error) {
+      console.error('❌ JobOffer: Failed to decline offer:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to decline job',
+      };
+    }
+  }
+
+  /**
+   * Close every expired offer and move each job on to its next candidate
+   */
+  async processExpiredOffers(now: Date = new Date()): Promise<number> {
+    if (this.processing) return 0;
+    this.processing = true;
+
+    try {
+      const db = await getDb();
+      const snapshot = await getDocs(query(
+        collection(db, this.JOBS_COLLECTION),
+        where('status', '==', 'offered')
+      ));
+
+      const expired = snapshot.docs.filter(jobDoc => {
+        const offer = toOffer(jobDoc.data().currentOffer);
+        return offer && isOfferExpired(offer, now);
+      });
+
+      let moved = 0;
+      for (const jobDoc of expired) {
+        if (await this.expireOffer(jobDoc.id, now)) moved++;
+      }
+
+      if (moved > 0) {
+        console.log(`⏱️ JobOffer: Moved on ${moved} expired offer(s)`);
+      }
+      return moved;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async expireOffer(jobId: string, now: Date): Promise<boolean> {
+    try {
+      const db = await getDb();
+      const jobRef = doc(db, this.JOBS_COLLECTION, jobId);
+      let nextOffer: JobOffer | null = null;
+      let jobData: any = null;
+
+      const expired = await runTransaction(db, async (transaction) => {
+        const jobDoc = await transaction.get(jobRef);
+        const data = jobDoc.data();
+        const offer = toOffer(data?.currentOffer);
+
+        // Accepted, declined or already expired on another device
+        if (!data || data.status !== 'offered' || !offer || !isOfferExpired(offer, now)) {
+          return false;
+        }
+
+        const history = getCycleHistory(data);
+        const timedOut = closeOffer(offer, getOpenRecipients(offer, history), 'expired', now);
+        const outcome = this.planFollowUp(data, [...history, ...timedOut], 'offered', now);
+
+        transaction.update(jobRef, {
+          ...outcome.update,
+          offerHistory: arrayUnion(...timedOut, ...(outcome.nextOffer ? openOffer(outcome.nextOffer) : [])),
+        });
+        nextOffer = outcome.nextOffer;
+        jobData = data;
+        return true;
+      });
+
+      if (nextOffer && jobData) {
+        await this.notifyRecipients(jobId, jobData, nextOffer);
+      }
+      return expired;
+    } catch (error) {
+      console.error('❌ JobOffer: Failed to expire offer:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Re-offer to the next candidate or broadcast, or hand the job back to
+   * pending when nobody is left
+   */
+  private planFollowUp(
+    data: any,
+    history: JobOfferHistoryEntry[],
+    from: 'offered' | 'rejected',
+    now: Date
+  ): OfferOutcome {
+    const nextOffer = planNextOffer(
+      data.offerCandidateIds || [],
+      data.offerPoolIds || [],
+      history,
+      toSettings(data),
+      now
+    );
+
+    const transition = planJobTransition({
+      from,
+      to: nextOffer ? 'offered' : 'pending',
+      actor: 'system',
+      actorId: OFFER_ACTOR_ID,
+      notes: nextOffer ? describeOffer(nextOffer) : 'No staff accepted the offer',
+      at: now,
+    });
+
+    return {
+      nextOffer,
+      transition,
+      update: {
+        ...buildStatusUpdate(transition),
+        ...(nextOffer
+          ? this.offerFields(nextOffer)
+          : { currentOffer: null, offerStaffIds: [], assignedTo: null, assignedStaffId: null }),
+      },
+    };
+  }
+
+  private offerFields(offer: JobOffer): Record<string, any> {
+    return {
+      currentOffer: offer,
+      // Flat copy for array-contains queries on the staff side
+      offerStaffIds: offer.staffIds,
+      // Single offers show up in the recipient's job list like an assignment
+      assignedTo: offer.mode === 'single' ? offer.staffIds[0] : null,
+      assignedStaffId: offer.mode === 'single' ? offer.staffIds[0] : null,
+    };
+  }
+
+  /**
+   * Ranked candidates for sequential offers, and the qualified pool (every
+   * required skill matched) for the broadcast
+   */
+  private async rankCandidates(
+    data: any,
+    settings: JobOfferSettings
+  ): Promise<{ candidateIds: string[]; poolIds: string[] }> {
+    const jobType = data.jobType || data.type || 'custom';
+    const ranked = await StaffRecommendationEngine.recommendStaff({
+      propertyId: data.propertyId || data.propertyRef?.id || '',
+      title: data.title || '',
+      description: data.description || '',
+      type: jobType as JobType,
+      priority: data.priority || 'medium',
+      estimatedDuration: data.estimatedDuration || 60,
+      scheduledFor: toDate(data.scheduledFor || data.scheduledDate) || new Date(),
+      requirements: [],
+      requiredSkills: data.requiredSkills?.length ? data.requiredSkills : [jobType],
+      location: { address: '', city: '', state: '', zipCode: '' },
+      assignedBy: OFFER_ACTOR_ID,
+    }, { limit: Math.max(settings.candidateCount, settings.broadcastPoolSize), availableOnly: true });
+
+    // Staff who already turned the job down are not asked again
+    const excluded = new Set<string>([
+      ...(data.status === 'rejected' && data.assignedTo ? [data.assignedTo] : []),
+      ...(data.previousStaffIds || []),
+    ]);
+    const eligible = ranked.filter(candidate => !excluded.has(candidate.staffId));
+
+    return {
+      candidateIds: eligible.slice(0, settings.candidateCount).map(candidate => candidate.staffId),
+      poolIds: eligible
+        .filter(candidate => candidate.factors.find(factor => factor.key === 'skills')?.score === 1)
+        .map(candidate => candidate.staffId),
+    };
+  }
+
+  private async notifyRecipients(jobId: string, data: any, offer: JobOffer): Promise<void> {
+    const priority = data.priority === 'medium' || !data.priority ? 'normal' : data.priority;
+    await Promise.all(offer.staffIds.map(staffId =>
+      unifiedJobNotificationService.sendJobAssignmentNotification({
+        jobId,
+        title: data.title || 'New job offer',
+        description: offer.mode === 'broadcast'
+          ? `Open to ${offer.staffIds.length} staff, first to accept gets it`
+          : `Offer expires at ${offer.expiresAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+        type: data.jobType || data.type || 'custom',
+        priority,
+        propertyName: data.propertyRef?.name || data.propertyName || '',
+        propertyAddress: data.propertyRef?.address || data.location?.address || '',
+        scheduledDate: toDate(data.scheduledFor || data.scheduledDate) || new Date(),
+        assignedStaffId: staffId,
+      }).catch(error => {
+        console.error('❌ JobOffer: Failed to notify offer recipient:', error);
+      })
+    ));
+  }
+}
+
+export const jobOfferService = new JobOfferService();
+export default jobOfferService;
@@ -0,0 +1,322 @@
+/**
+ * Job Review Service
+ * Manager verification of completed jobs.
+ *
+ * Completed jobs wait in `completed_jobs` until a manager either verifies
+ * them or sends them back for rework. A rework moves the job back to its
+ * source collection, accepted by the same staff member, with the failed items
+ * reopened in its checklist. Every decision is recorded in `job_reviews`,
+ * which the weekly staff audit uses for the quality score.
+ *
+ * Who may review is decided by the jobs:approve permission: admins and
+ * managers see every job, supervisors only their own team's.
+ */
+
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  updateDoc,
+  where,
+  writeBatch,
+  serverTimestamp
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { issueService } from '@/services/issueService';
+import { jobChecklistService, JobChecklist } from '@/services/jobChecklistService';
+import { unifiedJobNotificationService } from '@/services/unifiedJobNotificationService';
+import type { CompletedPhotoRequirement, JobReview, ReworkItem } from '@/types/job';
+import type { JobData } from '@/types/jobData';
+import { planJobTransition, buildStatusUpdate } from '@/utils/jobStateMachine';
+import { canOn, getPermissionScope } from '@/utils/permissions';
+import {
+  groupPhotosByRequirement,
+  reopenRequirements,
+  summarizeReviews,
+  PhotoGroup,
+  ReworkStats
+} from '@/utils/jobReview';
+
+export interface Reviewer {
+  id: string;
+  name?: string;
+  role: string;
+  teamId?: string;
+}
+
+export interface ReviewQueueItem {
+  id: string;
+  title: string;
+  propertyName?: string;
+  staffId: string;
+  staffName?: string;
+  completedAt?: Date;
+  reworkCount: number;
+}
+
+export interface JobReviewDetail {
+  job: Record<string, any>;
+  checklist: JobChecklist | null;
+  photoGroups: PhotoGroup[];
+  history: JobReview[];
+}
+
+// Completion metadata dropped when a job goes back for rework
+const COMPLETION_FIELDS = ['completedAt', 'completedBy', 'movedToCompletedAt', 'actualDuration', 'originalJobId'];
+
+const toDate = (value: any): Date | undefined =>
+  value?.toDate ? value.toDate() : value ? new Date(value) : undefined;
+
+class JobReviewService {
+  private readonly COMPLETED_JOBS_COLLECTION = 'completed_jobs';
+  private readonly JOBS_COLLECTION = 'jobs';
+  private readonly REVIEWS_COLLECTION = 'job_reviews';
+  private readonly STAFF_COLLECTION = 'staff_accounts';
+
+  /**
+   * Completed jobs waiting for this reviewer, oldest first
+   */
+  async getReviewQueue(reviewer: Reviewer): Promise<ReviewQueueItem[]> {
+    const scope = getPermissionScope(reviewer.role, 'jobs', 'approve');
+    if (!scope) return [];
+
+    const db = await getDb();
+    const [snapshot, teamStaffIds] = await Promise.all([
+      getDocs(query(collection(db, this.COMPLETED_JOBS_COLLECTION), where('status', '==', 'completed'))),
+      scope === 'all' ? Promise.resolve(null) : this.getTeamStaffIds(reviewer.teamId),
+    ]);
+
+    return snapshot.docs
+      .map(jobDoc => {
+        const data = jobDoc.data();
+        return {
+          id: jobDoc.id,
+          title: data.title || 'Untitled job',
+          propertyName: data.propertyName || data.propertyRef?.name,
+          staffId: this.getStaffId(data),
+          staffName: data.assignedStaffRef?.name || data.assignedStaffName,
+          completedAt: toDate(data.completedAt),
+          reworkCount: data.reworkCount || 0,
+        };
+      })
+      .filter(item => !teamStaffIds || teamStaffIds.includes(item.staffId) || item.staffId === reviewer.id)
+      .sort((a, b) => (a.completedAt?.getTime() ?? 0) - (b.completedAt?.getTime() ?? 0));
+  }
+
+  /**
+   * Everything a manager needs to judge a completed job
+   */
+  async getReviewDetail(jobId: string): Promise<JobReviewDetail | null> {
+    const db = await getDb();
+    const snapshot = await getDoc(doc(db, this.COMPLETED_JOBS_COLLECTION, jobId));
+    if (!snapshot.exists()) return null;
+
+    const job = { id: snapshot.id, ...snapshot.data() } as Record<string, any>;
+    const [checklist, history] = await Promise.all([
+      jobChecklistService.getJobChecklist(jobId).catch(() => null),
+      this.getReviewHistory(jobId),
+    ]);
+
+    const photoRequirements: CompletedPhotoRequirement[] = job.photoRequirements || [];
+    const photoUrls: string[] = (job.photos || []).filter((photo: any) => typeof photo === 'string' && photo.startsWith('http'));
+
+    return {
+      job,
+      checklist,
+      photoGroups: groupPhotosByRequirement(photoRequirements, photoUrls),
+      history,
+    };
+  }
+
+  async getReviewHistory(jobId: string): Promise<JobReview[]> {
+    const db = await getDb();
+    const snapshot = await getDocs(query(collection(db, this.REVIEWS_COLLECTION), where('jobId', '==', jobId)));
+    return snapshot.docs
+      .map(reviewDoc => this.mapReview(reviewDoc.id, reviewDoc.data()))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async verifyJob(jobId: string, reviewer: Reviewer, notes = ''): Promise<void> {
+    const db = await getDb();
+    const jobRef = doc(db, this.COMPLETED_JOBS_COLLECTION, jobId);
+    const snapshot = await getDoc(jobRef);
+    if (!snapshot.exists()) {
+      throw new Error('Completed job not found');
+    }
+
+    const data = snapshot.data();
+    await this.assertCanReview(reviewer, this.getStaffId(data));
+    const plan = planJobTransition({
+      from: data.status,
+      to: 'verified',
+      actor: 'admin',
+      actorId: reviewer.id,
+      notes: notes || 'Verified by manager',
+    });
+
+    await updateDoc(jobRef, {
+      ...buildStatusUpdate(plan),
+      verifiedBy: reviewer.id,
+      ...(notes && { reviewNotes: notes }),
+    });
+    await this.recordReview(jobId, data, reviewer, 'verified', [], notes);
+
+    if (data.issueId) {
+      await issueService.syncWithJob(data.issueId, 'verified');
+    }
+    console.log(`✅ JobReviewService: Job ${jobId} verified by ${reviewer.id}`);
+  }
+
+  /**
+   * Reopen a completed job for the same staff member with the failed items
+   */
+  async sendBackForRework(jobId: string, reviewer: Reviewer, failedItems: ReworkItem[], notes = ''): Promise<void> {
+    if (failedItems.length === 0) {
+      throw new Error('List at least one item that needs rework');
+    }
+
+    const db = await getDb();
+    const completedRef = doc(db, this.COMPLETED_JOBS_COLLECTION, jobId);
+    const snapshot = await getDoc(completedRef);
+    if (!snapshot.exists()) {
+      throw new Error('Completed job not found');
+    }
+
+    const data = snapshot.data();
+    const staffId = this.getStaffId(data);
+    await this.assertCanReview(reviewer, staffId);
+    const round = (data.reworkCount || 0) + 1;
+    const plan = planJobTransition({
+      from: data.status,
+      to: 'accepted',
+      actor: 'admin',
+      actorId: reviewer.id,
+      notes: `Rework: ${failedItems.map(item => item.description).join('; ')}`,
+    });
+
+    const jobFields: Record<string, any> = { ...data };
+    COMPLETION_FIELDS.forEach(field => delete jobFields[field]);
+
+    // Written with set(), so the history is extended here rather than with arrayUnion
+    const activeRef = doc(db, data.sourceCollection || this.JOBS_COLLECTION, jobId);
+    const batch = writeBatch(db);
+    batch.set(activeRef, {
+      ...jobFields,
+      status: plan.to,
+      statusHistory: [...(data.statusHistory || []), plan.historyEntry],
+      requirements: reopenRequirements(data.requirements || [], failedItems),
+      reworkCount: round,
+      reworkItems: failedItems,
+      ...(notes && { reviewNotes: notes }),
+      acceptedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    batch.delete(completedRef);
+    await batch.commit();
+
+    await this.recordReview(jobId, data, reviewer, 'rework', failedItems, notes);
+
+    try {
+      await jobChecklistService.applyRework({ ...data, id: jobId } as JobData, staffId, failedItems, round);
+    } catch (error) {
+      console.error('❌ JobReviewService: Failed to reopen checklist:', error);
+    }
+
+    unifiedJobNotificationService.sendJobReworkNotification({
+      jobId,
+      title: data.title || 'Job',
+      description: notes,
+      type: data.jobType || data.type || 'general',
+      priority: data.priority === 'medium' ? 'normal' : data.priority || 'normal',
+      propertyName: data.propertyName || data.propertyRef?.name || 'Property',
+      propertyAddress: data.propertyRef?.address || data.location?.address || '',
+      scheduledDate: toDate(data.scheduledDate) || new Date(),
+      assignedStaffId: staffId,
+    }, failedItems.map(item => item.description)).catch(error => {
+      console.error('❌ JobReviewService: Failed to notify staff about rework:', error);
+    });
+
+    console.log(`🔁 JobReviewService: Job ${jobId} sent back for rework (round ${round})`);
+  }
+
+  /**
+   * Review outcomes for a staff member's jobs in a period
+   */
+  async getReworkStats(staffId: string, startDate: Date, endDate: Date): Promise<ReworkStats> {
+    const db = await getDb();
+    const snapshot = await getDocs(query(collection(db, this.REVIEWS_COLLECTION), where('staffId', '==', staffId)));
+    const reviews = snapshot.docs
+      .map(reviewDoc => this.mapReview(reviewDoc.id, reviewDoc.data()))
+      .filter(review => review.createdAt >= startDate && review.createdAt <= endDate);
+    return summarizeReviews(reviews);
+  }
+
+  private async recordReview(
+    jobId: string,
+    data: Record<string, any>,
+    reviewer: Reviewer,
+    outcome: JobReview['outcome'],
+    failedItems: ReworkItem[],
+    notes: string
+  ): Promise<void> {
+    const db = await getDb();
+    await addDoc(collection(db, this.REVIEWS_COLLECTION), {
+      jobId,
+      staffId: this.getStaffId(data),
+      reviewerId: reviewer.id,
+      ...(reviewer.name && { reviewerName: reviewer.name }),
+      outcome,
+      failedItems,
+      notes,
+      reworkRound: data.reworkCount || 0,
+      createdAt: serverTimestamp(),
+    });
+  }
+
+  private async assertCanReview(reviewer: Reviewer, staffId: string): Promise<void> {
+    const needsTeam = getPermissionScope(reviewer.role, 'jobs', 'approve') === 'team';
+    const teamId = needsTeam ? await this.getStaffTeamId(staffId) : undefined;
+    if (!canOn(reviewer, 'jobs', 'approve', { ownerId: staffId, teamId })) {
+      throw new Error('You can only review jobs for your own team');
+    }
+  }
+
+  private async getStaffTeamId(staffId: string): Promise<string | undefined> {
+    if (!staffId) return undefined;
+    const db = await getDb();
+    const snapshot = await getDoc(doc(db, this.STAFF_COLLECTION, staffId));
+    return snapshot.exists() ? snapshot.data().teamId : undefined;
+  }
+
+  private async getTeamStaffIds(teamId: string | undefined): Promise<string[]> {
+    if (!teamId) return [];
+    const db = await getDb();
+    const snapshot = await getDocs(query(collection(db, this.STAFF_COLLECTION), where('teamId', '==', teamId)));
+    return snapshot.docs.map(staffDoc => staffDoc.id);
+  }
+
+  private getStaffId(data: Record<string, any>): string {
+    return data.completedBy || data.assignedStaffId || data.assignedTo || '';
+  }
+
+  private mapReview(id: string, data: any): JobReview {
+    return {
+      id,
+      jobId: data.jobId,
+      staffId: data.staffId,
+      reviewerId: data.reviewerId,
+      reviewerName: data.reviewerName,
+      outcome: data.outcome,
+      failedItems: data.failedItems || [],
+      notes: data.notes || '',
+      reworkRound: data.reworkRound || 0,
+      createdAt: toDate(data.createdAt) || new Date(),
+    };
+  }
+}
+
+export const jobReviewService = new JobReviewService();
+export default jobReviewService;
@@ -21,6 +21,9 @@ import {
   writeBatch,
 } from 'firebase/firestore';
 import { getDb } from '../lib/firebase';
+import { planJobTransition, buildStatusUpdate } from '../utils/jobStateMachine';
+import { jobOfferService } from './jobOfferService';
+import { geofenceService } from './geofenceService';
 import {
   Job,
   JobStatus,
@@ -407,6 +410,11 @@ class JobService {
       }
 
       const jobData = jobDoc.data();
+
+      // Timed offers are claimed in a transaction so only one recipient wins
+      if (jobData.status === 'offered' && jobData.currentOffer) {
+        return jobOfferService.acceptOffer(request.jobId, request.staffId, request.notes);
+      }
       
       // Verify the job is assigned to this staff member OR is unassigned (pending/offered)
       const isAssignedToStaff = jobData.assignedTo === request.staffId || jobData.assignedStaffId === request.staffId;
@@ -421,11 +429,14 @@ class JobService {
       }
 
       // Update job status to accepted and assign to staff if unassigned
-      const updateData: any = {
-        status: 'accepted',
-        acceptedAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      };
+      const transition = planJobTransition({
+        from: jobData.status,
+        to: 'accepted',
+        actor: 'staff',
+        actorId: request.staffId,
+        notes: request.notes,
+      });
+      const updateData: any = buildStatusUpdate(transition);
       
       // If job was unassigned, assign it to this staff member
       if (isUnassigned) {
@@ -470,6 +481,11 @@ class JobService {
 
       const jobData = jobDoc.data();
 
+      // Declining an offer moves it on to the next candidate
+      if (jobData.status === 'offered' && jobData.currentOffer) {
+        return jobOfferService.declineOffer(jobId, staffId, reason);
+      }
+
       // Verify the job is assigned to this staff member
       if (jobData.assignedTo !== staffId) {
         return {
@@ -479,11 +495,16 @@ class JobService {
       }
 
       // Update job status to rejected
+      const transition = planJobTransition({
+        from: jobData.status,
+        to: 'rejected',
+        actor: 'staff',
+        actorId: staffId,
+        notes: reason,
+      });
       await updateDoc(jobRef, {
-        status: 'rejected',
-        rejectedAt: serverTimestamp(),
+        ...buildStatusUpdate(transition),
         rejectionReason: reason || 'No reason provided',
-        updatedAt: serverTimestamp(),
       });
 
       console.log('✅ JobService: Job declined successfully');
@@ -585,11 +606,13 @@ class JobService {
         };
       }
 
-      await updateDoc(jobRef, {
-        status: 'in_progress',
-        startedAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
+      const transition = planJobTransition({
+        from: currentData?.status,
+        to: 'in_progress',
+        actor: 'staff',
+        actorId: staffId,
       });
+      await updateDoc(jobRef, buildStatusUpdate(transition));
 
       console.log(`✅ JobService: Job ${jobId} started successfully in ${collection} collection`);
       return {
@@ -635,6 +658,16 @@ class JobService {
       }
 
       const jobData = jobDoc.data();
+      const transition = planJobTransition({
+        from: jobData.status,
+        to: 'completed',
+        actor: 'staff',
+        actorId: request.staffId,
+        notes: request.completionNotes,
+      });
+
+      // Note where the job was completed so off-site completions show up in its site timeline
+      await geofenceService.recordCompletionFix(request.jobId, request.staffId);
 
       // Step 2: Update requirements with completion data
       let updatedRequirements = jobData.requirements || [];
@@ -659,7 +692,8 @@ class JobService {
       const completedJobData = {
         ...jobData,
         // Completion metadata
-        status: 'completed',
+        status: transition.to,
+        statusHistory: [...(jobData.statusHistory || []), transition.historyEntry],
         completedAt: serverTimestamp(),
         completedBy: request.staffId,
         actualDuration: request.actualDuration,
@@ -671,6 +705,7 @@ class JobService {
         
         // Photo URLs (from completion)
         photos: request.photos || [],
+        ...(request.photoRequirements && { photoRequirements: request.photoRequirements }),
         
         // Timestamps
         updatedAt: serverTimestamp(),
@@ -820,12 +855,26 @@ class JobService {
 
       const db = await getDb();
       const jobRef = doc(db, this.JOBS_COLLECTION, request.jobId);
+      const jobDoc = await getDoc(jobRef);
+
+      if (!jobDoc.exists()) {
+        return {
+          success: false,
+          error: 'Job not found',
+        };
+      }
+
+      const transition = planJobTransition({
+        from: jobDoc.data().status,
+        to: 'rejected',
+        actor: 'staff',
+        actorId: request.staffId,
+        notes: request.reason,
+      });
       await updateDoc(jobRef, {
-        status: 'rejected',
-        rejectedAt: serverTimestamp(),
+        ...buildStatusUpdate(transition),
         rejectionReason: request.reason,
         assignedTo: null, // Remove assignment
-        updatedAt: serverTimestamp(),
       });
 
       console.log('✅ JobService: Job rejected successfully');
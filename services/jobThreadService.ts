@@ -0,0 +1,397 @@
+/**
+ * Job Thread Service
+ * The team message thread on each job: assigned staff, the dispatcher and
+ * admins, with the FOA assistant answering when it is switched on and
+ * mentioned as @FOA.
+ *
+ * Threads live in `job_threads/{jobId}` with messages in its `messages`
+ * subcollection. Read receipts, unread counts and typing indicators are kept
+ * on the thread document so the inbox needs one listener. Photos and voice
+ * notes are uploaded to Storage under `job_threads/{jobId}/`.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  addDoc,
+  onSnapshot,
+  query,
+  where,
+  orderBy,
+  limitToLast,
+  setDoc,
+  updateDoc,
+  arrayUnion,
+  increment,
+  deleteField,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { getStorage, ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { getApp } from 'firebase/app';
+import { getDb } from '@/lib/firebase';
+import { embeddedFOAChatService } from '@/services/embeddedFOAChatService';
+import type { JobData } from '@/types/jobData';
+import type {
+  JobThread,
+  JobThreadMessage,
+  JobThreadSeed,
+  PendingThreadAttachment,
+  ThreadAttachment,
+  ThreadParticipant
+} from '@/types/jobThread';
+import {
+  FOA_PARTICIPANT,
+  buildThreadParticipants,
+  getMessagePreview,
+  getNotificationRecipients,
+  shouldFOAReply,
+  stripFOAMention,
+  validateThreadMessage
+} from '@/utils/jobThread';
+
+const toDate = (value: any): Date | undefined =>
+  value?.toDate ? value.toDate() : value ? new Date(value) : undefined;
+
+const toDateMap = (value: Record<string, any> | undefined): Record<string, Date> =>
+  Object.fromEntries(Object.entries(value ?? {})
+    .map(([id, time]) => [id, toDate(time)])
+    .filter((entry): entry is [string, Date] => entry[1] !== undefined));
+
+class JobThreadService {
+  private readonly THREADS_COLLECTION = 'job_threads';
+  private readonly MESSAGES_SUBCOLLECTION = 'messages';
+  private readonly JOBS_COLLECTION = 'jobs';
+  // Most recent messages kept in the live thread
+  private readonly MESSAGE_LIMIT = 200;
+
+  /**
+   * The job's thread, created with the assigned staff and dispatcher the
+   * first time anyone opens it
+   */
+  async ensureThread(seed: JobThreadSeed): Promise<JobThread> {
+    const db = await getDb();
+    const threadRef = doc(db, this.THREADS_COLLECTION, seed.jobId);
+    const snapshot = await getDoc(threadRef);
+    if (snapshot.exists()) {
+      return this.mapThread(snapshot.id, snapshot.data());
+    }
+
+    const participants = buildThreadParticipants(seed);
+    await setDoc(threadRef, {
+      jobId: seed.jobId,
+      jobTitle: seed.jobTitle,
+      ...(seed.propertyName && { propertyName: seed.propertyName }),
+      participants,
+      participantIds: participants.map(participant => participant.id),
+      ...(seed.dispatcher && { dispatcherId: seed.dispatcher.id }),
+      foaEnabled: true,
+      status: 'open',
+      unread: {},
+      lastReadAt: {},
+      typing: {},
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    console.log(`✅ JobThreadService: Created thread for job ${seed.jobId}`);
+
+    const created = await getDoc(threadRef);
+    return this.mapThread(created.id, created.data());
+  }
+
+  /**
+   * Add someone to the thread, e.g. an admin replying from the inbox
+   */
+  async joinThread(jobId: string, participant: ThreadParticipant): Promise<void> {
+    const db = await getDb();
+    await updateDoc(doc(db, this.THREADS_COLLECTION, jobId), {
+      participants: arrayUnion(participant),
+      participantIds: arrayUnion(participant.id),
+    });
+  }
+
+  subscribeToThread(jobId: string, callback: (thread: JobThread | null) => void): () => void {
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    getDb().then(db => {
+      if (cancelled) return;
+      unsubscribe = onSnapshot(
+        doc(db, this.THREADS_COLLECTION, jobId),
+        snapshot => callback(snapshot.exists() ? this.mapThread(snapshot.id, snapshot.data()) : null),
+        error => {
+          console.error('❌ JobThreadService: Thread listener error:', error);
+          callback(null);
+        }
+      );
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }
+
+  subscribeToMessages(jobId: string, callback: (messages: JobThreadMessage[]) => void): () => void {
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    getDb().then(db => {
+      if (cancelled) return;
+      unsubscribe = onSnapshot(
+        query(
+          collection(db, this.THREADS_COLLECTION, jobId, this.MESSAGES_SUBCOLLECTION),
+          orderBy('createdAt', 'asc'),
+          limitToLast(this.MESSAGE_LIMIT)
+        ),
+        snapshot => callback(snapshot.docs.map(messageDoc => this.mapMessage(messageDoc.id, messageDoc.data()))),
+        error => {
+          console.error('❌ JobThreadService: Message listener error:', error);
+          callback([]);
+        }
+      );
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }
+
+  /**
+   * Every open thread, for the admin inbox
+   */
+  subscribeToOpenThreads(callback: (threads: JobThread[]) => void): () => void {
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    getDb().then(db => {
+      if (cancelled) return;
+      unsubscribe = onSnapshot(
+        query(collection(db, this.THREADS_COLLECTION), where('status', '==', 'open')),
+        snapshot => callback(snapshot.docs.map(threadDoc => this.mapThread(threadDoc.id, threadDoc.data()))),
+        error => {
+          console.error('❌ JobThreadService: Inbox listener error:', error);
+          callback([]);
+        }
+      );
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }
+
+  /**
+   * Post a message. Attachments are uploaded first; everyone else in the
+   * thread gets an unread count and a push, and a mention of @FOA brings in
+   * the assistant when it is switched on
+   */
+  async sendMessage(
+    thread: JobThread,
+    sender: ThreadParticipant,
+    text: string,
+    pending: PendingThreadAttachment[] = []
+  ): Promise<JobThreadMessage> {
+    const errors = validateThreadMessage(text, pending);
+    if (errors.length > 0) {
+      throw new Error(errors.join('\n'));
+    }
+
+    if (sender.role !== 'foa' && !thread.participantIds.includes(sender.id)) {
+      await this.joinThread(thread.jobId, sender);
+      thread = { ...thread, participantIds: [...thread.participantIds, sender.id] };
+    }
+
+    const attachments: ThreadAttachment[] = [];
+    for (const attachment of pending) {
+      attachments.push(await this.uploadAttachment(thread.jobId, attachment));
+    }
+
+    const message = await this.saveMessage(thread, sender, text.trim(), attachments);
+
+    const recipients = getNotificationRecipients(thread, sender.id);
+    if (recipients.length > 0) {
+      import('./unifiedJobNotificationService')
+        .then(({ unifiedJobNotificationService }) => unifiedJobNotificationService.sendJobMessageNotification(recipients, {
+          jobId: thread.jobId,
+          messageId: message.id,
+          jobTitle: thread.jobTitle,
+          senderName: sender.name,
+          preview: getMessagePreview(message),
+        }))
+        .catch(error => console.error('❌ JobThreadService: Failed to notify participants:', error));
+    }
+
+    if (shouldFOAReply(thread, message)) {
+      this.replyAsFOA(thread, message)
+        .catch(error => console.error('❌ JobThreadService: FOA reply failed:', error));
+    }
+
+    return message;
+  }
+
+  /**
+   * Mark everything in the thread as read by this user
+   */
+  async markRead(jobId: string, userId: string): Promise<void> {
+    const db = await getDb();
+    await updateDoc(doc(db, this.THREADS_COLLECTION, jobId), {
+      [`lastReadAt.${userId}`]: serverTimestamp(),
+      [`unread.${userId}`]: 0,
+    });
+  }
+
+  /**
+   * Record that the user is typing, or clear it once they send or leave
+   */
+  async setTyping(jobId: string, userId: string, isTyping: boolean): Promise<void> {
+    const db = await getDb();
+    await updateDoc(doc(db, this.THREADS_COLLECTION, jobId), {
+      [`typing.${userId}`]: isTyping ? serverTimestamp() : deleteField(),
+    });
+  }
+
+  async setFOAEnabled(jobId: string, enabled: boolean): Promise<void> {
+    const db = await getDb();
+    await updateDoc(doc(db, this.THREADS_COLLECTION, jobId), {
+      foaEnabled: enabled,
+      updatedAt: serverTimestamp(),
+    });
+  }
+
+  /**
+   * Close or reopen a thread; closed threads leave the inbox until the next
+   * message
+   */
+  async setStatus(jobId: string, status: JobThread['status']): Promise<void> {
+    const db = await getDb();
+    await updateDoc(doc(db, this.THREADS_COLLECTION, jobId), {
+      status,
+      updatedAt: serverTimestamp(),
+    });
+  }
+
+  // Private helper methods
+
+  private async saveMessage(
+    thread: JobThread,
+    sender: ThreadParticipant,
+    text: string,
+    attachments: ThreadAttachment[]
+  ): Promise<JobThreadMessage> {
+    const db = await getDb();
+    const createdAt = new Date();
+    const docRef = await addDoc(collection(db, this.THREADS_COLLECTION, thread.jobId, this.MESSAGES_SUBCOLLECTION), {
+      jobId: thread.jobId,
+      senderId: sender.id,
+      senderName: sender.name,
+      senderRole: sender.role,
+      text,
+      attachments,
+      createdAt: Timestamp.fromDate(createdAt),
+    });
+    const message: JobThreadMessage = {
+      id: docRef.id,
+      jobId: thread.jobId,
+      senderId: sender.id,
+      senderName: sender.name,
+      senderRole: sender.role,
+      text,
+      attachments,
+      createdAt,
+    };
+
+    const unreadUpdates = Object.fromEntries(
+      getNotificationRecipients(thread, sender.id).map(id => [`unread.${id}`, increment(1)])
+    );
+    await updateDoc(doc(db, this.THREADS_COLLECTION, thread.jobId), {
+      ...unreadUpdates,
+      [`typing.${sender.id}`]: deleteField(),
+      [`lastReadAt.${sender.id}`]: Timestamp.fromDate(createdAt),
+      lastMessage: {
+        text: getMessagePreview(message),
+        senderName: sender.name,
+        senderRole: sender.role,
+        createdAt: Timestamp.fromDate(createdAt),
+      },
+      status: 'open',
+      updatedAt: serverTimestamp(),
+    });
+
+    return message;
+  }
+
+  private async replyAsFOA(thread: JobThread, question: JobThreadMessage): Promise<void> {
+    const db = await getDb();
+    const jobSnapshot = await getDoc(doc(db, this.JOBS_COLLECTION, thread.jobId));
+    if (!jobSnapshot.exists()) {
+      console.warn('⚠️ JobThreadService: Job not found for FOA reply:', thread.jobId);
+      return;
+    }
+
+    const job = { id: jobSnapshot.id, ...jobSnapshot.data() } as JobData;
+    const answer = await embeddedFOAChatService.answerQuestion(job, question.senderId, stripFOAMention(question.text));
+    await this.saveMessage(thread, FOA_PARTICIPANT, answer.message, []);
+  }
+
+  private async uploadAttachment(jobId: string, attachment: PendingThreadAttachment): Promise<ThreadAttachment> {
+    const extension = attachment.type === 'voice' ? 'm4a' : 'jpg';
+    const storageRef = ref(getStorage(getApp()), `job_threads/${jobId}/${attachment.type}_${Date.now()}.${extension}`);
+
+    const response = await fetch(attachment.uri);
+    if (!response.ok) {
+      throw new Error(`Failed to read attachment: ${response.status} ${response.statusText}`);
+    }
+    const blob = await response.blob();
+    const upload = await uploadBytes(storageRef, blob, {
+      contentType: blob.type || (attachment.type === 'voice' ? 'audio/mp4' : 'image/jpeg'),
+      customMetadata: { jobId, attachmentType: attachment.type },
+    });
+
+    return {
+      type: attachment.type,
+      url: await getDownloadURL(upload.ref),
+      ...(attachment.durationSeconds !== undefined && { durationSeconds: Math.round(attachment.durationSeconds) }),
+    };
+  }
+
+  private mapThread(id: string, data: any): JobThread {
+    return {
+      jobId: id,
+      jobTitle: data.jobTitle || 'Job',
+      propertyName: data.propertyName,
+      participants: data.participants || [],
+      participantIds: data.participantIds || [],
+      dispatcherId: data.dispatcherId,
+      foaEnabled: data.foaEnabled ?? true,
+      status: data.status || 'open',
+      lastMessage: data.lastMessage
+        ? { ...data.lastMessage, createdAt: toDate(data.lastMessage.createdAt) || new Date() }
+        : undefined,
+      unread: data.unread || {},
+      lastReadAt: toDateMap(data.lastReadAt),
+      typing: toDateMap(data.typing),
+      createdAt: toDate(data.createdAt) || new Date(),
+      updatedAt: toDate(data.updatedAt) || new Date(),
+    };
+  }
+
+  private mapMessage(id: string, data: any): JobThreadMessage {
+    return {
+      id,
+      jobId: data.jobId,
+      senderId: data.senderId,
+      senderName: data.senderName || 'Unknown',
+      senderRole: data.senderRole || 'staff',
+      text: data.text || '',
+      attachments: data.attachments || [],
+      createdAt: toDate(data.createdAt) || new Date(),
+    };
+  }
+}
+
+export const jobThreadService = new JobThreadService();
+export default jobThreadService;
@@ -0,0 +1,103 @@
+/**
+ * Kiosk Service
+ * Shared-device kiosk mode: one tablet used by several staff in a shift.
+ *
+ * Each handoff tears down everything tied to the staff member who was
+ * unlocked (job notification listeners, location tracking, the job cache) so
+ * nothing leaks to the next person, and records the lock/unlock in
+ * `kiosk_sessions` so job actions can be traced to whoever was unlocked.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import { addDoc, collection, serverTimestamp } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { realTimeJobNotificationService } from './realTimeJobNotificationService';
+import { jobLocationTrackingService } from './jobLocationTrackingService';
+import { staffJobService } from './staffJobService';
+import {
+  DEFAULT_KIOSK_SETTINGS,
+  rememberRecentProfile,
+  KioskLockReason,
+  KioskSettings
+} from '@/utils/kioskSession';
+
+const KIOSK_SETTINGS_KEY = '@kiosk_settings';
+const RECENT_PROFILES_KEY = '@kiosk_recent_profiles';
+
+class KioskService {
+  private readonly SESSIONS_COLLECTION = 'kiosk_sessions';
+
+  async getSettings(): Promise<KioskSettings> {
+    try {
+      const stored = await AsyncStorage.getItem(KIOSK_SETTINGS_KEY);
+      return stored ? { ...DEFAULT_KIOSK_SETTINGS, ...JSON.parse(stored) } : DEFAULT_KIOSK_SETTINGS;
+    } catch (error) {
+      console.error('❌ KioskService: Failed to load settings:', error);
+      return DEFAULT_KIOSK_SETTINGS;
+    }
+  }
+
+  async saveSettings(settings: KioskSettings): Promise<void> {
+    await AsyncStorage.setItem(KIOSK_SETTINGS_KEY, JSON.stringify(settings));
+    console.log(`🖥️ KioskService: Kiosk mode ${settings.enabled ? 'enabled' : 'disabled'} (auto-lock ${settings.autoLockMinutes} min)`);
+  }
+
+  async getRecentProfileIds(): Promise<string[]> {
+    try {
+      const stored = await AsyncStorage.getItem(RECENT_PROFILES_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('❌ KioskService: Failed to load recent profiles:', error);
+      return [];
+    }
+  }
+
+  /**
+   * A staff member unlocked the device
+   */
+  async startStaffSession(staffId: string): Promise<string[]> {
+    const recentIds = rememberRecentProfile(await this.getRecentProfileIds(), staffId);
+    await AsyncStorage.setItem(RECENT_PROFILES_KEY, JSON.stringify(recentIds));
+    await this.recordHandoff(staffId, 'unlock');
+    return recentIds;
+  }
+
+  /**
+   * Tear down everything tied to the staff member handing the device over
+   */
+  async endStaffSession(staffId: string, reason: KioskLockReason): Promise<void> {
+    console.log(`🔒 KioskService: Ending session for ${staffId} (${reason})`);
+
+    realTimeJobNotificationService.stopAllListeners();
+    staffJobService.cleanup();
+
+    try {
+      await jobLocationTrackingService.cleanup();
+    } catch (error) {
+      console.error('❌ KioskService: Failed to stop location tracking:', error);
+    }
+
+    await staffJobService.clearCache(staffId);
+    await this.recordHandoff(staffId, 'lock', reason);
+  }
+
+  private async recordHandoff(staffId: string, event: 'lock' | 'unlock', reason?: KioskLockReason): Promise<void> {
+    try {
+      const db = await getDb();
+      await addDoc(collection(db, this.SESSIONS_COLLECTION), {
+        staffId,
+        event,
+        ...(reason && { reason }),
+        platform: Platform.OS,
+        createdAt: serverTimestamp(),
+      });
+    } catch (error) {
+      // The handoff itself must not fail because the audit write did
+      console.error('❌ KioskService: Failed to record handoff:', error);
+    }
+  }
+}
+
+export const kioskService = new KioskService();
+export default kioskService;
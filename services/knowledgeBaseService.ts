@@ -0,0 +1,294 @@
+/**
+ * Knowledge Base Service
+ * Per-property notes, house manuals, appliance details and captioned photos
+ * that the FOA job assistant searches and cites.
+ *
+ * Entries live in `property_knowledge`. Resolved issues at the property are
+ * read alongside them as past fixes. Each property's entries are cached in
+ * AsyncStorage (`property_knowledge_${propertyId}`) when a job chat opens, so
+ * answers can still draw on them offline.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { issueService } from '@/services/issueService';
+import type { ChatMessage } from '@/services/embeddedFOAChatService';
+import type {
+  KnowledgeCache,
+  KnowledgeEntry,
+  KnowledgeEntryInput,
+  KnowledgeEntryKind,
+  KnowledgeMatch,
+} from '@/types/knowledgeBase';
+import {
+  issueToKnowledgeEntry,
+  searchKnowledge,
+  validateKnowledgeInput
+} from '@/utils/knowledgeBase';
+
+const toDate = (value: any): Date | undefined =>
+  value?.toDate ? value.toDate() : value ? new Date(value) : undefined;
+
+export interface PromoteAnswerOptions {
+  title: string;
+  kind?: KnowledgeEntryKind;
+  location?: string;
+  tags?: string[];
+}
+
+class KnowledgeBaseService {
+  private readonly KNOWLEDGE_COLLECTION = 'property_knowledge';
+  private readonly CHAT_COLLECTION = 'ai_chat_logs';
+  private readonly CACHE_KEY_PREFIX = 'property_knowledge_';
+  private readonly CACHE_DURATION = 10 * 60 * 1000; // 10 minutes before refetching
+
+  private memoryCache: Map<string, KnowledgeCache> = new Map();
+
+  /**
+   * Entries for a property, newest first. Served from memory while fresh;
+   * when Firestore cannot be reached the last saved copy is used instead
+   */
+  async getEntries(propertyId: string, forceRefresh: boolean = false): Promise<KnowledgeEntry[]> {
+    const cached = this.memoryCache.get(propertyId);
+    if (!forceRefresh && cached && Date.now() - cached.cachedAt < this.CACHE_DURATION) {
+      return cached.entries;
+    }
+
+    try {
+      const db = await getDb();
+      const snapshot = await getDocs(query(
+        collection(db, this.KNOWLEDGE_COLLECTION),
+        where('propertyId', '==', propertyId)
+      ));
+      const entries = snapshot.docs.map(entryDoc => this.mapEntry(entryDoc.id, entryDoc.data()));
+
+      // Staff may only be allowed to read their own issues; entries still load
+      const fixes = await issueService.getResolvedIssues(propertyId).catch(error => {
+        console.warn('⚠️ KnowledgeBaseService: Past fixes unavailable:', error);
+        return [];
+      });
+
+      const all = [...entries, ...fixes.map(issueToKnowledgeEntry)]
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+      await this.cacheEntries(propertyId, all);
+      return all;
+    } catch (error) {
+      console.error('❌ KnowledgeBaseService: Error loading entries:', error);
+      const offline = cached ?? await this.getCachedEntries(propertyId);
+      if (offline) {
+        console.log(`📱 KnowledgeBaseService: Using cached knowledge for property ${propertyId}`);
+        return offline.entries;
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Load a property's entries ahead of time so the chat can answer offline
+   */
+  async prefetch(propertyId: string): Promise<void> {
+    await this.getEntries(propertyId);
+  }
+
+  async search(propertyId: string, question: string, limit: number = 3): Promise<KnowledgeMatch[]> {
+    const entries = await this.getEntries(propertyId);
+    return searchKnowledge(entries, question, limit);
+  }
+
+  /**
+   * Create an entry, or update it when an id is given. Returns the entry id
+   */
+  async saveEntry(input: KnowledgeEntryInput, editorId: string, entryId?: string): Promise<string> {
+    const errors = validateKnowledgeInput(input);
+    if (errors.length > 0) {
+      throw new Error(errors.join('\n'));
+    }
+
+    const fields = {
+      propertyId: input.propertyId,
+      kind: input.kind,
+      title: input.title.trim(),
+      body: input.body.trim(),
+      location: input.location?.trim() || null,
+      tags: input.tags,
+      photoUrl: input.photoUrl || null,
+      appliance: input.appliance ?? null,
+      updatedBy: editorId,
+      updatedAt: serverTimestamp(),
+    };
+
+    const db = await getDb();
+    if (entryId) {
+      await updateDoc(doc(db, this.KNOWLEDGE_COLLECTION, entryId), fields);
+    } else {
+      const docRef = await addDoc(collection(db, this.KNOWLEDGE_COLLECTION), {
+        ...fields,
+        source: 'admin',
+        createdBy: editorId,
+        createdAt: serverTimestamp(),
+      });
+      entryId = docRef.id;
+    }
+
+    console.log(`✅ KnowledgeBaseService: Saved entry ${entryId} for property ${input.propertyId}`);
+    this.invalidateCache(input.propertyId);
+    return entryId;
+  }
+
+  async deleteEntry(entry: KnowledgeEntry): Promise<void> {
+    if (entry.source === 'issue') {
+      throw new Error('Past fixes come from resolved issues and cannot be deleted here');
+    }
+    const db = await getDb();
+    await deleteDoc(doc(db, this.KNOWLEDGE_COLLECTION, entry.id));
+    this.invalidateCache(entry.propertyId);
+  }
+
+  /**
+   * FOA answers at a property that staff marked helpful and that have not
+   * been added to the knowledge base yet
+   */
+  async getHelpfulAnswers(propertyId: string): Promise<ChatMessage[]> {
+    const db = await getDb();
+    const snapshot = await getDocs(query(
+      collection(db, this.CHAT_COLLECTION),
+      where('propertyId', '==', propertyId),
+      where('metadata.helpful', '==', true)
+    ));
+    return snapshot.docs
+      .map(messageDoc => ({
+        ...messageDoc.data(),
+        id: messageDoc.id,
+        timestamp: toDate(messageDoc.data().timestamp) || new Date(),
+      }) as ChatMessage)
+      .filter(message => message.sender === 'foa' && !message.metadata?.promotedEntryId)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  /**
+   * Copy a helpful FOA answer into the property's knowledge base. The chat
+   * message is marked so it is not offered again
+   */
+  async promoteChatMessage(
+    message: ChatMessage,
+    options: PromoteAnswerOptions,
+    adminId: string
+  ): Promise<string> {
+    if (!message.propertyId) {
+      throw new Error('This answer is not linked to a property');
+    }
+    if (message.metadata?.helpful !== true) {
+      throw new Error('Only answers staff marked as helpful can be added');
+    }
+
+    const input: KnowledgeEntryInput = {
+      propertyId: message.propertyId,
+      kind: options.kind ?? 'note',
+      title: options.title,
+      // Citation markers point at the answer's own sources, not the new entry's
+      body: message.message.replace(/\s*\[\d+\]/g, ''),
+      ...(options.location && { location: options.location }),
+      tags: options.tags ?? [],
+    };
+    const errors = validateKnowledgeInput(input);
+    if (errors.length > 0) {
+      throw new Error(errors.join('\n'));
+    }
+
+    const db = await getDb();
+    const docRef = await addDoc(collection(db, this.KNOWLEDGE_COLLECTION), {
+      propertyId: input.propertyId,
+      kind: input.kind,
+      title: input.title.trim(),
+      body: input.body.trim(),
+      location: input.location?.trim() || null,
+      tags: input.tags,
+      photoUrl: null,
+      appliance: null,
+      source: 'chat',
+      sourceRef: message.id,
+      createdBy: adminId,
+      createdAt: serverTimestamp(),
+      updatedBy: adminId,
+      updatedAt: serverTimestamp(),
+    });
+    await updateDoc(doc(db, this.CHAT_COLLECTION, message.id), {
+      'metadata.promotedEntryId': docRef.id,
+    });
+
+    console.log(`✅ KnowledgeBaseService: Promoted answer ${message.id} to entry ${docRef.id}`);
+    this.invalidateCache(input.propertyId);
+    return docRef.id;
+  }
+
+  // Private helper methods
+
+  private mapEntry(id: string, data: any): KnowledgeEntry {
+    return {
+      id,
+      propertyId: data.propertyId,
+      kind: data.kind || 'note',
+      title: data.title || 'Untitled',
+      body: data.body || '',
+      location: data.location || undefined,
+      tags: data.tags || [],
+      photoUrl: data.photoUrl || undefined,
+      appliance: data.appliance || undefined,
+      source: data.source || 'admin',
+      sourceRef: data.sourceRef || undefined,
+      createdBy: data.createdBy || '',
+      createdAt: toDate(data.createdAt) || new Date(),
+      updatedAt: toDate(data.updatedAt) || new Date(),
+    };
+  }
+
+  private async getCachedEntries(propertyId: string): Promise<KnowledgeCache | null> {
+    try {
+      const cachedDataString = await AsyncStorage.getItem(`${this.CACHE_KEY_PREFIX}${propertyId}`);
+      if (!cachedDataString) {
+        return null;
+      }
+
+      const cachedData: KnowledgeCache = JSON.parse(cachedDataString);
+      cachedData.entries = cachedData.entries.map(entry => ({
+        ...entry,
+        createdAt: new Date(entry.createdAt),
+        updatedAt: new Date(entry.updatedAt),
+      }));
+      return cachedData;
+    } catch (error) {
+      console.error('❌ KnowledgeBaseService: Error reading cached entries:', error);
+      return null;
+    }
+  }
+
+  private async cacheEntries(propertyId: string, entries: KnowledgeEntry[]): Promise<void> {
+    const cacheData: KnowledgeCache = { propertyId, entries, cachedAt: Date.now() };
+    this.memoryCache.set(propertyId, cacheData);
+    try {
+      await AsyncStorage.setItem(`${this.CACHE_KEY_PREFIX}${propertyId}`, JSON.stringify(cacheData));
+      console.log(`💾 KnowledgeBaseService: Cached ${entries.length} entries for property ${propertyId}`);
+    } catch (error) {
+      console.error('❌ KnowledgeBaseService: Error caching entries:', error);
+    }
+  }
+
+  // Only the memory copy is dropped; the saved copy stays for offline use
+  private invalidateCache(propertyId: string): void {
+    this.memoryCache.delete(propertyId);
+  }
+}
+
+export const knowledgeBaseService = new KnowledgeBaseService();
+export default knowledgeBaseService;
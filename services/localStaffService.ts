@@ -5,7 +5,7 @@
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
-import { getFirestore, doc, getDoc } from 'firebase/firestore';
+import { pinService, PINCheckResult } from './pinService';
 
 // Web-compatible secure storage
 let SecureStore: any;
@@ -31,10 +31,11 @@ export interface StaffProfile {
   id: string;
   name: string;
   email: string;
-  role: 'admin' | 'manager' | 'staff' | 'cleaner' | 'maintenance' | 'housekeeper' | 'concierge';
+  role: 'admin' | 'manager' | 'supervisor' | 'staff' | 'cleaner' | 'maintenance' | 'housekeeper' | 'concierge';
   avatar?: string;
   isActive: boolean;
   department?: string;
+  teamId?: string;
   phone?: string;
   emergencyContact?: string;
   emergencyPhone?: string;
@@ -149,6 +150,7 @@ class LocalStaffService {
 
   /**
    * Set PIN for a staff profile
+   * Stored as a hash on the server via pinService
    */
   async setStaffPIN(profileId: string, pin: string): Promise<boolean> {
     try {
@@ -157,34 +159,20 @@ class LocalStaffService {
         console.error(`❌ LocalStaffService: Invalid profile ID provided to setStaffPIN: "${profileId}"`);
         return false;
       }
-      
-      if (!pin || typeof pin !== 'string' || pin.length !== 4) {
-        console.error(`❌ LocalStaffService: Invalid PIN provided: "${pin}"`);
-        return false;
-      }
-      
-      const pinKey = createSecureStoreKey(profileId);
-      
-      // Validate the final key
-      if (!pinKey || pinKey === PIN_PREFIX || pinKey.length < 5) {
-        console.error(`❌ LocalStaffService: Invalid PIN key generated: "${pinKey}"`);
-        return false;
-      }
-      
-      await SecureStore.setItemAsync(pinKey, pin);
-      console.log(`🔐 LocalStaffService: PIN set for profile ${profileId} (key: ${pinKey})`);
+
+      await pinService.setPIN(profileId, pin);
+      await this.removePIN(profileId);
+      console.log(`🔐 LocalStaffService: PIN set for profile ${profileId}`);
       return true;
     } catch (error) {
       console.error('❌ LocalStaffService: Failed to set PIN:', error);
       console.error(`   Profile ID: "${profileId}" (type: ${typeof profileId})`);
-      console.error(`   PIN: "${pin}" (type: ${typeof pin})`);
       return false;
     }
   }
 
   /**
    * Check if PIN exists for a staff profile
-   * First checks local storage, then falls back to Firebase
    */
   async hasPIN(profileId: string): Promise<boolean> {
     try {
@@ -193,109 +181,33 @@ class LocalStaffService {
         console.warn(`⚠️ LocalStaffService: Invalid profile ID provided to hasPIN: "${profileId}"`);
         return false;
       }
-      
-      console.log(`🔍 LocalStaffService: Checking PIN for profile: "${profileId}"`);
-      
-      const pinKey = createSecureStoreKey(profileId);
-      
-      // Validate the final key
-      if (!pinKey || pinKey === PIN_PREFIX || pinKey.length < 5) {
-        console.warn(`⚠️ LocalStaffService: Invalid PIN key generated: "${pinKey}"`);
-        return false;
-      }
-      
-      console.log(`🔑 LocalStaffService: Using valid key: "${pinKey}"`);
-      
-      // Check local storage first (fast)
-      const storedPin = await SecureStore.getItemAsync(pinKey);
-      if (storedPin) {
-        console.log(`✅ LocalStaffService: PIN found in local storage for ${profileId}`);
-        return true;
-      }
-      
-      console.log(`� LocalStaffService: No local PIN, checking Firebase for ${profileId}...`);
-      
-      // Check Firebase for PIN
-      const firebasePin = await this.getFirebasePIN(profileId);
-      if (firebasePin) {
-        console.log(`✅ LocalStaffService: PIN found in Firebase for ${profileId}, caching locally...`);
-        // Cache the PIN locally for future use
-        await SecureStore.setItemAsync(pinKey, firebasePin);
-        return true;
-      }
-      
-      console.log(`❌ LocalStaffService: No PIN found (local or Firebase) for ${profileId}`);
-      return false;
+
+      const hasPIN = await pinService.hasPIN(profileId);
+      console.log(`🔍 LocalStaffService: Profile ${profileId} has PIN: ${hasPIN}`);
+      return hasPIN;
     } catch (error) {
       console.error('❌ LocalStaffService: Failed to check PIN existence:', error);
       console.error(`   Profile ID: "${profileId}" (type: ${typeof profileId})`);
-      console.error(`   Error details:`, error);
       return false;
     }
   }
 
   /**
-   * Get PIN from Firebase staff_accounts collection
+   * Verify PIN for a staff profile against the shared staff record
    */
-  private async getFirebasePIN(profileId: string): Promise<string | null> {
+  async verifyStaffPIN(profileId: string, pin: string): Promise<PINCheckResult> {
     try {
-      const db = getFirestore();
-      const staffDocRef = doc(db, 'staff_accounts', profileId);
-      const staffDoc = await getDoc(staffDocRef);
-      
-      if (staffDoc.exists()) {
-        const data = staffDoc.data();
-        const pin = data?.pin;
-        
-        if (pin && typeof pin === 'string') {
-          console.log(`🔥 LocalStaffService: Retrieved PIN from Firebase for ${profileId}`);
-          return pin;
-        } else {
-          console.log(`⚠️ LocalStaffService: Firebase document exists but no PIN field for ${profileId}`);
-          return null;
-        }
-      } else {
-        console.log(`⚠️ LocalStaffService: No Firebase document found for ${profileId}`);
-        return null;
-      }
-    } catch (error) {
-      console.error('❌ LocalStaffService: Failed to get PIN from Firebase:', error);
-      return null;
-    }
-  }
+      const result = await pinService.verifyPIN(profileId, pin);
+      console.log(`🔐 LocalStaffService: PIN verification for ${profileId}: ${result.success ? 'SUCCESS' : 'FAILED'}`);
 
-  /**
-   * Verify PIN for a staff profile
-   * Checks both local storage and Firebase
-   */
-  async verifyStaffPIN(profileId: string, pin: string): Promise<boolean> {
-    try {
-      const pinKey = createSecureStoreKey(profileId);
-      let storedPin = await SecureStore.getItemAsync(pinKey);
-      
-      // If not found locally, check Firebase
-      if (!storedPin) {
-        console.log(`📡 LocalStaffService: PIN not in local storage, checking Firebase...`);
-        storedPin = await this.getFirebasePIN(profileId);
-        
-        // If found in Firebase, cache it locally
-        if (storedPin) {
-          console.log(`💾 LocalStaffService: Caching Firebase PIN locally for ${profileId}`);
-          await SecureStore.setItemAsync(pinKey, storedPin);
-        }
+      if (result.success) {
+        // Drop any plain-text PIN cached by older versions of the app
+        await this.removePIN(profileId);
       }
-      
-      if (!storedPin) {
-        console.log(`🔐 LocalStaffService: No PIN found (local or Firebase) for profile ${profileId}`);
-        return false;
-      }
-      
-      const isValid = storedPin === pin;
-      console.log(`🔐 LocalStaffService: PIN verification for ${profileId}: ${isValid ? 'SUCCESS' : 'FAILED'}`);
-      return isValid;
+      return result;
     } catch (error) {
       console.error('❌ LocalStaffService: Failed to verify PIN:', error);
-      return false;
+      return { success: false, error: 'PIN verification failed' };
     }
   }
 
@@ -401,7 +313,7 @@ class LocalStaffService {
   }
 
   /**
-   * Remove PIN for a staff profile (for testing/reset purposes)
+   * Remove the locally cached PIN left by older versions of the app
    */
   async removePIN(profileId: string): Promise<boolean> {
     try {
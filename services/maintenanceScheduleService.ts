@@ -0,0 +1,426 @@
+/**
+ * Maintenance Schedule Service
+ * Recurring and preventive maintenance per property (pool cleaning, AC
+ * filters, generator servicing, ...).
+ *
+ * Schedules live in `maintenance_schedules`. Each run materializes jobs in the
+ * `jobs` collection up to the schedule's horizon, moving or skipping dates when
+ * the property is booked, and records every occurrence in
+ * `maintenance_instances` as the schedule's compliance history.
+ */
+
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+  serverTimestamp
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { realtimeDB } from '@/lib/realtimeDatabase';
+import { openaiService } from '@/services/openaiService';
+import { propertyService, Property } from '@/services/propertyService';
+import type { JobData } from '@/types/jobData';
+import type {
+  MaintenanceCompliance,
+  MaintenanceInstance,
+  MaintenanceSchedule
+} from '@/types/property';
+import { planJobTransition, buildStatusUpdate, normalizeJobStatus } from '@/utils/jobStateMachine';
+import {
+  addDays,
+  describeRecurrence,
+  planMaintenanceInstances,
+  resolveInstanceStatus,
+  summarizeCompliance,
+  toDateKey,
+  PlannedMaintenanceInstance
+} from '@/utils/maintenanceRecurrence';
+
+export const MAINTENANCE_JOB_SOURCE = 'maintenance_schedule';
+
+export interface MaintenanceMaterializeResult {
+  scheduleId: string;
+  created: number;
+  rescheduled: number;
+  skipped: number;
+  errors: string[];
+}
+
+export interface MaintenanceComplianceHistory {
+  schedule: MaintenanceSchedule;
+  instances: MaintenanceInstance[];
+  summary: MaintenanceCompliance;
+}
+
+// Jobs nobody has picked up yet can still be moved or cancelled
+const MOVABLE_JOB_STATUSES = ['pending', 'offered', 'assigned'];
+
+const toDate = (value: any): Date | undefined =>
+  value?.toDate ? value.toDate() : value ? new Date(value) : undefined;
+
+class MaintenanceScheduleService {
+  private readonly SCHEDULES_COLLECTION = 'maintenance_schedules';
+  private readonly INSTANCES_COLLECTION = 'maintenance_instances';
+  private readonly JOBS_COLLECTION = 'jobs';
+  private readonly COMPLETED_JOBS_COLLECTION = 'completed_jobs';
+
+  /**
+   * Create a schedule and materialize its first jobs
+   */
+  async createSchedule(
+    input: Omit<MaintenanceSchedule, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<MaintenanceSchedule> {
+    const db = await getDb();
+    const docRef = await addDoc(collection(db, this.SCHEDULES_COLLECTION), {
+      ...input,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+
+    const schedule: MaintenanceSchedule = { ...input, id: docRef.id, createdAt: new Date(), updatedAt: new Date() };
+    console.log('🔧 MaintenanceScheduleService: Created schedule', schedule.title);
+
+    if (schedule.isActive) {
+      await this.materializeSchedule(schedule);
+    }
+    return schedule;
+  }
+
+  async updateSchedule(
+    scheduleId: string,
+    updates: Partial<Omit<MaintenanceSchedule, 'id' | 'createdAt' | 'updatedAt'>>
+  ): Promise<void> {
+    const db = await getDb();
+    await updateDoc(doc(db, this.SCHEDULES_COLLECTION, scheduleId), {
+      ...updates,
+      updatedAt: serverTimestamp(),
+    });
+
+    const schedule = await this.getSchedule(scheduleId);
+    if (schedule?.isActive) {
+      await this.materializeSchedule(schedule);
+    }
+  }
+
+  async deactivateSchedule(scheduleId: string): Promise<void> {
+    const db = await getDb();
+    await updateDoc(doc(db, this.SCHEDULES_COLLECTION, scheduleId), {
+      isActive: false,
+      updatedAt: serverTimestamp(),
+    });
+  }
+
+  async getSchedule(scheduleId: string): Promise<MaintenanceSchedule | null> {
+    const db = await getDb();
+    const snapshot = await getDoc(doc(db, this.SCHEDULES_COLLECTION, scheduleId));
+    return snapshot.exists() ? this.mapSchedule(snapshot.id, snapshot.data()) : null;
+  }
+
+  async getSchedules(propertyId?: string): Promise<MaintenanceSchedule[]> {
+    const db = await getDb();
+    const schedulesRef = collection(db, this.SCHEDULES_COLLECTION);
+    const snapshot = await getDocs(
+      propertyId ? query(schedulesRef, where('propertyId', '==', propertyId)) : schedulesRef
+    );
+    return snapshot.docs.map(scheduleDoc => this.mapSchedule(scheduleDoc.id, scheduleDoc.data()));
+  }
+
+  /**
+   * Materialize every active schedule
+   */
+  async materializeAll(today: Date = new Date()): Promise<MaintenanceMaterializeResult[]> {
+    const db = await getDb();
+    const snapshot = await getDocs(query(
+      collection(db, this.SCHEDULES_COLLECTION),
+      where('isActive', '==', true)
+    ));
+
+    const results: MaintenanceMaterializeResult[] = [];
+    for (const scheduleDoc of snapshot.docs) {
+      try {
+        results.push(await this.materializeSchedule(this.mapSchedule(scheduleDoc.id, scheduleDoc.data()), today));
+      } catch (error) {
+        console.error('❌ MaintenanceScheduleService: Failed to materialize schedule:', scheduleDoc.id, error);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Create jobs for the schedule's horizon and move or skip planned ones
+   * whose dates are now occupied
+   */
+  async materializeSchedule(
+    schedule: MaintenanceSchedule,
+    today: Date = new Date()
+  ): Promise<MaintenanceMaterializeResult> {
+    const result: MaintenanceMaterializeResult = {
+      scheduleId: schedule.id,
+      created: 0,
+      rescheduled: 0,
+      skipped: 0,
+      errors: [],
+    };
+
+    const from = toDateKey(today);
+    const to = addDays(from, schedule.horizonDays);
+    const bookings = await realtimeDB.fetchBookings(schedule.propertyId);
+    const planned = planMaintenanceInstances(schedule, bookings, from, to);
+    if (planned.length === 0) return result;
+
+    const db = await getDb();
+    const existing = await this.getInstances(schedule.id);
+    const propertyResponse = await propertyService.getProperty(schedule.propertyId);
+    const property = propertyResponse.property ?? null;
+
+    for (const plannedInstance of planned) {
+      const instanceId = `${schedule.id}_${plannedInstance.dueDate}`;
+      const instance = existing.find(e => e.id === instanceId);
+
+      try {
+        if (!instance || (instance.status === 'skipped_occupied' && plannedInstance.status === 'scheduled')) {
+          // New occurrence, or a skipped one whose dates have freed up
+          const jobId = plannedInstance.status === 'scheduled'
+            ? await this.createJob(schedule, plannedInstance, instanceId, property)
+            : null;
+
+          await setDoc(doc(db, this.INSTANCES_COLLECTION, instanceId), {
+            scheduleId: schedule.id,
+            propertyId: schedule.propertyId,
+            dueDate: plannedInstance.dueDate,
+            scheduledDate: plannedInstance.scheduledDate,
+            jobId,
+            status: plannedInstance.status,
+            notes: this.describeShift(plannedInstance),
+            updatedAt: serverTimestamp(),
+          });
+
+          if (jobId) result.created++;
+          else result.skipped++;
+          continue;
+        }
+
+        if (instance.status !== 'scheduled' || !instance.jobId) continue;
+        if (plannedInstance.scheduledDate === instance.scheduledDate) continue;
+
+        // A booking now covers the planned date
+        const jobRef = doc(db, this.JOBS_COLLECTION, instance.jobId);
+        const jobSnapshot = await getDoc(jobRef);
+        const jobStatus = normalizeJobStatus(jobSnapshot.data()?.status);
+        if (!jobStatus || !MOVABLE_JOB_STATUSES.includes(jobStatus)) continue;
+
+        if (plannedInstance.status === 'skipped_occupied') {
+          const transition = planJobTransition({
+            from: jobStatus,
+            to: 'cancelled',
+            actor: 'system',
+            actorId: MAINTENANCE_JOB_SOURCE,
+            notes: 'Property occupied on every day near the due date',
+          });
+          await updateDoc(jobRef, buildStatusUpdate(transition));
+          await updateDoc(doc(db, this.INSTANCES_COLLECTION, instanceId), {
+            status: 'skipped_occupied',
+            scheduledDate: null,
+            updatedAt: serverTimestamp(),
+          });
+          result.skipped++;
+        } else {
+          await updateDoc(jobRef, {
+            scheduledDate: plannedInstance.scheduledDate,
+            updatedAt: serverTimestamp(),
+          });
+          await updateDoc(doc(db, this.INSTANCES_COLLECTION, instanceId), {
+            scheduledDate: plannedInstance.scheduledDate,
+            notes: this.describeShift(plannedInstance),
+            updatedAt: serverTimestamp(),
+          });
+          result.rescheduled++;
+        }
+      } catch (error) {
+        result.errors.push(`${instanceId}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    console.log(
+      `✅ MaintenanceScheduleService: ${schedule.title} - ${result.created} created, ` +
+      `${result.rescheduled} moved, ${result.skipped} skipped`
+    );
+    return result;
+  }
+
+  /**
+   * Every occurrence of a schedule, refreshed from its jobs, with a summary
+   */
+  async getComplianceHistory(
+    scheduleId: string,
+    today: Date = new Date()
+  ): Promise<MaintenanceComplianceHistory | null> {
+    const schedule = await this.getSchedule(scheduleId);
+    if (!schedule) return null;
+
+    const db = await getDb();
+    const todayKey = toDateKey(today);
+    const instances = await this.getInstances(scheduleId);
+
+    for (const instance of instances) {
+      if (!instance.jobId || !['scheduled', 'missed'].includes(instance.status)) continue;
+
+      // Completed jobs are moved out of `jobs`, so look there next
+      let jobSnapshot = await getDoc(doc(db, this.JOBS_COLLECTION, instance.jobId));
+      if (!jobSnapshot.exists()) {
+        jobSnapshot = await getDoc(doc(db, this.COMPLETED_JOBS_COLLECTION, instance.jobId));
+      }
+      const job = jobSnapshot.data();
+      const resolved = resolveInstanceStatus(instance, job?.status, toDate(job?.completedAt), todayKey);
+      if (resolved.status === instance.status) continue;
+
+      Object.assign(instance, resolved);
+      await updateDoc(doc(db, this.INSTANCES_COLLECTION, instance.id), {
+        status: resolved.status,
+        ...(resolved.completedAt && { completedAt: resolved.completedAt }),
+        ...(resolved.daysLate !== undefined && { daysLate: resolved.daysLate }),
+        updatedAt: serverTimestamp(),
+      });
+    }
+
+    instances.sort((a, b) => b.dueDate.localeCompare(a.dueDate));
+    return { schedule, instances, summary: summarizeCompliance(instances) };
+  }
+
+  /**
+   * Most recent completed maintenance at a property, as YYYY-MM-DD
+   */
+  async getLastMaintenanceDate(propertyId: string): Promise<string | undefined> {
+    const db = await getDb();
+    const snapshot = await getDocs(query(
+      collection(db, this.INSTANCES_COLLECTION),
+      where('propertyId', '==', propertyId),
+      where('status', '==', 'completed')
+    ));
+
+    const latest = snapshot.docs
+      .map(instanceDoc => toDate(instanceDoc.data().completedAt))
+      .filter((date): date is Date => !!date)
+      .sort((a, b) => b.getTime() - a.getTime())[0];
+    return latest ? toDateKey(latest) : undefined;
+  }
+
+  /**
+   * AI task suggestions backed by the property's schedules and history
+   */
+  async suggestTasks(propertyId: string, season: string) {
+    const [propertyResponse, schedules, lastMaintenanceDate] = await Promise.all([
+      propertyService.getProperty(propertyId),
+      this.getSchedules(propertyId),
+      this.getLastMaintenanceDate(propertyId),
+    ]);
+
+    const existingSchedules = [];
+    for (const schedule of schedules.filter(s => s.isActive)) {
+      const history = await this.getComplianceHistory(schedule.id);
+      existingSchedules.push({
+        title: schedule.title,
+        recurrence: describeRecurrence(schedule.recurrence),
+        complianceRate: history?.summary.complianceRate ?? 100,
+      });
+    }
+
+    return openaiService.generateTaskSuggestions(
+      propertyResponse.property?.type || 'villa',
+      season,
+      lastMaintenanceDate,
+      existingSchedules
+    );
+  }
+
+  private async getInstances(scheduleId: string): Promise<MaintenanceInstance[]> {
+    const db = await getDb();
+    const snapshot = await getDocs(query(
+      collection(db, this.INSTANCES_COLLECTION),
+      where('scheduleId', '==', scheduleId)
+    ));
+
+    return snapshot.docs.map(instanceDoc => {
+      const data = instanceDoc.data();
+      return {
+        id: instanceDoc.id,
+        scheduleId: data.scheduleId,
+        propertyId: data.propertyId,
+        dueDate: data.dueDate,
+        scheduledDate: data.scheduledDate ?? null,
+        jobId: data.jobId ?? null,
+        status: data.status,
+        completedAt: toDate(data.completedAt),
+        daysLate: data.daysLate,
+        notes: data.notes,
+      };
+    });
+  }
+
+  private async createJob(
+    schedule: MaintenanceSchedule,
+    plannedInstance: PlannedMaintenanceInstance,
+    instanceId: string,
+    property: Property | null
+  ): Promise<string> {
+    const db = await getDb();
+    const jobId = `maintenance_${instanceId}`;
+    const coordinates = property?.location.coordinates ?? { latitude: 0, longitude: 0 };
+    const address = property?.address || property?.location.address || '';
+
+    const job: Omit<JobData, 'id'> = {
+      propertyId: schedule.propertyId,
+      propertyRef: {
+        id: schedule.propertyId,
+        name: property?.name || 'Unknown Property',
+        address,
+        coordinates,
+      },
+      jobType: schedule.jobType,
+      title: schedule.title,
+      description: schedule.description || describeRecurrence(schedule.recurrence),
+      priority: schedule.priority,
+      scheduledDate: plannedInstance.scheduledDate ?? plannedInstance.dueDate,
+      scheduledStartTime: schedule.preferredStartTime,
+      estimatedDuration: schedule.estimatedDuration,
+      requiredSkills: schedule.requiredSkills || [],
+      location: { address, coordinates },
+      // Unassigned until an admin or the recommendation engine picks someone
+      assignedStaffId: '',
+      userId: '',
+      status: 'pending',
+      generatedBy: MAINTENANCE_JOB_SOURCE,
+      maintenanceScheduleId: schedule.id,
+      maintenanceInstanceId: instanceId,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    };
+
+    await setDoc(doc(db, this.JOBS_COLLECTION, jobId), job);
+    return jobId;
+  }
+
+  private describeShift(plannedInstance: PlannedMaintenanceInstance): string {
+    return plannedInstance.shiftedDays > 0
+      ? `Moved ${plannedInstance.shiftedDays} day(s) because the property is occupied`
+      : '';
+  }
+
+  private mapSchedule(id: string, data: any): MaintenanceSchedule {
+    return {
+      ...data,
+      id,
+      createdAt: toDate(data.createdAt) ?? new Date(),
+      updatedAt: toDate(data.updatedAt) ?? new Date(),
+    } as MaintenanceSchedule;
+  }
+}
+
+export const maintenanceScheduleService = new MaintenanceScheduleService();
+export default maintenanceScheduleService;
@@ -0,0 +1,240 @@
+/**
+ * Notification Digest Service
+ * Collects non-urgent notifications per recipient and sends them as one
+ * summary once the recipient's digest window has passed.
+ *
+ * Pending events live in `notification_digest_events` with `digestId: null`.
+ * A flush writes the summary to `notification_digests/{recipientId}_{firstEventId}`
+ * and stamps the events with its id in one transaction, so two admin devices
+ * running the flush loop cannot send the same digest twice. The summary goes
+ * out through the unified notification service plus an in-app entry that
+ * opens the digest's event list.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  addDoc,
+  query,
+  where,
+  runTransaction,
+  serverTimestamp
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { firebaseUidService } from '@/services/firebaseUidService';
+import { notificationPreferenceService } from '@/services/notificationPreferenceService';
+import {
+  buildDigestSummary,
+  isDigestDue,
+  DigestEvent,
+  DigestEventKind
+} from '@/utils/notificationDigest';
+
+const FLUSH_INTERVAL_MS = 5 * 60 * 1000;
+
+// Transactions cap out at 500 writes; anything beyond waits for the next flush
+const MAX_EVENTS_PER_DIGEST = 400;
+
+export interface NotificationDigest {
+  id: string;
+  recipientId: string;
+  title: string;
+  body: string;
+  eventCount: number;
+  counts: Partial<Record<DigestEventKind, number>>;
+  jobIds: string[];
+  issueIds: string[];
+  windowStart: Date;
+  windowEnd: Date;
+  createdAt?: Date;
+}
+
+const toDate = (value: any): Date | undefined =>
+  value?.toDate ? value.toDate() : value ? new Date(value) : undefined;
+
+const toDigestEvent = (id: string, data: any): DigestEvent => ({
+  id,
+  eventType: data.eventType,
+  entityId: data.entityId,
+  priority: data.priority || 'normal',
+  title: data.title || '',
+  body: data.body || '',
+  ...(data.status && { status: data.status }),
+  ...(data.lateMinutes && { lateMinutes: data.lateMinutes }),
+  // Fresh writes have no server timestamp yet
+  createdAt: toDate(data.createdAt) || new Date(),
+});
+
+class NotificationDigestService {
+  private readonly EVENTS_COLLECTION = 'notification_digest_events';
+  private readonly DIGESTS_COLLECTION = 'notification_digests';
+  private readonly NOTIFICATIONS_COLLECTION = 'staff_notifications';
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private flushing = false;
+
+  /**
+   * Hold an event for the recipient's next digest
+   */
+  async enqueue(recipientId: string, event: Omit<DigestEvent, 'id' | 'createdAt'>): Promise<void> {
+    const db = await getDb();
+    await addDoc(collection(db, this.EVENTS_COLLECTION), {
+      recipientId,
+      eventType: event.eventType,
+      entityId: event.entityId,
+      priority: event.priority,
+      title: event.title,
+      body: event.body,
+      ...(event.status && { status: event.status }),
+      ...(event.lateMinutes && { lateMinutes: event.lateMinutes }),
+      digestId: null,
+      createdAt: serverTimestamp(),
+    });
+    console.log(`📥 NotificationDigest: Held ${event.eventType} for ${recipientId}`);
+  }
+
+  /**
+   * Flush due digests periodically. Runs on admin/manager devices.
+   */
+  start(): () => void {
+    if (this.timer) return () => this.stop();
+
+    console.log('📬 NotificationDigest: Flushing digests every', FLUSH_INTERVAL_MS / 60000, 'minutes');
+    const run = () => {
+      this.flushDue().catch(error => {
+        console.error('❌ NotificationDigest: Flush failed:', error);
+      });
+    };
+    run();
+    this.timer = setInterval(run, FLUSH_INTERVAL_MS);
+    return () => this.stop();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Send every recipient's digest whose window has passed
+   */
+  async flushDue(now: Date = new Date()): Promise<number> {
+    if (this.flushing) return 0;
+    this.flushing = true;
+
+    try {
+      const db = await getDb();
+      const snapshot = await getDocs(query(collection(db, this.EVENTS_COLLECTION), where('digestId', '==', null)));
+
+      const byRecipient = new Map<string, DigestEvent[]>();
+      snapshot.forEach(eventDoc => {
+        const recipientId = eventDoc.data().recipientId;
+        const events = byRecipient.get(recipientId) || [];
+        events.push(toDigestEvent(eventDoc.id, eventDoc.data()));
+        byRecipient.set(recipientId, events);
+      });
+
+      let sent = 0;
+      for (const [recipientId, events] of byRecipient) {
+        events.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+        const { digest } = await notificationPreferenceService.getPreferences(recipientId);
+        if (!isDigestDue(events[0].createdAt, now, digest.windowMinutes)) continue;
+
+        try {
+          if (await this.sendDigest(recipientId, events.slice(0, MAX_EVENTS_PER_DIGEST), now)) {
+            sent++;
+          }
+        } catch (error) {
+          console.error(`❌ NotificationDigest: Failed to send digest to ${recipientId}:`, error);
+        }
+      }
+
+      if (sent > 0) {
+        console.log(`📬 NotificationDigest: Sent ${sent} digest(s)`);
+      }
+      return sent;
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  async getDigest(digestId: string): Promise<NotificationDigest | null> {
+    const db = await getDb();
+    const snapshot = await getDoc(doc(db, this.DIGESTS_COLLECTION, digestId));
+    if (!snapshot.exists()) return null;
+
+    const data = snapshot.data();
+    return {
+      id: snapshot.id,
+      recipientId: data.recipientId,
+      title: data.title,
+      body: data.body,
+      eventCount: data.eventCount || 0,
+      counts: data.counts || {},
+      jobIds: data.jobIds || [],
+      issueIds: data.issueIds || [],
+      windowStart: toDate(data.windowStart) || new Date(),
+      windowEnd: toDate(data.windowEnd) || new Date(),
+      createdAt: toDate(data.createdAt),
+    };
+  }
+
+  async getDigestEvents(digestId: string): Promise<DigestEvent[]> {
+    const db = await getDb();
+    const snapshot = await getDocs(query(collection(db, this.EVENTS_COLLECTION), where('digestId', '==', digestId)));
+    return snapshot.docs
+      .map(eventDoc => toDigestEvent(eventDoc.id, eventDoc.data()))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Claim the events for one digest, then notify the recipient
+   */
+  private async sendDigest(recipientId: string, events: DigestEvent[], now: Date): Promise<boolean> {
+    const db = await getDb();
+    const summary = buildDigestSummary(events);
+    const digestRef = doc(db, this.DIGESTS_COLLECTION, `${recipientId}_${events[0].id}`);
+
+    const claimed = await runTransaction(db, async transaction => {
+      const existing = await transaction.get(digestRef);
+      if (existing.exists()) return false;
+
+      transaction.set(digestRef, {
+        recipientId,
+        ...summary,
+        windowStart: events[0].createdAt,
+        windowEnd: now,
+        createdAt: serverTimestamp(),
+      });
+      events.forEach(event => {
+        transaction.update(doc(db, this.EVENTS_COLLECTION, event.id!), { digestId: digestRef.id });
+      });
+      return true;
+    });
+    if (!claimed) return false;
+
+    const firebaseUid = await firebaseUidService.getFirebaseUid(recipientId);
+    await addDoc(collection(db, this.NOTIFICATIONS_COLLECTION), {
+      userId: firebaseUid || recipientId,
+      staffId: recipientId,
+      type: 'digest',
+      title: summary.title,
+      message: summary.body,
+      digestId: digestRef.id,
+      priority: 'low',
+      read: false,
+      timestamp: serverTimestamp(),
+    });
+
+    const { unifiedJobNotificationService } = await import('./unifiedJobNotificationService');
+    await unifiedJobNotificationService.sendDigestNotification(recipientId, digestRef.id, summary);
+    return true;
+  }
+}
+
+export const notificationDigestService = new NotificationDigestService();
+export default notificationDigestService;
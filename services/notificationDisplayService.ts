@@ -5,17 +5,24 @@
 
 import { getDb } from '@/lib/firebase';
 import { collection, query, where, orderBy, limit, onSnapshot, doc, updateDoc, Unsubscribe } from 'firebase/firestore';
+import { announcementService } from '@/services/announcementService';
+import type { AnnouncementReceiptRef } from '@/types/announcement';
+import { isAwaitingAcknowledgement, sortPinnedFirst } from '@/utils/announcements';
 
 export interface AppNotification {
   id: string;
   title: string;
   message: string;
-  type: 'job_assigned' | 'job_updated' | 'system' | 'reminder';
+  type: 'job_assigned' | 'job_updated' | 'system' | 'reminder' | 'digest' | 'announcement';
   assignedTo: string;
   read: boolean;
   timestamp: Date;
   jobId?: string;
   priority?: 'low' | 'medium' | 'high';
+  // Announcements that need acknowledging stay pinned until acknowledgedAt is set
+  announcementId?: string;
+  requiresAck?: boolean;
+  acknowledgedAt?: Date;
   data?: any;
 }
 
@@ -193,6 +200,9 @@ class NotificationDisplayService {
             timestamp: data.timestamp?.toDate() || data.createdAt?.toDate() || new Date(),
             jobId: data.jobId || data.id,
             priority: data.priority || 'medium',
+            announcementId: data.announcementId,
+            requiresAck: !!data.requiresAck,
+            acknowledgedAt: data.acknowledgedAt?.toDate(),
             data: data
           });
         });
@@ -223,6 +233,9 @@ class NotificationDisplayService {
                   timestamp: data.timestamp?.toDate() || new Date(),
                   jobId: data.jobId,
                   priority: data.priority || 'medium',
+                  announcementId: data.announcementId,
+                  requiresAck: !!data.requiresAck,
+                  acknowledgedAt: data.acknowledgedAt?.toDate(),
                   data: data.data,
                 });
               });
@@ -247,6 +260,9 @@ class NotificationDisplayService {
                     timestamp: data.timestamp?.toDate() || new Date(),
                     jobId: data.jobId,
                     priority: data.priority || 'medium',
+                    announcementId: data.announcementId,
+                    requiresAck: !!data.requiresAck,
+                    acknowledgedAt: data.acknowledgedAt?.toDate(),
                     data: data.data,
                   });
                 });
@@ -257,8 +273,9 @@ class NotificationDisplayService {
           }
         }
 
-        // Sort notifications by timestamp manually (since we can't use orderBy yet)
-        notifications.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+        // Sort notifications by timestamp manually (since we can't use orderBy yet),
+        // keeping announcements that still need acknowledging pinned on top
+        const sorted = sortPinnedFirst(notifications);
         
         console.log('� NotificationDisplay: Final result:', notifications.length, 'notifications from staff_notifications');
         
@@ -288,7 +305,7 @@ class NotificationDisplayService {
           }
         }
         
-        callback(notifications);
+        callback(sorted);
       }, (error) => {
         console.error('❌ NotificationDisplay: Subscription error:', error);
         callback([]);
@@ -304,9 +321,10 @@ class NotificationDisplayService {
   }
 
   /**
-   * Mark a notification as read
+   * Mark a notification as read. Pass the announcement receipt for
+   * announcements so the sender sees who has read it.
    */
-  async markAsRead(notificationId: string): Promise<void> {
+  async markAsRead(notificationId: string, announcement?: AnnouncementReceiptRef): Promise<void> {
     try {
       console.log('📖 NotificationDisplay: Marking notification as read:', notificationId);
 
@@ -317,6 +335,9 @@ class NotificationDisplayService {
         read: true,
         readAt: new Date(),
       });
+      if (announcement) {
+        await announcementService.recordRead(announcement);
+      }
 
       console.log('✅ NotificationDisplay: Notification marked as read');
     } catch (error) {
@@ -328,7 +349,7 @@ class NotificationDisplayService {
   /**
    * Mark multiple notifications as read
    */
-  async markMultipleAsRead(notificationIds: string[]): Promise<void> {
+  async markMultipleAsRead(notificationIds: string[], announcements: AnnouncementReceiptRef[] = []): Promise<void> {
     try {
       console.log('📖 NotificationDisplay: Marking', notificationIds.length, 'notifications as read');
 
@@ -341,7 +362,7 @@ class NotificationDisplayService {
         });
       });
 
-      await Promise.all(promises);
+      await Promise.all([...promises, ...announcements.map(receipt => announcementService.recordRead(receipt))]);
       console.log('✅ NotificationDisplay: All notifications marked as read');
     } catch (error) {
       console.error('❌ NotificationDisplay: Failed to mark notifications as read:', error);
@@ -350,7 +371,30 @@ class NotificationDisplayService {
   }
 
   /**
-   * Delete all notifications for a staff member
+   * Acknowledge an announcement, which also marks it read and unpins it
+   */
+  async acknowledge(notificationId: string, announcement: AnnouncementReceiptRef): Promise<void> {
+    try {
+      console.log('👍 NotificationDisplay: Acknowledging announcement:', announcement.announcementId);
+
+      const db = await getDb();
+      await updateDoc(doc(db, 'staff_notifications', notificationId), {
+        read: true,
+        readAt: new Date(),
+        acknowledgedAt: new Date(),
+      });
+      await announcementService.recordAcknowledgement(announcement);
+
+      console.log('✅ NotificationDisplay: Announcement acknowledged');
+    } catch (error) {
+      console.error('❌ NotificationDisplay: Failed to acknowledge announcement:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete all notifications for a staff member. Announcements still waiting
+   * for acknowledgement are kept.
    */
   async deleteAllNotifications(staffId: string): Promise<void> {
     try {
@@ -375,9 +419,12 @@ class NotificationDisplayService {
       console.log(`🗑️ NotificationDisplay: Found ${snapshot.size} notifications to delete`);
 
       // Delete all notifications
-      const deletePromises = snapshot.docs.map(docSnapshot => 
-        deleteDoc(doc(db, 'staff_notifications', docSnapshot.id))
-      );
+      const deletePromises = snapshot.docs
+        .filter(docSnapshot => !isAwaitingAcknowledgement({
+          requiresAck: docSnapshot.data().requiresAck,
+          acknowledgedAt: docSnapshot.data().acknowledgedAt?.toDate(),
+        }))
+        .map(docSnapshot => deleteDoc(doc(db, 'staff_notifications', docSnapshot.id)));
 
       await Promise.all(deletePromises);
       
@@ -0,0 +1,77 @@
+/**
+ * Notification Preference Service
+ * Stores each staff member's notification preferences in
+ * `notification_preferences/{staffId}`. Senders ask resolveDelivery (see
+ * utils/notificationPreferences) whether, and on which channel, to deliver.
+ *
+ * Staff without a stored document fall back to the legacy
+ * `notificationPreferences` flags on their staff record, then to defaults.
+ */
+
+import { doc, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import {
+  normalizeNotificationPreferences,
+  resolveDelivery,
+  DeliveryDecision,
+  LegacyNotificationPreferences,
+  NotificationPreferences,
+  NotificationPriority
+} from '@/utils/notificationPreferences';
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+class NotificationPreferenceService {
+  private readonly PREFERENCES_COLLECTION = 'notification_preferences';
+  private cache = new Map<string, { preferences: NotificationPreferences; loadedAt: number }>();
+
+  async getPreferences(staffId: string, legacy?: LegacyNotificationPreferences | null): Promise<NotificationPreferences> {
+    const cached = this.cache.get(staffId);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+      return cached.preferences;
+    }
+
+    try {
+      const db = await getDb();
+      const snapshot = await getDoc(doc(db, this.PREFERENCES_COLLECTION, staffId));
+      const preferences = normalizeNotificationPreferences(
+        snapshot.exists() ? (snapshot.data() as Partial<NotificationPreferences>) : null,
+        snapshot.exists() ? null : legacy
+      );
+      this.cache.set(staffId, { preferences, loadedAt: Date.now() });
+      return preferences;
+    } catch (error) {
+      console.error('❌ NotificationPreferenceService: Failed to load preferences:', error);
+      return normalizeNotificationPreferences(null, legacy);
+    }
+  }
+
+  async savePreferences(staffId: string, preferences: NotificationPreferences): Promise<void> {
+    const db = await getDb();
+    await setDoc(doc(db, this.PREFERENCES_COLLECTION, staffId), {
+      categories: preferences.categories,
+      quietHours: preferences.quietHours,
+      digest: preferences.digest,
+      updatedAt: serverTimestamp(),
+    });
+    this.cache.set(staffId, { preferences, loadedAt: Date.now() });
+    console.log(`✅ NotificationPreferenceService: Saved preferences for ${staffId}`);
+  }
+
+  /**
+   * Whether and how a notification reaches this staff member right now (or at `at`)
+   */
+  async resolveDelivery(
+    staffId: string,
+    eventType: string,
+    priority: NotificationPriority,
+    at: Date = new Date(),
+    legacy?: LegacyNotificationPreferences | null
+  ): Promise<DeliveryDecision> {
+    const preferences = await this.getPreferences(staffId, legacy);
+    return resolveDelivery(preferences, eventType, priority, at);
+  }
+}
+
+export const notificationPreferenceService = new NotificationPreferenceService();
+export default notificationPreferenceService;
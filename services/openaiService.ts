@@ -3,12 +3,8 @@
  * AI-powered features for property descriptions, maintenance, and guest communication
  */
 
-// OpenAI Configuration from environment variables
-const OPENAI_API_KEY = process.env.EXPO_PUBLIC_OPENAI_API_KEY;
-const OPENAI_ORG_ID = process.env.EXPO_PUBLIC_OPENAI_ORG_ID;
-const OPENAI_MODEL = process.env.EXPO_PUBLIC_OPENAI_MODEL || 'gpt-4o-mini';
-const OPENAI_MAX_TOKENS = parseInt(process.env.EXPO_PUBLIC_OPENAI_MAX_TOKENS || '1000');
-const OPENAI_TEMPERATURE = parseFloat(process.env.EXPO_PUBLIC_OPENAI_TEMPERATURE || '0.7');
+import { aiProviderService } from './aiProviderService';
+import type { AIAuditOutput, AIFeature, AIProviderId, AITemplateContext } from '@/types/aiProvider';
 
 // Feature flags
 const AI_FEATURES = {
@@ -22,6 +18,11 @@ interface OpenAIResponse {
   success: boolean;
   data?: string;
   error?: string;
+  provider?: AIProviderId; // 'local' when the answer came from the offline templates
+}
+
+interface StaffAuditAnalysisResponse extends OpenAIResponse {
+  analysis?: AIAuditOutput; // validated against the staff_audit schema
 }
 
 interface PropertyData {
@@ -51,77 +52,33 @@ interface GuestMessage {
 }
 
 class OpenAIService {
-  private apiKey: string | undefined;
-  private orgId: string | undefined;
-
-  constructor() {
-    this.apiKey = OPENAI_API_KEY;
-    this.orgId = OPENAI_ORG_ID;
-  }
-
-  // Check if OpenAI is configured
+  // Check if a remote AI provider is configured; without one only the offline templates answer
   isConfigured(): boolean {
-    return !!this.apiKey;
+    return aiProviderService.isRemoteAvailable();
   }
 
-  // Generic OpenAI API call
-  private async callOpenAI(prompt: string, systemMessage?: string): Promise<OpenAIResponse> {
-    if (!this.apiKey) {
-      return {
-        success: false,
-        error: 'OpenAI API key not configured. Please add EXPO_PUBLIC_OPENAI_API_KEY to your .env.local file.',
-      };
-    }
-
-    try {
-      const messages = [
-        ...(systemMessage ? [{ role: 'system', content: systemMessage }] : []),
+  // Generic AI call through the configured provider
+  private async callOpenAI(
+    feature: AIFeature,
+    prompt: string,
+    systemMessage?: string,
+    options: { context?: AITemplateContext } = {}
+  ): Promise<OpenAIResponse> {
+    const result = await aiProviderService.complete({
+      feature,
+      messages: [
+        ...(systemMessage ? [{ role: 'system' as const, content: systemMessage }] : []),
         { role: 'user', content: prompt },
-      ];
-
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-          ...(this.orgId && { 'OpenAI-Organization': this.orgId }),
-        },
-        body: JSON.stringify({
-          model: OPENAI_MODEL,
-          messages,
-          max_tokens: OPENAI_MAX_TOKENS,
-          temperature: OPENAI_TEMPERATURE,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        return {
-          success: false,
-          error: `OpenAI API error: ${errorData.error?.message || response.statusText}`,
-        };
-      }
-
-      const data = await response.json();
-      const content = data.choices?.[0]?.message?.content;
-
-      if (!content) {
-        return {
-          success: false,
-          error: 'No response content from OpenAI',
-        };
-      }
-
-      return {
-        success: true,
-        data: content.trim(),
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
-      };
-    }
+      ],
+      ...(options.context && { context: options.context }),
+    });
+
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error,
+      provider: result.provider,
+    };
   }
 
   // Generate property description
@@ -157,7 +114,7 @@ Write a 150-200 word description that:
 
 Format as a single paragraph without bullet points.`;
 
-    return this.callOpenAI(prompt, systemMessage);
+    return this.callOpenAI('property_description', prompt, systemMessage);
   }
 
   // Generate maintenance suggestions
@@ -187,7 +144,9 @@ Please provide:
 
 Keep the response practical and actionable for property management staff.`;
 
-    return this.callOpenAI(prompt, systemMessage);
+    return this.callOpenAI('maintenance_suggestions', prompt, systemMessage, {
+      context: { jobType: 'maintenance', description: issue.description, priority: issue.urgency },
+    });
   }
 
   // Generate guest communication response
@@ -220,7 +179,7 @@ Create a response that:
 
 Keep the tone warm but professional, suitable for luxury hospitality.`;
 
-    return this.callOpenAI(prompt, systemMessage);
+    return this.callOpenAI('guest_response', prompt, systemMessage);
   }
 
   // Generate pricing optimization suggestions
@@ -259,17 +218,24 @@ Provide recommendations for:
 
 Include specific rate recommendations and reasoning.`;
 
-    return this.callOpenAI(prompt, systemMessage);
+    return this.callOpenAI('pricing', prompt, systemMessage);
   }
 
   // Generate smart task suggestions based on property type and season
-  async generateTaskSuggestions(propertyType: string, season: string, lastMaintenanceDate?: string): Promise<OpenAIResponse> {
+  async generateTaskSuggestions(
+    propertyType: string,
+    season: string,
+    lastMaintenanceDate?: string,
+    existingSchedules: { title: string; recurrence: string; complianceRate: number }[] = []
+  ): Promise<OpenAIResponse> {
     const systemMessage = `You are a property management expert specializing in preventive maintenance and guest experience optimization for luxury vacation rentals.`;
 
     const prompt = `Generate a prioritized maintenance and preparation task list for a luxury ${propertyType}:
 
 Season: ${season}
 ${lastMaintenanceDate ? `Last Major Maintenance: ${lastMaintenanceDate}` : ''}
+${existingSchedules.length > 0 ? `Recurring maintenance already scheduled (do not repeat these, flag any with low compliance):
+${existingSchedules.map(schedule => `- ${schedule.title}: ${schedule.recurrence}, ${schedule.complianceRate}% done on schedule`).join('\n')}` : ''}
 
 Create a task list that includes:
 1. Seasonal maintenance priorities
@@ -280,15 +246,16 @@ Create a task list that includes:
 
 Format as a numbered list with brief descriptions and estimated time for each task.`;
 
-    return this.callOpenAI(prompt, systemMessage);
+    return this.callOpenAI('task_suggestions', prompt, systemMessage);
   }
 
   // Generate staff performance audit analysis
   async generateStaffAuditAnalysis(auditData: {
+    staffId?: string;
     staffName: string;
     performanceData: any[];
     metrics: any;
-  }): Promise<OpenAIResponse> {
+  }): Promise<StaffAuditAnalysisResponse> {
     const systemMessage = `You are a professional workplace auditor analyzing staff performance data. Provide constructive, fair, and actionable feedback based on quantitative performance metrics. Focus on reliability, quality of work, punctuality, and areas for improvement.`;
 
     const prompt = `Please analyze the following staff member's weekly performance data and provide a comprehensive audit report.
@@ -301,6 +268,7 @@ Week Summary:
 - Late Completions: ${auditData.metrics.lateJobs}
 - On-time Completions: ${auditData.metrics.completedOnTime}
 - Missing Proof/Photos: ${auditData.metrics.missingProof}
+- Sent Back for Rework: ${auditData.metrics.reworkedJobs ?? 0} of ${auditData.metrics.reviewedJobs ?? 0} reviewed jobs
 - Average Completion Time: ${auditData.metrics.averageCompletionTime.toFixed(1)} hours
 - Time Efficiency: ${auditData.metrics.estimatedVsActualTime.toFixed(0)}%
 
@@ -309,23 +277,41 @@ ${auditData.performanceData.map((job: any) =>
   `Job ${job.jobId}: ${job.jobType} at ${job.propertyAddress} - Status: ${job.status}, Photos: ${job.photos}, Duration: ${job.actualDuration?.toFixed(1) || 'N/A'}h`
 ).join('\n')}
 
-Please provide a JSON response with:
+Please provide:
 1. A trust score (1-100) based on reliability, punctuality, and consistency
 2. A quality score (1-100) based on job completion quality and proof provided
 3. A brief professional comment (2-3 sentences) summarizing overall performance
 4. 2-3 specific recommendations for improvement
-5. Any flagged issues that require management attention
-
-Respond in JSON format:
-{
-  "trustScore": number,
-  "qualityScore": number,
-  "comment": "string",
-  "recommendations": ["string1", "string2"],
-  "flaggedIssues": ["string1", "string2"]
-}`;
-
-    return this.callOpenAI(prompt, systemMessage);
+5. Any flagged issues that require management attention`;
+
+    const result = await aiProviderService.completeStructured({
+      feature: 'staff_audit',
+      messages: [
+        { role: 'system', content: systemMessage },
+        { role: 'user', content: prompt },
+      ],
+      context: {
+        staffName: auditData.staffName,
+        audit: {
+          totalJobs: auditData.performanceData.length,
+          completedJobs: auditData.metrics.completedJobs,
+          completedOnTime: auditData.metrics.completedOnTime,
+          lateJobs: auditData.metrics.lateJobs,
+          declinedJobs: auditData.metrics.declinedJobs,
+          missingProof: auditData.metrics.missingProof,
+          reviewedJobs: auditData.metrics.reviewedJobs,
+          reworkedJobs: auditData.metrics.reworkedJobs,
+        },
+      },
+    }, 'staff_audit', { staffId: auditData.staffId });
+
+    return {
+      success: result.success,
+      data: result.raw,
+      error: result.error,
+      provider: result.provider,
+      analysis: result.data,
+    };
   }
 }
 
@@ -336,6 +322,7 @@ export default openaiService;
 // Export types for use in components
 export type {
   OpenAIResponse,
+  StaffAuditAnalysisResponse,
   PropertyData,
   MaintenanceIssue,
   GuestMessage,
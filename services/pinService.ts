@@ -0,0 +1,117 @@
+/**
+ * PIN Service
+ * The single implementation behind every staff PIN check.
+ *
+ * PINs are checked on the server (`api/staff-pin/*`, see lib/staffPinAdmin).
+ * Hashes and the exponential backoff lockout live in `staff_pins/{staffId}`,
+ * which clients can neither read nor write, so a device can't copy a hash to
+ * crack offline or reset its own lockout. `staff_accounts.hasPIN` tells the
+ * profile list whether a PIN is set without exposing it. A successful check
+ * returns a custom token that signs the device in as the staff member.
+ */
+
+import { doc, getDoc } from 'firebase/firestore';
+import { auth, getDb } from '@/lib/firebase';
+import {
+  isPINHash,
+  isValidPINFormat,
+  FREE_PIN_ATTEMPTS,
+  PINAttemptStatus
+} from '@/utils/pinSecurity';
+
+export interface PINCheckResult {
+  success: boolean;
+  staffData?: Record<string, any>;
+  error?: string;
+  attemptsLeft?: number;
+  lockoutTime?: number;
+  customToken?: string;
+}
+
+class PINService {
+  private readonly COLLECTION_NAME = 'staff_accounts';
+  private readonly API_BASE_URL = process.env.EXPO_PUBLIC_API_BASE_URL || 'http://localhost:3000';
+
+  /**
+   * Whether the staff member has a PIN set
+   */
+  async hasPIN(staffId: string): Promise<boolean> {
+    const db = await getDb();
+    const snapshot = await getDoc(doc(db, this.COLLECTION_NAME, staffId));
+    if (!snapshot.exists()) return false;
+    const data = snapshot.data();
+    // Profiles not yet moved to staff_pins still carry their PIN
+    return data.hasPIN === true || isPINHash(data.pinHash) || (typeof data.pin === 'string' && data.pin.length > 0);
+  }
+
+  /**
+   * Store a first PIN; changing an existing PIN needs an admin reset
+   */
+  async setPIN(staffId: string, pin: string): Promise<void> {
+    if (!isValidPINFormat(pin)) {
+      throw new Error('PIN must be exactly 4 digits');
+    }
+
+    const result = await this.post<{ success: boolean; error?: string }>('set', { staffId, pin });
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to set PIN');
+    }
+    console.log(`🔐 PINService: PIN set for ${staffId}`);
+  }
+
+  /**
+   * Check a PIN; failures count towards the shared lockout on the server
+   */
+  async verifyPIN(staffId: string, pin: string): Promise<PINCheckResult> {
+    if (!isValidPINFormat(pin)) {
+      return { success: false, error: 'PIN must be 4 digits' };
+    }
+
+    try {
+      const result = await this.post<PINCheckResult>('verify', { staffId, pin });
+      console.log(`${result.success ? '✅' : '❌'} PINService: PIN check for ${staffId}`);
+      return result;
+    } catch (error) {
+      console.error('❌ PINService: PIN check failed:', error);
+      return { success: false, error: 'PIN verification failed' };
+    }
+  }
+
+  async getAttemptStatus(staffId: string): Promise<PINAttemptStatus> {
+    const result = await this.post<{ success: boolean; status?: PINAttemptStatus }>('status', { staffId });
+    return result.status ?? { canAttempt: true, attemptsLeft: FREE_PIN_ATTEMPTS };
+  }
+
+  /**
+   * Admin reset: clears the PIN and lockout so the staff member sets a new
+   * PIN the next time they pick their profile. The server checks the
+   * signed-in admin's ID token.
+   */
+  async resetPIN(staffId: string): Promise<void> {
+    const idToken = await auth.currentUser?.getIdToken();
+    if (!idToken) {
+      throw new Error('Sign in as an admin to reset PINs');
+    }
+
+    const result = await this.post<{ success: boolean; error?: string }>('reset', { staffId }, idToken);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to reset PIN');
+    }
+    console.log(`🔄 PINService: PIN reset for ${staffId}`);
+  }
+
+  private async post<T>(action: string, body: Record<string, string>, idToken?: string): Promise<T> {
+    const response = await fetch(`${this.API_BASE_URL}/api/staff-pin/${action}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(idToken && { Authorization: `Bearer ${idToken}` }),
+      },
+      body: JSON.stringify(body),
+    });
+    return response.json();
+  }
+}
+
+export const pinService = new PINService();
+export default pinService;
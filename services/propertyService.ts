@@ -13,6 +13,7 @@ import {
   orderBy 
 } from 'firebase/firestore';
 import { getDb } from '@/lib/firebase';
+import type { PropertyType } from '@/types/property';
 
 export interface PropertyLocation {
   address: string;
@@ -47,6 +48,7 @@ export interface PropertyRequirementTemplate {
 export interface Property {
   id: string;
   name: string;
+  type?: PropertyType;
   address: string;
   description?: string;
   location: PropertyLocation;
@@ -328,6 +330,7 @@ class PropertyService {
     return {
       id,
       name: data.name || 'Unnamed Property',
+      type: data.type || data.propertyType || undefined,
       address: data.address || '',
       description: data.description || undefined,
       location,
@@ -1,7 +1,8 @@
 import { signInWithEmailAndPassword, signOut } from 'firebase/auth';
-import { collection, getDocs, doc, getDoc, query, where } from 'firebase/firestore';
+import { collection, getDocs, query, where } from 'firebase/firestore';
 import { auth, getDb } from '../lib/firebase';
 import { StaffAccount } from './authService';
+import { pinService } from './pinService';
 import { Storage } from '../utils/storage';
 
 // Note: This service now relies exclusively on staff_accounts collection
@@ -91,42 +92,18 @@ class SharedAuthService {
     try {
       console.log('🔢 SharedAuthService: Verifying PIN for staff:', staffId);
       
-      if (!enteredPIN || enteredPIN.length !== 4) {
-        return { success: false, error: 'PIN must be 4 digits' };
-      }
-
-      const db = await getDb();
-      const staffDoc = doc(db, this.COLLECTION_NAME, staffId);
-      const staffSnapshot = await getDoc(staffDoc);
-
-      if (!staffSnapshot.exists()) {
-        console.log('❌ SharedAuthService: Staff member not found:', staffId);
-        return { success: false, error: 'Staff member not found' };
-      }
-
-      const staffData = staffSnapshot.data();
-      
-      if (!staffData.isActive) {
-        console.log('❌ SharedAuthService: Staff member is inactive:', staffId);
-        return { success: false, error: 'Staff account is inactive' };
-      }
-
-      // Check if PIN exists and matches
-      if (!staffData.pin) {
-        console.log('❌ SharedAuthService: No PIN set for staff member:', staffId);
-        return { success: false, error: 'No PIN set for this staff member' };
-      }
-
-      if (staffData.pin !== enteredPIN) {
-        console.log('❌ SharedAuthService: Incorrect PIN for staff:', staffId);
-        return { success: false, error: 'Incorrect PIN' };
+      const result = await pinService.verifyPIN(staffId, enteredPIN);
+      if (!result.success || !result.staffData) {
+        console.log('❌ SharedAuthService: PIN rejected for staff:', staffId);
+        return { success: false, error: result.error || 'Incorrect PIN' };
       }
 
       // PIN verified successfully
       console.log('✅ SharedAuthService: PIN verified successfully for:', staffId);
-      
+
+      const staffData = result.staffData;
       const staff: StaffAccount = {
-        id: staffSnapshot.id,
+        id: staffData.id,
         email: staffData.email,
         name: staffData.name,
         phone: staffData.phone,
@@ -137,7 +114,6 @@ class SharedAuthService {
         lastLogin: staffData.lastLogin,
         createdAt: staffData.createdAt,
         updatedAt: staffData.updatedAt,
-        pin: staffData.pin,
         photo: staffData.photo
       };
 
@@ -1,6 +1,9 @@
 /**
  * Smart Job Reminder Service with FOA Integration
  * Schedules 1-hour pre-job notifications with AI-powered context
+ * Reminders respect the staff member's notification preferences: a reminder
+ * due in their quiet hours moves to the end of the window, or is dropped if
+ * the job starts before then.
  */
 
 import * as Notifications from 'expo-notifications';
@@ -8,6 +11,8 @@ import { Job } from '@/types/job';
 import { JobData } from '@/types/jobData';
 import { collection, query, where, getDocs, updateDoc, doc, Timestamp, setDoc, onSnapshot } from 'firebase/firestore';
 import { getDb } from '@/lib/firebase';
+import { notificationPreferenceService } from '@/services/notificationPreferenceService';
+import { getQuietHoursEnd, resolveDelivery } from '@/utils/notificationPreferences';
 
 // Configure notification behavior for reminders
 Notifications.setNotificationHandler({
@@ -29,6 +34,7 @@ interface JobReminderSchedule {
   staffId: string;
   reminderType: 'pre_job_1hour' | 'job_start' | 'job_overdue' | 'completion_check';
   scheduledFor: Date;
+  jobStartTime: Date;
   notificationId?: string;
   foaContext?: {
     preparationTips: string[];
@@ -108,7 +114,7 @@ class SmartJobReminderService {
       
       // Calculate reminder time (1 hour before job start, or 2 minutes for testing)
       const jobStartTime = job.scheduledDate ? new Date(job.scheduledDate) : new Date();
-      const reminderTime = testMode 
+      let reminderTime = testMode 
         ? new Date(Date.now() + 2 * 60 * 1000) // 2 minutes for testing
         : new Date(jobStartTime.getTime() - (60 * 60 * 1000)); // 1 hour before
 
@@ -118,6 +124,28 @@ class SmartJobReminderService {
         return false;
       }
 
+      const priority = (job.priority || 'normal') as 'low' | 'normal' | 'high' | 'urgent';
+      let silent = false;
+      if (!testMode) {
+        const preferences = await notificationPreferenceService.getPreferences(staffId);
+        const delivery = resolveDelivery(preferences, 'job.reminder', priority, reminderTime);
+        if (!delivery.deliver) {
+          console.log('🔕 Reminder turned off by staff preferences, skipping:', reminderId);
+          return false;
+        }
+        if (delivery.heldByQuietHours) {
+          const quietEnd = getQuietHoursEnd(preferences.quietHours, reminderTime);
+          if (quietEnd >= jobStartTime) {
+            console.log('🌙 Job starts before quiet hours end, skipping reminder:', reminderId);
+            return false;
+          }
+          reminderTime = quietEnd;
+        } else {
+          // In-app only: keep the record, but no device notification
+          silent = delivery.channel === 'in_app';
+        }
+      }
+
       // Generate FOA context for the reminder
       const foaContext = await this.generateFOAReminderContext(job);
       
@@ -128,13 +156,14 @@ class SmartJobReminderService {
         staffId,
         reminderType: 'pre_job_1hour',
         scheduledFor: reminderTime,
+        jobStartTime,
         foaContext,
         jobData: {
           title: job.title,
           propertyName: job.propertyRef?.name || 'Property',
           propertyAddress: job.propertyRef?.address || (typeof job.location === 'string' ? job.location : job.location?.address) || 'Location TBD',
           type: job.jobType,
-          priority: job.priority as 'low' | 'normal' | 'high' | 'urgent',
+          priority,
           estimatedDuration: job.estimatedDuration || 60,
         },
         sent: false,
@@ -152,7 +181,7 @@ class SmartJobReminderService {
         trigger = reminderTime;
       }
       
-      const notificationId = await Notifications.scheduleNotificationAsync({
+      const notificationId = silent ? undefined : await Notifications.scheduleNotificationAsync({
         content: {
           title: notificationContent.title,
           body: notificationContent.body,
@@ -267,7 +296,11 @@ class SmartJobReminderService {
     
     const title = `⏰ Job Starting Soon`;
     
-    let body = `${jobData.title} at ${jobData.propertyName} starts in 1 hour.`;
+    const minutesToStart = Math.round((reminder.jobStartTime.getTime() - reminder.scheduledFor.getTime()) / 60000);
+    const startsIn = minutesToStart >= 60 && minutesToStart % 60 === 0
+      ? `${minutesToStart / 60} hour${minutesToStart === 60 ? '' : 's'}`
+      : `${minutesToStart} minutes`;
+    let body = `${jobData.title} at ${jobData.propertyName} starts in ${startsIn}.`;
     
     // Add priority indicator
     if (jobData.priority === 'urgent') {
@@ -312,6 +345,7 @@ class SmartJobReminderService {
       await setDoc(reminderRef, {
         ...reminder,
         scheduledFor: Timestamp.fromDate(reminder.scheduledFor),
+        jobStartTime: Timestamp.fromDate(reminder.jobStartTime),
         createdAt: Timestamp.fromDate(reminder.createdAt),
         sentAt: reminder.sentAt ? Timestamp.fromDate(reminder.sentAt) : null,
       });
@@ -453,21 +487,22 @@ class SmartJobReminderService {
     
     return new Promise<() => void>(async (resolve) => {
       const db = await dbPromise;
+      // Only accepted jobs are theirs; an assigned job is still an offer
+      // that may go to someone else, so it gets no reminder yet
       const jobsQuery = query(
         collection(db, 'jobs'),
         where('assignedStaffId', '==', staffId),
-        where('status', 'in', ['assigned', 'accepted'])
+        where('status', '==', 'accepted')
       );
 
       const unsubscribe = onSnapshot(jobsQuery, async (snapshot) => {
         snapshot.docChanges().forEach(async (change) => {
           if (change.type === 'added' || change.type === 'modified') {
             const jobData = { id: change.doc.id, ...change.doc.data() } as JobData;
-            
-            // Auto-schedule reminder for newly assigned/accepted jobs
-            if (jobData.status === 'assigned' || jobData.status === 'accepted') {
-              await this.schedulePreJobReminder(jobData, staffId);
-            }
+            await this.schedulePreJobReminder(jobData, staffId);
+          } else if (change.type === 'removed') {
+            // Started, reassigned or cancelled
+            await this.cancelJobReminders(change.doc.id);
           }
         });
       });
@@ -6,6 +6,8 @@
 
 import { openaiService } from './openaiService';
 import { aiLoggingService } from './aiLoggingService';
+import { jobReviewService } from './jobReviewService';
+import { applyReworkPenalty, summarizeReviews } from '../utils/jobReview';
 import { 
   collection, 
   doc, 
@@ -36,7 +38,9 @@ export interface StaffAuditReport {
   averageCompletionTime: number; // in hours
   estimatedVsActualTime: number; // percentage
   missingProof: number;
-  qualityScore: number; // 1-100
+  reviewedJobs: number;
+  reworkedJobs: number; // sent back by a manager at least once
+  qualityScore: number; // 1-100, lowered by the rework rate
   trustScore: number; // 1-100
   aiComment: string;
   recommendations: string[];
@@ -219,24 +223,33 @@ class StaffAuditService {
   ): Promise<StaffAuditReport> {
     try {
       // Calculate basic metrics
-      const metrics = this.calculatePerformanceMetrics(performanceData);
+      const reworkStats = await jobReviewService.getReworkStats(staffId, startDate, endDate)
+        .catch(error => {
+          console.warn('⚠️ Could not load rework stats:', error);
+          return summarizeReviews([]);
+        });
+      const metrics = {
+        ...this.calculatePerformanceMetrics(performanceData),
+        reviewedJobs: reworkStats.reviewedJobs,
+        reworkedJobs: reworkStats.reworkedJobs,
+      };
       
       // Get staff name
       const staffName = await this.getStaffName(staffId);
 
       // Get AI analysis
       const aiResponse = await openaiService.generateStaffAuditAnalysis({
+        staffId,
         staffName,
         performanceData,
         metrics
       });
 
-      if (!aiResponse.success) {
+      // Validated against the staff_audit schema, so scores are already 1–100
+      if (!aiResponse.success || !aiResponse.analysis) {
         throw new Error(aiResponse.error || 'Failed to generate AI analysis');
       }
-
-      // Parse AI response for insights
-      const aiInsights = this.parseAIResponse(aiResponse.data || '{}');
+      const aiInsights = aiResponse.analysis;
 
       // Generate report ID
       const reportId = `audit_${staffId}_${weekLabel.replace(/\s/g, '_')}`;
@@ -256,7 +269,9 @@ class StaffAuditService {
         averageCompletionTime: metrics.averageCompletionTime,
         estimatedVsActualTime: metrics.estimatedVsActualTime,
         missingProof: metrics.missingProof,
-        qualityScore: aiInsights.qualityScore,
+        reviewedJobs: metrics.reviewedJobs,
+        reworkedJobs: metrics.reworkedJobs,
+        qualityScore: applyReworkPenalty(aiInsights.qualityScore, reworkStats),
         trustScore: aiInsights.trustScore,
         aiComment: aiInsights.comment,
         recommendations: aiInsights.recommendations,
@@ -302,37 +317,6 @@ class StaffAuditService {
     };
   }
 
-  /**
-   * Parse AI response and extract insights
-   */
-  private parseAIResponse(aiResponse: string): {
-    trustScore: number;
-    qualityScore: number;
-    comment: string;
-    recommendations: string[];
-    flaggedIssues: string[];
-  } {
-    try {
-      const parsed = JSON.parse(aiResponse);
-      return {
-        trustScore: Math.max(1, Math.min(100, parsed.trustScore || 75)),
-        qualityScore: Math.max(1, Math.min(100, parsed.qualityScore || 75)),
-        comment: parsed.comment || 'Performance within acceptable range.',
-        recommendations: Array.isArray(parsed.recommendations) ? parsed.recommendations : ['Continue current performance level'],
-        flaggedIssues: Array.isArray(parsed.flaggedIssues) ? parsed.flaggedIssues : [],
-      };
-    } catch (error) {
-      console.error('❌ Error parsing AI response:', error);
-      return {
-        trustScore: 75,
-        qualityScore: 75,
-        comment: 'Unable to generate detailed analysis. Manual review recommended.',
-        recommendations: ['Schedule performance review'],
-        flaggedIssues: ['AI analysis failed'],
-      };
-    }
-  }
-
   /**
    * Save audit report to Firestore
    */
@@ -13,7 +13,7 @@ import {
   orderBy,
   onSnapshot,
   updateDoc,
-  serverTimestamp,
+  writeBatch,
   enableNetwork,
   disableNetwork,
   Unsubscribe,
@@ -22,6 +22,8 @@ import { getDb } from '@/lib/firebase';
 import { Job, JobStatus, JobFilter } from '@/types/job';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { secureFirestore } from './secureFirestore';
+import { planJobTransition, buildStatusUpdate, JobTransitionError } from '@/utils/jobStateMachine';
+import type { JobActionReceipt } from './jobActionOutboxService';
 
 interface CachedJobData {
   jobs: Job[];
@@ -272,8 +274,9 @@ class StaffJobService {
     jobId: string,
     status: JobStatus,
     staffId: string,
-    additionalData?: Record<string, any>
-  ): Promise<{ success: boolean; error?: string }> {
+    additionalData?: Record<string, any>,
+    receipt?: JobActionReceipt
+  ): Promise<{ success: boolean; error?: string; rejected?: boolean }> {
     try {
       console.log(`🔄 StaffJobService: Updating job ${jobId} status to ${status}`);
 
@@ -299,33 +302,36 @@ class StaffJobService {
         };
       }
 
+      const jobData = jobDoc.data();
+      const transition = planJobTransition({
+        from: jobData?.status,
+        to: status,
+        actor: 'staff',
+        actorId: staffId,
+      });
+
+      // Status, status-specific timestamp and history entry
       const updateData: Record<string, any> = {
-        status,
-        updatedAt: serverTimestamp(),
+        ...buildStatusUpdate(transition),
         ...additionalData,
       };
 
-      // Add status-specific timestamps and fields
-      switch (status) {
-        case 'accepted':
-          updateData.acceptedAt = serverTimestamp();
-          // If job was unassigned, assign it to this staff member
-          const jobData = jobDoc.data();
-          if (!jobData?.assignedStaffId || jobData.assignedStaffId === null) {
-            updateData.assignedStaffId = staffId;
-            updateData.assignedTo = staffId;
-            console.log('📌 StaffJobService: Assigning unassigned job to staff:', staffId);
-          }
-          break;
-        case 'in_progress':
-          updateData.startedAt = serverTimestamp();
-          break;
-        case 'completed':
-          updateData.completedAt = serverTimestamp();
-          break;
+      // If job was unassigned, assign it to this staff member
+      if (transition.to === 'accepted' && !jobData?.assignedStaffId) {
+        updateData.assignedStaffId = staffId;
+        updateData.assignedTo = staffId;
+        console.log('📌 StaffJobService: Assigning unassigned job to staff:', staffId);
       }
 
-      await updateDoc(jobRef, updateData);
+      // An outbox receipt is committed together with the update
+      if (receipt) {
+        const batch = writeBatch(db);
+        batch.update(jobRef, updateData);
+        batch.set(receipt.ref, receipt.data);
+        await batch.commit();
+      } else {
+        await updateDoc(jobRef, updateData);
+      }
 
       // Invalidate cache for this staff member
       await this.invalidateCache(staffId);
@@ -338,6 +344,7 @@ class StaffJobService {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Failed to update job status',
+        rejected: error instanceof JobTransitionError,
       };
     }
   }
@@ -353,6 +360,13 @@ class StaffJobService {
     this.unsubscribeCallbacks.clear();
   }
 
+  /**
+   * Drop a staff member's cached jobs, e.g. when they hand a shared device over
+   */
+  async clearCache(staffId: string): Promise<void> {
+    await this.invalidateCache(staffId);
+  }
+
   /**
    * Enable offline mode
    */
@@ -6,6 +6,8 @@
 import { collection, getDocs, doc, getDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
 import { getDb } from '@/lib/firebase';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { pinService } from '@/services/pinService';
+import { FREE_PIN_ATTEMPTS } from '@/utils/pinSecurity';
 
 // Note: This service now relies exclusively on staff_accounts collection
 // No hardcoded credentials - all authentication is handled through PIN system
@@ -23,7 +25,7 @@ export interface StaffProfile {
   name: string;
   email: string;
   role: string;
-  pin: string;
+  hasPIN: boolean;
   photo?: string;
   avatar?: string;
   department?: string;
@@ -61,7 +63,7 @@ export const fetchAllStaffProfiles = async (): Promise<StaffProfile[]> => {
         name: data.name || 'Unknown Staff',
         email: data.email || '',
         role: data.role || 'staff',
-        pin: data.pin || '',
+        hasPIN: !!(data.hasPIN || data.pinHash || data.pin),
         photo: data.photo || null,
         department: data.department || '',
         isActive: data.isActive !== false, // Default to true if not specified
@@ -85,6 +87,7 @@ export const getStaffProfile = async (staffId: string): Promise<StaffProfile | n
   try {
     console.log('🔍 Fetching staff profile:', staffId);
     
+    const db = await getDb();
     const staffDoc = doc(db, 'staff_accounts', staffId);
     const snapshot = await getDoc(staffDoc);
     
@@ -99,7 +102,7 @@ export const getStaffProfile = async (staffId: string): Promise<StaffProfile | n
       name: data.name || 'Unknown Staff',
       email: data.email || '',
       role: data.role || 'staff',
-      pin: data.pin || '',
+      hasPIN: !!(data.hasPIN || data.pinHash || data.pin),
       photo: data.photo || null,
       department: data.department || '',
       isActive: data.isActive !== false,
@@ -122,15 +125,15 @@ export const validateStaffPIN = async (staffId: string, enteredPIN: string): Pro
   try {
     console.log('🔐 Validating PIN for staff:', staffId);
     
-    // Input validation
-    if (!enteredPIN || enteredPIN.length !== 4) {
+    const result = await pinService.verifyPIN(staffId, enteredPIN);
+    if (!result.success) {
+      console.log('❌ PIN validation failed for:', staffId);
       return {
         isValid: false,
-        error: 'PIN must be 4 digits'
+        error: result.error || 'Incorrect PIN'
       };
     }
 
-    // Fetch staff profile
     const staffProfile = await getStaffProfile(staffId);
     if (!staffProfile) {
       return {
@@ -139,29 +142,11 @@ export const validateStaffPIN = async (staffId: string, enteredPIN: string): Pro
       };
     }
 
-    if (!staffProfile.isActive) {
-      return {
-        isValid: false,
-        error: 'Staff account is inactive'
-      };
-    }
-
-    // Validate PIN (simple string comparison for now)
-    const isValid = staffProfile.pin === enteredPIN;
-    
-    if (isValid) {
-      console.log('✅ PIN validation successful for:', staffProfile.name);
-      return {
-        isValid: true,
-        staffProfile
-      };
-    } else {
-      console.log('❌ PIN validation failed for:', staffProfile.name);
-      return {
-        isValid: false,
-        error: 'Incorrect PIN'
-      };
-    }
+    console.log('✅ PIN validation successful for:', staffProfile.name);
+    return {
+      isValid: true,
+      staffProfile
+    };
   } catch (error) {
     console.error('❌ Error validating PIN:', error);
     return {
@@ -247,68 +232,15 @@ export const shouldRememberStaff = async (): Promise<boolean> => {
 };
 
 /**
- * Rate limiting for PIN attempts
+ * Lockout status for PIN attempts, read from the shared staff record.
+ * Failed attempts are recorded by validateStaffPIN.
  */
-const PIN_ATTEMPT_STORAGE_KEY = 'pin_attempts';
-const MAX_PIN_ATTEMPTS = 5;
-const LOCKOUT_DURATION = 15 * 60 * 1000; // 15 minutes
-
 export const checkPINAttempts = async (staffId: string): Promise<{ canAttempt: boolean; attemptsLeft: number; lockoutTime?: number }> => {
   try {
-    const attemptsData = await AsyncStorage.getItem(`${PIN_ATTEMPT_STORAGE_KEY}_${staffId}`);
-    
-    if (!attemptsData) {
-      return { canAttempt: true, attemptsLeft: MAX_PIN_ATTEMPTS };
-    }
-
-    const { attempts, lastAttempt } = JSON.parse(attemptsData);
-    const now = Date.now();
-    
-    // Reset attempts after lockout period
-    if (now - lastAttempt > LOCKOUT_DURATION) {
-      await AsyncStorage.removeItem(`${PIN_ATTEMPT_STORAGE_KEY}_${staffId}`);
-      return { canAttempt: true, attemptsLeft: MAX_PIN_ATTEMPTS };
-    }
-
-    const attemptsLeft = MAX_PIN_ATTEMPTS - attempts;
-    
-    if (attemptsLeft <= 0) {
-      const lockoutTime = lastAttempt + LOCKOUT_DURATION;
-      return { canAttempt: false, attemptsLeft: 0, lockoutTime };
-    }
-
-    return { canAttempt: true, attemptsLeft };
+    return await pinService.getAttemptStatus(staffId);
   } catch (error) {
     console.error('❌ Error checking PIN attempts:', error);
-    return { canAttempt: true, attemptsLeft: MAX_PIN_ATTEMPTS };
-  }
-};
-
-export const recordPINAttempt = async (staffId: string, success: boolean): Promise<void> => {
-  try {
-    if (success) {
-      // Clear attempts on successful PIN entry
-      await AsyncStorage.removeItem(`${PIN_ATTEMPT_STORAGE_KEY}_${staffId}`);
-      return;
-    }
-
-    const attemptsData = await AsyncStorage.getItem(`${PIN_ATTEMPT_STORAGE_KEY}_${staffId}`);
-    const now = Date.now();
-    
-    let attempts = 1;
-    if (attemptsData) {
-      const { attempts: prevAttempts } = JSON.parse(attemptsData);
-      attempts = prevAttempts + 1;
-    }
-
-    await AsyncStorage.setItem(`${PIN_ATTEMPT_STORAGE_KEY}_${staffId}`, JSON.stringify({
-      attempts,
-      lastAttempt: now
-    }));
-
-    console.log(`⚠️ PIN attempt recorded for ${staffId}: ${attempts}/${MAX_PIN_ATTEMPTS}`);
-  } catch (error) {
-    console.error('❌ Error recording PIN attempt:', error);
+    return { canAttempt: true, attemptsLeft: FREE_PIN_ATTEMPTS };
   }
 };
 
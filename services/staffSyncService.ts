@@ -47,12 +47,13 @@ export interface StaffProfile {
   name: string;
   email: string;
   phone: string;
-  role: 'admin' | 'manager' | 'staff' | 'cleaner' | 'maintenance' | 'housekeeper' | 'concierge';
+  role: 'admin' | 'manager' | 'supervisor' | 'staff' | 'cleaner' | 'maintenance' | 'housekeeper' | 'concierge';
   isActive: boolean;
   userId?: string | null;
   createdAt: Date;
   lastLogin?: Date;
   department?: string;
+  teamId?: string;
   avatar?: string;
 }
 
@@ -250,7 +251,7 @@ export class StaffSyncService {
 
       if (isActive && data.name && data.email) {
         // Map role to valid type
-        const validRoles = ['admin', 'manager', 'staff', 'cleaner', 'maintenance', 'housekeeper', 'concierge'];
+        const validRoles = ['admin', 'manager', 'supervisor', 'staff', 'cleaner', 'maintenance', 'housekeeper', 'concierge'];
         const role = validRoles.includes(data.role) ? data.role : 'staff';
         
         const profile: StaffProfile = {
@@ -264,6 +265,7 @@ export class StaffSyncService {
           createdAt: data.createdAt ? new Date(data.createdAt) : new Date(),
           lastLogin: data.lastLogin ? new Date(data.lastLogin) : undefined,
           department: data.department || undefined,
+          teamId: data.teamId || undefined,
           avatar: data.avatar || undefined,
         };
         profiles.push(profile);
@@ -342,7 +344,7 @@ export class StaffSyncService {
 
               if (isActive && data.name && data.email) {
                 // Map role to valid type
-                const validRoles = ['admin', 'manager', 'staff', 'cleaner', 'maintenance', 'housekeeper', 'concierge'];
+                const validRoles = ['admin', 'manager', 'supervisor', 'staff', 'cleaner', 'maintenance', 'housekeeper', 'concierge'];
                 const role = validRoles.includes(data.role) ? data.role : 'staff';
                 
                 const profile: StaffProfile = {
@@ -356,6 +358,7 @@ export class StaffSyncService {
                   createdAt: data.createdAt ? new Date(data.createdAt) : new Date(),
                   lastLogin: data.lastLogin ? new Date(data.lastLogin) : undefined,
                   department: data.department || undefined,
+                  teamId: data.teamId || undefined,
                   avatar: data.avatar || undefined,
                 };
                 profiles.push(profile);
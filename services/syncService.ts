@@ -2,6 +2,17 @@ import { Storage } from '../utils/storage';
 import { realtimeDB, BookingData, StaffAssignment, PropertyStatus } from '../lib/realtimeDatabase';
 import { webhookService } from './webhookService';
 import { cloudinaryService } from './cloudinaryService';
+import { jobActionOutboxService } from './jobActionOutboxService';
+import {
+  mergeEntity,
+  applyFieldChoices,
+  applyLocalEdit,
+  getRevision,
+  hasDiverged,
+  FieldChoice,
+  FieldDiff,
+  SyncEntityType,
+} from '../utils/conflictMerge';
 
 interface SyncConfig {
   enableRealtimeSync: boolean;
@@ -22,13 +33,23 @@ interface SyncStatus {
   syncInProgress: boolean;
   realtimeConnected: boolean;
   webhookQueueSize: number;
+  outboxPending: number;
+  outboxFailed: number;
 }
 
 interface ConflictResolution {
   id: string;
-  type: 'booking' | 'assignment' | 'property';
+  type: SyncEntityType;
   localData: any;
   remoteData: any;
+  // Last copy both sides agreed on, null when it was never recorded
+  baseData?: any;
+  baseRevision?: number;
+  // Three-way merge result; review fields still hold the remote value
+  mergedData?: any;
+  autoMergedFields?: string[];
+  reviewFields?: string[];
+  diffs?: FieldDiff[];
   timestamp: number;
   resolved: boolean;
   resolution?: 'local' | 'remote' | 'merge';
@@ -62,6 +83,8 @@ class SyncService {
       syncInProgress: false,
       realtimeConnected: false,
       webhookQueueSize: 0,
+      outboxPending: 0,
+      outboxFailed: 0,
     };
 
     this.initialize();
@@ -138,12 +161,141 @@ class SyncService {
       resolved: false,
     };
 
+    // A newer conflict on the same record replaces the unresolved one
+    this.conflicts = this.conflicts.filter(
+      c => c.resolved || c.id !== conflict.id || c.type !== conflict.type
+    );
     this.conflicts.push(newConflict);
     await this.saveConflicts();
     
     console.log(`⚠️ Sync conflict detected: ${conflict.type} ${conflict.id}`);
   }
 
+  /**
+   * Three-way merge a diverged record. Clean merges are applied straight away;
+   * anything with conflicting field edits is queued for admin review.
+   */
+  private async handleConflict(type: SyncEntityType, localData: any, remoteData: any) {
+    const baseData = await this.getBaseSnapshot(type, remoteData.id);
+    const result = mergeEntity(type, baseData, localData, remoteData);
+
+    if (result.reviewFields.length === 0) {
+      await this.applyResolvedData(type, this.nextRevision(result.merged, localData, remoteData));
+      console.log(`🔀 Auto-merged ${type} ${remoteData.id}: ${result.autoMergedFields.join(', ') || 'no field changes'}`);
+      return;
+    }
+
+    await this.addConflict({
+      id: remoteData.id,
+      type,
+      localData,
+      remoteData,
+      baseData,
+      baseRevision: baseData ? getRevision(baseData) : undefined,
+      mergedData: result.merged,
+      autoMergedFields: result.autoMergedFields,
+      reviewFields: result.reviewFields,
+      diffs: result.diffs,
+    });
+  }
+
+  private nextRevision(data: any, localData: any, remoteData: any) {
+    return {
+      ...data,
+      version: Math.max(getRevision(localData), getRevision(remoteData)) + 1,
+      lastUpdated: Date.now(),
+    };
+  }
+
+  // Push resolved data everywhere and record it as the new base
+  private async applyResolvedData(type: SyncEntityType, resolvedData: any) {
+    await this.pushRecord(type, resolvedData);
+    await this.storeBaseSnapshot(type, resolvedData);
+  }
+
+  /**
+   * Edit a synced record on this device. The edit takes the next revision and
+   * the copy it was made from stays as the merge base until the server
+   * confirms it, so a remote change that lands first is three-way merged
+   * instead of overwriting the edit. Offline, the push is queued by realtimeDB.
+   */
+  async updateLocalRecord(type: SyncEntityType, id: string, changes: Record<string, any>): Promise<any | null> {
+    const current = await this.getLocalRecord(type, id);
+    if (!current) {
+      console.warn(`⚠️ No local ${type} ${id} to edit`);
+      return null;
+    }
+
+    // Keep the copy the edit started from unless an earlier edit already did
+    if (!(await this.getBaseSnapshot(type, id))) {
+      await this.storeBaseSnapshot(type, current);
+    }
+
+    const edited = applyLocalEdit(current, changes);
+    await this.pushRecord(type, edited);
+    console.log(`📝 Local ${type} ${id} edited at revision ${edited.version}`);
+    return edited;
+  }
+
+  // Edits from this device, versioned through updateLocalRecord
+  async updateBookingStatus(bookingId: string, status: BookingData['status']): Promise<BookingData | null> {
+    return this.updateLocalRecord('booking', bookingId, { status });
+  }
+
+  async updateAssignmentStatus(assignmentId: string, status: StaffAssignment['status']): Promise<StaffAssignment | null> {
+    return this.updateLocalRecord('assignment', assignmentId, {
+      status,
+      ...(status === 'completed' && { completedAt: Date.now() }),
+    });
+  }
+
+  async completeAssignment(assignmentId: string, notes: string, photos: string[]): Promise<StaffAssignment | null> {
+    return this.updateLocalRecord('assignment', assignmentId, {
+      status: 'completed',
+      notes,
+      photos,
+      completedAt: Date.now(),
+    });
+  }
+
+  async updatePropertyStatus(
+    propertyId: string,
+    changes: Partial<Omit<PropertyStatus, 'id' | 'lastUpdated' | 'version'>>
+  ): Promise<PropertyStatus | null> {
+    return this.updateLocalRecord('property', propertyId, changes);
+  }
+
+  // Store a record locally and send it to the realtime database and webhook
+  private async pushRecord(type: SyncEntityType, data: any) {
+    switch (type) {
+      case 'booking':
+        await this.storeLocalBooking(data);
+        await realtimeDB.syncBooking(data);
+        await webhookService.syncBookingData(data);
+        break;
+      case 'assignment':
+        await this.storeLocalAssignment(data);
+        await realtimeDB.syncStaffAssignment(data);
+        await webhookService.syncStaffAssignment(data);
+        break;
+      case 'property':
+        await this.storeLocalPropertyStatus(data);
+        await realtimeDB.syncPropertyStatus(data.id, data);
+        break;
+    }
+  }
+
+  private async getLocalRecord(type: SyncEntityType, id: string): Promise<any | null> {
+    switch (type) {
+      case 'booking':
+        return this.getLocalBooking(id);
+      case 'assignment':
+        return this.getLocalAssignment(id);
+      case 'property':
+        return this.getLocalPropertyStatus(id);
+    }
+  }
+
   // Real-time Listeners
   private setupRealtimeListeners() {
     if (!this.config.enableRealtimeSync) return;
@@ -175,20 +327,16 @@ class SyncService {
     try {
       // Check for local conflicts
       const localBooking = await this.getLocalBooking(booking.id);
+      const baseBooking = await this.getBaseSnapshot('booking', booking.id);
       
-      if (localBooking && localBooking.lastUpdated > booking.lastUpdated) {
-        // Local data is newer - potential conflict
-        await this.addConflict({
-          id: booking.id,
-          type: 'booking',
-          localData: localBooking,
-          remoteData: booking,
-        });
+      if (hasDiverged(localBooking, booking, baseBooking)) {
+        await this.handleConflict('booking', localBooking, booking);
         return;
       }
 
       // Update local storage
       await this.storeLocalBooking(booking);
+      await this.storeBaseSnapshot('booking', booking);
       
       // Sync with webhook if needed
       if (booking.syncStatus === 'pending') {
@@ -215,20 +363,16 @@ class SyncService {
     try {
       // Check for local conflicts
       const localAssignment = await this.getLocalAssignment(assignment.id);
+      const baseAssignment = await this.getBaseSnapshot('assignment', assignment.id);
       
-      if (localAssignment && localAssignment.lastUpdated > assignment.lastUpdated) {
-        // Local data is newer - potential conflict
-        await this.addConflict({
-          id: assignment.id,
-          type: 'assignment',
-          localData: localAssignment,
-          remoteData: assignment,
-        });
+      if (hasDiverged(localAssignment, assignment, baseAssignment)) {
+        await this.handleConflict('assignment', localAssignment, assignment);
         return;
       }
 
       // Update local storage
       await this.storeLocalAssignment(assignment);
+      await this.storeBaseSnapshot('assignment', assignment);
       
       // Sync with webhook
       await webhookService.syncStaffAssignment({
@@ -252,8 +396,18 @@ class SyncService {
 
   private async handleRealtimePropertyUpdate(status: PropertyStatus) {
     try {
+      // Check for local conflicts
+      const localStatus = await this.getLocalPropertyStatus(status.id);
+      const baseStatus = await this.getBaseSnapshot('property', status.id);
+
+      if (hasDiverged(localStatus, status, baseStatus)) {
+        await this.handleConflict('property', localStatus, status);
+        return;
+      }
+
       // Update local storage
       await this.storeLocalPropertyStatus(status);
+      await this.storeBaseSnapshot('property', status);
       console.log(`✅ Processed realtime property update: ${status.id}`);
     } catch (error) {
       console.error('❌ Failed to handle realtime property update:', error);
@@ -301,6 +455,16 @@ class SyncService {
     }
   }
 
+  private async getLocalPropertyStatus(propertyId: string): Promise<PropertyStatus | null> {
+    try {
+      const statuses = await Storage.getObject<Record<string, PropertyStatus>>(`${this.config.offlineStorageKey}_properties`) || {};
+      return statuses[propertyId] || null;
+    } catch (error) {
+      console.error('❌ Failed to get local property status:', error);
+      return null;
+    }
+  }
+
   private async storeLocalPropertyStatus(status: PropertyStatus) {
     try {
       const statuses = await Storage.getObject<Record<string, PropertyStatus>>(`${this.config.offlineStorageKey}_properties`) || {};
@@ -311,6 +475,27 @@ class SyncService {
     }
   }
 
+  // Base snapshots: the last copy confirmed by the server, used as the merge base
+  private async getBaseSnapshot(type: SyncEntityType, id: string): Promise<any | null> {
+    try {
+      const snapshots = await Storage.getObject<Record<string, any>>(`${this.config.offlineStorageKey}_base`) || {};
+      return snapshots[`${type}_${id}`] || null;
+    } catch (error) {
+      console.error('❌ Failed to get base snapshot:', error);
+      return null;
+    }
+  }
+
+  private async storeBaseSnapshot(type: SyncEntityType, data: any) {
+    try {
+      const snapshots = await Storage.getObject<Record<string, any>>(`${this.config.offlineStorageKey}_base`) || {};
+      snapshots[`${type}_${data.id}`] = data;
+      await Storage.setObject(`${this.config.offlineStorageKey}_base`, snapshots);
+    } catch (error) {
+      console.error('❌ Failed to store base snapshot:', error);
+    }
+  }
+
   // Sync Intervals
   private startSyncIntervals() {
     // Main sync interval
@@ -367,7 +552,7 @@ class SyncService {
         // Update local data with synced data
         if (syncResult.data.bookings) {
           for (const booking of syncResult.data.bookings) {
-            await realtimeDB.syncBooking({
+            await this.applyFullSyncRecord('booking', {
               id: booking.id,
               propertyId: booking.propertyId,
               guestName: booking.guestName,
@@ -385,7 +570,7 @@ class SyncService {
 
         if (syncResult.data.assignments) {
           for (const assignment of syncResult.data.assignments) {
-            await realtimeDB.syncStaffAssignment({
+            await this.applyFullSyncRecord('assignment', {
               id: assignment.id,
               staffId: assignment.staffId,
               bookingId: assignment.bookingId,
@@ -416,6 +601,32 @@ class SyncService {
     }
   }
 
+  /**
+   * Take a record from the webapp's full sync. The webapp doesn't version
+   * records, so the copy keeps the revision it was last synced at and
+   * becomes the new base. A local edit the server hasn't confirmed yet is
+   * three-way merged instead of being overwritten.
+   */
+  private async applyFullSyncRecord(type: 'booking' | 'assignment', data: BookingData | StaffAssignment): Promise<void> {
+    const local = await this.getLocalRecord(type, data.id);
+    const base = await this.getBaseSnapshot(type, data.id);
+    const record = { ...data, version: getRevision(base ?? local) };
+
+    if (local && getRevision(local) > getRevision(base)) {
+      await this.handleConflict(type, local, record);
+      return;
+    }
+
+    if (type === 'booking') {
+      await this.storeLocalBooking(record as BookingData);
+      await realtimeDB.syncBooking(record as BookingData);
+    } else {
+      await this.storeLocalAssignment(record as StaffAssignment);
+      await realtimeDB.syncStaffAssignment(record as StaffAssignment);
+    }
+    await this.storeBaseSnapshot(type, record);
+  }
+
   private async performIncrementalSync(): Promise<void> {
     if (this.syncStatus.syncInProgress) return;
 
@@ -425,11 +636,20 @@ class SyncService {
       this.syncStatus.webhookQueueSize = webhookService.getQueueStatus().pending;
       this.syncStatus.pendingOperations = realtimeDB.getSyncQueueStatus().pending;
 
+      const outboxStatus = jobActionOutboxService.getStatus();
+      this.syncStatus.outboxPending = outboxStatus.pending;
+      this.syncStatus.outboxFailed = outboxStatus.failed;
+
       await this.saveSyncStatus();
 
       // Process queued operations if online
       if (this.syncStatus.isOnline) {
         await webhookService.forceProcessQueue();
+
+        // Replay queued job actions recorded while offline
+        if (outboxStatus.pending > 0) {
+          await jobActionOutboxService.flush();
+        }
       }
     } catch (error) {
       console.error('❌ Incremental sync failed:', error);
@@ -456,8 +676,16 @@ class SyncService {
   }
 
   // Conflict Resolution
-  async resolveConflict(conflictId: string, resolution: 'local' | 'remote' | 'merge'): Promise<void> {
-    const conflict = this.conflicts.find(c => c.id === conflictId);
+  /**
+   * Resolve a conflict by keeping one side or merging field by field.
+   * 'merge' needs a local/remote choice for every field listed in reviewFields.
+   */
+  async resolveConflict(
+    conflictId: string,
+    resolution: 'local' | 'remote' | 'merge',
+    fieldChoices: Record<string, FieldChoice> = {}
+  ): Promise<void> {
+    const conflict = this.conflicts.find(c => c.id === conflictId && !c.resolved);
     if (!conflict) {
       throw new Error('Conflict not found');
     }
@@ -472,30 +700,17 @@ class SyncService {
         case 'remote':
           resolvedData = conflict.remoteData;
           break;
-        case 'merge':
-          // Simple merge strategy - prefer newer timestamps for individual fields
-          resolvedData = {
-            ...conflict.remoteData,
-            ...conflict.localData,
-            lastUpdated: Math.max(conflict.localData.lastUpdated, conflict.remoteData.lastUpdated),
-          };
+        case 'merge': {
+          const result = mergeEntity(conflict.type, conflict.baseData, conflict.localData, conflict.remoteData);
+          resolvedData = applyFieldChoices(result, conflict.localData, conflict.remoteData, fieldChoices);
           break;
+        }
       }
 
-      // Apply resolution based on conflict type
-      switch (conflict.type) {
-        case 'booking':
-          await realtimeDB.syncBooking(resolvedData);
-          await webhookService.syncBookingData(resolvedData);
-          break;
-        case 'assignment':
-          await realtimeDB.syncStaffAssignment(resolvedData);
-          await webhookService.syncStaffAssignment(resolvedData);
-          break;
-        case 'property':
-          await realtimeDB.syncPropertyStatus(resolvedData.id, resolvedData);
-          break;
-      }
+      await this.applyResolvedData(
+        conflict.type,
+        this.nextRevision(resolvedData, conflict.localData, conflict.remoteData)
+      );
 
       // Mark conflict as resolved
       conflict.resolved = true;
@@ -529,6 +744,13 @@ class SyncService {
       );
       await Storage.setObject(`${this.config.offlineStorageKey}_assignments`, cleanedAssignments);
 
+      // Clean up old base snapshots
+      const snapshots = await Storage.getObject<Record<string, any>>(`${this.config.offlineStorageKey}_base`) || {};
+      const cleanedSnapshots = Object.fromEntries(
+        Object.entries(snapshots).filter(([_, snapshot]) => snapshot.lastUpdated > cutoffTime)
+      );
+      await Storage.setObject(`${this.config.offlineStorageKey}_base`, cleanedSnapshots);
+
       // Clean up resolved conflicts older than 7 days
       this.conflicts = this.conflicts.filter(conflict => 
         !conflict.resolved || (Date.now() - conflict.timestamp) < (7 * 24 * 60 * 60 * 1000)
@@ -555,6 +777,7 @@ class SyncService {
   }
 
   async forceSyncNow(): Promise<void> {
+    await jobActionOutboxService.flush();
     await this.performFullSync();
   }
 
@@ -0,0 +1,342 @@
+/**
+ * Timesheet Service
+ * Builds weekly timesheets from the jobs staff completed (utils/timesheet)
+ * and keeps the supervisor side of a pay period in Firestore:
+ *
+ * - `timesheet_adjustments`: time added or removed by a supervisor, with a reason
+ * - `timesheet_periods`: one doc per staff member per week, open → approved → locked
+ * - `payroll_settings/default`: rates and overtime rules, merged over the defaults
+ *
+ * Worked time comes from the job's session (`job_sessions`) when it has both
+ * ends, otherwise from the job's own start/completion times, and as a last
+ * resort from its recorded duration. Who may see and approve timesheets is
+ * decided by the payments permissions: supervisors only for their team.
+ */
+
+import {
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  setDoc,
+  where,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { geofenceService } from '@/services/geofenceService';
+import type { Reviewer } from '@/services/jobReviewService';
+import { computeOnSiteMinutes } from '@/utils/geofence';
+import { canOn, getPermissionScope } from '@/utils/permissions';
+import {
+  DEFAULT_PAYROLL_SETTINGS,
+  buildWeeklyTimesheet,
+  calculatePayroll,
+  canAdjustPeriod,
+  canTransitionPeriod,
+  toPayrollCsv,
+  toPayrollExport,
+  toPayrollJson
+} from '@/utils/timesheet';
+import type {
+  PayPeriod,
+  PayPeriodStatus,
+  PayrollSettings,
+  TimesheetAdjustment,
+  TimesheetWork,
+  WeeklyTimesheet
+} from '@/types/timesheet';
+
+export type PayrollExportFormat = 'csv' | 'json';
+
+export interface AdjustmentRequest {
+  staffId: string;
+  period: PayPeriod;
+  date: string;
+  jobId?: string;
+  minutes: number;
+  reason: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const toDate = (value: any): Date | undefined =>
+  value?.toDate ? value.toDate() : value ? new Date(value) : undefined;
+
+const getStaffId = (data: any): string =>
+  data.completedBy || data.assignedStaffId || data.assignedTo || '';
+
+class TimesheetService {
+  private readonly COMPLETED_JOBS_COLLECTION = 'completed_jobs';
+  private readonly SESSIONS_COLLECTION = 'job_sessions';
+  private readonly ADJUSTMENTS_COLLECTION = 'timesheet_adjustments';
+  private readonly PERIODS_COLLECTION = 'timesheet_periods';
+  private readonly SETTINGS_COLLECTION = 'payroll_settings';
+  private readonly STAFF_COLLECTION = 'staff_accounts';
+
+  async getPayrollSettings(): Promise<PayrollSettings> {
+    try {
+      const db = await getDb();
+      const snapshot = await getDoc(doc(db, this.SETTINGS_COLLECTION, 'default'));
+      return snapshot.exists()
+        ? { ...DEFAULT_PAYROLL_SETTINGS, ...snapshot.data() } as PayrollSettings
+        : DEFAULT_PAYROLL_SETTINGS;
+    } catch (error) {
+      console.warn('Timesheet: Using default payroll settings:', error);
+      return DEFAULT_PAYROLL_SETTINGS;
+    }
+  }
+
+  async savePayrollSettings(settings: PayrollSettings): Promise<void> {
+    const db = await getDb();
+    await setDoc(doc(db, this.SETTINGS_COLLECTION, 'default'), { ...settings, updatedAt: serverTimestamp() });
+  }
+
+  /**
+   * Timesheets for everyone this reviewer may see who worked or was adjusted
+   * in the period, busiest first
+   */
+  async getWeeklyTimesheets(reviewer: Reviewer, period: PayPeriod): Promise<WeeklyTimesheet[]> {
+    const scope = getPermissionScope(reviewer.role, 'payments', 'read');
+    if (!scope) return [];
+
+    const [settings, work, adjustments, statuses, staff] = await Promise.all([
+      this.getPayrollSettings(),
+      this.getWork(period),
+      this.getAdjustments(period.id),
+      this.getPeriodStatuses(period.id),
+      this.getStaff(),
+    ]);
+
+    const staffIds = new Set([...work.map(item => item.staffId), ...adjustments.map(adjustment => adjustment.staffId)]);
+    return [...staffIds]
+      .filter(staffId => canOn(reviewer, 'payments', 'read', { ownerId: staffId, teamId: staff.get(staffId)?.teamId }))
+      .map(staffId => buildWeeklyTimesheet(
+        staffId,
+        period,
+        work,
+        adjustments,
+        statuses.get(staffId) || 'open',
+        settings,
+        staff.get(staffId)?.name
+      ))
+      .sort((a, b) => b.totalMinutes - a.totalMinutes);
+  }
+
+  /**
+   * Add or remove time on a staff member's week. Adjusting an approved week
+   * sends it back for approval; a locked week cannot change.
+   */
+  async addAdjustment(reviewer: Reviewer, request: AdjustmentRequest): Promise<void> {
+    const reason = request.reason.trim();
+    if (!reason) throw new Error('A reason is required for every adjustment');
+    if (!Number.isFinite(request.minutes) || request.minutes === 0) {
+      throw new Error('Adjustment must add or remove some time');
+    }
+    await this.assertCanApprove(reviewer, request.staffId);
+
+    const db = await getDb();
+    const periodRef = doc(db, this.PERIODS_COLLECTION, `${request.period.id}_${request.staffId}`);
+    const adjustmentRef = doc(collection(db, this.ADJUSTMENTS_COLLECTION));
+
+    await runTransaction(db, async transaction => {
+      const periodDoc = await transaction.get(periodRef);
+      const status: PayPeriodStatus = periodDoc.exists() ? periodDoc.data().status : 'open';
+      if (!canAdjustPeriod(status)) {
+        throw new Error('This pay period is locked');
+      }
+
+      transaction.set(adjustmentRef, {
+        staffId: request.staffId,
+        periodId: request.period.id,
+        date: request.date,
+        ...(request.jobId && { jobId: request.jobId }),
+        minutes: Math.round(request.minutes),
+        reason,
+        adjustedBy: reviewer.id,
+        ...(reviewer.name && { adjustedByName: reviewer.name }),
+        adjustedAt: serverTimestamp(),
+      });
+
+      transaction.set(periodRef, {
+        staffId: request.staffId,
+        periodId: request.period.id,
+        periodStart: Timestamp.fromDate(request.period.start),
+        status: 'open',
+        ...(status === 'approved' && { approvedBy: deleteField(), approvedAt: deleteField() }),
+        updatedAt: serverTimestamp(),
+      }, { merge: true });
+    });
+
+    console.log(`🕒 Timesheet: ${request.minutes > 0 ? '+' : ''}${request.minutes} min for ${request.staffId} on ${request.date}`);
+  }
+
+  async approvePeriod(reviewer: Reviewer, staffId: string, period: PayPeriod): Promise<void> {
+    await this.setPeriodStatus(reviewer, staffId, period, 'approved');
+  }
+
+  async lockPeriod(reviewer: Reviewer, staffId: string, period: PayPeriod): Promise<void> {
+    await this.setPeriodStatus(reviewer, staffId, period, 'locked');
+  }
+
+  /**
+   * Payroll for the period as CSV or JSON, for everyone the reviewer may see
+   */
+  async exportPayroll(reviewer: Reviewer, period: PayPeriod, format: PayrollExportFormat): Promise<string> {
+    const [settings, timesheets] = await Promise.all([
+      this.getPayrollSettings(),
+      this.getWeeklyTimesheets(reviewer, period),
+    ]);
+    const payroll = toPayrollExport(
+      period,
+      timesheets.map(timesheet => calculatePayroll(timesheet, settings)),
+      settings,
+      new Date()
+    );
+    return format === 'csv' ? toPayrollCsv(payroll) : toPayrollJson(payroll);
+  }
+
+  private async setPeriodStatus(
+    reviewer: Reviewer,
+    staffId: string,
+    period: PayPeriod,
+    to: Exclude<PayPeriodStatus, 'open'>
+  ): Promise<void> {
+    await this.assertCanApprove(reviewer, staffId);
+
+    const db = await getDb();
+    const periodRef = doc(db, this.PERIODS_COLLECTION, `${period.id}_${staffId}`);
+
+    await runTransaction(db, async transaction => {
+      const periodDoc = await transaction.get(periodRef);
+      const from: PayPeriodStatus = periodDoc.exists() ? periodDoc.data().status : 'open';
+      if (!canTransitionPeriod(from, to)) {
+        throw new Error(to === 'locked' ? 'Approve the timesheet before locking it' : `Timesheet is already ${from}`);
+      }
+
+      transaction.set(periodRef, {
+        staffId,
+        periodId: period.id,
+        periodStart: Timestamp.fromDate(period.start),
+        status: to,
+        ...(to === 'approved'
+          ? { approvedBy: reviewer.id, approvedAt: serverTimestamp() }
+          : { lockedBy: reviewer.id, lockedAt: serverTimestamp() }),
+        updatedAt: serverTimestamp(),
+      }, { merge: true });
+    });
+
+    console.log(`✅ Timesheet: ${staffId} ${period.id} ${to} by ${reviewer.id}`);
+  }
+
+  private async assertCanApprove(reviewer: Reviewer, staffId: string): Promise<void> {
+    if (staffId === reviewer.id) {
+      throw new Error('You cannot approve or adjust your own timesheet');
+    }
+    const needsTeam = getPermissionScope(reviewer.role, 'payments', 'approve') === 'team';
+    const teamId = needsTeam ? (await this.getStaff()).get(staffId)?.teamId : undefined;
+    if (!canOn(reviewer, 'payments', 'approve', { ownerId: staffId, teamId })) {
+      throw new Error('You can only manage timesheets for your own team');
+    }
+  }
+
+  /**
+   * Jobs completed in the period with their worked window
+   */
+  private async getWork(period: PayPeriod): Promise<TimesheetWork[]> {
+    const db = await getDb();
+    const snapshot = await getDocs(query(
+      collection(db, this.COMPLETED_JOBS_COLLECTION),
+      where('completedAt', '>=', Timestamp.fromDate(period.start)),
+      where('completedAt', '<', Timestamp.fromDate(period.end))
+    ));
+
+    const work = await Promise.all(snapshot.docs.map(async jobDoc => {
+      const data = jobDoc.data();
+      const staffId = getStaffId(data);
+      if (!staffId) return null;
+
+      const window = await this.getWorkedWindow(jobDoc.id, data);
+      if (!window) return null;
+
+      const events = (await geofenceService.getEvents(jobDoc.id)).filter(event => event.staffId === staffId);
+      const item: TimesheetWork = {
+        jobId: jobDoc.id,
+        staffId,
+        jobType: data.jobType || data.type || 'other',
+        ...(data.title && { title: data.title }),
+        ...((data.propertyName || data.propertyRef?.name) && { propertyName: data.propertyName || data.propertyRef?.name }),
+        ...window,
+        ...(events.length > 0 && { onSiteMinutes: computeOnSiteMinutes(events, window.startedAt, window.endedAt) }),
+      };
+      return item;
+    }));
+
+    return work.filter((item): item is TimesheetWork => item !== null);
+  }
+
+  private async getWorkedWindow(
+    jobId: string,
+    data: any
+  ): Promise<Pick<TimesheetWork, 'startedAt' | 'endedAt' | 'source'> | null> {
+    const db = await getDb();
+    const session = await getDoc(doc(db, this.SESSIONS_COLLECTION, jobId)).catch(() => null);
+    const sessionStart = toDate(session?.data()?.startTime);
+    const sessionEnd = toDate(session?.data()?.endTime);
+    if (sessionStart && sessionEnd && sessionEnd > sessionStart) {
+      return { startedAt: sessionStart, endedAt: sessionEnd, source: 'session' };
+    }
+
+    const startedAt = toDate(data.startedAt);
+    const completedAt = toDate(data.completedAt);
+    if (!completedAt) return null;
+    if (startedAt && completedAt > startedAt) {
+      return { startedAt, endedAt: completedAt, source: 'job' };
+    }
+
+    const minutes = data.actualDuration || data.estimatedDuration;
+    if (!minutes) return null;
+    return { startedAt: new Date(completedAt.getTime() - minutes * MINUTE_MS), endedAt: completedAt, source: 'estimate' };
+  }
+
+  private async getAdjustments(periodId: string): Promise<TimesheetAdjustment[]> {
+    const db = await getDb();
+    const snapshot = await getDocs(query(collection(db, this.ADJUSTMENTS_COLLECTION), where('periodId', '==', periodId)));
+    return snapshot.docs.map(adjustmentDoc => {
+      const data = adjustmentDoc.data();
+      return {
+        id: adjustmentDoc.id,
+        staffId: data.staffId,
+        periodId: data.periodId,
+        date: data.date,
+        ...(data.jobId && { jobId: data.jobId }),
+        minutes: data.minutes || 0,
+        reason: data.reason || '',
+        adjustedBy: data.adjustedBy,
+        ...(data.adjustedByName && { adjustedByName: data.adjustedByName }),
+        adjustedAt: toDate(data.adjustedAt) || new Date(),
+      };
+    });
+  }
+
+  private async getPeriodStatuses(periodId: string): Promise<Map<string, PayPeriodStatus>> {
+    const db = await getDb();
+    const snapshot = await getDocs(query(collection(db, this.PERIODS_COLLECTION), where('periodId', '==', periodId)));
+    return new Map(snapshot.docs.map(periodDoc => [periodDoc.data().staffId, periodDoc.data().status]));
+  }
+
+  private async getStaff(): Promise<Map<string, { name?: string; teamId?: string }>> {
+    const db = await getDb();
+    const snapshot = await getDocs(collection(db, this.STAFF_COLLECTION));
+    return new Map(snapshot.docs.map(staffDoc => [
+      staffDoc.id,
+      { name: staffDoc.data().name, teamId: staffDoc.data().teamId },
+    ]));
+  }
+}
+
+export const timesheetService = new TimesheetService();
+export default timesheetService;
@@ -0,0 +1,418 @@
+/**
+ * Turnover Job Service
+ * Watches bookings and keeps the generated turnover jobs in the `jobs`
+ * collection in step with them (see utils/turnoverRules).
+ *
+ * Rule overrides live in `turnover_rules`: one document per property id and
+ * one per property type (`type_villa`, `type_condo`, ...). Generated jobs use a
+ * deterministic document id so re-running a sync never duplicates a job.
+ * Each property's stay numbers, which "every N stays" rules count from, live
+ * in `turnover_stays/{propertyId}`.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  setDoc,
+  updateDoc,
+  where,
+  serverTimestamp
+} from 'firebase/firestore';
+import { getDb } from '@/lib/firebase';
+import { realtimeDB, BookingData } from '@/lib/realtimeDatabase';
+import { propertyService, Property } from '@/services/propertyService';
+import { webhookService } from '@/services/webhookService';
+import type { JobData } from '@/types/jobData';
+import type { PropertyType } from '@/types/property';
+import { planJobTransition, buildStatusUpdate, JobTransitionError } from '@/utils/jobStateMachine';
+import {
+  assignStayNumbers,
+  diffTurnoverJobs,
+  findTurnoverGaps,
+  planTurnoverJobs,
+  resolveTurnoverRules,
+  ExistingTurnoverJob,
+  PlannedTurnoverJob,
+  StayNumbers,
+  TurnoverBooking,
+  TurnoverGap,
+  TurnoverRuleOverride,
+  TurnoverRuleSet
+} from '@/utils/turnoverRules';
+
+export const TURNOVER_JOB_SOURCE = 'turnover_rules';
+
+export interface TurnoverSyncResult {
+  propertyId: string;
+  created: number;
+  rescheduled: number;
+  cancelled: number;
+  tightTurnovers: TurnoverGap[];
+  errors: string[];
+}
+
+// Wait for a burst of booking updates to settle before syncing a property
+const SYNC_DEBOUNCE_MS = 5000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const toDateString = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+const toTimeString = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+class TurnoverJobService {
+  private readonly JOBS_COLLECTION = 'jobs';
+  private readonly RULES_COLLECTION = 'turnover_rules';
+  private readonly STAYS_COLLECTION = 'turnover_stays';
+
+  private bookingSignatures = new Map<string, string>();
+  private pendingSyncs = new Map<string, ReturnType<typeof setTimeout>>();
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * Start watching realtime bookings. Only one device (admin/manager)
+   * should run this; deterministic job ids keep it safe if more do.
+   */
+  start(): () => void {
+    if (this.unsubscribe) return this.unsubscribe;
+
+    console.log('🏨 TurnoverJobService: Watching bookings for turnover jobs');
+    const stopListening = realtimeDB.onBookingUpdated((booking) => this.handleBookingUpdate(booking));
+
+    this.unsubscribe = () => {
+      stopListening();
+      this.pendingSyncs.forEach(timer => clearTimeout(timer));
+      this.pendingSyncs.clear();
+      this.bookingSignatures.clear();
+      this.unsubscribe = null;
+    };
+    return this.unsubscribe;
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+  }
+
+  /**
+   * Queue a property sync when a booking's dates or status change
+   */
+  handleBookingUpdate(booking: Pick<BookingData, 'id' | 'propertyId' | 'checkIn' | 'checkOut' | 'status'>): void {
+    if (!booking?.id || !booking.propertyId) return;
+
+    const signature = `${booking.checkIn}|${booking.checkOut}|${booking.status}`;
+    if (this.bookingSignatures.get(booking.id) === signature) return;
+    this.bookingSignatures.set(booking.id, signature);
+
+    const pending = this.pendingSyncs.get(booking.propertyId);
+    if (pending) clearTimeout(pending);
+
+    this.pendingSyncs.set(booking.propertyId, setTimeout(() => {
+      this.pendingSyncs.delete(booking.propertyId);
+      this.syncProperty(booking.propertyId).catch(error => {
+        console.error('❌ TurnoverJobService: Property sync failed:', error);
+      });
+    }, SYNC_DEBOUNCE_MS));
+  }
+
+  /**
+   * Sync every property that has approved bookings in the webapp or
+   * generated jobs. The approved feed only lists live bookings, so it is
+   * merged with the realtime bookings before deciding a booking is gone.
+   */
+  async syncApprovedBookings(): Promise<TurnoverSyncResult[]> {
+    const response = await webhookService.fetchApprovedBookings();
+    if (!response.success || !response.data) {
+      console.warn('⚠️ TurnoverJobService: Could not fetch approved bookings:', response.error);
+      return [];
+    }
+
+    const knownBookings = await this.getKnownBookings(response.data);
+    const byProperty = new Map<string, TurnoverBooking[]>();
+    (await this.getGeneratedJobPropertyIds()).forEach(propertyId => byProperty.set(propertyId, []));
+    knownBookings.forEach(booking => {
+      byProperty.set(booking.propertyId, [...(byProperty.get(booking.propertyId) || []), booking]);
+    });
+
+    const results: TurnoverSyncResult[] = [];
+    for (const [propertyId, bookings] of byProperty) {
+      results.push(await this.syncProperty(propertyId, bookings));
+    }
+    return results;
+  }
+
+  /**
+   * Bring a property's generated jobs in line with its bookings
+   */
+  async syncProperty(propertyId: string, bookings?: TurnoverBooking[]): Promise<TurnoverSyncResult> {
+    const result: TurnoverSyncResult = {
+      propertyId,
+      created: 0,
+      rescheduled: 0,
+      cancelled: 0,
+      tightTurnovers: [],
+      errors: [],
+    };
+
+    const stays = bookings ?? (await this.getKnownBookings(await webhookService.getStoredBookings()))
+      .filter(booking => booking.propertyId === propertyId);
+    const { property, ruleSet } = await this.getRuleSetForProperty(propertyId);
+    const stayNumbers = await this.getStayNumbers(propertyId, stays);
+    const planned = planTurnoverJobs(stays, ruleSet, stayNumbers);
+    const existing = await this.getGeneratedJobs(propertyId);
+    const changes = diffTurnoverJobs(planned, existing, stays);
+
+    result.tightTurnovers = findTurnoverGaps(stays, ruleSet, stayNumbers).filter(gap => gap.isTight);
+    result.tightTurnovers.forEach(gap => {
+      console.warn(
+        `⚠️ TurnoverJobService: Same-day turnover at ${propertyId} between ${gap.previousBookingId} and ${gap.nextBookingId}: ` +
+        `${gap.gapMinutes} min available, ${gap.requiredMinutes} min of work`
+      );
+    });
+
+    const db = await getDb();
+    const bookingsById = new Map(stays.map(booking => [booking.id, booking]));
+
+    for (const plannedJob of changes.create) {
+      try {
+        const jobRef = doc(db, this.JOBS_COLLECTION, this.getJobId(plannedJob));
+        await setDoc(jobRef, {
+          ...this.buildJob(plannedJob, property, bookingsById.get(plannedJob.bookingId)),
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+        result.created++;
+      } catch (error) {
+        result.errors.push(`Create ${plannedJob.key}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    for (const { job, planned: plannedJob } of changes.reschedule) {
+      try {
+        await updateDoc(doc(db, this.JOBS_COLLECTION, job.id), {
+          ...this.buildSchedule(plannedJob),
+          priority: plannedJob.priority,
+          updatedAt: serverTimestamp(),
+        });
+        result.rescheduled++;
+      } catch (error) {
+        result.errors.push(`Reschedule ${job.key}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    for (const job of changes.cancel) {
+      try {
+        const transition = planJobTransition({
+          from: job.status,
+          to: 'cancelled',
+          actor: 'system',
+          actorId: TURNOVER_JOB_SOURCE,
+          notes: 'Booking cancelled or deleted',
+        });
+        await updateDoc(doc(db, this.JOBS_COLLECTION, job.id), buildStatusUpdate(transition));
+        result.cancelled++;
+      } catch (error) {
+        // A job the system may not cancel (e.g. already accepted) is left for an admin
+        const message = error instanceof JobTransitionError ? error.message : String(error);
+        result.errors.push(`Cancel ${job.key}: ${message}`);
+      }
+    }
+
+    console.log(
+      `✅ TurnoverJobService: ${propertyId} synced - ${result.created} created, ` +
+      `${result.rescheduled} rescheduled, ${result.cancelled} cancelled`
+    );
+    return result;
+  }
+
+  /**
+   * Effective rules for a property, including its type and property overrides
+   */
+  async getRuleSetForProperty(propertyId: string): Promise<{ property: Property | null; ruleSet: TurnoverRuleSet }> {
+    const response = await propertyService.getProperty(propertyId);
+    const property = response.property ?? null;
+    const propertyType = property?.type ?? null;
+
+    const [typeOverride, propertyOverride] = await Promise.all([
+      propertyType ? this.getRuleOverride(`type_${propertyType}`) : Promise.resolve(null),
+      this.getRuleOverride(propertyId),
+    ]);
+
+    return { property, ruleSet: resolveTurnoverRules(propertyType, typeOverride, propertyOverride) };
+  }
+
+  /**
+   * Save rule overrides for one property or for every property of a type
+   */
+  async saveRuleOverride(
+    target: { propertyId: string } | { propertyType: PropertyType },
+    override: TurnoverRuleOverride
+  ): Promise<void> {
+    const id = 'propertyId' in target ? target.propertyId : `type_${target.propertyType}`;
+    const db = await getDb();
+    await setDoc(doc(db, this.RULES_COLLECTION, id), {
+      ...override,
+      updatedAt: serverTimestamp(),
+    });
+  }
+
+  private async getRuleOverride(id: string): Promise<TurnoverRuleOverride | null> {
+    try {
+      const db = await getDb();
+      const snapshot = await getDoc(doc(db, this.RULES_COLLECTION, id));
+      return snapshot.exists() ? snapshot.data() as TurnoverRuleOverride : null;
+    } catch (error) {
+      console.error('❌ TurnoverJobService: Error loading rule override:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Stored stay numbers for a property, numbering and saving any new stays.
+   * Runs in a transaction so two devices syncing at once can't give
+   * different stays the same number.
+   */
+  private async getStayNumbers(propertyId: string, stays: TurnoverBooking[]): Promise<StayNumbers> {
+    const db = await getDb();
+    const staysRef = doc(db, this.STAYS_COLLECTION, propertyId);
+
+    return runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(staysRef);
+      const stored: StayNumbers = snapshot.exists() ? snapshot.data().stays || {} : {};
+
+      const numbers = assignStayNumbers(stays, stored);
+      const added = Object.keys(numbers).filter(bookingId => stored[bookingId] === undefined);
+      if (added.length > 0) {
+        transaction.set(staysRef, {
+          stays: Object.fromEntries(added.map(bookingId => [bookingId, numbers[bookingId]])),
+          updatedAt: serverTimestamp(),
+        }, { merge: true });
+        console.log(`🔢 TurnoverJobService: Numbering ${added.length} new stays at ${propertyId}`);
+      }
+      return numbers;
+    });
+  }
+
+  private async getGeneratedJobs(propertyId: string): Promise<ExistingTurnoverJob[]> {
+    const db = await getDb();
+    const snapshot = await getDocs(query(
+      collection(db, this.JOBS_COLLECTION),
+      where('propertyId', '==', propertyId),
+      where('generatedBy', '==', TURNOVER_JOB_SOURCE)
+    ));
+
+    return snapshot.docs.map(jobDoc => {
+      const data = jobDoc.data() as JobData;
+      const scheduledFor = data.scheduledDate && data.scheduledStartTime
+        ? new Date(`${data.scheduledDate}T${data.scheduledStartTime}:00`)
+        : null;
+      return {
+        id: jobDoc.id,
+        key: data.turnoverKey || jobDoc.id,
+        bookingId: data.bookingId || '',
+        status: data.status,
+        scheduledFor,
+        deadline: data.deadline ? new Date(data.deadline) : null,
+        sameDayTurnover: data.sameDayTurnover,
+      };
+    });
+  }
+
+  /**
+   * Realtime bookings merged with the webapp's approved bookings, so a
+   * booking counts as deleted only when neither source has it
+   */
+  private async getKnownBookings(approved: Omit<TurnoverBooking, 'status'>[]): Promise<TurnoverBooking[]> {
+    const bookingsById = new Map<string, TurnoverBooking>();
+    (await realtimeDB.fetchBookings()).forEach(booking => bookingsById.set(booking.id, booking));
+    approved.forEach(booking => {
+      bookingsById.set(booking.id, {
+        id: booking.id,
+        propertyId: booking.propertyId,
+        guestName: booking.guestName,
+        checkIn: booking.checkIn,
+        checkOut: booking.checkOut,
+        status: 'confirmed',
+      });
+    });
+    return [...bookingsById.values()];
+  }
+
+  private async getGeneratedJobPropertyIds(): Promise<string[]> {
+    const db = await getDb();
+    const snapshot = await getDocs(query(
+      collection(db, this.JOBS_COLLECTION),
+      where('generatedBy', '==', TURNOVER_JOB_SOURCE)
+    ));
+    const propertyIds = snapshot.docs
+      .map(jobDoc => (jobDoc.data() as JobData).propertyId)
+      .filter((propertyId): propertyId is string => !!propertyId);
+    return [...new Set(propertyIds)];
+  }
+
+  private getJobId(plannedJob: PlannedTurnoverJob): string {
+    return `turnover_${plannedJob.key}`;
+  }
+
+  private buildSchedule(plannedJob: PlannedTurnoverJob): Partial<JobData> {
+    const end = new Date(plannedJob.scheduledFor.getTime() + plannedJob.estimatedDuration * 60 * 1000);
+    return {
+      scheduledDate: toDateString(plannedJob.scheduledFor),
+      scheduledStartTime: toTimeString(plannedJob.scheduledFor),
+      scheduledEndTime: toTimeString(end),
+      deadline: plannedJob.deadline ? plannedJob.deadline.toISOString() : '',
+      sameDayTurnover: plannedJob.sameDayTurnover,
+    };
+  }
+
+  private buildJob(
+    plannedJob: PlannedTurnoverJob,
+    property: Property | null,
+    booking?: TurnoverBooking
+  ): Omit<JobData, 'id' | 'createdAt' | 'updatedAt'> {
+    const coordinates = property?.location.coordinates ?? { latitude: 0, longitude: 0 };
+    const address = property?.address || property?.location.address || '';
+
+    return {
+      bookingId: plannedJob.bookingId,
+      // Firestore rejects undefined fields, so only add the ref when known
+      ...(booking && {
+        bookingRef: {
+          id: booking.id,
+          guestName: booking.guestName,
+          propertyName: property?.name || '',
+          checkInDate: booking.checkIn,
+          checkOutDate: booking.checkOut,
+          guestCount: 0,
+        },
+      }),
+      propertyId: plannedJob.propertyId,
+      propertyRef: {
+        id: plannedJob.propertyId,
+        name: property?.name || 'Unknown Property',
+        address,
+        coordinates,
+      },
+      jobType: plannedJob.jobType,
+      title: plannedJob.title,
+      description: plannedJob.sameDayTurnover
+        ? 'Same-day turnover: the gap between stays is shorter than the planned work'
+        : '',
+      priority: plannedJob.priority,
+      ...this.buildSchedule(plannedJob),
+      estimatedDuration: plannedJob.estimatedDuration,
+      requiredSkills: plannedJob.requiredSkills,
+      location: { address, coordinates },
+      // Unassigned until an admin or the recommendation engine picks someone
+      assignedStaffId: '',
+      userId: '',
+      status: 'pending',
+      generatedBy: TURNOVER_JOB_SOURCE,
+      turnoverKey: plannedJob.key,
+    };
+  }
+}
+
+export const turnoverJobService = new TurnoverJobService();
+export default turnoverJobService;
@@ -2,6 +2,10 @@
  * Unified Job Notification Service
  * Single point of truth for all job-related notifications
  * Prevents duplicates and ensures reliable delivery
+ * Each recipient's notification preferences pick the channel and hold
+ * non-urgent pushes back during their quiet hours. Low and normal priority
+ * updates go to the recipient's digest when they have digests on, and
+ * anything over the rate limit goes there instead of being dropped.
  */
 
 import {
@@ -10,8 +14,14 @@ import {
 } from './enhancedNotificationDeduplicationService';
 import { notificationRateLimitingService } from './notificationRateLimitingService';
 import { pushNotificationService } from './pushNotificationService';
+import { notificationPreferenceService } from './notificationPreferenceService';
+import { notificationDigestService } from './notificationDigestService';
 import { getDb } from '../lib/firebase';
-import { doc, getDoc, collection, query, where, getDocs } from 'firebase/firestore';
+import { doc, getDoc, collection, query, where, getDocs, addDoc, serverTimestamp } from 'firebase/firestore';
+import { DIGEST_EVENT_TYPE } from '../utils/notificationPreferences';
+import type { NotificationChannel, NotificationPriority } from '../utils/notificationPreferences';
+import { getLateStartMinutes, type DigestSummary } from '../utils/notificationDigest';
+import type { Issue } from '../types/issue';
 
 export interface JobNotificationData {
   jobId: string;
@@ -34,6 +44,7 @@ export interface NotificationRecipient {
   id: string;
   name: string;
   role: 'staff' | 'admin' | 'manager';
+  phone?: string;
   fcmTokens?: string[];
   notificationPreferences?: {
     pushEnabled: boolean;
@@ -51,10 +62,12 @@ export interface NotificationResult {
   recipientCount: number;
   channelResults: {
     push: { success: number; failed: number; };
+    sms: { success: number; failed: number; };
     webhook: { success: number; failed: number; };
     realtime: { success: number; failed: number; };
   };
   duplicatesBlocked: number;
+  digested: number;
   errors: string[];
 }
 
@@ -74,10 +87,12 @@ class UnifiedJobNotificationService {
       recipientCount: 0,
       channelResults: {
         push: { success: 0, failed: 0 },
+        sms: { success: 0, failed: 0 },
         webhook: { success: 0, failed: 0 },
         realtime: { success: 0, failed: 0 }
       },
       duplicatesBlocked: 0,
+      digested: 0,
       errors: []
     };
 
@@ -94,9 +109,16 @@ class UnifiedJobNotificationService {
         return result;
       }
 
-      // Check if staff wants job assignment notifications
-      if (recipient.notificationPreferences?.jobAssignments === false) {
-        console.log('🔕 Staff has disabled job assignment notifications:', recipient.id);
+      // Check if and how staff wants job assignment notifications
+      const delivery = await notificationPreferenceService.resolveDelivery(
+        recipient.id,
+        'job.assigned',
+        jobData.priority,
+        new Date(),
+        recipient.notificationPreferences
+      );
+      if (!delivery.deliver) {
+        console.log('🔕 Job assignment notification skipped:', recipient.id, delivery.reason);
         result.success = true;
         return result;
       }
@@ -137,9 +159,14 @@ class UnifiedJobNotificationService {
       );
 
       if (!rateLimitResult.allowed) {
-        result.errors.push(`Rate limited: ${rateLimitResult.reason}`);
-        result.success = false;
         console.log('🚫 Job assignment notification rate limited:', rateLimitResult.reason);
+        if (await this.holdForDigest(recipient.id, notificationRequest)) {
+          result.digested = 1;
+          result.success = true;
+        } else {
+          result.errors.push(`Rate limited: ${rateLimitResult.reason}`);
+          result.success = false;
+        }
         return result;
       }
 
@@ -158,21 +185,8 @@ class UnifiedJobNotificationService {
       result.eventId = deduplicationResult.event.id;
       result.recipientCount = 1;
 
-      // Send push notification
-      if (recipient.notificationPreferences?.pushEnabled !== false && recipient.fcmTokens?.length) {
-        try {
-          const pushResult = await this.sendPushNotification(recipient, notificationRequest);
-          if (pushResult.success) {
-            result.channelResults.push.success = 1;
-          } else {
-            result.channelResults.push.failed = 1;
-            result.errors.push(`Push notification failed: ${pushResult.error}`);
-          }
-        } catch (error) {
-          result.channelResults.push.failed = 1;
-          result.errors.push(`Push notification error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
-      }
+      // Send on the staff member's chosen channel
+      await this.sendOnChannel(delivery.channel, recipient, notificationRequest, result);
 
       // Send real-time notification (WebSocket/Server-Sent Events)
       try {
@@ -184,7 +198,9 @@ class UnifiedJobNotificationService {
       }
 
       // Mark as sent if at least one channel succeeded
-      const totalSuccess = result.channelResults.push.success + result.channelResults.realtime.success;
+      const totalSuccess = result.channelResults.push.success +
+        result.channelResults.sms.success +
+        result.channelResults.realtime.success;
       if (totalSuccess > 0) {
         await enhancedNotificationDeduplicationService.markNotificationSent(result.eventId);
         result.success = true;
@@ -216,6 +232,110 @@ class UnifiedJobNotificationService {
     }
   }
 
+  /**
+   * Tell the staff member a completed job was sent back, with what failed review
+   */
+  async sendJobReworkNotification(jobData: JobNotificationData, failedItems: string[]): Promise<NotificationResult> {
+    console.log('📤 Sending job rework notification:', jobData.jobId);
+
+    const result: NotificationResult = {
+      success: false,
+      eventId: '',
+      recipientCount: 0,
+      channelResults: {
+        push: { success: 0, failed: 0 },
+        sms: { success: 0, failed: 0 },
+        webhook: { success: 0, failed: 0 },
+        realtime: { success: 0, failed: 0 }
+      },
+      duplicatesBlocked: 0,
+      digested: 0,
+      errors: []
+    };
+
+    try {
+      if (!jobData.assignedStaffId) {
+        result.errors.push('No assigned staff ID provided');
+        return result;
+      }
+
+      const recipient = await this.getStaffMember(jobData.assignedStaffId);
+      if (!recipient) {
+        result.errors.push(`Staff member not found: ${jobData.assignedStaffId}`);
+        return result;
+      }
+
+      const delivery = await notificationPreferenceService.resolveDelivery(
+        recipient.id,
+        'job.rework_requested',
+        jobData.priority,
+        new Date(),
+        recipient.notificationPreferences
+      );
+      if (!delivery.deliver) {
+        console.log('🔕 Job rework notification skipped:', recipient.id, delivery.reason);
+        result.success = true;
+        return result;
+      }
+
+      const notificationRequest: NotificationRequest = {
+        eventType: 'job.rework_requested',
+        entityId: jobData.jobId,
+        recipientId: recipient.id,
+        content: {
+          title: '🔁 Rework Needed',
+          body: `${jobData.title} at ${jobData.propertyName}: ${failedItems.join(', ')}`,
+          data: {
+            jobId: jobData.jobId,
+            jobTitle: jobData.title,
+            propertyName: jobData.propertyName,
+            failedItems,
+            deepLink: `app://jobs/${jobData.jobId}`
+          }
+        },
+        source: 'unified_service',
+        priority: jobData.priority,
+        metadata: {
+          jobType: jobData.type,
+          failedItemCount: failedItems.length
+        }
+      };
+
+      const deduplicationResult = await enhancedNotificationDeduplicationService
+        .shouldAllowNotification(notificationRequest);
+
+      if (!deduplicationResult.allowed) {
+        result.duplicatesBlocked = 1;
+        result.success = true;
+        result.eventId = deduplicationResult.event.id;
+        return result;
+      }
+
+      result.eventId = deduplicationResult.event.id;
+      result.recipientCount = 1;
+
+      await this.sendOnChannel(delivery.channel, recipient, notificationRequest, result);
+
+      await this.sendRealtimeNotification(recipient.id, notificationRequest);
+      result.channelResults.realtime.success = 1;
+
+      await enhancedNotificationDeduplicationService.markNotificationSent(result.eventId);
+      result.success = true;
+      return result;
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      result.errors.push(errorMessage);
+      console.error('❌ Error sending job rework notification:', error);
+
+      if (result.eventId) {
+        await enhancedNotificationDeduplicationService.markNotificationFailed(result.eventId, errorMessage);
+      }
+
+      return result;
+    }
+  }
+
   /**
    * Send job status update notification
    */
@@ -228,10 +348,12 @@ class UnifiedJobNotificationService {
       recipientCount: 0,
       channelResults: {
         push: { success: 0, failed: 0 },
+        sms: { success: 0, failed: 0 },
         webhook: { success: 0, failed: 0 },
         realtime: { success: 0, failed: 0 }
       },
       duplicatesBlocked: 0,
+      digested: 0,
       errors: []
     };
 
@@ -247,14 +369,24 @@ class UnifiedJobNotificationService {
 
       // Generate appropriate notification content based on status
       const { title, body } = this.generateStatusUpdateContent(jobData);
+      const lateMinutes = jobData.status === 'in_progress' || jobData.status === 'started'
+        ? getLateStartMinutes(jobData.scheduledDate, new Date())
+        : 0;
 
       let totalDuplicatesBlocked = 0;
       let totalSuccess = 0;
 
       // Send to each admin recipient
       for (const recipient of recipients) {
-        // Skip if recipient has disabled job updates
-        if (recipient.notificationPreferences?.jobUpdates === false) {
+        // Skip if recipient has turned job updates off
+        const delivery = await notificationPreferenceService.resolveDelivery(
+          recipient.id,
+          'job.status_updated',
+          jobData.priority,
+          new Date(),
+          recipient.notificationPreferences
+        );
+        if (!delivery.deliver) {
           continue;
         }
 
@@ -285,6 +417,28 @@ class UnifiedJobNotificationService {
           }
         };
 
+        // Non-urgent updates wait for the digest; so does anything over the rate limit
+        if (delivery.digest) {
+          if (await this.holdForDigest(recipient.id, notificationRequest, jobData.status, lateMinutes)) {
+            result.digested++;
+          }
+          continue;
+        }
+
+        const rateLimitResult = await notificationRateLimitingService.checkRateLimit(
+          recipient.id,
+          'job.status_updated',
+          jobData.priority
+        );
+        if (!rateLimitResult.allowed) {
+          if (await this.holdForDigest(recipient.id, notificationRequest, jobData.status, lateMinutes)) {
+            result.digested++;
+          } else {
+            result.errors.push(`Rate limited for ${recipient.name}: ${rateLimitResult.reason}`);
+          }
+          continue;
+        }
+
         // Check for duplicates
         const deduplicationResult = await enhancedNotificationDeduplicationService
           .shouldAllowNotification(notificationRequest);
@@ -298,21 +452,9 @@ class UnifiedJobNotificationService {
           result.eventId = deduplicationResult.event.id;
         }
 
-        // Send push notification
-        if (recipient.notificationPreferences?.pushEnabled !== false && recipient.fcmTokens?.length) {
-          try {
-            const pushResult = await this.sendPushNotification(recipient, notificationRequest);
-            if (pushResult.success) {
-              result.channelResults.push.success++;
-              totalSuccess++;
-            } else {
-              result.channelResults.push.failed++;
-              result.errors.push(`Push to ${recipient.name}: ${pushResult.error}`);
-            }
-          } catch (error) {
-            result.channelResults.push.failed++;
-            result.errors.push(`Push error for ${recipient.name}: ${error instanceof Error ? error.message : 'Unknown'}`);
-          }
+        // Send on the recipient's chosen channel
+        if (await this.sendOnChannel(delivery.channel, recipient, notificationRequest, result)) {
+          totalSuccess++;
         }
 
         // Send real-time notification
@@ -337,14 +479,15 @@ class UnifiedJobNotificationService {
       }
 
       result.duplicatesBlocked = totalDuplicatesBlocked;
-      result.success = totalSuccess > 0;
+      result.success = totalSuccess > 0 || result.digested > 0;
 
       console.log('✅ Job status update notification completed:', {
         jobId: jobData.jobId,
         status: jobData.status,
         success: result.success,
         recipients: result.recipientCount,
-        duplicatesBlocked: totalDuplicatesBlocked
+        duplicatesBlocked: totalDuplicatesBlocked,
+        digested: result.digested
       });
 
       return result;
@@ -357,6 +500,425 @@ class UnifiedJobNotificationService {
     }
   }
 
+  /**
+   * Tell admins and managers about a newly reported issue. Critical issues go
+   * out at once; the rest follow each recipient's digest preference.
+   */
+  async sendIssueReportedNotification(issue: Issue): Promise<NotificationResult> {
+    const result: NotificationResult = {
+      success: false,
+      eventId: '',
+      recipientCount: 0,
+      channelResults: {
+        push: { success: 0, failed: 0 },
+        sms: { success: 0, failed: 0 },
+        webhook: { success: 0, failed: 0 },
+        realtime: { success: 0, failed: 0 }
+      },
+      duplicatesBlocked: 0,
+      digested: 0,
+      errors: []
+    };
+
+    const priority = this.getIssuePriority(issue.severity);
+    const recipients = await this.getAdminRecipients();
+    result.recipientCount = recipients.length;
+
+    for (const recipient of recipients) {
+      const delivery = await notificationPreferenceService.resolveDelivery(
+        recipient.id,
+        'issue.reported',
+        priority,
+        new Date(),
+        recipient.notificationPreferences
+      );
+      if (!delivery.deliver) continue;
+
+      const notificationRequest: NotificationRequest = {
+        eventType: 'issue.reported',
+        entityId: issue.id,
+        recipientId: recipient.id,
+        content: {
+          title: `🚩 ${issue.severity === 'critical' ? 'Critical issue' : 'Issue reported'}`,
+          body: `${issue.title} at ${issue.propertyName || issue.propertyId}`,
+          data: {
+            issueId: issue.id,
+            jobId: issue.jobId,
+            severity: issue.severity,
+            deepLink: '/(modal)/issues'
+          }
+        },
+        source: 'unified_service',
+        priority,
+        metadata: {
+          issueCategory: issue.category,
+          propertyId: issue.propertyId
+        }
+      };
+
+      if (delivery.digest) {
+        if (await this.holdForDigest(recipient.id, notificationRequest)) {
+          result.digested++;
+        }
+        continue;
+      }
+
+      await this.sendOnChannel(delivery.channel, recipient, notificationRequest, result);
+    }
+
+    result.success = result.channelResults.push.success + result.channelResults.sms.success + result.digested > 0;
+    return result;
+  }
+
+  /**
+   * Send a recipient's digest summary on their job-updates channel
+   */
+  async sendDigestNotification(recipientId: string, digestId: string, summary: DigestSummary): Promise<NotificationResult> {
+    const result: NotificationResult = {
+      success: false,
+      eventId: digestId,
+      recipientCount: 0,
+      channelResults: {
+        push: { success: 0, failed: 0 },
+        sms: { success: 0, failed: 0 },
+        webhook: { success: 0, failed: 0 },
+        realtime: { success: 0, failed: 0 }
+      },
+      duplicatesBlocked: 0,
+      digested: 0,
+      errors: []
+    };
+
+    const recipient = await this.getStaffMember(recipientId);
+    if (!recipient) {
+      result.errors.push(`Staff member not found: ${recipientId}`);
+      return result;
+    }
+    result.recipientCount = 1;
+
+    const delivery = await notificationPreferenceService.resolveDelivery(
+      recipient.id,
+      DIGEST_EVENT_TYPE,
+      'normal',
+      new Date(),
+      recipient.notificationPreferences
+    );
+    if (!delivery.deliver) {
+      result.success = true;
+      return result;
+    }
+
+    // The in-app entry is written with the digest; this is the push or SMS
+    const sent = await this.sendOnChannel(delivery.channel, recipient, {
+      eventType: DIGEST_EVENT_TYPE,
+      entityId: digestId,
+      recipientId: recipient.id,
+      content: {
+        title: summary.title,
+        body: summary.body,
+        data: {
+          digestId,
+          deepLink: `/(modal)/notification-digest?digestId=${digestId}`
+        }
+      },
+      source: 'unified_service',
+      priority: 'normal'
+    }, result);
+    result.success = sent || delivery.channel === 'in_app';
+    return result;
+  }
+
+  /**
+   * Send one escalation step (reminder or alert) to its recipients
+   */
+  async sendEscalationNotification(
+    recipientIds: string[],
+    escalation: { jobId: string; key: string; title: string; body: string; priority: NotificationPriority }
+  ): Promise<NotificationResult> {
+    const result: NotificationResult = {
+      success: false,
+      eventId: escalation.key,
+      recipientCount: 0,
+      channelResults: {
+        push: { success: 0, failed: 0 },
+        sms: { success: 0, failed: 0 },
+        webhook: { success: 0, failed: 0 },
+        realtime: { success: 0, failed: 0 }
+      },
+      duplicatesBlocked: 0,
+      digested: 0,
+      errors: []
+    };
+
+    for (const recipientId of recipientIds) {
+      const recipient = await this.getStaffMember(recipientId);
+      if (!recipient) {
+        result.errors.push(`Staff member not found: ${recipientId}`);
+        continue;
+      }
+      result.recipientCount++;
+
+      const delivery = await notificationPreferenceService.resolveDelivery(
+        recipient.id,
+        'job.escalated',
+        escalation.priority,
+        new Date(),
+        recipient.notificationPreferences
+      );
+      if (!delivery.deliver) continue;
+
+      const notificationRequest: NotificationRequest = {
+        eventType: 'job.escalated',
+        entityId: escalation.key,
+        recipientId: recipient.id,
+        content: {
+          title: escalation.title,
+          body: escalation.body,
+          data: {
+            jobId: escalation.jobId,
+            deepLink: `/jobs/${escalation.jobId}`
+          }
+        },
+        source: 'unified_service',
+        priority: escalation.priority
+      };
+
+      if (await this.sendOnChannel(delivery.channel, recipient, notificationRequest, result)) {
+        result.success = true;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Push a new job thread message to everyone else in the thread. Messages
+   * are sent as high priority so they are never held for a digest
+   */
+  async sendJobMessageNotification(
+    recipientIds: string[],
+    message: { jobId: string; messageId: string; jobTitle: string; senderName: string; preview: string }
+  ): Promise<NotificationResult> {
+    const result: NotificationResult = {
+      success: false,
+      eventId: message.messageId,
+      recipientCount: 0,
+      channelResults: {
+        push: { success: 0, failed: 0 },
+        sms: { success: 0, failed: 0 },
+        webhook: { success: 0, failed: 0 },
+        realtime: { success: 0, failed: 0 }
+      },
+      duplicatesBlocked: 0,
+      digested: 0,
+      errors: []
+    };
+
+    for (const recipientId of recipientIds) {
+      const recipient = await this.getStaffMember(recipientId);
+      if (!recipient) {
+        result.errors.push(`Staff member not found: ${recipientId}`);
+        continue;
+      }
+      result.recipientCount++;
+
+      const delivery = await notificationPreferenceService.resolveDelivery(
+        recipient.id,
+        'job.message',
+        'high',
+        new Date(),
+        recipient.notificationPreferences
+      );
+      if (!delivery.deliver) continue;
+
+      const notificationRequest: NotificationRequest = {
+        eventType: 'job.message',
+        entityId: message.messageId,
+        recipientId: recipient.id,
+        content: {
+          title: `💬 ${message.senderName} · ${message.jobTitle}`,
+          body: message.preview,
+          data: {
+            jobId: message.jobId,
+            messageId: message.messageId,
+            deepLink: `/(modal)/job-thread?jobId=${message.jobId}`
+          }
+        },
+        source: 'unified_service',
+        priority: 'high'
+      };
+
+      if (await this.sendOnChannel(delivery.channel, recipient, notificationRequest, result)) {
+        result.success = true;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Push a team announcement. The in-app entry is written with the
+   * announcement; this is the push or SMS
+   */
+  async sendAnnouncementNotification(
+    recipientIds: string[],
+    announcement: {
+      announcementId: string;
+      title: string;
+      body: string;
+      priority: 'normal' | 'urgent';
+      requiresAck: boolean;
+      reminder?: boolean;
+    }
+  ): Promise<NotificationResult> {
+    const result: NotificationResult = {
+      success: false,
+      eventId: announcement.announcementId,
+      recipientCount: 0,
+      channelResults: {
+        push: { success: 0, failed: 0 },
+        sms: { success: 0, failed: 0 },
+        webhook: { success: 0, failed: 0 },
+        realtime: { success: 0, failed: 0 }
+      },
+      duplicatesBlocked: 0,
+      digested: 0,
+      errors: []
+    };
+
+    for (const recipientId of recipientIds) {
+      const recipient = await this.getStaffMember(recipientId);
+      if (!recipient) {
+        result.errors.push(`Staff member not found: ${recipientId}`);
+        continue;
+      }
+      result.recipientCount++;
+
+      const delivery = await notificationPreferenceService.resolveDelivery(
+        recipient.id,
+        'announcement.posted',
+        announcement.priority,
+        new Date(),
+        recipient.notificationPreferences
+      );
+      if (!delivery.deliver) continue;
+
+      const notificationRequest: NotificationRequest = {
+        eventType: 'announcement.posted',
+        entityId: announcement.announcementId,
+        recipientId: recipient.id,
+        content: {
+          title: `📢 ${announcement.reminder ? 'Reminder: ' : ''}${announcement.title}`,
+          body: announcement.requiresAck ? `${announcement.body} (please acknowledge)` : announcement.body,
+          data: {
+            announcementId: announcement.announcementId,
+            deepLink: '/(tabs)/notifications'
+          }
+        },
+        source: 'unified_service',
+        priority: announcement.priority
+      };
+
+      if (await this.sendOnChannel(delivery.channel, recipient, notificationRequest, result)) {
+        result.success = true;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Queue a notification for the recipient's next digest. Urgent notifications
+   * are never held back.
+   */
+  private async holdForDigest(
+    recipientId: string,
+    request: NotificationRequest,
+    status?: string,
+    lateMinutes?: number
+  ): Promise<boolean> {
+    if (request.priority === 'urgent') return false;
+
+    try {
+      await notificationDigestService.enqueue(recipientId, {
+        eventType: request.eventType,
+        entityId: request.entityId,
+        priority: request.priority,
+        title: request.content.title,
+        body: request.content.body,
+        ...(status && { status }),
+        ...(lateMinutes && { lateMinutes }),
+      });
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to hold notification for digest:', error);
+      return false;
+    }
+  }
+
+  private getIssuePriority(severity: Issue['severity']): NotificationPriority {
+    switch (severity) {
+      case 'critical': return 'urgent';
+      case 'high': return 'high';
+      case 'medium': return 'normal';
+      default: return 'low';
+    }
+  }
+
+  /**
+   * Deliver on a push or SMS channel; in-app notifications only go out in real time
+   */
+  private async sendOnChannel(
+    channel: NotificationChannel,
+    recipient: NotificationRecipient,
+    request: NotificationRequest,
+    result: NotificationResult
+  ): Promise<boolean> {
+    if (channel === 'in_app') return false;
+    if (channel === 'push' && !recipient.fcmTokens?.length) return false;
+
+    const channelResult = result.channelResults[channel];
+    try {
+      const sendResult = channel === 'push'
+        ? await this.sendPushNotification(recipient, request)
+        : await this.queueSmsNotification(recipient, request);
+      if (sendResult.success) {
+        channelResult.success++;
+        return true;
+      }
+      channelResult.failed++;
+      result.errors.push(`${channel} to ${recipient.name} failed: ${sendResult.error}`);
+    } catch (error) {
+      channelResult.failed++;
+      result.errors.push(`${channel} error for ${recipient.name}: ${error instanceof Error ? error.message : 'Unknown'}`);
+    }
+    return false;
+  }
+
+  /**
+   * SMS stand-in: queue the message in `sms_outbox` for a gateway to send
+   */
+  private async queueSmsNotification(
+    recipient: NotificationRecipient,
+    request: NotificationRequest
+  ): Promise<{ success: boolean; error?: string }> {
+    if (!recipient.phone) {
+      return { success: false, error: 'No phone number on file' };
+    }
+
+    const db = await getDb();
+    await addDoc(collection(db, 'sms_outbox'), {
+      recipientId: recipient.id,
+      phone: recipient.phone,
+      body: `${request.content.title}: ${request.content.body}`,
+      eventType: request.eventType,
+      entityId: request.entityId,
+      status: 'pending',
+      createdAt: serverTimestamp(),
+    });
+    return { success: true };
+  }
+
   /**
    * Send push notification to a recipient
    */
@@ -420,6 +982,7 @@ class UnifiedJobNotificationService {
         id: staffDoc.id,
         name: data.name || 'Unknown Staff',
         role: data.role || 'staff',
+        ...(data.phone && { phone: data.phone }),
         fcmTokens: data.fcmTokens || [],
         notificationPreferences: data.notificationPreferences || {
           pushEnabled: true,
@@ -456,6 +1019,7 @@ class UnifiedJobNotificationService {
           id: doc.id,
           name: data.name || 'Unknown Admin',
           role: data.role,
+          ...(data.phone && { phone: data.phone }),
           fcmTokens: data.fcmTokens || [],
           notificationPreferences: data.notificationPreferences || {
             pushEnabled: true,
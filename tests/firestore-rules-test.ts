@@ -0,0 +1,266 @@
+/**
+ * Firestore Rules Permission Test
+ * Runs every role against the deployed rules in the Firestore emulator and
+ * checks each decision matches PERMISSION_MATRIX in utils/permissions.ts,
+ * then walks a PIN session through the writes the staff app makes.
+ *
+ * Run with `npm run rules:test` (starts and stops the emulator).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { addDoc, collection, deleteDoc, doc, Firestore, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import type { PermissionAction, PermissionResource } from '../types/admin';
+import { APP_ROLES, AppRole, canOn } from '../utils/permissions';
+
+const TEAM = 'team-a';
+const OTHER_TEAM = 'team-b';
+const TEAMMATE = 'teammate';
+const OUTSIDER = 'outsider';
+
+interface Probe {
+  resource: PermissionResource;
+  action: PermissionAction;
+  // Whether the probe targets a record owned by someone; otherwise the owner is ignored
+  owned: boolean;
+  run: (db: Firestore, ownerId: string, uid: string) => Promise<unknown>;
+}
+
+const PROBES: Probe[] = [
+  { resource: 'bookings', action: 'read', owned: false, run: db => getDoc(doc(db, 'booking_approvals', 'approval')) },
+  { resource: 'bookings', action: 'write', owned: false, run: db => updateDoc(doc(db, 'pending_bookings', 'booking'), { note: 'x' }) },
+  { resource: 'bookings', action: 'approve', owned: false, run: db => setDoc(doc(db, 'booking_approvals', 'approval'), { approved: true }) },
+  { resource: 'payments', action: 'read', owned: false, run: db => getDoc(doc(db, 'financial_transactions', 'txn')) },
+  { resource: 'reports', action: 'read', owned: false, run: db => getDoc(doc(db, 'property_analytics', 'report')) },
+  { resource: 'inventory', action: 'approve', owned: false, run: db => setDoc(doc(db, 'inventory_items', 'towels'), { name: 'Towels' }) },
+  { resource: 'jobs', action: 'read', owned: true, run: (db, ownerId) => getDoc(doc(db, 'completed_jobs', `job-${ownerId}`)) },
+  { resource: 'jobs', action: 'read', owned: true, run: (db, ownerId) => getDoc(doc(db, 'jobs', `job-${ownerId}`)) },
+  {
+    resource: 'jobs',
+    action: 'write',
+    owned: true,
+    run: (db, ownerId) => updateDoc(doc(db, 'jobs', `job-${ownerId}`), { status: 'in_progress' }),
+  },
+  { resource: 'jobs', action: 'delete', owned: true, run: (db, ownerId) => deleteDoc(doc(db, 'jobs', `job-${ownerId}`)) },
+  {
+    resource: 'jobs',
+    action: 'approve',
+    owned: true,
+    run: (db, ownerId, uid) =>
+      setDoc(doc(db, 'job_reviews', `review-${ownerId}`), { staffId: ownerId, reviewerId: uid, outcome: 'verified' }),
+  },
+  { resource: 'issues', action: 'read', owned: true, run: (db, ownerId) => getDoc(doc(db, 'issues', `issue-${ownerId}`)) },
+  {
+    resource: 'issues',
+    action: 'approve',
+    owned: true,
+    run: (db, ownerId) => updateDoc(doc(db, 'issues', `issue-${ownerId}`), { status: 'triaged' }),
+  },
+  { resource: 'staff', action: 'read', owned: true, run: (db, ownerId) => getDoc(doc(db, 'staff', ownerId)) },
+];
+
+const userId = (role: AppRole) => `${role}-user`;
+
+async function seed(testEnv: RulesTestEnvironment) {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async context => {
+    const db = context.firestore();
+    const users: [string, string, string][] = [
+      ...APP_ROLES.map(role => [userId(role), role, TEAM] as [string, string, string]),
+      [TEAMMATE, 'cleaner', TEAM],
+      [OUTSIDER, 'cleaner', OTHER_TEAM],
+    ];
+
+    for (const [uid, role, teamId] of users) {
+      await setDoc(doc(db, 'users', uid), { role, teamId });
+      await setDoc(doc(db, 'staff', uid), { name: uid, role, status: 'active' });
+      await setDoc(doc(db, 'completed_jobs', `job-${uid}`), { completedBy: uid, status: 'completed' });
+      await setDoc(doc(db, 'jobs', `job-${uid}`), { assignedStaffId: uid, status: 'accepted' });
+      await setDoc(doc(db, 'issues', `issue-${uid}`), { reportedBy: uid, status: 'open' });
+    }
+
+    await setDoc(doc(db, 'booking_approvals', 'approval'), { approved: false });
+    await setDoc(doc(db, 'pending_bookings', 'booking'), { userId: 'guest' });
+    await setDoc(doc(db, 'financial_transactions', 'txn'), { amount: 100 });
+    await setDoc(doc(db, 'property_analytics', 'report'), { occupancy: 0.8 });
+  });
+}
+
+/**
+ * Check every role against every probe for its own, a teammate's and another team's record
+ */
+async function testRulesMatchMatrix(): Promise<boolean> {
+  console.log('🧪 Starting Firestore rules permission test...');
+
+  const testEnv = await initializeTestEnvironment({
+    projectId: 'demo-rules-test',
+    firestore: { rules: fs.readFileSync(path.join(__dirname, '..', 'firestore.rules'), 'utf8') },
+  });
+
+  let failures = 0;
+  try {
+    for (const role of APP_ROLES) {
+      console.log(`\n📋 Role: ${role}`);
+      const uid = userId(role);
+      const db = testEnv.authenticatedContext(uid).firestore() as unknown as Firestore;
+
+      for (const probe of PROBES) {
+        const owners = probe.owned ? [uid, TEAMMATE, OUTSIDER] : [''];
+
+        for (const ownerId of owners) {
+          // Writes change the seeded data, so every check starts from a clean copy
+          await seed(testEnv);
+
+          const expected = canOn(
+            { id: uid, role, teamId: TEAM },
+            probe.resource,
+            probe.action,
+            { ownerId, teamId: ownerId === OUTSIDER ? OTHER_TEAM : TEAM }
+          );
+          const label = `${probe.resource}:${probe.action}${ownerId ? ` (${ownerId === uid ? 'own' : ownerId})` : ''}`;
+
+          try {
+            await (expected ? assertSucceeds : assertFails)(probe.run(db, ownerId, uid));
+            console.log(`   ${label}: ✅ ${expected ? 'allowed' : 'denied'}`);
+          } catch (error: any) {
+            failures++;
+            console.log(`   ${label}: ❌ expected ${expected ? 'allowed' : 'denied'} - ${error.message}`);
+          }
+        }
+      }
+    }
+  } finally {
+    await testEnv.cleanup();
+  }
+
+  console.log(`\n🎯 Overall Result: ${failures === 0 ? '✅ PASS' : `❌ FAIL (${failures} mismatches)`}`);
+  return failures === 0;
+}
+
+// Staff profile ids are staff_accounts document ids; a PIN login signs in
+// with a custom token whose uid is that id (see lib/staffPinAdmin)
+const PIN_STAFF_ID = 'Kx3vQ9pLm2TnR7sWc4Bd';
+const OTHER_STAFF_ID = 'Hq8zN1yUe5VgJ6aFt0Lo';
+
+interface SessionCheck {
+  label: string;
+  expected: boolean;
+  run: (db: Firestore) => Promise<unknown>;
+}
+
+const PIN_SESSION_CHECKS: SessionCheck[] = [
+  { label: 'read own job', expected: true, run: db => getDoc(doc(db, 'jobs', 'assigned')) },
+  { label: 'start own job', expected: true, run: db => updateDoc(doc(db, 'jobs', 'assigned'), { status: 'in_progress' }) },
+  { label: 'read offered job', expected: true, run: db => getDoc(doc(db, 'jobs', 'offered')) },
+  {
+    label: 'accept offered job',
+    expected: true,
+    run: db => updateDoc(doc(db, 'jobs', 'offered'), { status: 'accepted', assignedStaffId: PIN_STAFF_ID, offerStaffIds: [] }),
+  },
+  { label: "read someone else's job", expected: false, run: db => getDoc(doc(db, 'jobs', 'other')) },
+  {
+    label: 'update own job assignment',
+    expected: true,
+    run: db => updateDoc(doc(db, 'job_assignments', 'assigned'), { status: 'in_progress' }),
+  },
+  {
+    label: 'log job event',
+    expected: true,
+    run: db => addDoc(collection(db, 'job_events'), { type: 'job_status_changed', jobId: 'assigned', staffId: PIN_STAFF_ID, source: 'mobile' }),
+  },
+  {
+    label: 'record geofence event',
+    expected: true,
+    run: db => setDoc(doc(db, 'job_geofence_events', `assigned_${PIN_STAFF_ID}_1`), {
+      jobId: 'assigned',
+      staffId: PIN_STAFF_ID,
+      type: 'enter',
+    }),
+  },
+  {
+    label: 'record location update',
+    expected: true,
+    run: db => addDoc(collection(db, 'location_updates'), { jobId: 'assigned', staffId: PIN_STAFF_ID }),
+  },
+  {
+    label: 'upload job photo',
+    expected: true,
+    run: db => addDoc(collection(db, 'job_photos'), { jobId: 'assigned', uploadedBy: PIN_STAFF_ID }),
+  },
+  { label: 'read own PIN hash', expected: false, run: db => getDoc(doc(db, 'staff_pins', PIN_STAFF_ID)) },
+  {
+    label: 'clear own lockout',
+    expected: false,
+    run: db => setDoc(doc(db, 'staff_pins', PIN_STAFF_ID), { pinLockout: null }, { merge: true }),
+  },
+];
+
+/**
+ * A cleaner signed in by PIN works their own and offered jobs, and can't
+ * touch PIN data
+ */
+async function testPINSession(): Promise<boolean> {
+  console.log('\n🧪 Starting PIN session test...');
+
+  const testEnv = await initializeTestEnvironment({
+    projectId: 'demo-rules-test',
+    firestore: { rules: fs.readFileSync(path.join(__dirname, '..', 'firestore.rules'), 'utf8') },
+  });
+
+  let failures = 0;
+  try {
+    const db = testEnv.authenticatedContext(PIN_STAFF_ID, { role: 'staff' }).firestore() as unknown as Firestore;
+
+    for (const check of PIN_SESSION_CHECKS) {
+      await testEnv.clearFirestore();
+      await testEnv.withSecurityRulesDisabled(async context => {
+        const seedDb = context.firestore();
+        // Written by the verify endpoint at login
+        await setDoc(doc(seedDb, 'users', PIN_STAFF_ID), { role: 'staff', staffProfileId: PIN_STAFF_ID });
+        await setDoc(doc(seedDb, 'staff_accounts', PIN_STAFF_ID), { name: 'Cleaner', role: 'staff', hasPIN: true });
+        await setDoc(doc(seedDb, 'staff_pins', PIN_STAFF_ID), { pinHash: '$2a$10$hash' });
+        await setDoc(doc(seedDb, 'jobs', 'assigned'), { assignedStaffId: PIN_STAFF_ID, status: 'accepted' });
+        await setDoc(doc(seedDb, 'jobs', 'offered'), {
+          assignedStaffId: null,
+          offerStaffIds: [PIN_STAFF_ID, OTHER_STAFF_ID],
+          status: 'offered',
+        });
+        await setDoc(doc(seedDb, 'jobs', 'other'), { assignedStaffId: OTHER_STAFF_ID, status: 'accepted' });
+        await setDoc(doc(seedDb, 'job_assignments', 'assigned'), { assignedStaffId: PIN_STAFF_ID, status: 'accepted' });
+      });
+
+      try {
+        await (check.expected ? assertSucceeds : assertFails)(check.run(db));
+        console.log(`   ${check.label}: ✅ ${check.expected ? 'allowed' : 'denied'}`);
+      } catch (error: any) {
+        failures++;
+        console.log(`   ${check.label}: ❌ expected ${check.expected ? 'allowed' : 'denied'} - ${error.message}`);
+      }
+    }
+  } finally {
+    await testEnv.cleanup();
+  }
+
+  console.log(`\n🎯 PIN session: ${failures === 0 ? '✅ PASS' : `❌ FAIL (${failures} mismatches)`}`);
+  return failures === 0;
+}
+
+// Auto-run when executed directly
+if (require.main === module) {
+  (async () => {
+    const matrixPassed = await testRulesMatchMatrix();
+    const sessionPassed = await testPINSession();
+    return matrixPassed && sessionPassed;
+  })()
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -10,9 +10,27 @@ export interface AdminUser {
   permissions: AdminPermission[];
 }
 
+export type PermissionResource =
+  | 'bookings'
+  | 'staff'
+  | 'tasks'
+  | 'properties'
+  | 'users'
+  | 'jobs'
+  | 'issues'
+  | 'inventory'
+  | 'reports'
+  | 'payments';
+
+export type PermissionAction = 'read' | 'write' | 'delete' | 'approve';
+
+// Which records a permission covers: everything, the holder's team, or only their own
+export type PermissionScope = 'all' | 'team' | 'own';
+
 export interface AdminPermission {
-  resource: 'bookings' | 'staff' | 'tasks' | 'properties' | 'users';
-  actions: ('read' | 'write' | 'delete' | 'approve')[];
+  resource: PermissionResource;
+  actions: PermissionAction[];
+  scope?: PermissionScope; // defaults to 'all'
 }
 
 export interface Booking {
@@ -0,0 +1,175 @@
+/**
+ * AI Provider Types
+ * The provider-neutral shape of a completion request, the structured context
+ * the offline stand-in builds its answers from, and the limits applied to
+ * every call (timeout, retries, cache and per-feature token budget)
+ */
+
+// What a request is for; budgets, caching and offline templates are keyed on it
+export type AIFeature =
+  | 'property_description'
+  | 'maintenance_suggestions'
+  | 'guest_response'
+  | 'pricing'
+  | 'task_suggestions'
+  | 'staff_audit'
+  | 'job_guidance'
+  | 'checklist'
+  | 'safety'
+  | 'photo_guidance'
+  | 'time_estimate'
+  | 'job_question'
+  | 'job_chat'
+  | 'scheduling';
+
+export type AIProviderId = 'openai' | 'local';
+
+export interface AIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Audit figures the offline stand-in scores from
+export interface AIAuditMetrics {
+  totalJobs: number;
+  completedJobs: number;
+  completedOnTime: number;
+  lateJobs: number;
+  declinedJobs: number;
+  missingProof: number;
+  reviewedJobs?: number;
+  reworkedJobs?: number;
+}
+
+// Facts about the job or staff member a request is about. Remote providers
+// only see the prompt; the offline stand-in fills its templates from these
+export interface AITemplateContext {
+  jobType?: string;
+  title?: string;
+  description?: string;
+  propertyName?: string;
+  priority?: string;
+  estimatedMinutes?: number;
+  question?: string;
+  staffName?: string;
+  audit?: AIAuditMetrics;
+  jobTypes?: string[];
+  knowledge?: AIKnowledgeSnippet[]; // property knowledge base matches, best first
+}
+
+export interface AIKnowledgeSnippet {
+  title: string;
+  body: string;
+  location?: string;
+}
+
+export interface AICompletionRequest {
+  feature: AIFeature;
+  messages: AIMessage[];
+  context?: AITemplateContext;
+  maxTokens?: number;
+  temperature?: number;
+  json?: boolean; // ask for a JSON object back
+  cache?: boolean; // defaults to true; off for chat, where answers should not repeat
+}
+
+export interface AICompletionResult {
+  success: boolean;
+  data?: string;
+  error?: string;
+  provider?: AIProviderId;
+  cached?: boolean;
+  tokensUsed?: number;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  isAvailable(): boolean;
+  complete(request: AICompletionRequest): Promise<AICompletionResult>;
+}
+
+// Settings for an OpenAI-compatible chat completions endpoint
+export interface AIProviderConfig {
+  baseUrl: string; // e.g. https://api.openai.com/v1 or a self-hosted server
+  apiKey?: string;
+  orgId?: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  timeoutMs: number;
+  retries: number;
+  cacheTtlMs: number;
+}
+
+// Tokens each feature may spend per day; features not listed are unlimited
+export type AITokenBudgets = Partial<Record<AIFeature, number>>;
+
+export interface AITokenUsage {
+  date: string; // YYYY-MM-DD the counts belong to
+  used: Partial<Record<AIFeature, number>>;
+}
+
+// Structured outputs: AI calls that return data declare one of these schemas
+export type AIOutputSchemaId = 'checklist' | 'staff_audit' | 'insight' | 'photo_guidance';
+
+export interface AIChecklistOutputItem {
+  task: string;
+  description?: string;
+  required: boolean;
+  estimatedMinutes?: number;
+}
+
+export interface AIChecklistOutput {
+  items: AIChecklistOutputItem[];
+}
+
+export interface AIAuditOutput {
+  trustScore: number;
+  qualityScore: number;
+  comment: string;
+  recommendations: string[];
+  flaggedIssues: string[];
+}
+
+export interface AIInsightOutput {
+  title: string;
+  description: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  recommendation: string;
+}
+
+export interface AIPhotoGuidanceOutput {
+  before: string[];
+  during: string[];
+  after: string[];
+  notes: string[];
+}
+
+export interface AIOutputTypes {
+  checklist: AIChecklistOutput;
+  staff_audit: AIAuditOutput;
+  insight: AIInsightOutput;
+  photo_guidance: AIPhotoGuidanceOutput;
+}
+
+// valid: matched first time; repaired: fixed up locally (JSON pulled out of
+// prose, types coerced, defaults filled); retried: the model's second answer
+// matched; fallback: both answers failed and the offline template was used;
+// invalid: nothing usable came back
+export type AIValidationStatus = 'valid' | 'repaired' | 'retried' | 'fallback' | 'invalid';
+
+export interface AIValidation {
+  schema: AIOutputSchemaId;
+  status: AIValidationStatus;
+  errors: string[]; // from the last failed check, empty when the first answer was valid
+  attempts: number; // model calls made, 0 when answered offline
+}
+
+export interface AIStructuredResult<T> {
+  success: boolean;
+  data?: T;
+  raw?: string;
+  error?: string;
+  provider?: AIProviderId;
+  validation: AIValidation;
+}
@@ -0,0 +1,78 @@
+/**
+ * Announcement Types
+ * Team-wide notices from the office, targeted by role, property or named
+ * staff, with per-recipient read and acknowledgement tracking
+ */
+
+export type AnnouncementAudienceType = 'all' | 'role' | 'property' | 'staff';
+
+export interface AnnouncementAudience {
+  type: AnnouncementAudienceType;
+  roles?: string[];
+  propertyIds?: string[];
+  staffIds?: string[];
+}
+
+// Urgent notices break through quiet hours for staff who allow it
+export type AnnouncementPriority = 'normal' | 'urgent';
+
+export interface AnnouncementRecipient {
+  id: string;
+  name: string;
+  role?: string;
+}
+
+export interface Announcement {
+  id: string;
+  title: string;
+  body: string;
+  audience: AnnouncementAudience;
+  audienceLabel: string; // "Cleaners", "Villa Sunset" or "3 staff"
+  priority: AnnouncementPriority;
+  requiresAck: boolean;
+  recipients: AnnouncementRecipient[];
+  recipientIds: string[];
+  readBy: Record<string, Date>;
+  acknowledgedBy: Record<string, Date>;
+  createdBy: string;
+  createdByName: string;
+  createdAt: Date;
+}
+
+export interface AnnouncementDraft {
+  title: string;
+  body: string;
+  audience: AnnouncementAudience;
+  priority: AnnouncementPriority;
+  requiresAck: boolean;
+}
+
+// A staff member as the audience picker sees them
+export interface AudienceStaff {
+  id: string;
+  name: string;
+  role?: string;
+  propertyIds: string[]; // properties they have recent or open jobs at
+}
+
+export type RecipientReadStatus = 'unread' | 'read' | 'acknowledged';
+
+export interface RecipientStatus {
+  recipient: AnnouncementRecipient;
+  status: RecipientReadStatus;
+  readAt?: Date;
+  acknowledgedAt?: Date;
+}
+
+export interface AnnouncementProgress {
+  total: number;
+  read: number; // includes acknowledged
+  acknowledged: number;
+  outstanding: number; // still to acknowledge, or to read when no acknowledgement is needed
+}
+
+// Links an in-app notification back to its announcement
+export interface AnnouncementReceiptRef {
+  announcementId: string;
+  staffId: string;
+}
@@ -0,0 +1,94 @@
+/**
+ * Availability Types
+ * Recurring working hours, date-specific exceptions, leave requests and
+ * planned shifts, and the per-day availability derived from them
+ */
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+// Local time of day, e.g. { start: '09:00', end: '17:30' }
+export interface WorkingHours {
+  start: string;
+  end: string;
+}
+
+// No entry, or an empty list, means the day is not worked
+export type WeeklyWorkingHours = Partial<Record<Weekday, WorkingHours[]>>;
+
+export type AvailabilityExceptionKind =
+  | 'day_off' // e.g. a public holiday
+  | 'sick'
+  | 'partial' // only the given hours are worked that day
+  | 'extra'; // the given hours are worked on top of the usual ones
+
+export interface AvailabilityException {
+  id: string;
+  staffId: string;
+  date: string; // YYYY-MM-DD
+  kind: AvailabilityExceptionKind;
+  hours?: WorkingHours[]; // for partial and extra
+  reason?: string;
+  createdBy: string;
+}
+
+export type LeaveType = 'annual' | 'sick' | 'personal' | 'unpaid';
+
+export type LeaveRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface LeaveRequest {
+  id: string;
+  staffId: string;
+  staffName?: string;
+  type: LeaveType;
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+  hours?: WorkingHours; // part of a single day; unset for whole days
+  reason?: string;
+  status: LeaveRequestStatus;
+  requestedAt: Date;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewNote?: string;
+}
+
+export interface Shift {
+  id: string;
+  staffId: string;
+  date: string; // YYYY-MM-DD
+  start: string;
+  end: string;
+  note?: string;
+  createdBy: string;
+}
+
+// Everything known about when one staff member works
+export interface StaffSchedule {
+  staffId: string;
+  weeklyHours?: WeeklyWorkingHours; // unset until configured
+  legacyDays?: Partial<Record<Weekday, boolean>>; // Staff.availability, used until hours are configured
+  exceptions: AvailabilityException[];
+  leave: LeaveRequest[]; // approved only
+  shifts: Shift[];
+}
+
+export type DayAvailabilityKind = 'hours' | 'shift' | 'partial' | 'off' | 'leave' | 'sick';
+
+// Minutes since local midnight
+export interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+export interface DayAvailability {
+  date: string;
+  kind: DayAvailabilityKind;
+  windows: TimeWindow[];
+  reason: string;
+}
+
+export type AvailabilityStatus = 'available' | 'partial' | 'unavailable';
+
+export interface AvailabilityCheck {
+  status: AvailabilityStatus;
+  reason: string;
+}
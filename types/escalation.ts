@@ -0,0 +1,72 @@
+/**
+ * Escalation Types
+ * Policies that watch jobs for stalls (not accepted, not started, overrunning,
+ * guest check-in at risk) and escalate through ordered steps
+ */
+
+import type { JobPriority } from './job';
+
+export type EscalationTrigger = 'not_accepted' | 'not_started' | 'overrunning' | 'checkin_at_risk';
+
+export type EscalationAction = 'remind_staff' | 'alert_supervisor' | 'alert_on_call_admin' | 'auto_reassign';
+
+// Empty or missing lists match everything
+export interface EscalationConditions {
+  priorities?: JobPriority[];
+  propertyIds?: string[];
+  jobTypes?: string[];
+}
+
+export interface EscalationStep {
+  id: string;
+  action: EscalationAction;
+  delayMinutes: number; // after the trigger fires
+  conditions?: EscalationConditions;
+}
+
+export interface EscalationPolicy {
+  id: string;
+  name: string;
+  trigger: EscalationTrigger;
+  // not_accepted: minutes after assignment; not_started: after the scheduled start;
+  // overrunning: beyond estimatedDuration; checkin_at_risk: buffer before guest check-in
+  thresholdMinutes: number;
+  conditions: EscalationConditions;
+  steps: EscalationStep[];
+  enabled: boolean;
+}
+
+// The job fields escalation policies look at
+export interface EscalationJob {
+  id: string;
+  title: string;
+  status: string;
+  priority: JobPriority;
+  jobType: string;
+  propertyId: string;
+  propertyName?: string;
+  assignedStaffId?: string;
+  assignedAt?: Date;
+  scheduledFor?: Date;
+  startedAt?: Date;
+  estimatedDuration: number; // minutes
+  guestCheckIn?: Date;
+}
+
+export interface EscalationAlert {
+  id: string;
+  jobId: string;
+  staffId?: string;
+  propertyId?: string;
+  policyId: string;
+  trigger: EscalationTrigger;
+  stepId: string;
+  action: EscalationAction;
+  message: string;
+  recipientIds: string[];
+  reassignedTo?: string;
+  sentAt: Date;
+  acknowledged: boolean;
+  acknowledgedBy?: string;
+  acknowledgedAt?: Date;
+}
@@ -0,0 +1,62 @@
+/**
+ * Geofence Types
+ * Enter/exit events around a job's property and the on-site time and
+ * suspicious patterns derived from them
+ */
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// One GPS fix fed into the geofence
+export interface GeofenceSample extends GeoPoint {
+  accuracy: number; // meters
+  timestamp: Date;
+  simulated?: boolean;
+}
+
+export type GeofenceEventType = 'enter' | 'exit';
+
+export interface GeofenceEvent {
+  id: string;
+  jobId: string;
+  staffId: string;
+  type: GeofenceEventType;
+  timestamp: Date;
+  coordinates: GeoPoint;
+  accuracy: number;
+  distanceMeters: number;
+  simulated?: boolean;
+}
+
+export interface GeofenceSettings {
+  radiusMeters: number; // inside once within this distance
+  exitBufferMeters: number; // extra distance before counting as left, absorbs GPS jitter
+  maxAccuracyMeters: number; // fixes less accurate than this never move the fence
+  minOnSiteRatio: number; // on-site time below this share of the estimate is flagged
+}
+
+export type SiteTimeFlagKind =
+  | 'low_accuracy_check_in'
+  | 'left_site_mid_job'
+  | 'completed_off_site'
+  | 'short_time_on_site';
+
+export interface SiteTimeFlag {
+  kind: SiteTimeFlagKind;
+  at: Date;
+  message: string;
+}
+
+export interface SiteTimeReport {
+  jobId: string;
+  staffId?: string;
+  startedAt: Date;
+  completedAt?: Date;
+  onSiteMinutes: number;
+  estimatedDuration: number; // minutes
+  onSiteRatio: number; // onSiteMinutes / estimatedDuration
+  events: GeofenceEvent[];
+  flags: SiteTimeFlag[];
+}
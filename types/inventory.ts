@@ -0,0 +1,85 @@
+/**
+ * Inventory Types
+ * Per-property stock of consumables (linens, toiletries, cleaning supplies)
+ * counted by staff and deducted as jobs are completed
+ */
+
+export type InventoryCategory =
+  | 'linen'
+  | 'toiletries'
+  | 'cleaning'
+  | 'kitchen'
+  | 'pool'
+  | 'maintenance'
+  | 'other';
+
+// Catalogue entry shared by every property
+export interface InventoryItem {
+  id: string;
+  name: string;
+  category: InventoryCategory;
+  unit: string; // "pcs", "rolls", "litres"
+  isActive: boolean;
+}
+
+// Stock of one item in one property's store room
+export interface PropertyStockLevel {
+  id: string; // `${propertyId}_${itemId}`
+  propertyId: string;
+  propertyName?: string;
+  itemId: string;
+  itemName: string;
+  category: InventoryCategory;
+  unit: string;
+  quantity: number;
+  parLevel: number; // restock when quantity falls below this
+  reorderQuantity?: number; // order in multiples of this (packs, bales)
+  lastCountedAt?: Date;
+  lastCountedBy?: string;
+  updatedAt?: Date;
+}
+
+// How much of each item a job type normally uses.
+// A rule with a propertyId overrides the default rule for that job type.
+export interface InventoryConsumptionRule {
+  id: string;
+  jobType: string;
+  propertyId?: string;
+  items: { itemId: string; quantity: number }[];
+}
+
+// What staff report from the completion wizard for one item
+export interface InventoryUsageEntry {
+  itemId: string;
+  used?: number;      // "towels used: 8"
+  remaining?: number; // "toilet rolls left: 4"
+}
+
+export type StockMovementReason = 'consumption' | 'count' | 'restock' | 'adjustment';
+
+export interface StockMovement {
+  id?: string;
+  propertyId: string;
+  itemId: string;
+  change: number;
+  quantityAfter: number;
+  reason: StockMovementReason;
+  jobId?: string;
+  staffId: string;
+  createdAt: Date;
+}
+
+export interface ShoppingListLine {
+  itemId: string;
+  itemName: string;
+  category: InventoryCategory;
+  unit: string;
+  totalQuantity: number;
+  properties: {
+    propertyId: string;
+    propertyName?: string;
+    quantity: number; // to buy for this property
+    onHand: number;
+    parLevel: number;
+  }[];
+}
@@ -0,0 +1,78 @@
+/**
+ * Issue Types
+ * Damage and defects raised by staff from any job, triaged by admins into
+ * follow-up maintenance jobs
+ */
+
+export type IssueSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type IssueCategory =
+  | 'plumbing'
+  | 'electrical'
+  | 'guest_damage'
+  | 'pest'
+  | 'appliance'
+  | 'structural'
+  | 'pool_garden'
+  | 'other';
+
+// open -> triaged (follow-up job created) -> resolved (job verified)
+// open -> dismissed (no action needed)
+export type IssueStatus = 'open' | 'triaged' | 'resolved' | 'dismissed';
+
+export interface Issue {
+  id: string;
+  propertyId: string;
+  propertyName?: string;
+
+  // Where it was raised
+  jobId: string;
+  reportedBy: string;
+  reportedByName?: string;
+
+  title: string;
+  description: string;
+  severity: IssueSeverity;
+  category: IssueCategory;
+  location: string; // "Master bathroom", "Pool deck"
+  photos: string[]; // download URLs
+  costEstimate?: number;
+
+  // Guest damage is claimed against the booking's deposit
+  bookingRef?: string;
+  guestName?: string;
+
+  status: IssueStatus;
+  followUpJobId?: string;
+  triagedBy?: string;
+  triagedAt?: Date;
+  resolvedAt?: Date;
+  dismissedReason?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type NewIssueInput = Pick<
+  Issue,
+  | 'propertyId'
+  | 'propertyName'
+  | 'jobId'
+  | 'reportedBy'
+  | 'reportedByName'
+  | 'title'
+  | 'description'
+  | 'severity'
+  | 'category'
+  | 'location'
+  | 'costEstimate'
+  | 'bookingRef'
+  | 'guestName'
+>;
+
+export interface IssueTriageOptions {
+  assignedStaffId?: string;
+  scheduledDate?: string; // YYYY-MM-DD
+  estimatedDuration?: number; // minutes
+  notes?: string;
+}
@@ -3,15 +3,24 @@
  * Defines all types related to job management, assignments, and completion
  */
 
+import type { JobStatusHistoryEntry } from '../utils/jobStateMachine';
+
+/**
+ * Canonical job status shared by every job collection.
+ * Legal transitions between statuses live in utils/jobStateMachine.ts
+ */
 export type JobStatus = 
   | 'pending'      // Job created, waiting for staff assignment
+  | 'offered'      // Job offered to staff, nobody holds it yet
   | 'assigned'     // Job assigned to staff, waiting for acceptance
   | 'accepted'     // Staff accepted the job
+  | 'rejected'     // Job rejected by staff
+  | 'reassigned'   // Job moved to a different staff member
+  | 'overdue'      // Job passed its scheduled time without being started
   | 'in_progress'  // Staff started working on the job
   | 'completed'    // Job completed by staff
   | 'verified'     // Job verified by manager/admin
-  | 'cancelled'    // Job cancelled
-  | 'rejected';    // Job rejected by staff
+  | 'cancelled';   // Job cancelled
 
 export type JobPriority = 'low' | 'medium' | 'high' | 'urgent';
 
@@ -108,6 +117,7 @@ export interface Job {
   checkInDate?: Date | string; // PRODUCTION: Guest check-in date
   checkOutDate?: Date | string; // PRODUCTION: Guest check-out date
   guestCount?: number; // PRODUCTION: Number of guests
+  guestName?: string;
   
   // Contacts
   contacts: JobContact[];
@@ -134,6 +144,14 @@ export interface Job {
   rejectedAt?: Date;
   cancellationReason?: string;
   cancelledAt?: Date;
+  statusHistory?: JobStatusHistoryEntry[];
+
+  // Manager review
+  photoRequirements?: CompletedPhotoRequirement[];
+  reworkCount?: number;
+  reworkItems?: ReworkItem[]; // what the last review sent back
+  reviewNotes?: string; // reviewer's notes on the last verification or rework
+  issuesReported?: ReportedJobIssue[];
   
   // Real-time tracking
   staffLocation?: {
@@ -279,6 +297,47 @@ export interface CompleteJobRequest {
   }[];
   actualCost?: number;
   materialsUsed?: string[];
+  photoRequirements?: CompletedPhotoRequirement[];
+}
+
+// Photo requirement as signed off in the completion wizard, with the photos taken for it
+export interface CompletedPhotoRequirement {
+  id: string;
+  type: string;
+  description: string;
+  isCompleted: boolean;
+  photoUrls: string[];
+}
+
+// Something a reviewer found wrong with a completed job
+export interface ReworkItem {
+  id: string;
+  description: string;
+  source: 'checklist' | 'requirement' | 'photo' | 'note';
+  sourceId?: string; // checklist item, requirement or photo requirement id
+}
+
+// A known problem at the property listed on the job for staff to check
+export interface ReportedJobIssue {
+  description: string;
+  severity?: string;
+  status?: string;
+  reportedBy?: string;
+}
+
+export type JobReviewOutcome = 'verified' | 'rework';
+
+export interface JobReview {
+  id: string;
+  jobId: string;
+  staffId: string;
+  reviewerId: string;
+  reviewerName?: string;
+  outcome: JobReviewOutcome;
+  failedItems: ReworkItem[];
+  notes: string;
+  reworkRound: number; // 0 for the first review
+  createdAt: Date;
 }
 
 export interface RejectJobRequest {
@@ -4,6 +4,8 @@
  */
 
 import { Timestamp } from 'firebase/firestore';
+import type { JobStatus } from './job';
+import type { JobStatusHistoryEntry } from '@/utils/jobStateMachine';
 
 // Base job assignment interface
 export interface JobAssignment {
@@ -51,6 +53,7 @@ export interface JobAssignment {
   completedAt?: Timestamp;
   actualDuration?: number;
   completionNotes?: string;
+  statusHistory?: JobStatusHistoryEntry[];
   
   // Requirements and checklist
   requirements: JobRequirement[];
@@ -95,16 +98,8 @@ export type JobType =
 // Job priorities
 export type JobPriority = 'low' | 'medium' | 'high' | 'urgent';
 
-// Job assignment status
-export type JobAssignmentStatus = 
-  | 'assigned'     // Assigned but not yet responded to
-  | 'accepted'     // Staff accepted the job
-  | 'rejected'     // Staff rejected the job
-  | 'in_progress'  // Job is being worked on
-  | 'completed'    // Job completed successfully
-  | 'cancelled'    // Job was cancelled
-  | 'overdue'      // Job passed due date without completion
-  | 'reassigned';  // Job was reassigned to different staff
+// Job assignment status - same canonical set as every other job collection
+export type JobAssignmentStatus = JobStatus;
 
 // Job requirements
 export interface JobRequirement {
@@ -191,6 +186,7 @@ export interface JobAssignmentRequest {
   scheduledFor: Date;
   dueDate?: Date;
   requirements: Omit<JobRequirement, 'id' | 'isCompleted' | 'completedAt'>[];
+  requiredSkills?: string[];
   location: JobAssignment['location'];
   bookingDetails?: JobAssignment['bookingDetails'];
   assignedBy: string;
@@ -293,6 +289,30 @@ export interface JobAssignmentValidation {
   conflictingJobs: string[];
 }
 
+// Staff recommendation (ranking candidates before a staff member is chosen)
+export type StaffRecommendationRequest = Omit<JobAssignmentRequest, 'staffId'>;
+
+export type StaffRecommendationFactorKey = 'skills' | 'availability' | 'workload' | 'distance' | 'quality';
+
+export interface StaffRecommendationFactor {
+  key: StaffRecommendationFactorKey;
+  label: string;
+  score: number; // 0-1
+  weight: number; // share of the total score, all weights add up to 100
+  points: number; // score * weight
+  reason: string;
+}
+
+export interface StaffRecommendation {
+  staffId: string;
+  staffName: string;
+  role: string;
+  score: number; // 0-100
+  factors: StaffRecommendationFactor[];
+  conflictingJobs: string[];
+  distanceKm?: number;
+}
+
 // Webhook payload for external integrations
 export interface JobAssignmentWebhook {
   event: 'job.assigned' | 'job.accepted' | 'job.rejected' | 'job.completed' | 'job.cancelled';
@@ -325,6 +345,8 @@ export interface JobStatusUpdateResponse {
   success: boolean;
   job?: JobAssignment;
   error?: string;
+  // The job state machine refused the transition; retrying will not help
+  rejected?: boolean;
   conflictResolution?: {
     serverVersion: number;
     clientVersion: number;
@@ -3,6 +3,8 @@
  * Based on the JobData interface from the technical specification
  */
 
+import type { JobStatus } from './job';
+
 export interface JobData {
   // Core Identifiers
   id: string;
@@ -61,11 +63,14 @@ export interface JobData {
   };
   
   // Job Status
-  status: 'pending' | 'assigned' | 'accepted' | 'declined' | 'in_progress' | 'completed' | 'cancelled';
+  // 'declined' is the legacy webapp name for 'rejected' (see normalizeJobStatus)
+  status: JobStatus | 'declined';
   statusHistory?: Array<{
     status: string;
+    previousStatus?: string;
     timestamp: string;
     updatedBy: string;
+    actor?: 'staff' | 'admin' | 'system';
     notes: string;
   }>;
   
@@ -104,6 +109,14 @@ export interface JobData {
   notificationId?: string;
   mobileNotificationPending?: boolean;
   lastNotificationAt?: string | Date | any; // Firebase Timestamp
+
+  // Generated jobs (turnoverJobService, maintenanceScheduleService, inventoryService, issueService)
+  generatedBy?: 'turnover_rules' | 'maintenance_schedule' | 'inventory_restock' | 'issue_triage';
+  turnoverKey?: string; // `${bookingId}_${ruleId}`
+  sameDayTurnover?: boolean; // gap between stays is shorter than the planned work
+  maintenanceScheduleId?: string;
+  maintenanceInstanceId?: string;
+  issueId?: string; // follow-up repair for a reported issue
 }
 
 export interface JobNotificationData {
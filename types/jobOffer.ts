@@ -0,0 +1,42 @@
+/**
+ * Job Offer Types
+ * A job is offered to one ranked candidate at a time with an expiry. Declines
+ * and expiries move it to the next candidate; once candidates run out it can be
+ * broadcast to a pool where the first staff member to accept wins.
+ */
+
+export type JobOfferMode = 'single' | 'broadcast';
+
+export type JobOfferOutcome =
+  | 'offered'
+  | 'accepted'
+  | 'declined'
+  | 'expired'
+  | 'withdrawn'; // another pool member accepted first
+
+export interface JobOffer {
+  id: string; // offer_<offeredAt ms>, unique across re-offer cycles
+  round: number;
+  mode: JobOfferMode;
+  staffIds: string[]; // one entry for single offers
+  offeredAt: Date;
+  expiresAt: Date;
+}
+
+// Appended to job.offerHistory, never rewritten
+export interface JobOfferHistoryEntry {
+  offerId: string;
+  mode: JobOfferMode;
+  staffId: string;
+  outcome: JobOfferOutcome;
+  at: Date;
+  reason?: string;
+}
+
+export interface JobOfferSettings {
+  offerMinutes: number; // how long each single offer stays open
+  candidateCount: number; // ranked candidates offered one after another
+  broadcastEnabled: boolean;
+  broadcastMinutes: number;
+  broadcastPoolSize: number;
+}
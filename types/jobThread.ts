@@ -0,0 +1,74 @@
+/**
+ * Job Thread Types
+ * The message thread on each job shared by the assigned staff, the dispatcher
+ * who assigned it and admins, with the FOA assistant as an optional member
+ */
+
+export type ThreadParticipantRole = 'staff' | 'dispatch' | 'admin' | 'foa';
+
+export interface ThreadParticipant {
+  id: string;
+  name: string;
+  role: ThreadParticipantRole;
+}
+
+export type ThreadAttachmentType = 'photo' | 'voice';
+
+export interface ThreadAttachment {
+  type: ThreadAttachmentType;
+  url: string;
+  durationSeconds?: number; // voice notes
+}
+
+// An attachment picked or recorded on the device, before upload
+export interface PendingThreadAttachment {
+  type: ThreadAttachmentType;
+  uri: string;
+  durationSeconds?: number;
+}
+
+export interface JobThreadMessage {
+  id: string;
+  jobId: string;
+  senderId: string;
+  senderName: string;
+  senderRole: ThreadParticipantRole;
+  text: string;
+  attachments: ThreadAttachment[];
+  createdAt: Date;
+}
+
+export interface ThreadPreview {
+  text: string;
+  senderName: string;
+  senderRole: ThreadParticipantRole;
+  createdAt: Date;
+}
+
+export type JobThreadStatus = 'open' | 'closed';
+
+export interface JobThread {
+  jobId: string; // also the document id
+  jobTitle: string;
+  propertyName?: string;
+  participants: ThreadParticipant[]; // people only; the FOA is switched on with foaEnabled
+  participantIds: string[];
+  dispatcherId?: string;
+  foaEnabled: boolean;
+  status: JobThreadStatus;
+  lastMessage?: ThreadPreview;
+  unread: Record<string, number>; // per participant, reset when they open the thread
+  lastReadAt: Record<string, Date>; // read receipts: everything up to this time has been seen
+  typing: Record<string, Date>; // when each participant last typed
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// What opening a job's thread for the first time needs to know
+export interface JobThreadSeed {
+  jobId: string;
+  jobTitle: string;
+  propertyName?: string;
+  assignedStaff?: { id: string; name: string };
+  dispatcher?: { id: string; name: string };
+}
@@ -0,0 +1,66 @@
+/**
+ * Property Knowledge Base Types
+ * Notes, house manuals, appliance details, captioned photos and past fixes
+ * kept per property, searched by the FOA job assistant and cited in its answers
+ */
+
+export type KnowledgeEntryKind = 'note' | 'manual' | 'appliance' | 'photo' | 'resolution';
+
+// admin: written in the editor; chat: a helpful FOA answer promoted by an
+// admin; issue: a resolved issue at the property, derived and read-only
+export type KnowledgeEntrySource = 'admin' | 'chat' | 'issue';
+
+export interface ApplianceInfo {
+  brand?: string;
+  model?: string;
+  serialNumber?: string;
+}
+
+export interface KnowledgeEntry {
+  id: string;
+  propertyId: string;
+  kind: KnowledgeEntryKind;
+  title: string; // "Pool pump breaker", "Master bathroom towels"
+  body: string;
+  location?: string; // "Utility room", "Pool deck"
+  tags: string[];
+  photoUrl?: string; // caption is the body
+  appliance?: ApplianceInfo;
+  source: KnowledgeEntrySource;
+  sourceRef?: string; // chat message or issue id
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type KnowledgeEntryInput = Pick<
+  KnowledgeEntry,
+  | 'propertyId'
+  | 'kind'
+  | 'title'
+  | 'body'
+  | 'location'
+  | 'tags'
+  | 'photoUrl'
+  | 'appliance'
+>;
+
+export interface KnowledgeMatch {
+  entry: KnowledgeEntry;
+  score: number;
+}
+
+// What a chat answer stores about each entry it drew on
+export interface KnowledgeCitation {
+  entryId: string;
+  title: string;
+  kind: KnowledgeEntryKind;
+  location?: string;
+}
+
+// Local copy for offline use, one per property
+export interface KnowledgeCache {
+  propertyId: string;
+  entries: KnowledgeEntry[];
+  cachedAt: number;
+}
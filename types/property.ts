@@ -121,6 +121,72 @@ export interface PropertyStats {
   }[];
 }
 
+// Recurring maintenance
+// Weekdays are 0 (Sunday) to 6 (Saturday), months 1 to 12
+export type MaintenanceRecurrence =
+  | { frequency: 'daily'; interval: number } // every N days
+  | { frequency: 'weekly'; interval?: number; byWeekday: number[] }
+  | { frequency: 'monthly'; interval?: number; byMonthDay: number } // clamped to the month's last day
+  | { frequency: 'seasonal'; months: number[]; byMonthDay?: number };
+
+export interface MaintenanceSchedule {
+  id: string;
+  propertyId: string;
+  title: string;
+  description?: string;
+  jobType: 'maintenance' | 'inspection' | 'cleaning';
+  priority: 'low' | 'medium' | 'high' | 'urgent';
+  estimatedDuration: number; // minutes
+  requiredSkills?: string[];
+
+  recurrence: MaintenanceRecurrence;
+  startDate: string; // YYYY-MM-DD
+  endDate?: string;
+  preferredStartTime: string; // HH:mm
+  horizonDays: number; // how far ahead jobs are created
+
+  // Occupied dates are moved to the next free day within maxShiftDays, else skipped
+  skipWhenOccupied: boolean;
+  maxShiftDays: number;
+
+  isActive: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type MaintenanceInstanceStatus =
+  | 'scheduled'        // job created, not done yet
+  | 'skipped_occupied' // no free day near the due date
+  | 'completed'
+  | 'missed'           // due date passed without the job being completed
+  | 'cancelled';
+
+// One occurrence of a schedule, kept as its compliance history
+export interface MaintenanceInstance {
+  id: string; // `${scheduleId}_${dueDate}`
+  scheduleId: string;
+  propertyId: string;
+  dueDate: string; // YYYY-MM-DD the recurrence asked for
+  scheduledDate: string | null; // date the job was planned for, after shifting
+  jobId: string | null;
+  status: MaintenanceInstanceStatus;
+  completedAt?: Date;
+  daysLate?: number;
+  notes?: string;
+}
+
+export interface MaintenanceCompliance {
+  total: number;
+  completed: number;
+  completedOnTime: number;
+  missed: number;
+  skipped: number;
+  upcoming: number;
+  complianceRate: number; // completed / (completed + missed), 0-100
+  lastCompletedAt?: Date;
+}
+
 // For map markers
 export interface PropertyMarker {
   id: string;
@@ -0,0 +1,131 @@
+/**
+ * Timesheet Types
+ * Worked time per staff member rebuilt from job sessions, the supervisor
+ * adjustments made on top of it, and the payroll produced for a pay period
+ */
+
+import type { JobType } from './jobAssignment';
+
+// Where an entry's worked time came from, best first
+export type TimesheetSource = 'session' | 'job' | 'estimate';
+
+// One job worked by one staff member
+export interface TimesheetWork {
+  jobId: string;
+  staffId: string;
+  jobType: JobType;
+  title?: string;
+  propertyName?: string;
+  startedAt: Date;
+  endedAt: Date;
+  source: TimesheetSource;
+  onSiteMinutes?: number; // from geofence events, when any were recorded
+}
+
+export interface TimesheetEntry extends TimesheetWork {
+  date: string; // YYYY-MM-DD, local time
+  workedMinutes: number;
+  travelMinutes: number; // gap since the previous job that day
+  adjustmentMinutes: number;
+}
+
+export interface TimesheetAdjustment {
+  id: string;
+  staffId: string;
+  periodId: string;
+  date: string;
+  jobId?: string; // unset for time not tied to a job, e.g. a supply run
+  minutes: number; // positive adds time, negative removes it
+  reason: string;
+  adjustedBy: string;
+  adjustedByName?: string;
+  adjustedAt: Date;
+}
+
+export interface TimesheetDay {
+  date: string;
+  entries: TimesheetEntry[];
+  adjustments: TimesheetAdjustment[];
+  workedMinutes: number;
+  travelMinutes: number;
+  adjustmentMinutes: number;
+  totalMinutes: number;
+}
+
+export type PayPeriodStatus = 'open' | 'approved' | 'locked';
+
+export interface PayPeriod {
+  id: string; // Monday of the week, YYYY-MM-DD
+  start: Date;
+  end: Date; // exclusive
+}
+
+export interface PayPeriodState {
+  staffId: string;
+  periodId: string;
+  status: PayPeriodStatus;
+  approvedBy?: string;
+  approvedAt?: Date;
+  lockedBy?: string;
+  lockedAt?: Date;
+}
+
+export interface WeeklyTimesheet {
+  staffId: string;
+  staffName?: string;
+  period: PayPeriod;
+  status: PayPeriodStatus;
+  days: TimesheetDay[];
+  workedMinutes: number;
+  travelMinutes: number;
+  adjustmentMinutes: number;
+  totalMinutes: number;
+}
+
+export type PayRateMode = 'hourly' | 'per_job';
+
+export interface PayRate {
+  mode: PayRateMode;
+  amount: number; // per hour, or per job
+}
+
+export interface PayrollSettings {
+  currency: string;
+  defaultHourlyRate: number;
+  rates: Partial<Record<JobType, PayRate>>;
+  travelPaid: boolean; // travel and untied adjustments are paid at the default rate
+  maxTravelGapMinutes: number; // longer gaps between jobs are a break, not travel
+  dailyOvertimeAfterMinutes: number;
+  weeklyOvertimeAfterMinutes: number;
+  overtimeMultiplier: number;
+}
+
+export interface PayrollLine {
+  jobType: JobType | 'travel' | 'adjustment';
+  mode: PayRateMode;
+  jobs: number;
+  minutes: number;
+  rate: number;
+  amount: number;
+}
+
+export interface PayrollRecord {
+  staffId: string;
+  staffName?: string;
+  periodId: string;
+  status: PayPeriodStatus;
+  hourlyMinutes: number;
+  overtimeMinutes: number;
+  lines: PayrollLine[];
+  overtimeAmount: number;
+  total: number;
+}
+
+export interface PayrollExport {
+  periodId: string;
+  periodStart: string;
+  periodEnd: string;
+  currency: string;
+  generatedAt: string;
+  records: PayrollRecord[];
+}
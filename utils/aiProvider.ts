@@ -0,0 +1,171 @@
+/**
+ * AI Provider Utilities
+ * Configuration, cache keys, retry timing and per-feature token budgets shared
+ * by every AI provider
+ */
+
+import type {
+  AICompletionRequest,
+  AIFeature,
+  AIProviderConfig,
+  AITokenBudgets,
+  AITokenUsage,
+} from '@/types/aiProvider';
+import { toDateKey } from '@/utils/maintenanceRecurrence';
+
+export const DEFAULT_AI_BASE_URL = 'https://api.openai.com/v1';
+
+export const DEFAULT_AI_CONFIG: AIProviderConfig = {
+  baseUrl: DEFAULT_AI_BASE_URL,
+  model: 'gpt-4o-mini',
+  maxTokens: 1000,
+  temperature: 0.7,
+  timeoutMs: 20000,
+  retries: 2,
+  cacheTtlMs: 10 * 60 * 1000,
+};
+
+// Daily tokens per feature. Chat and checklists run many times a day; audits
+// and pricing run weekly or on demand
+export const DEFAULT_AI_TOKEN_BUDGETS: AITokenBudgets = {
+  job_chat: 60000,
+  job_question: 40000,
+  checklist: 40000,
+  job_guidance: 40000,
+  safety: 20000,
+  photo_guidance: 20000,
+  time_estimate: 20000,
+  staff_audit: 80000,
+  maintenance_suggestions: 30000,
+  task_suggestions: 20000,
+  guest_response: 30000,
+  property_description: 20000,
+  pricing: 10000,
+  scheduling: 10000,
+};
+
+const toNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = value !== undefined && value !== '' ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+/**
+ * Build provider settings from EXPO_PUBLIC_* variables. The base URL can point
+ * at any OpenAI-compatible server; a trailing slash is dropped
+ */
+export const readAIConfig = (env: Record<string, string | undefined>): AIProviderConfig => ({
+  baseUrl: (env.EXPO_PUBLIC_AI_BASE_URL || DEFAULT_AI_BASE_URL).replace(/\/+$/, ''),
+  apiKey: env.EXPO_PUBLIC_AI_API_KEY || env.EXPO_PUBLIC_OPENAI_API_KEY || undefined,
+  orgId: env.EXPO_PUBLIC_OPENAI_ORG_ID || undefined,
+  model: env.EXPO_PUBLIC_AI_MODEL || env.EXPO_PUBLIC_OPENAI_MODEL || DEFAULT_AI_CONFIG.model,
+  maxTokens: toNumber(env.EXPO_PUBLIC_OPENAI_MAX_TOKENS, DEFAULT_AI_CONFIG.maxTokens),
+  temperature: toNumber(env.EXPO_PUBLIC_OPENAI_TEMPERATURE, DEFAULT_AI_CONFIG.temperature),
+  timeoutMs: toNumber(env.EXPO_PUBLIC_AI_TIMEOUT_MS, DEFAULT_AI_CONFIG.timeoutMs),
+  retries: Math.max(0, Math.floor(toNumber(env.EXPO_PUBLIC_AI_RETRIES, DEFAULT_AI_CONFIG.retries))),
+  cacheTtlMs: toNumber(env.EXPO_PUBLIC_AI_CACHE_TTL_MS, DEFAULT_AI_CONFIG.cacheTtlMs),
+});
+
+/**
+ * Read per-feature overrides such as "job_chat:20000,staff_audit:0" on top of
+ * the defaults
+ */
+export const parseTokenBudgets = (
+  value: string | undefined,
+  defaults: AITokenBudgets = DEFAULT_AI_TOKEN_BUDGETS
+): AITokenBudgets => {
+  const budgets: AITokenBudgets = { ...defaults };
+  if (!value) return budgets;
+
+  value.split(',').forEach(part => {
+    const [feature, limit] = part.split(':').map(piece => piece.trim());
+    const tokens = Number(limit);
+    if (feature && Number.isFinite(tokens) && tokens >= 0) {
+      budgets[feature as AIFeature] = Math.floor(tokens);
+    }
+  });
+  return budgets;
+};
+
+// Rough count for providers that do not report usage: about four characters a token
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const estimateRequestTokens = (request: AICompletionRequest, maxTokens: number): number =>
+  request.messages.reduce((sum, message) => sum + estimateTokens(message.content), 0)
+  + (request.maxTokens ?? maxTokens);
+
+// Short, stable hash so cache keys stay small however long the prompt is
+const hashString = (value: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+export const getCacheKey = (request: AICompletionRequest, model: string): string => {
+  const body = JSON.stringify([
+    model,
+    request.messages,
+    request.maxTokens ?? null,
+    request.temperature ?? null,
+    !!request.json,
+  ]);
+  return `${request.feature}:${hashString(body)}:${body.length}`;
+};
+
+// Roll usage over to a fresh day when the date changes
+export const getUsageForDay = (usage: AITokenUsage | undefined, now: Date): AITokenUsage => {
+  const date = toDateKey(now);
+  return usage && usage.date === date ? usage : { date, used: {} };
+};
+
+export const getRemainingTokens = (
+  usage: AITokenUsage,
+  budgets: AITokenBudgets,
+  feature: AIFeature
+): number => {
+  const budget = budgets[feature];
+  if (budget === undefined) return Infinity;
+  return Math.max(0, budget - (usage.used[feature] ?? 0));
+};
+
+export const hasBudgetFor = (
+  usage: AITokenUsage,
+  budgets: AITokenBudgets,
+  feature: AIFeature,
+  tokens: number
+): boolean => getRemainingTokens(usage, budgets, feature) >= tokens;
+
+export const recordTokenUsage = (
+  usage: AITokenUsage,
+  feature: AIFeature,
+  tokens: number
+): AITokenUsage => ({
+  ...usage,
+  used: { ...usage.used, [feature]: (usage.used[feature] ?? 0) + tokens },
+});
+
+// Rate limits and server errors are worth another try; bad requests are not
+export const isRetryableStatus = (status: number): boolean =>
+  status === 408 || status === 429 || status >= 500;
+
+// Exponential backoff: 500ms, 1s, 2s… capped at 8s
+export const getRetryDelay = (attempt: number): number =>
+  Math.min(500 * Math.pow(2, attempt), 8000);
+
+export default {
+  DEFAULT_AI_BASE_URL,
+  DEFAULT_AI_CONFIG,
+  DEFAULT_AI_TOKEN_BUDGETS,
+  readAIConfig,
+  parseTokenBudgets,
+  estimateTokens,
+  estimateRequestTokens,
+  getCacheKey,
+  getUsageForDay,
+  getRemainingTokens,
+  hasBudgetFor,
+  recordTokenUsage,
+  isRetryableStatus,
+  getRetryDelay,
+};
@@ -0,0 +1,176 @@
+/**
+ * AI Output Schemas
+ * JSON schemas for every AI call that returns data, and the validation and
+ * repair applied to each answer before the app uses it
+ */
+
+import Ajv from 'ajv';
+import type { ErrorObject, SchemaObject, ValidateFunction } from 'ajv';
+import type { AIOutputSchemaId, AIOutputTypes } from '@/types/aiProvider';
+
+const stringList = (maxItems: number): SchemaObject => ({
+  type: 'array',
+  items: { type: 'string', minLength: 1 },
+  maxItems,
+  default: [],
+});
+
+export const AI_OUTPUT_SCHEMAS: Record<AIOutputSchemaId, SchemaObject> = {
+  checklist: {
+    type: 'object',
+    properties: {
+      items: {
+        type: 'array',
+        minItems: 1,
+        maxItems: 30,
+        items: {
+          type: 'object',
+          properties: {
+            task: { type: 'string', minLength: 1 },
+            description: { type: 'string' },
+            required: { type: 'boolean', default: true },
+            estimatedMinutes: { type: 'integer', minimum: 1, maximum: 480 },
+          },
+          required: ['task'],
+        },
+      },
+    },
+    required: ['items'],
+  },
+  staff_audit: {
+    type: 'object',
+    properties: {
+      trustScore: { type: 'integer', minimum: 1, maximum: 100 },
+      qualityScore: { type: 'integer', minimum: 1, maximum: 100 },
+      comment: { type: 'string', minLength: 1 },
+      recommendations: stringList(5),
+      flaggedIssues: stringList(10),
+    },
+    required: ['trustScore', 'qualityScore', 'comment'],
+  },
+  insight: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', minLength: 1 },
+      description: { type: 'string', minLength: 1 },
+      severity: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+      recommendation: { type: 'string', minLength: 1 },
+    },
+    required: ['title', 'description', 'severity', 'recommendation'],
+  },
+  photo_guidance: {
+    type: 'object',
+    properties: {
+      before: { ...stringList(10), minItems: 1 },
+      during: stringList(10),
+      after: { ...stringList(10), minItems: 1 },
+      notes: stringList(10),
+    },
+    required: ['before', 'after'],
+  },
+};
+
+// Lists a bare array answer should be wrapped in, e.g. a checklist sent as [...]
+const ARRAY_WRAPPERS: Partial<Record<AIOutputSchemaId, string>> = {
+  checklist: 'items',
+};
+
+type Validators = Record<AIOutputSchemaId, ValidateFunction>;
+
+const compileAll = (ajv: Ajv): Validators => ({
+  checklist: ajv.compile(AI_OUTPUT_SCHEMAS.checklist),
+  staff_audit: ajv.compile(AI_OUTPUT_SCHEMAS.staff_audit),
+  insight: ajv.compile(AI_OUTPUT_SCHEMAS.insight),
+  photo_guidance: ajv.compile(AI_OUTPUT_SCHEMAS.photo_guidance),
+});
+
+// Missing optional lists are filled in either way; only the second pass
+// changes what the model sent
+const strictValidators = compileAll(new Ajv({ allErrors: true, useDefaults: true }));
+const repairValidators = compileAll(new Ajv({
+  allErrors: true,
+  useDefaults: true,
+  coerceTypes: 'array',
+  removeAdditional: 'all',
+}));
+
+export interface AIOutputCheck<K extends AIOutputSchemaId> {
+  status: 'valid' | 'repaired' | 'invalid';
+  data?: AIOutputTypes[K];
+  errors: string[];
+}
+
+export const formatSchemaErrors = (errors: ErrorObject[] | null | undefined): string[] =>
+  (errors ?? []).map(error => `${error.instancePath || '(root)'} ${error.message ?? 'is invalid'}`);
+
+/**
+ * Pull a JSON value out of a model answer: plain JSON, JSON in a code fence,
+ * or JSON with prose around it. Returns undefined when there is none
+ */
+export const extractJson = (raw: string): { value: unknown; extracted: boolean } | undefined => {
+  const text = raw.trim();
+  try {
+    return { value: JSON.parse(text), extracted: false };
+  } catch {
+    // fall through to the looser forms
+  }
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidates = fenced ? [fenced[1]] : [];
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (start >= 0 && end > start) candidates.push(text.slice(start, end + 1));
+
+  for (const candidate of candidates) {
+    try {
+      return { value: JSON.parse(candidate.trim()), extracted: true };
+    } catch {
+      // try the next candidate
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Check a model answer against its schema. Answers that only need mechanical
+ * fixes (JSON pulled out of prose, a bare list wrapped, "5" read as 5, unknown
+ * fields dropped) come back as repaired; anything else is invalid
+ */
+export const validateAIOutput = <K extends AIOutputSchemaId>(
+  schemaId: K,
+  raw: string
+): AIOutputCheck<K> => {
+  const parsed = extractJson(raw);
+  if (!parsed) {
+    return { status: 'invalid', errors: ['(root) is not JSON'] };
+  }
+
+  const strict = strictValidators[schemaId];
+  if (!parsed.extracted && strict(parsed.value)) {
+    return { status: 'valid', data: parsed.value as AIOutputTypes[K], errors: [] };
+  }
+  const strictErrors = parsed.extracted ? [] : formatSchemaErrors(strict.errors);
+
+  const wrapper = ARRAY_WRAPPERS[schemaId];
+  const candidate = wrapper && Array.isArray(parsed.value)
+    ? { [wrapper]: parsed.value }
+    : parsed.value;
+  const repair = repairValidators[schemaId];
+  if (repair(candidate)) {
+    return { status: 'repaired', data: candidate as AIOutputTypes[K], errors: strictErrors };
+  }
+
+  return { status: 'invalid', errors: formatSchemaErrors(repair.errors) };
+};
+
+// Instruction appended to the system message so the model knows the shape
+export const describeOutputSchema = (schemaId: AIOutputSchemaId): string =>
+  `Respond with only a JSON object matching this JSON schema, with no other text:\n${JSON.stringify(AI_OUTPUT_SCHEMAS[schemaId])}`;
+
+export default {
+  AI_OUTPUT_SCHEMAS,
+  formatSchemaErrors,
+  extractJson,
+  validateAIOutput,
+  describeOutputSchema,
+};
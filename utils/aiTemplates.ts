@@ -0,0 +1,327 @@
+/**
+ * AI Templates
+ * Rule-based answers used when no AI endpoint is configured, the device is
+ * offline or a feature's token budget is spent. Output is deterministic: the
+ * same context always produces the same text
+ */
+
+import type {
+  AIAuditMetrics,
+  AIAuditOutput,
+  AIChecklistOutput,
+  AIFeature,
+  AIInsightOutput,
+  AIPhotoGuidanceOutput,
+  AITemplateContext,
+} from '@/types/aiProvider';
+
+export type TemplateJobGroup = 'cleaning' | 'maintenance' | 'inspection' | 'general';
+
+export interface ChecklistTemplateStep {
+  task: string;
+  required: boolean;
+  minutes: number;
+}
+
+const JOB_GROUPS: Record<string, TemplateJobGroup> = {
+  cleaning: 'cleaning',
+  checkout: 'cleaning',
+  checkout_process: 'cleaning',
+  checkin_prep: 'cleaning',
+  turnover: 'cleaning',
+  maintenance: 'maintenance',
+  emergency: 'maintenance',
+  setup: 'maintenance',
+  plumbing: 'maintenance',
+  electrical: 'maintenance',
+  hvac: 'maintenance',
+  appliance: 'maintenance',
+  pool: 'maintenance',
+  landscaping: 'maintenance',
+  inspection: 'inspection',
+  security: 'inspection',
+};
+
+export const getJobGroup = (jobType: string | undefined): TemplateJobGroup =>
+  JOB_GROUPS[(jobType ?? '').toLowerCase()] ?? 'general';
+
+export const CHECKLIST_TEMPLATES: Record<TemplateJobGroup, ChecklistTemplateStep[]> = {
+  cleaning: [
+    { task: 'Check the booking notes and gather cleaning supplies', required: true, minutes: 5 },
+    { task: 'Take before photos of every room', required: true, minutes: 5 },
+    { task: 'Strip beds and start laundry', required: true, minutes: 10 },
+    { task: 'Clean and sanitise bathrooms', required: true, minutes: 25 },
+    { task: 'Clean the kitchen, appliances and dishes', required: true, minutes: 20 },
+    { task: 'Dust surfaces and vacuum or mop floors', required: true, minutes: 25 },
+    { task: 'Make beds and restock amenities', required: true, minutes: 15 },
+    { task: 'Empty all bins and replace liners', required: false, minutes: 5 },
+    { task: 'Take after photos and report any damage', required: true, minutes: 5 },
+  ],
+  maintenance: [
+    { task: 'Review the reported issue and gather tools and parts', required: true, minutes: 10 },
+    { task: 'Isolate power or water before starting work', required: true, minutes: 5 },
+    { task: 'Take before photos of the problem area', required: true, minutes: 5 },
+    { task: 'Repair or replace the faulty part', required: true, minutes: 30 },
+    { task: 'Test the fix and restore power or water', required: true, minutes: 10 },
+    { task: 'Clean up the work area', required: false, minutes: 10 },
+    { task: 'Take after photos and note any parts used', required: true, minutes: 5 },
+  ],
+  inspection: [
+    { task: 'Review the previous inspection and open issues', required: true, minutes: 5 },
+    { task: 'Walk through every room and outdoor area', required: true, minutes: 20 },
+    { task: 'Check smoke detectors, locks and safety equipment', required: true, minutes: 10 },
+    { task: 'Check appliances, taps and lighting work', required: true, minutes: 10 },
+    { task: 'Photograph anything damaged or missing', required: true, minutes: 10 },
+    { task: 'Note restocking needs', required: false, minutes: 5 },
+    { task: 'Report findings and raise issues for repairs', required: true, minutes: 5 },
+  ],
+  general: [
+    { task: 'Review job requirements and gather tools', required: true, minutes: 5 },
+    { task: 'Take before photos', required: true, minutes: 5 },
+    { task: 'Complete the work described in the job', required: true, minutes: 30 },
+    { task: 'Perform a quality check and clean up', required: true, minutes: 10 },
+    { task: 'Take after photos and note anything unusual', required: true, minutes: 5 },
+  ],
+};
+
+export const SAFETY_TIPS: Record<TemplateJobGroup, string[]> = {
+  cleaning: [
+    'Ensure proper ventilation when using chemicals',
+    'Wear gloves when handling cleaning products',
+    'Never mix bleach with other cleaning products',
+    'Be aware of wet floor hazards',
+  ],
+  maintenance: [
+    'Always turn off power before electrical work',
+    'Use proper ladder safety techniques',
+    'Wear appropriate protective equipment',
+    'Keep guests away from the work area',
+  ],
+  inspection: [
+    'Use proper lighting in dark areas',
+    'Be cautious of structural hazards',
+    'Do not touch exposed wiring or damaged fixtures',
+    'Report any safety concerns immediately',
+  ],
+  general: [
+    'Wear appropriate protective equipment',
+    'Keep walkways clear of tools and cables',
+    'Report any safety concerns immediately',
+  ],
+};
+
+export const PHOTO_GUIDANCE: AIPhotoGuidanceOutput = {
+  before: [
+    'Take wide before photos showing the whole area',
+    'Take close-ups of the specific problem or focus area',
+  ],
+  during: ['Photograph progress at each major step'],
+  after: ['Take matching after photos from the same angles'],
+  notes: ['Photograph any damage, missing items or safety issues separately'],
+};
+
+const PHOTO_GUIDANCE_STEPS = [
+  ...PHOTO_GUIDANCE.before,
+  ...PHOTO_GUIDANCE.during,
+  ...PHOTO_GUIDANCE.after,
+  ...PHOTO_GUIDANCE.notes,
+];
+
+export const getChecklistSteps = (context: AITemplateContext = {}): ChecklistTemplateStep[] =>
+  CHECKLIST_TEMPLATES[getJobGroup(context.jobType)];
+
+export const getSafetyTips = (jobType: string | undefined): string[] =>
+  SAFETY_TIPS[getJobGroup(jobType)];
+
+const numbered = (lines: string[]): string =>
+  lines.map((line, index) => `${index + 1}. ${line}`).join('\n');
+
+export const buildChecklist = (context: AITemplateContext = {}): AIChecklistOutput => ({
+  items: getChecklistSteps(context).map(step => ({
+    task: step.task,
+    required: step.required,
+    estimatedMinutes: step.minutes,
+  })),
+});
+
+// One numbered line per step, marked required or optional with its time
+export const buildChecklistText = (context: AITemplateContext = {}): string =>
+  numbered(getChecklistSteps(context).map(step =>
+    `${step.task} (${step.required ? 'required' : 'optional'}, ~${step.minutes} min)`
+  ));
+
+export const buildSafetyText = (context: AITemplateContext = {}): string =>
+  `Safety precautions for ${context.jobType ?? 'this'} work:\n${numbered(getSafetyTips(context.jobType))}`;
+
+const clampScore = (score: number): number => Math.max(1, Math.min(100, Math.round(score)));
+
+/**
+ * Score a staff member's week from the numbers alone. Trust falls with
+ * declined and late jobs; quality falls with missing photos and rework
+ */
+export const buildAuditAnalysis = (metrics: AIAuditMetrics, staffName: string = 'This staff member'): AIAuditOutput => {
+  const { totalJobs, completedJobs, completedOnTime, lateJobs, declinedJobs, missingProof } = metrics;
+  const reviewed = metrics.reviewedJobs ?? 0;
+  const reworked = metrics.reworkedJobs ?? 0;
+
+  if (totalJobs === 0) {
+    return {
+      trustScore: 75,
+      qualityScore: 75,
+      comment: `${staffName} had no jobs this week, so there is nothing to score.`,
+      recommendations: ['Check the staff member is being assigned work'],
+      flaggedIssues: [],
+    };
+  }
+
+  const onTimeRate = completedJobs > 0 ? completedOnTime / completedJobs : 0;
+  const declineRate = declinedJobs / totalJobs;
+  const proofRate = completedJobs > 0 ? 1 - missingProof / completedJobs : 1;
+  const reworkRate = reviewed > 0 ? reworked / reviewed : 0;
+
+  const trustScore = clampScore(100 * (0.6 * onTimeRate + 0.4 * (1 - declineRate)));
+  const qualityScore = clampScore(100 * (0.6 * proofRate + 0.4 * (1 - reworkRate)));
+
+  const recommendations: string[] = [];
+  const flaggedIssues: string[] = [];
+
+  if (lateJobs > 0) {
+    recommendations.push('Review time estimates with the staff member and plan travel between jobs');
+  }
+  if (declineRate > 0.2) {
+    recommendations.push('Talk through why jobs are being declined and adjust assignments');
+    flaggedIssues.push(`Declined ${declinedJobs} of ${totalJobs} jobs`);
+  }
+  if (missingProof > 0) {
+    recommendations.push('Remind the staff member to upload before and after photos for every job');
+    if (proofRate < 0.8) flaggedIssues.push(`${missingProof} completed jobs have no photos`);
+  }
+  if (reworkRate > 0.2) {
+    recommendations.push('Go over the quality standards for the jobs sent back');
+    flaggedIssues.push(`${reworked} of ${reviewed} reviewed jobs sent back for rework`);
+  }
+  if (recommendations.length === 0) {
+    recommendations.push('Continue current performance level');
+  }
+
+  const standing = trustScore >= 85 && qualityScore >= 85
+    ? 'performed strongly'
+    : trustScore >= 60 && qualityScore >= 60
+      ? 'performed within the expected range'
+      : 'fell below the expected standard';
+  const comment = `${staffName} ${standing} this week, completing ${completedJobs} of ${totalJobs} jobs `
+    + `with ${completedOnTime} on time. `
+    + (flaggedIssues.length > 0
+      ? 'Some issues need management attention.'
+      : 'No issues need management attention.');
+
+  return { trustScore, qualityScore, comment, recommendations, flaggedIssues };
+};
+
+// Answer a staff question by keyword; mirrors what a supervisor would say
+export const buildChatReply = (question: string, context: AITemplateContext = {}): string => {
+  const lower = question.toLowerCase();
+  const job = context.title ?? 'this job';
+  const jobType = context.jobType ?? 'this';
+
+  // A property note that matched the question beats generic advice
+  const [note] = context.knowledge ?? [];
+  if (note) {
+    return `${note.title}${note.location ? ` (${note.location})` : ''}: ${note.body} [1]`;
+  }
+  if (lower.includes('safety') || lower.includes('safe')) {
+    return `For ${jobType} work: ${getSafetyTips(context.jobType).slice(0, 3).join('. ')}. If unsure, contact your supervisor immediately.`;
+  }
+  if (lower.includes('checklist') || lower.includes('step')) {
+    const steps = getChecklistSteps(context).filter(step => step.required).map(step => step.task);
+    return `The usual steps for ${job} are:\n${numbered(steps)}`;
+  }
+  if (lower.includes('photo') || lower.includes('document')) {
+    return `Photo guide for ${job}:\n${numbered(PHOTO_GUIDANCE_STEPS)}`;
+  }
+  if (lower.includes('how long') || lower.includes('time')) {
+    const minutes = context.estimatedMinutes
+      ?? getChecklistSteps(context).reduce((sum, step) => sum + step.minutes, 0);
+    return `${job} is estimated at about ${minutes} minutes. Let your supervisor know if it will run over.`;
+  }
+  if (lower.includes('complete') || lower.includes('finish')) {
+    return `To complete ${job}, ensure all checklist items are marked as done and take required photos before marking the job as finished.`;
+  }
+  if (lower.includes('help') || lower.includes('how')) {
+    return `I understand you need help with ${job}. Please refer to your checklist items and safety protocols. If you need immediate assistance, contact your supervisor.`;
+  }
+  return `Thanks for your message about ${job}. I'm working offline right now, so please continue with your checklist and contact your supervisor if you need immediate assistance.`;
+};
+
+export const buildSchedulingInsight = (jobTypes: string[] = []): AIInsightOutput => {
+  const types = Array.from(new Set(jobTypes));
+  return {
+    title: 'AI Scheduling Recommendations',
+    description: types.length > 0
+      ? `Recent job types include ${types.join(', ')}.`
+      : 'No recent jobs to analyse.',
+    severity: 'low',
+    recommendation: types.length > 0
+      ? 'Group jobs of the same type by area to cut travel time.'
+      : 'Review scheduling again once jobs have been completed.',
+  };
+};
+
+/**
+ * The offline answer for a feature, or null for features that need a real
+ * model, such as guest replies and property descriptions
+ */
+export const buildTemplateResponse = (feature: AIFeature, context: AITemplateContext = {}): string | null => {
+  const job = context.title ?? 'this job';
+
+  switch (feature) {
+    case 'checklist':
+      return JSON.stringify(buildChecklist(context));
+    case 'safety':
+      return buildSafetyText(context);
+    case 'photo_guidance':
+      return JSON.stringify(PHOTO_GUIDANCE);
+    case 'job_guidance':
+    case 'maintenance_suggestions':
+      return `Preparation checklist:\n${buildChecklistText(context)}\n\n${buildSafetyText(context)}`;
+    case 'time_estimate': {
+      const steps = getChecklistSteps(context);
+      const minutes = context.estimatedMinutes ?? steps.reduce((sum, step) => sum + step.minutes, 0);
+      return `Estimated time for ${job}: about ${minutes} minutes.\n`
+        + numbered(steps.map(step => `${step.task}: ~${step.minutes} min`))
+        + '\nAllow 10–15 minutes of buffer for travel and unexpected issues.';
+    }
+    case 'job_question':
+    case 'job_chat':
+      return buildChatReply(context.question ?? '', context);
+    case 'staff_audit':
+      return JSON.stringify(buildAuditAnalysis(context.audit ?? {
+        totalJobs: 0,
+        completedJobs: 0,
+        completedOnTime: 0,
+        lateJobs: 0,
+        declinedJobs: 0,
+        missingProof: 0,
+      }, context.staffName));
+    case 'scheduling':
+      return JSON.stringify(buildSchedulingInsight(context.jobTypes));
+    default:
+      return null;
+  }
+};
+
+export default {
+  CHECKLIST_TEMPLATES,
+  SAFETY_TIPS,
+  PHOTO_GUIDANCE,
+  getJobGroup,
+  getChecklistSteps,
+  getSafetyTips,
+  buildChecklist,
+  buildChecklistText,
+  buildSafetyText,
+  buildAuditAnalysis,
+  buildSchedulingInsight,
+  buildChatReply,
+  buildTemplateResponse,
+};
@@ -0,0 +1,193 @@
+/**
+ * Announcement Utilities
+ * Audience resolution, read and acknowledgement progress, and pinning of
+ * announcements that still need acknowledging
+ */
+
+import type {
+  Announcement,
+  AnnouncementAudience,
+  AnnouncementDraft,
+  AnnouncementProgress,
+  AnnouncementRecipient,
+  AudienceStaff,
+  RecipientReadStatus,
+  RecipientStatus,
+} from '@/types/announcement';
+import { isTerminalJobStatus } from '@/utils/jobStateMachine';
+import { APP_ROLES, AppRole, normalizeRole } from '@/utils/permissions';
+
+export const ANNOUNCEMENT_ROLES: AppRole[] = APP_ROLES;
+
+export const ROLE_AUDIENCE_LABELS: Record<AppRole, string> = {
+  admin: 'Admins',
+  manager: 'Managers',
+  supervisor: 'Supervisors',
+  cleaner: 'Cleaners',
+  maintenance: 'Maintenance',
+  concierge: 'Concierges',
+};
+
+export const MAX_TITLE_LENGTH = 80;
+export const MAX_BODY_LENGTH = 1000;
+
+// A job this recent ties its staff to the property even once it is done
+export const RECENT_JOB_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AudienceJob {
+  propertyId?: string;
+  assignedStaffId?: string;
+  assignedTo?: string;
+  status?: string;
+  scheduledDate?: Date;
+}
+
+/**
+ * Which properties each staff member works at: any property where they hold
+ * an open job or had one in the last RECENT_JOB_DAYS
+ */
+export const getStaffPropertyIds = (jobs: AudienceJob[], now: Date = new Date()): Map<string, string[]> => {
+  const cutoff = now.getTime() - RECENT_JOB_DAYS * DAY_MS;
+  const byStaff = new Map<string, Set<string>>();
+
+  jobs.forEach(job => {
+    const staffId = job.assignedStaffId || job.assignedTo;
+    if (!staffId || !job.propertyId) return;
+    const recent = job.scheduledDate !== undefined && job.scheduledDate.getTime() >= cutoff;
+    if (isTerminalJobStatus(job.status) && !recent) return;
+
+    const properties = byStaff.get(staffId) || new Set<string>();
+    properties.add(job.propertyId);
+    byStaff.set(staffId, properties);
+  });
+
+  return new Map([...byStaff].map(([staffId, properties]) => [staffId, [...properties]]));
+};
+
+/**
+ * Everyone an announcement goes to, in name order
+ */
+export const resolveAudience = (audience: AnnouncementAudience, staff: AudienceStaff[]): AnnouncementRecipient[] => {
+  const matches = (member: AudienceStaff): boolean => {
+    switch (audience.type) {
+      case 'all':
+        return true;
+      case 'role': {
+        const role = normalizeRole(member.role);
+        return !!role && (audience.roles || []).includes(role);
+      }
+      case 'property':
+        return member.propertyIds.some(propertyId => (audience.propertyIds || []).includes(propertyId));
+      case 'staff':
+        return (audience.staffIds || []).includes(member.id);
+      default:
+        return false;
+    }
+  };
+
+  return staff
+    .filter(matches)
+    .map(member => ({ id: member.id, name: member.name, ...(member.role && { role: member.role }) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Short audience description for lists, e.g. "Cleaners, Maintenance" or
+ * "Villa Sunset"; property names come from `propertyNames`
+ */
+export const describeAudience = (
+  audience: AnnouncementAudience,
+  propertyNames: Record<string, string> = {}
+): string => {
+  switch (audience.type) {
+    case 'role':
+      return (audience.roles || [])
+        .map(role => ROLE_AUDIENCE_LABELS[role as AppRole] || role)
+        .join(', ');
+    case 'property': {
+      const ids = audience.propertyIds || [];
+      if (ids.length === 1) return propertyNames[ids[0]] || '1 property';
+      return `${ids.length} properties`;
+    }
+    case 'staff': {
+      const count = (audience.staffIds || []).length;
+      return `${count} staff`;
+    }
+    default:
+      return 'Everyone';
+  }
+};
+
+export const validateAnnouncement = (draft: AnnouncementDraft): string[] => {
+  const errors: string[] = [];
+  if (!draft.title.trim()) errors.push('Add a title');
+  if (draft.title.length > MAX_TITLE_LENGTH) errors.push(`Keep the title under ${MAX_TITLE_LENGTH} characters`);
+  if (!draft.body.trim()) errors.push('Write the announcement');
+  if (draft.body.length > MAX_BODY_LENGTH) errors.push(`Keep the announcement under ${MAX_BODY_LENGTH} characters`);
+
+  const { audience } = draft;
+  if (audience.type === 'role' && !audience.roles?.length) errors.push('Choose at least one role');
+  if (audience.type === 'property' && !audience.propertyIds?.length) errors.push('Choose at least one property');
+  if (audience.type === 'staff' && !audience.staffIds?.length) errors.push('Choose at least one staff member');
+  return errors;
+};
+
+const STATUS_ORDER: Record<RecipientReadStatus, number> = { unread: 0, read: 1, acknowledged: 2 };
+
+/**
+ * Where each recipient stands, those still outstanding first. Acknowledging
+ * counts as reading.
+ */
+export const getRecipientStatuses = (announcement: Announcement): RecipientStatus[] =>
+  announcement.recipients
+    .map(recipient => {
+      const readAt = announcement.readBy[recipient.id];
+      const acknowledgedAt = announcement.acknowledgedBy[recipient.id];
+      const status: RecipientReadStatus = acknowledgedAt ? 'acknowledged' : readAt ? 'read' : 'unread';
+      return {
+        recipient,
+        status,
+        ...(readAt && { readAt }),
+        ...(acknowledgedAt && { acknowledgedAt }),
+      };
+    })
+    .sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || a.recipient.name.localeCompare(b.recipient.name));
+
+export const getAnnouncementProgress = (announcement: Announcement): AnnouncementProgress => {
+  const statuses = getRecipientStatuses(announcement);
+  const acknowledged = statuses.filter(entry => entry.status === 'acknowledged').length;
+  const read = statuses.filter(entry => entry.status !== 'unread').length;
+  return {
+    total: statuses.length,
+    read,
+    acknowledged,
+    outstanding: statuses.length - (announcement.requiresAck ? acknowledged : read),
+  };
+};
+
+/**
+ * An announcement stays pinned in the notifications list until acknowledged
+ */
+export const isAwaitingAcknowledgement = (notification: { requiresAck?: boolean; acknowledgedAt?: Date }): boolean =>
+  !!notification.requiresAck && !notification.acknowledgedAt;
+
+export const sortPinnedFirst = <T extends { requiresAck?: boolean; acknowledgedAt?: Date; timestamp: Date }>(
+  notifications: T[]
+): T[] =>
+  [...notifications].sort((a, b) =>
+    Number(isAwaitingAcknowledgement(b)) - Number(isAwaitingAcknowledgement(a)) ||
+    b.timestamp.getTime() - a.timestamp.getTime()
+  );
+
+export default {
+  getStaffPropertyIds,
+  resolveAudience,
+  describeAudience,
+  validateAnnouncement,
+  getRecipientStatuses,
+  getAnnouncementProgress,
+  isAwaitingAcknowledgement,
+  sortPinnedFirst,
+};
@@ -0,0 +1,208 @@
+/**
+ * Staff Availability
+ * Works out when a staff member can work on a given day and whether a job
+ * fits into that time.
+ *
+ * For each day, in order: approved whole-day leave or a sick day / day off
+ * takes the day out; a partial-day exception replaces the usual hours;
+ * otherwise planned shifts, then the recurring weekly hours, then the old
+ * weekday booleans on the staff record decide. Extra hours are added on top
+ * and part-day leave is cut out of whatever is left.
+ */
+
+import type {
+  AvailabilityCheck,
+  DayAvailability,
+  LeaveRequest,
+  LeaveType,
+  StaffSchedule,
+  TimeWindow,
+  Weekday,
+  WorkingHours
+} from '@/types/availability';
+import { parseDateKey, toDateKey } from '@/utils/maintenanceRecurrence';
+
+export const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  annual: 'Annual leave',
+  sick: 'Sick leave',
+  personal: 'Personal leave',
+  unpaid: 'Unpaid leave',
+};
+
+const DAY_MINUTES = 24 * 60;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * 'HH:mm' as minutes since midnight, or null when malformed
+ */
+export const parseTime = (value: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (minutes > 59 || hours > 24 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+};
+
+export const formatTime = (minutes: number): string => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+export const formatWindows = (windows: TimeWindow[]): string =>
+  windows.map(window => `${formatTime(window.start)}–${formatTime(window.end)}`).join(', ');
+
+/**
+ * Hours typed as '09:00-12:00, 13:00-17:00'. Empty text is a day off; null
+ * means the text could not be read.
+ */
+export const parseWorkingHours = (text: string): WorkingHours[] | null => {
+  const parts = text.split(',').map(part => part.trim()).filter(Boolean);
+  const hours: WorkingHours[] = [];
+  for (const part of parts) {
+    const [start, end] = part.split('-').map(value => value.trim());
+    const startMinutes = start ? parseTime(start) : null;
+    const endMinutes = end ? parseTime(end) : null;
+    if (startMinutes === null || endMinutes === null || endMinutes <= startMinutes) return null;
+    hours.push({ start: formatTime(startMinutes), end: formatTime(endMinutes) });
+  }
+  return hours;
+};
+
+export const formatWorkingHours = (hours: WorkingHours[] | undefined): string =>
+  (hours || []).map(window => `${window.start}-${window.end}`).join(', ');
+
+/**
+ * Weekday of a YYYY-MM-DD date
+ */
+export const getWeekday = (date: string): Weekday => WEEKDAYS[(parseDateKey(date).getDay() + 6) % 7];
+
+export const leaveCoversDate = (leave: LeaveRequest, date: string): boolean =>
+  leave.startDate <= date && date <= leave.endDate;
+
+export const describeLeaveDates = (request: Pick<LeaveRequest, 'startDate' | 'endDate' | 'hours'>): string =>
+  request.hours
+    ? `${request.startDate}, ${request.hours.start}–${request.hours.end}`
+    : request.startDate === request.endDate
+      ? request.startDate
+      : `${request.startDate} → ${request.endDate}`;
+
+const toWindows = (hours: WorkingHours[] | undefined): TimeWindow[] =>
+  (hours || [])
+    .map(window => ({ start: parseTime(window.start), end: parseTime(window.end) }))
+    .filter((window): window is TimeWindow => window.start !== null && window.end !== null && window.end > window.start);
+
+/**
+ * Sorted windows with overlaps joined
+ */
+const mergeWindows = (windows: TimeWindow[]): TimeWindow[] =>
+  [...windows]
+    .sort((a, b) => a.start - b.start)
+    .reduce<TimeWindow[]>((merged, window) => {
+      const last = merged[merged.length - 1];
+      if (last && window.start <= last.end) {
+        last.end = Math.max(last.end, window.end);
+      } else {
+        merged.push({ ...window });
+      }
+      return merged;
+    }, []);
+
+const subtractWindow = (windows: TimeWindow[], cut: TimeWindow): TimeWindow[] =>
+  windows.flatMap(window => {
+    if (cut.end <= window.start || cut.start >= window.end) return [window];
+    return [
+      ...(cut.start > window.start ? [{ start: window.start, end: cut.start }] : []),
+      ...(cut.end < window.end ? [{ start: cut.end, end: window.end }] : []),
+    ];
+  });
+
+/**
+ * When the staff member can work on a date
+ */
+export const getDayAvailability = (schedule: StaffSchedule, date: string): DayAvailability => {
+  const weekday = getWeekday(date);
+  const leave = schedule.leave.filter(item => item.status === 'approved' && leaveCoversDate(item, date));
+  const wholeDayLeave = leave.find(item => !item.hours);
+  if (wholeDayLeave) {
+    return { date, kind: 'leave', windows: [], reason: `On ${LEAVE_TYPE_LABELS[wholeDayLeave.type].toLowerCase()}` };
+  }
+
+  const exceptions = schedule.exceptions.filter(exception => exception.date === date);
+  const closed = exceptions.find(exception => exception.kind === 'sick' || exception.kind === 'day_off');
+  if (closed) {
+    return closed.kind === 'sick'
+      ? { date, kind: 'sick', windows: [], reason: closed.reason || 'Off sick' }
+      : { date, kind: 'off', windows: [], reason: closed.reason || 'Day off' };
+  }
+
+  const partial = exceptions.find(exception => exception.kind === 'partial');
+  const shifts = schedule.shifts.filter(shift => shift.date === date);
+  let day: DayAvailability;
+
+  if (partial) {
+    day = { date, kind: 'partial', windows: toWindows(partial.hours), reason: partial.reason || 'Reduced hours' };
+  } else if (shifts.length > 0) {
+    day = { date, kind: 'shift', windows: toWindows(shifts), reason: 'Planned shift' };
+  } else if (schedule.weeklyHours) {
+    day = { date, kind: 'hours', windows: toWindows(schedule.weeklyHours[weekday]), reason: 'Working hours' };
+  } else {
+    const works = schedule.legacyDays?.[weekday] ?? true;
+    day = { date, kind: 'hours', windows: works ? [{ start: 0, end: DAY_MINUTES }] : [], reason: 'Working days' };
+  }
+
+  const extra = exceptions.filter(exception => exception.kind === 'extra').flatMap(exception => toWindows(exception.hours));
+  let windows = mergeWindows([...day.windows, ...extra]);
+
+  leave.forEach(item => {
+    toWindows(item.hours ? [item.hours] : []).forEach(cut => {
+      windows = subtractWindow(windows, cut);
+    });
+  });
+  if (leave.length > 0) {
+    day = { ...day, kind: 'partial', reason: `Part-day ${LEAVE_TYPE_LABELS[leave[0].type].toLowerCase()}` };
+  }
+
+  if (windows.length === 0 && day.kind === 'hours') {
+    return { date, kind: 'off', windows, reason: `Does not work on ${capitalize(weekday)}s` };
+  }
+  return { ...day, windows };
+};
+
+/**
+ * Whether a job of the given length starting at `start` fits the day
+ */
+export const checkAvailability = (
+  schedule: StaffSchedule,
+  start: Date,
+  durationMinutes: number
+): AvailabilityCheck => {
+  const day = getDayAvailability(schedule, toDateKey(start));
+  if (day.windows.length === 0) {
+    return { status: 'unavailable', reason: day.reason };
+  }
+
+  const jobStart = start.getHours() * 60 + start.getMinutes();
+  const jobEnd = Math.min(DAY_MINUTES, jobStart + Math.max(0, durationMinutes));
+  const fits = day.windows.some(window => window.start <= jobStart && jobEnd <= window.end);
+
+  return fits
+    ? { status: 'available', reason: day.kind === 'shift' ? 'On a planned shift' : 'Within working hours' }
+    : { status: 'partial', reason: `Outside working hours (${formatWindows(day.windows)})` };
+};
+
+export default {
+  WEEKDAYS,
+  parseTime,
+  formatTime,
+  formatWindows,
+  parseWorkingHours,
+  formatWorkingHours,
+  getWeekday,
+  leaveCoversDate,
+  describeLeaveDates,
+  getDayAvailability,
+  checkAvailability,
+};
@@ -0,0 +1,206 @@
+/**
+ * Conflict Merge
+ * Field-level three-way merge for offline sync conflicts on bookings,
+ * staff assignments and property status.
+ *
+ * The base is the last copy both sides agreed on (identified by its revision,
+ * i.e. JobAssignment.version / JobData.syncVersion). A field changed on only
+ * one side takes that side's value, a field changed the same way on both sides
+ * merges cleanly, and a field changed differently on both sides is left for a
+ * human to review.
+ */
+
+export type SyncEntityType = 'booking' | 'assignment' | 'property';
+
+export type FieldChoice = 'local' | 'remote';
+
+// How a single field came out of the merge
+export type FieldMergeStatus = 'unchanged' | 'local' | 'remote' | 'both' | 'review';
+
+export interface FieldDiff {
+  field: string;
+  base: any;
+  local: any;
+  remote: any;
+  status: FieldMergeStatus;
+}
+
+export interface MergeResult<T = Record<string, any>> {
+  merged: T;
+  // Fields taken from one side or combined automatically
+  autoMergedFields: string[];
+  // Fields both sides changed differently; `merged` holds the remote value until chosen
+  reviewFields: string[];
+  diffs: FieldDiff[];
+}
+
+// Bookkeeping fields that never take part in a merge
+const IGNORED_FIELDS = ['id', 'lastUpdated', 'syncStatus', 'version', 'syncVersion', 'updatedAt'];
+
+// Array fields merged as sets: additions and removals from both sides are kept
+const SET_FIELDS: Record<SyncEntityType, string[]> = {
+  booking: ['assignedStaff'],
+  assignment: ['photos'],
+  property: [],
+};
+
+/**
+ * Revision number of an entity snapshot, 0 when it has never been versioned
+ */
+export const getRevision = (data: any): number => {
+  if (!data) return 0;
+  const revision = data.version ?? data.syncVersion;
+  return typeof revision === 'number' ? revision : 0;
+};
+
+const isEqual = (a: any, b: any): boolean => {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return false;
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+// Same data apart from bookkeeping fields
+const isSameRecord = (a: Record<string, any>, b: Record<string, any>): boolean =>
+  [...new Set([...Object.keys(a), ...Object.keys(b)])]
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .every(field => isEqual(a[field], b[field]));
+
+/**
+ * Apply an edit made on this device. It takes the next revision, so a remote
+ * copy arriving before it syncs is recognised as diverged from the base.
+ */
+export const applyLocalEdit = <T extends Record<string, any>>(
+  current: T,
+  changes: Partial<T>,
+  now: number = Date.now()
+): T & { version: number; lastUpdated: number } => ({
+  ...current,
+  ...changes,
+  version: getRevision(current) + 1,
+  lastUpdated: now,
+});
+
+/**
+ * Whether both the local and remote copies changed since the base.
+ * A remote copy counts as changed when its revision moved past the base or,
+ * for writers that do not bump revisions, when it was updated after the base.
+ * Our own edit echoing back unchanged is not a divergence.
+ */
+export const hasDiverged = (local: any, remote: any, base: any): boolean => {
+  if (!local) return false;
+
+  if (base && (local.version !== undefined || remote.version !== undefined)) {
+    const baseRevision = getRevision(base);
+    const localChanged = getRevision(local) > baseRevision;
+    const remoteChanged = getRevision(remote) > baseRevision ||
+      (remote.lastUpdated ?? 0) > (base.lastUpdated ?? 0);
+    if (localChanged && getRevision(remote) === getRevision(local) && isSameRecord(local, remote)) {
+      return false;
+    }
+    return localChanged && remoteChanged;
+  }
+
+  return local.lastUpdated > remote.lastUpdated;
+};
+
+const mergeSets = (base: any[] = [], local: any[] = [], remote: any[] = []): any[] => {
+  const removed = new Set(
+    base.filter(item => !local.includes(item) || !remote.includes(item))
+  );
+  const result: any[] = [];
+  [...base, ...local, ...remote].forEach(item => {
+    if (!removed.has(item) && !result.includes(item)) {
+      result.push(item);
+    }
+  });
+  return result;
+};
+
+/**
+ * Three-way merge of two diverged copies of the same entity.
+ * Without a base every differing field is sent to review.
+ */
+export const mergeEntity = <T extends Record<string, any>>(
+  type: SyncEntityType,
+  base: T | null | undefined,
+  local: T,
+  remote: T
+): MergeResult<T> => {
+  const merged: Record<string, any> = { ...remote };
+  const autoMergedFields: string[] = [];
+  const reviewFields: string[] = [];
+  const diffs: FieldDiff[] = [];
+
+  const fields = new Set([...Object.keys(local), ...Object.keys(remote)]);
+
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.includes(field)) return;
+
+    const baseValue = base ? base[field] : undefined;
+    const localValue = local[field];
+    const remoteValue = remote[field];
+    let status: FieldMergeStatus;
+
+    if (isEqual(localValue, remoteValue)) {
+      status = base && !isEqual(localValue, baseValue) ? 'both' : 'unchanged';
+      merged[field] = localValue;
+    } else if (base && isEqual(localValue, baseValue)) {
+      status = 'remote';
+      merged[field] = remoteValue;
+    } else if (base && isEqual(remoteValue, baseValue)) {
+      status = 'local';
+      merged[field] = localValue;
+    } else if (
+      SET_FIELDS[type].includes(field) &&
+      (Array.isArray(localValue) || Array.isArray(remoteValue))
+    ) {
+      status = 'both';
+      merged[field] = mergeSets(baseValue, localValue, remoteValue);
+    } else {
+      status = 'review';
+      merged[field] = remoteValue;
+    }
+
+    if (status === 'review') {
+      reviewFields.push(field);
+    } else if (status !== 'unchanged') {
+      autoMergedFields.push(field);
+    }
+
+    diffs.push({ field, base: baseValue, local: localValue, remote: remoteValue, status });
+  });
+
+  return { merged: merged as T, autoMergedFields, reviewFields, diffs };
+};
+
+/**
+ * Settle the review fields of a merge with the reviewer's per-field choices.
+ * Throws if a review field has no choice.
+ */
+export const applyFieldChoices = <T extends Record<string, any>>(
+  result: MergeResult<T>,
+  local: T,
+  remote: T,
+  choices: Record<string, FieldChoice>
+): T => {
+  const missing = result.reviewFields.filter(field => !choices[field]);
+  if (missing.length > 0) {
+    throw new Error(`Choose local or remote for: ${missing.join(', ')}`);
+  }
+
+  const merged: Record<string, any> = { ...result.merged };
+  result.reviewFields.forEach(field => {
+    merged[field] = choices[field] === 'local' ? local[field] : remote[field];
+  });
+  return merged as T;
+};
+
+export default {
+  getRevision,
+  applyLocalEdit,
+  hasDiverged,
+  mergeEntity,
+  applyFieldChoices,
+};
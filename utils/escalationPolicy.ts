@@ -0,0 +1,228 @@
+/**
+ * Escalation Policy Engine
+ * Decides which escalation steps are due for a job right now.
+ *
+ * Each trigger has a start moment derived from the job (e.g. scheduled start
+ * plus the policy threshold). A step is due once its delay after that moment
+ * has passed. Every step firing gets a key built from the job, step and
+ * trigger start, so a reassigned or rescheduled job starts a fresh cycle while
+ * a repeated evaluation never fires the same step twice.
+ */
+
+import type {
+  EscalationConditions,
+  EscalationJob,
+  EscalationPolicy,
+  EscalationStep,
+  EscalationTrigger
+} from '@/types/escalation';
+
+export interface DueEscalationStep {
+  key: string;
+  policy: EscalationPolicy;
+  step: EscalationStep;
+  triggeredAt: Date;
+}
+
+export const ESCALATION_TRIGGERS: EscalationTrigger[] = ['not_accepted', 'not_started', 'overrunning', 'checkin_at_risk'];
+
+export const ESCALATION_TRIGGER_LABELS: Record<EscalationTrigger, string> = {
+  not_accepted: 'Not accepted',
+  not_started: 'Not started',
+  overrunning: 'Overrunning',
+  checkin_at_risk: 'Guest check-in at risk',
+};
+
+// Offered jobs time out through the offer workflow (utils/jobOffer) instead
+const AWAITING_ACCEPTANCE = ['assigned', 'reassigned'];
+const AWAITING_START = ['offered', 'assigned', 'reassigned', 'accepted', 'overdue'];
+const FINISHED = ['completed', 'verified', 'cancelled'];
+
+const MINUTE_MS = 60 * 1000;
+
+// Replaces the fixed 10 + 10 minute missed check-in timeline
+export const DEFAULT_ESCALATION_POLICIES: EscalationPolicy[] = [
+  {
+    id: 'default_not_accepted',
+    name: 'Job not accepted',
+    trigger: 'not_accepted',
+    thresholdMinutes: 30,
+    conditions: {},
+    steps: [
+      { id: 'remind', action: 'remind_staff', delayMinutes: 0 },
+      { id: 'supervisor', action: 'alert_supervisor', delayMinutes: 15 },
+      { id: 'reassign', action: 'auto_reassign', delayMinutes: 30, conditions: { priorities: ['high', 'urgent'] } },
+      { id: 'admin', action: 'alert_on_call_admin', delayMinutes: 30 },
+    ],
+    enabled: true,
+  },
+  {
+    id: 'default_not_started',
+    name: 'Missed check-in',
+    trigger: 'not_started',
+    thresholdMinutes: 10,
+    conditions: {},
+    steps: [
+      { id: 'remind', action: 'remind_staff', delayMinutes: 0 },
+      { id: 'supervisor', action: 'alert_supervisor', delayMinutes: 5 },
+      { id: 'admin', action: 'alert_on_call_admin', delayMinutes: 10 },
+    ],
+    enabled: true,
+  },
+  {
+    id: 'default_overrunning',
+    name: 'Job overrunning',
+    trigger: 'overrunning',
+    thresholdMinutes: 15,
+    conditions: {},
+    steps: [
+      { id: 'supervisor', action: 'alert_supervisor', delayMinutes: 0 },
+      { id: 'admin', action: 'alert_on_call_admin', delayMinutes: 30 },
+    ],
+    enabled: true,
+  },
+  {
+    id: 'default_checkin_at_risk',
+    name: 'Guest check-in at risk',
+    trigger: 'checkin_at_risk',
+    thresholdMinutes: 60,
+    conditions: {},
+    steps: [
+      { id: 'remind', action: 'remind_staff', delayMinutes: 0 },
+      { id: 'admin', action: 'alert_on_call_admin', delayMinutes: 0 },
+    ],
+    enabled: true,
+  },
+];
+
+const listMatches = <T>(values: T[] | undefined, value: T | undefined): boolean =>
+  !values || values.length === 0 || (value !== undefined && values.includes(value));
+
+export const conditionsMatch = (conditions: EscalationConditions | undefined, job: EscalationJob): boolean =>
+  listMatches(conditions?.priorities, job.priority) &&
+  listMatches(conditions?.propertyIds, job.propertyId) &&
+  listMatches(conditions?.jobTypes, job.jobType);
+
+const specificity = (conditions: EscalationConditions): number =>
+  [conditions.priorities, conditions.propertyIds, conditions.jobTypes].filter(list => list && list.length > 0).length;
+
+/**
+ * The enabled policy for a trigger that fits the job most narrowly.
+ * Ties go to the policy listed first.
+ */
+export const selectPolicy = (
+  policies: EscalationPolicy[],
+  trigger: EscalationTrigger,
+  job: EscalationJob
+): EscalationPolicy | null => {
+  let best: EscalationPolicy | null = null;
+  for (const policy of policies) {
+    if (!policy.enabled || policy.trigger !== trigger || !conditionsMatch(policy.conditions, job)) continue;
+    if (!best || specificity(policy.conditions) > specificity(best.conditions)) {
+      best = policy;
+    }
+  }
+  return best;
+};
+
+/**
+ * When the trigger fired for this job, or null if it does not apply (yet)
+ */
+export const getTriggerStart = (
+  trigger: EscalationTrigger,
+  thresholdMinutes: number,
+  job: EscalationJob,
+  now: Date
+): Date | null => {
+  const threshold = thresholdMinutes * MINUTE_MS;
+  let start: number | null = null;
+
+  switch (trigger) {
+    case 'not_accepted':
+      if (AWAITING_ACCEPTANCE.includes(job.status) && job.assignedAt) {
+        start = job.assignedAt.getTime() + threshold;
+      }
+      break;
+    case 'not_started':
+      if (AWAITING_START.includes(job.status) && job.scheduledFor) {
+        start = job.scheduledFor.getTime() + threshold;
+      }
+      break;
+    case 'overrunning':
+      if (job.status === 'in_progress' && job.startedAt) {
+        start = job.startedAt.getTime() + job.estimatedDuration * MINUTE_MS + threshold;
+      }
+      break;
+    case 'checkin_at_risk': {
+      if (!job.guestCheckIn || FINISHED.includes(job.status)) break;
+      // Latest start that still finishes the threshold ahead of check-in
+      const latestStart = job.guestCheckIn.getTime() - threshold - job.estimatedDuration * MINUTE_MS;
+      if (!job.startedAt || job.startedAt.getTime() > latestStart) {
+        start = latestStart;
+      }
+      break;
+    }
+  }
+
+  return start !== null && start <= now.getTime() ? new Date(start) : null;
+};
+
+const formatTime = (date: Date): string =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+/**
+ * One-line explanation used in reminders, alerts and the alert log
+ */
+export const describeEscalation = (trigger: EscalationTrigger, job: EscalationJob, triggeredAt: Date): string => {
+  const where = job.propertyName ? ` at ${job.propertyName}` : '';
+  switch (trigger) {
+    case 'not_accepted':
+      return `${job.title}${where} has not been accepted since ${job.assignedAt ? formatTime(job.assignedAt) : 'assignment'}`;
+    case 'not_started':
+      return `${job.title}${where} was due to start at ${job.scheduledFor ? formatTime(job.scheduledFor) : formatTime(triggeredAt)} and has not started`;
+    case 'overrunning':
+      return `${job.title}${where} is running past its ${job.estimatedDuration} min estimate`;
+    case 'checkin_at_risk':
+      return `${job.title}${where} may not be ready for guest check-in at ${job.guestCheckIn ? formatTime(job.guestCheckIn) : 'the scheduled time'}`;
+  }
+};
+
+export const getEscalationKey = (jobId: string, policy: EscalationPolicy, step: EscalationStep, triggeredAt: Date): string =>
+  `${jobId}_${policy.id}_${step.id}_${triggeredAt.getTime()}`;
+
+/**
+ * Every step due for the job at `now`, across all triggers. Callers skip keys
+ * they have already fired.
+ */
+export const getDueEscalationSteps = (
+  policies: EscalationPolicy[],
+  job: EscalationJob,
+  now: Date
+): DueEscalationStep[] => {
+  const due: DueEscalationStep[] = [];
+
+  ESCALATION_TRIGGERS.forEach(trigger => {
+    const policy = selectPolicy(policies, trigger, job);
+    if (!policy) return;
+
+    const triggeredAt = getTriggerStart(trigger, policy.thresholdMinutes, job, now);
+    if (!triggeredAt) return;
+
+    policy.steps.forEach(step => {
+      if (triggeredAt.getTime() + step.delayMinutes * MINUTE_MS > now.getTime()) return;
+      if (!conditionsMatch(step.conditions, job)) return;
+      due.push({ key: getEscalationKey(job.id, policy, step, triggeredAt), policy, step, triggeredAt });
+    });
+  });
+
+  return due;
+};
+
+export default {
+  DEFAULT_ESCALATION_POLICIES,
+  conditionsMatch,
+  selectPolicy,
+  getTriggerStart,
+  getDueEscalationSteps,
+  describeEscalation,
+};
@@ -0,0 +1,111 @@
+/**
+ * Firestore Rules Builder
+ * Renders PERMISSION_MATRIX as Firestore rules functions. The output is
+ * spliced into firestore.rules between the generated markers by
+ * `npm run rules:generate`; match blocks call the canXxx functions so the
+ * rules and the app answer permission questions the same way.
+ *
+ * Identity comes from users/{uid}: `role` (legacy names are normalized the
+ * same way as normalizeRole) and `teamId`. A record's team is its owner's team.
+ */
+
+import type { PermissionAction, PermissionResource } from '../types/admin';
+import {
+  APP_ROLES,
+  PERMISSION_ACTIONS,
+  PERMISSION_RESOURCES,
+  getPermissionScope,
+} from './permissions';
+
+export const GENERATED_RULES_START = '// BEGIN GENERATED PERMISSIONS';
+export const GENERATED_RULES_END = '// END GENERATED PERMISSIONS';
+
+const ROLE_ALIASES_RULE = "{'staff': 'cleaner', 'housekeeper': 'cleaner', 'inspector': 'supervisor'}";
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * e.g. ('approve', 'jobs') -> canApproveJobs
+ */
+export const ruleFunctionName = (action: PermissionAction, resource: PermissionResource): string =>
+  `can${capitalize(action)}${capitalize(resource)}`;
+
+/**
+ * role -> scope map literal for one resource/action, omitting roles without access
+ */
+const buildScopeMap = (resource: PermissionResource, action: PermissionAction): string => {
+  const entries = APP_ROLES.map(role => [role, getPermissionScope(role, resource, action)] as const)
+    .filter(([, scope]) => scope !== null)
+    .map(([role, scope]) => `'${role}': '${scope}'`);
+  return `{${entries.join(', ')}}`;
+};
+
+const HELPER_FUNCTIONS = [
+  'function profileOf(uid) {',
+  '  return uid is string && uid != "" && exists(/databases/$(database)/documents/users/$(uid)) ?',
+  '    get(/databases/$(database)/documents/users/$(uid)).data : {};',
+  '}',
+  '',
+  'function userRole() {',
+  "  let role = request.auth != null ? profileOf(request.auth.uid).get('role', '') : '';",
+  `  return ${ROLE_ALIASES_RULE}.get(role, role);`,
+  '}',
+  '',
+  'function teamOf(uid) {',
+  "  return profileOf(uid).get('teamId', '');",
+  '}',
+  '',
+  '// scope is all, team or own; anything else (no access) is denied',
+  'function inScope(scope, ownerId) {',
+  "  return scope == 'all' ||",
+  "    (scope == 'own' && ownerId == request.auth.uid) ||",
+  "    (scope == 'team' && (ownerId == request.auth.uid ||",
+  "      (teamOf(request.auth.uid) != '' && teamOf(ownerId) == teamOf(request.auth.uid))));",
+  '}',
+];
+
+/**
+ * The generated block, markers included, indented to sit inside
+ * `match /databases/{database}/documents`
+ */
+export const buildPermissionRules = (indent = '    '): string => {
+  const lines = [
+    GENERATED_RULES_START,
+    '// Do not edit by hand: change utils/permissions.ts and run `npm run rules:generate`',
+    ...HELPER_FUNCTIONS,
+  ];
+
+  PERMISSION_RESOURCES.forEach(resource => {
+    PERMISSION_ACTIONS.forEach(action => {
+      lines.push(
+        '',
+        `function ${ruleFunctionName(action, resource)}(ownerId) {`,
+        `  return request.auth != null && inScope(${buildScopeMap(resource, action)}.get(userRole(), 'none'), ownerId);`,
+        '}'
+      );
+    });
+  });
+
+  lines.push(GENERATED_RULES_END);
+  return lines.map(line => (line ? indent + line : line)).join('\n');
+};
+
+/**
+ * Swap the generated block in a rules file for a fresh one
+ */
+export const replaceGeneratedRules = (rules: string, block: string): string => {
+  const start = rules.indexOf(GENERATED_RULES_START);
+  const end = rules.indexOf(GENERATED_RULES_END);
+  if (start === -1 || end === -1 || end < start) {
+    throw new Error('Generated permission markers not found in rules file');
+  }
+
+  const lineStart = rules.lastIndexOf('\n', start) + 1;
+  return rules.slice(0, lineStart) + block + rules.slice(end + GENERATED_RULES_END.length);
+};
+
+export default {
+  ruleFunctionName,
+  buildPermissionRules,
+  replaceGeneratedRules,
+};
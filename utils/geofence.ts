@@ -0,0 +1,174 @@
+/**
+ * Geofence and Time-on-Site
+ * Turns GPS fixes into enter/exit events around a property and works out how
+ * long staff were actually on site during a job.
+ *
+ * Entering uses the fence radius while leaving needs the radius plus a buffer,
+ * so a fix wobbling on the boundary does not produce a stream of events. Fixes
+ * less accurate than the configured limit are ignored for transitions.
+ */
+
+import type {
+  GeoPoint,
+  GeofenceEvent,
+  GeofenceEventType,
+  GeofenceSample,
+  GeofenceSettings,
+  SiteTimeFlag
+} from '@/types/geofence';
+
+export const DEFAULT_GEOFENCE_SETTINGS: GeofenceSettings = {
+  radiusMeters: 75,
+  exitBufferMeters: 25,
+  maxAccuracyMeters: 50,
+  minOnSiteRatio: 0.5,
+};
+
+const MINUTE_MS = 60 * 1000;
+
+export const calculateDistanceMeters = (from: GeoPoint, to: GeoPoint): number => {
+  const R = 6371e3; // Earth's radius in meters
+  const φ1 = from.latitude * Math.PI / 180;
+  const φ2 = to.latitude * Math.PI / 180;
+  const Δφ = (to.latitude - from.latitude) * Math.PI / 180;
+  const Δλ = (to.longitude - from.longitude) * Math.PI / 180;
+
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+            Math.cos(φ1) * Math.cos(φ2) *
+            Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+export interface GeofenceEvaluation {
+  inside: boolean | null; // null until the first accurate fix
+  event: GeofenceEventType | null;
+  distanceMeters: number;
+}
+
+/**
+ * Apply one fix to the current fence state
+ */
+export const evaluateGeofence = (
+  wasInside: boolean | null,
+  sample: GeofenceSample,
+  center: GeoPoint,
+  settings: GeofenceSettings = DEFAULT_GEOFENCE_SETTINGS
+): GeofenceEvaluation => {
+  const distanceMeters = calculateDistanceMeters(sample, center);
+  if (sample.accuracy > settings.maxAccuracyMeters) {
+    return { inside: wasInside, event: null, distanceMeters };
+  }
+
+  const inside = wasInside
+    ? distanceMeters <= settings.radiusMeters + settings.exitBufferMeters
+    : distanceMeters <= settings.radiusMeters;
+
+  // The first accurate fix only reports an enter; starting outside is not an exit
+  const event = inside === wasInside ? null : inside ? 'enter' : wasInside === null ? null : 'exit';
+  return { inside, event, distanceMeters };
+};
+
+const sortByTime = (events: GeofenceEvent[]): GeofenceEvent[] =>
+  [...events].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+/**
+ * Whether staff were inside the fence at a moment, from the last event before it
+ */
+export const isInsideAt = (events: GeofenceEvent[], at: Date): boolean | null => {
+  const before = sortByTime(events).filter(event => event.timestamp.getTime() <= at.getTime());
+  return before.length > 0 ? before[before.length - 1].type === 'enter' : null;
+};
+
+/**
+ * Minutes spent inside the fence between `start` and `end`
+ */
+export const computeOnSiteMinutes = (events: GeofenceEvent[], start: Date, end: Date): number => {
+  let total = 0;
+  let enteredAt: number | null = isInsideAt(events, start) ? start.getTime() : null;
+
+  sortByTime(events)
+    .filter(event => event.timestamp.getTime() > start.getTime() && event.timestamp.getTime() <= end.getTime())
+    .forEach(event => {
+      if (event.type === 'enter' && enteredAt === null) {
+        enteredAt = event.timestamp.getTime();
+      } else if (event.type === 'exit' && enteredAt !== null) {
+        total += event.timestamp.getTime() - enteredAt;
+        enteredAt = null;
+      }
+    });
+
+  if (enteredAt !== null) total += end.getTime() - enteredAt;
+  return Math.round(total / MINUTE_MS);
+};
+
+const formatTime = (date: Date): string =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+export interface SiteTimeInput {
+  events: GeofenceEvent[];
+  startedAt: Date;
+  completedAt?: Date;
+  estimatedDuration: number; // minutes
+  checkInAccuracy?: number;
+  checkInAt?: Date;
+}
+
+/**
+ * Patterns an admin should look at: a vague check-in fix, leaving while the
+ * job was running, finishing away from the property or too little time on site
+ */
+export const detectSiteTimeFlags = (
+  input: SiteTimeInput,
+  onSiteMinutes: number,
+  settings: GeofenceSettings = DEFAULT_GEOFENCE_SETTINGS
+): SiteTimeFlag[] => {
+  const flags: SiteTimeFlag[] = [];
+  const end = input.completedAt ?? null;
+
+  if (input.checkInAccuracy !== undefined && input.checkInAccuracy > settings.maxAccuracyMeters) {
+    flags.push({
+      kind: 'low_accuracy_check_in',
+      at: input.checkInAt ?? input.startedAt,
+      message: `Checked in with ${Math.round(input.checkInAccuracy)} m accuracy (limit ${settings.maxAccuracyMeters} m)`,
+    });
+  }
+
+  sortByTime(input.events)
+    .filter(event => event.type === 'exit' &&
+      event.timestamp.getTime() > input.startedAt.getTime() &&
+      (!end || event.timestamp.getTime() < end.getTime()))
+    .forEach(event => {
+      flags.push({
+        kind: 'left_site_mid_job',
+        at: event.timestamp,
+        message: `Left site at ${formatTime(event.timestamp)} while the job was in progress`,
+      });
+    });
+
+  if (end && isInsideAt(input.events, end) === false) {
+    flags.push({
+      kind: 'completed_off_site',
+      at: end,
+      message: `Completed at ${formatTime(end)} while away from the property`,
+    });
+  }
+
+  if (end && input.estimatedDuration > 0 && onSiteMinutes < input.estimatedDuration * settings.minOnSiteRatio) {
+    flags.push({
+      kind: 'short_time_on_site',
+      at: end,
+      message: `${onSiteMinutes} min on site against a ${input.estimatedDuration} min estimate`,
+    });
+  }
+
+  return flags;
+};
+
+export default {
+  DEFAULT_GEOFENCE_SETTINGS,
+  calculateDistanceMeters,
+  evaluateGeofence,
+  isInsideAt,
+  computeOnSiteMinutes,
+  detectSiteTimeFlags,
+};
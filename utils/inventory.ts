@@ -0,0 +1,139 @@
+/**
+ * Inventory
+ * Stock arithmetic for property store rooms: consumption per job type,
+ * reconciling what staff report at job completion, par checks and the
+ * cross-property shopping list.
+ */
+
+import type {
+  InventoryConsumptionRule,
+  InventoryUsageEntry,
+  PropertyStockLevel,
+  ShoppingListLine,
+  StockMovementReason
+} from '@/types/inventory';
+
+export interface StockChange {
+  itemId: string;
+  quantityBefore: number;
+  quantityAfter: number;
+  change: number;
+  reason: Extract<StockMovementReason, 'consumption' | 'count'>;
+}
+
+/**
+ * Expected usage per item for a job type at a property.
+ * A property-specific rule replaces the default rule for the job type.
+ */
+export const getExpectedConsumption = (
+  jobType: string,
+  propertyId: string,
+  rules: InventoryConsumptionRule[]
+): Record<string, number> => {
+  const matching = rules.filter(rule => rule.jobType === jobType);
+  const rule = matching.find(r => r.propertyId === propertyId) ?? matching.find(r => !r.propertyId);
+
+  const consumption: Record<string, number> = {};
+  rule?.items.forEach(item => {
+    consumption[item.itemId] = (consumption[item.itemId] || 0) + item.quantity;
+  });
+  return consumption;
+};
+
+/**
+ * New stock levels after a completed job. A reported count wins, then a
+ * reported usage, then the job type's expected consumption.
+ */
+export const reconcileJobUsage = (
+  stock: Pick<PropertyStockLevel, 'itemId' | 'quantity'>[],
+  expected: Record<string, number>,
+  usage: InventoryUsageEntry[]
+): StockChange[] => {
+  const changes: StockChange[] = [];
+
+  stock.forEach(level => {
+    const reported = usage.find(entry => entry.itemId === level.itemId);
+    let quantityAfter: number;
+    let reason: StockChange['reason'] = 'consumption';
+
+    if (reported?.remaining !== undefined) {
+      quantityAfter = reported.remaining;
+      reason = 'count';
+    } else if (reported?.used !== undefined) {
+      quantityAfter = level.quantity - reported.used;
+    } else if (expected[level.itemId]) {
+      quantityAfter = level.quantity - expected[level.itemId];
+    } else {
+      return;
+    }
+
+    quantityAfter = Math.max(0, Math.round(quantityAfter));
+    if (quantityAfter === level.quantity && reason === 'consumption') return;
+
+    changes.push({
+      itemId: level.itemId,
+      quantityBefore: level.quantity,
+      quantityAfter,
+      change: quantityAfter - level.quantity,
+      reason,
+    });
+  });
+
+  return changes;
+};
+
+export const isBelowPar = (level: Pick<PropertyStockLevel, 'quantity' | 'parLevel'>): boolean =>
+  level.parLevel > 0 && level.quantity < level.parLevel;
+
+/**
+ * Quantity to buy to bring an item back to par, rounded up to whole packs
+ */
+export const getRestockQuantity = (
+  level: Pick<PropertyStockLevel, 'quantity' | 'parLevel' | 'reorderQuantity'>
+): number => {
+  const shortfall = level.parLevel - level.quantity;
+  if (shortfall <= 0) return 0;
+  const pack = level.reorderQuantity && level.reorderQuantity > 0 ? level.reorderQuantity : 1;
+  return Math.ceil(shortfall / pack) * pack;
+};
+
+/**
+ * Everything below par across all properties, grouped by item
+ */
+export const buildShoppingList = (levels: PropertyStockLevel[]): ShoppingListLine[] => {
+  const lines = new Map<string, ShoppingListLine>();
+
+  levels.filter(isBelowPar).forEach(level => {
+    const quantity = getRestockQuantity(level);
+    const line = lines.get(level.itemId) ?? {
+      itemId: level.itemId,
+      itemName: level.itemName,
+      category: level.category,
+      unit: level.unit,
+      totalQuantity: 0,
+      properties: [],
+    };
+
+    line.totalQuantity += quantity;
+    line.properties.push({
+      propertyId: level.propertyId,
+      propertyName: level.propertyName,
+      quantity,
+      onHand: level.quantity,
+      parLevel: level.parLevel,
+    });
+    lines.set(level.itemId, line);
+  });
+
+  return [...lines.values()].sort((a, b) =>
+    a.category.localeCompare(b.category) || a.itemName.localeCompare(b.itemName)
+  );
+};
+
+export default {
+  getExpectedConsumption,
+  reconcileJobUsage,
+  isBelowPar,
+  getRestockQuantity,
+  buildShoppingList,
+};
@@ -0,0 +1,136 @@
+/**
+ * Issue Triage
+ * Validation of staff-reported issues, the follow-up maintenance job an issue
+ * turns into, and how that job's status feeds back into the issue.
+ */
+
+import type { JobData } from '@/types/jobData';
+import type { Issue, IssueCategory, IssueSeverity, IssueStatus, IssueTriageOptions, NewIssueInput } from '@/types/issue';
+import { normalizeJobStatus } from '@/utils/jobStateMachine';
+
+export const ISSUE_CATEGORY_LABELS: Record<IssueCategory, string> = {
+  plumbing: 'Plumbing',
+  electrical: 'Electrical',
+  guest_damage: 'Guest Damage',
+  pest: 'Pest',
+  appliance: 'Appliance',
+  structural: 'Structural',
+  pool_garden: 'Pool & Garden',
+  other: 'Other',
+};
+
+const SEVERITY_RANK: Record<IssueSeverity, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+const SEVERITY_PRIORITY: Record<IssueSeverity, JobData['priority']> = {
+  critical: 'urgent',
+  high: 'high',
+  medium: 'medium',
+  low: 'low',
+};
+
+// Skills the follow-up job asks for, used by the staff recommendation engine
+const CATEGORY_SKILLS: Record<IssueCategory, string[]> = {
+  plumbing: ['plumbing'],
+  electrical: ['electrical'],
+  guest_damage: ['maintenance'],
+  pest: ['pest_control'],
+  appliance: ['maintenance'],
+  structural: ['maintenance'],
+  pool_garden: ['pool', 'gardening'],
+  other: ['maintenance'],
+};
+
+/**
+ * Problems with a new issue, empty when it can be saved
+ */
+export const validateIssueInput = (input: Partial<NewIssueInput>): string[] => {
+  const errors: string[] = [];
+  if (!input.propertyId) errors.push('Issue must belong to a property');
+  if (!input.jobId) errors.push('Issue must be raised from a job');
+  if (!input.title?.trim()) errors.push('Add a short title');
+  if (!input.location?.trim()) errors.push('Say where in the property the issue is');
+  if (input.costEstimate !== undefined && (isNaN(input.costEstimate) || input.costEstimate < 0)) {
+    errors.push('Cost estimate must be a positive number');
+  }
+  if (input.category === 'guest_damage' && !input.bookingRef) {
+    errors.push('Guest damage must be linked to a booking');
+  }
+  return errors;
+};
+
+export const getIssuePriority = (severity: IssueSeverity): JobData['priority'] =>
+  SEVERITY_PRIORITY[severity] || 'medium';
+
+/**
+ * The maintenance job an admin creates when triaging an issue
+ */
+export const buildFollowUpJob = (
+  issue: Issue,
+  options: IssueTriageOptions = {}
+): Omit<JobData, 'id' | 'createdAt' | 'updatedAt'> => {
+  const lines = [
+    issue.description,
+    `Location: ${issue.location}`,
+    issue.costEstimate !== undefined ? `Estimated cost: ${issue.costEstimate}` : undefined,
+    issue.bookingRef ? `Booking: ${issue.bookingRef}${issue.guestName ? ` (${issue.guestName})` : ''}` : undefined,
+    options.notes,
+  ];
+
+  return {
+    propertyId: issue.propertyId,
+    jobType: 'maintenance',
+    title: `${ISSUE_CATEGORY_LABELS[issue.category]}: ${issue.title}`,
+    description: lines.filter(Boolean).join('\n'),
+    priority: getIssuePriority(issue.severity),
+    estimatedDuration: options.estimatedDuration ?? 60,
+    requiredSkills: CATEGORY_SKILLS[issue.category],
+    ...(options.scheduledDate && { scheduledDate: options.scheduledDate }),
+    assignedStaffId: options.assignedStaffId || '',
+    userId: options.assignedStaffId || '',
+    status: options.assignedStaffId ? 'assigned' : 'pending',
+    generatedBy: 'issue_triage',
+    issueId: issue.id,
+    ...(issue.bookingRef && { bookingId: issue.bookingRef }),
+  };
+};
+
+/**
+ * Issue status implied by its follow-up job. Verification closes the issue;
+ * a cancelled job puts it back in the triage queue.
+ */
+export const getIssueStatusForJob = (jobStatus: string): IssueStatus => {
+  const status = normalizeJobStatus(jobStatus);
+  if (status === 'verified') return 'resolved';
+  if (status === 'cancelled') return 'open';
+  return 'triaged';
+};
+
+export const isIssueOpen = (issue: Pick<Issue, 'status'>): boolean =>
+  issue.status === 'open' || issue.status === 'triaged';
+
+export const sortIssuesBySeverity = <T extends Pick<Issue, 'severity' | 'createdAt'>>(issues: T[]): T[] =>
+  [...issues].sort((a, b) =>
+    SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+
+/**
+ * One-line summary for the property context shown to the next visitor
+ */
+export const describeIssue = (issue: Pick<Issue, 'title' | 'location' | 'severity' | 'status'>): string =>
+  `${issue.title} (${issue.location}) - ${issue.severity}${issue.status === 'triaged' ? ', repair scheduled' : ''}`;
+
+export default {
+  validateIssueInput,
+  getIssuePriority,
+  buildFollowUpJob,
+  getIssueStatusForJob,
+  isIssueOpen,
+  sortIssuesBySeverity,
+  describeIssue,
+};
@@ -0,0 +1,310 @@
+/**
+ * Itinerary Builder
+ * Orders a staff member's jobs for the day by travel distance between properties
+ * while respecting scheduled start times, estimated durations and guest check-in
+ * deadlines.
+ *
+ * Travel time is estimated locally (haversine distance, a detour factor and an
+ * average speed) so routes can be planned offline without a routing service.
+ */
+
+import type { Job } from '@/types/job';
+import type { JobData } from '@/types/jobData';
+import { DEFAULT_TURNOVER_RULES, toBookingDateTime } from '@/utils/turnoverRules';
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface ItineraryStop {
+  jobId: string;
+  title: string;
+  coordinates?: Coordinates | null;
+  earliestStart?: Date | null; // scheduled time, work never starts before it
+  latestFinish?: Date | null; // guest check-in or job deadline
+  estimatedDuration: number; // minutes
+  inProgress?: boolean; // already started, always stays first
+  startedAt?: Date | null;
+}
+
+export interface ItineraryConfig {
+  averageSpeedKmh: number;
+  // Straight-line distance is multiplied by this to approximate roads
+  detourFactor: number;
+  startTime: Date;
+  startLocation?: Coordinates | null;
+}
+
+export interface ItineraryLeg extends ItineraryStop {
+  order: number; // 1-based position in the route
+  distanceKm: number;
+  travelMinutes: number;
+  arrivalAt: Date;
+  startAt: Date;
+  finishAt: Date;
+  waitMinutes: number;
+  lateByMinutes: number;
+}
+
+export interface Itinerary {
+  legs: ItineraryLeg[];
+  totalDistanceKm: number;
+  totalTravelMinutes: number;
+  totalLateMinutes: number;
+  finishAt: Date;
+  lateJobIds: string[];
+}
+
+export interface ReorderSuggestion {
+  overrunJobId: string;
+  overrunMinutes: number;
+  current: Itinerary;
+  suggested: Itinerary;
+  travelMinutesSaved: number;
+  lateJobsAvoided: string[];
+}
+
+export const DEFAULT_ITINERARY_CONFIG: Omit<ItineraryConfig, 'startTime'> = {
+  averageSpeedKmh: 30,
+  detourFactor: 1.3,
+};
+
+// Up to this many stops every order is tried; above it a greedy heuristic is used
+const MAX_EXACT_STOPS = 7;
+
+// Being late for a check-in outweighs any amount of extra driving
+const LATE_MINUTE_PENALTY = 100;
+
+// Assumed extra time a job that has run over still needs
+const OVERRUN_BUFFER_MINUTES = 15;
+
+const MINUTE_MS = 60 * 1000;
+
+const toDate = (value: Date | string | null | undefined): Date | null => {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// A check-in with only a date means the property's usual check-in time that day, local time
+const toCheckInDate = (value: Date | string | null | undefined, checkInTime: string): Date | null =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())
+    ? toDate(toBookingDateTime(value.trim(), checkInTime))
+    : toDate(value);
+
+export const calculateDistanceKm = (from: Coordinates, to: Coordinates): number => {
+  const R = 6371; // Earth's radius in km
+  const φ1 = from.latitude * Math.PI/180;
+  const φ2 = to.latitude * Math.PI/180;
+  const Δφ = (to.latitude - from.latitude) * Math.PI/180;
+  const Δλ = (to.longitude - from.longitude) * Math.PI/180;
+
+  const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
+            Math.cos(φ1) * Math.cos(φ2) *
+            Math.sin(Δλ/2) * Math.sin(Δλ/2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+
+  return R * c;
+};
+
+/**
+ * Build an itinerary stop from either job shape used in the app.
+ * `checkInTime` (HH:mm) is the property's default check-in time, used when the
+ * guest check-in only has a date.
+ */
+export const toItineraryStop = (
+  job: Job | JobData,
+  checkInTime: string = DEFAULT_TURNOVER_RULES.checkInTime
+): ItineraryStop => {
+  if ('jobType' in job) {
+    const scheduled = job.scheduledDate && job.scheduledStartTime
+      ? toDate(`${job.scheduledDate}T${job.scheduledStartTime}`)
+      : toDate(job.scheduledDate);
+
+    return {
+      jobId: job.id,
+      title: job.title,
+      coordinates: job.propertyRef?.coordinates ?? job.location?.coordinates ?? null,
+      earliestStart: scheduled,
+      latestFinish: toCheckInDate(job.bookingRef?.checkInDate, checkInTime) ?? toDate(job.deadline),
+      estimatedDuration: job.estimatedDuration || 60,
+      inProgress: job.status === 'in_progress',
+    };
+  }
+
+  return {
+    jobId: job.id,
+    title: job.title,
+    coordinates: job.location?.coordinates ?? null,
+    earliestStart: toDate(job.scheduledDate),
+    latestFinish: toCheckInDate(job.checkInDate, checkInTime),
+    estimatedDuration: job.estimatedDuration || 60,
+    inProgress: job.status === 'in_progress',
+    startedAt: toDate(job.startedAt),
+  };
+};
+
+/**
+ * Simulate driving the stops in the given order
+ */
+export const evaluateRoute = (
+  stops: ItineraryStop[],
+  config: Partial<ItineraryConfig> = {}
+): Itinerary => {
+  const { averageSpeedKmh, detourFactor } = { ...DEFAULT_ITINERARY_CONFIG, ...config };
+  let clock = (config.startTime ?? new Date()).getTime();
+  let position = config.startLocation ?? null;
+
+  const legs: ItineraryLeg[] = stops.map((stop, index) => {
+    const distanceKm = position && stop.coordinates
+      ? calculateDistanceKm(position, stop.coordinates) * detourFactor
+      : 0;
+    const travelMinutes = Math.round((distanceKm / averageSpeedKmh) * 60);
+
+    const arrival = clock + travelMinutes * MINUTE_MS;
+    const start = Math.max(arrival, stop.earliestStart?.getTime() ?? arrival);
+    const finish = start + stop.estimatedDuration * MINUTE_MS;
+    const lateByMinutes = stop.latestFinish
+      ? Math.max(0, Math.round((finish - stop.latestFinish.getTime()) / MINUTE_MS))
+      : 0;
+
+    clock = finish;
+    position = stop.coordinates ?? position;
+
+    return {
+      ...stop,
+      order: index + 1,
+      distanceKm: Math.round(distanceKm * 10) / 10,
+      travelMinutes,
+      arrivalAt: new Date(arrival),
+      startAt: new Date(start),
+      finishAt: new Date(finish),
+      waitMinutes: Math.round((start - arrival) / MINUTE_MS),
+      lateByMinutes,
+    };
+  });
+
+  return {
+    legs,
+    totalDistanceKm: Math.round(legs.reduce((sum, leg) => sum + leg.distanceKm, 0) * 10) / 10,
+    totalTravelMinutes: legs.reduce((sum, leg) => sum + leg.travelMinutes, 0),
+    totalLateMinutes: legs.reduce((sum, leg) => sum + leg.lateByMinutes, 0),
+    finishAt: new Date(clock),
+    lateJobIds: legs.filter(leg => leg.lateByMinutes > 0).map(leg => leg.jobId),
+  };
+};
+
+const routeCost = (itinerary: Itinerary): number =>
+  itinerary.totalLateMinutes * LATE_MINUTE_PENALTY +
+  itinerary.totalTravelMinutes +
+  itinerary.legs.reduce((sum, leg) => sum + leg.waitMinutes, 0) / 100; // tie-break on less waiting
+
+const permutations = <T>(items: T[]): T[][] => {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, index) =>
+    permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest])
+  );
+};
+
+// Pick each next stop by the cost of the whole route with that stop placed next
+const greedyOrder = (stops: ItineraryStop[], config: Partial<ItineraryConfig>): ItineraryStop[] => {
+  const ordered: ItineraryStop[] = [];
+  const remaining = [...stops];
+
+  while (remaining.length > 0) {
+    let best = remaining[0];
+    let bestCost = Infinity;
+
+    remaining.forEach(candidate => {
+      const trial = evaluateRoute([...ordered, candidate, ...remaining.filter(s => s !== candidate)], config);
+      const cost = routeCost(trial);
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = candidate;
+      }
+    });
+
+    ordered.push(best);
+    remaining.splice(remaining.indexOf(best), 1);
+  }
+
+  return ordered;
+};
+
+/**
+ * Order stops to avoid late check-ins first and travel time second.
+ * A job already in progress always stays at the front.
+ */
+export const buildItinerary = (
+  stops: ItineraryStop[],
+  config: Partial<ItineraryConfig> = {}
+): Itinerary => {
+  const fixed = stops.filter(stop => stop.inProgress);
+  const open = stops.filter(stop => !stop.inProgress);
+
+  let bestOrder = open;
+  if (open.length <= MAX_EXACT_STOPS) {
+    let bestCost = Infinity;
+    permutations(open).forEach(order => {
+      const cost = routeCost(evaluateRoute([...fixed, ...order], config));
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestOrder = order;
+      }
+    });
+  } else {
+    bestOrder = greedyOrder(open, config);
+  }
+
+  return evaluateRoute([...fixed, ...bestOrder], config);
+};
+
+/**
+ * When the job in progress runs past its estimate, re-plan the rest of the day
+ * from its property and suggest the new order if it avoids late check-ins or
+ * saves travel. Returns null when the current order is still the best one.
+ */
+export const suggestReorderOnOverrun = (
+  stops: ItineraryStop[],
+  now: Date = new Date(),
+  config: Partial<ItineraryConfig> = {}
+): ReorderSuggestion | null => {
+  const running = stops.find(stop => stop.inProgress && stop.startedAt);
+  if (!running || !running.startedAt) return null;
+
+  const plannedFinish = running.startedAt.getTime() + running.estimatedDuration * MINUTE_MS;
+  const overrunMinutes = Math.round((now.getTime() - plannedFinish) / MINUTE_MS);
+  if (overrunMinutes <= 0) return null;
+
+  const remaining = stops.filter(stop => stop !== running);
+  if (remaining.length < 2) return null;
+
+  const replanConfig = {
+    ...config,
+    startTime: new Date(now.getTime() + OVERRUN_BUFFER_MINUTES * MINUTE_MS),
+    startLocation: running.coordinates ?? config.startLocation,
+  };
+  const current = evaluateRoute(remaining, replanConfig);
+  const suggested = buildItinerary(remaining, replanConfig);
+
+  const sameOrder = suggested.legs.every((leg, index) => leg.jobId === remaining[index].jobId);
+  if (sameOrder || routeCost(suggested) >= routeCost(current)) return null;
+
+  return {
+    overrunJobId: running.jobId,
+    overrunMinutes,
+    current,
+    suggested,
+    travelMinutesSaved: current.totalTravelMinutes - suggested.totalTravelMinutes,
+    lateJobsAvoided: current.lateJobIds.filter(id => !suggested.lateJobIds.includes(id)),
+  };
+};
+
+export default {
+  buildItinerary,
+  evaluateRoute,
+  suggestReorderOnOverrun,
+  toItineraryStop,
+  calculateDistanceKm,
+};
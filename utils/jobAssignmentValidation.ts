@@ -14,6 +14,7 @@ import {
   limit as firestoreLimit 
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { availabilityService } from '@/services/availabilityService';
 import type { 
   JobAssignmentRequest, 
   JobAssignmentValidation, 
@@ -281,6 +282,19 @@ export class JobAssignmentValidator {
   ): Promise<void> {
     try {
       const scheduledDate = new Date(request.scheduledFor);
+
+      // Working hours, leave, sick days and planned shifts
+      const availability = await availabilityService.checkAvailability(
+        request.staffId,
+        scheduledDate,
+        request.estimatedDuration || 60
+      );
+      if (availability.status === 'unavailable') {
+        validation.errors.push(`Staff is not available: ${availability.reason}`);
+      } else if (availability.status === 'partial') {
+        validation.warnings.push(`Staff availability: ${availability.reason}`);
+      }
+
       const dayStart = new Date(scheduledDate);
       dayStart.setHours(0, 0, 0, 0);
       const dayEnd = new Date(scheduledDate);
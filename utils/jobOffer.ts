@@ -0,0 +1,139 @@
+/**
+ * Job Offer Planning
+ * Works out who a job should be offered to next from the ranked candidates and
+ * what has already happened to earlier offers.
+ *
+ * Candidates get one single offer each, in rank order, skipping anyone already
+ * offered. When they are exhausted the job is broadcast once to the qualified
+ * pool, minus anyone who declined. After that there is nobody left and the job
+ * goes back to pending for an admin.
+ */
+
+import type {
+  JobOffer,
+  JobOfferHistoryEntry,
+  JobOfferOutcome,
+  JobOfferSettings
+} from '@/types/jobOffer';
+
+export const DEFAULT_JOB_OFFER_SETTINGS: JobOfferSettings = {
+  offerMinutes: 30,
+  candidateCount: 3,
+  broadcastEnabled: true,
+  broadcastMinutes: 60,
+  broadcastPoolSize: 8,
+};
+
+export const JOB_OFFER_OUTCOME_LABELS: Record<JobOfferOutcome, string> = {
+  offered: 'Offered',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  expired: 'Expired',
+  withdrawn: 'Withdrawn',
+};
+
+const MINUTE_MS = 60 * 1000;
+
+export const isOfferExpired = (offer: JobOffer, now: Date): boolean =>
+  offer.expiresAt.getTime() <= now.getTime();
+
+/**
+ * Whether this staff member may accept the open offer right now
+ */
+export const canAcceptOffer = (offer: JobOffer | null | undefined, staffId: string, now: Date): boolean =>
+  !!offer && offer.staffIds.includes(staffId) && !isOfferExpired(offer, now);
+
+/**
+ * The next offer for the job, or null when every option is used up
+ */
+export const planNextOffer = (
+  candidateIds: string[],
+  poolIds: string[],
+  history: JobOfferHistoryEntry[],
+  settings: JobOfferSettings,
+  now: Date
+): JobOffer | null => {
+  const round = new Set(history.map(entry => entry.offerId)).size + 1;
+  const alreadyOffered = new Set(history.map(entry => entry.staffId));
+
+  const id = `offer_${now.getTime()}`;
+  const next = candidateIds.slice(0, settings.candidateCount).find(staffId => !alreadyOffered.has(staffId));
+  if (next) {
+    return {
+      id,
+      round,
+      mode: 'single',
+      staffIds: [next],
+      offeredAt: now,
+      expiresAt: new Date(now.getTime() + settings.offerMinutes * MINUTE_MS),
+    };
+  }
+
+  if (!settings.broadcastEnabled || history.some(entry => entry.mode === 'broadcast')) {
+    return null;
+  }
+
+  const declined = new Set(history.filter(entry => entry.outcome === 'declined').map(entry => entry.staffId));
+  const pool = poolIds.filter(staffId => !declined.has(staffId)).slice(0, settings.broadcastPoolSize);
+  if (pool.length === 0) return null;
+
+  return {
+    id,
+    round,
+    mode: 'broadcast',
+    staffIds: pool,
+    offeredAt: now,
+    expiresAt: new Date(now.getTime() + settings.broadcastMinutes * MINUTE_MS),
+  };
+};
+
+/**
+ * History entries closing the offer for the given recipients
+ */
+export const closeOffer = (
+  offer: JobOffer,
+  staffIds: string[],
+  outcome: JobOfferOutcome,
+  at: Date,
+  reason?: string
+): JobOfferHistoryEntry[] =>
+  staffIds.map(staffId => ({
+    offerId: offer.id,
+    mode: offer.mode,
+    staffId,
+    outcome,
+    at,
+    ...(reason && { reason }),
+  }));
+
+/**
+ * History entries recording that an offer went out
+ */
+export const openOffer = (offer: JobOffer): JobOfferHistoryEntry[] =>
+  offer.staffIds.map(staffId => ({
+    offerId: offer.id,
+    mode: offer.mode,
+    staffId,
+    outcome: 'offered' as const,
+    at: offer.offeredAt,
+  }));
+
+/**
+ * Recipients who have neither accepted nor declined the offer yet
+ */
+export const getOpenRecipients = (offer: JobOffer, history: JobOfferHistoryEntry[]): string[] => {
+  const closed = new Set(
+    history.filter(entry => entry.offerId === offer.id && entry.outcome !== 'offered').map(entry => entry.staffId)
+  );
+  return offer.staffIds.filter(staffId => !closed.has(staffId));
+};
+
+export default {
+  DEFAULT_JOB_OFFER_SETTINGS,
+  isOfferExpired,
+  canAcceptOffer,
+  planNextOffer,
+  closeOffer,
+  openOffer,
+  getOpenRecipients,
+};
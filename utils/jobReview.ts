@@ -0,0 +1,134 @@
+/**
+ * Job Review
+ * Manager review of completed jobs: photos grouped by the requirement they
+ * were taken for, reopening failed items for rework, and the rework rate that
+ * feeds a staff member's quality score.
+ */
+
+import type { ChecklistItem } from '@/services/jobChecklistService';
+import type { CompletedPhotoRequirement, JobRequirement, JobReview, ReworkItem } from '@/types/job';
+
+export interface PhotoGroup {
+  requirementId?: string; // undefined for photos not taken for a requirement
+  title: string;
+  isCompleted: boolean;
+  photoUrls: string[];
+}
+
+export interface ReworkStats {
+  reviewedJobs: number;
+  reworkedJobs: number;
+  reworkRounds: number;
+  reworkRate: number; // 0-1, share of reviewed jobs sent back at least once
+}
+
+// Quality points lost when every reviewed job needed rework
+const MAX_REWORK_PENALTY = 30;
+
+/**
+ * One group per photo requirement, then any remaining photos
+ */
+export const groupPhotosByRequirement = (
+  requirements: CompletedPhotoRequirement[],
+  photoUrls: string[]
+): PhotoGroup[] => {
+  const linked = new Set(requirements.flatMap(req => req.photoUrls));
+  const groups: PhotoGroup[] = requirements.map(req => ({
+    requirementId: req.id,
+    title: req.description,
+    isCompleted: req.isCompleted,
+    photoUrls: req.photoUrls,
+  }));
+
+  const other = photoUrls.filter(url => !linked.has(url));
+  if (other.length > 0) {
+    groups.push({ title: 'Other photos', isCompleted: true, photoUrls: other });
+  }
+  return groups;
+};
+
+/**
+ * Checklist for the rework round: failed checklist items are reopened and
+ * every other failed item is added as a new required item
+ */
+export const buildReworkChecklist = (
+  items: ChecklistItem[],
+  failedItems: ReworkItem[],
+  jobId: string,
+  round: number
+): ChecklistItem[] => {
+  const failedById = new Map(
+    failedItems.filter(item => item.source === 'checklist' && item.sourceId).map(item => [item.sourceId!, item])
+  );
+
+  const reopened = items.map(item => {
+    const failed = failedById.get(item.id);
+    if (!failed) return item;
+    // Dropped rather than set to undefined, which Firestore rejects
+    const reopenedItem: ChecklistItem = { ...item, completed: false, notes: `Rework: ${failed.description}` };
+    delete reopenedItem.completedAt;
+    delete reopenedItem.completedBy;
+    return reopenedItem;
+  });
+
+  const added = failedItems
+    .filter(item => item.source !== 'checklist' || !item.sourceId || !items.some(i => i.id === item.sourceId))
+    .map((item, index) => ({
+      id: `${jobId}_rework_${round}_${index + 1}`,
+      label: `Rework: ${item.description}`,
+      category: 'completion' as const,
+      required: true,
+      completed: false,
+      order: reopened.length + index + 1,
+    }));
+
+  return [...reopened, ...added];
+};
+
+/**
+ * Requirements with the failed ones marked incomplete again
+ */
+export const reopenRequirements = (
+  requirements: JobRequirement[],
+  failedItems: ReworkItem[]
+): JobRequirement[] => {
+  const failedIds = new Set(
+    failedItems.filter(item => item.source === 'requirement').map(item => item.sourceId)
+  );
+  return requirements.map(req => {
+    if (!failedIds.has(req.id)) return req;
+    const reopened: JobRequirement = { ...req, isCompleted: false };
+    delete reopened.completedAt;
+    delete reopened.completedBy;
+    return reopened;
+  });
+};
+
+export const summarizeReviews = (reviews: Pick<JobReview, 'jobId' | 'outcome'>[]): ReworkStats => {
+  const reviewed = new Set(reviews.map(review => review.jobId));
+  const reworks = reviews.filter(review => review.outcome === 'rework');
+  const reworked = new Set(reworks.map(review => review.jobId));
+
+  return {
+    reviewedJobs: reviewed.size,
+    reworkedJobs: reworked.size,
+    reworkRounds: reworks.length,
+    reworkRate: reviewed.size > 0 ? reworked.size / reviewed.size : 0,
+  };
+};
+
+/**
+ * Lower a quality score by the share of reviewed jobs that needed rework
+ */
+export const applyReworkPenalty = (qualityScore: number, stats: ReworkStats): number => {
+  const penalty = Math.round(stats.reworkRate * MAX_REWORK_PENALTY);
+  return Math.max(1, Math.min(100, qualityScore - penalty));
+};
+
+export default {
+  groupPhotosByRequirement,
+  buildReworkChecklist,
+  reopenRequirements,
+  summarizeReviews,
+  applyReworkPenalty,
+};
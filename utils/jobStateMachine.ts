@@ -0,0 +1,290 @@
+/**
+ * Job State Machine
+ * Single source of truth for job statuses, legal transitions, who may trigger them
+ * and the side effects (timestamps, statusHistory entries) each transition produces.
+ *
+ * Every service that changes a job status must go through planJobTransition()
+ * so illegal moves (e.g. assigned -> completed, cancelled -> in_progress) are
+ * rejected consistently with a JobTransitionError.
+ */
+
+import { arrayUnion, serverTimestamp } from 'firebase/firestore';
+import type { JobStatus } from '@/types/job';
+
+// Who is allowed to trigger a transition
+export type JobActor = 'staff' | 'admin' | 'system';
+
+// Every canonical job status, in lifecycle order
+export const JOB_STATUSES: readonly JobStatus[] = [
+  'pending',
+  'offered',
+  'assigned',
+  'accepted',
+  'rejected',
+  'reassigned',
+  'overdue',
+  'in_progress',
+  'completed',
+  'verified',
+  'cancelled',
+] as const;
+
+// Legacy status names still written by older webapp/mobile builds
+const STATUS_ALIASES: Record<string, JobStatus> = {
+  declined: 'rejected',
+  'in-progress': 'in_progress',
+  inprogress: 'in_progress',
+  started: 'in_progress',
+  done: 'completed',
+  canceled: 'cancelled',
+};
+
+// Statuses a job can never leave
+export const TERMINAL_JOB_STATUSES: readonly JobStatus[] = ['verified', 'cancelled'];
+
+// Statuses where a staff member is actively holding the job
+export const ACTIVE_JOB_STATUSES: readonly JobStatus[] = ['accepted', 'in_progress', 'overdue'];
+
+interface TransitionRule {
+  to: JobStatus;
+  actors: JobActor[];
+}
+
+/**
+ * Allowed transitions per status. Admins can always cancel a non-terminal job;
+ * the system (timers, escalation, offer expiry) only performs bookkeeping moves.
+ */
+const TRANSITIONS: Record<JobStatus, TransitionRule[]> = {
+  pending: [
+    { to: 'offered', actors: ['admin', 'system'] },
+    { to: 'assigned', actors: ['admin', 'system'] },
+    { to: 'accepted', actors: ['staff'] }, // self-claim of an unassigned job
+    { to: 'cancelled', actors: ['admin', 'system'] },
+  ],
+  offered: [
+    { to: 'accepted', actors: ['staff'] },
+    { to: 'rejected', actors: ['staff'] },
+    { to: 'pending', actors: ['admin', 'system'] }, // offer expired or withdrawn
+    { to: 'offered', actors: ['system'] }, // re-offered to the next candidate
+    { to: 'assigned', actors: ['admin'] },
+    { to: 'cancelled', actors: ['admin', 'system'] },
+  ],
+  assigned: [
+    { to: 'accepted', actors: ['staff'] },
+    { to: 'rejected', actors: ['staff'] },
+    { to: 'pending', actors: ['admin'] }, // unassigned
+    { to: 'reassigned', actors: ['admin', 'system'] },
+    { to: 'overdue', actors: ['system'] },
+    { to: 'cancelled', actors: ['admin', 'system'] },
+  ],
+  accepted: [
+    { to: 'in_progress', actors: ['staff'] },
+    { to: 'reassigned', actors: ['admin', 'system'] },
+    { to: 'overdue', actors: ['system'] },
+    { to: 'cancelled', actors: ['admin', 'system'] },
+  ],
+  rejected: [
+    { to: 'pending', actors: ['admin', 'system'] },
+    { to: 'offered', actors: ['admin', 'system'] },
+    { to: 'assigned', actors: ['admin', 'system'] },
+    { to: 'reassigned', actors: ['admin', 'system'] },
+    { to: 'cancelled', actors: ['admin', 'system'] },
+  ],
+  reassigned: [
+    { to: 'assigned', actors: ['admin', 'system'] },
+    { to: 'accepted', actors: ['staff'] },
+    { to: 'rejected', actors: ['staff'] },
+    { to: 'cancelled', actors: ['admin', 'system'] },
+  ],
+  overdue: [
+    { to: 'accepted', actors: ['staff'] },
+    { to: 'in_progress', actors: ['staff'] },
+    { to: 'reassigned', actors: ['admin', 'system'] },
+    { to: 'cancelled', actors: ['admin', 'system'] },
+  ],
+  in_progress: [
+    { to: 'completed', actors: ['staff'] },
+    { to: 'cancelled', actors: ['admin'] },
+  ],
+  completed: [
+    { to: 'verified', actors: ['admin'] },
+    { to: 'accepted', actors: ['admin'] }, // sent back to the same staff member for rework
+  ],
+  verified: [],
+  cancelled: [],
+};
+
+// Timestamp field stamped when a job enters a status
+const STATUS_TIMESTAMP_FIELDS: Partial<Record<JobStatus, string>> = {
+  offered: 'offeredAt',
+  assigned: 'assignedAt',
+  accepted: 'acceptedAt',
+  rejected: 'rejectedAt',
+  reassigned: 'reassignedAt',
+  overdue: 'overdueAt',
+  in_progress: 'startedAt',
+  completed: 'completedAt',
+  verified: 'verifiedAt',
+  cancelled: 'cancelledAt',
+};
+
+export type JobTransitionErrorCode =
+  | 'UNKNOWN_STATUS'
+  | 'ILLEGAL_TRANSITION'
+  | 'FORBIDDEN_ACTOR';
+
+/**
+ * Raised when a status change is not allowed by the state machine
+ */
+export class JobTransitionError extends Error {
+  readonly code: JobTransitionErrorCode;
+  readonly from: string;
+  readonly to: string;
+  readonly actor: JobActor;
+
+  constructor(code: JobTransitionErrorCode, from: string, to: string, actor: JobActor) {
+    const reason =
+      code === 'UNKNOWN_STATUS'
+        ? `Unknown job status (${from} -> ${to})`
+        : code === 'FORBIDDEN_ACTOR'
+          ? `${actor} may not move a job from ${from} to ${to}`
+          : `Illegal job status transition from ${from} to ${to}`;
+    super(reason);
+    this.name = 'JobTransitionError';
+    this.code = code;
+    this.from = from;
+    this.to = to;
+    this.actor = actor;
+  }
+}
+
+// Entry appended to a job's statusHistory on every transition
+export interface JobStatusHistoryEntry {
+  status: JobStatus;
+  previousStatus: JobStatus;
+  timestamp: string; // ISO string
+  updatedBy: string;
+  actor: JobActor;
+  notes: string;
+}
+
+export interface JobTransitionRequest {
+  from: string | null | undefined;
+  to: string;
+  actor: JobActor;
+  actorId: string;
+  notes?: string;
+  at?: Date;
+}
+
+export interface JobTransitionPlan {
+  from: JobStatus;
+  to: JobStatus;
+  // Name of the timestamp field the caller should stamp (e.g. 'startedAt')
+  timestampField?: string;
+  historyEntry: JobStatusHistoryEntry;
+}
+
+/**
+ * Map any stored status (including legacy aliases) to a canonical status
+ */
+export const normalizeJobStatus = (status: string | null | undefined): JobStatus | null => {
+  if (!status || typeof status !== 'string') return null;
+  const key = status.trim().toLowerCase();
+  if ((JOB_STATUSES as readonly string[]).includes(key)) return key as JobStatus;
+  return STATUS_ALIASES[key] ?? null;
+};
+
+export const isTerminalJobStatus = (status: string | null | undefined): boolean => {
+  const normalized = normalizeJobStatus(status);
+  return normalized !== null && TERMINAL_JOB_STATUSES.includes(normalized);
+};
+
+/**
+ * Statuses reachable from `from`, optionally restricted to one actor
+ */
+export const getAllowedTransitions = (
+  from: string | null | undefined,
+  actor?: JobActor
+): JobStatus[] => {
+  const normalized = normalizeJobStatus(from ?? 'pending');
+  if (!normalized) return [];
+  return TRANSITIONS[normalized]
+    .filter(rule => !actor || rule.actors.includes(actor))
+    .map(rule => rule.to);
+};
+
+export const canTransition = (
+  from: string | null | undefined,
+  to: string,
+  actor?: JobActor
+): boolean => {
+  const target = normalizeJobStatus(to);
+  return target !== null && getAllowedTransitions(from, actor).includes(target);
+};
+
+/**
+ * Validate a transition and describe its side effects.
+ * A missing current status is treated as 'pending' (freshly created job).
+ * Throws JobTransitionError if the move is not allowed.
+ */
+export const planJobTransition = (request: JobTransitionRequest): JobTransitionPlan => {
+  const { actor } = request;
+  const rawFrom = request.from ?? 'pending';
+  const from = normalizeJobStatus(rawFrom);
+  const to = normalizeJobStatus(request.to);
+
+  if (!from || !to) {
+    throw new JobTransitionError('UNKNOWN_STATUS', String(rawFrom), String(request.to), actor);
+  }
+
+  const rule = TRANSITIONS[from].find(r => r.to === to);
+  if (!rule) {
+    throw new JobTransitionError('ILLEGAL_TRANSITION', from, to, actor);
+  }
+  if (!rule.actors.includes(actor)) {
+    throw new JobTransitionError('FORBIDDEN_ACTOR', from, to, actor);
+  }
+
+  return {
+    from,
+    to,
+    timestampField: STATUS_TIMESTAMP_FIELDS[to],
+    historyEntry: {
+      status: to,
+      previousStatus: from,
+      timestamp: (request.at ?? new Date()).toISOString(),
+      updatedBy: request.actorId,
+      actor,
+      notes: request.notes ?? '',
+    },
+  };
+};
+
+/**
+ * Firestore update fields for a planned transition: the new status, its
+ * timestamp field and an appended statusHistory entry
+ */
+export const buildStatusUpdate = (plan: JobTransitionPlan): Record<string, any> => {
+  const update: Record<string, any> = {
+    status: plan.to,
+    statusHistory: arrayUnion(plan.historyEntry),
+    updatedAt: serverTimestamp(),
+  };
+  if (plan.timestampField) {
+    update[plan.timestampField] = serverTimestamp();
+  }
+  return update;
+};
+
+export default {
+  JOB_STATUSES,
+  TERMINAL_JOB_STATUSES,
+  ACTIVE_JOB_STATUSES,
+  normalizeJobStatus,
+  isTerminalJobStatus,
+  getAllowedTransitions,
+  canTransition,
+  planJobTransition,
+  buildStatusUpdate,
+};
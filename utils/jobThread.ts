@@ -0,0 +1,156 @@
+/**
+ * Job Thread Utilities
+ * Roles, read receipts, typing indicators, message checks and inbox ordering
+ * for the per-job message thread
+ */
+
+import type {
+  JobThread,
+  JobThreadMessage,
+  JobThreadSeed,
+  PendingThreadAttachment,
+  ThreadParticipant,
+  ThreadParticipantRole,
+} from '@/types/jobThread';
+
+export const FOA_PARTICIPANT: ThreadParticipant = { id: 'foa', name: 'FOA Assistant', role: 'foa' };
+
+// Someone counts as typing for this long after their last keystroke
+export const TYPING_TIMEOUT_MS = 6000;
+
+export const MAX_MESSAGE_LENGTH = 2000;
+export const MAX_ATTACHMENTS = 4;
+export const MAX_VOICE_NOTE_SECONDS = 120;
+
+const ADMIN_ROLES = ['admin', 'manager', 'supervisor'];
+
+/**
+ * How a user appears in a thread: whoever assigned the job is dispatch,
+ * office roles are admin, everyone else is staff
+ */
+export const getThreadRole = (
+  profileRole: string | undefined,
+  userId: string,
+  dispatcherId?: string
+): ThreadParticipantRole => {
+  if (dispatcherId && userId === dispatcherId) return 'dispatch';
+  if (profileRole && ADMIN_ROLES.includes(profileRole)) return 'admin';
+  return 'staff';
+};
+
+export const buildThreadParticipants = (seed: JobThreadSeed): ThreadParticipant[] => {
+  const participants: ThreadParticipant[] = [];
+  if (seed.assignedStaff) {
+    participants.push({ ...seed.assignedStaff, role: 'staff' });
+  }
+  if (seed.dispatcher && seed.dispatcher.id !== seed.assignedStaff?.id) {
+    participants.push({ ...seed.dispatcher, role: 'dispatch' });
+  }
+  return participants;
+};
+
+/**
+ * Names of other participants who typed within the timeout
+ */
+export const getTypingNames = (thread: JobThread, viewerId: string, now: Date = new Date()): string[] =>
+  thread.participants
+    .filter(participant => participant.id !== viewerId)
+    .filter(participant => {
+      const typedAt = thread.typing[participant.id];
+      return typedAt !== undefined && now.getTime() - typedAt.getTime() < TYPING_TIMEOUT_MS;
+    })
+    .map(participant => participant.name);
+
+/**
+ * People other than the sender who have opened the thread since the message
+ * was sent
+ */
+export const getReadBy = (message: JobThreadMessage, thread: JobThread): ThreadParticipant[] =>
+  thread.participants.filter(participant => {
+    if (participant.id === message.senderId) return false;
+    const readAt = thread.lastReadAt[participant.id];
+    return readAt !== undefined && readAt.getTime() >= message.createdAt.getTime();
+  });
+
+// "Sent", "Read by Somchai" or "Read by everyone"
+export const getReceiptLabel = (message: JobThreadMessage, thread: JobThread): string => {
+  const readers = getReadBy(message, thread);
+  const others = thread.participants.filter(participant => participant.id !== message.senderId);
+  if (readers.length === 0) return 'Sent';
+  if (others.length > 1 && readers.length === others.length) return 'Read by everyone';
+  return `Read by ${readers.map(reader => reader.name).join(', ')}`;
+};
+
+const FOA_MENTION = /(^|\s)@foa\b/i;
+
+/**
+ * The FOA only answers when it is switched on and a person addresses it
+ */
+export const shouldFOAReply = (thread: JobThread, message: Pick<JobThreadMessage, 'senderRole' | 'text'>): boolean =>
+  thread.foaEnabled && message.senderRole !== 'foa' && FOA_MENTION.test(message.text);
+
+export const stripFOAMention = (text: string): string =>
+  text.replace(FOA_MENTION, '$1').replace(/\s+/g, ' ').trim();
+
+// 75 → "1:15"
+export const formatDuration = (seconds: number): string => {
+  const whole = Math.max(0, Math.round(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+// One line for the inbox and push notifications
+export const getMessagePreview = (message: Pick<JobThreadMessage, 'text' | 'attachments'>): string => {
+  if (message.text.trim()) return message.text.trim().slice(0, 120);
+  const voice = message.attachments.find(attachment => attachment.type === 'voice');
+  if (voice) {
+    return `🎤 Voice note${voice.durationSeconds ? ` (${formatDuration(voice.durationSeconds)})` : ''}`;
+  }
+  const photos = message.attachments.filter(attachment => attachment.type === 'photo').length;
+  return photos > 1 ? `📷 ${photos} photos` : '📷 Photo';
+};
+
+export const validateThreadMessage = (text: string, attachments: PendingThreadAttachment[] = []): string[] => {
+  const errors: string[] = [];
+  if (!text.trim() && attachments.length === 0) errors.push('Write a message or add an attachment');
+  if (text.length > MAX_MESSAGE_LENGTH) errors.push(`Keep messages under ${MAX_MESSAGE_LENGTH} characters`);
+  if (attachments.length > MAX_ATTACHMENTS) errors.push(`Attach at most ${MAX_ATTACHMENTS} files`);
+  if (attachments.some(attachment => (attachment.durationSeconds ?? 0) > MAX_VOICE_NOTE_SECONDS)) {
+    errors.push(`Keep voice notes under ${MAX_VOICE_NOTE_SECONDS / 60} minutes`);
+  }
+  return errors;
+};
+
+// Everyone in the thread except the sender
+export const getNotificationRecipients = (thread: JobThread, senderId: string): string[] =>
+  thread.participantIds.filter(id => id !== senderId);
+
+export const getUnreadCount = (thread: JobThread, userId: string): number => thread.unread[userId] ?? 0;
+
+/**
+ * Inbox order: threads with unread messages first, then most recent activity
+ */
+export const sortThreadsForInbox = (threads: JobThread[], viewerId: string): JobThread[] =>
+  [...threads].sort((a, b) => {
+    const unreadDiff = Number(getUnreadCount(b, viewerId) > 0) - Number(getUnreadCount(a, viewerId) > 0);
+    if (unreadDiff !== 0) return unreadDiff;
+    const aTime = (a.lastMessage?.createdAt ?? a.updatedAt).getTime();
+    const bTime = (b.lastMessage?.createdAt ?? b.updatedAt).getTime();
+    return bTime - aTime;
+  });
+
+export default {
+  FOA_PARTICIPANT,
+  getThreadRole,
+  buildThreadParticipants,
+  getTypingNames,
+  getReadBy,
+  getReceiptLabel,
+  shouldFOAReply,
+  stripFOAMention,
+  formatDuration,
+  getMessagePreview,
+  validateThreadMessage,
+  getNotificationRecipients,
+  getUnreadCount,
+  sortThreadsForInbox,
+};
@@ -3,6 +3,8 @@
  * Shared utilities for job-related components to reduce code duplication
  */
 
+import { canTransition } from './jobStateMachine';
+
 // Color constants for consistent theming
 export const JOB_COLORS = {
   // Main colors
@@ -240,13 +242,13 @@ export const isJobOverdue = (scheduledDate: string | Date | undefined): boolean
 };
 
 export const canCompleteJob = (job: any): boolean => {
-  return job.status === 'in_progress' && 
+  return canTransition(job.status, 'completed', 'staff') && 
          job.photos && 
          job.photos.length > 0;
 };
 
 export const canStartJob = (job: any): boolean => {
-  return job.status === 'accepted';
+  return canTransition(job.status, 'in_progress', 'staff');
 };
 
 // Common styles
@@ -0,0 +1,53 @@
+/**
+ * Kiosk Session
+ * Rules for shared-device kiosk mode: when an unlocked profile auto-locks
+ * and which profiles are offered first for a quick switch.
+ */
+
+export interface KioskSettings {
+  enabled: boolean;
+  autoLockMinutes: number;
+}
+
+export type KioskLockReason = 'manual' | 'switch' | 'auto_lock';
+
+export const DEFAULT_KIOSK_SETTINGS: KioskSettings = {
+  enabled: false,
+  autoLockMinutes: 5,
+};
+
+export const KIOSK_AUTO_LOCK_OPTIONS = [1, 2, 5, 10, 15];
+
+// Profiles remembered for quick switch on one device
+const MAX_RECENT_PROFILES = 6;
+
+export const shouldAutoLock = (lastActivityAt: number, now: number, settings: KioskSettings): boolean =>
+  settings.enabled && now - lastActivityAt >= settings.autoLockMinutes * 60 * 1000;
+
+/**
+ * Move a staff member to the front of the device's recent list
+ */
+export const rememberRecentProfile = (recentIds: string[], staffId: string): string[] =>
+  [staffId, ...recentIds.filter(id => id !== staffId)].slice(0, MAX_RECENT_PROFILES);
+
+/**
+ * Recently unlocked profiles first, in recency order, then everyone else
+ * in their original order
+ */
+export const orderProfilesForQuickSwitch = <T extends { id: string }>(profiles: T[], recentIds: string[]): T[] => {
+  const rank = new Map(recentIds.map((id, index) => [id, index]));
+  return profiles
+    .map((profile, index) => ({ profile, index }))
+    .sort((a, b) => {
+      const rankA = rank.get(a.profile.id) ?? recentIds.length + a.index;
+      const rankB = rank.get(b.profile.id) ?? recentIds.length + b.index;
+      return rankA - rankB;
+    })
+    .map(({ profile }) => profile);
+};
+
+export default {
+  shouldAutoLock,
+  rememberRecentProfile,
+  orderProfilesForQuickSwitch,
+};
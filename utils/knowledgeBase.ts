@@ -0,0 +1,172 @@
+/**
+ * Property Knowledge Base Utilities
+ * Keyword search over a property's entries, the citations attached to chat
+ * answers, and input checks for the editor
+ */
+
+import type {
+  KnowledgeCitation,
+  KnowledgeEntry,
+  KnowledgeEntryInput,
+  KnowledgeEntryKind,
+  KnowledgeMatch,
+} from '@/types/knowledgeBase';
+import type { Issue } from '@/types/issue';
+
+export const KNOWLEDGE_KIND_LABELS: Record<KnowledgeEntryKind, string> = {
+  note: 'Note',
+  manual: 'House Manual',
+  appliance: 'Appliance',
+  photo: 'Photo',
+  resolution: 'Past Fix',
+};
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'at', 'be', 'can', 'do', 'does', 'for', 'from', 'go',
+  'goes', 'how', 'i', 'in', 'is', 'it', 'its', 'me', 'my', 'need', 'of', 'on',
+  'or', 'should', 'that', 'the', 'there', 'this', 'to', 'we', 'what', 'when',
+  'where', 'which', 'who', 'why', 'with', 'you',
+]);
+
+// Field weights: a hit in the title counts three times a hit in the body
+const FIELD_WEIGHTS = { title: 3, tags: 2, location: 2, appliance: 2, body: 1 };
+
+// Share of the question's words an entry must contain to be returned
+const MIN_COVERAGE = 0.5;
+
+const stem = (word: string): string => {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+/**
+ * Lowercase words without stopwords, plurals folded ("towels" → "towel") and
+ * hyphens joined ("wi-fi" → "wifi")
+ */
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/(\w)[-'](\w)/g, '$1$2')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+
+const entryFields = (entry: KnowledgeEntry): Record<keyof typeof FIELD_WEIGHTS, Set<string>> => ({
+  title: new Set(tokenize(entry.title)),
+  tags: new Set(entry.tags.flatMap(tokenize)),
+  location: new Set(tokenize(entry.location ?? '')),
+  appliance: new Set(tokenize([
+    entry.appliance?.brand,
+    entry.appliance?.model,
+  ].filter(Boolean).join(' '))),
+  body: new Set(tokenize(entry.body)),
+});
+
+/**
+ * Rank entries for a question. Each question word scores its best field weight
+ * times how rare the word is across the property, so "breaker" outranks "pool"
+ * at a villa with many pool notes
+ */
+export const searchKnowledge = (
+  entries: KnowledgeEntry[],
+  question: string,
+  limit: number = 3
+): KnowledgeMatch[] => {
+  const terms = Array.from(new Set(tokenize(question)));
+  if (terms.length === 0 || entries.length === 0) return [];
+
+  const indexed = entries.map(entry => ({ entry, fields: entryFields(entry) }));
+  const documentFrequency = new Map<string, number>();
+  terms.forEach(term => {
+    documentFrequency.set(term, indexed.filter(({ fields }) =>
+      Object.values(fields).some(tokens => tokens.has(term))
+    ).length);
+  });
+
+  const minimumMatches = Math.max(1, Math.ceil(terms.length * MIN_COVERAGE));
+
+  return indexed
+    .map(({ entry, fields }) => {
+      let score = 0;
+      let matched = 0;
+      terms.forEach(term => {
+        const weight = Math.max(0, ...Object.entries(fields)
+          .filter(([, tokens]) => tokens.has(term))
+          .map(([field]) => FIELD_WEIGHTS[field as keyof typeof FIELD_WEIGHTS]));
+        if (weight > 0) {
+          matched++;
+          score += weight * Math.log(1 + entries.length / (documentFrequency.get(term) ?? 1));
+        }
+      });
+      return { entry, score: Math.round(score * 100) / 100, matched };
+    })
+    .filter(result => result.matched >= minimumMatches)
+    .sort((a, b) => b.score - a.score || b.entry.updatedAt.getTime() - a.entry.updatedAt.getTime())
+    .slice(0, limit)
+    .map(({ entry, score }) => ({ entry, score }));
+};
+
+export const toCitation = (entry: KnowledgeEntry): KnowledgeCitation => ({
+  entryId: entry.id,
+  title: entry.title,
+  kind: entry.kind,
+  ...(entry.location && { location: entry.location }),
+});
+
+// Numbered block for the model's prompt; answers cite entries as [1], [2]…
+export const buildKnowledgePrompt = (matches: KnowledgeMatch[]): string =>
+  matches.length === 0
+    ? ''
+    : `Property knowledge base (cite entries you use as [1], [2]):\n${matches
+      .map(({ entry }, index) =>
+        `[${index + 1}] ${entry.title}${entry.location ? ` (${entry.location})` : ''}: ${entry.body}`)
+      .join('\n')}`;
+
+/**
+ * A resolved issue, read as a past fix for the property. The id is derived so
+ * it never clashes with an entry written in the editor
+ */
+export const issueToKnowledgeEntry = (issue: Issue): KnowledgeEntry => ({
+  id: `issue_${issue.id}`,
+  propertyId: issue.propertyId,
+  kind: 'resolution',
+  title: issue.title,
+  body: `${issue.description}${issue.resolvedAt ? ` Fixed ${issue.resolvedAt.toLocaleDateString()}.` : ''}`,
+  ...(issue.location && { location: issue.location }),
+  tags: [issue.category.replace(/_/g, ' ')],
+  ...(issue.photos[0] && { photoUrl: issue.photos[0] }),
+  source: 'issue',
+  sourceRef: issue.id,
+  createdBy: issue.triagedBy ?? issue.reportedBy,
+  createdAt: issue.createdAt,
+  updatedAt: issue.resolvedAt ?? issue.updatedAt,
+});
+
+// "pool, Pump ,, breaker" → ['pool', 'pump', 'breaker']
+export const parseTags = (value: string): string[] =>
+  Array.from(new Set(value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+export const validateKnowledgeInput = (input: KnowledgeEntryInput): string[] => {
+  const errors: string[] = [];
+  if (!input.propertyId) errors.push('Choose a property');
+  if (!input.title.trim()) errors.push('Add a title');
+  if (input.title.length > 120) errors.push('Keep the title under 120 characters');
+  if (!input.body.trim()) {
+    errors.push(input.kind === 'photo' ? 'Add a caption' : 'Add some details');
+  }
+  if (input.body.length > 4000) errors.push('Keep the details under 4000 characters');
+  if (input.kind === 'photo' && !input.photoUrl) errors.push('Add a photo');
+  return errors;
+};
+
+export default {
+  KNOWLEDGE_KIND_LABELS,
+  tokenize,
+  searchKnowledge,
+  toCitation,
+  buildKnowledgePrompt,
+  issueToKnowledgeEntry,
+  parseTags,
+  validateKnowledgeInput,
+};
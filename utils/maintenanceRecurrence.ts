@@ -0,0 +1,262 @@
+/**
+ * Maintenance Recurrence
+ * Expands a MaintenanceSchedule's recurrence into due dates, moves dates that
+ * fall while the property is occupied and summarizes a schedule's compliance.
+ *
+ * All dates are local calendar days as YYYY-MM-DD strings, the same format the
+ * booking calendar uses.
+ */
+
+import type { BookingData } from '@/lib/realtimeDatabase';
+import type {
+  MaintenanceCompliance,
+  MaintenanceInstance,
+  MaintenanceInstanceStatus,
+  MaintenanceRecurrence,
+  MaintenanceSchedule
+} from '@/types/property';
+import { normalizeJobStatus } from '@/utils/jobStateMachine';
+
+export type OccupancyBooking = Pick<BookingData, 'checkIn' | 'checkOut' | 'status'>;
+
+export interface PlannedMaintenanceInstance {
+  dueDate: string;
+  scheduledDate: string | null;
+  status: Extract<MaintenanceInstanceStatus, 'scheduled' | 'skipped_occupied'>;
+  shiftedDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const parseDateKey = (value: string): Date => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (value: string, days: number): string => {
+  const date = parseDateKey(value);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / DAY_MS);
+
+const daysInMonth = (year: number, monthIndex: number) => new Date(year, monthIndex + 1, 0).getDate();
+
+const dateInMonth = (year: number, monthIndex: number, day: number): string =>
+  toDateKey(new Date(year, monthIndex, Math.min(day, daysInMonth(year, monthIndex))));
+
+/**
+ * Due dates of a recurrence between `from` and `to` (inclusive),
+ * never before the schedule's start or after its end
+ */
+export const getOccurrences = (
+  recurrence: MaintenanceRecurrence,
+  startDate: string,
+  from: string,
+  to: string,
+  endDate?: string
+): string[] => {
+  const first = from > startDate ? from : startDate;
+  const last = endDate && endDate < to ? endDate : to;
+  if (first > last) return [];
+
+  const dates: string[] = [];
+
+  switch (recurrence.frequency) {
+    case 'daily': {
+      const interval = Math.max(1, recurrence.interval);
+      const offset = daysBetween(startDate, first);
+      let date = addDays(startDate, Math.ceil(offset / interval) * interval);
+      while (date <= last) {
+        dates.push(date);
+        date = addDays(date, interval);
+      }
+      break;
+    }
+
+    case 'weekly': {
+      const interval = Math.max(1, recurrence.interval ?? 1);
+      const start = parseDateKey(startDate);
+      const weekStart = addDays(startDate, -start.getDay());
+      for (let date = first; date <= last; date = addDays(date, 1)) {
+        const weekIndex = Math.floor(daysBetween(weekStart, date) / 7);
+        if (weekIndex % interval === 0 && recurrence.byWeekday.includes(parseDateKey(date).getDay())) {
+          dates.push(date);
+        }
+      }
+      break;
+    }
+
+    case 'monthly': {
+      const interval = Math.max(1, recurrence.interval ?? 1);
+      const start = parseDateKey(startDate);
+      const end = parseDateKey(last);
+      for (
+        let monthIndex = start.getMonth(), year = start.getFullYear(), count = 0;
+        year < end.getFullYear() || (year === end.getFullYear() && monthIndex <= end.getMonth());
+        count++
+      ) {
+        const date = dateInMonth(year, monthIndex, recurrence.byMonthDay);
+        if (count % interval === 0 && date >= first && date <= last) {
+          dates.push(date);
+        }
+        monthIndex++;
+        if (monthIndex > 11) {
+          monthIndex = 0;
+          year++;
+        }
+      }
+      break;
+    }
+
+    case 'seasonal': {
+      const startYear = parseDateKey(first).getFullYear();
+      const endYear = parseDateKey(last).getFullYear();
+      const months = [...recurrence.months].sort((a, b) => a - b);
+      for (let year = startYear; year <= endYear; year++) {
+        months.forEach(month => {
+          const date = dateInMonth(year, month - 1, recurrence.byMonthDay ?? 1);
+          if (date >= first && date <= last) {
+            dates.push(date);
+          }
+        });
+      }
+      break;
+    }
+  }
+
+  return dates;
+};
+
+/**
+ * A day is occupied from check-in up to, but not including, check-out day
+ */
+export const isOccupied = (date: string, bookings: OccupancyBooking[]): boolean =>
+  bookings.some(booking =>
+    booking.status !== 'cancelled' &&
+    booking.checkIn.slice(0, 10) <= date &&
+    date < booking.checkOut.slice(0, 10)
+  );
+
+/**
+ * Due dates in the window with the day each job should actually happen.
+ * Occupied dates move to the next free day, but never past maxShiftDays
+ * or into the next occurrence.
+ */
+export const planMaintenanceInstances = (
+  schedule: Pick<MaintenanceSchedule, 'recurrence' | 'startDate' | 'endDate' | 'skipWhenOccupied' | 'maxShiftDays'>,
+  bookings: OccupancyBooking[],
+  from: string,
+  to: string
+): PlannedMaintenanceInstance[] => {
+  const dueDates = getOccurrences(schedule.recurrence, schedule.startDate, from, to, schedule.endDate);
+
+  return dueDates.map((dueDate, index) => {
+    if (!schedule.skipWhenOccupied || !isOccupied(dueDate, bookings)) {
+      return { dueDate, scheduledDate: dueDate, status: 'scheduled', shiftedDays: 0 };
+    }
+
+    const nextDue = dueDates[index + 1];
+    for (let shift = 1; shift <= schedule.maxShiftDays; shift++) {
+      const candidate = addDays(dueDate, shift);
+      if (nextDue && candidate >= nextDue) break;
+      if (!isOccupied(candidate, bookings)) {
+        return { dueDate, scheduledDate: candidate, status: 'scheduled', shiftedDays: shift };
+      }
+    }
+
+    return { dueDate, scheduledDate: null, status: 'skipped_occupied', shiftedDays: 0 };
+  });
+};
+
+/**
+ * Update an instance from its job's current status
+ */
+export const resolveInstanceStatus = (
+  instance: Pick<MaintenanceInstance, 'status' | 'dueDate' | 'scheduledDate'>,
+  jobStatus: string | null | undefined,
+  completedAt: Date | null | undefined,
+  today: string
+): Pick<MaintenanceInstance, 'status' | 'completedAt' | 'daysLate'> => {
+  const status = normalizeJobStatus(jobStatus);
+
+  if (status === 'completed' || status === 'verified') {
+    const doneOn = completedAt ? toDateKey(completedAt) : today;
+    return {
+      status: 'completed',
+      completedAt: completedAt ?? undefined,
+      daysLate: Math.max(0, daysBetween(instance.dueDate, doneOn)),
+    };
+  }
+  if (status === 'cancelled') {
+    return { status: 'cancelled' };
+  }
+  if (instance.status === 'scheduled' && instance.scheduledDate && instance.scheduledDate < today) {
+    return { status: 'missed' };
+  }
+  return { status: instance.status };
+};
+
+export const summarizeCompliance = (instances: MaintenanceInstance[]): MaintenanceCompliance => {
+  const completed = instances.filter(instance => instance.status === 'completed');
+  const missed = instances.filter(instance => instance.status === 'missed').length;
+  const lastCompletedAt = completed
+    .map(instance => instance.completedAt)
+    .filter((date): date is Date => !!date)
+    .sort((a, b) => b.getTime() - a.getTime())[0];
+
+  return {
+    total: instances.length,
+    completed: completed.length,
+    completedOnTime: completed.filter(instance => !instance.daysLate).length,
+    missed,
+    skipped: instances.filter(instance => instance.status === 'skipped_occupied').length,
+    upcoming: instances.filter(instance => instance.status === 'scheduled').length,
+    complianceRate: completed.length + missed > 0
+      ? Math.round((completed.length / (completed.length + missed)) * 100)
+      : 100,
+    lastCompletedAt,
+  };
+};
+
+/**
+ * Short human readable form, e.g. "Every 2 weeks on Mon, Thu"
+ */
+export const describeRecurrence = (recurrence: MaintenanceRecurrence): string => {
+  switch (recurrence.frequency) {
+    case 'daily':
+      return recurrence.interval === 1 ? 'Every day' : `Every ${recurrence.interval} days`;
+    case 'weekly': {
+      const days = recurrence.byWeekday.map(day => WEEKDAY_NAMES[day]).join(', ');
+      const interval = recurrence.interval ?? 1;
+      return interval === 1 ? `Weekly on ${days}` : `Every ${interval} weeks on ${days}`;
+    }
+    case 'monthly': {
+      const interval = recurrence.interval ?? 1;
+      return interval === 1
+        ? `Monthly on day ${recurrence.byMonthDay}`
+        : `Every ${interval} months on day ${recurrence.byMonthDay}`;
+    }
+    case 'seasonal':
+      return `Seasonally in ${recurrence.months.map(month => MONTH_NAMES[month - 1]).join(', ')}`;
+  }
+};
+
+export default {
+  getOccurrences,
+  isOccupied,
+  planMaintenanceInstances,
+  resolveInstanceStatus,
+  summarizeCompliance,
+  describeRecurrence,
+};
@@ -0,0 +1,164 @@
+/**
+ * Notification Digest
+ * Groups low and normal priority events collected for one recipient into a
+ * single summary ("6 jobs completed, 2 started late, 1 issue reported").
+ * The events themselves are kept so the digest can open a filtered list.
+ */
+
+import type { NotificationPriority } from './notificationPreferences';
+
+export type DigestEventKind =
+  | 'completed'
+  | 'started'
+  | 'started_late'
+  | 'accepted'
+  | 'rejected'
+  | 'cancelled'
+  | 'assigned'
+  | 'issue_reported'
+  | 'other';
+
+export interface DigestEvent {
+  id?: string;
+  eventType: string;
+  entityId: string;
+  priority: NotificationPriority;
+  title: string;
+  body: string;
+  status?: string;
+  lateMinutes?: number;
+  createdAt: Date;
+}
+
+export interface DigestSummary {
+  title: string;
+  body: string;
+  eventCount: number;
+  counts: Partial<Record<DigestEventKind, number>>;
+  jobIds: string[];
+  issueIds: string[];
+}
+
+// Order the kinds appear in a digest summary
+export const DIGEST_EVENT_KINDS: DigestEventKind[] = [
+  'completed',
+  'started',
+  'started_late',
+  'accepted',
+  'rejected',
+  'cancelled',
+  'assigned',
+  'issue_reported',
+  'other',
+];
+
+// Starting within this many minutes of the scheduled time is not late
+export const LATE_START_GRACE_MINUTES = 15;
+
+const plural = (count: number, singular: string, pluralForm = `${singular}s`): string =>
+  `${count} ${count === 1 ? singular : pluralForm}`;
+
+const KIND_PHRASES: Record<DigestEventKind, (count: number) => string> = {
+  completed: count => `${plural(count, 'job')} completed`,
+  started: count => `${plural(count, 'job')} started`,
+  started_late: count => `${count} started late`,
+  accepted: count => `${count} accepted`,
+  rejected: count => `${count} rejected`,
+  cancelled: count => `${count} cancelled`,
+  assigned: count => `${plural(count, 'new assignment')}`,
+  issue_reported: count => `${plural(count, 'issue')} reported`,
+  other: count => `${plural(count, 'other update')}`,
+};
+
+export const DIGEST_KIND_LABELS: Record<DigestEventKind, string> = {
+  completed: 'Completed',
+  started: 'Started',
+  started_late: 'Started late',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled',
+  assigned: 'Assigned',
+  issue_reported: 'Issues',
+  other: 'Other',
+};
+
+/**
+ * Minutes a job started past its scheduled time, or 0 if within the grace period
+ */
+export const getLateStartMinutes = (
+  scheduledFor: Date,
+  startedAt: Date,
+  graceMinutes: number = LATE_START_GRACE_MINUTES
+): number => {
+  const lateMinutes = Math.floor((startedAt.getTime() - scheduledFor.getTime()) / 60000);
+  return lateMinutes > graceMinutes ? lateMinutes : 0;
+};
+
+export const classifyDigestEvent = (event: Pick<DigestEvent, 'eventType' | 'status' | 'lateMinutes'>): DigestEventKind => {
+  if (event.eventType === 'issue.reported') return 'issue_reported';
+  if (event.eventType === 'job.assigned' || event.eventType === 'job.offered') return 'assigned';
+
+  switch (event.status) {
+    case 'completed':
+    case 'verified':
+      return 'completed';
+    case 'in_progress':
+    case 'started':
+      return event.lateMinutes && event.lateMinutes > 0 ? 'started_late' : 'started';
+    case 'accepted':
+      return 'accepted';
+    case 'rejected':
+      return 'rejected';
+    case 'cancelled':
+      return 'cancelled';
+    default:
+      return 'other';
+  }
+};
+
+/**
+ * Whether a window opened at `windowStartedAt` should be sent at `now`
+ */
+export const isDigestDue = (windowStartedAt: Date, now: Date, windowMinutes: number): boolean =>
+  now.getTime() - windowStartedAt.getTime() >= windowMinutes * 60 * 1000;
+
+export const filterDigestEvents = (events: DigestEvent[], kind?: DigestEventKind | null): DigestEvent[] =>
+  kind ? events.filter(event => classifyDigestEvent(event) === kind) : events;
+
+export const buildDigestSummary = (events: DigestEvent[]): DigestSummary => {
+  const counts: Partial<Record<DigestEventKind, number>> = {};
+  const jobIds = new Set<string>();
+  const issueIds = new Set<string>();
+
+  events.forEach(event => {
+    const kind = classifyDigestEvent(event);
+    counts[kind] = (counts[kind] || 0) + 1;
+    if (kind === 'issue_reported') {
+      issueIds.add(event.entityId);
+    } else {
+      jobIds.add(event.entityId);
+    }
+  });
+
+  const body = DIGEST_EVENT_KINDS
+    .filter(kind => counts[kind])
+    .map(kind => KIND_PHRASES[kind](counts[kind]!))
+    .join(', ');
+
+  return {
+    title: `📋 ${plural(events.length, 'update')} since your last digest`,
+    body,
+    eventCount: events.length,
+    counts,
+    jobIds: Array.from(jobIds),
+    issueIds: Array.from(issueIds),
+  };
+};
+
+export default {
+  getLateStartMinutes,
+  classifyDigestEvent,
+  isDigestDue,
+  filterDigestEvents,
+  buildDigestSummary,
+};
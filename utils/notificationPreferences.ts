@@ -0,0 +1,225 @@
+/**
+ * Notification Preferences
+ * Per-staff rules for which notifications arrive, on which channel, and
+ * whether quiet hours hold them back. Quiet hours are read in the staff
+ * member's own timezone so a night-shift cleaner's sleep window follows them.
+ */
+
+export type NotificationCategory = 'job.assigned' | 'job.status_updated' | 'reminder' | 'escalation' | 'announcement';
+
+// sms is a stand-in: messages are queued in `sms_outbox` for a gateway to pick up
+export type NotificationChannel = 'push' | 'in_app' | 'sms';
+
+export type NotificationPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export interface CategoryPreference {
+  enabled: boolean;
+  channel: NotificationChannel;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:mm, local to timezone
+  end: string; // HH:mm, may be earlier than start for an overnight window
+  timezone: string; // IANA name, e.g. Asia/Bangkok
+  allowUrgent: boolean; // urgent notifications still break through
+}
+
+// Batch low and normal priority job updates into one summary per window
+export interface DigestSettings {
+  enabled: boolean;
+  windowMinutes: number;
+}
+
+export interface NotificationPreferences {
+  categories: Record<NotificationCategory, CategoryPreference>;
+  quietHours: QuietHours;
+  digest: DigestSettings;
+}
+
+// Shape stored on older staff documents
+export interface LegacyNotificationPreferences {
+  pushEnabled?: boolean;
+  smsEnabled?: boolean;
+  jobAssignments?: boolean;
+  jobUpdates?: boolean;
+  urgentOnly?: boolean;
+}
+
+export interface DeliveryDecision {
+  deliver: boolean;
+  channel: NotificationChannel;
+  heldByQuietHours: boolean;
+  digest: boolean; // collect into the recipient's next digest instead of sending now
+  reason?: string;
+}
+
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = [
+  'job.assigned',
+  'job.status_updated',
+  'reminder',
+  'escalation',
+  'announcement',
+];
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['push', 'in_app', 'sms'];
+
+export const DIGEST_PRIORITIES: NotificationPriority[] = ['low', 'normal'];
+
+export const DIGEST_WINDOW_OPTIONS = [15, 30, 60, 120, 240];
+
+// The digest summary itself is never held for a digest
+export const DIGEST_EVENT_TYPE = 'notification.digest';
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  categories: {
+    'job.assigned': { enabled: true, channel: 'push' },
+    'job.status_updated': { enabled: true, channel: 'push' },
+    reminder: { enabled: true, channel: 'push' },
+    escalation: { enabled: true, channel: 'push' },
+    announcement: { enabled: true, channel: 'push' },
+  },
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00',
+    timezone: 'Asia/Bangkok',
+    allowUrgent: true,
+  },
+  digest: {
+    enabled: false,
+    windowMinutes: 60,
+  },
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Which preference an event type falls under
+ */
+export const getNotificationCategory = (eventType: string): NotificationCategory => {
+  if (eventType === 'job.assigned' || eventType === 'job.offered') return 'job.assigned';
+  if (eventType.includes('reminder')) return 'reminder';
+  if (eventType.includes('escalat')) return 'escalation';
+  if (eventType.startsWith('announcement.')) return 'announcement';
+  return 'job.status_updated';
+};
+
+/**
+ * Fill gaps from defaults and read the old boolean flags
+ */
+export const normalizeNotificationPreferences = (
+  stored?: Partial<NotificationPreferences> | null,
+  legacy?: LegacyNotificationPreferences | null
+): NotificationPreferences => {
+  const categories = { ...DEFAULT_NOTIFICATION_PREFERENCES.categories };
+
+  if (legacy) {
+    const channel: NotificationChannel = legacy.pushEnabled === false ? (legacy.smsEnabled ? 'sms' : 'in_app') : 'push';
+    NOTIFICATION_CATEGORIES.forEach(category => {
+      categories[category] = { ...categories[category], channel };
+    });
+    if (legacy.jobAssignments === false) categories['job.assigned'] = { ...categories['job.assigned'], enabled: false };
+    if (legacy.jobUpdates === false) categories['job.status_updated'] = { ...categories['job.status_updated'], enabled: false };
+  }
+
+  NOTIFICATION_CATEGORIES.forEach(category => {
+    if (stored?.categories?.[category]) {
+      categories[category] = { ...categories[category], ...stored.categories[category] };
+    }
+  });
+
+  return {
+    categories,
+    quietHours: { ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours, ...stored?.quietHours },
+    digest: { ...DEFAULT_NOTIFICATION_PREFERENCES.digest, ...stored?.digest },
+  };
+};
+
+export const parseTimeOfDay = (value: string): number => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/**
+ * Minutes past midnight at `date` in the given timezone
+ */
+export const minutesInTimezone = (date: Date, timezone: string): number => {
+  try {
+    const parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+    const hour = Number(parts.find(part => part.type === 'hour')?.value);
+    const minute = Number(parts.find(part => part.type === 'minute')?.value);
+    return hour * 60 + minute;
+  } catch {
+    // Unknown timezone: fall back to the device clock
+    return date.getHours() * 60 + date.getMinutes();
+  }
+};
+
+export const isWithinQuietHours = (quietHours: QuietHours, date: Date): boolean => {
+  if (!quietHours.enabled) return false;
+
+  const start = parseTimeOfDay(quietHours.start);
+  const end = parseTimeOfDay(quietHours.end);
+  const now = minutesInTimezone(date, quietHours.timezone);
+  if (start === end) return false;
+
+  return start < end ? now >= start && now < end : now >= start || now < end;
+};
+
+/**
+ * When the quiet window containing `date` ends
+ */
+export const getQuietHoursEnd = (quietHours: QuietHours, date: Date): Date => {
+  const now = minutesInTimezone(date, quietHours.timezone);
+  const untilEnd = (parseTimeOfDay(quietHours.end) - now + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const end = new Date(date.getTime() + untilEnd * 60 * 1000);
+  end.setSeconds(0, 0);
+  return end;
+};
+
+/**
+ * Decide whether and how one notification reaches a staff member at `at`.
+ * During quiet hours it is kept in-app only (silent) unless urgent and the
+ * staff member lets urgent notifications through. With digests on, low and
+ * normal priority job updates wait for the next digest.
+ */
+export const resolveDelivery = (
+  preferences: NotificationPreferences,
+  eventType: string,
+  priority: NotificationPriority,
+  at: Date
+): DeliveryDecision => {
+  const category = getNotificationCategory(eventType);
+  const preference = preferences.categories[category];
+
+  if (!preference.enabled) {
+    return { deliver: false, channel: preference.channel, heldByQuietHours: false, digest: false, reason: `${category} notifications are turned off` };
+  }
+
+  const digestible = category === 'job.status_updated' && eventType !== DIGEST_EVENT_TYPE && DIGEST_PRIORITIES.includes(priority);
+  if (preferences.digest.enabled && digestible) {
+    return { deliver: true, channel: preference.channel, heldByQuietHours: false, digest: true, reason: 'Digest' };
+  }
+
+  const isQuiet = isWithinQuietHours(preferences.quietHours, at);
+  const breaksThrough = priority === 'urgent' && preferences.quietHours.allowUrgent;
+  if (isQuiet && !breaksThrough && preference.channel !== 'in_app') {
+    return { deliver: true, channel: 'in_app', heldByQuietHours: true, digest: false, reason: 'Quiet hours' };
+  }
+
+  return { deliver: true, channel: preference.channel, heldByQuietHours: false, digest: false };
+};
+
+export default {
+  getNotificationCategory,
+  normalizeNotificationPreferences,
+  isWithinQuietHours,
+  getQuietHoursEnd,
+  resolveDelivery,
+};
@@ -0,0 +1,199 @@
+/**
+ * Permissions
+ * The single role/permission matrix for the app. Route guards, visible UI
+ * actions and the generated Firestore rules (scripts/generateFirestoreRules.ts)
+ * are all derived from PERMISSION_MATRIX, so a change here changes all three.
+ */
+
+import type {
+  AdminPermission,
+  PermissionAction,
+  PermissionResource,
+  PermissionScope,
+} from '@/types/admin';
+
+export type AppRole = 'admin' | 'manager' | 'supervisor' | 'cleaner' | 'maintenance' | 'concierge';
+
+export const APP_ROLES: AppRole[] = ['admin', 'manager', 'supervisor', 'cleaner', 'maintenance', 'concierge'];
+
+export const PERMISSION_RESOURCES: PermissionResource[] = [
+  'bookings',
+  'staff',
+  'tasks',
+  'properties',
+  'users',
+  'jobs',
+  'issues',
+  'inventory',
+  'reports',
+  'payments',
+];
+
+export const PERMISSION_ACTIONS: PermissionAction[] = ['read', 'write', 'delete', 'approve'];
+
+// Legacy role names still found on older staff and user records
+const ROLE_ALIASES: Record<string, AppRole> = {
+  staff: 'cleaner',
+  housekeeper: 'cleaner',
+  inspector: 'supervisor',
+};
+
+const ALL_ACTIONS = PERMISSION_ACTIONS;
+
+const FIELD_STAFF_PERMISSIONS: AdminPermission[] = [
+  { resource: 'jobs', actions: ['read', 'write'], scope: 'own' },
+  { resource: 'tasks', actions: ['read', 'write'], scope: 'own' },
+  { resource: 'issues', actions: ['read', 'write'], scope: 'own' },
+  { resource: 'staff', actions: ['read'], scope: 'own' },
+  { resource: 'properties', actions: ['read'] },
+  // Completing a job deducts its consumables from the property's stock
+  { resource: 'inventory', actions: ['read', 'write'] },
+];
+
+export const PERMISSION_MATRIX: Record<AppRole, AdminPermission[]> = {
+  admin: PERMISSION_RESOURCES.map(resource => ({ resource, actions: ALL_ACTIONS })),
+  manager: [
+    { resource: 'bookings', actions: ['read', 'write', 'approve'] },
+    { resource: 'staff', actions: ['read', 'write'] },
+    { resource: 'tasks', actions: ALL_ACTIONS },
+    { resource: 'properties', actions: ['read', 'write'] },
+    { resource: 'users', actions: ['read'] },
+    { resource: 'jobs', actions: ALL_ACTIONS },
+    { resource: 'issues', actions: ['read', 'write', 'approve'] },
+    { resource: 'inventory', actions: ALL_ACTIONS },
+    { resource: 'reports', actions: ['read'] },
+    { resource: 'payments', actions: ['read', 'approve'] },
+  ],
+  // Runs a team in the field: verifies and reworks their jobs, but cannot touch bookings
+  supervisor: [
+    { resource: 'bookings', actions: ['read'] },
+    { resource: 'staff', actions: ['read'], scope: 'team' },
+    { resource: 'tasks', actions: ['read', 'write', 'approve'], scope: 'team' },
+    { resource: 'properties', actions: ['read'] },
+    { resource: 'jobs', actions: ['read', 'write', 'approve'], scope: 'team' },
+    { resource: 'issues', actions: ['read', 'write', 'approve'], scope: 'team' },
+    { resource: 'inventory', actions: ['read', 'write'] },
+    { resource: 'reports', actions: ['read'], scope: 'team' },
+    // Signs off their team's timesheets
+    { resource: 'payments', actions: ['read', 'approve'], scope: 'team' },
+  ],
+  cleaner: FIELD_STAFF_PERMISSIONS,
+  maintenance: FIELD_STAFF_PERMISSIONS,
+  concierge: [
+    ...FIELD_STAFF_PERMISSIONS,
+    // Guest-facing, so needs to see who is arriving
+    { resource: 'bookings', actions: ['read'] },
+  ],
+};
+
+export interface PermissionSubject {
+  id: string;
+  role?: string;
+  teamId?: string;
+}
+
+export interface PermissionTarget {
+  ownerId?: string;
+  teamId?: string;
+}
+
+export const normalizeRole = (role: string | undefined): AppRole | null => {
+  if (!role) return null;
+  const key = role.toLowerCase();
+  if ((APP_ROLES as string[]).includes(key)) return key as AppRole;
+  return ROLE_ALIASES[key] || null;
+};
+
+/**
+ * The widest scope a role holds for an action, or null when it has none
+ */
+export const getPermissionScope = (
+  role: string | undefined,
+  resource: PermissionResource,
+  action: PermissionAction
+): PermissionScope | null => {
+  const appRole = normalizeRole(role);
+  if (!appRole) return null;
+
+  const scopes = PERMISSION_MATRIX[appRole]
+    .filter(permission => permission.resource === resource && permission.actions.includes(action))
+    .map(permission => permission.scope || 'all');
+
+  if (scopes.includes('all')) return 'all';
+  if (scopes.includes('team')) return 'team';
+  if (scopes.includes('own')) return 'own';
+  return null;
+};
+
+/**
+ * Whether a role can perform an action on at least some records of a resource.
+ * Use for showing UI actions; use canOn for a specific record.
+ */
+export const can = (role: string | undefined, resource: PermissionResource, action: PermissionAction): boolean =>
+  getPermissionScope(role, resource, action) !== null;
+
+/**
+ * Whether a user can perform an action on a specific record
+ */
+export const canOn = (
+  subject: PermissionSubject,
+  resource: PermissionResource,
+  action: PermissionAction,
+  target: PermissionTarget
+): boolean => {
+  switch (getPermissionScope(subject.role, resource, action)) {
+    case 'all':
+      return true;
+    case 'team':
+      return (!!subject.teamId && subject.teamId === target.teamId) || target.ownerId === subject.id;
+    case 'own':
+      return target.ownerId === subject.id;
+    default:
+      return false;
+  }
+};
+
+export interface RoutePermission {
+  resource: PermissionResource;
+  action: PermissionAction;
+  minScope?: PermissionScope; // defaults to 'own', i.e. any access
+}
+
+const SCOPE_RANK: Record<PermissionScope, number> = { own: 1, team: 2, all: 3 };
+
+/**
+ * What each guarded screen requires
+ */
+export const ROUTE_PERMISSIONS: Record<string, RoutePermission> = {
+  '/admin/dashboard': { resource: 'bookings', action: 'approve' },
+  '/(modal)/shopping-list': { resource: 'inventory', action: 'approve' },
+  '/(modal)/issues': { resource: 'issues', action: 'approve' },
+  '/(modal)/property-knowledge': { resource: 'properties', action: 'write' },
+  '/(modal)/review-queue': { resource: 'jobs', action: 'approve' },
+  '/(modal)/job-inbox': { resource: 'jobs', action: 'approve' },
+  '/(modal)/site-timeline': { resource: 'jobs', action: 'approve' },
+  '/(modal)/staff-pins': { resource: 'staff', action: 'write' },
+  '/(modal)/roster': { resource: 'staff', action: 'write' },
+  '/(modal)/announcements': { resource: 'staff', action: 'write' },
+  '/(modal)/timesheets': { resource: 'payments', action: 'approve' },
+  // Alerts and policies cover every team
+  '/(modal)/escalations': { resource: 'jobs', action: 'approve', minScope: 'all' },
+  // Resolving a conflict can overwrite anyone's job edits
+  '/(modal)/sync-conflicts': { resource: 'jobs', action: 'write', minScope: 'all' },
+};
+
+export const canAccessRoute = (role: string | undefined, route: string): boolean => {
+  const required = ROUTE_PERMISSIONS[route];
+  if (!required) return true;
+
+  const scope = getPermissionScope(role, required.resource, required.action);
+  return !!scope && SCOPE_RANK[scope] >= SCOPE_RANK[required.minScope || 'own'];
+};
+
+export default {
+  normalizeRole,
+  getPermissionScope,
+  can,
+  canOn,
+  canAccessRoute,
+};
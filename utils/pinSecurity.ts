@@ -0,0 +1,80 @@
+/**
+ * PIN Security
+ * PIN format rules and the exponential backoff lockout policy kept on the
+ * shared staff record, so every device sees the same counter.
+ */
+
+export interface PINLockoutState {
+  failedAttempts: number;
+  lastFailedAt?: number; // epoch ms
+  lockedUntil?: number; // epoch ms
+}
+
+export interface PINAttemptStatus {
+  canAttempt: boolean;
+  attemptsLeft: number; // attempts before the next lockout
+  lockoutTime?: number; // epoch ms when the current lockout ends
+}
+
+// Failed attempts allowed before the first lockout
+export const FREE_PIN_ATTEMPTS = 3;
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+// A quiet day clears the counter
+const ATTEMPT_RESET_MS = 24 * 60 * 60 * 1000;
+
+export const isValidPINFormat = (pin: string): boolean => /^\d{4}$/.test(pin);
+
+export const isPINHash = (value: unknown): value is string =>
+  typeof value === 'string' && /^\$2[aby]\$\d{2}\$/.test(value);
+
+/**
+ * Lockout after the given number of consecutive failures: 30s after the
+ * third, doubling with each further failure, capped at an hour
+ */
+export const getLockoutDuration = (failedAttempts: number): number => {
+  if (failedAttempts < FREE_PIN_ATTEMPTS) return 0;
+  return Math.min(MAX_LOCKOUT_MS, BASE_LOCKOUT_MS * 2 ** (failedAttempts - FREE_PIN_ATTEMPTS));
+};
+
+const getActiveFailures = (state: PINLockoutState | undefined, now: number): number => {
+  if (!state?.failedAttempts) return 0;
+  if (state.lastFailedAt && now - state.lastFailedAt > ATTEMPT_RESET_MS) return 0;
+  return state.failedAttempts;
+};
+
+export const getPINAttemptStatus = (state: PINLockoutState | undefined, now: number = Date.now()): PINAttemptStatus => {
+  const failedAttempts = getActiveFailures(state, now);
+  const attemptsLeft = Math.max(1, FREE_PIN_ATTEMPTS - failedAttempts);
+
+  if (state?.lockedUntil && state.lockedUntil > now) {
+    return { canAttempt: false, attemptsLeft: 0, lockoutTime: state.lockedUntil };
+  }
+  return { canAttempt: true, attemptsLeft };
+};
+
+export const recordPINFailure = (state: PINLockoutState | undefined, now: number = Date.now()): PINLockoutState => {
+  const failedAttempts = getActiveFailures(state, now) + 1;
+  const lockout = getLockoutDuration(failedAttempts);
+
+  return {
+    failedAttempts,
+    lastFailedAt: now,
+    ...(lockout > 0 && { lockedUntil: now + lockout }),
+  };
+};
+
+export const formatLockoutMessage = (lockoutTime: number, now: number = Date.now()): string => {
+  const seconds = Math.max(1, Math.ceil((lockoutTime - now) / 1000));
+  const wait = seconds < 60 ? `${seconds} seconds` : `${Math.ceil(seconds / 60)} minutes`;
+  return `Too many incorrect attempts. Try again in ${wait}.`;
+};
+
+export default {
+  isValidPINFormat,
+  isPINHash,
+  getLockoutDuration,
+  getPINAttemptStatus,
+  recordPINFailure,
+  formatLockoutMessage,
+};
@@ -3,7 +3,9 @@
  * Helper functions for role-based access control and feature detection
  */
 
-export type UserRole = 'admin' | 'manager' | 'cleaner' | 'maintenance' | 'staff';
+import { can, getPermissionScope } from '@/utils/permissions';
+
+export type UserRole = 'admin' | 'manager' | 'supervisor' | 'cleaner' | 'maintenance' | 'concierge' | 'staff';
 
 export interface RolePermissions {
   canViewAllBookings: boolean;
@@ -20,67 +22,40 @@ export interface RolePermissions {
  * Define role hierarchy and permissions
  */
 export const ROLE_HIERARCHY: Record<UserRole, number> = {
-  admin: 5,
-  manager: 4,
+  admin: 6,
+  manager: 5,
+  supervisor: 4,
   staff: 3,
+  concierge: 2,
   maintenance: 2,
   cleaner: 1,
 };
 
+/**
+ * Feature flags for a role, read from the permission matrix in utils/permissions.ts
+ */
+const derivePermissions = (role: UserRole): RolePermissions => ({
+  canViewAllBookings: getPermissionScope(role, 'bookings', 'read') === 'all',
+  canAssignStaff: can(role, 'tasks', 'approve'),
+  canManageJobs: can(role, 'jobs', 'approve'),
+  canViewProperties: can(role, 'properties', 'read'),
+  canManagePayments: can(role, 'payments', 'write'),
+  canViewReports: can(role, 'reports', 'read'),
+  canManageUsers: can(role, 'users', 'write'),
+  canAccessAdminFeatures: can(role, 'jobs', 'approve'),
+});
+
 /**
  * Define permissions for each role
  */
 export const ROLE_PERMISSIONS: Record<UserRole, RolePermissions> = {
-  admin: {
-    canViewAllBookings: true,
-    canAssignStaff: true,
-    canManageJobs: true,
-    canViewProperties: true,
-    canManagePayments: true,
-    canViewReports: true,
-    canManageUsers: true,
-    canAccessAdminFeatures: true,
-  },
-  manager: {
-    canViewAllBookings: true,
-    canAssignStaff: true,
-    canManageJobs: true,
-    canViewProperties: true,
-    canManagePayments: false,
-    canViewReports: true,
-    canManageUsers: false,
-    canAccessAdminFeatures: true,
-  },
-  staff: {
-    canViewAllBookings: false,
-    canAssignStaff: false,
-    canManageJobs: false,
-    canViewProperties: false,
-    canManagePayments: false,
-    canViewReports: false,
-    canManageUsers: false,
-    canAccessAdminFeatures: false,
-  },
-  maintenance: {
-    canViewAllBookings: false,
-    canAssignStaff: false,
-    canManageJobs: false,
-    canViewProperties: false,
-    canManagePayments: false,
-    canViewReports: false,
-    canManageUsers: false,
-    canAccessAdminFeatures: false,
-  },
-  cleaner: {
-    canViewAllBookings: false,
-    canAssignStaff: false,
-    canManageJobs: false,
-    canViewProperties: false,
-    canManagePayments: false,
-    canViewReports: false,
-    canManageUsers: false,
-    canAccessAdminFeatures: false,
-  },
+  admin: derivePermissions('admin'),
+  manager: derivePermissions('manager'),
+  supervisor: derivePermissions('supervisor'),
+  staff: derivePermissions('staff'),
+  concierge: derivePermissions('concierge'),
+  maintenance: derivePermissions('maintenance'),
+  cleaner: derivePermissions('cleaner'),
 };
 
 /**
@@ -135,10 +110,10 @@ export function isAdminOrManager(userRole: string | undefined): boolean {
 }
 
 /**
- * Check if user is staff member (cleaner, maintenance, staff)
+ * Check if user is staff member (cleaner, maintenance, concierge, staff)
  */
 export function isStaffMember(userRole: string | undefined): boolean {
-  return hasRole(userRole, ['cleaner', 'maintenance', 'staff']);
+  return hasRole(userRole, ['cleaner', 'maintenance', 'concierge', 'staff']);
 }
 
 /**
@@ -150,6 +125,8 @@ export function getRoleDisplayName(userRole: string | undefined): string {
   const roleNames: Record<UserRole, string> = {
     admin: 'Administrator',
     manager: 'Manager',
+    supervisor: 'Supervisor',
+    concierge: 'Concierge',
     staff: 'Staff Member',
     maintenance: 'Maintenance Technician',
     cleaner: 'Cleaner',
@@ -167,6 +144,8 @@ export function getRoleColor(userRole: string | undefined): string {
   const roleColors: Record<UserRole, string> = {
     admin: '#8b5cf6',
     manager: '#3b82f6',
+    supervisor: '#06b6d4',
+    concierge: '#ec4899',
     staff: '#6b7280',
     maintenance: '#f59e0b',
     cleaner: '#22c55e',
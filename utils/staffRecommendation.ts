@@ -0,0 +1,392 @@
+/**
+ * Staff Recommendation Engine
+ * Ranks candidate staff for a job before anyone is assigned.
+ *
+ * Each candidate is scored on skills, availability (working hours, leave and
+ * shifts), current workload, distance from their last known location and
+ * their latest audit scores.
+ * Every factor carries a reason so admins can see why someone ranks where they do.
+ */
+
+import {
+  collection,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit as firestoreLimit
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { AdminService } from '@/services/adminService';
+import { availabilityService } from '@/services/availabilityService';
+import { propertyService } from '@/services/propertyService';
+import type { StaffAuditReport } from '@/services/staffAuditService';
+import type { Staff } from '@/types/admin';
+import type { AvailabilityCheck } from '@/types/availability';
+import type {
+  JobAssignment,
+  StaffRecommendation,
+  StaffRecommendationFactor,
+  StaffRecommendationFactorKey,
+  StaffRecommendationRequest
+} from '@/types/jobAssignment';
+
+interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Everything the scorer needs to know about one candidate
+export interface StaffCandidateSignals {
+  staff: Staff;
+  jobsOnDay: number;
+  minutesOnDay: number;
+  conflictingJobs: string[];
+  lastLocation?: Coordinates | null;
+  audit?: Pick<StaffAuditReport, 'qualityScore' | 'trustScore'> | null;
+  availability?: AvailabilityCheck | null; // falls back to the weekday booleans when unset
+}
+
+const FACTOR_WEIGHTS: Record<StaffRecommendationFactorKey, number> = {
+  skills: 30,
+  availability: 20,
+  workload: 20,
+  distance: 15,
+  quality: 15,
+};
+
+const FACTOR_LABELS: Record<StaffRecommendationFactorKey, string> = {
+  skills: 'Skills',
+  availability: 'Availability',
+  workload: 'Workload',
+  distance: 'Distance',
+  quality: 'Quality & trust',
+};
+
+// Same limits JobAssignmentValidator warns about
+const MAX_JOBS_PER_DAY = 8;
+const MAX_MINUTES_PER_DAY = 10 * 60;
+
+// Beyond this distance the distance factor scores zero
+const MAX_DISTANCE_KM = 30;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+export class StaffRecommendationEngine {
+
+  /**
+   * Rank staff for a job, best candidate first.
+   * Candidates default to every active staff member. With `availableOnly`,
+   * anyone on leave, off that day or outside their hours is left out, which
+   * is what automatic assignment wants.
+   */
+  static async recommendStaff(
+    request: StaffRecommendationRequest,
+    options: { candidates?: Staff[]; limit?: number; availableOnly?: boolean } = {}
+  ): Promise<StaffRecommendation[]> {
+    try {
+      const candidates = options.candidates ?? await AdminService.getStaff();
+      const propertyCoordinates = await this.getPropertyCoordinates(request);
+
+      const scored = await Promise.all(
+        candidates
+          .filter(staff => staff.isActive !== false)
+          .map(async (staff) => {
+            const [workload, lastLocation, audit, availability] = await Promise.all([
+              this.getWorkload(staff.id, request),
+              this.getLastKnownLocation(staff.id),
+              this.getLatestAudit(staff.id),
+              this.getAvailability(staff, request),
+            ]);
+
+            if (options.availableOnly && availability && availability.status !== 'available') {
+              return null;
+            }
+
+            return this.scoreCandidate(
+              request,
+              { staff, ...workload, lastLocation, audit, availability },
+              propertyCoordinates
+            );
+          })
+      );
+
+      const recommendations = scored.filter((candidate): candidate is StaffRecommendation => candidate !== null);
+      recommendations.sort((a, b) => b.score - a.score);
+      return options.limit ? recommendations.slice(0, options.limit) : recommendations;
+    } catch (error) {
+      console.error('❌ Error ranking staff for job:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Score one candidate from already loaded signals
+   */
+  static scoreCandidate(
+    request: StaffRecommendationRequest,
+    signals: StaffCandidateSignals,
+    propertyCoordinates?: Coordinates | null
+  ): StaffRecommendation {
+    const { staff } = signals;
+    const distanceKm = signals.lastLocation && propertyCoordinates
+      ? this.calculateDistanceKm(signals.lastLocation, propertyCoordinates)
+      : undefined;
+
+    const factors = [
+      this.scoreSkills(request, staff),
+      this.scoreAvailability(request, signals),
+      this.scoreWorkload(request, signals),
+      this.scoreDistance(distanceKm),
+      this.scoreQuality(signals),
+    ];
+
+    const score = Math.round(factors.reduce((total, factor) => total + factor.points, 0));
+
+    return {
+      staffId: staff.id,
+      staffName: staff.name,
+      role: staff.role,
+      score,
+      factors,
+      conflictingJobs: signals.conflictingJobs,
+      distanceKm,
+    };
+  }
+
+  private static buildFactor(
+    key: StaffRecommendationFactorKey,
+    score: number,
+    reason: string
+  ): StaffRecommendationFactor {
+    const clamped = Math.max(0, Math.min(1, score));
+    return {
+      key,
+      label: FACTOR_LABELS[key],
+      score: clamped,
+      weight: FACTOR_WEIGHTS[key],
+      points: Math.round(clamped * FACTOR_WEIGHTS[key] * 10) / 10,
+      reason,
+    };
+  }
+
+  private static scoreSkills(request: StaffRecommendationRequest, staff: Staff): StaffRecommendationFactor {
+    const required = (request.requiredSkills || []).map(skill => skill.toLowerCase());
+    if (required.length === 0) {
+      return this.buildFactor('skills', 1, 'No specific skills required');
+    }
+
+    const staffSkills = (staff.skills || []).map(skill => skill.toLowerCase());
+    const matched = required.filter(skill => staffSkills.includes(skill));
+    const missing = required.filter(skill => !staffSkills.includes(skill));
+
+    return this.buildFactor(
+      'skills',
+      matched.length / required.length,
+      missing.length === 0
+        ? `Has all required skills (${matched.join(', ')})`
+        : `Missing ${missing.join(', ')}`
+    );
+  }
+
+  private static scoreAvailability(
+    request: StaffRecommendationRequest,
+    signals: StaffCandidateSignals
+  ): StaffRecommendationFactor {
+    const { availability } = signals;
+    if (availability) {
+      if (availability.status !== 'available') {
+        return this.buildFactor('availability', availability.status === 'partial' ? 0.25 : 0, availability.reason);
+      }
+      if (signals.conflictingJobs.length > 0) {
+        return this.buildFactor(
+          'availability',
+          0.25,
+          `${availability.reason} but has ${signals.conflictingJobs.length} overlapping job(s)`
+        );
+      }
+      return this.buildFactor('availability', 1, `${availability.reason}, no overlapping jobs`);
+    }
+
+    const weekday = WEEKDAYS[new Date(request.scheduledFor).getDay()];
+    const worksThatDay = signals.staff.availability?.[weekday] ?? true;
+    const dayLabel = weekday.charAt(0).toUpperCase() + weekday.slice(1);
+
+    if (!worksThatDay) {
+      return this.buildFactor('availability', 0, `Does not work on ${dayLabel}s`);
+    }
+    if (signals.conflictingJobs.length > 0) {
+      return this.buildFactor(
+        'availability',
+        0.25,
+        `Works ${dayLabel}s but has ${signals.conflictingJobs.length} overlapping job(s)`
+      );
+    }
+    return this.buildFactor('availability', 1, `Works ${dayLabel}s with no overlapping jobs`);
+  }
+
+  private static scoreWorkload(
+    request: StaffRecommendationRequest,
+    signals: StaffCandidateSignals
+  ): StaffRecommendationFactor {
+    const minutesWithJob = signals.minutesOnDay + (request.estimatedDuration || 60);
+    const hours = Math.round((minutesWithJob / 60) * 10) / 10;
+
+    if (signals.jobsOnDay >= MAX_JOBS_PER_DAY || minutesWithJob > MAX_MINUTES_PER_DAY) {
+      return this.buildFactor('workload', 0, `Already at capacity (${signals.jobsOnDay} jobs, ${hours}h with this job)`);
+    }
+
+    return this.buildFactor(
+      'workload',
+      1 - signals.jobsOnDay / MAX_JOBS_PER_DAY,
+      `${signals.jobsOnDay} other job(s) that day, ${hours}h with this job`
+    );
+  }
+
+  private static scoreDistance(distanceKm?: number): StaffRecommendationFactor {
+    if (distanceKm === undefined) {
+      return this.buildFactor('distance', 0.5, 'Location unknown');
+    }
+    return this.buildFactor(
+      'distance',
+      1 - distanceKm / MAX_DISTANCE_KM,
+      `${distanceKm.toFixed(1)} km from last known location`
+    );
+  }
+
+  private static scoreQuality(signals: StaffCandidateSignals): StaffRecommendationFactor {
+    const { audit, staff } = signals;
+    if (audit) {
+      return this.buildFactor(
+        'quality',
+        (audit.qualityScore + audit.trustScore) / 200,
+        `Latest audit: quality ${audit.qualityScore}, trust ${audit.trustScore}`
+      );
+    }
+    if (staff.rating) {
+      return this.buildFactor('quality', staff.rating / 5, `No audit yet, rated ${staff.rating}/5`);
+    }
+    return this.buildFactor('quality', 0.5, 'No audit history');
+  }
+
+  private static async getAvailability(
+    staff: Staff,
+    request: StaffRecommendationRequest
+  ): Promise<AvailabilityCheck | null> {
+    try {
+      return await availabilityService.checkAvailability(
+        staff,
+        new Date(request.scheduledFor),
+        request.estimatedDuration || 60
+      );
+    } catch (error) {
+      console.warn(`Could not load availability for ${staff.id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Jobs already on the candidate's day and any that overlap this one
+   */
+  private static async getWorkload(
+    staffId: string,
+    request: StaffRecommendationRequest
+  ): Promise<Pick<StaffCandidateSignals, 'jobsOnDay' | 'minutesOnDay' | 'conflictingJobs'>> {
+    const workload = { jobsOnDay: 0, minutesOnDay: 0, conflictingJobs: [] as string[] };
+
+    try {
+      const jobStart = new Date(request.scheduledFor);
+      const jobEnd = new Date(jobStart.getTime() + (request.estimatedDuration || 60) * 60 * 1000);
+      const dayStart = new Date(jobStart);
+      dayStart.setHours(0, 0, 0, 0);
+      const dayEnd = new Date(jobStart);
+      dayEnd.setHours(23, 59, 59, 999);
+
+      const activeJobsQuery = query(
+        collection(db, 'job_assignments'),
+        where('staffId', '==', staffId),
+        where('status', 'in', ['assigned', 'accepted', 'in_progress'])
+      );
+      const snapshot = await getDocs(activeJobsQuery);
+
+      snapshot.forEach((doc) => {
+        const job = doc.data() as JobAssignment;
+        const existingStart = job.scheduledFor.toDate();
+        const existingDuration = job.estimatedDuration || 60;
+        const existingEnd = new Date(existingStart.getTime() + existingDuration * 60 * 1000);
+
+        if (existingStart >= dayStart && existingStart <= dayEnd) {
+          workload.jobsOnDay++;
+          workload.minutesOnDay += existingDuration;
+        }
+        if (jobStart < existingEnd && jobEnd > existingStart) {
+          workload.conflictingJobs.push(doc.id);
+        }
+      });
+    } catch (error) {
+      console.error('❌ Error loading staff workload:', error);
+    }
+
+    return workload;
+  }
+
+  private static async getLastKnownLocation(staffId: string): Promise<Coordinates | null> {
+    try {
+      const locationQuery = query(
+        collection(db, 'location_updates'),
+        where('staffId', '==', staffId),
+        orderBy('timestamp', 'desc'),
+        firestoreLimit(1)
+      );
+      const snapshot = await getDocs(locationQuery);
+      const location = snapshot.docs[0]?.data().location;
+      return location ? { latitude: location.latitude, longitude: location.longitude } : null;
+    } catch (error) {
+      console.error('❌ Error loading staff location:', error);
+      return null;
+    }
+  }
+
+  private static async getLatestAudit(staffId: string): Promise<StaffAuditReport | null> {
+    try {
+      const auditQuery = query(
+        collection(db, 'ai_audits', staffId, 'reports'),
+        orderBy('createdAt', 'desc'),
+        firestoreLimit(1)
+      );
+      const snapshot = await getDocs(auditQuery);
+      return snapshot.empty ? null : snapshot.docs[0].data() as StaffAuditReport;
+    } catch (error) {
+      console.error('❌ Error loading staff audit:', error);
+      return null;
+    }
+  }
+
+  private static async getPropertyCoordinates(request: StaffRecommendationRequest): Promise<Coordinates | null> {
+    if (request.location?.coordinates) {
+      return request.location.coordinates;
+    }
+
+    const result = await propertyService.getProperty(request.propertyId);
+    const coordinates = result.property?.location.coordinates;
+    // Properties without a pin are stored as 0,0
+    return coordinates && (coordinates.latitude || coordinates.longitude) ? coordinates : null;
+  }
+
+  private static calculateDistanceKm(from: Coordinates, to: Coordinates): number {
+    const R = 6371; // Earth's radius in km
+    const φ1 = from.latitude * Math.PI/180;
+    const φ2 = to.latitude * Math.PI/180;
+    const Δφ = (to.latitude - from.latitude) * Math.PI/180;
+    const Δλ = (to.longitude - from.longitude) * Math.PI/180;
+
+    const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
+              Math.cos(φ1) * Math.cos(φ2) *
+              Math.sin(Δλ/2) * Math.sin(Δλ/2);
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+
+    return R * c;
+  }
+}
+
+export default StaffRecommendationEngine;
@@ -0,0 +1,327 @@
+/**
+ * Timesheets and Payroll
+ * Turns the jobs a staff member worked into daily and weekly timesheets and
+ * prices a week of them for payroll.
+ *
+ * Worked time is the job's session window. The gap since the previous job on
+ * the same day counts as travel when it is short enough; longer gaps are a
+ * break. Supervisor adjustments are added on top and never edit the entries.
+ *
+ * Hourly job types, paid travel and adjustments count towards overtime:
+ * first per day, then whatever regular time is left over the weekly limit.
+ * Overtime is paid as a premium on top at the default hourly rate, so per-job
+ * rates (turnovers) are never affected by it.
+ */
+
+import type { JobType } from '@/types/jobAssignment';
+import type {
+  PayPeriod,
+  PayPeriodStatus,
+  PayRate,
+  PayrollExport,
+  PayrollLine,
+  PayrollRecord,
+  PayrollSettings,
+  TimesheetAdjustment,
+  TimesheetDay,
+  TimesheetEntry,
+  TimesheetWork,
+  WeeklyTimesheet
+} from '@/types/timesheet';
+
+export const DEFAULT_PAYROLL_SETTINGS: PayrollSettings = {
+  currency: 'THB',
+  defaultHourlyRate: 150,
+  rates: {},
+  travelPaid: true,
+  maxTravelGapMinutes: 60,
+  dailyOvertimeAfterMinutes: 8 * 60,
+  weeklyOvertimeAfterMinutes: 48 * 60,
+  overtimeMultiplier: 1.5,
+};
+
+export const PAY_PERIOD_STATUS_LABELS: Record<PayPeriodStatus, string> = {
+  open: 'Open',
+  approved: 'Approved',
+  locked: 'Locked',
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Local calendar day of a date as YYYY-MM-DD
+ */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * The Monday-to-Sunday pay period containing a date
+ */
+export const getPayPeriod = (date: Date): PayPeriod => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  const end = new Date(start);
+  end.setDate(end.getDate() + 7);
+  return { id: toDateKey(start), start, end };
+};
+
+/**
+ * Only open and approved periods can still change; an approved period goes
+ * back to open when adjusted
+ */
+export const canAdjustPeriod = (status: PayPeriodStatus): boolean => status !== 'locked';
+
+export const canTransitionPeriod = (from: PayPeriodStatus, to: PayPeriodStatus): boolean =>
+  (from === 'open' && to === 'approved') ||
+  (from === 'approved' && (to === 'locked' || to === 'open'));
+
+export const getWorkedMinutes = (work: TimesheetWork): number =>
+  Math.max(0, Math.round((work.endedAt.getTime() - work.startedAt.getTime()) / MINUTE_MS));
+
+/**
+ * One entry per job, in time order, with travel and job-level adjustments
+ */
+export const buildTimesheetEntries = (
+  work: TimesheetWork[],
+  adjustments: TimesheetAdjustment[],
+  settings: PayrollSettings = DEFAULT_PAYROLL_SETTINGS
+): TimesheetEntry[] => {
+  const lastEnd = new Map<string, Date>();
+
+  return [...work]
+    .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime())
+    .map(item => {
+      const date = toDateKey(item.startedAt);
+      const dayKey = `${item.staffId}_${date}`;
+      const previousEnd = lastEnd.get(dayKey);
+      const gapMinutes = previousEnd
+        ? Math.round((item.startedAt.getTime() - previousEnd.getTime()) / MINUTE_MS)
+        : 0;
+
+      if (!previousEnd || item.endedAt > previousEnd) {
+        lastEnd.set(dayKey, item.endedAt);
+      }
+
+      return {
+        ...item,
+        date,
+        workedMinutes: getWorkedMinutes(item),
+        travelMinutes: gapMinutes > 0 && gapMinutes <= settings.maxTravelGapMinutes ? gapMinutes : 0,
+        adjustmentMinutes: sum(
+          adjustments
+            .filter(adjustment => adjustment.jobId === item.jobId && adjustment.staffId === item.staffId)
+            .map(adjustment => adjustment.minutes)
+        ),
+      };
+    });
+};
+
+/**
+ * Entries and adjustments grouped by day. Adjustments not tied to one of the
+ * entries still count towards the day they were made for.
+ */
+export const buildTimesheetDays = (
+  entries: TimesheetEntry[],
+  adjustments: TimesheetAdjustment[]
+): TimesheetDay[] => {
+  const dates = new Set([...entries.map(entry => entry.date), ...adjustments.map(adjustment => adjustment.date)]);
+
+  return [...dates].sort().map(date => {
+    const dayEntries = entries.filter(entry => entry.date === date);
+    const dayAdjustments = adjustments.filter(adjustment => adjustment.date === date);
+    const workedMinutes = sum(dayEntries.map(entry => entry.workedMinutes));
+    const travelMinutes = sum(dayEntries.map(entry => entry.travelMinutes));
+    const adjustmentMinutes = sum(dayAdjustments.map(adjustment => adjustment.minutes));
+
+    return {
+      date,
+      entries: dayEntries,
+      adjustments: dayAdjustments,
+      workedMinutes,
+      travelMinutes,
+      adjustmentMinutes,
+      totalMinutes: Math.max(0, workedMinutes + travelMinutes + adjustmentMinutes),
+    };
+  });
+};
+
+/**
+ * A staff member's week, from the jobs they worked and the adjustments on it
+ */
+export const buildWeeklyTimesheet = (
+  staffId: string,
+  period: PayPeriod,
+  work: TimesheetWork[],
+  adjustments: TimesheetAdjustment[],
+  status: PayPeriodStatus,
+  settings: PayrollSettings = DEFAULT_PAYROLL_SETTINGS,
+  staffName?: string
+): WeeklyTimesheet => {
+  const inPeriod = work.filter(item =>
+    item.staffId === staffId && item.startedAt >= period.start && item.startedAt < period.end
+  );
+  const staffAdjustments = adjustments.filter(adjustment =>
+    adjustment.staffId === staffId && adjustment.periodId === period.id
+  );
+  const days = buildTimesheetDays(buildTimesheetEntries(inPeriod, staffAdjustments, settings), staffAdjustments);
+
+  return {
+    staffId,
+    ...(staffName && { staffName }),
+    period,
+    status,
+    days,
+    workedMinutes: sum(days.map(day => day.workedMinutes)),
+    travelMinutes: sum(days.map(day => day.travelMinutes)),
+    adjustmentMinutes: sum(days.map(day => day.adjustmentMinutes)),
+    totalMinutes: sum(days.map(day => day.totalMinutes)),
+  };
+};
+
+export const getPayRate = (jobType: JobType, settings: PayrollSettings): PayRate =>
+  settings.rates[jobType] ?? { mode: 'hourly', amount: settings.defaultHourlyRate };
+
+/**
+ * Price a weekly timesheet with the per-job-type rates and overtime rules
+ */
+export const calculatePayroll = (timesheet: WeeklyTimesheet, settings: PayrollSettings): PayrollRecord => {
+  const lines = new Map<PayrollLine['jobType'], PayrollLine>();
+  const addToLine = (jobType: PayrollLine['jobType'], rate: PayRate, minutes: number, jobs: number) => {
+    const line = lines.get(jobType) ?? { jobType, mode: rate.mode, jobs: 0, minutes: 0, rate: rate.amount, amount: 0 };
+    line.jobs += jobs;
+    line.minutes += minutes;
+    lines.set(jobType, line);
+  };
+  const defaultRate: PayRate = { mode: 'hourly', amount: settings.defaultHourlyRate };
+
+  const dailyHourlyMinutes = timesheet.days.map(day => {
+    let hourlyMinutes = 0;
+    const entryJobIds = new Set(day.entries.map(entry => entry.jobId));
+
+    day.entries.forEach(entry => {
+      const rate = getPayRate(entry.jobType, settings);
+      const minutes = Math.max(0, entry.workedMinutes + entry.adjustmentMinutes);
+      addToLine(entry.jobType, rate, minutes, 1);
+      if (rate.mode === 'hourly') hourlyMinutes += minutes;
+
+      if (settings.travelPaid && entry.travelMinutes > 0) {
+        addToLine('travel', defaultRate, entry.travelMinutes, 0);
+        hourlyMinutes += entry.travelMinutes;
+      }
+    });
+
+    const untiedMinutes = sum(
+      day.adjustments
+        .filter(adjustment => !adjustment.jobId || !entryJobIds.has(adjustment.jobId))
+        .map(adjustment => adjustment.minutes)
+    );
+    if (untiedMinutes !== 0) {
+      addToLine('adjustment', defaultRate, untiedMinutes, 0);
+      hourlyMinutes += untiedMinutes;
+    }
+
+    return Math.max(0, hourlyMinutes);
+  });
+
+  const dailyOvertime = dailyHourlyMinutes.map(minutes => Math.max(0, minutes - settings.dailyOvertimeAfterMinutes));
+  const regularMinutes = sum(dailyHourlyMinutes) - sum(dailyOvertime);
+  const overtimeMinutes = sum(dailyOvertime) + Math.max(0, regularMinutes - settings.weeklyOvertimeAfterMinutes);
+  const overtimeAmount = roundMoney(
+    (overtimeMinutes / 60) * settings.defaultHourlyRate * (settings.overtimeMultiplier - 1)
+  );
+
+  const pricedLines = [...lines.values()]
+    .filter(line => line.jobs > 0 || line.minutes !== 0)
+    .map(line => ({
+      ...line,
+      amount: roundMoney(line.mode === 'per_job' ? line.jobs * line.rate : (line.minutes / 60) * line.rate),
+    }));
+
+  return {
+    staffId: timesheet.staffId,
+    ...(timesheet.staffName && { staffName: timesheet.staffName }),
+    periodId: timesheet.period.id,
+    status: timesheet.status,
+    hourlyMinutes: sum(dailyHourlyMinutes),
+    overtimeMinutes,
+    lines: pricedLines,
+    overtimeAmount,
+    total: roundMoney(sum(pricedLines.map(line => line.amount)) + overtimeAmount),
+  };
+};
+
+export const toPayrollExport = (
+  period: PayPeriod,
+  records: PayrollRecord[],
+  settings: PayrollSettings,
+  now: Date
+): PayrollExport => ({
+  periodId: period.id,
+  periodStart: toDateKey(period.start),
+  periodEnd: toDateKey(new Date(period.end.getTime() - DAY_MS)),
+  currency: settings.currency,
+  generatedAt: now.toISOString(),
+  records,
+});
+
+const csvCell = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per pay line, plus an overtime row for anyone who has overtime
+ */
+export const toPayrollCsv = (payroll: PayrollExport): string => {
+  const header = ['period', 'staff_id', 'staff_name', 'status', 'item', 'mode', 'jobs', 'hours', 'rate', 'amount', 'currency'];
+  const rows = payroll.records.flatMap(record => {
+    const base = [payroll.periodId, record.staffId, record.staffName, record.status];
+    const lineRows = record.lines.map(line => [
+      ...base,
+      line.jobType,
+      line.mode,
+      line.jobs,
+      (line.minutes / 60).toFixed(2),
+      line.rate,
+      line.amount.toFixed(2),
+      payroll.currency,
+    ]);
+    return record.overtimeMinutes > 0
+      ? [...lineRows, [...base, 'overtime', 'hourly', 0, (record.overtimeMinutes / 60).toFixed(2), '', record.overtimeAmount.toFixed(2), payroll.currency]]
+      : lineRows;
+  });
+
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
+
+export const toPayrollJson = (payroll: PayrollExport): string => JSON.stringify(payroll, null, 2);
+
+export const formatMinutes = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '';
+  const absolute = Math.abs(minutes);
+  return `${sign}${Math.floor(absolute / 60)}h ${pad(absolute % 60)}m`;
+};
+
+export default {
+  DEFAULT_PAYROLL_SETTINGS,
+  toDateKey,
+  getPayPeriod,
+  canAdjustPeriod,
+  canTransitionPeriod,
+  buildTimesheetEntries,
+  buildTimesheetDays,
+  buildWeeklyTimesheet,
+  getPayRate,
+  calculatePayroll,
+  toPayrollExport,
+  toPayrollCsv,
+  toPayrollJson,
+  formatMinutes,
+};
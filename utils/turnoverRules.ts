@@ -0,0 +1,418 @@
+/**
+ * Turnover Rules
+ * Plans the jobs a property needs around its bookings: a checkout process when
+ * guests leave, a cleaning between stays, check-in prep before arrival and an
+ * inspection every N stays.
+ *
+ * Rules come from defaults per PropertyType and can be overridden per property.
+ * Planned jobs carry a stable key (booking + rule) so a booking that moves or is
+ * cancelled reschedules or cancels the same jobs instead of creating new ones.
+ * "Every N stays" counts from a per-property stay number assigned once per
+ * booking, not from the booking's position in the planning window.
+ */
+
+import type { BookingData } from '@/lib/realtimeDatabase';
+import type { JobData } from '@/types/jobData';
+import type { PropertyType } from '@/types/property';
+import { normalizeJobStatus } from '@/utils/jobStateMachine';
+
+export type TurnoverTrigger =
+  | 'checkout'          // at the guest's checkout time
+  | 'between_stays'     // after checkout, ready before the next arrival
+  | 'before_checkin'    // finished before the guest arrives
+  | 'every_n_stays';    // after checkout on every Nth stay
+
+export interface TurnoverRule {
+  id: string;
+  trigger: TurnoverTrigger;
+  jobType: JobData['jobType'];
+  title: string;
+  estimatedDuration: number; // minutes
+  priority: JobData['priority'];
+  // Minutes after checkout to start, or before check-in to be finished
+  offsetMinutes: number;
+  everyNStays?: number;
+  requiredSkills?: string[];
+  enabled: boolean;
+}
+
+export interface TurnoverRuleSet {
+  checkInTime: string;  // HH:mm, used when a booking only has a date
+  checkOutTime: string; // HH:mm
+  rules: TurnoverRule[];
+}
+
+// Per property or per type overrides; rules are matched by id
+export interface TurnoverRuleOverride {
+  checkInTime?: string;
+  checkOutTime?: string;
+  rules?: (Partial<TurnoverRule> & { id: string })[];
+}
+
+export type TurnoverBooking = Pick<BookingData, 'id' | 'propertyId' | 'guestName' | 'checkIn' | 'checkOut' | 'status'>;
+
+// Stay number per booking id, 1-based, assigned once per property
+export type StayNumbers = Record<string, number>;
+
+export interface PlannedTurnoverJob {
+  key: string; // `${bookingId}_${ruleId}`, stable across reschedules
+  bookingId: string;
+  propertyId: string;
+  ruleId: string;
+  jobType: JobData['jobType'];
+  title: string;
+  priority: JobData['priority'];
+  estimatedDuration: number;
+  scheduledFor: Date;
+  deadline: Date | null;
+  requiredSkills: string[];
+  sameDayTurnover: boolean;
+}
+
+export interface TurnoverGap {
+  previousBookingId: string;
+  nextBookingId: string;
+  checkOutAt: Date;
+  checkInAt: Date;
+  gapMinutes: number;
+  requiredMinutes: number; // total estimated duration of the jobs in the gap
+  isTight: boolean;
+}
+
+// A generated job already stored, as far as reconciling needs to know
+export interface ExistingTurnoverJob {
+  id: string;
+  key: string;
+  bookingId: string;
+  status: string;
+  scheduledFor: Date | null;
+  deadline: Date | null;
+  sameDayTurnover?: boolean;
+}
+
+export interface TurnoverJobChanges {
+  create: PlannedTurnoverJob[];
+  reschedule: { job: ExistingTurnoverJob; planned: PlannedTurnoverJob }[];
+  cancel: ExistingTurnoverJob[];
+}
+
+export const DEFAULT_TURNOVER_RULES: TurnoverRuleSet = {
+  checkInTime: '15:00',
+  checkOutTime: '11:00',
+  rules: [
+    {
+      id: 'checkout',
+      trigger: 'checkout',
+      jobType: 'checkout_process',
+      title: 'Guest checkout',
+      estimatedDuration: 30,
+      priority: 'medium',
+      offsetMinutes: 0,
+      requiredSkills: ['checkout'],
+      enabled: true,
+    },
+    {
+      id: 'cleaning',
+      trigger: 'between_stays',
+      jobType: 'cleaning',
+      title: 'Turnover cleaning',
+      estimatedDuration: 180,
+      priority: 'high',
+      offsetMinutes: 30,
+      requiredSkills: ['cleaning'],
+      enabled: true,
+    },
+    {
+      id: 'checkin_prep',
+      trigger: 'before_checkin',
+      jobType: 'checkin_prep',
+      title: 'Check-in preparation',
+      estimatedDuration: 45,
+      priority: 'high',
+      offsetMinutes: 30,
+      requiredSkills: [],
+      enabled: true,
+    },
+    {
+      id: 'inspection',
+      trigger: 'every_n_stays',
+      jobType: 'inspection',
+      title: 'Property inspection',
+      estimatedDuration: 60,
+      priority: 'medium',
+      offsetMinutes: 30,
+      everyNStays: 5,
+      requiredSkills: ['inspection'],
+      enabled: true,
+    },
+  ],
+};
+
+// Larger properties take longer to turn over
+export const PROPERTY_TYPE_RULES: Partial<Record<PropertyType, TurnoverRuleOverride>> = {
+  villa: {
+    rules: [
+      { id: 'cleaning', estimatedDuration: 240 },
+      { id: 'inspection', everyNStays: 3 },
+    ],
+  },
+  house: {
+    rules: [{ id: 'cleaning', estimatedDuration: 210 }],
+  },
+  condo: {
+    rules: [{ id: 'cleaning', estimatedDuration: 120 }],
+  },
+  apartment: {
+    rules: [{ id: 'cleaning', estimatedDuration: 120 }],
+  },
+  hotel: {
+    checkInTime: '14:00',
+    checkOutTime: '12:00',
+    rules: [
+      { id: 'cleaning', estimatedDuration: 60 },
+      { id: 'inspection', everyNStays: 10 },
+    ],
+  },
+};
+
+// Bookings in these statuses no longer need turnover jobs
+const INACTIVE_BOOKING_STATUSES = ['cancelled'];
+
+// Generated jobs in these statuses are left alone when their booking changes
+const LOCKED_JOB_STATUSES = ['in_progress', 'completed', 'verified', 'cancelled'];
+
+const MINUTE_MS = 60 * 1000;
+
+const applyOverride = (ruleSet: TurnoverRuleSet, override?: TurnoverRuleOverride | null): TurnoverRuleSet => {
+  if (!override) return ruleSet;
+
+  const rules = ruleSet.rules.map(rule => {
+    const ruleOverride = override.rules?.find(r => r.id === rule.id);
+    return ruleOverride ? { ...rule, ...ruleOverride } : rule;
+  });
+  const added = (override.rules || [])
+    .filter(r => !ruleSet.rules.some(rule => rule.id === r.id))
+    .filter((r): r is TurnoverRule => !!r.trigger && !!r.jobType && !!r.title);
+
+  return {
+    checkInTime: override.checkInTime || ruleSet.checkInTime,
+    checkOutTime: override.checkOutTime || ruleSet.checkOutTime,
+    rules: [...rules, ...added],
+  };
+};
+
+/**
+ * Effective rules for a property: defaults, then its type, then its own overrides
+ */
+export const resolveTurnoverRules = (
+  propertyType?: PropertyType | null,
+  typeOverride?: TurnoverRuleOverride | null,
+  propertyOverride?: TurnoverRuleOverride | null
+): TurnoverRuleSet => {
+  let ruleSet = DEFAULT_TURNOVER_RULES;
+  if (propertyType) {
+    ruleSet = applyOverride(ruleSet, PROPERTY_TYPE_RULES[propertyType]);
+  }
+  ruleSet = applyOverride(ruleSet, typeOverride);
+  return applyOverride(ruleSet, propertyOverride);
+};
+
+/**
+ * Booking dates are usually plain dates; add the property's standard time
+ */
+export const toBookingDateTime = (value: string, defaultTime: string): Date =>
+  value.includes('T') ? new Date(value) : new Date(`${value}T${defaultTime}:00`);
+
+const sortStays = (bookings: TurnoverBooking[]): TurnoverBooking[] =>
+  bookings
+    .filter(booking => !INACTIVE_BOOKING_STATUSES.includes(booking.status))
+    .sort((a, b) => a.checkIn.localeCompare(b.checkIn));
+
+const rulesFor = (ruleSet: TurnoverRuleSet, trigger: TurnoverTrigger) =>
+  ruleSet.rules.filter(rule => rule.enabled && rule.trigger === trigger);
+
+// Every-N-stays rules due after the stay with this number
+const dueEveryNStays = (ruleSet: TurnoverRuleSet, stayNumber: number | undefined) =>
+  rulesFor(ruleSet, 'every_n_stays')
+    .filter(rule => rule.everyNStays && stayNumber && stayNumber % rule.everyNStays === 0);
+
+/**
+ * Number stays that have no number yet, in check-in order, after the highest
+ * number the property already used. Existing numbers never shift and
+ * cancelled stays keep theirs, so old bookings dropping out of the planning
+ * window do not move the "every N stays" jobs onto other bookings.
+ */
+export const assignStayNumbers = (
+  bookings: TurnoverBooking[],
+  existing: StayNumbers = {}
+): StayNumbers => {
+  const numbers: StayNumbers = { ...existing };
+  let last = Math.max(0, ...Object.values(existing));
+  sortStays(bookings)
+    .filter(booking => numbers[booking.id] === undefined)
+    .forEach(booking => {
+      numbers[booking.id] = ++last;
+    });
+  return numbers;
+};
+
+/**
+ * Gaps between consecutive stays, flagged when the jobs planned in them
+ * take longer than the time available
+ */
+export const findTurnoverGaps = (
+  bookings: TurnoverBooking[],
+  ruleSet: TurnoverRuleSet,
+  stayNumbers: StayNumbers = assignStayNumbers(bookings)
+): TurnoverGap[] => {
+  const stays = sortStays(bookings);
+  const gaps: TurnoverGap[] = [];
+
+  for (let i = 0; i < stays.length - 1; i++) {
+    const previous = stays[i];
+    const next = stays[i + 1];
+    const checkOutAt = toBookingDateTime(previous.checkOut, ruleSet.checkOutTime);
+    const checkInAt = toBookingDateTime(next.checkIn, ruleSet.checkInTime);
+
+    const inspection = dueEveryNStays(ruleSet, stayNumbers[previous.id]);
+    const requiredMinutes = [
+      ...rulesFor(ruleSet, 'checkout'),
+      ...rulesFor(ruleSet, 'between_stays'),
+      ...rulesFor(ruleSet, 'before_checkin'),
+      ...inspection,
+    ].reduce((total, rule) => total + rule.estimatedDuration, 0);
+    const gapMinutes = Math.round((checkInAt.getTime() - checkOutAt.getTime()) / MINUTE_MS);
+
+    gaps.push({
+      previousBookingId: previous.id,
+      nextBookingId: next.id,
+      checkOutAt,
+      checkInAt,
+      gapMinutes,
+      requiredMinutes,
+      isTight: gapMinutes < requiredMinutes,
+    });
+  }
+
+  return gaps;
+};
+
+/**
+ * Every job the rules call for across a property's bookings. Pass the
+ * property's stored stay numbers; without them stays are numbered by position.
+ */
+export const planTurnoverJobs = (
+  bookings: TurnoverBooking[],
+  ruleSet: TurnoverRuleSet,
+  stayNumbers: StayNumbers = assignStayNumbers(bookings)
+): PlannedTurnoverJob[] => {
+  const stays = sortStays(bookings);
+  const gaps = findTurnoverGaps(stays, ruleSet, stayNumbers);
+  const planned: PlannedTurnoverJob[] = [];
+
+  const plan = (
+    booking: TurnoverBooking,
+    rule: TurnoverRule,
+    scheduledFor: Date,
+    deadline: Date | null,
+    gap?: TurnoverGap
+  ) => {
+    planned.push({
+      key: `${booking.id}_${rule.id}`,
+      bookingId: booking.id,
+      propertyId: booking.propertyId,
+      ruleId: rule.id,
+      jobType: rule.jobType,
+      title: `${rule.title} - ${booking.guestName}`,
+      priority: gap?.isTight ? 'urgent' : rule.priority,
+      estimatedDuration: rule.estimatedDuration,
+      scheduledFor,
+      deadline,
+      requiredSkills: rule.requiredSkills || [],
+      sameDayTurnover: !!gap?.isTight,
+    });
+  };
+
+  stays.forEach((booking, index) => {
+    const checkInAt = toBookingDateTime(booking.checkIn, ruleSet.checkInTime);
+    const checkOutAt = toBookingDateTime(booking.checkOut, ruleSet.checkOutTime);
+    const gapBefore = gaps[index - 1];
+    const gapAfter = gaps[index];
+    // Jobs after this stay must be done before the next guest arrives
+    const nextCheckIn = gapAfter ? gapAfter.checkInAt : null;
+
+    rulesFor(ruleSet, 'before_checkin').forEach(rule => {
+      const deadline = new Date(checkInAt.getTime() - rule.offsetMinutes * MINUTE_MS);
+      const scheduledFor = new Date(deadline.getTime() - rule.estimatedDuration * MINUTE_MS);
+      plan(booking, rule, scheduledFor, deadline, gapBefore);
+    });
+
+    rulesFor(ruleSet, 'checkout').forEach(rule => {
+      plan(booking, rule, new Date(checkOutAt.getTime() + rule.offsetMinutes * MINUTE_MS), nextCheckIn, gapAfter);
+    });
+
+    rulesFor(ruleSet, 'between_stays').forEach(rule => {
+      plan(booking, rule, new Date(checkOutAt.getTime() + rule.offsetMinutes * MINUTE_MS), nextCheckIn, gapAfter);
+    });
+
+    dueEveryNStays(ruleSet, stayNumbers[booking.id]).forEach(rule => {
+      plan(booking, rule, new Date(checkOutAt.getTime() + rule.offsetMinutes * MINUTE_MS), nextCheckIn, gapAfter);
+    });
+  });
+
+  return planned;
+};
+
+/**
+ * Compare planned jobs with what is stored: create the missing ones, move the
+ * ones whose booking changed and cancel the ones whose booking was cancelled
+ * or deleted. `bookings` is every booking known for the property, so a job
+ * whose booking is simply missing from a partial feed is kept.
+ * Jobs that are already started, finished or cancelled are never touched.
+ */
+export const diffTurnoverJobs = (
+  planned: PlannedTurnoverJob[],
+  existing: ExistingTurnoverJob[],
+  bookings: TurnoverBooking[]
+): TurnoverJobChanges => {
+  const changes: TurnoverJobChanges = { create: [], reschedule: [], cancel: [] };
+  const isLocked = (job: ExistingTurnoverJob) =>
+    LOCKED_JOB_STATUSES.includes(normalizeJobStatus(job.status) ?? job.status);
+  const liveBookingIds = new Set(
+    bookings.filter(booking => !INACTIVE_BOOKING_STATUSES.includes(booking.status)).map(booking => booking.id)
+  );
+
+  planned.forEach(plannedJob => {
+    const job = existing.find(e => e.key === plannedJob.key);
+    if (!job) {
+      changes.create.push(plannedJob);
+      return;
+    }
+    if (isLocked(job)) return;
+
+    const moved = job.scheduledFor?.getTime() !== plannedJob.scheduledFor.getTime() ||
+      (job.deadline?.getTime() ?? null) !== (plannedJob.deadline?.getTime() ?? null) ||
+      !!job.sameDayTurnover !== plannedJob.sameDayTurnover;
+    if (moved) {
+      changes.reschedule.push({ job, planned: plannedJob });
+    }
+  });
+
+  existing
+    .filter(job => !isLocked(job))
+    .filter(job => !planned.some(plannedJob => plannedJob.key === job.key))
+    .filter(job => !liveBookingIds.has(job.bookingId))
+    .forEach(job => changes.cancel.push(job));
+
+  return changes;
+};
+
+export default {
+  DEFAULT_TURNOVER_RULES,
+  PROPERTY_TYPE_RULES,
+  resolveTurnoverRules,
+  assignStayNumbers,
+  planTurnoverJobs,
+  findTurnoverGaps,
+  diffTurnoverJobs,
+};